@@ -2,17 +2,27 @@ import * as Yup from "yup";
 
 export const SalesFormValidation = Yup.object({
   party: Yup.string().required("Party selection is required"),
-  product_id: Yup.string().required("Product selection is required"),
-  price: Yup.number()
-    .typeError("Price must be a number")
-    .positive("Price must be greater than zero")
-    .required("Price is required"),
-
-  product_qty: Yup.number()
-    .typeError("Product quantity must be a number")
-    .integer("Product quantity must be an integer")
-    .positive("Product quantity must be greater than zero")
-    .required("Product quantity is required"),
+  items: Yup.array()
+    .of(
+      Yup.object({
+        product_id: Yup.string().required("Product selection is required"),
+        price: Yup.number()
+          .typeError("Price must be a number")
+          .positive("Price must be greater than zero")
+          .required("Price is required"),
+        quantity: Yup.number()
+          .typeError("Quantity must be a number")
+          .integer("Quantity must be an integer")
+          .positive("Quantity must be greater than zero")
+          .required("Quantity is required"),
+        GST: Yup.string()
+          .oneOf(["5", "12", "18"], "Select a valid GST rate")
+          .required("GST rate is required"),
+        uom: Yup.string(),
+        delivery_date: Yup.string(),
+      })
+    )
+    .min(1, "Add at least one product"),
 
   // product_type: Yup.string()
   //     .required('Product type is required'),
@@ -21,10 +31,6 @@ export const SalesFormValidation = Yup.object({
   //     .matches(/^[0-9]{10}$/, 'Phone must be exactly 10 digits')
   //     .required('Phone number is required'),
 
-  GST: Yup.string()
-    .oneOf(["5", "12", "18"], "Select a valid GST rate")
-    .required("GST rate is required"),
-
   mode_of_payment: Yup.string()
     .oneOf(
       ["Cash", "Cheque", "NEFT/RTGS", "UPI", "Credit Card", "Debit Card"],
@@ -34,7 +40,6 @@ export const SalesFormValidation = Yup.object({
 
   terms_of_delivery: Yup.string(),
   comment: Yup.string(),
-  uom: Yup.string(),
 });
 
 export const AssignFormValidation = Yup.object({
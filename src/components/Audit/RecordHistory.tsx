@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import Loading from "../../ui/Loading";
+import { colors } from "../../theme/colors";
+import { useLazyFetchRecordHistoryQuery } from "../../redux/api/api";
+import { AuditEvent } from "../../redux/api/types";
+import {
+  formatAuditField,
+  formatAuditValue,
+  getAuditAction,
+  getAuditUserName,
+} from "../utils/audit";
+
+interface RecordHistoryProps {
+  module: string;
+  recordId: string | undefined;
+}
+
+const RecordHistory: React.FC<RecordHistoryProps> = ({ module, recordId }) => {
+  const [fetchHistory, { data, isFetching }] = useLazyFetchRecordHistoryQuery();
+
+  useEffect(() => {
+    if (!recordId) return;
+    fetchHistory({ module, recordId })
+      .unwrap()
+      .catch((error: any) =>
+        toast.error(error?.message || "Could not load the record history")
+      );
+  }, [module, recordId, fetchHistory]);
+
+  const events: AuditEvent[] = data?.events || [];
+
+  if (isFetching) return <Loading />;
+
+  if (events.length === 0) {
+    return (
+      <p
+        className="py-10 text-sm text-center"
+        style={{ color: colors.text.secondary }}
+      >
+        No changes have been recorded for this record yet
+      </p>
+    );
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 ml-3">
+      {events.map((event) => {
+        const action = getAuditAction(event.action);
+        return (
+          <li key={event._id} className="mb-6 ml-6">
+            <span className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-gray-300 border-2 border-white" />
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                  action?.className || "bg-gray-100 text-gray-800"
+                }`}
+              >
+                {action?.label || event.action}
+              </span>
+              <span className="text-sm font-medium text-gray-800">
+                {getAuditUserName(event.user)}
+              </span>
+              <span className="text-xs text-gray-500">
+                {new Date(event.createdAt).toLocaleString()}
+              </span>
+            </div>
+
+            {event.changes && event.changes.length > 0 && (
+              <table className="mt-3 w-full text-sm border border-gray-100 rounded-lg overflow-hidden">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Field</th>
+                    <th className="px-3 py-2 text-left font-medium">Before</th>
+                    <th className="px-3 py-2 text-left font-medium">After</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {event.changes.map((change) => (
+                    <tr key={change.field} className="border-t border-gray-100">
+                      <td className="px-3 py-2 text-gray-700">
+                        {formatAuditField(change.field)}
+                      </td>
+                      <td className="px-3 py-2 text-red-700 line-through break-all">
+                        {formatAuditValue(change.from)}
+                      </td>
+                      <td className="px-3 py-2 text-green-700 break-all">
+                        {formatAuditValue(change.to)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default RecordHistory;
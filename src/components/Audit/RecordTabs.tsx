@@ -0,0 +1,54 @@
+import { ReactNode, useState } from "react";
+import { colors } from "../../theme/colors";
+import RecordHistory from "./RecordHistory";
+
+interface RecordTabsProps {
+  // Module name the backend records this record's audit entries under
+  module: string;
+  recordId: string | undefined;
+  children: ReactNode;
+}
+
+// Details / History switch shared by the entity details drawers
+const RecordTabs: React.FC<RecordTabsProps> = ({
+  module,
+  recordId,
+  children,
+}) => {
+  const [activeTab, setActiveTab] = useState<"details" | "history">(
+    "details"
+  );
+
+  return (
+    <>
+      <div className="flex gap-2 mb-4">
+        {(["details", "history"] as const).map((tab) => (
+          <button
+            key={tab}
+            onClick={() => setActiveTab(tab)}
+            className="px-4 py-2 text-sm font-medium rounded-lg border transition-all capitalize"
+            style={{
+              backgroundColor:
+                activeTab === tab ? colors.primary[50] : colors.background.card,
+              borderColor:
+                activeTab === tab ? colors.primary[300] : colors.border.medium,
+              color:
+                activeTab === tab ? colors.primary[700] : colors.text.primary,
+            }}
+          >
+            {tab}
+          </button>
+        ))}
+      </div>
+      {activeTab === "details" ? (
+        children
+      ) : (
+        <div className="bg-white rounded-lg p-4">
+          <RecordHistory module={module} recordId={recordId} />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default RecordTabs;
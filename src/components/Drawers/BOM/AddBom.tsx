@@ -5,7 +5,13 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useRef, useState } from "react";
 import Select from "react-select";
-import { useAddBomMutation } from "../../../redux/api/api";
+import {
+  useAddBomMutation,
+  useLazyFetchBomsQuery,
+  useLazyFetchEmployeesQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchResourcesQuery,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
 import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
@@ -22,6 +28,11 @@ import {
   Plus,
   Trash2,
 } from "lucide-react";
+import {
+  findBomById,
+  getSubAssemblyFields,
+  getSubAssemblyOptions,
+} from "../../utils/bomTree";
 
 interface AddBomProps {
   closeDrawerHandler: () => void;
@@ -33,7 +44,11 @@ const AddBom: React.FC<AddBomProps> = ({
   fetchBomsHandler,
 }) => {
   const [cookies] = useCookies();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [boms, setBoms] = useState<any[]>([]);
   const [bomName, setBomName] = useState<string | undefined>();
+  const [effectiveFrom, setEffectiveFrom] = useState<string>("");
   const [partsCount, setPartsCount] = useState<number>(0);
   const [totalPartsCost, setTotalPartsCost] = useState<number>(0);
   const [finishedGoodsOptions, setFinishedGoodsOptions] = useState<
@@ -89,6 +104,8 @@ const AddBom: React.FC<AddBomProps> = ({
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
 
   const [addBom] = useAddBomMutation();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchEmployees] = useLazyFetchEmployeesQuery();
 
   const [rawMaterials, setRawMaterials] = useState<any[]>([
     {
@@ -97,6 +114,7 @@ const AddBom: React.FC<AddBomProps> = ({
       quantity: "",
       uom: "",
       assembly_phase: "",
+      sub_bom: "",
       supplier: "",
       supporting_doc: "",
       comments: "",
@@ -175,6 +193,7 @@ const AddBom: React.FC<AddBomProps> = ({
       description: material?.description,
       quantity: material?.quantity,
       assembly_phase: material?.assembly_phase?.value,
+      sub_bom: material?.sub_bom || undefined,
       supplier: material?.supplier?.value,
       supporting_doc: material?.supporting_doc,
       comments: material?.comments,
@@ -203,6 +222,10 @@ const AddBom: React.FC<AddBomProps> = ({
         cost: cost,
       },
       bom_name: bomName,
+      // New BOMs start as a draft first revision and are used once approved
+      revision: 1,
+      revision_status: "Draft",
+      effective_from: effectiveFrom || undefined,
       parts_count: partsCount,
       total_cost: totalPartsCost,
       other_charges: {
@@ -249,19 +272,7 @@ const AddBom: React.FC<AddBomProps> = ({
   const fetchProductsHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts({}).unwrap();
       setProducts(results.products);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -270,22 +281,19 @@ const AddBom: React.FC<AddBomProps> = ({
     }
   };
 
+  const fetchBomsListHandler = async () => {
+    try {
+      const results = await fetchBoms({}).unwrap();
+      setBoms(results?.boms || []);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Could not load sub-assemblies");
+    }
+  };
+
   const fetchResourceHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "resources",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchResources({}).unwrap();
       setResources(results.resources);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -297,19 +305,7 @@ const AddBom: React.FC<AddBomProps> = ({
   const fetchEmployeeHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "auth/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchEmployees({}).unwrap();
       const manPowerUsers = results?.users?.filter((user: any) =>
         user.role?.role?.toLowerCase().includes("man power")
       );
@@ -375,11 +371,17 @@ const AddBom: React.FC<AddBomProps> = ({
     fetchProductsHandler();
     fetchResourceHandler();
     fetchEmployeeHandler();
+    fetchBomsListHandler();
   }, []);
 
   useEffect(() => {
+    // Semi finished goods get their own BOM to be used as sub-assemblies
     const finishedGoodsOptions = products
-      .filter((prd) => prd.category === "finished goods")
+      .filter(
+        (prd) =>
+          prd.category === "finished goods" ||
+          prd.category === "semi finished goods"
+      )
       .map((prd) => ({
         value: prd._id,
         label: prd.name,
@@ -637,6 +639,7 @@ const AddBom: React.FC<AddBomProps> = ({
                   {/* Table Header for larger screens */}
                   <div className="hidden sm:grid grid-cols-8 gap-1 bg-gradient-to-r from-blue-500 to-blue-500 text-white text-sm font-semibold uppercase tracking-wider px-3 py-2">
                     <div>Product Name</div>
+                    <div>Sub-assembly</div>
                     <div>Quantity</div>
                     <div>UOM</div>
                     {/* <div>Category</div> */}
@@ -666,6 +669,7 @@ const AddBom: React.FC<AddBomProps> = ({
                             onChange={(d) => {
                               const newMaterials = [...rawMaterials];
                               newMaterials[index].item_name = d;
+                              newMaterials[index].sub_bom = "";
                               const product = products.find(
                                 (p) => p._id === d?.value
                               );
@@ -683,6 +687,42 @@ const AddBom: React.FC<AddBomProps> = ({
                           />
                         </div>
 
+                        {/* Sub-assembly */}
+                        <div>
+                          <label className="sm:hidden text-xs font-semibold text-gray-700">
+                            Sub-assembly
+                          </label>
+                          <Select
+                            styles={customStyles}
+                            className="text-sm"
+                            options={getSubAssemblyOptions(boms)}
+                            placeholder="None"
+                            isClearable
+                            value={
+                              getSubAssemblyOptions(boms).find(
+                                (option) => option.value === material.sub_bom
+                              ) || null
+                            }
+                            onChange={(d) => {
+                              const newMaterials = [...rawMaterials];
+                              const subBom = findBomById(d?.value, boms);
+                              newMaterials[index] = {
+                                ...newMaterials[index],
+                                sub_bom: d?.value || "",
+                                ...(subBom
+                                  ? getSubAssemblyFields(subBom, boms)
+                                  : {}),
+                              };
+                              if (subBom && material.quantity) {
+                                newMaterials[index].total_part_cost =
+                                  newMaterials[index].unit_cost *
+                                  +material.quantity;
+                              }
+                              setRawMaterials(newMaterials);
+                            }}
+                          />
+                        </div>
+
                         {/* Quantity */}
                         <div>
                           <label className="sm:hidden text-xs font-semibold text-gray-700">
@@ -817,6 +857,7 @@ const AddBom: React.FC<AddBomProps> = ({
                                   uom: "",
                                   category: "",
                                   assembly_phase: "",
+                                  sub_bom: "",
                                   supplier: "",
                                   supporting_doc: "",
                                   comments: "",
@@ -1434,6 +1475,19 @@ const AddBom: React.FC<AddBomProps> = ({
                       />
                     </div>
 
+                    {/* Effective From */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Effective From
+                      </label>
+                      <input
+                        type="date"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+
                     {/* Parts Count */}
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
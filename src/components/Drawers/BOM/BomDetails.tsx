@@ -1,23 +1,107 @@
 //@ts-nocheck
-import { useEffect, useState } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
 import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
 import { BiX } from "react-icons/bi";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
 import Drawer from "../../../ui/Drawer";
+import RecordTabs from "../../Audit/RecordTabs";
+import {
+  useAddBomMutation,
+  useLazyBomDetailsQuery,
+  useLazyFetchBomsQuery,
+  useUpdateBOMMutation,
+} from "../../../redux/api/api";
+import {
+  BomTreeNode,
+  buildBomTree,
+  getRolledUpCost,
+  getSubBom,
+} from "../../utils/bomTree";
+import {
+  BomRevisionStatus,
+  bomRevisionStatusColorMap,
+  buildNextRevision,
+  buildRevisionStatusUpdate,
+  diffBomRevisions,
+  formatEffectiveDate,
+  getBomRevisions,
+  getEffectiveRevision,
+  getRevisionLabel,
+  getRevisionStatus,
+} from "../../utils/bomRevisions";
+import { useCan } from "../../utils/permissions";
+
+const diffRowColorMap: { [change: string]: string } = {
+  added: "bg-green-50",
+  removed: "bg-red-50",
+  changed: "bg-yellow-50",
+  unchanged: "",
+};
 
 interface BomDetailsProps {
   bomId: string | undefined;
   closeDrawerHandler: () => void;
+  // Refreshes the BOM list after a revision is approved or cloned
+  fetchBomsHandler?: () => void;
 }
 
+const BomTreeRows: React.FC<{
+  nodes: BomTreeNode[];
+  depth: number;
+  showCost: boolean;
+}> = ({ nodes, depth, showCost }) => (
+  <>
+    {nodes.map((node) => (
+      <div key={node.key}>
+        <div
+          className="flex items-center justify-between gap-3 py-1.5 border-b border-gray-200 text-sm"
+          style={{ paddingLeft: `${depth * 16}px` }}
+        >
+          <div>
+            <p className="text-gray-800">
+              {node.name}
+              {node.bom_name && (
+                <span className="ml-2 px-1.5 py-0.5 text-xs rounded bg-purple-100 text-purple-800">
+                  {node.bom_name}
+                </span>
+              )}
+            </p>
+            <p className="text-xs text-gray-500">
+              {node.quantity} {node.uom || ""}
+            </p>
+          </div>
+          <p className="text-gray-700 whitespace-nowrap">
+            {showCost ? `₹${node.total_cost.toFixed(2)}` : "₹****"}
+          </p>
+        </div>
+        <BomTreeRows
+          nodes={node.children}
+          depth={depth + 1}
+          showCost={showCost}
+        />
+      </div>
+    ))}
+  </>
+);
+
 const BomDetails: React.FC<BomDetailsProps> = ({
   bomId,
   closeDrawerHandler,
+  fetchBomsHandler,
 }) => {
   const [cookies] = useCookies();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [fetchBom] = useLazyBomDetailsQuery();
+  const [updateBom] = useUpdateBOMMutation();
+  const [addBom] = useAddBomMutation();
+  const can = useCan();
+  const [compareId, setCompareId] = useState<string>("");
+  const [isSaving, setIsSaving] = useState<boolean>(false);
   const [isLoadingBom, setIsLoadingBom] = useState<boolean>(false);
+  const [bom, setBom] = useState<any>();
+  const [boms, setBoms] = useState<any[]>([]);
   const [rawMaterials, setRawMaterials] = useState<any[] | []>([]);
   const [scrapMaterials, setScrapMaterials] = useState<any[] | []>([]);
   const [finishedGood, setFinishedGood] = useState<any | undefined>();
@@ -33,18 +117,8 @@ const BomDetails: React.FC<BomDetailsProps> = ({
     if (!bomId) return;
     try {
       setIsLoadingBom(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `bom/${bomId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) throw new Error(data.message);
-      console.log(data);
+      const data = await fetchBom(bomId).unwrap();
+      setBom(data.bom);
       setFinishedGood(data.bom.finished_good);
       setRawMaterials(data.bom.raw_materials);
       setBomName(data.bom.bom_name);
@@ -69,6 +143,68 @@ const BomDetails: React.FC<BomDetailsProps> = ({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Sub-assemblies and revisions are resolved against the full BOM list
+  const fetchBomsListHandler = useCallback(async () => {
+    try {
+      const data = await fetchBoms({}).unwrap();
+      setBoms(data?.boms || []);
+    } catch {
+      setBoms([]);
+    }
+  }, [fetchBoms]);
+
+  useEffect(() => {
+    fetchBomsListHandler();
+  }, [fetchBomsListHandler]);
+
+  const tree = useMemo(() => buildBomTree(bom, boms), [bom, boms]);
+  const hasSubAssemblies = tree.some((node) => node.children.length > 0);
+
+  const revisions = useMemo(() => {
+    const list = getBomRevisions(bom, boms);
+    return list.length > 0 ? list : bom ? [bom] : [];
+  }, [bom, boms]);
+  const effectiveRevision = getEffectiveRevision(revisions);
+  const otherRevisions = revisions.filter((rev) => rev._id !== bomId);
+  const compareBom =
+    otherRevisions.find((rev) => rev._id === compareId) || otherRevisions[0];
+  const diffRows = useMemo(
+    () => (compareBom && bom ? diffBomRevisions(compareBom, bom) : []),
+    [compareBom, bom]
+  );
+
+  const revisionStatusHandler = async (status: BomRevisionStatus) => {
+    if (!bom) return;
+    try {
+      setIsSaving(true);
+      const response = await updateBom(
+        buildRevisionStatusUpdate(bom, status)
+      ).unwrap();
+      toast.success(response?.message || `Revision marked ${status}`);
+      fetchBomDetails();
+      fetchBomsListHandler();
+      fetchBomsHandler?.();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const cloneRevisionHandler = async () => {
+    try {
+      setIsSaving(true);
+      const response = await addBom(buildNextRevision(bom, boms)).unwrap();
+      toast.success(response?.message || "Draft revision created");
+      fetchBomsListHandler();
+      fetchBomsHandler?.();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div
       className="absolute overflow-auto h-[100vh] w-[90vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
@@ -105,378 +241,556 @@ const BomDetails: React.FC<BomDetailsProps> = ({
         </button>
       </div>
 
-      {isLoadingBom ? (
-        <div className="flex justify-center py-10">
-          <Loading />
-        </div>
-      ) : (
-        <div className="space-y-8 m-3">
-          {/* General Info */}
-          <div className="bg-white p-6 shadow-lg rounded-lg border">
-            <h3 className="text-xl font-semibold mb-4 text-teal-600">
-              General Information
-            </h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div>
-                <p className="font-semibold text-gray-600">BOM Name</p>
-                <p className="text-gray-800">{bomName ?? "N/A"}</p>
-              </div>
-              <div>
-                <p className="font-semibold text-gray-600">Parts Count</p>
-                <p className="text-gray-800">{partsCount ?? 0}</p>
-              </div>
-              <div>
-                <p className="font-semibold text-gray-600">Total Cost</p>
-                <p className="text-gray-800 text-lg font-bold">
-                  <p>
-                    {cookies?.role === "admin"
-                      ? `₹${totalBomCost?.toLocaleString() || 0}`
-                      : "₹*****"}
-                  </p>
-                </p>
-              </div>
+      <div className="mt-4 px-3">
+        <RecordTabs module="bom" recordId={bomId}>
+          {isLoadingBom ? (
+            <div className="flex justify-center py-10">
+              <Loading />
             </div>
-          </div>
-
-          {/* Raw Materials */}
-          {rawMaterials && rawMaterials.length > 0 && (
-            <div className="bg-blue-50 p-6 shadow-lg rounded-lg border border-blue-300">
-              <h3 className="text-xl font-semibold mb-4 text-blue-600">
-                Raw Materials
-              </h3>
-              <ul className="pl-5 list-disc space-y-4">
-                {rawMaterials.map((material, index) => (
-                  <li key={index} className="space-y-1">
-                    <p>
-                      <span className="font-semibold text-gray-600">
-                        Item ID:
-                      </span>{" "}
-                      {material?.item?.product_id ?? "N/A"}
+          ) : (
+            <div className="space-y-8 m-3">
+              {/* General Info */}
+              <div className="bg-white p-6 shadow-lg rounded-lg border">
+                <h3 className="text-xl font-semibold mb-4 text-teal-600">
+                  General Information
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <p className="font-semibold text-gray-600">BOM Name</p>
+                    <p className="text-gray-800">{bomName ?? "N/A"}</p>
+                  </div>
+                  <div>
+                    <p className="font-semibold text-gray-600">Parts Count</p>
+                    <p className="text-gray-800">{partsCount ?? 0}</p>
+                  </div>
+                  <div>
+                    <p className="font-semibold text-gray-600">Total Cost</p>
+                    <p className="text-gray-800 text-lg font-bold">
+                      <p>
+                        {cookies?.role === "admin"
+                          ? `₹${totalBomCost?.toLocaleString() || 0}`
+                          : "₹*****"}
+                      </p>
                     </p>
-                    <p>
+                  </div>
+                  {hasSubAssemblies && (
+                    <div>
+                      <p className="font-semibold text-gray-600">
+                        Rolled-up Material Cost
+                      </p>
+                      <p className="text-gray-800 text-lg font-bold">
+                        {cookies?.role === "admin"
+                          ? `₹${getRolledUpCost(bom, boms).toLocaleString()}`
+                          : "₹*****"}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Revisions */}
+              {bom && (
+                <div className="bg-sky-50 p-6 shadow-lg rounded-lg border border-sky-300">
+                  <h3 className="text-xl font-semibold mb-4 text-sky-600">
+                    Revisions
+                  </h3>
+                  <ul className="space-y-2">
+                    {revisions.map((rev) => (
+                      <li
+                        key={rev._id}
+                        className="flex items-center justify-between gap-3 text-sm"
+                      >
+                        <div>
+                          <p className="font-medium text-gray-800">
+                            {getRevisionLabel(rev)}
+                            {rev._id === bomId && (
+                              <span className="ml-2 text-xs font-normal text-gray-500">
+                                (viewing)
+                              </span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Effective: {formatEffectiveDate(rev.effective_from)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {effectiveRevision?._id === rev._id && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                              Current
+                            </span>
+                          )}
+                          <span
+                            className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                              bomRevisionStatusColorMap[getRevisionStatus(rev)]
+                            }`}
+                          >
+                            {getRevisionStatus(rev)}
+                          </span>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {getRevisionStatus(bom) === "Draft" &&
+                      can("production", "approve") && (
+                        <button
+                          disabled={isSaving}
+                          onClick={() => revisionStatusHandler("Approved")}
+                          className="px-3 py-1.5 text-sm rounded bg-green-600 hover:bg-green-700 text-white disabled:opacity-50"
+                        >
+                          Approve
+                        </button>
+                      )}
+                    {getRevisionStatus(bom) === "Approved" &&
+                      can("production", "approve") && (
+                        <button
+                          disabled={isSaving}
+                          onClick={() => revisionStatusHandler("Obsolete")}
+                          className="px-3 py-1.5 text-sm rounded bg-red-600 hover:bg-red-700 text-white disabled:opacity-50"
+                        >
+                          Mark Obsolete
+                        </button>
+                      )}
+                    {can("production", "create") && (
+                      <button
+                        disabled={isSaving}
+                        onClick={cloneRevisionHandler}
+                        className="px-3 py-1.5 text-sm rounded bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-50"
+                      >
+                        Clone as New Revision
+                      </button>
+                    )}
+                  </div>
+
+                  {compareBom && (
+                    <div className="mt-6 space-y-3">
+                      <div className="flex items-center gap-2 text-sm">
+                        <span className="font-semibold text-gray-600">
+                          Compare with
+                        </span>
+                        <select
+                          value={compareBom._id}
+                          onChange={(e) => setCompareId(e.target.value)}
+                          className="px-2 py-1 border border-gray-300 rounded bg-white"
+                        >
+                          {otherRevisions.map((rev) => (
+                            <option key={rev._id} value={rev._id}>
+                              {getRevisionLabel(rev)} ({getRevisionStatus(rev)})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <table className="w-full text-xs bg-white rounded">
+                        <thead>
+                          <tr className="text-left text-gray-600 border-b">
+                            <th className="p-2 font-medium">Item</th>
+                            <th className="p-2 font-medium">
+                              {getRevisionLabel(compareBom)}
+                            </th>
+                            <th className="p-2 font-medium">
+                              {getRevisionLabel(bom)}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {diffRows.map((row, index) => (
+                            <Fragment key={row.key}>
+                              {(index === 0 ||
+                                diffRows[index - 1].section !==
+                                  row.section) && (
+                                <tr>
+                                  <td
+                                    colSpan={3}
+                                    className="p-2 font-semibold text-gray-700 bg-gray-50"
+                                  >
+                                    {row.section}
+                                  </td>
+                                </tr>
+                              )}
+                              <tr
+                                className={`border-b text-gray-700 ${
+                                  diffRowColorMap[row.change]
+                                }`}
+                              >
+                                <td className="p-2">{row.label}</td>
+                                <td className="p-2">{row.before ?? "—"}</td>
+                                <td className="p-2">{row.after ?? "—"}</td>
+                              </tr>
+                            </Fragment>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Structure */}
+              {hasSubAssemblies && (
+                <div className="bg-purple-50 p-6 shadow-lg rounded-lg border border-purple-300">
+                  <h3 className="text-xl font-semibold mb-4 text-purple-600">
+                    Structure
+                  </h3>
+                  <BomTreeRows
+                    nodes={tree}
+                    depth={0}
+                    showCost={cookies?.role === "admin"}
+                  />
+                </div>
+              )}
+
+              {/* Raw Materials */}
+              {rawMaterials && rawMaterials.length > 0 && (
+                <div className="bg-blue-50 p-6 shadow-lg rounded-lg border border-blue-300">
+                  <h3 className="text-xl font-semibold mb-4 text-blue-600">
+                    Raw Materials
+                  </h3>
+                  <ul className="pl-5 list-disc space-y-4">
+                    {rawMaterials.map((material, index) => (
+                      <li key={index} className="space-y-1">
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Item ID:
+                          </span>{" "}
+                          {material?.item?.product_id ?? "N/A"}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Item Name:
+                          </span>{" "}
+                          {material?.item?.name ?? "N/A"}
+                        </p>
+                        {material?.sub_bom ? (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Sub-assembly:
+                            </span>{" "}
+                            {getSubBom(material, boms)?.bom_name ||
+                              material?.sub_bom?.bom_name ||
+                              "N/A"}
+                          </p>
+                        ) : null}
+                        {material?.item?.color ? (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Item Color:
+                            </span>{" "}
+                            {material?.item?.color}
+                          </p>
+                        ) : null}
+                        {material?.item?.code ? (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Item Code:
+                            </span>{" "}
+                            {material?.item?.code}
+                          </p>
+                        ) : null}
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Quantity:
+                          </span>{" "}
+                          {material?.quantity}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">UOM:</span>{" "}
+                          {material?.item?.uom}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Total Part Cost:
+                          </span>{" "}
+                          ₹{" "}
+                          {cookies?.role === "admin"
+                            ? material?.total_part_cost ?? 0
+                            : "****"}
+                          /-
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Processes */}
+              {processes && processes.length > 0 && (
+                <div className="bg-green-50 p-6 shadow-lg rounded-lg border border-green-300">
+                  <h3 className="text-xl font-semibold mb-4 text-green-600">
+                    Processes
+                  </h3>
+                  <ul className="pl-5 list-disc space-y-2">
+                    {processes.map((process, index) => (
+                      <li key={index} className="text-gray-800">
+                        {process}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Finished Good */}
+              {finishedGood && (
+                <div className="bg-yellow-50 p-6 shadow-lg rounded-lg border border-yellow-300">
+                  <h3 className="text-xl font-semibold mb-4 text-yellow-600">
+                    Finished Good
+                  </h3>
+                  <ul className="pl-5 space-y-3">
+                    <li>
+                      <span className="font-semibold text-gray-600">Item ID:</span>{" "}
+                      {finishedGood?.item?.product_id ?? "N/A"}
+                    </li>
+                    <li>
                       <span className="font-semibold text-gray-600">
                         Item Name:
                       </span>{" "}
-                      {material?.item?.name ?? "N/A"}
-                    </p>
-                    {material?.item?.color ? (
-                      <p>
+                      {finishedGood?.item?.name ?? "N/A"}
+                    </li>
+
+                    {finishedGood?.item?.color ? (
+                      <li>
                         <span className="font-semibold text-gray-600">
                           Item Color:
                         </span>{" "}
-                        {material?.item?.color}
-                      </p>
+                        {finishedGood?.item?.color}
+                      </li>
                     ) : null}
-                    {material?.item?.code ? (
-                      <p>
+                    {finishedGood?.item?.code ? (
+                      <li>
                         <span className="font-semibold text-gray-600">
                           Item Code:
                         </span>{" "}
-                        {material?.item?.code}
-                      </p>
+                        {finishedGood?.item?.code}
+                      </li>
                     ) : null}
-                    <p>
-                      <span className="font-semibold text-gray-600">
-                        Quantity:
-                      </span>{" "}
-                      {material?.quantity}
-                    </p>
-                    <p>
+                    <li>
+                      <span className="font-semibold text-gray-600">Quantity:</span>{" "}
+                      {finishedGood.quantity}
+                    </li>
+                    <li>
                       <span className="font-semibold text-gray-600">UOM:</span>{" "}
-                      {material?.item?.uom}
-                    </p>
-                    <p>
+                      {finishedGood?.item?.uom}
+                    </li>
+                    <li>
+                      <span className="font-semibold text-gray-600">Category:</span>{" "}
+                      {finishedGood?.item?.category}
+                    </li>
+                    <li>
+                      <li>
+                        <span className="font-semibold text-gray-600">Cost:</span> ₹{" "}
+                        {cookies?.role === "admin"
+                          ? finishedGood.cost ?? 0
+                          : "****"}
+                        /-
+                      </li>
+                    </li>
+                    <li>
                       <span className="font-semibold text-gray-600">
-                        Total Part Cost:
+                        Supporting Document:
                       </span>{" "}
-                      ₹{" "}
-                      {cookies?.role === "admin"
-                        ? material?.total_part_cost ?? 0
-                        : "****"}
-                      /-
-                    </p>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Processes */}
-          {processes && processes.length > 0 && (
-            <div className="bg-green-50 p-6 shadow-lg rounded-lg border border-green-300">
-              <h3 className="text-xl font-semibold mb-4 text-green-600">
-                Processes
-              </h3>
-              <ul className="pl-5 list-disc space-y-2">
-                {processes.map((process, index) => (
-                  <li key={index} className="text-gray-800">
-                    {process}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
+                      {finishedGood.supporting_doc ? (
+                        <a
+                          href={finishedGood.supporting_doc}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="underline text-teal-600"
+                        >
+                          Open
+                        </a>
+                      ) : (
+                        "N/A"
+                      )}
+                    </li>
+                  </ul>
+                </div>
+              )}
 
-          {/* Finished Good */}
-          {finishedGood && (
-            <div className="bg-yellow-50 p-6 shadow-lg rounded-lg border border-yellow-300">
-              <h3 className="text-xl font-semibold mb-4 text-yellow-600">
-                Finished Good
-              </h3>
-              <ul className="pl-5 space-y-3">
-                <li>
-                  <span className="font-semibold text-gray-600">Item ID:</span>{" "}
-                  {finishedGood?.item?.product_id ?? "N/A"}
-                </li>
-                <li>
-                  <span className="font-semibold text-gray-600">
-                    Item Name:
-                  </span>{" "}
-                  {finishedGood?.item?.name ?? "N/A"}
-                </li>
-
-                {finishedGood?.item?.color ? (
-                  <li>
-                    <span className="font-semibold text-gray-600">
-                      Item Color:
-                    </span>{" "}
-                    {finishedGood?.item?.color}
-                  </li>
-                ) : null}
-                {finishedGood?.item?.code ? (
-                  <li>
-                    <span className="font-semibold text-gray-600">
-                      Item Code:
-                    </span>{" "}
-                    {finishedGood?.item?.code}
-                  </li>
-                ) : null}
-                <li>
-                  <span className="font-semibold text-gray-600">Quantity:</span>{" "}
-                  {finishedGood.quantity}
-                </li>
-                <li>
-                  <span className="font-semibold text-gray-600">UOM:</span>{" "}
-                  {finishedGood?.item?.uom}
-                </li>
-                <li>
-                  <span className="font-semibold text-gray-600">Category:</span>{" "}
-                  {finishedGood?.item?.category}
-                </li>
-                <li>
-                  <li>
-                    <span className="font-semibold text-gray-600">Cost:</span> ₹{" "}
-                    {cookies?.role === "admin"
-                      ? finishedGood.cost ?? 0
-                      : "****"}
-                    /-
-                  </li>
-                </li>
-                <li>
-                  <span className="font-semibold text-gray-600">
-                    Supporting Document:
-                  </span>{" "}
-                  {finishedGood.supporting_doc ? (
-                    <a
-                      href={finishedGood.supporting_doc}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="underline text-teal-600"
-                    >
-                      Open
-                    </a>
-                  ) : (
-                    "N/A"
-                  )}
-                </li>
-              </ul>
-            </div>
-          )}
+              {/* Scrap Materials */}
+              {scrapMaterials && scrapMaterials.length > 0 && (
+                <div className="bg-red-50 p-6 shadow-lg rounded-lg border border-red-300">
+                  <h3 className="text-xl font-semibold mb-4 text-red-600">
+                    Scrap Materials
+                  </h3>
+                  <ul className="pl-5 list-disc space-y-4">
+                    {scrapMaterials.map((material, index) => (
+                      <li key={index} className="space-y-1">
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Item ID:
+                          </span>{" "}
+                          {material?.item?.product_id}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Item Name:
+                          </span>{" "}
+                          {material?.item?.name}
+                        </p>
+                        {material?.item?.color ? (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Item Color:
+                            </span>{" "}
+                            {material?.item?.color}
+                          </p>
+                        ) : null}
+                        {material?.item?.code ? (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Item Code:
+                            </span>{" "}
+                            {material?.item?.code}
+                          </p>
+                        ) : null}
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Quantity:
+                          </span>{" "}
+                          {material?.quantity}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">UOM:</span>{" "}
+                          {material?.item?.uom}
+                        </p>
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Total Part Cost:
+                          </span>{" "}
+                          ₹{" "}
+                          {cookies?.role === "admin"
+                            ? material?.total_part_cost ?? 0
+                            : "****"}
+                          /-
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-          {/* Scrap Materials */}
-          {scrapMaterials && scrapMaterials.length > 0 && (
-            <div className="bg-red-50 p-6 shadow-lg rounded-lg border border-red-300">
-              <h3 className="text-xl font-semibold mb-4 text-red-600">
-                Scrap Materials
-              </h3>
-              <ul className="pl-5 list-disc space-y-4">
-                {scrapMaterials.map((material, index) => (
-                  <li key={index} className="space-y-1">
+              {/* Other Charges */}
+              {otherCharges && (
+                <div className="bg-purple-50 p-6 shadow-lg rounded-lg border border-purple-300">
+                  <h3 className="text-xl font-semibold mb-4 text-purple-600">
+                    Other Charges
+                  </h3>
+                  <div className="space-y-3">
                     <p>
                       <span className="font-semibold text-gray-600">
-                        Item ID:
+                        Labour Charges:
                       </span>{" "}
-                      {material?.item?.product_id}
+                      ₹ {otherCharges?.labour_charges}/-
                     </p>
                     <p>
                       <span className="font-semibold text-gray-600">
-                        Item Name:
+                        Machinery Charges:
                       </span>{" "}
-                      {material?.item?.name}
+                      ₹ {otherCharges?.machinery_charges}/-
                     </p>
-                    {material?.item?.color ? (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Item Color:
-                        </span>{" "}
-                        {material?.item?.color}
-                      </p>
-                    ) : null}
-                    {material?.item?.code ? (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Item Code:
-                        </span>{" "}
-                        {material?.item?.code}
-                      </p>
-                    ) : null}
                     <p>
                       <span className="font-semibold text-gray-600">
-                        Quantity:
+                        Electricity Charges:
                       </span>{" "}
-                      {material?.quantity}
-                    </p>
-                    <p>
-                      <span className="font-semibold text-gray-600">UOM:</span>{" "}
-                      {material?.item?.uom}
+                      ₹ {otherCharges?.electricity_charges}/-
                     </p>
                     <p>
                       <span className="font-semibold text-gray-600">
-                        Total Part Cost:
+                        Other Charges:
                       </span>{" "}
-                      ₹{" "}
-                      {cookies?.role === "admin"
-                        ? material?.total_part_cost ?? 0
-                        : "****"}
-                      /-
+                      ₹ {otherCharges?.other_charges}/-
                     </p>
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
-
-          {/* Other Charges */}
-          {otherCharges && (
-            <div className="bg-purple-50 p-6 shadow-lg rounded-lg border border-purple-300">
-              <h3 className="text-xl font-semibold mb-4 text-purple-600">
-                Other Charges
-              </h3>
-              <div className="space-y-3">
-                <p>
-                  <span className="font-semibold text-gray-600">
-                    Labour Charges:
-                  </span>{" "}
-                  ₹ {otherCharges?.labour_charges}/-
-                </p>
-                <p>
-                  <span className="font-semibold text-gray-600">
-                    Machinery Charges:
-                  </span>{" "}
-                  ₹ {otherCharges?.machinery_charges}/-
-                </p>
-                <p>
-                  <span className="font-semibold text-gray-600">
-                    Electricity Charges:
-                  </span>{" "}
-                  ₹ {otherCharges?.electricity_charges}/-
-                </p>
-                <p>
-                  <span className="font-semibold text-gray-600">
-                    Other Charges:
-                  </span>{" "}
-                  ₹ {otherCharges?.other_charges}/-
-                </p>
-              </div>
-            </div>
-          )}
+                  </div>
+                </div>
+              )}
 
-          {resources && resources.length > 0 && (
-            <div className="bg-orange-50 p-6 shadow-lg rounded-lg border border-orange-300">
-              <h3 className="text-xl font-semibold mb-4 text-orange-600">
-                Resources
-              </h3>
-              <ul className="pl-5 list-disc space-y-4">
-                {resources.map((resource, index) => (
-                  <li key={index} className="space-y-1">
-                    <p>
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Resource Name:
-                        </span>{" "}
-                        {resource?.name || resource?.resource_id?.name || "N/A"}
-                      </p>
-                    </p>
-                    {resource?.type && (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Type:
-                        </span>{" "}
-                        {resource?.type}
-                      </p>
-                    )}
-                    {resource?.specification && (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Specification:
-                        </span>{" "}
-                        {resource?.specification}
-                      </p>
-                    )}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
+              {resources && resources.length > 0 && (
+                <div className="bg-orange-50 p-6 shadow-lg rounded-lg border border-orange-300">
+                  <h3 className="text-xl font-semibold mb-4 text-orange-600">
+                    Resources
+                  </h3>
+                  <ul className="pl-5 list-disc space-y-4">
+                    {resources.map((resource, index) => (
+                      <li key={index} className="space-y-1">
+                        <p>
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Resource Name:
+                            </span>{" "}
+                            {resource?.name || resource?.resource_id?.name || "N/A"}
+                          </p>
+                        </p>
+                        {resource?.type && (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Type:
+                            </span>{" "}
+                            {resource?.type}
+                          </p>
+                        )}
+                        {resource?.specification && (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Specification:
+                            </span>{" "}
+                            {resource?.specification}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-          {manpower && manpower.length > 0 && (
-            <div className="bg-indigo-50 p-6 shadow-lg rounded-lg border border-indigo-300">
-              <h3 className="text-xl font-semibold mb-4 text-indigo-600">
-                Manpower Required
-              </h3>
-              <ul className="pl-5 list-disc space-y-4">
-                {manpower.map((mp, index) => (
-                  <li key={index} className="space-y-1">
-                    <p>
-                      <span className="font-semibold text-gray-600">
-                        Number of Workers:
-                      </span>{" "}
-                      {mp?.number ?? "N/A"}
-                    </p>
-                    {mp?.role && (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Role:
-                        </span>{" "}
-                        {mp?.role}
-                      </p>
-                    )}
-                    {mp?.skill_level && (
-                      <p>
-                        <span className="font-semibold text-gray-600">
-                          Skill Level:
-                        </span>{" "}
-                        {mp?.skill_level}
-                      </p>
-                    )}
-                  </li>
-                ))}
-              </ul>
-            </div>
-          )}
+              {manpower && manpower.length > 0 && (
+                <div className="bg-indigo-50 p-6 shadow-lg rounded-lg border border-indigo-300">
+                  <h3 className="text-xl font-semibold mb-4 text-indigo-600">
+                    Manpower Required
+                  </h3>
+                  <ul className="pl-5 list-disc space-y-4">
+                    {manpower.map((mp, index) => (
+                      <li key={index} className="space-y-1">
+                        <p>
+                          <span className="font-semibold text-gray-600">
+                            Number of Workers:
+                          </span>{" "}
+                          {mp?.number ?? "N/A"}
+                        </p>
+                        {mp?.role && (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Role:
+                            </span>{" "}
+                            {mp?.role}
+                          </p>
+                        )}
+                        {mp?.skill_level && (
+                          <p>
+                            <span className="font-semibold text-gray-600">
+                              Skill Level:
+                            </span>{" "}
+                            {mp?.skill_level}
+                          </p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
 
-          {remarks && (
-            <div className="bg-cyan-50 p-6 shadow-lg rounded-lg border border-cyan-300">
-              <h3 className="text-xl font-semibold mb-4 text-cyan-600">
-                Remarks
-              </h3>
-              <p className="text-sm text-gray-700 whitespace-pre-line capitalize">
-                {remarks}
-              </p>
+              {remarks && (
+                <div className="bg-cyan-50 p-6 shadow-lg rounded-lg border border-cyan-300">
+                  <h3 className="text-xl font-semibold mb-4 text-cyan-600">
+                    Remarks
+                  </h3>
+                  <p className="text-sm text-gray-700 whitespace-pre-line capitalize">
+                    {remarks}
+                  </p>
+                </div>
+              )}
             </div>
           )}
-        </div>
-      )}
+        </RecordTabs>
+      </div>
     </div>
   );
 };
@@ -1,11 +1,32 @@
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useRef, useState } from "react";
 import Select from "react-select";
-import { useUpdateBOMMutation } from "../../../redux/api/api";
+import {
+  useAddBomMutation,
+  useLazyBomDetailsQuery,
+  useLazyFetchBomsQuery,
+  useLazyFetchEmployeesQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchResourcesQuery,
+  useUpdateBOMMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
 import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
 import { Plus, Trash2 } from "lucide-react";
+import {
+  findBomById,
+  getSubAssemblyFields,
+  getSubAssemblyOptions,
+} from "../../utils/bomTree";
+import {
+  bomRevisionStatusColorMap,
+  buildNextRevision,
+  getRevisionLabel,
+  getRevisionStatus,
+  isEditableRevision,
+} from "../../utils/bomRevisions";
+import { useCan } from "../../utils/permissions";
 
 interface UpdateBomProps {
   closeDrawerHandler: () => void;
@@ -19,9 +40,18 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
   bomId,
 }) => {
   const [cookies] = useCookies();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [fetchBom] = useLazyBomDetailsQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchEmployees] = useLazyFetchEmployeesQuery();
+  const [boms, setBoms] = useState<any[]>([]);
   const [isLoadingBom, setIsLoadingBom] = useState<boolean>(false);
 
   const [bomName, setBomName] = useState<string | undefined>();
+  const [bom, setBom] = useState<any>();
+  const [effectiveFrom, setEffectiveFrom] = useState<string>("");
+  const [isCloning, setIsCloning] = useState<boolean>(false);
   const [partsCount, setPartsCount] = useState<number>(0);
   const [totalPartsCost, setTotalPartsCost] = useState<number>(0);
 
@@ -45,6 +75,10 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
   const [scarpMaterials, setscarpMaterials] = useState<any[]>([]);
   const [isLoadingProducts, setIsLoadingProducts] = useState<boolean>(false);
   const [updateBom] = useUpdateBOMMutation();
+  const [addBom] = useAddBomMutation();
+  const can = useCan();
+  // Nothing is blocked until the BOM has loaded
+  const isEditable = !bom || isEditableRevision(bom);
 
   const [labourCharges, setLabourCharges] = useState<number | undefined>();
   const [machineryCharges, setMachineryCharges] = useState<
@@ -94,6 +128,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
       uom: "",
       category: "",
       assembly_phase: "",
+      sub_bom: "",
       supplier: "",
       supporting_doc: "",
       comments: "",
@@ -127,6 +162,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
         uom: "",
         category: "",
         assembly_phase: "",
+        sub_bom: "",
         supplier: "",
         supporting_doc: "",
         comments: "",
@@ -217,21 +253,13 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
     if (!bomId) return;
     try {
       setIsLoadingBom(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `bom/${bomId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) throw new Error(data.message);
+      const data = await fetchBom(bomId).unwrap();
       // console.log(data)
+      setBom(data.bom);
       setBomName(data.bom.bom_name);
+      setEffectiveFrom(data.bom.effective_from?.slice(0, 10) || "");
       setPartsCount(data.bom.parts_count);
-      setTotalPartsCost(data.bom.total_cost);
+      setTotalPartsCost(data.bom.total_cost || 0);
       setFinishedGood({
         value: data.bom.finished_good.item._id,
         label: data.bom.finished_good.item.name,
@@ -262,7 +290,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
       setManpowerInput(data.bom.manpower?.[0]?.number || "");
 
       const inputs: any = [];
-      data.bom.raw_materials.forEach((material: any) => {
+      (data.bom.raw_materials || []).forEach((material: any) => {
         inputs.push({
           _id: material._id,
           item_name: { value: material.item._id, label: material.item.name },
@@ -274,6 +302,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
             value: material?.assembly_phase,
             label: material?.assembly_phase,
           },
+          sub_bom: material?.sub_bom?._id || material?.sub_bom || "",
           supplier: {
             value: material?.supplier?._id,
             label: material?.supplier?.name,
@@ -314,15 +343,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
   const fetchProductsHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) throw new Error(results?.message);
+      const results = await fetchProducts().unwrap();
       setProducts(results.products);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -333,6 +354,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
 
   const updateBomHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!bomId || !isEditable) return;
 
     const fileInput = supportingDoc.current as HTMLInputElement;
     let pdfUrl;
@@ -366,6 +388,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
         unit_cost: material?.unit_cost,
         category: material?.category,
         assembly_phase: material?.assembly_phase?.value,
+        sub_bom: material?.sub_bom || undefined,
         supplier: material?.supplier?.value,
         supporting_doc: material?.supporting_doc,
         comments: material?.comments,
@@ -412,6 +435,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
       },
 
       bom_name: bomName,
+      effective_from: effectiveFrom || undefined,
       parts_count: partsCount,
       total_cost: totalPartsCost,
       other_charges: {
@@ -450,20 +474,35 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
     }
   };
 
+  const cloneRevisionHandler = async () => {
+    try {
+      setIsCloning(true);
+      const response = await addBom(buildNextRevision(bom, boms)).unwrap();
+      toast.success(response?.message || "Draft revision created");
+      fetchBomsHandler();
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
   console.log(manpowerCount)
 
   // ---------- Effects ----------
+  const fetchBomsListHandler = async () => {
+    try {
+      const results = await fetchBoms({}).unwrap();
+      setBoms(results?.boms || []);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Could not load sub-assemblies");
+    }
+  };
+
   const fetchResourceHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "resources",
-        {
-          method: "GET",
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) throw new Error(results?.message);
+      const results = await fetchResources({}).unwrap();
       setResources(results.resources);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -472,15 +511,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
 
   const fetchEmployeeHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "auth/all",
-        {
-          method: "GET",
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) throw new Error(results?.message);
+      const results = await fetchEmployees().unwrap();
 
       const manPowerUsers = results?.users?.filter(
         (user: any) => user.role?.role?.toLowerCase().includes("man power")
@@ -498,11 +529,16 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
     fetchProductsHandler();
     fetchResourceHandler();
     fetchEmployeeHandler();
+    fetchBomsListHandler();
   }, [bomId]);
 
   useEffect(() => {
     const finishedGoodsOptions = products
-      .filter((prd) => prd.category === "finished goods")
+      .filter(
+        (prd) =>
+          prd.category === "finished goods" ||
+          prd.category === "semi finished goods"
+      )
       .map((prd) => ({
         value: prd._id,
         label: prd.name,
@@ -608,7 +644,18 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
         <div className="h-full flex flex-col">
           {/* Header */}
           <div className="px-6 py-4 text-black flex border items-center justify-between">
-            <h2 className="text-xl font-semibold">Update BOM</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold">Update BOM</h2>
+              {bom && (
+                <span
+                  className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                    bomRevisionStatusColorMap[getRevisionStatus(bom)]
+                  }`}
+                >
+                  {getRevisionLabel(bom)} · {getRevisionStatus(bom)}
+                </span>
+              )}
+            </div>
             <button
               onClick={closeDrawerHandler}
               className="p-1 border rounded transition-colors duration-200"
@@ -620,6 +667,26 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
           {/* Form Content */}
           <div className="flex-1 overflow-y-auto bg-gray-50">
             <form onSubmit={updateBomHandler}>
+              {!isEditable && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 px-4 py-3 sm:px-6 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-800">
+                  <p>
+                    {getRevisionLabel(bom)} is{" "}
+                    {getRevisionStatus(bom).toLowerCase()} and can no longer
+                    be changed. Clone it to start the next revision.
+                  </p>
+                  {can("production", "create") && (
+                    <button
+                      type="button"
+                      disabled={isCloning}
+                      onClick={cloneRevisionHandler}
+                      className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded whitespace-nowrap disabled:opacity-50"
+                    >
+                      {isCloning ? "Cloning..." : "Clone as New Revision"}
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Basic Info */}
               <div className="bg-white border-b">
                 <div className="px-4 py-4 sm:px-6">
@@ -639,6 +706,17 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                         placeholder="BOM Name"
                       />
                     </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Effective From
+                      </label>
+                      <input
+                        type="date"
+                        value={effectiveFrom}
+                        onChange={(e) => setEffectiveFrom(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded"
+                      />
+                    </div>
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-1">
                         Parts Count
@@ -817,8 +895,9 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                   </div>
 
                   {/* Header */}
-                  <div className="hidden sm:grid grid-cols-8 gap-1 bg-gradient-to-r from-blue-500 to-blue-500 text-white text-sm font-semibold uppercase tracking-wider px-3 py-2">
+                  <div className="hidden sm:grid grid-cols-9 gap-1 bg-gradient-to-r from-blue-500 to-blue-500 text-white text-sm font-semibold uppercase tracking-wider px-3 py-2">
                     <div>Product Name</div>
+                    <div>Sub-assembly</div>
                     <div>Quantity</div>
                     <div>UOM</div>
                     <div>Category</div>
@@ -833,7 +912,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                     {rawMaterials.map((material, index) => (
                       <div
                         key={index}
-                        className="grid grid-cols-1 sm:grid-cols-8 gap-4 px-3 py-4 items-start sm:items-center bg-white border-b border-gray-200 last:border-b-0"
+                        className="grid grid-cols-1 sm:grid-cols-9 gap-4 px-3 py-4 items-start sm:items-center bg-white border-b border-gray-200 last:border-b-0"
                       >
                         {/* Product Name */}
                         <div>
@@ -849,6 +928,7 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                             onChange={(d: any) => {
                               const newMaterials = [...rawMaterials];
                               newMaterials[index].item_name = d;
+                              newMaterials[index].sub_bom = "";
                               const product = products.find(
                                 (p) => p._id === d?.value
                               );
@@ -866,6 +946,42 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                           />
                         </div>
 
+                        {/* Sub-assembly */}
+                        <div>
+                          <label className="sm:hidden text-xs font-semibold text-gray-700">
+                            Sub-assembly
+                          </label>
+                          <Select
+                            styles={customStyles}
+                            className="text-sm"
+                            options={getSubAssemblyOptions(boms, bomId)}
+                            placeholder="None"
+                            isClearable
+                            value={
+                              getSubAssemblyOptions(boms, bomId).find(
+                                (option) => option.value === material.sub_bom
+                              ) || null
+                            }
+                            onChange={(d: any) => {
+                              const newMaterials = [...rawMaterials];
+                              const subBom = findBomById(d?.value, boms);
+                              newMaterials[index] = {
+                                ...newMaterials[index],
+                                sub_bom: d?.value || "",
+                                ...(subBom
+                                  ? getSubAssemblyFields(subBom, boms)
+                                  : {}),
+                              };
+                              if (subBom && material.quantity) {
+                                newMaterials[index].total_part_cost =
+                                  newMaterials[index].unit_cost *
+                                  +material.quantity;
+                              }
+                              setRawMaterials(newMaterials);
+                            }}
+                          />
+                        </div>
+
                         {/* Quantity */}
                         <div>
                           <label className="sm:hidden text-xs font-semibold text-gray-700">
@@ -1462,7 +1578,8 @@ const UpdateBom: React.FC<UpdateBomProps> = ({
                 </button>
                 <button
                   type="submit"
-                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded"
+                  disabled={!isEditable}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   Update BOM
                 </button>
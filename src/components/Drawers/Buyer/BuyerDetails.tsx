@@ -1,9 +1,10 @@
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
 import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import Loading from "../../../ui/Loading";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useLazyAgentDetailsQuery } from "../../../redux/api/api";
 
 interface BuyerDetailsProps{
     buyerId: string | undefined,
@@ -11,7 +12,7 @@ interface BuyerDetailsProps{
 }
 
 const BuyerDetails: React.FC<BuyerDetailsProps> = ({buyerId, closeDrawerHandler})=>{
-    const [cookies] = useCookies();
+    const [fetchAgentDetails] = useLazyAgentDetailsQuery();
     const [isLoadingBuyer, setIsLoadingBuyer] = useState<boolean>(false);
     const [name, setName] = useState<string | undefined>();
     const [email, setEmail] = useState<string | undefined>();
@@ -27,21 +28,10 @@ const BuyerDetails: React.FC<BuyerDetailsProps> = ({buyerId, closeDrawerHandler}
     const [state, setState] = useState<string | undefined>();
     
   const fetchBuyerDetails = async () => {
+    if (!buyerId) return;
     try {
       setIsLoadingBuyer(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `agent/${buyerId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchAgentDetails(buyerId).unwrap();
       setName(data.agent.name);
       setEmail(data.agent.email);
       setPhone(data.agent.phone);
@@ -82,59 +72,61 @@ const BuyerDetails: React.FC<BuyerDetailsProps> = ({buyerId, closeDrawerHandler}
          Buyer Details
         </h2>
 
-        {isLoadingBuyer && <Loading />}
-        {!isLoadingBuyer && (
-          <div className="text-white">
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Name</p>
-              <p className="text-gray-200">{name}</p>
+        <RecordTabs module="agent" recordId={buyerId}>
+          {isLoadingBuyer && <Loading />}
+          {!isLoadingBuyer && (
+            <div className="text-white">
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Name</p>
+                <p className="text-gray-200">{name}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Email</p>
+                <p className="text-gray-200">{email}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Phone</p>
+                <p className="text-gray-200">{phone}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">GST Number</p>
+                <p className="text-gray-200">{gst}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Company Name</p>
+                <p className="text-gray-200">{companyName}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Company Email</p>
+                <p className="text-gray-200">{companyEmail}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Company Phone</p>
+                <p className="text-gray-200">{companyPhone}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Address Line 1</p>
+                <p className="text-gray-200">{addressLine1}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Address Line 2</p>
+                <p className="text-gray-200">{addressLine2}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Pincode</p>
+                <p className="text-gray-200">{pincode}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">City</p>
+                <p className="text-gray-200">{city}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">State</p>
+                <p className="text-gray-200">{state}</p>
+              </div>
             </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Email</p>
-              <p className="text-gray-200">{email}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Phone</p>
-              <p className="text-gray-200">{phone}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">GST Number</p>
-              <p className="text-gray-200">{gst}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Company Name</p>
-              <p className="text-gray-200">{companyName}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Company Email</p>
-              <p className="text-gray-200">{companyEmail}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Company Phone</p>
-              <p className="text-gray-200">{companyPhone}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Address Line 1</p>
-              <p className="text-gray-200">{addressLine1}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Address Line 2</p>
-              <p className="text-gray-200">{addressLine2}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Pincode</p>
-              <p className="text-gray-200">{pincode}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">City</p>
-              <p className="text-gray-200">{city}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">State</p>
-              <p className="text-gray-200">{state}</p>
-            </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   </Drawer>
@@ -3,8 +3,10 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { toast } from "react-toastify";
-import { useUpdateAgentMutation } from "../../../redux/api/api";
-import { useCookies } from "react-cookie";
+import {
+  useLazyAgentDetailsQuery,
+  useUpdateAgentMutation,
+} from "../../../redux/api/api";
 import Loading from "../../../ui/Loading";
 
 interface UpdateBuyerProps {
@@ -18,7 +20,7 @@ const UpdateBuyer: React.FC<UpdateBuyerProps> = ({
   fetchBuyersHandler,
   buyerId,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchAgentDetails] = useLazyAgentDetailsQuery();
   const [isUpdatingBuyer, setIsUpdatingBuyer] = useState<boolean>(false);
   const [isLoadingBuyer, setIsLoadingBuyer] = useState<boolean>(false);
   const [name, setName] = useState<string | undefined>();
@@ -38,6 +40,7 @@ const UpdateBuyer: React.FC<UpdateBuyerProps> = ({
 
   const updateBuyerHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!buyerId) return;
 
     if (
       !name ||
@@ -92,21 +95,10 @@ const UpdateBuyer: React.FC<UpdateBuyerProps> = ({
   };
 
   const fetchBuyerDetails = async () => {
+    if (!buyerId) return;
     try {
       setIsLoadingBuyer(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `agent/${buyerId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchAgentDetails(buyerId).unwrap();
       setName(data.agent.name);
       setEmail(data.agent.email);
       setPhone(data.agent.phone);
@@ -2,12 +2,25 @@
 import React, { useState, useEffect } from "react";
 import { useFormik } from "formik";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
-import axios from "axios";
 import { BiX } from "react-icons/bi";
 import { TbTruckDelivery } from "react-icons/tb";
 import { DispatchFormSchema } from "../../../Validation/DispatchFormValidation";
 import { colors } from "../../../theme/colors";
+import {
+  useCreateDispatchMutation,
+  useLazyFetchPackagesQuery,
+  useLazyFetchSalesQuery,
+  useLazyProductDetailsQuery,
+  useMarkPackagesDispatchedMutation,
+  useUpdateDispatchMutation,
+} from "../../../redux/api/api";
+import {
+  getLinePackages,
+  getPackageQty,
+  getSalePackages,
+  getShippableUnits,
+} from "../../utils/packaging";
+import { getLineTotal, getSaleItems } from "../../utils/salesOrders";
 
 interface AddDispatchProps {
   show: boolean;
@@ -22,28 +35,49 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
   fetchDispatch,
   editDispatch,
 }) => {
-  const [cookies] = useCookies();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [salesOrders, setSalesOrders] = useState([]);
   const [selectedOrder, setSelectedOrder] = useState(null);
   const [isLoadingSalesOrders, setIsLoadingSalesOrders] = useState(false);
   const [productStocks, setProductStocks] = useState({});
   const [isLoadingStocks, setIsLoadingStocks] = useState(false);
+  const [selectedPackages, setSelectedPackages] = useState([]);
+  const [selectedLineIndex, setSelectedLineIndex] = useState(0);
+  // Set when the dispatch saved but its packages were not marked, so a retry
+  // only marks them and does not save the dispatch a second time
+  const [unmarkedPackages, setUnmarkedPackages] = useState(null);
+
+  const [fetchPackages, { data: packageData }] = useLazyFetchPackagesQuery();
+  const [markPackagesDispatched] = useMarkPackagesDispatchedMutation();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [fetchProductDetails] = useLazyProductDetailsQuery();
+  const [createDispatch] = useCreateDispatchMutation();
+  const [updateDispatch] = useUpdateDispatchMutation();
+  const packages = packageData?.packages || [];
+
+  // A dispatch ships one line of the order
+  const orderLines = getSaleItems(selectedOrder);
+  const selectedLine = orderLines[selectedLineIndex];
+  const lineProductId = selectedLine?.product_id || editDispatch?.product_id;
+  const orderQuantity = selectedLine?.quantity || editDispatch?.quantity || 0;
+
+  const packedUnits = getShippableUnits(
+    getLinePackages(
+      getSalePackages(
+        selectedOrder?._id || editDispatch?.sales_order_id,
+        packages
+      ),
+      lineProductId
+    )
+  );
 
   const fetchSalesOrders = async () => {
     try {
       setIsLoadingSalesOrders(true);
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=1000`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      const response = await fetchSales({ page: 1, limit: 1000 }).unwrap();
 
       const completedOrders =
-        response?.data?.data?.filter((order) =>
+        response?.data?.filter((order) =>
           order?.assinedto?.every(
             (item) => item?.isCompleted?.toLowerCase() === "completed"
           )
@@ -84,23 +118,14 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
         },
     enableReinitialize: true,
     onSubmit: async (values) => {
-      if (isSubmitting) return;
+      if (isSubmitting || unmarkedPackages) return;
 
       const addQty = parseInt(values.dispatch_qty) || 0;
       const prevQty = parseInt(editDispatch?.dispatch_qty) || 0;
       const totalQty = editDispatch ? prevQty + addQty : addQty;
 
-      // Get order quantity for validation
-      const orderQuantity =
-        selectedOrder?.product_qty || editDispatch?.quantity || 0;
 
-      // Get product ID
-      const firstProductId =
-        selectedOrder?.product_id?.[0]?._id ||
-        selectedOrder?.product_id?.[0]?.product_id ||
-        editDispatch?.product_id;
-
-      const stockData = productStocks[firstProductId];
+      const stockData = productStocks[lineProductId];
       const currentStock =
         stockData?.current_stock ||
         stockData?.stock ||
@@ -138,81 +163,112 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
             selectedOrder?.party?.consignee_name?.[0] ||
             selectedOrder?.party?.company_name ||
             editDispatch?.merchant_name,
-          item_name:
-            selectedOrder?.product_id?.[0]?.name || editDispatch?.item_name,
-          product_id:
-            selectedOrder?.product_id?.[0]?._id ||
-            selectedOrder?.product_id?.[0]?.product_id ||
-            editDispatch?.product_id,
-          quantity: selectedOrder?.product_qty || editDispatch?.quantity,
-          total_amount:
-            selectedOrder?.total_price || editDispatch?.total_amount,
+          item_name: selectedLine?.name || editDispatch?.item_name,
+          product_id: lineProductId,
+          quantity: orderQuantity,
+          total_amount: selectedLine
+            ? +getLineTotal(selectedLine).toFixed(2)
+            : editDispatch?.total_amount,
           order_id: selectedOrder?.order_id || editDispatch?.order_id,
+          packages: selectedPackages,
         };
 
         if (editDispatch) {
-          const response = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}dispatch/update/${editDispatch._id}`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          const response = await updateDispatch({
+            _id: editDispatch._id,
+            ...payload,
+          }).unwrap();
 
           // Check if quantity was changed and show appropriate message
           const prevQty = parseInt(editDispatch?.dispatch_qty) || 0;
           const newQty = parseInt(payload.dispatch_qty) || 0;
           const message =
             prevQty !== newQty
-              ? response?.data?.message ||
+              ? response?.message ||
                 "Dispatch updated successfully, status changed to Dispatch Pending"
               : "Dispatch updated successfully";
 
           toast.success(message);
         } else {
-          await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}dispatch/create`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          await createDispatch(payload).unwrap();
           toast.success("Dispatch created successfully");
         }
-
-        resetForm();
-        setSelectedOrder(null);
-        setShow(false);
-        fetchDispatch?.();
       } catch (error) {
         console.error("Error processing dispatch:", error);
         toast.error(
-          error?.response?.data?.message ||
+          error?.message ||
             `Failed to ${editDispatch ? "update" : "create"} dispatch`
         );
-      } finally {
         setIsSubmitting(false);
+        return;
       }
+
+      if (selectedPackages.length > 0) {
+        // Cartons on a dispatched pallet leave with it
+        const cartonIds = packages
+          .filter((pkg) =>
+            selectedPackages.includes(pkg.pallet?._id || pkg.pallet)
+          )
+          .map((pkg) => pkg._id);
+        const marked = await markPackagesHandler({
+          packages: [...selectedPackages, ...cartonIds],
+          order_id: selectedOrder?.order_id || editDispatch?.order_id,
+        });
+        if (!marked) {
+          fetchDispatch?.();
+          setIsSubmitting(false);
+          return;
+        }
+      }
+
+      setIsSubmitting(false);
+      closeHandler();
     },
   });
 
+  const closeHandler = () => {
+    resetForm();
+    setSelectedOrder(null);
+    setSelectedLineIndex(0);
+    setSelectedPackages([]);
+    setUnmarkedPackages(null);
+    setShow(false);
+    fetchDispatch?.();
+  };
+
+  const markPackagesHandler = async (update) => {
+    try {
+      await markPackagesDispatched(update).unwrap();
+      setUnmarkedPackages(null);
+      return true;
+    } catch (error) {
+      setUnmarkedPackages(update);
+      toast.error(
+        `Dispatch saved, but its packages could not be marked dispatched: ${
+          error?.message || "unknown error"
+        }`
+      );
+      return false;
+    }
+  };
+
+  const retryMarkPackagesHandler = async () => {
+    if (!unmarkedPackages || isSubmitting) return;
+    setIsSubmitting(true);
+    const marked = await markPackagesHandler(unmarkedPackages);
+    setIsSubmitting(false);
+    if (marked) {
+      toast.success("Packages marked dispatched");
+      closeHandler();
+    }
+  };
+
   const fetchProductStocks = async (productIds) => {
     try {
       setIsLoadingStocks(true);
       const stockPromises = productIds.map(async (productId) => {
-        const response = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}product/${productId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
-        return { id: productId, data: response.data.data || response.data };
+        const response = await fetchProductDetails(productId).unwrap();
+        return { id: productId, data: response.product };
       });
 
       const stockResults = await Promise.all(stockPromises);
@@ -229,21 +285,43 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
     }
   };
 
+  // Packed quantities fill the dispatch quantity instead of retyping it
+  const togglePackage = (packageId) => {
+    const selected = selectedPackages.includes(packageId)
+      ? selectedPackages.filter((id) => id !== packageId)
+      : [...selectedPackages, packageId];
+    setSelectedPackages(selected);
+    const packedQty = packedUnits
+      .filter((pkg) => selected.includes(pkg._id))
+      .reduce((sum, pkg) => sum + getPackageQty(pkg, packages), 0);
+    setFieldValue("dispatch_qty", packedQty ? String(packedQty) : "");
+  };
+
   const handleOrderSelection = (orderId) => {
     const order = salesOrders.find((o) => o._id === orderId);
     setSelectedOrder(order);
+    setSelectedLineIndex(0);
+    setSelectedPackages([]);
     setFieldValue("sales_order_id", orderId);
-    if (order?.product_id?.length > 0) {
-      const productIds = order.product_id.map(
-        (product) => product._id || product.product_id
-      );
+    setFieldValue("dispatch_qty", "");
+    const productIds = getSaleItems(order)
+      .map((line) => line.product_id)
+      .filter(Boolean);
+    if (productIds.length > 0) {
       fetchProductStocks(productIds);
     }
   };
 
+  const handleLineSelection = (index) => {
+    setSelectedLineIndex(index);
+    setSelectedPackages([]);
+    setFieldValue("dispatch_qty", "");
+  };
+
   useEffect(() => {
     if (show) {
       fetchSalesOrders();
+      fetchPackages({});
       if (editDispatch?.product_id) {
         fetchProductStocks([editDispatch.product_id]);
       }
@@ -435,9 +513,33 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                       <label className="block text-sm font-medium text-gray-600">
                         Product
                       </label>
-                      <p className="text-sm text-gray-900">
-                        {selectedOrder?.product_id?.[0]?.name || "N/A"}
-                      </p>
+                      {orderLines.length > 1 ? (
+                        <select
+                          value={selectedLineIndex}
+                          onChange={(e) =>
+                            handleLineSelection(+e.target.value)
+                          }
+                          className="mt-1 w-full px-2 py-1.5 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          style={{
+                            backgroundColor: colors.input.background,
+                            borderColor: colors.input.border,
+                            color: colors.text.primary,
+                          }}
+                        >
+                          {orderLines.map((line, index) => (
+                            <option
+                              key={`${line.product_id}-${index}`}
+                              value={index}
+                            >
+                              {line.name || "N/A"}
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <p className="text-sm text-gray-900">
+                          {selectedLine?.name || "N/A"}
+                        </p>
+                      )}
                     </div>
 
                     <div>
@@ -445,7 +547,8 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                         Quantity
                       </label>
                       <p className="text-sm text-gray-900">
-                        {selectedOrder?.product_qty || "N/A"}
+                        {selectedLine?.quantity || "N/A"}{" "}
+                        {selectedLine?.uom || ""}
                       </p>
                     </div>
 
@@ -455,9 +558,9 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                       </label>
                       <p className="text-sm text-gray-900">
                         ₹
-                        {selectedOrder?.total_price ||
-                          selectedOrder?.price ||
-                          "N/A"}
+                        {selectedLine
+                          ? getLineTotal(selectedLine).toLocaleString()
+                          : "N/A"}
                       </p>
                     </div>
                   </div>
@@ -532,6 +635,49 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                 )}
               </div>
 
+              {packedUnits.length > 0 && (
+                <div>
+                  <label
+                    className="block text-sm font-medium mb-2"
+                    style={{ color: colors.text.primary }}
+                  >
+                    Packed Cartons / Pallets
+                  </label>
+                  <div
+                    className="border rounded-lg divide-y"
+                    style={{ borderColor: colors.input.border }}
+                  >
+                    {packedUnits.map((pkg) => (
+                      <label
+                        key={pkg._id}
+                        className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer"
+                      >
+                        <span className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={selectedPackages.includes(pkg._id)}
+                            onChange={() => togglePackage(pkg._id)}
+                          />
+                          {pkg.package_id}
+                          <span className="text-xs text-gray-500">
+                            {pkg.type}
+                          </span>
+                        </span>
+                        <span className="font-medium">
+                          {getPackageQty(pkg, packages)} units
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                  <p
+                    className="mt-1 text-xs"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    Selected packages set the dispatch quantity
+                  </p>
+                </div>
+              )}
+
               <div>
                 <label
                   className="block text-sm font-medium mb-2"
@@ -552,9 +698,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                           Total Order Quantity:
                         </span>
                         <span className="text-indigo-900 font-semibold">
-                          {selectedOrder?.product_qty ||
-                            editDispatch?.quantity ||
-                            0}{" "}
+                          {orderQuantity}{" "}
                           units
                         </span>
                       </div>
@@ -571,9 +715,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                           Remaining to Dispatch:
                         </span>
                         <span className="text-indigo-900">
-                          {(selectedOrder?.product_qty ||
-                            editDispatch?.quantity ||
-                            0) -
+                          {orderQuantity -
                             (parseInt(editDispatch?.dispatch_qty) || 0)}{" "}
                           units
                         </span>
@@ -651,7 +793,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                   </div>
                 )}
 
-                {selectedOrder && selectedOrder?.product_id && (
+                {selectedOrder && orderLines.length > 0 && (
                   <div className="mb-3 p-3 bg-blue-50 rounded-lg border border-blue-200">
                     <h4 className="text-sm font-medium text-blue-800 mb-2">
                       Available Stock:
@@ -665,8 +807,8 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                       </div>
                     ) : (
                       <div className="space-y-1">
-                        {selectedOrder.product_id.map((product, index) => {
-                          const productId = product._id || product.product_id;
+                        {orderLines.map((line, index) => {
+                          const productId = line.product_id;
                           const stockData = productStocks[productId];
 
                           // Try multiple possible locations for current stock
@@ -691,7 +833,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                               className="flex justify-between items-center text-sm"
                             >
                               <span className="text-blue-700 font-medium">
-                                {product.name ||
+                                {line.name ||
                                   stockData?.name ||
                                   stockData?.product_name ||
                                   "N/A"}
@@ -715,13 +857,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                   onChange={(e) => {
                     const value = parseInt(e.target.value) || 0;
 
-                    // Get product ID - either from selected order or edit dispatch
-                    const firstProductId =
-                      selectedOrder?.product_id?.[0]?._id ||
-                      selectedOrder?.product_id?.[0]?.product_id ||
-                      editDispatch?.product_id;
-
-                    const stockData = productStocks[firstProductId];
+                    const stockData = productStocks[lineProductId];
                     const currentStock =
                       stockData?.current_stock ||
                       stockData?.stock ||
@@ -729,9 +865,6 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                       stockData?.quantity_changed ||
                       0;
 
-                    // Get order quantity for validation
-                    const orderQuantity =
-                      selectedOrder?.product_qty || editDispatch?.quantity || 0;
                     const currentDispatchQty =
                       parseInt(editDispatch?.dispatch_qty) || 0;
                     const totalDispatchQty = editDispatch
@@ -757,21 +890,13 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                   placeholder="Enter Dispatch Quantity"
                   min="1"
                   max={(() => {
-                    // Get order quantity
-                    const orderQuantity =
-                      selectedOrder?.product_qty || editDispatch?.quantity || 0;
                     const currentDispatchQty =
                       parseInt(editDispatch?.dispatch_qty) || 0;
                     const remainingOrderQty =
                       orderQuantity - currentDispatchQty;
 
                     // Get stock quantity
-                    const firstProductId =
-                      selectedOrder?.product_id?.[0]?._id ||
-                      selectedOrder?.product_id?.[0]?.product_id ||
-                      editDispatch?.product_id;
-
-                    const stockData = productStocks[firstProductId];
+                    const stockData = productStocks[lineProductId];
                     const currentStock =
                       stockData?.current_stock ||
                       stockData?.stock ||
@@ -796,12 +921,7 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                 {(selectedOrder || editDispatch) && values.dispatch_qty && (
                   <div className="mt-1">
                     {(() => {
-                      const firstProductId =
-                        selectedOrder?.product_id?.[0]?._id ||
-                        selectedOrder?.product_id?.[0]?.product_id ||
-                        editDispatch?.product_id;
-
-                      const stockData = productStocks[firstProductId];
+                      const stockData = productStocks[lineProductId];
                       const currentStock =
                         stockData?.current_stock ||
                         stockData?.stock ||
@@ -809,10 +929,6 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                         stockData?.quantity_changed ||
                         0;
 
-                      const orderQuantity =
-                        selectedOrder?.product_qty ||
-                        editDispatch?.quantity ||
-                        0;
                       const currentDispatchQty =
                         parseInt(editDispatch?.dispatch_qty) || 0;
                       const enteredQty = parseInt(values.dispatch_qty) || 0;
@@ -931,62 +1047,39 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
             <div className="flex gap-3 justify-end">
               <button
                 type="button"
-                onClick={() => setShow(false)}
+                onClick={
+                  unmarkedPackages ? closeHandler : () => setShow(false)
+                }
                 className="px-4 py-2 border rounded-lg font-medium transition-colors"
                 style={{
                   borderColor: colors.border.medium,
                   color: colors.text.secondary,
                 }}
               >
-                Cancel
+                {unmarkedPackages ? "Close" : "Cancel"}
               </button>
-              <button
-                type="submit"
-                onClick={handleSubmit}
-                disabled={
-                  isSubmitting ||
-                  (!editDispatch && !selectedOrder) || // Only require selectedOrder for new dispatches
-                  !values.dispatch_qty ||
-                  // stockError || // Commented out - reverting to toast warnings
-                  (() => {
-                    // Get product ID from either selected order or edit dispatch
-                    const firstProductId =
-                      selectedOrder?.product_id?.[0]?._id ||
-                      selectedOrder?.product_id?.[0]?.product_id ||
-                      editDispatch?.product_id;
-
-                    const stockData = productStocks[firstProductId];
-                    const currentStock =
-                      stockData?.current_stock ||
-                      stockData?.stock ||
-                      stockData?.product?.current_stock ||
-                      stockData?.quantity_changed ||
-                      0;
-
-                    // Use current stock directly
-                    const availableStock = currentStock;
-
-                    return (
-                      parseInt(values.dispatch_qty) > availableStock ||
-                      parseInt(values.dispatch_qty) <= 0
-                    );
-                  })()
-                }
-                className="px-4 py-2 rounded-lg font-medium text-white transition-colors disabled:opacity-100 "
-                style={{
-                  backgroundColor:
+              {unmarkedPackages ? (
+                <button
+                  type="button"
+                  onClick={retryMarkPackagesHandler}
+                  disabled={isSubmitting}
+                  className="px-4 py-2 rounded-lg font-medium text-white transition-colors disabled:opacity-50"
+                  style={{ backgroundColor: colors.button.primary }}
+                >
+                  {isSubmitting ? "Retrying..." : "Retry Marking Packages"}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  onClick={handleSubmit}
+                  disabled={
                     isSubmitting ||
                     (!editDispatch && !selectedOrder) || // Only require selectedOrder for new dispatches
                     !values.dispatch_qty ||
                     // stockError || // Commented out - reverting to toast warnings
                     (() => {
-                      // Get product ID from either selected order or edit dispatch
-                      const firstProductId =
-                        selectedOrder?.product_id?.[0]?._id ||
-                        selectedOrder?.product_id?.[0]?.product_id ||
-                        editDispatch?.product_id;
 
-                      const stockData = productStocks[firstProductId];
+                      const stockData = productStocks[lineProductId];
                       const currentStock =
                         stockData?.current_stock ||
                         stockData?.stock ||
@@ -1002,18 +1095,45 @@ const AddDispatch: React.FC<AddDispatchProps> = ({
                         parseInt(values.dispatch_qty) <= 0
                       );
                     })()
-                      ? colors.gray[400]
-                      : colors.button.primary,
-                }}
-              >
-                {isSubmitting
-                  ? editDispatch
-                    ? "Updating..."
-                    : "Creating..."
-                  : editDispatch
-                  ? "Update Dispatch"
-                  : "Create Dispatch"}
-              </button>
+                  }
+                  className="px-4 py-2 rounded-lg font-medium text-white transition-colors disabled:opacity-100 "
+                  style={{
+                    backgroundColor:
+                      isSubmitting ||
+                      (!editDispatch && !selectedOrder) || // Only require selectedOrder for new dispatches
+                      !values.dispatch_qty ||
+                      // stockError || // Commented out - reverting to toast warnings
+                      (() => {
+
+                        const stockData = productStocks[lineProductId];
+                        const currentStock =
+                          stockData?.current_stock ||
+                          stockData?.stock ||
+                          stockData?.product?.current_stock ||
+                          stockData?.quantity_changed ||
+                          0;
+
+                        // Use current stock directly
+                        const availableStock = currentStock;
+
+                        return (
+                          parseInt(values.dispatch_qty) > availableStock ||
+                          parseInt(values.dispatch_qty) <= 0
+                        );
+                      })()
+                        ? colors.gray[400]
+                        : colors.button.primary,
+                  }}
+                >
+                  {isSubmitting
+                    ? editDispatch
+                      ? "Updating..."
+                      : "Creating..."
+                    : editDispatch
+                    ? "Update Dispatch"
+                    : "Create Dispatch"}
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { BiX } from "react-icons/bi";
+import Drawer from "../../../ui/Drawer";
+import Loading from "../../../ui/Loading";
+import { colors } from "../../../theme/colors";
+import { useLazyDispatchDetailsQuery } from "../../../redux/api/api";
+import RecordTabs from "../../Audit/RecordTabs";
+
+interface DispatchDetailsProps {
+  closeDrawerHandler: () => void;
+  dispatchId: string | undefined;
+}
+
+const DispatchDetails: React.FC<DispatchDetailsProps> = ({
+  closeDrawerHandler,
+  dispatchId,
+}) => {
+  const [fetchDispatch, { data, isFetching }] = useLazyDispatchDetailsQuery();
+  const dispatch = data?.data;
+
+  useEffect(() => {
+    if (!dispatchId) return;
+    fetchDispatch(dispatchId)
+      .unwrap()
+      .catch((error: any) =>
+        toast.error(error?.message || "Something went wrong")
+      );
+  }, [dispatchId, fetchDispatch]);
+
+  const fields = [
+    { label: "Sale ID", value: dispatch?.order_id || dispatch?.sales_order_id },
+    { label: "Merchant", value: dispatch?.merchant_name },
+    { label: "Item", value: dispatch?.item_name },
+    { label: "Order Quantity", value: dispatch?.quantity },
+    { label: "Dispatched Quantity", value: dispatch?.dispatch_qty },
+    { label: "Status", value: dispatch?.dispatch_status || "Dispatch" },
+    { label: "Tracking ID", value: dispatch?.tracking_id },
+    { label: "Tracking Website", value: dispatch?.tracking_web },
+    { label: "Delivery Proof", value: dispatch?.delivery_proof?.originalName },
+    { label: "Invoice", value: dispatch?.invoice?.originalName },
+    {
+      label: "Created On",
+      value: dispatch?.createdAt
+        ? new Date(dispatch.createdAt).toLocaleDateString()
+        : undefined,
+    },
+  ];
+
+  return (
+    <Drawer closeDrawerHandler={closeDrawerHandler}>
+      <div
+        className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[550px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+        style={{ boxShadow: colors.shadow.xl }}
+      >
+        <div
+          className="flex items-center justify-between p-6 border-b"
+          style={{ borderColor: colors.border.light }}
+        >
+          <h1
+            className="text-xl font-semibold"
+            style={{ color: colors.text.primary }}
+          >
+            Dispatch #{dispatchId?.slice(-6).toUpperCase()}
+          </h1>
+          <button
+            onClick={closeDrawerHandler}
+            className="p-2 rounded-lg"
+            style={{
+              color: colors.text.secondary,
+              backgroundColor: colors.gray[100],
+            }}
+          >
+            <BiX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-6 px-5 pb-6">
+          <RecordTabs module="dispatch" recordId={dispatchId}>
+            {isFetching ? (
+              <Loading />
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {fields.map((field) => (
+                  <div key={field.label}>
+                    <p
+                      className="text-xs"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {field.label}
+                    </p>
+                    <p className="text-sm font-medium">
+                      {field.value || "N/A"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </RecordTabs>
+        </div>
+      </div>
+    </Drawer>
+  );
+};
+
+export default DispatchDetails;
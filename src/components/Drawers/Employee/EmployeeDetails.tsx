@@ -1,10 +1,11 @@
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { BiX } from "react-icons/bi";
 import { toast } from "react-toastify";
 import Loading from "../../../ui/Loading";
 import Drawer from "../../../ui/Drawer";
 import { colors } from "../../../theme/colors";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useLazyUserDetailsQuery } from "../../../redux/api/api";
 
 interface EmployeeDetailsProps {
   closeDrawerHandler: () => void;
@@ -15,7 +16,7 @@ const EmployeeDetails: React.FC<EmployeeDetailsProps> = ({
   closeDrawerHandler,
   employeeId,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchUserDetails] = useLazyUserDetailsQuery();
   const [isLoadingEmployee, setIsLoadingEmployee] = useState<boolean>(false);
   const [firstname, setFirstname] = useState<string | undefined>();
   const [lastname, setLastname] = useState<string | undefined>();
@@ -26,21 +27,10 @@ const EmployeeDetails: React.FC<EmployeeDetailsProps> = ({
   const [isVerified, setIsVerified] = useState<string | undefined>();
 
   const fetchUserDetailsHandler = async () => {
+    if (!employeeId) return;
     try {
       setIsLoadingEmployee(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `auth/user/${employeeId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchUserDetails(employeeId).unwrap();
       setFirstname(data.user.first_name);
       setLastname(data.user?.last_name);
       setEmail(data.user.email);
@@ -96,66 +86,68 @@ const EmployeeDetails: React.FC<EmployeeDetailsProps> = ({
       </div>
 
       <div className="mt-8 px-5">
-        {isLoadingEmployee && <Loading />}
-        {!isLoadingEmployee && (
-          <div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">First Name</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {firstname}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Last Name</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {lastname}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Email</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {email}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Phone</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {phone}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Is Verified</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {isVerified ? "Verified" : "Not Verified"}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Role</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {(isSuper && "Super Admin") || role?.role || "N/A"}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Permissions</p>
-              <div className="bg-gray-50 p-3 rounded-md border">
-                {!role?.permissions && <p className="text-gray-600">N/A</p>}
-                {role?.permissions && (
-                  <ul className="space-y-2">
-                    {role.permissions.map((permission: any, index: number) => (
-                      <li
-                        key={index}
-                        className="flex items-center text-gray-600"
-                      >
-                        <span className="w-2 h-2 bg-blue-500 rounded-full mr-3"></span>
-                        {permission}
-                      </li>
-                    ))}
-                  </ul>
-                )}
+        <RecordTabs module="employee" recordId={employeeId}>
+          {isLoadingEmployee && <Loading />}
+          {!isLoadingEmployee && (
+            <div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">First Name</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {firstname}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Last Name</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {lastname}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Email</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {email}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Phone</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {phone}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Is Verified</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {isVerified ? "Verified" : "Not Verified"}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Role</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {(isSuper && "Super Admin") || role?.role || "N/A"}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Permissions</p>
+                <div className="bg-gray-50 p-3 rounded-md border">
+                  {!role?.permissions && <p className="text-gray-600">N/A</p>}
+                  {role?.permissions && (
+                    <ul className="space-y-2">
+                      {role.permissions.map((permission: any, index: number) => (
+                        <li
+                          key={index}
+                          className="flex items-center text-gray-600"
+                        >
+                          <span className="w-2 h-2 bg-blue-500 rounded-full mr-3"></span>
+                          {permission}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
@@ -3,9 +3,12 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { useEffect, useState } from "react";
 import Select from "react-select";
-import { useUpdateEmployeeMutation } from "../../../redux/api/api";
+import {
+  useLazyFetchRolesQuery,
+  useLazyUserDetailsQuery,
+  useUpdateEmployeeMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
 
@@ -20,7 +23,6 @@ const UpdateEmployee: React.FC<UpdateEmployeeProps> = ({
   fetchEmployeesHandler,
   employeeId,
 }) => {
-  const [cookies, setCookie] = useCookies();
   const [isLoadingEmployee, setIsLoadingEmployee] = useState<boolean>(false);
   const [isUpdatingEmployee, setIsUpdatingEmployee] = useState<boolean>(false);
   const [firstname, setFirstname] = useState<string | undefined>();
@@ -36,9 +38,12 @@ const UpdateEmployee: React.FC<UpdateEmployeeProps> = ({
   >([]);
 
   const [updateEmployee] = useUpdateEmployeeMutation();
+  const [fetchUserDetails] = useLazyUserDetailsQuery();
+  const [fetchRoles] = useLazyFetchRolesQuery();
 
   const updateEmployeeHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!employeeId) return;
 
     if (!role || !role?.value) {
       toast.error("Please provide all the required fields");
@@ -61,21 +66,10 @@ const UpdateEmployee: React.FC<UpdateEmployeeProps> = ({
   };
 
   const fetchUserDetailsHandler = async () => {
+    if (!employeeId) return;
     try {
       setIsLoadingEmployee(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `auth/user/${employeeId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchUserDetails(employeeId).unwrap();
       setFirstname(data.user.first_name);
       setLastname(data.user?.last_name);
       setEmail(data.user.email);
@@ -92,19 +86,7 @@ const UpdateEmployee: React.FC<UpdateEmployeeProps> = ({
 
   const fetchRolesHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `role/`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchRoles({}).unwrap();
       const roles = data.roles;
       const modifiedRoles = roles.map((role: any) => ({
         value: role._id,
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { FiCopy } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import { useCreateApiKeyMutation } from "../../../redux/api/api";
+
+interface AddApiKeyProps {
+  closeDrawerHandler: () => void;
+}
+
+const AddApiKey: React.FC<AddApiKeyProps> = ({ closeDrawerHandler }) => {
+  const [createApiKey] = useCreateApiKeyMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState<string>("");
+  const [expiresAt, setExpiresAt] = useState<string>("");
+  // The full key is returned only once and never stored on this side
+  const [issuedKey, setIssuedKey] = useState<string | null>(null);
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      toast.error("Please give the key a name");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await createApiKey({
+        name: name.trim(),
+        expires_at: expiresAt || undefined,
+      }).unwrap();
+      toast.success(response?.message || "API key created");
+      setIssuedKey(response?.key || null);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copyKeyHandler = async () => {
+    try {
+      await navigator.clipboard.writeText(issuedKey || "");
+      toast.success("API key copied");
+    } catch {
+      toast.error("Could not copy, please select and copy the key");
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Issue API Key
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        {issuedKey ? (
+          <div>
+            <div className="p-4 rounded-lg border border-yellow-200 bg-yellow-50 text-sm text-yellow-900">
+              Copy this key now. It will not be shown again.
+            </div>
+            <div className="mt-4 flex items-center gap-2">
+              <Input value={issuedKey} isReadOnly fontFamily="mono" />
+              <Button leftIcon={<FiCopy />} onClick={copyKeyHandler}>
+                Copy
+              </Button>
+            </div>
+            <Button
+              className="mt-5"
+              colorScheme="blue"
+              size="md"
+              width="full"
+              onClick={closeDrawerHandler}
+            >
+              Done
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={submitHandler}>
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Name
+              </FormLabel>
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Website order sync"
+              />
+            </FormControl>
+
+            <FormControl className="mt-3 mb-5">
+              <FormLabel fontWeight="bold" color="gray.700">
+                Expires On
+              </FormLabel>
+              <Input
+                type="date"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </FormControl>
+
+            <Button
+              isLoading={isSubmitting}
+              type="submit"
+              className="mt-5"
+              colorScheme="blue"
+              size="md"
+              width="full"
+            >
+              Issue Key
+            </Button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddApiKey;
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Switch,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateWebhookMutation,
+  useUpdateWebhookMutation,
+} from "../../../redux/api/api";
+import { webhookEvents } from "../../utils/integrations";
+
+interface AddWebhookProps {
+  closeDrawerHandler: () => void;
+  editWebhook?: any | null;
+}
+
+const AddWebhook: React.FC<AddWebhookProps> = ({
+  closeDrawerHandler,
+  editWebhook,
+}) => {
+  const [createWebhook] = useCreateWebhookMutation();
+  const [updateWebhook] = useUpdateWebhookMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [url, setUrl] = useState<string>(editWebhook?.url || "");
+  const [events, setEvents] = useState<string[]>(editWebhook?.events || []);
+  const [secret, setSecret] = useState<string>("");
+  const [isActive, setIsActive] = useState<boolean>(
+    editWebhook?.active ?? true
+  );
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^https?:\/\//.test(url.trim())) {
+      toast.error("Please enter a valid http(s) URL");
+      return;
+    }
+    if (events.length === 0) {
+      toast.error("Please choose at least one event");
+      return;
+    }
+
+    const data = {
+      url: url.trim(),
+      events,
+      active: isActive,
+      // Leaving the secret blank keeps the one already saved
+      ...(secret ? { secret } : {}),
+    };
+
+    try {
+      setIsSubmitting(true);
+      const response = editWebhook?._id
+        ? await updateWebhook({ _id: editWebhook._id, ...data }).unwrap()
+        : await createWebhook(data).unwrap();
+      toast.success(
+        response?.message || `Webhook ${editWebhook ? "updated" : "created"}`
+      );
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editWebhook ? "Edit Webhook" : "Add Webhook"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Endpoint URL
+            </FormLabel>
+            <Input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              placeholder="https://example.com/webhooks/erp"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Events
+            </FormLabel>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {webhookEvents.map((event) => (
+                <Checkbox
+                  key={event.value}
+                  isChecked={events.includes(event.value)}
+                  onChange={(e) =>
+                    setEvents((prev) =>
+                      e.target.checked
+                        ? [...prev, event.value]
+                        : prev.filter((value) => value !== event.value)
+                    )
+                  }
+                >
+                  {event.label}
+                </Checkbox>
+              ))}
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Signing Secret
+            </FormLabel>
+            <Input
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              placeholder={
+                editWebhook ? "Unchanged" : "Used to sign each delivery"
+              }
+            />
+          </FormControl>
+
+          <FormControl
+            className="mt-3 mb-5"
+            display="flex"
+            alignItems="center"
+          >
+            <FormLabel fontWeight="bold" color="gray.700" mb="0">
+              Active
+            </FormLabel>
+            <Switch
+              isChecked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddWebhook;
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+  Switch,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useTestConnectorMutation,
+  useUpdateConnectorMutation,
+} from "../../../redux/api/api";
+import { ConnectorDefinition } from "../../utils/integrations";
+
+interface ConfigureConnectorProps {
+  closeDrawerHandler: () => void;
+  definition: ConnectorDefinition;
+  connector: any;
+}
+
+const ConfigureConnector: React.FC<ConfigureConnectorProps> = ({
+  closeDrawerHandler,
+  definition,
+  connector,
+}) => {
+  const [updateConnector] = useUpdateConnectorMutation();
+  const [testConnector] = useTestConnectorMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isTesting, setIsTesting] = useState(false);
+  const [enabled, setEnabled] = useState<boolean>(!!connector?.enabled);
+  const [config, setConfig] = useState<{ [key: string]: any }>(
+    connector?.config || {}
+  );
+
+  const getPayload = () => ({ type: definition.type, enabled, config });
+
+  const validate = () => {
+    const missing = definition.fields.find(
+      (field) =>
+        field.required &&
+        field.type !== "checkbox" &&
+        !String(config[field.key] ?? "").trim()
+    );
+    if (missing) {
+      toast.error(`${missing.label} is required`);
+      return false;
+    }
+    return true;
+  };
+
+  const testHandler = async () => {
+    if (!validate()) return;
+    try {
+      setIsTesting(true);
+      const response = await testConnector(getPayload()).unwrap();
+      toast.success(response?.message || "Connection successful");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Connection failed");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (enabled && !validate()) return;
+    try {
+      setIsSubmitting(true);
+      const response = await updateConnector(getPayload()).unwrap();
+      toast.success(response?.message || `${definition.name} saved`);
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Configure {definition.name}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <p className="text-sm" style={{ color: colors.text.secondary }}>
+          {definition.description}
+        </p>
+        <form onSubmit={submitHandler}>
+          <FormControl
+            className="mt-3 mb-5"
+            display="flex"
+            alignItems="center"
+          >
+            <FormLabel fontWeight="bold" color="gray.700" mb="0">
+              Enabled
+            </FormLabel>
+            <Switch
+              isChecked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+            />
+          </FormControl>
+
+          {definition.fields.map((field) => (
+            <FormControl
+              key={field.key}
+              className="mt-3 mb-5"
+              isRequired={field.required && field.type !== "checkbox"}
+            >
+              {field.type === "checkbox" ? (
+                <Checkbox
+                  isChecked={!!config[field.key]}
+                  onChange={(e) =>
+                    setConfig((prev) => ({
+                      ...prev,
+                      [field.key]: e.target.checked,
+                    }))
+                  }
+                >
+                  {field.label}
+                </Checkbox>
+              ) : (
+                <>
+                  <FormLabel fontWeight="bold" color="gray.700">
+                    {field.label}
+                  </FormLabel>
+                  {field.type === "select" ? (
+                    <Select
+                      placeholder="Select"
+                      value={config[field.key] || ""}
+                      onChange={(e) =>
+                        setConfig((prev) => ({
+                          ...prev,
+                          [field.key]: e.target.value,
+                        }))
+                      }
+                    >
+                      {field.options?.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </Select>
+                  ) : (
+                    <Input
+                      type={field.type || "text"}
+                      value={config[field.key] ?? ""}
+                      placeholder={field.placeholder}
+                      onChange={(e) =>
+                        setConfig((prev) => ({
+                          ...prev,
+                          [field.key]:
+                            field.type === "number"
+                              ? +e.target.value
+                              : e.target.value,
+                        }))
+                      }
+                    />
+                  )}
+                </>
+              )}
+            </FormControl>
+          ))}
+
+          <div className="flex gap-3 mt-5">
+            <Button
+              isLoading={isTesting}
+              variant="outline"
+              size="md"
+              width="full"
+              onClick={testHandler}
+            >
+              Test Connection
+            </Button>
+            <Button
+              isLoading={isSubmitting}
+              type="submit"
+              colorScheme="blue"
+              size="md"
+              width="full"
+            >
+              Save
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ConfigureConnector;
@@ -1,11 +1,20 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { BiX, BiMapPin, BiCreditCard, BiPackage, BiEdit } from "react-icons/bi";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
-import { useCreateInvoiceMutation } from "../../../redux/api/api";
+import {
+  useCreateInvoiceMutation,
+  useCreateVoucherMutation,
+  useLazyFetchSalesQuery,
+} from "../../../redux/api/api";
 import { useFormik } from "formik";
 import * as Yup from "yup";
 import AddItems from "../../Dynamic Add Components/AddItems";
+import { buildSalesVoucher } from "../../utils/vouchers";
+import {
+  getLineSubtotal,
+  getSaleItems,
+  getSaleTotals,
+} from "../../utils/salesOrders";
 
 const colors = {
   background: { drawer: "#fff", card: "#fff" },
@@ -44,7 +53,6 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
   closeDrawerHandler,
   fetchInvoicesHandler,
 }) => {
-  const [cookies] = useCookies();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [buyerOptions, setBuyerOptions] = useState<BuyerOption[]>([]);
   const [isLoadingBuyers, setIsLoadingBuyers] = useState(false);
@@ -110,6 +118,8 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
   });
 
   const [addInvoice] = useCreateInvoiceMutation();
+  const [createVoucher] = useCreateVoucherMutation();
+  const [fetchSales] = useLazyFetchSalesQuery();
 
   const formik = useFormik({
     initialValues: {
@@ -193,6 +203,24 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
           throw new Error(response.message);
         }
         toast.success(response.message || "Invoice created successfully!");
+
+        try {
+          await createVoucher(
+            buildSalesVoucher({
+              date: invoiceData.document_date,
+              invoiceNo: invoiceData.invoice_no,
+              partyName:
+                buyerOptions.find(
+                  (buyer) => buyer.value === values.consigneeShipTo
+                )?.label || "Unknown Party",
+              subtotal,
+              total,
+              invoiceId: response?.invoice?._id,
+            })
+          ).unwrap();
+        } catch (error) {
+          toast.error("Invoice saved, but its sales voucher could not be posted");
+        }
         fetchInvoicesHandler();
 
         // Reset form and items
@@ -217,16 +245,7 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
   const fetchBuyersHandler = useCallback(async () => {
     try {
       setIsLoadingBuyers(true);
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=1000`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchSales({ page: 1, limit: 1000 }).unwrap();
       if (!data?.data) {
         throw new Error("Failed to fetch parties data");
       }
@@ -251,13 +270,13 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
     } finally {
       setIsLoadingBuyers(false);
     }
-  }, [cookies?.access_token]);
+  }, [fetchSales]);
 
   const handleBuyerSelect = (buyerId: string) => {
     const selectedBuyer = buyerOptions.find((buyer) => buyer.value === buyerId);
     if (selectedBuyer && selectedBuyer.data) {
       const party = selectedBuyer.data.party;
-      const products = selectedBuyer.data.product_id || [];
+      const lines = getSaleItems(selectedBuyer.data);
 
       // Store the selected sales data
       setSelectedSalesData(selectedBuyer.data);
@@ -275,27 +294,20 @@ const AddInvoice: React.FC<AddInvoiceProps> = ({
         termsOfDelivery: selectedBuyer.data.terms_of_delivery || "",
       });
 
-      // Auto add product list to items with sales price
-      if (products.length > 0) {
-        const salesPrice = selectedBuyer.data.price || 0; // Get the sales price
-        const quantity = selectedBuyer.data.product_qty || 1;
-
-        const mappedItems = products.map((p: any) => ({
-          item: { value: p._id, label: p.name },
-          quantity: quantity,
-          // Use the sales price for total price calculation
-          price: quantity * salesPrice,
-          uom: p.uom || "PCS",
+      // Auto add the order lines to items with their sales price
+      if (lines.length > 0) {
+        const mappedItems = lines.map((line) => ({
+          item: { value: line.product_id, label: line.name || "N/A" },
+          quantity: line.quantity,
+          price: getLineSubtotal(line),
+          uom: line.uom || "PCS",
         }));
         setItems(mappedItems);
       }
 
       // Set Total from sales API
       if (selectedBuyer.data.total_price) {
-        setSubtotal(
-          selectedBuyer.data.total_price /
-            (1 + (selectedBuyer.data.GST || 0) / 100)
-        );
+        setSubtotal(getSaleTotals(lines).subtotal);
         setTotal(selectedBuyer.data.total_price);
       }
     }
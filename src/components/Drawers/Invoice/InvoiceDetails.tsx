@@ -1,6 +1,5 @@
 import { toast } from "react-toastify";
 import Drawer from "../../../ui/Drawer";
-import { useCookies } from "react-cookie";
 import { useEffect, useState } from "react";
 import Loading from "../../../ui/Loading";
 import { BiX } from "react-icons/bi";
@@ -14,6 +13,8 @@ import {
 } from "react-icons/md";
 import moment from "moment";
 import { colors } from "../../../theme/colors";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useLazyInvoiceDetailsQuery } from "../../../redux/api/api";
 
 interface InvoiceDetailsProps {
   closeDrawerHandler: () => void;
@@ -24,7 +25,7 @@ const InvoiceDetails: React.FC<InvoiceDetailsProps> = ({
   closeDrawerHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
+  const [invoiceDetails] = useLazyInvoiceDetailsQuery();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [buyer, setBuyer] = useState<string | undefined>();
   const [supplier, setSupplier] = useState<string | undefined>();
@@ -47,19 +48,7 @@ const InvoiceDetails: React.FC<InvoiceDetailsProps> = ({
 
   const fetchInvoiceDetails = async (id: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `invoice/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await invoiceDetails(id).unwrap();
       // console.log(data)
 
       setInvoiceNo(data.invoice.invoice_no);
@@ -70,7 +59,7 @@ const InvoiceDetails: React.FC<InvoiceDetailsProps> = ({
       setTotal(data.invoice.total);
       setBalance(data.invoice.balance);
       setTax(data.invoice.tax);
-      setItems(data.invoice.items);
+      setItems(data.invoice.items || []);
 
       setCategory(data?.invoice?.category);
       setBuyer(
@@ -129,388 +118,390 @@ const InvoiceDetails: React.FC<InvoiceDetailsProps> = ({
 
       {/* Content */}
       <div className="p-6">
-        {isLoading && <Loading />}
+        <RecordTabs module="invoice" recordId={id}>
+          {isLoading && <Loading />}
 
-        {!isLoading && (
-          <div className="space-y-6">
-            {/* Creator Information */}
-            <div
-              className="p-4 rounded-lg"
-              style={{
-                backgroundColor: colors.primary[50],
-                border: `1px solid ${colors.primary[200]}`,
-              }}
-            >
-              <div className="flex items-center gap-3 mb-3">
-                <div
-                  className="p-2 rounded-lg"
-                  style={{ backgroundColor: colors.primary[100] }}
-                >
-                  <MdPerson
-                    size={20}
-                    style={{ color: colors.primary[600] }}
-                  />
-                </div>
-                <h3
-                  className="font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Created By
-                </h3>
-              </div>
-              <p
-                className="text-lg font-medium"
-                style={{ color: colors.text.primary }}
-              >
-                {creator?.first_name} {creator?.last_name}
-              </p>
-            </div>
-
-            {/* Invoice Information Grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Category */}
+          {!isLoading && (
+            <div className="space-y-6">
+              {/* Creator Information */}
               <div
                 className="p-4 rounded-lg"
-                style={{ backgroundColor: colors.gray[50] }}
+                style={{
+                  backgroundColor: colors.primary[50],
+                  border: `1px solid ${colors.primary[200]}`,
+                }}
               >
-                <div className="flex items-center gap-2 mb-2">
+                <div className="flex items-center gap-3 mb-3">
                   <div
-                    className="text-sm font-medium"
-                    style={{ color: colors.text.secondary }}
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: colors.primary[100] }}
                   >
-                    Category
+                    <MdPerson
+                      size={20}
+                      style={{ color: colors.primary[600] }}
+                    />
                   </div>
+                  <h3
+                    className="font-semibold"
+                    style={{ color: colors.text.primary }}
+                  >
+                    Created By
+                  </h3>
                 </div>
-                <div
-                  className="inline-block px-3 py-1 rounded-full text-sm font-medium"
-                  style={{
-                    backgroundColor:
-                      category === "sale"
-                        ? colors.success[100]
-                        : colors.warning[100],
-                    color:
-                      category === "sale"
-                        ? colors.success[700]
-                        : colors.warning[700],
-                  }}
+                <p
+                  className="text-lg font-medium"
+                  style={{ color: colors.text.primary }}
                 >
-                  {category?.toUpperCase()}
-                </div>
+                  {creator?.first_name} {creator?.last_name}
+                </p>
               </div>
 
-              {/* Invoice Number */}
-              <div
-                className="p-4 rounded-lg"
-                style={{ backgroundColor: colors.gray[50] }}
-              >
+              {/* Invoice Information Grid */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Category */}
                 <div
-                  className="text-sm font-medium mb-2"
-                  style={{ color: colors.text.secondary }}
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: colors.gray[50] }}
                 >
-                  Invoice Number
+                  <div className="flex items-center gap-2 mb-2">
+                    <div
+                      className="text-sm font-medium"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      Category
+                    </div>
+                  </div>
+                  <div
+                    className="inline-block px-3 py-1 rounded-full text-sm font-medium"
+                    style={{
+                      backgroundColor:
+                        category === "sale"
+                          ? colors.success[100]
+                          : colors.warning[100],
+                      color:
+                        category === "sale"
+                          ? colors.success[700]
+                          : colors.warning[700],
+                    }}
+                  >
+                    {category?.toUpperCase()}
+                  </div>
                 </div>
+
+                {/* Invoice Number */}
                 <div
-                  className="font-semibold"
-                  style={{ color: colors.text.primary }}
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: colors.gray[50] }}
                 >
-                  {invoiceNo}
-                </div>
-              </div>
-            </div>
-
-            {/* Buyer Information */}
-            {buyer && (
-              <div
-                className="p-4 rounded-lg"
-                style={{
-                  backgroundColor: colors.secondary[50],
-                  border: `1px solid ${colors.secondary[200]}`,
-                }}
-              >
-                <div className="flex items-center gap-3 mb-2">
                   <div
-                    className="p-2 rounded-lg"
-                    style={{ backgroundColor: colors.secondary[100] }}
+                    className="text-sm font-medium mb-2"
+                    style={{ color: colors.text.secondary }}
                   >
-                    <MdPerson size={20} style={{ color: colors.secondary[600] }} />
+                    Invoice Number
+                  </div>
+                  <div
+                    className="font-semibold"
+                    style={{ color: colors.text.primary }}
+                  >
+                    {invoiceNo}
                   </div>
-                  <h3 className="font-semibold" style={{ color: colors.text.primary }}>
-                    Buyer
-                  </h3>
                 </div>
+              </div>
 
-                <p className="text-lg font-medium" style={{ color: colors.text.primary }}>
-                  {buyer}
-                </p>
+              {/* Buyer Information */}
+              {buyer && (
+                <div
+                  className="p-4 rounded-lg"
+                  style={{
+                    backgroundColor: colors.secondary[50],
+                    border: `1px solid ${colors.secondary[200]}`,
+                  }}
+                >
+                  <div className="flex items-center gap-3 mb-2">
+                    <div
+                      className="p-2 rounded-lg"
+                      style={{ backgroundColor: colors.secondary[100] }}
+                    >
+                      <MdPerson size={20} style={{ color: colors.secondary[600] }} />
+                    </div>
+                    <h3 className="font-semibold" style={{ color: colors.text.primary }}>
+                      Buyer
+                    </h3>
+                  </div>
 
-                {/* <p className="text-sm" style={{ color: colors.text.secondary }}>
-                  GSTIN: {buyer?.gstin || "N/A"}
-                </p>
-                <p className="text-sm" style={{ color: colors.text.secondary }}>
-                  Address: {buyer?.address || "N/A"}
-                </p> */}
-              </div>
-            )}
+                  <p className="text-lg font-medium" style={{ color: colors.text.primary }}>
+                    {buyer}
+                  </p>
 
+                  {/* <p className="text-sm" style={{ color: colors.text.secondary }}>
+                    GSTIN: {buyer?.gstin || "N/A"}
+                  </p>
+                  <p className="text-sm" style={{ color: colors.text.secondary }}>
+                    Address: {buyer?.address || "N/A"}
+                  </p> */}
+                </div>
+              )}
 
-            {/* Dates */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div
-                className="p-4 rounded-lg"
-                style={{ backgroundColor: colors.gray[50] }}
-              >
-                <div className="flex items-center gap-2 mb-2">
-                  <MdDateRange
-                    size={16}
-                    style={{ color: colors.text.secondary }}
-                  />
+
+              {/* Dates */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: colors.gray[50] }}
+                >
+                  <div className="flex items-center gap-2 mb-2">
+                    <MdDateRange
+                      size={16}
+                      style={{ color: colors.text.secondary }}
+                    />
+                    <div
+                      className="text-sm font-medium"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      Document Date
+                    </div>
+                  </div>
                   <div
-                    className="text-sm font-medium"
-                    style={{ color: colors.text.secondary }}
+                    className="font-medium"
+                    style={{ color: colors.text.primary }}
                   >
-                    Document Date
+                    {moment(documentDate).format("DD/MM/YYYY")}
                   </div>
                 </div>
+
                 <div
-                  className="font-medium"
-                  style={{ color: colors.text.primary }}
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: colors.gray[50] }}
                 >
-                  {moment(documentDate).format("DD/MM/YYYY")}
+                  <div className="flex items-center gap-2 mb-2">
+                    <MdDateRange
+                      size={16}
+                      style={{ color: colors.text.secondary }}
+                    />
+                    <div
+                      className="text-sm font-medium"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      Sales Order Date
+                    </div>
+                  </div>
+                  <div
+                    className="font-medium"
+                    style={{ color: colors.text.primary }}
+                  >
+                    {moment(salesOrderDate).format("DD/MM/YYYY")}
+                  </div>
                 </div>
               </div>
 
+              {/* Store Information */}
               <div
                 className="p-4 rounded-lg"
-                style={{ backgroundColor: colors.gray[50] }}
+                style={{
+                  backgroundColor: colors.warning[50],
+                  border: `1px solid ${colors.warning[200]}`,
+                }}
               >
-                <div className="flex items-center gap-2 mb-2">
-                  <MdDateRange
-                    size={16}
-                    style={{ color: colors.text.secondary }}
-                  />
+                <div className="flex items-center gap-3 mb-2">
                   <div
-                    className="text-sm font-medium"
-                    style={{ color: colors.text.secondary }}
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: colors.warning[100] }}
                   >
-                    Sales Order Date
+                    <MdStore size={20} style={{ color: colors.warning[600] }} />
                   </div>
+                  <h3
+                    className="font-semibold"
+                    style={{ color: colors.text.primary }}
+                  >
+                    Store
+                  </h3>
                 </div>
-                <div
-                  className="font-medium"
-                  style={{ color: colors.text.primary }}
-                >
-                  {moment(salesOrderDate).format("DD/MM/YYYY")}
-                </div>
-              </div>
-            </div>
-
-            {/* Store Information */}
-            <div
-              className="p-4 rounded-lg"
-              style={{
-                backgroundColor: colors.warning[50],
-                border: `1px solid ${colors.warning[200]}`,
-              }}
-            >
-              <div className="flex items-center gap-3 mb-2">
-                <div
-                  className="p-2 rounded-lg"
-                  style={{ backgroundColor: colors.warning[100] }}
-                >
-                  <MdStore size={20} style={{ color: colors.warning[600] }} />
-                </div>
-                <h3
-                  className="font-semibold"
+                <p
+                  className="text-lg font-medium"
                   style={{ color: colors.text.primary }}
                 >
-                  Store
-                </h3>
+                  {store}
+                </p>
               </div>
-              <p
-                className="text-lg font-medium"
-                style={{ color: colors.text.primary }}
-              >
-                {store}
-              </p>
-            </div>
 
-            {/* Items List */}
-            <div>
-              <div className="flex items-center gap-3 mb-4">
-                <div
-                  className="p-2 rounded-lg"
-                  style={{ backgroundColor: colors.primary[100] }}
-                >
-                  <MdInventory
-                    size={20}
-                    style={{ color: colors.primary[600] }}
-                  />
+              {/* Items List */}
+              <div>
+                <div className="flex items-center gap-3 mb-4">
+                  <div
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: colors.primary[100] }}
+                  >
+                    <MdInventory
+                      size={20}
+                      style={{ color: colors.primary[600] }}
+                    />
+                  </div>
+                  <h3
+                    className="font-semibold text-lg"
+                    style={{ color: colors.text.primary }}
+                  >
+                    Items
+                  </h3>
                 </div>
-                <h3
-                  className="font-semibold text-lg"
-                  style={{ color: colors.text.primary }}
-                >
-                  Items
-                </h3>
-              </div>
-              <div
-                className="rounded-lg border overflow-hidden"
-                style={{
-                  backgroundColor: colors.background.card,
-                  borderColor: colors.border.light,
-                }}
-              >
                 <div
-                  className="grid grid-cols-3 gap-4 p-3 text-sm font-medium"
+                  className="rounded-lg border overflow-hidden"
                   style={{
-                    backgroundColor: colors.table.header,
-                    color: colors.table.headerText,
+                    backgroundColor: colors.background.card,
+                    borderColor: colors.border.light,
                   }}
                 >
-                  <div>Item Name</div>
-                  <div className="text-center">Quantity</div>
-                  <div className="text-right">Amount</div>
-                </div>
-                {items?.map((item: any, index: number) => (
                   <div
-                    key={index}
-                    className="grid grid-cols-3 gap-4 p-3 text-sm border-t"
+                    className="grid grid-cols-3 gap-4 p-3 text-sm font-medium"
                     style={{
-                      borderColor: colors.border.light,
-                      backgroundColor:
-                        index % 2 === 0
-                          ? colors.background.card
-                          : colors.table.stripe,
+                      backgroundColor: colors.table.header,
+                      color: colors.table.headerText,
                     }}
                   >
+                    <div>Item Name</div>
+                    <div className="text-center">Quantity</div>
+                    <div className="text-right">Amount</div>
+                  </div>
+                  {items?.map((item: any, index: number) => (
                     <div
-                      className="font-medium"
-                      style={{ color: colors.text.primary }}
-                    >
-                      {item.item.name}
-                    </div>
-                    <div
-                      className="text-center"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      {item.quantity}
-                    </div>
-                    <div
-                      className="text-right font-semibold"
-                      style={{ color: colors.primary[600] }}
+                      key={index}
+                      className="grid grid-cols-3 gap-4 p-3 text-sm border-t"
+                      style={{
+                        borderColor: colors.border.light,
+                        backgroundColor:
+                          index % 2 === 0
+                            ? colors.background.card
+                            : colors.table.stripe,
+                      }}
                     >
-                      ₹{item.amount?.toLocaleString()}
+                      <div
+                        className="font-medium"
+                        style={{ color: colors.text.primary }}
+                      >
+                        {item.item.name}
+                      </div>
+                      <div
+                        className="text-center"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        {item.quantity}
+                      </div>
+                      <div
+                        className="text-right font-semibold"
+                        style={{ color: colors.primary[600] }}
+                      >
+                        ₹{item.amount?.toLocaleString()}
+                      </div>
                     </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-
-            {/* Note */}
-            {note && note !== "Not Available" && (
-              <div
-                className="p-4 rounded-lg"
-                style={{ backgroundColor: colors.gray[50] }}
-              >
-                <div
-                  className="text-sm font-medium mb-2"
-                  style={{ color: colors.text.secondary }}
-                >
-                  Note
+                  ))}
                 </div>
-                <p style={{ color: colors.text.primary }}>{note}</p>
               </div>
-            )}
 
-            {/* Financial Summary */}
-            <div
-              className="p-6 rounded-lg"
-              style={{
-                backgroundColor: colors.success[50],
-                border: `1px solid ${colors.success[200]}`,
-              }}
-            >
-              <div className="flex items-center gap-3 mb-4">
+              {/* Note */}
+              {note && note !== "Not Available" && (
                 <div
-                  className="p-2 rounded-lg"
-                  style={{ backgroundColor: colors.success[100] }}
+                  className="p-4 rounded-lg"
+                  style={{ backgroundColor: colors.gray[50] }}
                 >
-                  <MdAttachMoney
-                    size={20}
-                    style={{ color: colors.success[600] }}
-                  />
-                </div>
-                <h3
-                  className="font-semibold text-lg"
-                  style={{ color: colors.text.primary }}
-                >
-                  Financial Summary
-                </h3>
-              </div>
-
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span style={{ color: colors.text.secondary }}>
-                    Subtotal:
-                  </span>
-                  <span
-                    className="font-semibold"
-                    style={{ color: colors.text.primary }}
+                  <div
+                    className="text-sm font-medium mb-2"
+                    style={{ color: colors.text.secondary }}
                   >
-                    ₹{subtotal?.toLocaleString()}
-                  </span>
+                    Note
+                  </div>
+                  <p style={{ color: colors.text.primary }}>{note}</p>
                 </div>
+              )}
 
-                <div className="flex justify-between items-center">
-                  <span style={{ color: colors.text.secondary }}>
-                    Tax ({tax?.tax_name}):
-                  </span>
-                  <span
-                    className="font-semibold"
-                    style={{ color: colors.text.primary }}
+              {/* Financial Summary */}
+              <div
+                className="p-6 rounded-lg"
+                style={{
+                  backgroundColor: colors.success[50],
+                  border: `1px solid ${colors.success[200]}`,
+                }}
+              >
+                <div className="flex items-center gap-3 mb-4">
+                  <div
+                    className="p-2 rounded-lg"
+                    style={{ backgroundColor: colors.success[100] }}
                   >
-                    ₹{((total || 0) - (subtotal || 0))?.toLocaleString()}
-                  </span>
-                </div>
-
-                <div
-                  className="flex justify-between items-center pt-3 border-t"
-                  style={{ borderColor: colors.success[200] }}
-                >
-                  <span
-                    className="font-semibold"
+                    <MdAttachMoney
+                      size={20}
+                      style={{ color: colors.success[600] }}
+                    />
+                  </div>
+                  <h3
+                    className="font-semibold text-lg"
                     style={{ color: colors.text.primary }}
                   >
-                    Total:
-                  </span>
-                  <span
-                    className="text-xl font-bold"
-                    style={{ color: colors.success[600] }}
-                  >
-                    ₹{total?.toLocaleString()}
-                  </span>
+                    Financial Summary
+                  </h3>
                 </div>
 
-                <div className="flex justify-between items-center">
-                  <span style={{ color: colors.text.secondary }}>
-                    Balance:
-                  </span>
-                  <span
-                    className="font-semibold"
-                    style={{
-                      color:
-                        (balance || 0) > 0
-                          ? colors.error[600]
-                          : colors.success[600],
-                    }}
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span style={{ color: colors.text.secondary }}>
+                      Subtotal:
+                    </span>
+                    <span
+                      className="font-semibold"
+                      style={{ color: colors.text.primary }}
+                    >
+                      ₹{subtotal?.toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between items-center">
+                    <span style={{ color: colors.text.secondary }}>
+                      Tax ({tax?.tax_name}):
+                    </span>
+                    <span
+                      className="font-semibold"
+                      style={{ color: colors.text.primary }}
+                    >
+                      ₹{((total || 0) - (subtotal || 0))?.toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div
+                    className="flex justify-between items-center pt-3 border-t"
+                    style={{ borderColor: colors.success[200] }}
                   >
-                    ₹{balance?.toLocaleString()}
-                  </span>
+                    <span
+                      className="font-semibold"
+                      style={{ color: colors.text.primary }}
+                    >
+                      Total:
+                    </span>
+                    <span
+                      className="text-xl font-bold"
+                      style={{ color: colors.success[600] }}
+                    >
+                      ₹{total?.toLocaleString()}
+                    </span>
+                  </div>
+
+                  <div className="flex justify-between items-center">
+                    <span style={{ color: colors.text.secondary }}>
+                      Balance:
+                    </span>
+                    <span
+                      className="font-semibold"
+                      style={{
+                        color:
+                          (balance || 0) > 0
+                            ? colors.error[600]
+                            : colors.success[600],
+                      }}
+                    >
+                      ₹{balance?.toLocaleString()}
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
@@ -11,13 +11,20 @@ import {
 } from "react-icons/fa";
 import React, { useEffect, useState, useCallback } from "react";
 import Select from "react-select";
-import { useUpdateInvoiceMutation } from "../../../redux/api/api";
-import { useCookies } from "react-cookie";
+import {
+  useLazyFetchProductsQuery,
+  useLazyFetchSalesQuery,
+  useLazyFetchSellersQuery,
+  useLazyFetchStoresQuery,
+  useLazyInvoiceDetailsQuery,
+  useUpdateInvoiceMutation,
+} from "../../../redux/api/api";
 import Loading from "../../../ui/Loading";
 import moment from "moment";
 import AddItems from "../../Dynamic Add Components/AddItems";
 import { colors } from "../../../theme/colors";
 import { toast } from "react-toastify";
+import { getSaleItems, getSaleTotals } from "../../utils/salesOrders";
 
 interface UpdateInvoiceProps {
   closeDrawerHandler: () => void;
@@ -35,7 +42,6 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
   fetchInvoicesHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [buyer, setBuyer] = useState<
@@ -91,6 +97,11 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
   >([{ item: { value: "", label: "" }, quantity: 0, price: 0 }]);
 
   const [updateInvoice] = useUpdateInvoiceMutation();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [fetchInvoiceDetails] = useLazyInvoiceDetailsQuery();
+  const [fetchSellers] = useLazyFetchSellersQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   // Custom styles for react-select to match modern theme
   const customSelectStyles = {
@@ -137,6 +148,7 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
 
   const updateInvoiceHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!id) return;
 
     const data = {
       _id: id,
@@ -180,19 +192,7 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
     async (id: string) => {
       try {
         setIsLoading(true);
-        const response = await fetch(
-          process.env.REACT_APP_BACKEND_URL + `invoice/${id}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
-        const data = await response.json();
-        if (!data.success) {
-          throw new Error(data.message);
-        }
+        const data = await fetchInvoiceDetails(id).unwrap();
 
         // Handle buyer/supplier safely
         if (data.invoice.buyer) {
@@ -263,21 +263,12 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
         setIsLoading(false);
       }
     },
-    [cookies?.access_token]
+    [fetchInvoiceDetails]
   );
 
   const fetchBuyersHandler = useCallback(async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=1000`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchSales({ page: 1, limit: 1000 }).unwrap();
       if (!data?.data) {
         throw new Error("Failed to fetch buyers");
       }
@@ -293,24 +284,12 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
     } catch (error: any) {
       toast.error(error?.message || "Failed to fetch buyers");
     }
-  }, [cookies?.access_token]);
+  }, [fetchSales]);
 
 
   const fetchSuppliersHandler = useCallback(async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchSellers().unwrap();
 
       const suppliers = data.agents.map((supplier: any) => ({
         value: supplier._id,
@@ -320,23 +299,11 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     }
-  }, [cookies?.access_token]);
+  }, [fetchSellers]);
 
   const fetchItemsHandler = useCallback(async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts().unwrap();
       const products = results.products.map((product: any) => ({
         value: product._id,
         label: product.name,
@@ -346,23 +313,11 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     }
-  }, [cookies?.access_token]);
+  }, [fetchProducts]);
 
   const fetchStoresHandler = useCallback(async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores().unwrap();
       const stores = data.stores.map((store: any) => ({
         value: store._id,
         label: store.name,
@@ -371,33 +326,30 @@ const UpdateInvoice: React.FC<UpdateInvoiceProps> = ({
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     }
-  }, [cookies?.access_token]);
+  }, [fetchStores]);
 
 
   const handleBuyerSelect = (buyerId: string) => {
     const selectedBuyer = buyerOptions.find((b) => b.value === buyerId);
     if (selectedBuyer && selectedBuyer.data) {
       const party = selectedBuyer.data.party;
-      const products = selectedBuyer.data.product_id || [];
+      const lines = getSaleItems(selectedBuyer.data);
 
       setBuyer({ value: buyerId, label: selectedBuyer.label });
       setInvoiceNo(selectedBuyer.data.order_id || invoiceNo);
       setNote(selectedBuyer.data.terms_of_delivery || note);
 
-      if (products.length > 0) {
-        const mappedItems = products.map((p: any) => ({
-          item: { value: p._id, label: p.name },
-          quantity: selectedBuyer.data.product_qty || 1,
-          price: p.price,
+      if (lines.length > 0) {
+        const mappedItems = lines.map((line) => ({
+          item: { value: line.product_id, label: line.name || "N/A" },
+          quantity: line.quantity,
+          price: line.price,
         }));
         setInputs(mappedItems);
       }
 
       if (selectedBuyer.data.total_price) {
-        setSubtotal(
-          selectedBuyer.data.total_price /
-          (1 + (selectedBuyer.data.GST || 0) / 100)
-        );
+        setSubtotal(getSaleTotals(lines).subtotal);
         setTotal(selectedBuyer.data.total_price);
       }
     }
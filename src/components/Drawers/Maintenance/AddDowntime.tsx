@@ -0,0 +1,234 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import { useCreateDowntimeMutation } from "../../../redux/api/api";
+import { downtimeReasons } from "../../utils/maintenance";
+
+interface AddDowntimeProps {
+  closeDrawerHandler: () => void;
+  resources: any[];
+  workOrders: any[];
+}
+
+const AddDowntime: React.FC<AddDowntimeProps> = ({
+  closeDrawerHandler,
+  resources,
+  workOrders,
+}) => {
+  const [createDowntime] = useCreateDowntimeMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [values, setValues] = useState<any>({
+    resource: "",
+    reason: downtimeReasons[0],
+    start: "",
+    end: "",
+    work_order: "",
+    remarks: "",
+  });
+
+  const changeHandler = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    setValues((prev: any) => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (values.end && new Date(values.end) <= new Date(values.start)) {
+      toast.error("End time must be after start time");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const response = await createDowntime({
+        ...values,
+        start: new Date(values.start),
+        end: values.end ? new Date(values.end) : undefined,
+        work_order: values.work_order || undefined,
+      }).unwrap();
+      toast.success(response?.message || "Downtime logged");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resourceWorkOrders = workOrders.filter(
+    (wo: any) => (wo?.resource?._id || wo?.resource) === values.resource
+  );
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Log Downtime
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Resource
+            </FormLabel>
+            <ChakraSelect
+              name="resource"
+              value={values.resource}
+              onChange={changeHandler}
+              placeholder="Select resource"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {resources.map((resource: any) => (
+                <option key={resource._id} value={resource._id}>
+                  {resource.name} ({resource.type})
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Reason
+            </FormLabel>
+            <ChakraSelect
+              name="reason"
+              value={values.reason}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            >
+              {downtimeReasons.map((reason) => (
+                <option key={reason} value={reason}>
+                  {reason}
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Start
+            </FormLabel>
+            <Input
+              type="datetime-local"
+              name="start"
+              value={values.start}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              End
+            </FormLabel>
+            <Input
+              type="datetime-local"
+              name="end"
+              value={values.end}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            />
+            <p className="text-xs mt-1 text-gray-500">
+              Leave empty if the machine is still down.
+            </p>
+          </FormControl>
+
+          {resourceWorkOrders.length > 0 && (
+            <FormControl className="mt-3 mb-5">
+              <FormLabel fontWeight="bold" color="gray.700">
+                Work Order
+              </FormLabel>
+              <ChakraSelect
+                name="work_order"
+                value={values.work_order}
+                onChange={changeHandler}
+                placeholder="None"
+                bg="white"
+                borderColor="gray.300"
+              >
+                {resourceWorkOrders.map((wo: any) => (
+                  <option key={wo._id} value={wo._id}>
+                    {wo.title} ({wo.status})
+                  </option>
+                ))}
+              </ChakraSelect>
+            </FormControl>
+          )}
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              name="remarks"
+              value={values.remarks}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddDowntime;
@@ -0,0 +1,364 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { FiPlus, FiTrash2 } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateMaintenancePlanMutation,
+  useUpdateMaintenancePlanMutation,
+} from "../../../redux/api/api";
+import {
+  getMeterReading,
+  maintenanceTriggers,
+  meterSources,
+} from "../../utils/maintenance";
+
+interface AddMaintenancePlanProps {
+  closeDrawerHandler: () => void;
+  resources: any[];
+  deviceReading: any;
+  editPlan?: any | null;
+}
+
+const AddMaintenancePlan: React.FC<AddMaintenancePlanProps> = ({
+  closeDrawerHandler,
+  resources,
+  deviceReading,
+  editPlan,
+}) => {
+  const [createMaintenancePlan] = useCreateMaintenancePlanMutation();
+  const [updateMaintenancePlan] = useUpdateMaintenancePlanMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [values, setValues] = useState<any>({
+    title: editPlan?.title || "",
+    resource: editPlan?.resource?._id || editPlan?.resource || "",
+    device_id: editPlan?.device_id || "",
+    trigger: editPlan?.trigger || "calendar",
+    interval_days: editPlan?.interval_days?.toString() || "",
+    interval_value: editPlan?.interval_value?.toString() || "",
+    meter: editPlan?.meter || "encoderCount",
+    counts_per_hour: editPlan?.counts_per_hour?.toString() || "",
+    last_service_date: editPlan?.last_service_date
+      ? new Date(editPlan.last_service_date).toISOString().slice(0, 10)
+      : new Date().toISOString().slice(0, 10),
+  });
+  const [checklist, setChecklist] = useState<string[]>(
+    editPlan?.checklist?.length ? editPlan.checklist : [""]
+  );
+
+  const changeHandler = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => {
+    setValues((prev: any) => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const tasks = checklist.map((task) => task.trim()).filter(Boolean);
+    if (tasks.length === 0) {
+      toast.error("Please add at least one checklist task");
+      return;
+    }
+    if (values.trigger === "run-hours" && !(+values.counts_per_hour > 0)) {
+      toast.error("Please enter how many counts make up one run hour");
+      return;
+    }
+
+    const isCalendar = values.trigger === "calendar";
+    try {
+      setIsSubmitting(true);
+      const data = {
+        title: values.title,
+        resource: values.resource,
+        device_id: values.device_id.trim() || undefined,
+        trigger: values.trigger,
+        interval_days: isCalendar ? +values.interval_days : undefined,
+        interval_value: isCalendar ? undefined : +values.interval_value,
+        meter: isCalendar ? undefined : values.meter,
+        counts_per_hour:
+          values.trigger === "run-hours" ? +values.counts_per_hour : undefined,
+        last_service_date: values.last_service_date,
+        // New counter-based plans start counting from the current reading
+        last_service_reading:
+          editPlan?.last_service_reading ??
+          (isCalendar
+            ? undefined
+            : getMeterReading(deviceReading, values.meter)),
+        checklist: tasks,
+      };
+      const response = editPlan?._id
+        ? await updateMaintenancePlan({ _id: editPlan._id, ...data }).unwrap()
+        : await createMaintenancePlan(data).unwrap();
+      toast.success(response?.message || "Maintenance plan saved");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editPlan ? "Edit Maintenance Plan" : "New Maintenance Plan"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Title
+            </FormLabel>
+            <Input
+              name="title"
+              value={values.title}
+              onChange={changeHandler}
+              placeholder="e.g. Lubricate print cylinder bearings"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Resource
+            </FormLabel>
+            <ChakraSelect
+              name="resource"
+              value={values.resource}
+              onChange={changeHandler}
+              placeholder="Select resource"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {resources.map((resource: any) => (
+                <option key={resource._id} value={resource._id}>
+                  {resource.name} ({resource.type})
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Machine Device ID
+            </FormLabel>
+            <Input
+              name="device_id"
+              value={values.device_id}
+              onChange={changeHandler}
+              placeholder="e.g. PC-001"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Trigger
+            </FormLabel>
+            <ChakraSelect
+              name="trigger"
+              value={values.trigger}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            >
+              {maintenanceTriggers.map((trigger) => (
+                <option key={trigger.value} value={trigger.value}>
+                  {trigger.label}
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          {values.trigger === "calendar" ? (
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Interval (days)
+              </FormLabel>
+              <Input
+                type="number"
+                min={1}
+                name="interval_days"
+                value={values.interval_days}
+                onChange={changeHandler}
+                bg="white"
+                borderColor="gray.300"
+              />
+            </FormControl>
+          ) : (
+            <>
+              <FormControl className="mt-3 mb-5" isRequired>
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Counter
+                </FormLabel>
+                <ChakraSelect
+                  name="meter"
+                  value={values.meter}
+                  onChange={changeHandler}
+                  bg="white"
+                  borderColor="gray.300"
+                >
+                  {meterSources.map((meter) => (
+                    <option key={meter.value} value={meter.value}>
+                      {meter.label}
+                    </option>
+                  ))}
+                </ChakraSelect>
+              </FormControl>
+              <div className="grid grid-cols-2 gap-3">
+                <FormControl className="mt-3 mb-5" isRequired>
+                  <FormLabel fontWeight="bold" color="gray.700">
+                    {values.trigger === "run-hours"
+                      ? "Interval (hrs)"
+                      : "Interval (cycles)"}
+                  </FormLabel>
+                  <Input
+                    type="number"
+                    min={1}
+                    name="interval_value"
+                    value={values.interval_value}
+                    onChange={changeHandler}
+                    bg="white"
+                    borderColor="gray.300"
+                  />
+                </FormControl>
+                {values.trigger === "run-hours" && (
+                  <FormControl className="mt-3 mb-5" isRequired>
+                    <FormLabel fontWeight="bold" color="gray.700">
+                      Counts / Hour
+                    </FormLabel>
+                    <Input
+                      type="number"
+                      min={1}
+                      name="counts_per_hour"
+                      value={values.counts_per_hour}
+                      onChange={changeHandler}
+                      bg="white"
+                      borderColor="gray.300"
+                    />
+                  </FormControl>
+                )}
+              </div>
+              <p className="text-xs -mt-3 mb-5 text-gray-500">
+                Current reading:{" "}
+                {getMeterReading(deviceReading, values.meter)}
+              </p>
+            </>
+          )}
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Last Serviced On
+            </FormLabel>
+            <Input
+              type="date"
+              name="last_service_date"
+              value={values.last_service_date}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Checklist
+            </FormLabel>
+            <div className="space-y-2">
+              {checklist.map((task, index) => (
+                <div key={index} className="flex gap-2">
+                  <Textarea
+                    size="sm"
+                    rows={1}
+                    value={task}
+                    onChange={(e) =>
+                      setChecklist((prev) =>
+                        prev.map((t, i) => (i === index ? e.target.value : t))
+                      )
+                    }
+                    placeholder={`Task ${index + 1}`}
+                  />
+                  {checklist.length > 1 && (
+                    <button
+                      type="button"
+                      className="p-2 text-red-600"
+                      onClick={() =>
+                        setChecklist((prev) =>
+                          prev.filter((_, i) => i !== index)
+                        )
+                      }
+                    >
+                      <FiTrash2 />
+                    </button>
+                  )}
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<FiPlus />}
+                onClick={() => setChecklist((prev) => [...prev, ""])}
+              >
+                Add Task
+              </Button>
+            </div>
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddMaintenancePlan;
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { FiPlus } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateWorkOrderMutation,
+  useUpdateWorkOrderMutation,
+} from "../../../redux/api/api";
+import { getMeterReading, workOrderStatuses } from "../../utils/maintenance";
+
+interface AddWorkOrderProps {
+  closeDrawerHandler: () => void;
+  resources: any[];
+  plans: any[];
+  deviceReading: any;
+  plan?: any | null;
+  editWorkOrder?: any | null;
+}
+
+const AddWorkOrder: React.FC<AddWorkOrderProps> = ({
+  closeDrawerHandler,
+  resources,
+  plans,
+  deviceReading,
+  plan,
+  editWorkOrder,
+}) => {
+  const [createWorkOrder] = useCreateWorkOrderMutation();
+  const [updateWorkOrder] = useUpdateWorkOrderMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [values, setValues] = useState<any>({
+    title: editWorkOrder?.title || plan?.title || "",
+    plan: editWorkOrder?.plan?._id || editWorkOrder?.plan || plan?._id || "",
+    resource:
+      editWorkOrder?.resource?._id ||
+      editWorkOrder?.resource ||
+      plan?.resource?._id ||
+      plan?.resource ||
+      "",
+    scheduled_date: (editWorkOrder?.scheduled_date
+      ? new Date(editWorkOrder.scheduled_date)
+      : new Date()
+    )
+      .toISOString()
+      .slice(0, 10),
+    assigned_to: editWorkOrder?.assigned_to || "",
+    status: editWorkOrder?.status || "Open",
+    remarks: editWorkOrder?.remarks || "",
+  });
+  const [checklist, setChecklist] = useState<any[]>(
+    editWorkOrder?.checklist ||
+      (plan?.checklist || []).map((task: string) => ({ task, done: false }))
+  );
+  const [newTask, setNewTask] = useState<string>("");
+
+  const changeHandler = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setValues((prev: any) => ({ ...prev, [name]: value }));
+
+    // Picking a plan brings in its resource and checklist
+    if (name === "plan") {
+      const selectedPlan = plans.find((p: any) => p._id === value);
+      if (selectedPlan) {
+        setValues((prev: any) => ({
+          ...prev,
+          title: prev.title || selectedPlan.title,
+          resource: selectedPlan.resource?._id || selectedPlan.resource,
+        }));
+        setChecklist(
+          (selectedPlan.checklist || []).map((task: string) => ({
+            task,
+            done: false,
+          }))
+        );
+      }
+    }
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const isCompleting = values.status === "Completed";
+    if (isCompleting && checklist.some((item) => !item.done)) {
+      toast.error("Please tick off every checklist task before completing");
+      return;
+    }
+
+    const selectedPlan = plans.find((p: any) => p._id === values.plan);
+    try {
+      setIsSubmitting(true);
+      const data = {
+        ...values,
+        plan: values.plan || undefined,
+        checklist,
+        completed_at: isCompleting
+          ? editWorkOrder?.completed_at || new Date()
+          : undefined,
+        meter_reading:
+          isCompleting && selectedPlan?.meter
+            ? getMeterReading(deviceReading, selectedPlan.meter)
+            : undefined,
+      };
+      const response = editWorkOrder?._id
+        ? await updateWorkOrder({ _id: editWorkOrder._id, ...data }).unwrap()
+        : await createWorkOrder(data).unwrap();
+      toast.success(response?.message || "Work order saved");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editWorkOrder ? "Update Work Order" : "New Work Order"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Maintenance Plan
+            </FormLabel>
+            <ChakraSelect
+              name="plan"
+              value={values.plan}
+              onChange={changeHandler}
+              placeholder="Unplanned / breakdown"
+              bg="white"
+              borderColor="gray.300"
+              isDisabled={!!editWorkOrder}
+            >
+              {plans.map((p: any) => (
+                <option key={p._id} value={p._id}>
+                  {p.title}
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Title
+            </FormLabel>
+            <Input
+              name="title"
+              value={values.title}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Resource
+            </FormLabel>
+            <ChakraSelect
+              name="resource"
+              value={values.resource}
+              onChange={changeHandler}
+              placeholder="Select resource"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {resources.map((resource: any) => (
+                <option key={resource._id} value={resource._id}>
+                  {resource.name} ({resource.type})
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <div className="grid grid-cols-2 gap-3">
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Scheduled Date
+              </FormLabel>
+              <Input
+                type="date"
+                name="scheduled_date"
+                value={values.scheduled_date}
+                onChange={changeHandler}
+                bg="white"
+                borderColor="gray.300"
+              />
+            </FormControl>
+            <FormControl className="mt-3 mb-5">
+              <FormLabel fontWeight="bold" color="gray.700">
+                Assigned To
+              </FormLabel>
+              <Input
+                name="assigned_to"
+                value={values.assigned_to}
+                onChange={changeHandler}
+                bg="white"
+                borderColor="gray.300"
+              />
+            </FormControl>
+          </div>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Checklist
+            </FormLabel>
+            <div className="flex flex-col gap-2">
+              {checklist.map((item, index) => (
+                <Checkbox
+                  key={index}
+                  isChecked={item.done}
+                  onChange={(e) =>
+                    setChecklist((prev) =>
+                      prev.map((c, i) =>
+                        i === index ? { ...c, done: e.target.checked } : c
+                      )
+                    )
+                  }
+                >
+                  {item.task}
+                </Checkbox>
+              ))}
+              <div className="flex gap-2">
+                <Input
+                  size="sm"
+                  value={newTask}
+                  onChange={(e) => setNewTask(e.target.value)}
+                  placeholder="Add a task"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<FiPlus />}
+                  onClick={() => {
+                    if (!newTask.trim()) return;
+                    setChecklist((prev) => [
+                      ...prev,
+                      { task: newTask.trim(), done: false },
+                    ]);
+                    setNewTask("");
+                  }}
+                >
+                  Add
+                </Button>
+              </div>
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Status
+            </FormLabel>
+            <ChakraSelect
+              name="status"
+              value={values.status}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+            >
+              {workOrderStatuses.map((status) => (
+                <option key={status} value={status}>
+                  {status}
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              name="remarks"
+              value={values.remarks}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddWorkOrder;
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import { useCreatePackagesMutation } from "../../../redux/api/api";
+import {
+  getLinePackages,
+  getPackageCode,
+  packageTypes,
+} from "../../utils/packaging";
+import { SaleLine } from "../../utils/salesOrders";
+
+interface AddPackageProps {
+  closeDrawerHandler: () => void;
+  sale: any;
+  line: SaleLine;
+  salePackages: any[];
+  remainingQty: number;
+}
+
+const AddPackage: React.FC<AddPackageProps> = ({
+  closeDrawerHandler,
+  sale,
+  line,
+  salePackages,
+  remainingQty,
+}) => {
+  const [createPackages] = useCreatePackagesMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [type, setType] = useState<string>("Carton");
+  const [count, setCount] = useState<number>(1);
+  const [quantity, setQuantity] = useState<number>(remainingQty);
+  const [grossWeight, setGrossWeight] = useState<string>("");
+  const [dimensions, setDimensions] = useState<string>("");
+  const [selectedCartons, setSelectedCartons] = useState<string[]>([]);
+
+  const looseCartons = getLinePackages(salePackages, line.product_id).filter(
+    (pkg: any) =>
+      pkg.type === "Carton" && !pkg.pallet && pkg.status !== "Dispatched"
+  );
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (type === "Carton") {
+      if (count <= 0 || quantity <= 0) {
+        toast.error("Please enter the number of cartons and quantity");
+        return;
+      }
+      if (count * quantity > remainingQty) {
+        toast.error(
+          `Packed quantity (${count * quantity}) cannot exceed the quantity left to pack (${remainingQty})`
+        );
+        return;
+      }
+    } else if (selectedCartons.length === 0) {
+      toast.error("Please select the cartons to put on the pallet");
+      return;
+    }
+
+    const existing = salePackages.filter((pkg: any) => pkg.type === type);
+    const base = {
+      type,
+      sales_order: sale._id,
+      order_id: sale.order_id,
+      merchant_name:
+        sale?.party?.consignee_name?.[0] || sale?.party?.company_name,
+      product_id: line.product_id,
+      item_name: line.name,
+      gross_weight: grossWeight ? +grossWeight : undefined,
+      dimensions,
+      status: "Packed",
+    };
+    const packages =
+      type === "Carton"
+        ? Array.from({ length: count }, (_, i) => ({
+            ...base,
+            package_id: getPackageCode(
+              type,
+              sale.order_id,
+              existing.length + i + 1
+            ),
+            quantity,
+          }))
+        : [
+            {
+              ...base,
+              package_id: getPackageCode(
+                type,
+                sale.order_id,
+                existing.length + 1
+              ),
+              cartons: selectedCartons,
+            },
+          ];
+
+    try {
+      setIsSubmitting(true);
+      const response = await createPackages({ packages }).unwrap();
+      toast.success(
+        response?.message ||
+          `${packages.length} ${type.toLowerCase()}${
+            packages.length > 1 ? "s" : ""
+          } packed`
+      );
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Pack {sale?.order_id}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <div className="p-3 mb-5 rounded-lg bg-gray-50 text-sm">
+          <p className="font-medium">{line.name}</p>
+          <p className="text-gray-600">
+            {remainingQty} units left to pack for{" "}
+            {sale?.party?.consignee_name?.[0] || sale?.party?.company_name}
+          </p>
+        </div>
+
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Package Type
+            </FormLabel>
+            <Select value={type} onChange={(e) => setType(e.target.value)}>
+              {packageTypes.map((packageType) => (
+                <option key={packageType} value={packageType}>
+                  {packageType}
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+
+          {type === "Carton" ? (
+            <div className="grid grid-cols-2 gap-3">
+              <FormControl className="mt-3 mb-5" isRequired>
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Cartons
+                </FormLabel>
+                <Input
+                  type="number"
+                  min={1}
+                  value={count}
+                  onChange={(e) => setCount(+e.target.value)}
+                />
+              </FormControl>
+              <FormControl className="mt-3 mb-5" isRequired>
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Qty per Carton
+                </FormLabel>
+                <Input
+                  type="number"
+                  min={1}
+                  value={quantity}
+                  onChange={(e) => setQuantity(+e.target.value)}
+                />
+              </FormControl>
+            </div>
+          ) : (
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Cartons on Pallet
+              </FormLabel>
+              {looseCartons.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  Pack cartons first; every carton is already on a pallet.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {looseCartons.map((carton: any) => (
+                    <Checkbox
+                      key={carton._id}
+                      display="flex"
+                      isChecked={selectedCartons.includes(carton._id)}
+                      onChange={(e) =>
+                        setSelectedCartons((prev) =>
+                          e.target.checked
+                            ? [...prev, carton._id]
+                            : prev.filter((id) => id !== carton._id)
+                        )
+                      }
+                    >
+                      {carton.package_id} ({carton.quantity} units)
+                    </Checkbox>
+                  ))}
+                </div>
+              )}
+            </FormControl>
+          )}
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Gross Weight (kg){type === "Carton" ? " per Carton" : ""}
+            </FormLabel>
+            <Input
+              type="number"
+              min={0}
+              step="any"
+              value={grossWeight}
+              onChange={(e) => setGrossWeight(e.target.value)}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Dimensions
+            </FormLabel>
+            <Input
+              value={dimensions}
+              onChange={(e) => setDimensions(e.target.value)}
+              placeholder="e.g. 40 x 30 x 25 cm"
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Pack
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddPackage;
@@ -4,10 +4,12 @@ import { useFormik } from "formik";
 import { useEffect, useState } from "react";
 import { BiX } from "react-icons/bi";
 import { toast } from "react-toastify";
-import axios from "axios";
-import { useCookies } from "react-cookie";
 import { PartiesFromValidation } from "../../../Validation/PartiesFromValidation";
 import { colors } from "../../../theme/colors";
+import {
+  useCreatePartyMutation,
+  useUpdatePartyMutation,
+} from "../../../redux/api/api";
 import {
   Users,
   Building2,
@@ -33,7 +35,8 @@ const AddParties = ({
   const [consigneeNames, setConsigneeNames] = useState([""]);
   const [contactNumbers, setContactNumbers] = useState([""]);
   const [emailIds, setEmailIds] = useState([""]);
-  const [cookies] = useCookies();
+  const [createParty] = useCreatePartyMutation();
+  const [updateParty] = useUpdatePartyMutation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [checkboxValue, setCheckboxValue] = useState(false);
 
@@ -79,28 +82,12 @@ const AddParties = ({
         let res;
 
         if (edittable?._id) {
-          res = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}parties/put/${edittable._id}`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          res = await updateParty({ _id: edittable._id, ...payload }).unwrap();
         } else {
-          res = await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}parties/create`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          res = await createParty(payload).unwrap();
         }
 
-        toast.success(res?.data?.message);
+        toast.success(res?.message);
         fetchPartiesData();
         formik.resetForm();
         setConsigneeNames([""]);
@@ -0,0 +1,104 @@
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { BiX } from "react-icons/bi";
+import Drawer from "../../../ui/Drawer";
+import Loading from "../../../ui/Loading";
+import { colors } from "../../../theme/colors";
+import { useLazyPartyDetailsQuery } from "../../../redux/api/api";
+import { formatExportList } from "../../utils/tableExport";
+
+interface PartyDetailsProps {
+  closeDrawerHandler: () => void;
+  partyId: string | undefined;
+}
+
+const PartyDetails: React.FC<PartyDetailsProps> = ({
+  closeDrawerHandler,
+  partyId,
+}) => {
+  const [fetchParty, { data, isFetching }] = useLazyPartyDetailsQuery();
+  const party = data?.data;
+
+  useEffect(() => {
+    if (!partyId) return;
+    fetchParty(partyId)
+      .unwrap()
+      .catch((error: any) =>
+        toast.error(error?.message || "Something went wrong")
+      );
+  }, [partyId, fetchParty]);
+
+  const fields = [
+    { label: "Customer ID", value: party?.cust_id },
+    { label: "Company Name", value: party?.company_name },
+    {
+      label: "Consignee Name",
+      value: formatExportList(party?.consignee_name),
+    },
+    { label: "Contact Person", value: party?.contact_person_name },
+    { label: "Email", value: formatExportList(party?.email_id) },
+    { label: "Phone Number", value: formatExportList(party?.contact_number) },
+    { label: "Type", value: party?.type },
+    { label: "Merchant Type", value: party?.parties_type },
+    { label: "GST No.", value: party?.gst_in },
+    { label: "GST Address", value: party?.gst_add },
+    { label: "Delivery Address", value: party?.delivery_address },
+    { label: "Shipped To", value: party?.shipped_to },
+    { label: "Bill To", value: party?.bill_to },
+    { label: "Shipped GSTIN", value: party?.shipped_gst_to },
+    { label: "Bill GSTIN", value: party?.bill_gst_to },
+  ];
+
+  return (
+    <Drawer closeDrawerHandler={closeDrawerHandler}>
+      <div
+        className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[550px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+        style={{ boxShadow: colors.shadow.xl }}
+      >
+        <div
+          className="flex items-center justify-between p-6 border-b"
+          style={{ borderColor: colors.border.light }}
+        >
+          <h1
+            className="text-xl font-semibold"
+            style={{ color: colors.text.primary }}
+          >
+            {party?.company_name || party?.consignee_name?.[0] || "Merchant"}
+          </h1>
+          <button
+            onClick={closeDrawerHandler}
+            className="p-2 rounded-lg"
+            style={{
+              color: colors.text.secondary,
+              backgroundColor: colors.gray[100],
+            }}
+          >
+            <BiX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-6 px-5 pb-6">
+          {isFetching ? (
+            <Loading />
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {fields.map((field) => (
+                <div key={field.label}>
+                  <p
+                    className="text-xs"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    {field.label}
+                  </p>
+                  <p className="text-sm font-medium">{field.value || "N/A"}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Drawer>
+  );
+};
+
+export default PartyDetails;
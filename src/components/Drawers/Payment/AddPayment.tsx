@@ -4,10 +4,14 @@ import { BiX } from "react-icons/bi";
 import { MdAdd, MdAttachMoney, MdPayment } from "react-icons/md";
 import React, { useEffect, useState } from "react";
 import Select from "react-select";
-import { useCreatePaymentMutation } from "../../../redux/api/api";
+import {
+  useCreatePaymentMutation,
+  useCreateVoucherMutation,
+  useLazyInvoiceDetailsQuery,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
+import { buildPaymentVoucher } from "../../utils/vouchers";
 
 interface AddPayment {
   closeDrawerHandler: () => void;
@@ -15,7 +19,6 @@ interface AddPayment {
 }
 
 const AddPayment: React.FC<AddPayment> = ({ closeDrawerHandler, id }) => {
-  const [cookies] = useCookies();
   const [isAdding, setIsAdding] = useState<boolean>(false);
   const [amount, setAmount] = useState<number | undefined>();
   const [description, setDescription] = useState<string | undefined>();
@@ -25,6 +28,7 @@ const AddPayment: React.FC<AddPayment> = ({ closeDrawerHandler, id }) => {
   >();
   const [invoiceTotal, setInvoiceTotal] = useState<number | undefined>();
   const [invoiceBalance, setInvoiceBalance] = useState<number | undefined>();
+  const [invoiceData, setInvoiceData] = useState<any>();
 
   const modeOptions = [
     { value: "Cash", label: "Cash" },
@@ -35,6 +39,31 @@ const AddPayment: React.FC<AddPayment> = ({ closeDrawerHandler, id }) => {
   ];
 
   const [addPayment] = useCreatePaymentMutation();
+  const [createVoucher] = useCreateVoucherMutation();
+  const [invoiceDetails] = useLazyInvoiceDetailsQuery();
+
+  const postPaymentVoucher = async (paymentId?: string) => {
+    const isPurchase = invoiceData?.category === "purchase";
+    const party = isPurchase ? invoiceData?.supplier : invoiceData?.buyer;
+    try {
+      await createVoucher(
+        buildPaymentVoucher({
+          amount: amount || 0,
+          mode: mode?.value,
+          partyName:
+            party?.company_name ||
+            party?.consignee_name?.[0] ||
+            party?.name ||
+            "Unknown Party",
+          reference: invoiceData?.invoice_no,
+          paymentId,
+          isPurchase,
+        })
+      ).unwrap();
+    } catch (error: any) {
+      toast.error("Payment saved, but its voucher could not be posted");
+    }
+  };
 
   const addPaymentHandler = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -58,6 +87,7 @@ const AddPayment: React.FC<AddPayment> = ({ closeDrawerHandler, id }) => {
         throw new Error(response.message);
       }
       toast.success(response.message);
+      await postPaymentVoucher(response?.payment?._id);
       closeDrawerHandler();
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -68,20 +98,9 @@ const AddPayment: React.FC<AddPayment> = ({ closeDrawerHandler, id }) => {
 
   const fetchInvoiceDetails = async (id: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `invoice/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await invoiceDetails(id).unwrap();
       setInvoice(data.invoice._id);
+      setInvoiceData(data.invoice);
       setInvoiceTotal(data.invoice.total);
       setInvoiceBalance(data.invoice.balance);
     } catch (error: any) {
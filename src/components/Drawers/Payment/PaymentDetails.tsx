@@ -2,10 +2,14 @@
 
 import { toast } from "react-toastify";
 import Drawer from "../../../ui/Drawer";
-import { useCookies } from "react-cookie";
 import { useEffect, useState } from "react";
 import Loading from "../../../ui/Loading";
 import { BiX } from "react-icons/bi";
+import RecordTabs from "../../Audit/RecordTabs";
+import {
+  useLazyInvoiceDetailsQuery,
+  useLazyPaymentDetailsQuery,
+} from "../../../redux/api/api";
 
 interface PaymentDetailsProps {
   closeDrawerHandler: (id: string) => void;
@@ -16,7 +20,8 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   closeDrawerHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
+  const [paymentDetails] = useLazyPaymentDetailsQuery();
+  const [invoiceDetails] = useLazyInvoiceDetailsQuery();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [invoiceNo, setInvoiceNo] = useState<string | undefined>();
   const [mode, setMode] = useState<string | undefined>();
@@ -36,19 +41,7 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
   const fetchPaymentDetails = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `payment/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await paymentDetails(id).unwrap();
 
       const payment = data.payment;
       const invoice = payment.invoice;
@@ -76,17 +69,8 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
       // Double-check the balance by fetching the current invoice directly
       // This ensures we have the most up-to-date balance
       try {
-        const invoiceResponse = await fetch(
-          process.env.REACT_APP_BACKEND_URL + `invoice/${invoice._id}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
-        const invoiceData = await invoiceResponse.json();
-        if (invoiceData.success && invoiceData.invoice) {
+        const invoiceData = await invoiceDetails(invoice._id).unwrap();
+        if (invoiceData.invoice) {
           console.log("Direct invoice balance:", invoiceData.invoice.balance);
           setBalance(invoiceData.invoice.balance);
         }
@@ -125,86 +109,88 @@ const PaymentDetails: React.FC<PaymentDetailsProps> = ({
           Payment Details
         </h2>
 
-        {isLoading && <Loading />}
-        {!isLoading && (
-          <div>
-            {/* Existing Payment Info */}
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Invoice No.</p>
-              <p>{invoiceNo}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Paid Amount</p>
-              <p>₹ {amount}/-</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Mode</p>
-              <p>{mode}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Description</p>
-              <p>{description || "N/A"}</p>
-            </div>
+        <RecordTabs module="payment" recordId={id}>
+          {isLoading && <Loading />}
+          {!isLoading && (
+            <div>
+              {/* Existing Payment Info */}
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Invoice No.</p>
+                <p>{invoiceNo}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Paid Amount</p>
+                <p>₹ {amount}/-</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Mode</p>
+                <p>{mode}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Description</p>
+                <p>{description || "N/A"}</p>
+              </div>
 
-            {/* New Buyer Info */}
-            <h2 className="text-xl font-semibold py-3 mt-6 border-b">
-              Buyer Details
-            </h2>
-
-            {/* <div className="mt-3 mb-5">
-              <p className="font-semibold">Contact Person</p>
-              <p>{buyerName || 'N/A'}</p>
-            </div> */}
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Email</p>
-              <p>{buyerEmail || "N/A"}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Contact Number</p>
-              <p>{buyerContact || "N/A"}</p>
-            </div>
-            {buyerCompany ? (
+              {/* New Buyer Info */}
+              <h2 className="text-xl font-semibold py-3 mt-6 border-b">
+                Buyer Details
+              </h2>
+
+              {/* <div className="mt-3 mb-5">
+                <p className="font-semibold">Contact Person</p>
+                <p>{buyerName || 'N/A'}</p>
+              </div> */}
               <div className="mt-3 mb-5">
-                <p className="font-semibold">Company</p>
-                <p>{buyerCompany}</p>
+                <p className="font-semibold">Email</p>
+                <p>{buyerEmail || "N/A"}</p>
               </div>
-            ) : buyerConsigneeNames && buyerConsigneeNames.length > 0 ? (
               <div className="mt-3 mb-5">
-                <p className="font-semibold">Consignee Name</p>
-                {buyerConsigneeNames.map((name, index) => (
-                  <p key={index}>{name}</p>
-                ))}
+                <p className="font-semibold">Contact Number</p>
+                <p>{buyerContact || "N/A"}</p>
               </div>
-            ) : null}
-            <h2 className="text-xl font-semibold py-3 mt-6 border-b">
-              Invoice Summary
-            </h2>
-
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Subtotal</p>
-              <p>₹ {subtotal?.toFixed(2) || "0.00"}</p>
-            </div>
-            {taxName && (
+              {buyerCompany ? (
+                <div className="mt-3 mb-5">
+                  <p className="font-semibold">Company</p>
+                  <p>{buyerCompany}</p>
+                </div>
+              ) : buyerConsigneeNames && buyerConsigneeNames.length > 0 ? (
+                <div className="mt-3 mb-5">
+                  <p className="font-semibold">Consignee Name</p>
+                  {buyerConsigneeNames.map((name, index) => (
+                    <p key={index}>{name}</p>
+                  ))}
+                </div>
+              ) : null}
+              <h2 className="text-xl font-semibold py-3 mt-6 border-b">
+                Invoice Summary
+              </h2>
+
               <div className="mt-3 mb-5">
-                <p className="font-semibold">Tax ({taxName})</p>
-                <p>
-                  ₹{" "}
-                  {subtotal && taxAmount
-                    ? (subtotal * taxAmount).toFixed(2)
-                    : "0.00"}
-                </p>
+                <p className="font-semibold">Subtotal</p>
+                <p>₹ {subtotal?.toFixed(2) || "0.00"}</p>
+              </div>
+              {taxName && (
+                <div className="mt-3 mb-5">
+                  <p className="font-semibold">Tax ({taxName})</p>
+                  <p>
+                    ₹{" "}
+                    {subtotal && taxAmount
+                      ? (subtotal * taxAmount).toFixed(2)
+                      : "0.00"}
+                  </p>
+                </div>
+              )}
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Total</p>
+                <p>₹ {total?.toFixed(2) || "0.00"}</p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-semibold">Balance (Remaining)</p>
+                <p>₹ {balance?.toFixed(2) || "0.00"}</p>
               </div>
-            )}
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Total</p>
-              <p>₹ {total?.toFixed(2) || "0.00"}</p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-semibold">Balance (Remaining)</p>
-              <p>₹ {balance?.toFixed(2) || "0.00"}</p>
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
@@ -5,9 +5,12 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useState } from "react";
 import Select from "react-select";
-import { useUpdatePaymentMutation } from "../../../redux/api/api";
+import {
+  useLazyInvoiceDetailsQuery,
+  useLazyPaymentDetailsQuery,
+  useUpdatePaymentMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 
 interface UpdatePayment {
   closeDrawerHandler: () => void;
@@ -20,7 +23,6 @@ const UpdatePayment: React.FC<UpdatePayment> = ({
   fetchPaymentsHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [amount, setAmount] = useState<number | undefined>();
@@ -41,6 +43,8 @@ const UpdatePayment: React.FC<UpdatePayment> = ({
   ];
 
   const [updatePayment] = useUpdatePaymentMutation();
+  const [paymentDetails] = useLazyPaymentDetailsQuery();
+  const [invoiceDetails] = useLazyInvoiceDetailsQuery();
 
   const updatePaymentHandler = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -77,19 +81,7 @@ const UpdatePayment: React.FC<UpdatePayment> = ({
     try {
       setIsLoading(true);
       // @ts-ignore
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `payment/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await paymentDetails(id).unwrap();
       setInvoiceBalance(data.payment.invoice.balance);
       setInvoiceTotal(data.payment.invoice.total);
       setPaymentId(data.payment._id);
@@ -100,18 +92,10 @@ const UpdatePayment: React.FC<UpdatePayment> = ({
       // Double-check the balance by fetching the current invoice directly
       // This ensures we have the most up-to-date balance for validation
       try {
-        const invoiceResponse = await fetch(
-          process.env.REACT_APP_BACKEND_URL +
-            `invoice/${data.payment.invoice._id}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
-        const invoiceData = await invoiceResponse.json();
-        if (invoiceData.success && invoiceData.invoice) {
+        const invoiceData = await invoiceDetails(
+          data.payment.invoice._id
+        ).unwrap();
+        if (invoiceData.invoice) {
           console.log(
             "UpdatePayment - Direct invoice balance:",
             invoiceData.invoice.balance
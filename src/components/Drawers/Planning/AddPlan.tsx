@@ -0,0 +1,231 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Textarea,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { useFormik } from "formik";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreatePlanMutation,
+  useUpdatePlanMutation,
+} from "../../../redux/api/api";
+import { formatSaleLines } from "../../utils/salesOrders";
+
+interface AddPlanProps {
+  closeDrawerHandler: () => void;
+  fetchPlansHandler: () => void;
+  sales: any[];
+  editPlan?: any | null;
+  preselectedSales?: string[];
+}
+
+const AddPlan: React.FC<AddPlanProps> = ({
+  closeDrawerHandler,
+  fetchPlansHandler,
+  sales,
+  editPlan,
+  preselectedSales = [],
+}) => {
+  const [createPlan] = useCreatePlanMutation();
+  const [updatePlan] = useUpdatePlanMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [selectedSales, setSelectedSales] = useState<string[]>(
+    editPlan
+      ? (editPlan?.sales_orders || []).map((sale: any) => sale?._id || sale)
+      : preselectedSales
+  );
+
+  const formik = useFormik({
+    initialValues: {
+      name: editPlan?.name || "",
+      target_date: editPlan?.target_date
+        ? new Date(editPlan.target_date).toISOString().substring(0, 10)
+        : "",
+      remarks: editPlan?.remarks || "",
+    },
+    enableReinitialize: true,
+    onSubmit: async (values) => {
+      if (selectedSales.length === 0) {
+        toast.error("Please select at least one sales order");
+        return;
+      }
+
+      try {
+        setIsSubmitting(true);
+        const data = {
+          ...values,
+          sales_orders: selectedSales,
+        };
+        const response = editPlan?._id
+          ? await updatePlan({ _id: editPlan._id, ...data }).unwrap()
+          : await createPlan({ ...data, status: "Draft" }).unwrap();
+        toast.success(
+          response?.message ||
+            (editPlan?._id
+              ? "Plan updated successfully"
+              : "Plan created successfully")
+        );
+        fetchPlansHandler();
+        closeDrawerHandler();
+      } catch (error: any) {
+        toast.error(error?.data?.message || "Something went wrong");
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+  });
+
+  const toggleSale = (id: string) => {
+    setSelectedSales((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editPlan ? "Edit Production Plan" : "New Production Plan"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={formik.handleSubmit}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Plan Name
+            </FormLabel>
+            <Input
+              name="name"
+              value={formik.values.name}
+              onChange={formik.handleChange}
+              onBlur={formik.handleBlur}
+              type="text"
+              placeholder="e.g. Week 42 - Flexo Line"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Target Date
+            </FormLabel>
+            <Input
+              name="target_date"
+              value={formik.values.target_date}
+              onChange={formik.handleChange}
+              onBlur={formik.handleBlur}
+              type="date"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Sales Orders ({selectedSales.length} selected)
+            </FormLabel>
+            <div
+              className="max-h-72 overflow-auto border rounded-lg divide-y"
+              style={{ borderColor: colors.border.light }}
+            >
+              {sales.length === 0 && (
+                <p
+                  className="p-3 text-sm"
+                  style={{ color: colors.text.secondary }}
+                >
+                  No unplanned sales orders available.
+                </p>
+              )}
+              {sales.map((sale: any) => (
+                <div key={sale._id} className="p-3">
+                  <Checkbox
+                    isChecked={selectedSales.includes(sale._id)}
+                    onChange={() => toggleSale(sale._id)}
+                  >
+                    <span className="text-sm font-medium">
+                      {sale?.order_id || sale._id.slice(-6)}
+                    </span>
+                    <span
+                      className="block text-xs"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {formatSaleLines(sale)} &middot;{" "}
+                      {sale?.party?.consignee_name?.[0] ||
+                        sale?.party?.company_name ||
+                        "N/A"}
+                    </span>
+                  </Checkbox>
+                </div>
+              ))}
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              name="remarks"
+              value={formik.values.remarks}
+              onChange={formik.handleChange}
+              onBlur={formik.handleBlur}
+              placeholder="Remarks"
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddPlan;
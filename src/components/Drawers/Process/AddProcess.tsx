@@ -3,9 +3,13 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useState } from "react";
 import Select from "react-select";
-import { useCreateProcessMutation } from "../../../redux/api/api";
+import {
+  useCreateProcessMutation,
+  useLazyFetchProductBomsQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchStoresQuery,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
 import {
   Package,
@@ -17,6 +21,12 @@ import {
   Factory,
   Plus,
 } from "lucide-react";
+import {
+  getEffectiveRevision,
+  getRevisionLabel,
+  getRevisionNumber,
+  getRevisionStatus,
+} from "../../utils/bomRevisions";
 
 interface AddProcess {
   closeDrawerHandler: () => void;
@@ -27,7 +37,6 @@ const AddProcess: React.FC<AddProcess> = ({
   closeDrawerHandler,
   fetchProcessHandler,
 }) => {
-  const [cookies] = useCookies();
   const [isAdding, setIsAdding] = useState<boolean>(false);
   const [itemId, setItemId] = useState<string | undefined>();
   const [itemName, setItemName] = useState<
@@ -70,14 +79,21 @@ const AddProcess: React.FC<AddProcess> = ({
   const [stores, setStores] = useState<any[]>([]);
 
   const [addProcess] = useCreateProcessMutation();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchProductBoms] = useLazyFetchProductBomsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   const addProcessHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!itemName || !bom || !quantity) return;
 
     const data = {
-      item: itemName?.value,
-      bom: bom?.value,
-      quantity: quantity,
+      item: itemName.value,
+      bom: bom.value,
+      bom_revision: getRevisionNumber(
+        boms.find((b: any) => b._id === bom.value)
+      ),
+      quantity,
       rm_store: rmStore?.value,
       fg_store: fgStore?.value,
       scrap_store: scrapStore?.value,
@@ -101,19 +117,7 @@ const AddProcess: React.FC<AddProcess> = ({
 
   const fetchItemsHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchProducts({}).unwrap();
       setItems(data.products);
     } catch (err: any) {
       toast.error(err.message || "Something went wrong");
@@ -121,20 +125,9 @@ const AddProcess: React.FC<AddProcess> = ({
   };
 
   const fetchBomsHandler = async () => {
+    if (!itemName?.value) return;
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `bom/bom/${itemName?.value}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchProductBoms(itemName.value).unwrap();
       setBoms(data.boms);
     } catch (error: any) {
       toast.error(error.message || "Something went wrong");
@@ -143,19 +136,7 @@ const AddProcess: React.FC<AddProcess> = ({
 
   const fetchStoresHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       setStores(data.stores);
     } catch (error: any) {
       toast.error(error.message || "Something went wrong");
@@ -185,12 +166,18 @@ const AddProcess: React.FC<AddProcess> = ({
     }
   }, [itemName]);
 
+  // Only approved revisions can be run; the one in effect is preselected
   useEffect(() => {
-    const results = boms.map((bom: any) => ({
+    const approved = boms.filter(
+      (bom: any) => getRevisionStatus(bom) === "Approved"
+    );
+    const toOption = (bom: any) => ({
       value: bom._id,
-      label: bom.bom_name,
-    }));
-    setBomOptions(results);
+      label: `${bom.bom_name} (${getRevisionLabel(bom)})`,
+    });
+    setBomOptions(approved.map(toOption));
+    const effective = getEffectiveRevision(approved);
+    setBom(effective ? toOption(effective) : undefined);
   }, [boms]);
 
   useEffect(() => {
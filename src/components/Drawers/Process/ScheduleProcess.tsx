@@ -0,0 +1,205 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import { getResourceId } from "../../utils/scheduling";
+
+interface ScheduleProcessProps {
+  process: any;
+  resources: any[];
+  closeDrawerHandler: () => void;
+  scheduleProcessHandler: (
+    process: any,
+    schedule: {
+      resource: string | null;
+      planned_start: string | null;
+      planned_end: string | null;
+    }
+  ) => Promise<void>;
+}
+
+// datetime-local inputs expect local time without a timezone suffix
+const toDateTimeLocal = (date?: string) => {
+  if (!date) return "";
+  const d = new Date(date);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000)
+    .toISOString()
+    .substring(0, 16);
+};
+
+const ScheduleProcess: React.FC<ScheduleProcessProps> = ({
+  process,
+  resources,
+  closeDrawerHandler,
+  scheduleProcessHandler,
+}) => {
+  const [resource, setResource] = useState<string>(
+    getResourceId(process) || ""
+  );
+  const [plannedStart, setPlannedStart] = useState<string>(
+    toDateTimeLocal(process?.planned_start)
+  );
+  const [plannedEnd, setPlannedEnd] = useState<string>(
+    toDateTimeLocal(process?.planned_end)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (new Date(plannedEnd) <= new Date(plannedStart)) {
+      toast.error("End time must be after start time");
+      return;
+    }
+    setIsSubmitting(true);
+    await scheduleProcessHandler(process, {
+      resource,
+      planned_start: new Date(plannedStart).toISOString(),
+      planned_end: new Date(plannedEnd).toISOString(),
+    });
+    setIsSubmitting(false);
+    closeDrawerHandler();
+  };
+
+  const unscheduleHandler = async () => {
+    setIsSubmitting(true);
+    await scheduleProcessHandler(process, {
+      resource: null,
+      planned_start: null,
+      planned_end: null,
+    });
+    setIsSubmitting(false);
+    closeDrawerHandler();
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Schedule Process
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <div
+          className="rounded-lg border p-4 mb-6"
+          style={{ borderColor: colors.border.light }}
+        >
+          <p className="font-semibold" style={{ color: colors.text.primary }}>
+            {process?.item?.name || "N/A"}
+          </p>
+          <p className="text-sm" style={{ color: colors.text.secondary }}>
+            {process?.bom?.bom_name || "N/A"} &middot; {process?.status}
+          </p>
+        </div>
+
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Resource
+            </FormLabel>
+            <Select
+              value={resource}
+              onChange={(e) => setResource(e.target.value)}
+              placeholder="Select resource"
+              bg="white"
+              borderColor="gray.300"
+            >
+              {resources.map((r: any) => (
+                <option key={r._id} value={r._id}>
+                  {r.name} ({r.type})
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Planned Start
+            </FormLabel>
+            <Input
+              type="datetime-local"
+              value={plannedStart}
+              onChange={(e) => setPlannedStart(e.target.value)}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Planned End
+            </FormLabel>
+            <Input
+              type="datetime-local"
+              value={plannedEnd}
+              onChange={(e) => setPlannedEnd(e.target.value)}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Save Schedule
+          </Button>
+          {getResourceId(process) && (
+            <Button
+              isDisabled={isSubmitting}
+              onClick={unscheduleHandler}
+              className="mt-3"
+              variant="outline"
+              colorScheme="red"
+              size="md"
+              width="full"
+            >
+              Remove From Schedule
+            </Button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ScheduleProcess;
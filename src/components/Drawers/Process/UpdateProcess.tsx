@@ -14,11 +14,19 @@ import {
   useAddProductMutation,
   useCreateProcessMutation,
   useCreateProformaInvoiceMutation,
+  useLazyProcessDetailsQuery,
+  useMarkProcessDoneMutation,
   useUpdateProcessMutation,
 } from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Process from "../../Dynamic Add Components/ProductionProcess";
+import {
+  isNetworkError,
+  readOfflineCopy,
+  runOrQueue,
+  saveOfflineCopy,
+} from "../../utils/offlineQueue";
+import { getRevisionLabel } from "../../utils/bomRevisions";
 
 interface UpdateProcess {
   closeDrawerHandler: () => void;
@@ -31,10 +39,10 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
   fetchProcessHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [bomName, setBomName] = useState<string | undefined>();
+  const [bomRevision, setBomRevision] = useState<string | undefined>();
   const [totalCost, setTotalCost] = useState<string | undefined>();
   const [createdBy, setCreatedBy] = useState<string | undefined>();
   const [processes, setProcesses] = useState<string[] | []>([]);
@@ -113,6 +121,9 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
     []
   );
   const [showMarkAsDone, setShowMarkAsDone] = useState(false);
+  const [processUpdatedAt, setProcessUpdatedAt] = useState<
+    string | undefined
+  >();
 
   const [scrapMaterials, setScrapMaterials] = useState<any[]>([
     {
@@ -128,6 +139,8 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
   ]);
 
   const [updateProcess] = useUpdateProcessMutation();
+  const [processDetails] = useLazyProcessDetailsQuery();
+  const [markProcessDone] = useMarkProcessDoneMutation();
 
   // ... all your useState hooks etc.
 
@@ -313,7 +326,19 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
 
     try {
       setIsUpdating(true);
-      const response = await updateProcess(data).unwrap();
+      const response = await runOrQueue(
+        {
+          kind: "update",
+          process_id: productionProcessId,
+          payload: data,
+          base_updated_at: processUpdatedAt,
+        },
+        () => updateProcess(data).unwrap()
+      );
+      if (!response) {
+        closeDrawerHandler();
+        return;
+      }
       console.log(response);
       if (!response.success) {
         throw new Error(response.message);
@@ -535,19 +560,7 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
   const markProcessDoneHandler = async () => {
     try {
       setIsUpdating(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL +
-          `production-process/done/${productionProcessId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await markProcessDone(productionProcessId).unwrap();
       toast.success(data.message);
       closeDrawerHandler();
       fetchProcessHandler();
@@ -597,26 +610,27 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
   const fetchProcessDetailsHandler = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `production-process/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-
-      console.log("main data carrier : ", data);
-
-      if (!data.success) {
-        throw new Error(data.message);
+      let data;
+      try {
+        data = await processDetails(id).unwrap();
+        saveOfflineCopy(`production-process:${id}`, data.production_process);
+      } catch (error) {
+        // Fall back to the list copy for processes never opened online
+        const saved =
+          isNetworkError(error) &&
+          ((await readOfflineCopy(`production-process:${id}`)) ||
+            (await readOfflineCopy("production-processes"))?.find(
+              (p) => p._id === id
+            ));
+        if (!saved) throw error;
+        data = { production_process: saved };
       }
 
       setProductionProcessId(data.production_process._id);
+      setProcessUpdatedAt(data.production_process.updatedAt);
       setBomId(data.production_process.bom._id);
       setBomName(data.production_process.bom.bom_name);
+      setBomRevision(getRevisionLabel(data.production_process.bom));
       setTotalCost(data.production_process.bom.total_cost);
       setCreatedBy(
         (data.production_process.bom?.creator?.first_name || "") +
@@ -901,7 +915,7 @@ const UpdateProcess: React.FC<UpdateProcess> = ({
                       </label>
                       <input
                         type="text"
-                        value={bomName || ""}
+                        value={bomName ? `${bomName} (${bomRevision})` : ""}
                         readOnly
                         className="w-full px-3 py-2 border border-gray-300 rounded bg-gray-100"
                       />
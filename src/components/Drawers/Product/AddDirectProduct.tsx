@@ -3,9 +3,11 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { useEffect, useState } from "react";
 import Select from "react-select";
-import { useAddProductMutation } from "../../../redux/api/api";
+import {
+  useAddProductMutation,
+  useLazyFetchStoresQuery,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
 
 interface AddProductProps {
@@ -54,7 +56,6 @@ const AddProduct: React.FC<AddProductProps> = ({
   const [storeOptions, setStoreOptions] = useState<
     { value: string; label: string }[] | []
   >([]);
-  const [cookies] = useCookies();
   const [inventoryCategory, setInventoryCategory] = useState<
     { value: string; label: string } | undefined
   >();
@@ -160,6 +161,7 @@ const AddProduct: React.FC<AddProductProps> = ({
   // ];
 
   const [addProduct] = useAddProductMutation();
+  const [fetchStores] = useLazyFetchStoresQuery();
   const [isAddingProduct, setIsAddingProduct] = useState<boolean>(false);
 
   const addProductHandler = async (e: React.FormEvent) => {
@@ -199,19 +201,7 @@ const AddProduct: React.FC<AddProductProps> = ({
 
   const fetchAllStores = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       const modifiedStores = data.stores.map((store: any) => ({
         value: store._id,
         label: store.name,
@@ -4,6 +4,10 @@ import { toast } from "react-toastify";
 import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useCan } from "../../utils/permissions";
+import WhereUsed from "./WhereUsed";
+import { useLazyProductDetailsQuery } from "../../../redux/api/api";
 
 // Utility function to capitalize first letter of each word
 const capitalizeWords = (str: string | undefined | null): string => {
@@ -54,26 +58,17 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({
   const [colorName, setColorName] = useState<string | undefined>();
 
   const [cookies] = useCookies();
+  const [productDetails] = useLazyProductDetailsQuery();
+  const can = useCan();
 
   const [isLoadingProduct, setIsLoadingProduct] = useState<boolean>(false);
 
   useEffect(() => {
     const fetchProductDetails = async () => {
+      if (!productId) return;
       try {
         setIsLoadingProduct(true);
-        const response = await fetch(
-          process.env.REACT_APP_BACKEND_URL + `product/${productId}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
-        const data = await response.json();
-        if (!data.success) {
-          throw new Error(data.message);
-        }
+        const data = await productDetails(productId).unwrap();
         setName(data.product.name);
         setId(data.product.product_id);
         setCategory(data.product.category);
@@ -105,7 +100,7 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({
     };
 
     fetchProductDetails();
-  }, [productId, cookies?.access_token]);
+  }, [productId, cookies?.access_token, productDetails]);
 
   return (
     <div
@@ -144,129 +139,132 @@ const ProductDetails: React.FC<ProductDetailsProps> = ({
       </div>
 
       <div className="mt-8 px-5">
-        {isLoadingProduct && <Loading />}
-        {!isLoadingProduct && (
-          <div className="space-y-6">
-            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Inventory Category
-                </p>
-                <p className="text-gray-600">
-                  {capitalizeWords(inventoryCategory) || "N/A"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Product ID</p>
-                <p className="text-gray-600">{id}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Product Name</p>
-                <p className="text-gray-600">{capitalizeWords(name)}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Product Color
-                </p>
-                <p className="text-gray-600">
-                  {capitalizeWords(colorName) || "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Product Price (Default)
-                </p>
-                <p className="text-gray-600">₹ {price}/-</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Regular Buying Price
-                </p>
-                <p className="text-gray-600">
-                  {regularBuyingPrice
-                    ? `₹ ${regularBuyingPrice}/-`
-                    : "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Wholesale Buying Price
-                </p>
-                <p className="text-gray-600">
-                  {wholesaleBuyingPrice
-                    ? `₹ ${wholesaleBuyingPrice}/-`
-                    : "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">MRP</p>
-                <p className="text-gray-600">
-                  {mrp ? `₹ ${mrp}/-` : "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Dealer Price</p>
-                <p className="text-gray-600">
-                  {dealerPrice ? `₹ ${dealerPrice}/-` : "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Distributor Price
-                </p>
-                <p className="text-gray-600">
-                  {distributorPrice
-                    ? `₹ ${distributorPrice}/-`
-                    : "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Product Category
-                </p>
-                <p className="text-gray-600">{capitalizeWords(category)}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Product Sub Category
-                </p>
-                <p className="text-gray-600">
-                  {capitalizeWords(subCategory) || "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  UOM (Unit of Measurement)
-                </p>
-                <p className="text-gray-600">{uom}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">
-                  Current Stock
-                </p>
-                <p className="text-gray-600">{currentStock}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Min Stock</p>
-                <p className="text-gray-600">{minStock || "Not Available"}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Max Stock</p>
-                <p className="text-gray-600">{maxStock || "Not Available"}</p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">HSN</p>
-                <p className="text-gray-600">
-                  {toUpperCase(hsn) || "Not Available"}
-                </p>
-              </div>
-              <div className="bg-gray-50 p-4 rounded-lg">
-                <p className="font-semibold text-gray-700 mb-1">Store</p>
-                <p className="text-gray-600">{store || "N/A"}</p>
+        <RecordTabs module="product" recordId={productId}>
+          {isLoadingProduct && <Loading />}
+          {!isLoadingProduct && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Inventory Category
+                  </p>
+                  <p className="text-gray-600">
+                    {capitalizeWords(inventoryCategory) || "N/A"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Product ID</p>
+                  <p className="text-gray-600">{id}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Product Name</p>
+                  <p className="text-gray-600">{capitalizeWords(name)}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Product Color
+                  </p>
+                  <p className="text-gray-600">
+                    {capitalizeWords(colorName) || "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Product Price (Default)
+                  </p>
+                  <p className="text-gray-600">₹ {price}/-</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Regular Buying Price
+                  </p>
+                  <p className="text-gray-600">
+                    {regularBuyingPrice
+                      ? `₹ ${regularBuyingPrice}/-`
+                      : "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Wholesale Buying Price
+                  </p>
+                  <p className="text-gray-600">
+                    {wholesaleBuyingPrice
+                      ? `₹ ${wholesaleBuyingPrice}/-`
+                      : "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">MRP</p>
+                  <p className="text-gray-600">
+                    {mrp ? `₹ ${mrp}/-` : "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Dealer Price</p>
+                  <p className="text-gray-600">
+                    {dealerPrice ? `₹ ${dealerPrice}/-` : "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Distributor Price
+                  </p>
+                  <p className="text-gray-600">
+                    {distributorPrice
+                      ? `₹ ${distributorPrice}/-`
+                      : "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Product Category
+                  </p>
+                  <p className="text-gray-600">{capitalizeWords(category)}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Product Sub Category
+                  </p>
+                  <p className="text-gray-600">
+                    {capitalizeWords(subCategory) || "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    UOM (Unit of Measurement)
+                  </p>
+                  <p className="text-gray-600">{uom}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">
+                    Current Stock
+                  </p>
+                  <p className="text-gray-600">{currentStock}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Min Stock</p>
+                  <p className="text-gray-600">{minStock || "Not Available"}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Max Stock</p>
+                  <p className="text-gray-600">{maxStock || "Not Available"}</p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">HSN</p>
+                  <p className="text-gray-600">
+                    {toUpperCase(hsn) || "Not Available"}
+                  </p>
+                </div>
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <p className="font-semibold text-gray-700 mb-1">Store</p>
+                  <p className="text-gray-600">{store || "N/A"}</p>
+                </div>
               </div>
+              {can("production") && <WhereUsed productId={productId} />}
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
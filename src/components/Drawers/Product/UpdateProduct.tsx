@@ -9,12 +9,15 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { useEffect, useState } from "react";
 import Select from "react-select";
-import { useUpdateProductMutation } from "../../../redux/api/api";
+import {
+  useLazyFetchStoresQuery,
+  useLazyProductDetailsQuery,
+  useUpdateProductMutation,
+  useUpdateStockAndShortagesMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
-import axios from "axios";
 
 interface UpdateProductProps {
   closeDrawerHandler: () => void;
@@ -59,7 +62,6 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
     { value: string; label: string }[] | []
   >([]);
 
-  const [cookies] = useCookies();
 
   const categoryOptions = [
     { value: "finished goods", label: "Finished Goods" },
@@ -82,6 +84,9 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
   ];
 
   const [updateProduct] = useUpdateProductMutation();
+  const [productDetails] = useLazyProductDetailsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
+  const [updateStockAndShortages] = useUpdateStockAndShortagesMutation();
   const [isLoadingProduct, setIsLoadingProduct] = useState<boolean>(false);
   const [isUpdatingProduct, setIsUpdatingProduct] = useState<boolean>(false);
   const [useShortageAdjustment, setUseShortageAdjustment] =
@@ -90,6 +95,7 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
 
   const updateProductHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!productId) return;
     try {
       setIsUpdatingProduct(true);
       if (
@@ -113,19 +119,13 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
       if (stockChanged && useShortageAdjustment) {
         // Use the new stock and shortage adjustment endpoint
         try {
-          const stockResponse = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}product/update-stock-and-shortages`,
-            {
-              productId: productId,
-              newStock: newStockValue,
-            },
-            {
-              headers: { Authorization: `Bearer ${cookies?.access_token}` },
-            }
-          );
+          const stockResponse = await updateStockAndShortages({
+            productId: productId,
+            newStock: newStockValue,
+          }).unwrap();
 
-          if (stockResponse.data.success) {
-            const { stockChange, shortageUpdate } = stockResponse.data;
+          if (stockResponse.success) {
+            const { stockChange, shortageUpdate } = stockResponse;
 
             let message = `Stock updated from ${stockChange.oldStock} to ${stockChange.newStock}`;
 
@@ -145,7 +145,7 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
         } catch (stockError: any) {
           console.error("Error updating stock with shortages:", stockError);
           toast.error(
-            stockError?.response?.data?.message ||
+            stockError?.data?.message ||
               "Failed to update stock with shortages"
           );
         }
@@ -187,28 +187,17 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
   };
 
   const fetchProductDetails = async () => {
+    if (!productId) return;
     try {
       setIsLoadingProduct(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `product/${productId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await productDetails(productId).unwrap();
       setName(data.product.name);
       setId(data.product.product_id);
       setCategory({
-        value: data.product.category,
-        label: data.product.category,
+        value: data.product.category || "",
+        label: data.product.category || "",
       });
-      setUom({ value: data.product.uom, label: data.product.uom });
+      setUom({ value: data.product.uom || "", label: data.product.uom || "" });
       setPrice(data.product.price);
       setCurrentStock(data.product.current_stock);
       setOriginalStock(data.product.current_stock);
@@ -236,19 +225,7 @@ const UpdateProduct: React.FC<UpdateProductProps> = ({
 
   const fetchAllStores = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       const modifiedStores = data.stores.map((store: any) => ({
         value: store._id,
         label: store.name,
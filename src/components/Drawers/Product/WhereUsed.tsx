@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useLazyFetchBomsQuery } from "../../../redux/api/api";
+import { WhereUsedEntry, getWhereUsed } from "../../utils/bomTree";
+
+interface WhereUsedProps {
+  productId: string | undefined;
+}
+
+const WhereUsed: React.FC<WhereUsedProps> = ({ productId }) => {
+  const [fetchBoms, { isFetching }] = useLazyFetchBomsQuery();
+  const [entries, setEntries] = useState<WhereUsedEntry[]>([]);
+
+  useEffect(() => {
+    if (!productId) return;
+    fetchBoms({})
+      .unwrap()
+      .then((data) => setEntries(getWhereUsed(productId, data?.boms || [])))
+      .catch(() => setEntries([]));
+  }, [productId, fetchBoms]);
+
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <p className="font-semibold text-gray-700 mb-3">Where Used</p>
+      {isFetching ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Not used in any BOM</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">BOM</th>
+                <th className="py-2 pr-4 font-medium">Finished Good</th>
+                <th className="py-2 pr-4 font-medium">Quantity</th>
+                <th className="py-2 font-medium">Used Through</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.bom_id} className="border-b text-gray-700">
+                  <td className="py-2 pr-4">
+                    <Link
+                      to={`/production/bom?id=${entry.bom_id}`}
+                      className="text-blue-600 hover:underline"
+                    >
+                      {entry.bom_name}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{entry.finished_good}</td>
+                  <td className="py-2 pr-4">
+                    {entry.quantity} {entry.uom || ""}
+                  </td>
+                  <td className="py-2">
+                    {entry.via
+                      ? `${entry.via} (level ${entry.level})`
+                      : "Direct"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WhereUsed;
@@ -2,9 +2,14 @@ import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useState } from "react";
 import Select from "react-select";
-import { useCreateProformaInvoiceMutation } from "../../../redux/api/api";
+import {
+  useCreateProformaInvoiceMutation,
+  useLazyFetchNextProformaInvoiceNumberQuery,
+  useLazyFetchPartiesQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchStoresQuery,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import AddItems from "../../Dynamic Add Components/AddItems";
 import { colors } from "../../../theme/colors";
 
@@ -17,7 +22,6 @@ const AddProformaInvoice: React.FC<AddProformaInvoiceProps> = ({
   closeDrawerHandler,
   fetchProformaInvoicesHandler,
 }) => {
-  const [cookies] = useCookies();
   const [isAdding, setIsAdding] = useState<boolean>(false);
   const [buyer, setBuyer] = useState<{ value: string; label: string } | undefined>();
   const [proformaInvoiceNo, setProformaInvoiceNo] = useState<string | undefined>();
@@ -62,23 +66,15 @@ const AddProformaInvoice: React.FC<AddProformaInvoiceProps> = ({
   >([{ item: { value: "", label: "" }, quantity: 0, price: 0 }]);
 
   const [addProformaInvoice] = useCreateProformaInvoiceMutation();
+  const [fetchParties] = useLazyFetchPartiesQuery();
+  const [fetchNextProformaInvoiceNumber] = useLazyFetchNextProformaInvoiceNumberQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   // Fetch the next available proforma invoice number
   const fetchNextInvoiceNumber = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}proforma-invoice/next-invoice-number`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchNextProformaInvoiceNumber({}).unwrap();
       setProformaInvoiceNo(data.proforma_invoice_no);
     } catch (error: any) {
       toast.error(error?.message || "Failed to fetch invoice number");
@@ -91,21 +87,11 @@ const AddProformaInvoice: React.FC<AddProformaInvoiceProps> = ({
       setIsLoadingBuyers(true);
       setBuyerFetchError(null);
       
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/get?page=1&limit=1000&selectedRole=Buyer`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      
-      const data = await response.json();
-       console.log(data)
-      if (!response.ok) {
-        throw new Error(data.message || "Failed to fetch buyers");
-      }
+      const data = await fetchParties({
+        page: 1,
+        limit: 1000,
+        selectedRole: "Buyer",
+      }).unwrap();
       
       if (!data.data || !Array.isArray(data.data)) {
         throw new Error("No buyers found or invalid response format");
@@ -141,19 +127,7 @@ const AddProformaInvoice: React.FC<AddProformaInvoiceProps> = ({
   // Fetch all items from the products endpoint
   const fetchItemsHandler = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}product/all`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts({}).unwrap();
 
     
       const finishedGoods = results.products
@@ -176,19 +150,7 @@ const AddProformaInvoice: React.FC<AddProformaInvoiceProps> = ({
   // Fetch all stores
   const fetchStoresHandler = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}store/all`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       const stores = data.stores.map((store: any) => ({
         value: store._id,
         label: store.name,
@@ -1,11 +1,12 @@
 import { toast } from "react-toastify";
 import Drawer from "../../../ui/Drawer";
-import { useCookies } from "react-cookie";
 import { useEffect, useState } from "react";
 import Loading from "../../../ui/Loading";
 import { BiX } from "react-icons/bi";
 import moment from "moment";
 import { colors } from "../../../theme/colors";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useLazyProformaInvoiceDetailsQuery } from "../../../redux/api/api";
 
 interface InvoiceDetailsProps {
   closeDrawerHandler: () => void;
@@ -16,7 +17,7 @@ const ProformaInvoiceDetails: React.FC<InvoiceDetailsProps> = ({
   closeDrawerHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
+  const [proformaInvoiceDetails] = useLazyProformaInvoiceDetailsQuery();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [buyer, setBuyer] = useState<string | undefined>();
   const [supplier, setSupplier] = useState<string | undefined>();
@@ -40,19 +41,7 @@ const ProformaInvoiceDetails: React.FC<InvoiceDetailsProps> = ({
 
   const fetchInvoiceDetails = async (id: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `proforma-invoice/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await proformaInvoiceDetails(id).unwrap();
       setInvoiceNo(data.proforma_invoice.proforma_invoice_no);
       setDocumentDate(data.proforma_invoice.document_date);
       setSalesOrderDate(data.proforma_invoice.sales_order_date);
@@ -60,7 +49,7 @@ const ProformaInvoiceDetails: React.FC<InvoiceDetailsProps> = ({
       setSubtotal(data.proforma_invoice.subtotal);
       setTotal(data.proforma_invoice.total);
       setTax(data.proforma_invoice.tax);
-      setItems(data.proforma_invoice.items);
+      setItems(data.proforma_invoice.items || []);
       setStore(data.proforma_invoice.store.name);
       setCategory(data.proforma_invoice.category);
       const buyerData = data.proforma_invoice?.buyer;
@@ -122,157 +111,159 @@ const ProformaInvoiceDetails: React.FC<InvoiceDetailsProps> = ({
       </div>
 
       <div className="mt-8 px-5">
-        {isLoading && <Loading />}
-        {!isLoading && (
-          <div className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">
-                  Created By
-                </h3>
-                <p className="text-gray-600">
-                  {creator?.first_name + " " + creator?.last_name}
-                </p>
-              </div>
-
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Category</h3>
-                <p className="text-gray-600">{category?.toUpperCase()}</p>
-              </div>
-              {buyerData && (
+        <RecordTabs module="proforma-invoice" recordId={id}>
+          {isLoading && <Loading />}
+          {!isLoading && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                  <h3 className="font-semibold text-gray-700 mb-2">Buyer Details</h3>
-                  <p className="text-gray-600 font-medium">
-                    {buyerData.company_name ||
-                      buyerData.consignee_name?.[0] ||
-                      buyerData.name}
+                  <h3 className="font-semibold text-gray-700 mb-2">
+                    Created By
+                  </h3>
+                  <p className="text-gray-600">
+                    {creator?.first_name + " " + creator?.last_name}
                   </p>
-                  {buyerData.address && (
-                    <p className="text-gray-600">{buyerData.address}</p>
-                  )}
-                  {buyerData.gst_number && (
-                    <p className="text-gray-600">GST: {buyerData.gst_number}</p>
-                  )}
-                  {buyerData.phone && (
-                    <p className="text-gray-600">Phone: {buyerData.phone}</p>
-                  )}
                 </div>
-              )}
 
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Category</h3>
+                  <p className="text-gray-600">{category?.toUpperCase()}</p>
+                </div>
+                {buyerData && (
+                  <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    <h3 className="font-semibold text-gray-700 mb-2">Buyer Details</h3>
+                    <p className="text-gray-600 font-medium">
+                      {buyerData.company_name ||
+                        buyerData.consignee_name?.[0] ||
+                        buyerData.name}
+                    </p>
+                    {buyerData.address && (
+                      <p className="text-gray-600">{buyerData.address}</p>
+                    )}
+                    {buyerData.gst_number && (
+                      <p className="text-gray-600">GST: {buyerData.gst_number}</p>
+                    )}
+                    {buyerData.phone && (
+                      <p className="text-gray-600">Phone: {buyerData.phone}</p>
+                    )}
+                  </div>
+                )}
+
+
+  {/* 
+                {supplier && (
+                  <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                    <h3 className="font-semibold text-gray-700 mb-2">
+                      Supplier
+                    </h3>
+                    <p className="text-gray-600">{supplier}</p>
+                  </div>
+                )} */}
 
-{/* 
-              {supplier && (
                 <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                   <h3 className="font-semibold text-gray-700 mb-2">
-                    Supplier
+                    Proforma Invoice No.
                   </h3>
-                  <p className="text-gray-600">{supplier}</p>
+                  <p className="text-gray-600">{invoiceNo}</p>
                 </div>
-              )} */}
 
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">
-                  Proforma Invoice No.
-                </h3>
-                <p className="text-gray-600">{invoiceNo}</p>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">
+                    Document Date
+                  </h3>
+                  <p className="text-gray-600">
+                    {documentDate
+                      ? new Date(documentDate).toLocaleDateString()
+                      : "N/A"}
+                  </p>
+                </div>
               </div>
 
               <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
                 <h3 className="font-semibold text-gray-700 mb-2">
-                  Document Date
+                  Sales Order Date
                 </h3>
                 <p className="text-gray-600">
-                  {documentDate
-                    ? new Date(documentDate).toLocaleDateString()
+                  {salesOrderDate
+                    ? new Date(salesOrderDate).toLocaleDateString()
                     : "N/A"}
                 </p>
               </div>
-            </div>
 
-            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-              <h3 className="font-semibold text-gray-700 mb-2">
-                Sales Order Date
-              </h3>
-              <p className="text-gray-600">
-                {salesOrderDate
-                  ? new Date(salesOrderDate).toLocaleDateString()
-                  : "N/A"}
-              </p>
-            </div>
-
-            <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-              <h3 className="font-semibold text-gray-700 mb-2">Items</h3>
-              <div className="overflow-x-auto">
-                <table className="w-full bg-white border border-gray-300 rounded-md">
-                  <thead className="bg-gray-100">
-                    <tr>
-                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
-                        Item
-                      </th>
-                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
-                        Quantity
-                      </th>
-                      <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
-                        Amount
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {items?.map((item: any, index: number) => (
-                      <tr
-                        key={index}
-                        className={
-                          index % 2 === 0 ? "bg-white" : "bg-gray-50"
-                        }
-                      >
-                        <td className="px-3 py-2 text-sm text-gray-600 border-b">
-                          {item.item.name}
-                        </td>
-                        <td className="px-3 py-2 text-sm text-gray-600 border-b">
-                          {item.quantity}
-                        </td>
-                        <td className="px-3 py-2 text-sm text-gray-600 border-b">
-                          ₹ {item.amount}/-
-                        </td>
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <h3 className="font-semibold text-gray-700 mb-2">Items</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full bg-white border border-gray-300 rounded-md">
+                    <thead className="bg-gray-100">
+                      <tr>
+                        <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
+                          Item
+                        </th>
+                        <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
+                          Quantity
+                        </th>
+                        <th className="px-3 py-2 text-left text-sm font-medium text-gray-700 border-b">
+                          Amount
+                        </th>
                       </tr>
-                    ))}
-                  </tbody>
-                </table>
+                    </thead>
+                    <tbody>
+                      {items?.map((item: any, index: number) => (
+                        <tr
+                          key={index}
+                          className={
+                            index % 2 === 0 ? "bg-white" : "bg-gray-50"
+                          }
+                        >
+                          <td className="px-3 py-2 text-sm text-gray-600 border-b">
+                            {item.item.name}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-gray-600 border-b">
+                            {item.quantity}
+                          </td>
+                          <td className="px-3 py-2 text-sm text-gray-600 border-b">
+                            ₹ {item.amount}/-
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
               </div>
-            </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Store</h3>
-                <p className="text-gray-600">{store}</p>
-              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Store</h3>
+                  <p className="text-gray-600">{store}</p>
+                </div>
 
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Note</h3>
-                <p className="text-gray-600">{note}</p>
-              </div>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Note</h3>
+                  <p className="text-gray-600">{note}</p>
+                </div>
 
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Subtotal</h3>
-                <p className="text-gray-600 text-lg font-medium">
-                  ₹ {subtotal}/-
-                </p>
-              </div>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Subtotal</h3>
+                  <p className="text-gray-600 text-lg font-medium">
+                    ₹ {subtotal}/-
+                  </p>
+                </div>
 
-              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-                <h3 className="font-semibold text-gray-700 mb-2">Tax</h3>
-                <p className="text-gray-600">{tax?.tax_name}</p>
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <h3 className="font-semibold text-gray-700 mb-2">Tax</h3>
+                  <p className="text-gray-600">{tax?.tax_name}</p>
+                </div>
               </div>
-            </div>
 
-            <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
-              <h3 className="font-semibold text-blue-700 mb-2">
-                Total Amount
-              </h3>
-              <p className="text-blue-600 text-xl font-bold">₹ {total}/-</p>
+              <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
+                <h3 className="font-semibold text-blue-700 mb-2">
+                  Total Amount
+                </h3>
+                <p className="text-blue-600 text-xl font-bold">₹ {total}/-</p>
+              </div>
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
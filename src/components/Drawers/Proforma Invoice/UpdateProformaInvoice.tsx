@@ -3,9 +3,15 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import React, { useEffect, useState } from "react";
 import Select from "react-select";
-import { useUpdateProformaInvoiceMutation } from "../../../redux/api/api";
+import {
+  useLazyFetchPartiesQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchSellersQuery,
+  useLazyFetchStoresQuery,
+  useLazyProformaInvoiceDetailsQuery,
+  useUpdateProformaInvoiceMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import moment from "moment";
 import AddItems from "../../Dynamic Add Components/AddItems";
@@ -22,7 +28,6 @@ const UpdateProformaInvoice: React.FC<UpdateProformaInvoiceProps> = ({
   fetchProformaInvoicesHandler,
   id,
 }) => {
-  const [cookies] = useCookies();
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isUpdating, setIsUpdating] = useState<boolean>(false);
   const [buyer, setBuyer] = useState<
@@ -85,9 +90,15 @@ const UpdateProformaInvoice: React.FC<UpdateProformaInvoiceProps> = ({
   >([{ item: { value: "", label: "" }, quantity: 0, price: 0 }]);
 
   const [updateProformaInvoice] = useUpdateProformaInvoiceMutation();
+  const [fetchParties] = useLazyFetchPartiesQuery();
+  const [proformaInvoiceDetails] = useLazyProformaInvoiceDetailsQuery();
+  const [fetchSellers] = useLazyFetchSellersQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   const updateProformaInvoiceHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!id) return;
 
     const data = {
       _id: id,
@@ -126,19 +137,7 @@ const UpdateProformaInvoice: React.FC<UpdateProformaInvoiceProps> = ({
   const fetchProformaInvoiceDetailsHandler = async (id: string) => {
     try {
       setIsLoading(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `proforma-invoice/${id}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await proformaInvoiceDetails(id).unwrap();
 
       if (data.proforma_invoice.buyer?._id) {
         const b = data.proforma_invoice.buyer;
@@ -177,7 +176,7 @@ const UpdateProformaInvoice: React.FC<UpdateProformaInvoiceProps> = ({
           data.proforma_invoice.category.substr(1),
       });
       setInputs(
-        data.proforma_invoice.items.map((item: any) => ({
+        (data.proforma_invoice.items || []).map((item: any) => ({
           item: { value: item.item._id, label: item.item.name },
           price: item.amount,
           quantity: item.quantity,
@@ -195,20 +194,11 @@ const UpdateProformaInvoice: React.FC<UpdateProformaInvoiceProps> = ({
       setIsLoadingBuyers(true);
       setBuyerFetchError(null);
 
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/get?page=1&limit=1000&selectedRole=Buyer`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.message || "Failed to fetch buyers");
-      }
+      const data = await fetchParties({
+        page: 1,
+        limit: 1000,
+        selectedRole: "Buyer",
+      }).unwrap();
 
       if (!data.data || !Array.isArray(data.data)) {
         throw new Error("No buyers found or invalid response format");
@@ -241,19 +231,7 @@ console.log(buyer)
 
   const fetchSuppliersHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchSellers({}).unwrap();
 
       const suppliers = data.agents.map((supplier: any) => ({
         value: supplier._id,
@@ -267,19 +245,7 @@ console.log(buyer)
 
   const fetchItemsHandler = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}product/all`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts({}).unwrap();
 
       const finishedGoods = results.products
         .filter((product: any) => product.category?.toLowerCase() === "finished goods")
@@ -299,19 +265,7 @@ console.log(buyer)
 
   const fetchStoresHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       const stores = data.stores.map((store: any) => ({
         value: store._id,
         label: store.name,
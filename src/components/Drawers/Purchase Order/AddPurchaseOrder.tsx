@@ -3,7 +3,6 @@
 import React, { useState, useEffect } from "react";
 import { useFormik } from "formik";
 import * as Yup from "yup";
-import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
 import {
   Box,
@@ -31,13 +30,26 @@ import {
 import { BiX, BiPackage, BiEdit, BiCalendar, BiUser } from "react-icons/bi";
 import { Users, Mail, MapPin, FileSpreadsheet } from "lucide-react";
 import { colors } from "../../../theme/colors";
-import axios from "axios";
+import { PurchaseOrder } from "../../../redux/api/types";
+import {
+  useCreatePurchaseOrderMutation,
+  useLazyFetchNextPoNumberQuery,
+  useLazyFetchRawMaterialsQuery,
+  useLazyFetchSuppliersQuery,
+  useLazySupplierDetailsQuery,
+  useRemoveFromShortagesMutation,
+  useUpdatePurchaseOrderMutation,
+} from "../../../redux/api/api";
 
 interface AddPurchaseOrderProps {
   isOpen: boolean;
   closeDrawerHandler: () => void;
   edittable?: any;
+  // Values for a new PO, e.g. the lines of an approved purchase requisition
+  prefill?: any;
   fetchPurchaseOrderData?: () => void;
+  // Called with the new PO once it is saved, never after an edit
+  onPurchaseOrderCreated?: (purchaseOrder?: PurchaseOrder) => void;
 }
 
 interface SupplierOption {
@@ -77,6 +89,7 @@ interface Item {
 interface PurchaseOrderFormValues {
   poOrder: string;
   date: string;
+  expectedDeliveryDate: string;
   supplierIdentifier: string;
   supplierName: string;
   supplierEmail: string;
@@ -100,9 +113,17 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
   isOpen,
   closeDrawerHandler,
   edittable,
+  prefill,
   fetchPurchaseOrderData,
+  onPurchaseOrderCreated,
 }) => {
-  const [cookies] = useCookies();
+  const [createPurchaseOrder] = useCreatePurchaseOrderMutation();
+  const [updatePurchaseOrder] = useUpdatePurchaseOrderMutation();
+  const [fetchSuppliers] = useLazyFetchSuppliersQuery();
+  const [fetchPoNumber] = useLazyFetchNextPoNumberQuery();
+  const [supplierDetails] = useLazySupplierDetailsQuery();
+  const [fetchRawMaterials] = useLazyFetchRawMaterialsQuery();
+  const [removeFromShortages] = useRemoveFromShortagesMutation();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoadingSuppliers, setIsLoadingSuppliers] = useState(false);
   const [supplierOptions, setSupplierOptions] = useState<SupplierOption[]>([]);
@@ -186,37 +207,42 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
     isSameAddress: Yup.boolean(),
   });
 
+  const initialSource = edittable || prefill;
+
   const formik = useFormik<PurchaseOrderFormValues>({
     initialValues: {
-      poOrder: edittable?.poOrder || nextPONumber || "",
-      date: edittable?.date || new Date().toISOString().split("T")[0],
+      poOrder: initialSource?.poOrder || nextPONumber || "",
+      date: initialSource?.date || new Date().toISOString().split("T")[0],
+      expectedDeliveryDate: initialSource?.expectedDeliveryDate
+        ? initialSource.expectedDeliveryDate.split("T")[0]
+        : "",
       supplierIdentifier:
-        edittable?.supplierName || edittable?.companyName || "",
-      supplierName: edittable?.supplierName || "",
-      supplierEmail: edittable?.supplierEmail || "",
-      supplierShippedTo: edittable?.supplierShippedTo || "",
-      supplierBillTo: edittable?.supplierBillTo || "",
-      supplierShippedGSTIN: edittable?.supplierShippedGSTIN || "",
-      supplierBillGSTIN: edittable?.supplierBillGSTIN || "",
-      supplierType: edittable?.supplierType || "Individual",
-      GSTApply: edittable?.GSTApply || "",
-      modeOfPayment: edittable?.modeOfPayment || "",
-      billingAddress: edittable?.billingAddress || "",
-      paymentTerms: edittable?.paymentTerms || "",
-      additionalRemarks: edittable?.additionalRemarks || "",
-      additionalImportant: edittable?.additionalImportant || "",
-      supplierCode: edittable?.supplierCode || "",
+        initialSource?.supplierName || initialSource?.companyName || "",
+      supplierName: initialSource?.supplierName || "",
+      supplierEmail: initialSource?.supplierEmail || "",
+      supplierShippedTo: initialSource?.supplierShippedTo || "",
+      supplierBillTo: initialSource?.supplierBillTo || "",
+      supplierShippedGSTIN: initialSource?.supplierShippedGSTIN || "",
+      supplierBillGSTIN: initialSource?.supplierBillGSTIN || "",
+      supplierType: initialSource?.supplierType || "Individual",
+      GSTApply: initialSource?.GSTApply || "",
+      modeOfPayment: initialSource?.modeOfPayment || "",
+      billingAddress: initialSource?.billingAddress || "",
+      paymentTerms: initialSource?.paymentTerms || "",
+      additionalRemarks: initialSource?.additionalRemarks || "",
+      additionalImportant: initialSource?.additionalImportant || "",
+      supplierCode: initialSource?.supplierCode || "",
 
       items:
-        edittable?.items?.map((item) => ({
+        initialSource?.items?.map((item) => ({
           ...item,
           productId: item.productId || "", // Ensure productId field exists
         })) ||
-        (edittable?.itemName
+        (initialSource?.itemName
           ? [
               {
-                itemName: edittable.itemName,
-                quantity: edittable.quantity || 1,
+                itemName: initialSource.itemName,
+                quantity: initialSource.quantity || 1,
                 unitPrice: 0,
                 totalPrice: 0,
                 productId: "",
@@ -233,7 +259,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
                 uom: "",
               },
             ]),
-      isSameAddress: edittable?.isSameAddress || false,
+      isSameAddress: initialSource?.isSameAddress || false,
     },
     validationSchema,
     enableReinitialize: true,
@@ -251,20 +277,16 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
         ...values,
         supplierName: values.supplierIdentifier,
         supplierCode: values.supplierCode,
+        requisition: edittable ? edittable.requisition : prefill?.requisition,
       };
 
       try {
         if (edittable?._id) {
-          const res = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}purchase-order/${edittable._id}`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
-          if (res.data.success) {
+          const res = await updatePurchaseOrder({
+            _id: edittable._id,
+            ...payload,
+          }).unwrap();
+          if (res.success) {
             // Remove items from inventory shortages if they have updates
             for (const item of values.items) {
               const selectedProduct = rawMaterials.find(
@@ -272,17 +294,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
               );
               if (selectedProduct?._id) {
                 try {
-                  await axios.put(
-                    `${process.env.REACT_APP_BACKEND_URL}product/remove-from-shortages`,
-                    {
-                      productId: selectedProduct._id,
-                    },
-                    {
-                      headers: {
-                        Authorization: `Bearer ${cookies?.access_token}`,
-                      },
-                    }
-                  );
+                  await removeFromShortages(selectedProduct._id).unwrap();
                 } catch (shortageError) {
                   // Ignore shortage removal errors - item might not be in shortages
                   console.log(
@@ -302,17 +314,9 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
             }, 2000);
           }
         } else {
-          const res = await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}purchase-order/`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          const res = await createPurchaseOrder(payload).unwrap();
 
-          if (res.data.success) {
+          if (res.success) {
             // Remove items from inventory shortages if they have updates
             for (const item of values.items) {
               const selectedProduct = rawMaterials.find(
@@ -320,17 +324,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
               );
               if (selectedProduct?._id) {
                 try {
-                  await axios.put(
-                    `${process.env.REACT_APP_BACKEND_URL}product/remove-from-shortages`,
-                    {
-                      productId: selectedProduct._id,
-                    },
-                    {
-                      headers: {
-                        Authorization: `Bearer ${cookies?.access_token}`,
-                      },
-                    }
-                  );
+                  await removeFromShortages(selectedProduct._id).unwrap();
                 } catch (shortageError) {
                   // Ignore shortage removal errors - item might not be in shortages
                   console.log(
@@ -343,6 +337,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
 
             toast.success("Purchase order created successfully!");
             formik.resetForm();
+            onPurchaseOrderCreated?.(res.purchase_order);
             if (fetchPurchaseOrderData) {
               fetchPurchaseOrderData();
             }
@@ -353,7 +348,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
         }
       } catch (error: any) {
         const errorMessage =
-          error?.response?.data?.message ||
+          error?.message ||
           "Something went wrong while saving purchase order!";
         toast.error(errorMessage);
       } finally {
@@ -365,20 +360,7 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
   const fetchSuppliersHandler = async (retryCount = 0) => {
     setIsLoadingSuppliers(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}purchase-order/suppliers`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const data: SupplierApiResponse = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data: SupplierApiResponse = await fetchSuppliers({}).unwrap();
 
       const suppliers = data.suppliers
         .map((supplier) => ({
@@ -409,21 +391,9 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
 
   const fetchNextPONumber = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}purchase-order/next-po-number`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const data = await response.json();
-      if (data.success) {
-        setNextPONumber(data.poNumber);
-        formik.setFieldValue("poOrder", data.poNumber);
-      }
+      const data = await fetchPoNumber({}).unwrap();
+      setNextPONumber(data.poNumber);
+      formik.setFieldValue("poOrder", data.poNumber);
     } catch (error: any) {
       console.error("Error fetching next PO number:", error);
     }
@@ -434,13 +404,8 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
       await fetchNextPONumber(); // Fetch PO number first
       await fetchSuppliersHandler(); // Then fetch suppliers
       try {
-        const res = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}product/raw-materials`,
-          {
-            headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          }
-        );
-        setRawMaterials(res.data.rawMaterials || []);
+        const res = await fetchRawMaterials({}).unwrap();
+        setRawMaterials(res.rawMaterials || []);
       } catch (error) {
         console.error("Error fetching raw materials:", error);
       }
@@ -531,20 +496,9 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
 
       // Then fetch detailed supplier information from the API
       try {
-        const response = await fetch(
-          `${process.env.REACT_APP_BACKEND_URL}purchase-order/supplier/${selectedSupplier.id}`,
-          {
-            method: "GET",
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
+        const data = await supplierDetails(selectedSupplier.id).unwrap();
 
-        const data = await response.json();
-        console.log("API response data:", data);
-
-        if (data.success && data.supplier) {
+        if (data.supplier) {
           const supplier = data.supplier;
           console.log("Supplier details from API:", supplier);
   formik.setFieldValue("supplierCode", supplier.supplierCode || "");
@@ -605,6 +559,14 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
     }
   };
 
+  // Fill in the prefilled supplier's addresses once suppliers are loaded
+  useEffect(() => {
+    if (!edittable && prefill?.supplierName && supplierOptions.length > 0) {
+      handleSupplierSelection(prefill.supplierName);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prefill, supplierOptions]);
+
   // Functions to manage items
   const addItem = () => {
     const newItems = [
@@ -798,6 +760,34 @@ const AddPurchaseOrder: React.FC<AddPurchaseOrderProps> = ({
                         </Text>
                       )}
                     </FormControl>
+
+                    <FormControl>
+                      <FormLabel
+                        display="flex"
+                        alignItems="center"
+                        gap={2}
+                        color={textColor}
+                        fontSize="sm"
+                        fontWeight="medium"
+                      >
+                        <BiCalendar size={16} />
+                        Expected Delivery
+                      </FormLabel>
+                      <Input
+                        type="date"
+                        name="expectedDeliveryDate"
+                        value={formik.values.expectedDeliveryDate}
+                        min={formik.values.date}
+                        onChange={formik.handleChange}
+                        onBlur={formik.handleBlur}
+                        size="lg"
+                        borderRadius="lg"
+                        _focus={{
+                          borderColor: "blue.500",
+                          boxShadow: "0 0 0 1px #3182CE",
+                        }}
+                      />
+                    </FormControl>
                     {/* </GridItem> */}
 
                     {/* <GridItem> */}
@@ -0,0 +1,569 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { RxCross2 } from "react-icons/rx";
+import { colors } from "../../../theme/colors";
+import {
+  GoodsReceipt as GoodsReceiptDocument,
+  GoodsReceiptItem,
+  PurchaseOrder,
+} from "../../../redux/api/types";
+import {
+  useCreateGoodsReceiptMutation,
+  useDeleteGoodsReceiptMutation,
+  useLazyFetchGoodsReceiptsQuery,
+  useLazyFetchStoresQuery,
+  usePostGoodsReceiptMutation,
+} from "../../../redux/api/api";
+import { useCan } from "../../utils/permissions";
+import {
+  getOpenQty,
+  getReceiptItemsByLine,
+  getReceiptLines,
+  getReceiptStatus,
+  getStoreName,
+  goodsReceiptStatusColorMap,
+  isReceivedItem,
+  purchaseOrderStatusColorMap,
+  validateReceiptItems,
+} from "../../utils/goodsReceipts";
+
+interface GoodsReceiptProps {
+  order: PurchaseOrder;
+  onClose: () => void;
+  // Called after a receipt is posted, the order's status has changed
+  onPosted?: () => void;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const GoodsReceipt: React.FC<GoodsReceiptProps> = ({
+  order,
+  onClose,
+  onPosted,
+}) => {
+  const can = useCan();
+  const [fetchGoodsReceipts, { isFetching }] =
+    useLazyFetchGoodsReceiptsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
+  const [createGoodsReceipt] = useCreateGoodsReceiptMutation();
+  const [postGoodsReceipt] = usePostGoodsReceiptMutation();
+  const [deleteGoodsReceipt] = useDeleteGoodsReceiptMutation();
+
+  const [receipts, setReceipts] = useState<GoodsReceiptDocument[]>([]);
+  const [stores, setStores] = useState<any[]>([]);
+  const [store, setStore] = useState<string>("");
+  const [receivedDate, setReceivedDate] = useState<string>(today());
+  const [remarks, setRemarks] = useState<string>("");
+  const [items, setItems] = useState<{ [key: string]: GoodsReceiptItem }>(
+    {}
+  );
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const canReceive = can("procurement", "create");
+  const canPost = can("procurement", "approve");
+
+  const lines = getReceiptLines(order, receipts);
+  const errors = validateReceiptItems(lines, items);
+  const receivedItems = Object.values(items).filter(isReceivedItem);
+  const status = getReceiptStatus(lines);
+
+  const loadReceipts = useCallback(async () => {
+    try {
+      const response = await fetchGoodsReceipts({
+        purchase_order: order._id,
+      }).unwrap();
+      setReceipts(response.grns || []);
+      return response.grns || [];
+    } catch (error: any) {
+      toast.error(error?.message || "Could not load goods receipts");
+    }
+  }, [fetchGoodsReceipts, order._id]);
+
+  useEffect(() => {
+    loadReceipts();
+  }, [loadReceipts]);
+
+  useEffect(() => {
+    const loadStores = async () => {
+      try {
+        const data = await fetchStores(undefined).unwrap();
+        setStores(data?.stores || []);
+      } catch (error: any) {
+        toast.error(error?.data?.message || "Could not load stores");
+      }
+    };
+    loadStores();
+  }, [fetchStores]);
+
+  const itemChangeHandler = (
+    key: string,
+    field: keyof GoodsReceiptItem,
+    value: string
+  ) => {
+    const line = lines.find((l) => l.key === key);
+    if (!line) return;
+    setItems((prev) => {
+      const item: GoodsReceiptItem = prev[key] || {
+        po_item: line.key,
+        item_name: line.item_name,
+        product_id: line.product_id,
+        uom: line.uom,
+        accepted_qty: 0,
+        rejected_qty: 0,
+        batch_no: "",
+      };
+      return {
+        ...prev,
+        [key]: {
+          ...item,
+          [field]: field === "batch_no" ? value : Number(value) || 0,
+        },
+      };
+    });
+  };
+
+  const resetForm = () => {
+    setItems({});
+    setRemarks("");
+    setReceivedDate(today());
+  };
+
+  const saveHandler = async (post: boolean) => {
+    if (!store) {
+      toast.error("Select the store the goods were received into");
+      return;
+    }
+    if (receivedItems.length === 0) {
+      toast.error("Enter the quantity received for at least one line");
+      return;
+    }
+    if (Object.keys(errors).length > 0) {
+      toast.error("Fix the highlighted lines before saving");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await createGoodsReceipt({
+        purchase_order: order._id,
+        store,
+        received_date: receivedDate,
+        status: post ? "Posted" : "Draft",
+        items: receivedItems,
+        remarks,
+      }).unwrap();
+      toast.success(
+        post ? "Goods receipt posted, stock updated" : "Goods receipt saved"
+      );
+      resetForm();
+      await loadReceipts();
+      if (post) onPosted?.();
+    } catch (error: any) {
+      toast.error(error?.message || "Could not save goods receipt");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const postDraftHandler = async (receipt: GoodsReceiptDocument) => {
+    setIsSubmitting(true);
+    try {
+      // Receipts posted since the list loaded may have used up the order
+      const latestReceipts = await loadReceipts();
+      if (!latestReceipts) return;
+      const draftErrors = validateReceiptItems(
+        getReceiptLines(order, latestReceipts),
+        getReceiptItemsByLine(receipt),
+        false
+      );
+      if (Object.keys(draftErrors).length > 0) {
+        toast.error(
+          `Cannot post this receipt: ${Object.values(draftErrors)[0]}`
+        );
+        return;
+      }
+      await postGoodsReceipt(receipt._id).unwrap();
+      toast.success("Goods receipt posted, stock updated");
+      await loadReceipts();
+      onPosted?.();
+    } catch (error: any) {
+      toast.error(error?.message || "Could not post goods receipt");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteDraftHandler = async (receipt: GoodsReceiptDocument) => {
+    setIsSubmitting(true);
+    try {
+      await deleteGoodsReceipt(receipt._id).unwrap();
+      toast.success("Draft goods receipt deleted");
+      await loadReceipts();
+    } catch (error: any) {
+      toast.error(error?.message || "Could not delete goods receipt");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-2 py-1 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className="rounded-xl shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto"
+        style={{ backgroundColor: colors.background.card }}
+      >
+        <div
+          className="flex items-center justify-between p-6 border-b"
+          style={{ borderColor: colors.border.light }}
+        >
+          <div className="flex items-center gap-3">
+            <h2
+              className="text-xl font-semibold"
+              style={{ color: colors.text.primary }}
+            >
+              Goods Receipt - {order.poOrder || "Purchase Order"}
+            </h2>
+            <span
+              className={`px-2 py-1 rounded-full text-xs font-medium ${purchaseOrderStatusColorMap[status]}`}
+            >
+              {status}
+            </span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg"
+            style={{ color: colors.text.secondary }}
+          >
+            <RxCross2 size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {canReceive && status !== "Received" && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Receiving Store *
+                </label>
+                <select
+                  value={store}
+                  onChange={(e) => setStore(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={{ borderColor: colors.border.medium }}
+                >
+                  <option value="">Select store</option>
+                  {stores.map((s: any) => (
+                    <option key={s._id} value={s._id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Received On
+                </label>
+                <input
+                  type="date"
+                  value={receivedDate}
+                  onChange={(e) => setReceivedDate(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={{ borderColor: colors.border.medium }}
+                />
+              </div>
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Remarks
+                </label>
+                <input
+                  value={remarks}
+                  onChange={(e) => setRemarks(e.target.value)}
+                  placeholder="e.g. Invoice no., vehicle no."
+                  className="w-full px-3 py-2 border rounded-lg text-sm"
+                  style={{ borderColor: colors.border.medium }}
+                />
+              </div>
+            </div>
+          )}
+
+          <div
+            className="overflow-x-auto border rounded-lg"
+            style={{ borderColor: colors.border.light }}
+          >
+            <table className="w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  {[
+                    "Item",
+                    "Ordered",
+                    "Received",
+                    "Pending",
+                    "Accepted",
+                    "Rejected",
+                    "Batch No.",
+                  ].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-3 py-2 text-left font-medium whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody style={{ color: colors.text.primary }}>
+                {lines.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-3 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      This purchase order has no items
+                    </td>
+                  </tr>
+                )}
+                {lines.map((line) => {
+                  const item = items[line.key];
+                  const isEditable = canReceive && getOpenQty(line) > 0;
+                  return (
+                    <tr
+                      key={line.key}
+                      className="border-t align-top"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-3 py-2">
+                        {line.item_name}
+                        {errors[line.key] && (
+                          <p className="text-xs text-red-600 mt-1">
+                            {errors[line.key]}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        {line.ordered_qty} {line.uom}
+                      </td>
+                      <td className="px-3 py-2">{line.received_qty}</td>
+                      <td className="px-3 py-2 font-medium">
+                        {line.pending_qty}
+                        {line.draft_qty > 0 && (
+                          <p
+                            className="text-xs font-normal"
+                            style={{ color: colors.text.secondary }}
+                          >
+                            {line.draft_qty} on drafts
+                          </p>
+                        )}
+                      </td>
+                      {isEditable ? (
+                        <>
+                          <td className="px-3 py-2 w-24">
+                            <input
+                              type="number"
+                              min="0"
+                              value={item?.accepted_qty || ""}
+                              onChange={(e) =>
+                                itemChangeHandler(
+                                  line.key,
+                                  "accepted_qty",
+                                  e.target.value
+                                )
+                              }
+                              className={inputClassName}
+                              style={{
+                                borderColor: errors[line.key]
+                                  ? colors.error[500]
+                                  : colors.border.medium,
+                              }}
+                            />
+                          </td>
+                          <td className="px-3 py-2 w-24">
+                            <input
+                              type="number"
+                              min="0"
+                              value={item?.rejected_qty || ""}
+                              onChange={(e) =>
+                                itemChangeHandler(
+                                  line.key,
+                                  "rejected_qty",
+                                  e.target.value
+                                )
+                              }
+                              className={inputClassName}
+                              style={{ borderColor: colors.border.medium }}
+                            />
+                          </td>
+                          <td className="px-3 py-2 w-36">
+                            <input
+                              value={item?.batch_no || ""}
+                              onChange={(e) =>
+                                itemChangeHandler(
+                                  line.key,
+                                  "batch_no",
+                                  e.target.value
+                                )
+                              }
+                              className={inputClassName}
+                              style={{ borderColor: colors.border.medium }}
+                            />
+                          </td>
+                        </>
+                      ) : (
+                        <td
+                          colSpan={3}
+                          className="px-3 py-2"
+                          style={{ color: colors.text.secondary }}
+                        >
+                          {line.pending_qty === 0
+                            ? "Fully received"
+                            : canReceive
+                            ? "Pending quantity is on draft receipts"
+                            : "-"}
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {canReceive && status !== "Received" && (
+            <div className="flex justify-end gap-3">
+              <button
+                disabled={isSubmitting}
+                onClick={() => saveHandler(false)}
+                className="px-4 py-2 rounded-lg border text-sm font-medium disabled:opacity-50"
+                style={{
+                  borderColor: colors.border.medium,
+                  color: colors.text.primary,
+                }}
+              >
+                Save Draft
+              </button>
+              {canPost && (
+                <button
+                  disabled={isSubmitting}
+                  onClick={() => saveHandler(true)}
+                  className="px-4 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                >
+                  {isSubmitting ? "Saving..." : "Post GRN"}
+                </button>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h3
+              className="text-sm font-semibold mb-2"
+              style={{ color: colors.text.primary }}
+            >
+              Receipts {isFetching && "(loading...)"}
+            </h3>
+            {receipts.length === 0 ? (
+              <p className="text-sm" style={{ color: colors.text.secondary }}>
+                Nothing has been received against this order yet
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {receipts.map((receipt) => (
+                  <div
+                    key={receipt._id}
+                    className="border rounded-lg p-3 text-sm"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span
+                          className="font-medium"
+                          style={{ color: colors.text.primary }}
+                        >
+                          {receipt.grn_number || "GRN"}
+                        </span>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                            goodsReceiptStatusColorMap[receipt.status]
+                          }`}
+                        >
+                          {receipt.status}
+                        </span>
+                        <span style={{ color: colors.text.secondary }}>
+                          {new Date(
+                            receipt.received_date
+                          ).toLocaleDateString()}{" "}
+                          - {getStoreName(receipt.store)}
+                        </span>
+                      </div>
+                      {receipt.status === "Draft" && (
+                        <div className="flex gap-2">
+                          {canPost && (
+                            <button
+                              disabled={isSubmitting}
+                              onClick={() => postDraftHandler(receipt)}
+                              className="px-3 py-1 rounded text-xs font-medium disabled:opacity-50"
+                              style={{
+                                backgroundColor: colors.button.primary,
+                                color: colors.text.inverse,
+                              }}
+                            >
+                              Post
+                            </button>
+                          )}
+                          {can("procurement", "delete") && (
+                            <button
+                              disabled={isSubmitting}
+                              onClick={() => deleteDraftHandler(receipt)}
+                              className="px-3 py-1 rounded text-xs font-medium border disabled:opacity-50"
+                              style={{
+                                borderColor: colors.error[300],
+                                color: colors.error[600],
+                              }}
+                            >
+                              Delete
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <ul
+                      className="mt-2 space-y-1"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {receipt.items.map((item, index) => (
+                        <li key={index}>
+                          {item.item_name}: {item.accepted_qty} accepted
+                          {item.rejected_qty > 0 &&
+                            `, ${item.rejected_qty} rejected`}
+                          {item.batch_no && ` (batch ${item.batch_no})`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoodsReceipt;
@@ -0,0 +1,156 @@
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { BiX } from "react-icons/bi";
+import Drawer from "../../../ui/Drawer";
+import Loading from "../../../ui/Loading";
+import { colors } from "../../../theme/colors";
+import { useLazyPurchaseOrderDetailsQuery } from "../../../redux/api/api";
+import RecordTabs from "../../Audit/RecordTabs";
+import { getOrderValue } from "../../utils/suppliers";
+
+interface PurchaseOrderDetailsProps {
+  closeDrawerHandler: () => void;
+  purchaseOrderId: string | undefined;
+}
+
+const formatDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString() : undefined;
+
+const PurchaseOrderDetails: React.FC<PurchaseOrderDetailsProps> = ({
+  closeDrawerHandler,
+  purchaseOrderId,
+}) => {
+  const [fetchPurchaseOrder, { data, isFetching }] =
+    useLazyPurchaseOrderDetailsQuery();
+  const order = data?.purchase_order;
+
+  useEffect(() => {
+    if (!purchaseOrderId) return;
+    fetchPurchaseOrder(purchaseOrderId)
+      .unwrap()
+      .catch((error: any) =>
+        toast.error(error?.message || "Something went wrong")
+      );
+  }, [purchaseOrderId, fetchPurchaseOrder]);
+
+  const fields = [
+    { label: "PO Number", value: order?.poOrder },
+    { label: "Date", value: formatDate(order?.date) },
+    {
+      label: "Expected Delivery",
+      value: formatDate(order?.expectedDeliveryDate),
+    },
+    { label: "Status", value: order?.status },
+    { label: "Supplier", value: order?.supplierName },
+    { label: "Supplier Email", value: order?.supplierEmail },
+    { label: "Shipped To", value: order?.supplierShippedTo },
+    { label: "Bill To", value: order?.supplierBillTo },
+    { label: "Shipped GSTIN", value: order?.supplierShippedGSTIN },
+    { label: "Bill GSTIN", value: order?.supplierBillGSTIN },
+    { label: "Mode of Payment", value: order?.modeOfPayment },
+    { label: "GST", value: order?.GSTApply },
+    { label: "Billing Address", value: order?.billingAddress },
+    { label: "Additional Notes", value: order?.additionalImportant },
+  ];
+
+  return (
+    <Drawer closeDrawerHandler={closeDrawerHandler}>
+      <div
+        className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[650px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+        style={{ boxShadow: colors.shadow.xl }}
+      >
+        <div
+          className="flex items-center justify-between p-6 border-b"
+          style={{ borderColor: colors.border.light }}
+        >
+          <h1
+            className="text-xl font-semibold"
+            style={{ color: colors.text.primary }}
+          >
+            Purchase Order {order?.poOrder || ""}
+          </h1>
+          <button
+            onClick={closeDrawerHandler}
+            className="p-2 rounded-lg"
+            style={{
+              color: colors.text.secondary,
+              backgroundColor: colors.gray[100],
+            }}
+          >
+            <BiX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-6 px-5 pb-6">
+          <RecordTabs module="purchase-order" recordId={purchaseOrderId}>
+            {isFetching ? (
+              <Loading />
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {fields.map((field) => (
+                    <div key={field.label}>
+                      <p
+                        className="text-xs"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        {field.label}
+                      </p>
+                      <p className="text-sm font-medium">
+                        {field.value || "N/A"}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead style={{ backgroundColor: colors.table.header }}>
+                      <tr>
+                        <th className="px-3 py-2 text-left">Item</th>
+                        <th className="px-3 py-2 text-right">Quantity</th>
+                        <th className="px-3 py-2 text-right">Unit Price</th>
+                        <th className="px-3 py-2 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {(order?.items || []).map((item: any, index: number) => (
+                        <tr
+                          key={item?._id || index}
+                          className="border-t"
+                          style={{ borderColor: colors.border.light }}
+                        >
+                          <td className="px-3 py-2 font-medium">
+                            {item?.itemName || "N/A"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {item?.quantity} {item?.uom || ""}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            ₹{item?.unitPrice || 0}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            ₹{item?.totalPrice || 0}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                <p
+                  className="text-right text-sm font-semibold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Order Value: ₹{getOrderValue(order).toLocaleString()}
+                </p>
+              </div>
+            )}
+          </RecordTabs>
+        </div>
+      </div>
+    </Drawer>
+  );
+};
+
+export default PurchaseOrderDetails;
@@ -0,0 +1,396 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import Select from "react-select";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import { useCreateInspectionMutation } from "../../../redux/api/api";
+import { findInspectionPlan, inspectionStages } from "../../utils/quality";
+import { formatSaleLines, getSaleItems } from "../../utils/salesOrders";
+
+interface AddInspectionProps {
+  closeDrawerHandler: () => void;
+  onRaiseNcr: (inspection: any) => void;
+  plans: any[];
+  products: any[];
+  purchaseOrders: any[];
+  processes: any[];
+  sales: any[];
+}
+
+const AddInspection: React.FC<AddInspectionProps> = ({
+  closeDrawerHandler,
+  onRaiseNcr,
+  plans,
+  products,
+  purchaseOrders,
+  processes,
+  sales,
+}) => {
+  const [createInspection] = useCreateInspectionMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [stage, setStage] = useState<string>("incoming");
+  const [reference, setReference] = useState<any>(null);
+  const [product, setProduct] = useState<any>(null);
+  const [inspectedQty, setInspectedQty] = useState<string>("");
+  const [acceptedQty, setAcceptedQty] = useState<string>("");
+  const [rejectedQty, setRejectedQty] = useState<string>("0");
+  const [reworkQty, setReworkQty] = useState<string>("0");
+  const [remarks, setRemarks] = useState<string>("");
+  const [parameterResults, setParameterResults] = useState<any[]>([]);
+
+  const referenceOptions = useMemo(() => {
+    if (stage === "incoming") {
+      return purchaseOrders.map((po: any) => ({
+        value: po._id,
+        label: `${po.poOrder || "PO"} - ${po.supplierName || "N/A"}`,
+        data: po,
+      }));
+    }
+    if (stage === "in-process") {
+      return processes.map((p: any) => ({
+        value: p._id,
+        label: `${p?.item?.name || "N/A"} - ${p?.bom?.bom_name || "N/A"}`,
+        data: p,
+      }));
+    }
+    return sales.map((sale: any) => ({
+      value: sale._id,
+      label: `${sale?.order_id || "N/A"} - ${formatSaleLines(sale)}`,
+      data: sale,
+    }));
+  }, [stage, purchaseOrders, processes, sales]);
+
+  // Only the items on the selected document can be inspected against it
+  const productOptions = useMemo(() => {
+    let ids: string[] | undefined;
+    if (reference && stage === "incoming") {
+      ids = (reference.data?.items || [])
+        .map((item: any) => item?.productId)
+        .filter(Boolean);
+    } else if (reference && stage === "in-process") {
+      ids = [reference.data?.item?._id || reference.data?.item];
+    } else if (reference && stage === "final") {
+      ids = getSaleItems(reference.data).map((line) => line.product_id);
+    }
+    return products
+      .filter((p: any) => !ids || ids.length === 0 || ids.includes(p._id))
+      .map((p: any) => ({ value: p._id, label: p.name }));
+  }, [reference, stage, products]);
+
+  const plan = findInspectionPlan(plans, product?.value, stage);
+
+  useEffect(() => {
+    setParameterResults(
+      (plan?.parameters || []).map((parameter: any) => ({
+        name: parameter.name,
+        specification: parameter.specification,
+        observed: "",
+        result: "Pass",
+      }))
+    );
+  }, [plan?._id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (productOptions.length === 1) {
+      setProduct(productOptions[0]);
+    }
+  }, [productOptions]);
+
+  const updateParameterResult = (
+    index: number,
+    field: string,
+    value: string
+  ) => {
+    setParameterResults((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, [field]: value } : p))
+    );
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reference || !product) {
+      toast.error("Please select the document and product being inspected");
+      return;
+    }
+    if (+acceptedQty + +rejectedQty + +reworkQty !== +inspectedQty) {
+      toast.error(
+        "Accepted, rejected and rework quantities must add up to the inspected quantity"
+      );
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const data = {
+        stage,
+        product: product.value,
+        inspection_plan: plan?._id,
+        purchase_order: stage === "incoming" ? reference.value : undefined,
+        supplier:
+          stage === "incoming"
+            ? reference.data?.supplier?._id ||
+              reference.data?.supplier ||
+              undefined
+            : undefined,
+        production_process:
+          stage === "in-process" ? reference.value : undefined,
+        bom: stage === "in-process" ? reference.data?.bom?._id : undefined,
+        sale: stage === "final" ? reference.value : undefined,
+        inspected_qty: +inspectedQty,
+        accepted_qty: +acceptedQty,
+        rejected_qty: +rejectedQty,
+        rework_qty: +reworkQty,
+        parameter_results: parameterResults,
+        remarks,
+      };
+      const response = await createInspection(data).unwrap();
+      toast.success(response?.message || "Inspection recorded");
+      closeDrawerHandler();
+      if (+rejectedQty > 0 || +reworkQty > 0) {
+        onRaiseNcr({
+          ...data,
+          ...(response?.inspection || {}),
+          supplierName: reference.data?.supplierName,
+        });
+      }
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          Record Inspection
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Inspection Stage
+            </FormLabel>
+            <ChakraSelect
+              value={stage}
+              onChange={(e) => {
+                setStage(e.target.value);
+                setReference(null);
+                setProduct(null);
+              }}
+              bg="white"
+              borderColor="gray.300"
+            >
+              {inspectionStages.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </ChakraSelect>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              {stage === "incoming"
+                ? "Purchase Order"
+                : stage === "in-process"
+                ? "Production Process"
+                : "Sales Order"}
+            </FormLabel>
+            <Select
+              placeholder="Select"
+              value={reference}
+              options={referenceOptions}
+              onChange={(selected: any) => {
+                setReference(selected);
+                setProduct(null);
+              }}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Product
+            </FormLabel>
+            <Select
+              placeholder="Select product"
+              value={product}
+              options={productOptions}
+              onChange={(selected: any) => setProduct(selected)}
+            />
+            {product && !plan && (
+              <p className="text-xs mt-2 text-orange-600">
+                No inspection plan is defined for this product at this stage.
+              </p>
+            )}
+          </FormControl>
+
+          {parameterResults.length > 0 && (
+            <FormControl className="mt-3 mb-5">
+              <FormLabel fontWeight="bold" color="gray.700">
+                Parameter Results
+              </FormLabel>
+              <div className="space-y-3">
+                {parameterResults.map((parameter, index) => (
+                  <div
+                    key={index}
+                    className="p-3 border rounded-lg"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <p className="text-sm font-medium">{parameter.name}</p>
+                    {parameter.specification && (
+                      <p
+                        className="text-xs mb-2"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        Spec: {parameter.specification}
+                      </p>
+                    )}
+                    <div className="flex gap-2">
+                      <Input
+                        size="sm"
+                        value={parameter.observed}
+                        onChange={(e) =>
+                          updateParameterResult(
+                            index,
+                            "observed",
+                            e.target.value
+                          )
+                        }
+                        placeholder="Observed value"
+                      />
+                      <ChakraSelect
+                        size="sm"
+                        width="120px"
+                        value={parameter.result}
+                        onChange={(e) =>
+                          updateParameterResult(index, "result", e.target.value)
+                        }
+                      >
+                        <option value="Pass">Pass</option>
+                        <option value="Fail">Fail</option>
+                      </ChakraSelect>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </FormControl>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <FormControl className="mt-3 mb-2" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Inspected Qty
+              </FormLabel>
+              <Input
+                type="number"
+                min={0}
+                value={inspectedQty}
+                onChange={(e) => setInspectedQty(e.target.value)}
+              />
+            </FormControl>
+            <FormControl className="mt-3 mb-2" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Accepted Qty
+              </FormLabel>
+              <Input
+                type="number"
+                min={0}
+                value={acceptedQty}
+                onChange={(e) => setAcceptedQty(e.target.value)}
+              />
+            </FormControl>
+            <FormControl className="mt-3 mb-2" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Rejected Qty
+              </FormLabel>
+              <Input
+                type="number"
+                min={0}
+                value={rejectedQty}
+                onChange={(e) => setRejectedQty(e.target.value)}
+              />
+            </FormControl>
+            <FormControl className="mt-3 mb-2" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Rework Qty
+              </FormLabel>
+              <Input
+                type="number"
+                min={0}
+                value={reworkQty}
+                onChange={(e) => setReworkQty(e.target.value)}
+              />
+            </FormControl>
+          </div>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="Remarks"
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddInspection;
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormLabel,
+  Input,
+  Textarea,
+} from "@chakra-ui/react";
+import Select from "react-select";
+import { BiX } from "react-icons/bi";
+import { FiPlus, FiTrash2 } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateInspectionPlanMutation,
+  useUpdateInspectionPlanMutation,
+} from "../../../redux/api/api";
+import { inspectionStages } from "../../utils/quality";
+
+interface AddInspectionPlanProps {
+  closeDrawerHandler: () => void;
+  products: any[];
+  editPlan?: any | null;
+}
+
+const emptyParameter = { name: "", specification: "", method: "" };
+
+const AddInspectionPlan: React.FC<AddInspectionPlanProps> = ({
+  closeDrawerHandler,
+  products,
+  editPlan,
+}) => {
+  const [createInspectionPlan] = useCreateInspectionPlanMutation();
+  const [updateInspectionPlan] = useUpdateInspectionPlanMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [product, setProduct] = useState<any>(
+    editPlan?.product
+      ? {
+          value: editPlan.product?._id || editPlan.product,
+          label: editPlan.product?.name || "Selected product",
+        }
+      : null
+  );
+  const [stages, setStages] = useState<string[]>(editPlan?.stages || []);
+  const [sampleSize, setSampleSize] = useState<string>(
+    editPlan?.sample_size?.toString() || ""
+  );
+  const [remarks, setRemarks] = useState<string>(editPlan?.remarks || "");
+  const [parameters, setParameters] = useState<any[]>(
+    editPlan?.parameters?.length ? editPlan.parameters : [{ ...emptyParameter }]
+  );
+
+  const productOptions = products.map((p: any) => ({
+    value: p._id,
+    label: `${p.name}${p.product_id ? ` (${p.product_id})` : ""}`,
+  }));
+
+  const toggleStage = (stage: string) => {
+    setStages((prev) =>
+      prev.includes(stage) ? prev.filter((s) => s !== stage) : [...prev, stage]
+    );
+  };
+
+  const updateParameter = (index: number, field: string, value: string) => {
+    setParameters((prev) =>
+      prev.map((p, i) => (i === index ? { ...p, [field]: value } : p))
+    );
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!product) {
+      toast.error("Please select a product");
+      return;
+    }
+    if (stages.length === 0) {
+      toast.error("Please select at least one inspection stage");
+      return;
+    }
+    const validParameters = parameters.filter((p) => p.name.trim());
+    if (validParameters.length === 0) {
+      toast.error("Please add at least one inspection parameter");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const data = {
+        product: product.value,
+        stages,
+        sample_size: sampleSize ? +sampleSize : undefined,
+        parameters: validParameters,
+        remarks,
+      };
+      const response = editPlan?._id
+        ? await updateInspectionPlan({ _id: editPlan._id, ...data }).unwrap()
+        : await createInspectionPlan(data).unwrap();
+      toast.success(response?.message || "Inspection plan saved");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editPlan ? "Edit Inspection Plan" : "New Inspection Plan"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Product
+            </FormLabel>
+            <Select
+              placeholder="Select product"
+              value={product}
+              options={productOptions}
+              onChange={(selected: any) => setProduct(selected)}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Inspection Stages
+            </FormLabel>
+            <div className="flex flex-col gap-2">
+              {inspectionStages.map((stage) => (
+                <Checkbox
+                  key={stage.value}
+                  isChecked={stages.includes(stage.value)}
+                  onChange={() => toggleStage(stage.value)}
+                >
+                  {stage.label}
+                </Checkbox>
+              ))}
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Sample Size (%)
+            </FormLabel>
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={sampleSize}
+              onChange={(e) => setSampleSize(e.target.value)}
+              placeholder="e.g. 10"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Parameters
+            </FormLabel>
+            <div className="space-y-3">
+              {parameters.map((parameter, index) => (
+                <div
+                  key={index}
+                  className="p-3 border rounded-lg space-y-2"
+                  style={{ borderColor: colors.border.light }}
+                >
+                  <div className="flex gap-2">
+                    <Input
+                      size="sm"
+                      value={parameter.name}
+                      onChange={(e) =>
+                        updateParameter(index, "name", e.target.value)
+                      }
+                      placeholder="Parameter (e.g. Print registration)"
+                    />
+                    {parameters.length > 1 && (
+                      <button
+                        type="button"
+                        className="p-2 text-red-600"
+                        onClick={() =>
+                          setParameters((prev) =>
+                            prev.filter((_, i) => i !== index)
+                          )
+                        }
+                      >
+                        <FiTrash2 />
+                      </button>
+                    )}
+                  </div>
+                  <Input
+                    size="sm"
+                    value={parameter.specification}
+                    onChange={(e) =>
+                      updateParameter(index, "specification", e.target.value)
+                    }
+                    placeholder="Specification (e.g. ±0.5 mm)"
+                  />
+                  <Input
+                    size="sm"
+                    value={parameter.method}
+                    onChange={(e) =>
+                      updateParameter(index, "method", e.target.value)
+                    }
+                    placeholder="Method (e.g. Visual, Vernier)"
+                  />
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<FiPlus />}
+                onClick={() =>
+                  setParameters((prev) => [...prev, { ...emptyParameter }])
+                }
+              >
+                Add Parameter
+              </Button>
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="Remarks"
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddInspectionPlan;
@@ -0,0 +1,399 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import Select from "react-select";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateNcrMutation,
+  useUpdateNcrMutation,
+} from "../../../redux/api/api";
+import { ncrDispositions, ncrStatuses } from "../../utils/quality";
+import { findBomForSale } from "../../utils/materialRequirements";
+
+interface AddNcrProps {
+  closeDrawerHandler: () => void;
+  inspection?: any | null;
+  editNcr?: any | null;
+  products: any[];
+  boms: any[];
+  processes: any[];
+  purchaseOrders: any[];
+  sales: any[];
+}
+
+const getId = (value: any) => value?._id || value;
+
+const toOption = (value: any, options: any[]) =>
+  options.find((option) => option.value === getId(value)) || null;
+
+const AddNcr: React.FC<AddNcrProps> = ({
+  closeDrawerHandler,
+  inspection,
+  editNcr,
+  products,
+  boms,
+  processes,
+  purchaseOrders,
+  sales,
+}) => {
+  const [createNcr] = useCreateNcrMutation();
+  const [updateNcr] = useUpdateNcrMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const productOptions = products.map((p: any) => ({
+    value: p._id,
+    label: p.name,
+  }));
+  const bomOptions = boms.map((bom: any) => ({
+    value: bom._id,
+    label: bom.bom_name,
+  }));
+  const processOptions = processes.map((p: any) => ({
+    value: p._id,
+    label: `${p?.item?.name || "N/A"} - ${p?.bom?.bom_name || "N/A"}`,
+  }));
+  const purchaseOrderOptions = purchaseOrders.map((po: any) => ({
+    value: po._id,
+    label: `${po.poOrder || "PO"} - ${po.supplierName || "N/A"}`,
+  }));
+
+  // Trace the BOM back from whichever document the inspection was made on
+  const inspectedSale = sales.find((s: any) => s._id === getId(inspection?.sale));
+  const inspectedProcess = processes.find(
+    (p: any) => p._id === getId(inspection?.production_process)
+  );
+  const initialBom =
+    editNcr?.bom ||
+    inspection?.bom ||
+    inspectedProcess?.bom ||
+    (inspectedSale ? findBomForSale(inspectedSale, boms) : undefined);
+  const inspectedPo = purchaseOrders.find(
+    (po: any) => po._id === getId(inspection?.purchase_order)
+  );
+
+  const [values, setValues] = useState<any>({
+    title: editNcr?.title || "",
+    description:
+      editNcr?.description ||
+      (inspection
+        ? `${inspection.rejected_qty || 0} rejected and ${
+            inspection.rework_qty || 0
+          } rework out of ${inspection.inspected_qty || 0} inspected.`
+        : ""),
+    severity: editNcr?.severity || "Minor",
+    disposition: editNcr?.disposition || "Rework",
+    status: editNcr?.status || "Open",
+    root_cause: editNcr?.root_cause || "",
+    corrective_action: editNcr?.corrective_action || "",
+    supplier_name:
+      editNcr?.supplier_name ||
+      inspection?.supplierName ||
+      inspectedPo?.supplierName ||
+      "",
+  });
+  const [product, setProduct] = useState<any>(
+    toOption(editNcr?.product || inspection?.product, productOptions)
+  );
+  const [bom, setBom] = useState<any>(toOption(initialBom, bomOptions));
+  const [productionProcess, setProductionProcess] = useState<any>(
+    toOption(
+      editNcr?.production_process || inspection?.production_process,
+      processOptions
+    )
+  );
+  const [purchaseOrder, setPurchaseOrder] = useState<any>(
+    toOption(
+      editNcr?.purchase_order || inspection?.purchase_order,
+      purchaseOrderOptions
+    )
+  );
+
+  const changeHandler = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
+  ) => {
+    setValues((prev: any) => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (values.status === "Closed" && !values.corrective_action.trim()) {
+      toast.error("Corrective action is required to close an NCR");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const selectedPo = purchaseOrders.find(
+        (po: any) => po._id === purchaseOrder?.value
+      );
+      const data = {
+        ...values,
+        product: product?.value,
+        bom: bom?.value,
+        production_process: productionProcess?.value,
+        purchase_order: purchaseOrder?.value,
+        supplier: getId(selectedPo?.supplier) || getId(inspection?.supplier),
+        inspection: editNcr?.inspection?._id || editNcr?.inspection || inspection?._id,
+      };
+      const response = editNcr?._id
+        ? await updateNcr({ _id: editNcr._id, ...data }).unwrap()
+        : await createNcr(data).unwrap();
+      toast.success(response?.message || "NCR saved");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[500px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editNcr ? "Update Non-Conformance" : "Raise Non-Conformance"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Title
+            </FormLabel>
+            <Input
+              name="title"
+              value={values.title}
+              onChange={changeHandler}
+              placeholder="e.g. Adhesive bleed on roll edges"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Description
+            </FormLabel>
+            <Textarea
+              name="description"
+              value={values.description}
+              onChange={changeHandler}
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <div className="grid grid-cols-2 gap-3">
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Severity
+              </FormLabel>
+              <ChakraSelect
+                name="severity"
+                value={values.severity}
+                onChange={changeHandler}
+              >
+                <option value="Minor">Minor</option>
+                <option value="Major">Major</option>
+                <option value="Critical">Critical</option>
+              </ChakraSelect>
+            </FormControl>
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Disposition
+              </FormLabel>
+              <ChakraSelect
+                name="disposition"
+                value={values.disposition}
+                onChange={changeHandler}
+              >
+                {ncrDispositions.map((disposition) => (
+                  <option key={disposition} value={disposition}>
+                    {disposition}
+                  </option>
+                ))}
+              </ChakraSelect>
+            </FormControl>
+          </div>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Product
+            </FormLabel>
+            <Select
+              isClearable
+              placeholder="Select product"
+              value={product}
+              options={productOptions}
+              onChange={(selected: any) => setProduct(selected)}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              BOM
+            </FormLabel>
+            <Select
+              isClearable
+              placeholder="Select BOM"
+              value={bom}
+              options={bomOptions}
+              onChange={(selected: any) => setBom(selected)}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Production Process
+            </FormLabel>
+            <Select
+              isClearable
+              placeholder="Select production process"
+              value={productionProcess}
+              options={processOptions}
+              onChange={(selected: any) => setProductionProcess(selected)}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Purchase Order
+            </FormLabel>
+            <Select
+              isClearable
+              placeholder="Select purchase order"
+              value={purchaseOrder}
+              options={purchaseOrderOptions}
+              onChange={(selected: any) => {
+                setPurchaseOrder(selected);
+                const po = purchaseOrders.find(
+                  (p: any) => p._id === selected?.value
+                );
+                if (po?.supplierName) {
+                  setValues((prev: any) => ({
+                    ...prev,
+                    supplier_name: po.supplierName,
+                  }));
+                }
+              }}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Supplier
+            </FormLabel>
+            <Input
+              name="supplier_name"
+              value={values.supplier_name}
+              onChange={changeHandler}
+              placeholder="Supplier"
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          {editNcr && (
+            <>
+              <FormControl className="mt-3 mb-5">
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Root Cause
+                </FormLabel>
+                <Textarea
+                  name="root_cause"
+                  value={values.root_cause}
+                  onChange={changeHandler}
+                  bg="white"
+                  borderColor="gray.300"
+                  rows={2}
+                />
+              </FormControl>
+              <FormControl className="mt-3 mb-5">
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Corrective Action
+                </FormLabel>
+                <Textarea
+                  name="corrective_action"
+                  value={values.corrective_action}
+                  onChange={changeHandler}
+                  bg="white"
+                  borderColor="gray.300"
+                  rows={2}
+                />
+              </FormControl>
+              <FormControl className="mt-3 mb-5" isRequired>
+                <FormLabel fontWeight="bold" color="gray.700">
+                  Status
+                </FormLabel>
+                <ChakraSelect
+                  name="status"
+                  value={values.status}
+                  onChange={changeHandler}
+                >
+                  {ncrStatuses.map((status) => (
+                    <option key={status} value={status}>
+                      {status}
+                    </option>
+                  ))}
+                </ChakraSelect>
+              </FormControl>
+            </>
+          )}
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddNcr;
@@ -0,0 +1,326 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import Select from "react-select";
+import { BiX } from "react-icons/bi";
+import { FiPlus, FiTrash2 } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateRequisitionMutation,
+  useUpdateRequisitionMutation,
+} from "../../../redux/api/api";
+import { RequisitionLine } from "../../utils/requisitions";
+
+interface AddRequisitionProps {
+  closeDrawerHandler: () => void;
+  rawMaterials: any[];
+  suppliers: any[];
+  initialLines?: RequisitionLine[];
+  editRequisition?: any | null;
+}
+
+const emptyLine: RequisitionLine = {
+  item_name: "",
+  quantity: 1,
+  uom: "",
+  estimated_price: 0,
+  preferred_supplier: "",
+  source: "manual",
+};
+
+const AddRequisition: React.FC<AddRequisitionProps> = ({
+  closeDrawerHandler,
+  rawMaterials,
+  suppliers,
+  initialLines,
+  editRequisition,
+}) => {
+  const [createRequisition] = useCreateRequisitionMutation();
+  const [updateRequisition] = useUpdateRequisitionMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [lines, setLines] = useState<RequisitionLine[]>(
+    editRequisition?.lines ||
+      (initialLines?.length ? initialLines : [{ ...emptyLine }])
+  );
+  const [requiredBy, setRequiredBy] = useState<string>(
+    editRequisition?.required_by
+      ? new Date(editRequisition.required_by).toISOString().slice(0, 10)
+      : ""
+  );
+  const [remarks, setRemarks] = useState<string>(
+    editRequisition?.remarks || ""
+  );
+
+  const materialOptions = rawMaterials.map((material: any) => ({
+    value: material._id,
+    label: material.name,
+    data: material,
+  }));
+  const supplierNames: string[] = Array.from(
+    new Set(
+      suppliers
+        .map((s: any) => s.supplierName || s.companyName)
+        .filter(Boolean)
+    )
+  );
+
+  const updateLine = (index: number, changes: Partial<RequisitionLine>) => {
+    setLines((prev) =>
+      prev.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validLines = lines.filter(
+      (line) => line.item_name.trim() && +line.quantity > 0
+    );
+    if (validLines.length === 0) {
+      toast.error("Please add at least one line with a quantity");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const data = {
+        lines: validLines.map((line) => ({
+          ...line,
+          quantity: +line.quantity,
+          estimated_price: +(line.estimated_price || 0),
+        })),
+        required_by: requiredBy || undefined,
+        remarks,
+      };
+      // Editing sends the requisition back for approval
+      const response = editRequisition?._id
+        ? await updateRequisition({
+            _id: editRequisition._id,
+            ...data,
+            status: "Pending Approval",
+          }).unwrap()
+        : await createRequisition({
+            ...data,
+            status: "Pending Approval",
+          }).unwrap();
+      toast.success(response?.message || "Requisition submitted for approval");
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[650px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editRequisition ? "Edit Requisition" : "New Purchase Requisition"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Lines
+            </FormLabel>
+            <div className="space-y-3">
+              {lines.map((line, index) => (
+                <div
+                  key={index}
+                  className="p-3 border rounded-lg space-y-2"
+                  style={{ borderColor: colors.border.light }}
+                >
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1">
+                      {line.source === "shortage" ? (
+                        <p className="text-sm font-medium">
+                          {line.item_name}
+                          {line.bom_name && (
+                            <span className="text-xs text-gray-500">
+                              {" "}
+                              (shortage for {line.bom_name})
+                            </span>
+                          )}
+                        </p>
+                      ) : (
+                        <Select
+                          placeholder="Select raw material"
+                          value={
+                            materialOptions.find(
+                              (option) => option.value === line.item
+                            ) ||
+                            (line.item_name
+                              ? { value: "", label: line.item_name }
+                              : null)
+                          }
+                          options={materialOptions}
+                          onChange={(selected: any) =>
+                            updateLine(index, {
+                              item: selected?.value,
+                              item_name: selected?.label || "",
+                              uom: selected?.data?.uom || "",
+                              estimated_price: selected?.data?.price || 0,
+                            })
+                          }
+                        />
+                      )}
+                    </div>
+                    {lines.length > 1 && (
+                      <button
+                        type="button"
+                        className="p-2 text-red-600"
+                        onClick={() =>
+                          setLines((prev) => prev.filter((_, i) => i !== index))
+                        }
+                      >
+                        <FiTrash2 />
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">
+                        Quantity {line.uom ? `(${line.uom})` : ""}
+                      </p>
+                      <Input
+                        size="sm"
+                        type="number"
+                        min={0}
+                        value={line.quantity}
+                        onChange={(e) =>
+                          updateLine(index, { quantity: +e.target.value })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">
+                        Est. Unit Price
+                      </p>
+                      <Input
+                        size="sm"
+                        type="number"
+                        min={0}
+                        value={line.estimated_price}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            estimated_price: +e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">
+                        Preferred Supplier
+                      </p>
+                      <ChakraSelect
+                        size="sm"
+                        value={line.preferred_supplier}
+                        onChange={(e) =>
+                          updateLine(index, {
+                            preferred_supplier: e.target.value,
+                          })
+                        }
+                        placeholder="Any"
+                      >
+                        {supplierNames.map((name) => (
+                          <option key={name} value={name}>
+                            {name}
+                          </option>
+                        ))}
+                      </ChakraSelect>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                leftIcon={<FiPlus />}
+                onClick={() => setLines((prev) => [...prev, { ...emptyLine }])}
+              >
+                Add Manual Line
+              </Button>
+            </div>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Required By
+            </FormLabel>
+            <Input
+              type="date"
+              value={requiredBy}
+              onChange={(e) => setRequiredBy(e.target.value)}
+              bg="white"
+              borderColor="gray.300"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Remarks
+            </FormLabel>
+            <Textarea
+              value={remarks}
+              onChange={(e) => setRemarks(e.target.value)}
+              placeholder="Remarks"
+              bg="white"
+              borderColor="gray.300"
+              rows={3}
+            />
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit For Approval
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddRequisition;
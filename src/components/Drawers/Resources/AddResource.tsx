@@ -14,8 +14,10 @@ import { BiX } from "react-icons/bi";
 import { colors } from "../../../theme/colors";
 import { toast } from "react-toastify";
 import { useFormik } from "formik";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useCreateResourceMutation,
+  useUpdateResourceMutation,
+} from "../../../redux/api/api";
 
 interface Resource {
   _id: string;
@@ -69,7 +71,8 @@ const AddResource = ({
   editResource,
 }: AddResourceProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [cookies] = useCookies();
+  const [createResource] = useCreateResourceMutation();
+  const [updateResource] = useUpdateResourceMutation();
   const [localEditResource] = useState(editResource);
   const [typeOptions, setTypeOptions] = useState([
     { value: "machine", label: "Machine" },
@@ -121,44 +124,30 @@ const AddResource = ({
 
         let res;
         if (localEditResource) {
-          res = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}resources/${localEditResource._id}`,
-            values,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          res = await updateResource({
+            _id: localEditResource._id,
+            ...values,
+          }).unwrap();
           toast.success("Resource updated successfully");
 
           fetchResourcesHandler();
         } else {
-          res = await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}resources/`,
-            values,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
+          res = await createResource(values).unwrap();
           toast.success("Resource created successfully");
 
           if (onResourceCreated) {
-            onResourceCreated(res.data.resource);
+            onResourceCreated(res.resource);
           }
         }
 
         if (onResourceCreated) {
-          onResourceCreated(res.data.resource);
+          onResourceCreated(res.resource);
         }
 
-        console.log(res.data);
         resetForm();
         closeDrawerHandler();
       } catch (error) {
-        toast.error("Failed to create/update resource");
+        toast.error(error?.message || "Failed to create/update resource");
       } finally {
         setIsSubmitting(false);
       }
@@ -1,6 +1,6 @@
 // @ts-nocheck
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useCookies } from "react-cookie";
 import { BiX } from "react-icons/bi";
 import axios from "axios";
@@ -18,13 +18,75 @@ import {
   Calculator,
   MessageSquare,
   IndianRupee,
+  CalendarDays,
+  Plus,
+  Trash2,
 } from "lucide-react";
 import { toast } from "react-toastify";
+import {
+  useAutoCreateBomMutation,
+  useCreateRequisitionMutation,
+  useCreateSaleMutation,
+  useLazyFetchBomsQuery,
+  useLazyFetchPartiesQuery,
+  useLazyFetchProductsQuery,
+  useUpdateSaleMutation,
+} from "../../../redux/api/api";
+import {
+  GST_RATES,
+  getLineTotal,
+  getSaleItems,
+  getSaleTotals,
+} from "../../utils/salesOrders";
+import {
+  explodeBom,
+  findBomForProduct,
+  getPurchaseShortages,
+} from "../../utils/materialRequirements";
+import { useCan } from "../../utils/permissions";
+
+const emptyLine = {
+  product_id: "",
+  quantity: "",
+  price: "",
+  GST: "",
+  uom: "",
+  delivery_date: "",
+};
+
+const getInitialItems = (sale) => {
+  const items = getSaleItems(sale);
+  if (items.length === 0) return [emptyLine];
+  return items.map((item) => ({
+    product_id: item.product_id,
+    quantity: item.quantity || "",
+    price: item.price || "",
+    GST: item.GST ? String(item.GST) : "",
+    uom: item.uom || "",
+    delivery_date: item.delivery_date?.slice(0, 10) || "",
+  }));
+};
+
 const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
   const [cookies] = useCookies();
+  const [createSale] = useCreateSaleMutation();
+  const [updateSale] = useUpdateSaleMutation();
+  const [fetchParties] = useLazyFetchPartiesQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [autoCreateBom] = useAutoCreateBomMutation();
+  const [createRequisition] = useCreateRequisitionMutation();
+  const can = useCan();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [partiesData, setpartiesData] = useState([]);
   const [products, setProducts] = useState([]);
+  // Every product, for the stock of raw materials and sub-assemblies
+  const [allProducts, setAllProducts] = useState([]);
+  const [boms, setBoms] = useState([]);
+  const [raiseProduction, setRaiseProduction] = useState(false);
+  // Set when raising production failed after the sale was saved, with the
+  // steps still to do so a retry does not repeat the sale or earlier BOMs
+  const [pendingProduction, setPendingProduction] = useState(null);
   const [imagePreview, setImagePreview] = useState(null);
   const [imagesfile, setImageFile] = useState(null);
   const [bomFile, setBomFile] = useState(null);
@@ -58,14 +120,10 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
   } = useFormik({
     initialValues: {
       party: editTable?.party?._id || "",
-      product_id: editTable?.product_id[0]?._id || "",
-      price: editTable?.price || "",
-      product_qty: editTable?.product_qty || "",
+      items: getInitialItems(editTable),
       product_type: editTable?.product_type || "finished goods",
-      GST: editTable?.GST || "",
       comment: editTable?.comment || "",
       terms_of_delivery: editTable?.terms_of_delivery || "",
-      uom: editTable?.uom || "",
       productFile: editTable?.productFile || "",
       bompdf: editTable?.bompdf || "",
       mode_of_payment: editTable?.mode_of_payment || "",
@@ -73,7 +131,7 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
     enableReinitialize: true,
     validationSchema: SalesFormValidation,
     onSubmit: async (value) => {
-      if (isSubmitting) return;
+      if (isSubmitting || pendingProduction) return;
       setIsSubmitting(true);
       //    console.log("form Values",value)
       try {
@@ -104,37 +162,33 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
           bomImageUrl = uploadedBom;
         }
 
+        const items = value.items.map((item) => ({
+          ...item,
+          quantity: +item.quantity,
+          price: +item.price,
+          GST: +item.GST,
+        }));
         const payload = {
           ...value,
+          items,
+          total_price: +getSaleTotals(items).total.toFixed(2),
           productFile: productImageUrl,
           bompdf: bomImageUrl,
         };
 
-
-
         if (editTable?._id) {
-          const response = await axios.put(
-            `${process.env.REACT_APP_BACKEND_URL}sale/update/${editTable._id}`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
-            }
-          );
-          console.log(response.data);
+          await updateSale({ _id: editTable._id, ...payload }).unwrap();
         } else {
-          const res = await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}sale/create`,
-            payload,
-            {
-              headers: {
-                Authorization: `Bearer ${cookies?.access_token}`,
-              },
+          const response = await createSale(payload).unwrap();
+          if (canRaiseProduction && raiseProduction) {
+            const raised = await raiseProductionHandler(
+              buildProductionJob(response?.data)
+            );
+            if (!raised) {
+              await fetchPurchases();
+              return;
             }
-          );
-
-          console.log(res)
+          }
         }
 
         // Refresh data before closing modal to ensure updated data is displayed
@@ -144,13 +198,10 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
           `Sale ${editTable?._id ? "updated" : "created"} successfully`
         );
 
-        resetForm();
-        setImageFile(null);
-        setImagePreview(null);
-        setShow(false);
+        closeHandler();
       } catch (error) {
         console.error("Error saving sale:", error);
-        toast.error("Something went wrong. Please try again.");
+        toast.error(error?.message || "Something went wrong. Please try again.");
       } finally {
         setIsSubmitting(false);
       }
@@ -159,45 +210,139 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
   // console.log(products)
   const fetchDropdownData = async () => {
     try {
-      const [partiesRes, productRes] = await Promise.all([
-        axios.get(`${process.env.REACT_APP_BACKEND_URL}parties/get`, {
-          headers: { Authorization: `Bearer ${cookies.access_token}` },
-        }),
-        axios.get(`${process.env.REACT_APP_BACKEND_URL}product/all`, {
-          headers: { Authorization: `Bearer ${cookies.access_token}` },
-        }),
+      const [partiesRes, productRes, bomRes] = await Promise.all([
+        fetchParties({}).unwrap(),
+        fetchProducts({}).unwrap(),
+        fetchBoms({}).unwrap(),
       ]);
 
-      const filteredProducts = (productRes.data.products || []).filter(
+      const filteredProducts = (productRes?.products || []).filter(
         (product: any) => product?.category === "finished goods"
       );
 
 
 
 
-      setpartiesData(partiesRes?.data?.data || []);
+      setpartiesData(partiesRes?.data || []);
       setProducts(filteredProducts || []);
+      setAllProducts(productRes?.products || []);
+      setBoms(bomRes?.boms || []);
     } catch (error) {
       console.log("testing data", error);
       toast.error("Failed to fetch data for dropdowns.");
     }
   };
   console.log(partiesData)
-  // const PostDataAutoCreateBom = async (productId, quantity) => {
-  //   console.log("product Id", productId);
-  //   console.log("product quantity", quantity);
-  //   try {
-  //     const res = await axios.get(
-  //       `${process.env.REACT_APP_BACKEND_URL}bom/autobom?product_id=${productId}&quantity=${quantity}&`,
-  //       {
-  //         headers: { Authorization: `Bearer ${cookies?.access_token}` },
-  //       }
-  //     );
-  //     console.log("Auto BOM created:", res?.data);
-  //   } catch (error) {
-  //     console.log("Auto BOM creation failed:", error);
-  //   }
-  // };
+
+  const totals = getSaleTotals(getSaleItems(values));
+
+  const addLineHandler = () =>
+    setFieldValue("items", [...values.items, emptyLine]);
+
+  const removeLineHandler = (index) =>
+    setFieldValue(
+      "items",
+      values.items.filter((_, i) => i !== index)
+    );
+
+  const productChangeHandler = (index, productId) => {
+    const selectedProduct = products.find((prod) => prod._id === productId);
+    setFieldValue(`items.${index}.product_id`, productId);
+    setFieldValue(`items.${index}.uom`, selectedProduct?.uom || "");
+  };
+
+  // Lines share one stock pool, so two lines using the same material do not
+  // both count the same stock as available
+  const explosions = useMemo(() => {
+    const allocated = {};
+    return values.items.map((item) => {
+      const quantity = +item.quantity || 0;
+      if (!item.product_id || quantity <= 0) return null;
+      const bom = findBomForProduct(item.product_id, boms);
+      return {
+        bom,
+        product_id: item.product_id,
+        quantity,
+        materials: bom
+          ? explodeBom(item.product_id, quantity, boms, allProducts, allocated)
+          : [],
+      };
+    });
+  }, [values.items, boms, allProducts]);
+
+  const shortages = getPurchaseShortages(
+    explosions.flatMap((explosion) => explosion?.materials || [])
+  );
+
+  const canRaiseProduction =
+    !editTable?._id &&
+    explosions.some((explosion) => explosion?.bom) &&
+    (can("production", "create") ||
+      (shortages.length > 0 && can("procurement", "create")));
+
+  const closeHandler = () => {
+    resetForm();
+    setImageFile(null);
+    setImagePreview(null);
+    setPendingProduction(null);
+    setShow(false);
+  };
+
+  const buildProductionJob = (sale) => ({
+    sale,
+    bomLines: can("production", "create")
+      ? explosions
+          .filter((explosion) => explosion?.bom)
+          .map(({ product_id, quantity }) => ({ product_id, quantity }))
+      : [],
+    shortages: can("procurement", "create") ? shortages : [],
+  });
+
+  // The sale is already saved here, so a failed step is kept in
+  // pendingProduction with what is left, for the user to retry
+  const raiseProductionHandler = async (job) => {
+    let bomLines = job.bomLines;
+    try {
+      while (bomLines.length > 0) {
+        await autoCreateBom({
+          ...bomLines[0],
+          sale_id: job.sale?._id,
+        }).unwrap();
+        bomLines = bomLines.slice(1);
+      }
+      if (job.shortages.length > 0) {
+        await createRequisition({
+          lines: job.shortages,
+          status: "Pending Approval",
+          remarks: `Material shortages for sales order ${
+            job.sale?.order_id || ""
+          }`.trim(),
+        }).unwrap();
+      }
+      setPendingProduction(null);
+      return true;
+    } catch (error) {
+      const step =
+        bomLines.length > 0 ? "the production BOM" : "the requisition";
+      const message = error?.data?.message || error?.message || "unknown error";
+      toast.warning(`Sale saved, but ${step} could not be created: ${message}`);
+      setPendingProduction({ ...job, bomLines, step, message });
+      return false;
+    }
+  };
+
+  const retryProductionHandler = async () => {
+    if (!pendingProduction || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      if (await raiseProductionHandler(pendingProduction)) {
+        toast.success("Production documents created");
+        closeHandler();
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
   useEffect(() => {
     fetchDropdownData();
@@ -282,59 +427,295 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
                 )}
               </div>
 
-              {/* Product Selection */}
-              <div className="space-y-2">
-                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <Package className="h-4 w-4 text-gray-500" />
-                  Product *
-                </label>
-                <select
-                  required
-                  name="product_id"
-                  value={values.product_id}
-                  onChange={(e) => {
-                    const selectedProductId = e.target.value;
-                    const selectedProduct = products.find(
-                      (prod) => prod._id === selectedProductId
-                    );
-                    setFieldValue("product_id", selectedProductId);
-                    if (selectedProduct?.uom) {
-                      setFieldValue("uom", selectedProduct.uom);
-                    } else {
-                      setFieldValue("uom", "");
-                    }
-                  }}
-                  onBlur={handleBlur}
-                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white text-gray-900"
-                >
-                  <option value="">Select a product</option>
-                  {products.map((product: any) => (
-                    <option key={product?._id} value={product?._id}>
-                      {product?.name}
-                    </option>
-                  ))}
-                </select>
-                {touched.product_id && errors.product_id && (
-                  <p className="text-red-500 text-sm">{errors.product_id}</p>
+              {/* Line Items */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                    <Package className="h-4 w-4 text-gray-500" />
+                    Products *
+                  </label>
+                  <button
+                    type="button"
+                    onClick={addLineHandler}
+                    className="inline-flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Line
+                  </button>
+                </div>
+
+                {values.items.map((item, index) => {
+                  const itemErrors = errors.items?.[index] || {};
+                  const itemTouched = touched.items?.[index] || {};
+                  return (
+                    <div
+                      key={index}
+                      className="border border-gray-200 rounded-lg p-4 space-y-3"
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-700">
+                          Line {index + 1}
+                        </span>
+                        {values.items.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => removeLineHandler(index)}
+                            className="p-1 text-red-500 hover:bg-red-50 rounded"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+
+                      <div className="space-y-1">
+                        <select
+                          name={`items.${index}.product_id`}
+                          value={item.product_id}
+                          onChange={(e) =>
+                            productChangeHandler(index, e.target.value)
+                          }
+                          onBlur={handleBlur}
+                          className="w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white text-gray-900"
+                        >
+                          <option value="">Select a product</option>
+                          {products.map((product: any) => (
+                            <option key={product?._id} value={product?._id}>
+                              {product?.name}
+                            </option>
+                          ))}
+                        </select>
+                        {itemTouched.product_id && itemErrors.product_id && (
+                          <p className="text-red-500 text-sm">
+                            {itemErrors.product_id}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1">
+                          <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                            <Hash className="h-3 w-3 text-gray-500" />
+                            Quantity{item.uom ? ` (${item.uom})` : ""}
+                          </label>
+                          <input
+                            type="number"
+                            name={`items.${index}.quantity`}
+                            value={item.quantity}
+                            onChange={handleChange}
+                            onBlur={handleBlur}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                            placeholder="Enter quantity"
+                          />
+                          {itemTouched.quantity && itemErrors.quantity && (
+                            <p className="text-red-500 text-sm">
+                              {itemErrors.quantity}
+                            </p>
+                          )}
+                        </div>
+                        <div className="space-y-1">
+                          <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                            <IndianRupee className="h-3 w-3 text-gray-500" />
+                            Price
+                          </label>
+                          <input
+                            type="number"
+                            name={`items.${index}.price`}
+                            value={item.price}
+                            onChange={handleChange}
+                            onBlur={handleBlur}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                            placeholder="Enter price"
+                          />
+                          {itemTouched.price && itemErrors.price && (
+                            <p className="text-red-500 text-sm">
+                              {itemErrors.price}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="space-y-1">
+                        <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                          <Calculator className="h-3 w-3 text-gray-500" />
+                          GST Rate
+                        </label>
+                        <div className="grid grid-cols-3 gap-3">
+                          {GST_RATES.map((rate) => (
+                            <label
+                              key={rate}
+                              className={`flex items-center justify-center p-2 border-2 rounded-lg cursor-pointer transition-all duration-200 ${item.GST === String(rate)
+                                  ? "border-blue-500 bg-blue-50 text-blue-700"
+                                  : "border-gray-300 hover:border-gray-400"
+                                }`}
+                            >
+                              <input
+                                type="radio"
+                                name={`items.${index}.GST`}
+                                value={rate}
+                                checked={item.GST === String(rate)}
+                                onChange={handleChange}
+                                onBlur={handleBlur}
+                                className="sr-only"
+                              />
+                              <span className="font-medium">{rate}%</span>
+                            </label>
+                          ))}
+                        </div>
+                        {itemTouched.GST && itemErrors.GST && (
+                          <p className="text-red-500 text-sm">
+                            {itemErrors.GST}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-2 gap-3 items-end">
+                        <div className="space-y-1">
+                          <label className="flex items-center gap-2 text-xs font-medium text-gray-600">
+                            <CalendarDays className="h-3 w-3 text-gray-500" />
+                            Delivery Date
+                          </label>
+                          <input
+                            type="date"
+                            name={`items.${index}.delivery_date`}
+                            value={item.delivery_date}
+                            onChange={handleChange}
+                            onBlur={handleBlur}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                          />
+                        </div>
+                        <p className="text-sm text-right text-gray-700">
+                          Line Total:{" "}
+                          <span className="font-semibold">
+                            ₹
+                            {getLineTotal(
+                              getSaleItems({ items: [item] })[0]
+                            ).toFixed(2)}
+                          </span>
+                        </p>
+                      </div>
+
+                      {explosions[index] && (
+                        <div className="rounded-lg bg-gray-50 border border-gray-200 p-3 space-y-2">
+                          <div className="flex items-center justify-between text-xs">
+                            <span className="font-medium text-gray-700">
+                              Material Requirements
+                            </span>
+                            <span className="text-gray-500">
+                              {explosions[index].bom?.bom_name ||
+                                "No BOM found"}
+                            </span>
+                          </div>
+                          {explosions[index].materials.length > 0 && (
+                            <table className="w-full text-xs">
+                              <thead>
+                                <tr className="text-gray-500">
+                                  <th className="text-left font-medium py-1">
+                                    Material
+                                  </th>
+                                  <th className="text-right font-medium py-1">
+                                    Required
+                                  </th>
+                                  <th className="text-right font-medium py-1">
+                                    Available
+                                  </th>
+                                  <th className="text-right font-medium py-1">
+                                    Shortage
+                                  </th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {explosions[index].materials.map(
+                                  (material, materialIndex) => (
+                                    <tr
+                                      key={`${material.item_id}-${materialIndex}`}
+                                      className="border-t border-gray-200 text-gray-700"
+                                    >
+                                      <td
+                                        className="py-1"
+                                        style={{
+                                          paddingLeft: `${
+                                            (material.level - 1) * 12
+                                          }px`,
+                                        }}
+                                      >
+                                        {material.name}
+                                        {material.is_assembly && (
+                                          <span className="ml-1 text-gray-400">
+                                            (sub-assembly)
+                                          </span>
+                                        )}
+                                      </td>
+                                      <td className="py-1 text-right">
+                                        {material.required_qty}{" "}
+                                        {material.uom || ""}
+                                      </td>
+                                      <td className="py-1 text-right">
+                                        {material.available_qty}
+                                      </td>
+                                      <td
+                                        className={`py-1 text-right ${
+                                          material.shortage_qty > 0
+                                            ? "text-red-600 font-medium"
+                                            : "text-green-600"
+                                        }`}
+                                      >
+                                        {material.shortage_qty}
+                                      </td>
+                                    </tr>
+                                  )
+                                )}
+                              </tbody>
+                            </table>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+                {typeof errors.items === "string" && (
+                  <p className="text-red-500 text-sm">{errors.items}</p>
                 )}
-              </div>
 
-              {/* UOM Field */}
-              <div className="space-y-2">
-                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <Calculator className="h-4 w-4 text-gray-500" />
-                  Unit of Measurement (UOM)
-                </label>
-                <input
-                  type="text"
-                  name="uom"
-                  value={values.uom}
-                  readOnly
-                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg bg-gray-50 text-gray-500 cursor-not-allowed"
-                  placeholder="Auto-filled from product selection"
-                />
+                {/* Order Total */}
+                <div className="rounded-lg bg-gray-50 border border-gray-200 p-4 space-y-1 text-sm text-gray-700">
+                  <div className="flex justify-between">
+                    <span>Subtotal</span>
+                    <span>₹{totals.subtotal.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span>GST</span>
+                    <span>₹{totals.gst.toFixed(2)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-gray-900">
+                    <span>Order Total</span>
+                    <span>₹{totals.total.toFixed(2)}</span>
+                  </div>
+                </div>
+
+                {canRaiseProduction && (
+                  <label className="flex items-start gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={raiseProduction}
+                      onChange={(e) => setRaiseProduction(e.target.checked)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      Create{" "}
+                      {[
+                        can("production", "create") && "the production BOM",
+                        shortages.length > 0 &&
+                          can("procurement", "create") &&
+                          `a requisition for ${shortages.length} short material${
+                            shortages.length > 1 ? "s" : ""
+                          }`,
+                      ]
+                        .filter(Boolean)
+                        .join(" and ")}
+                    </span>
+                  </label>
+                )}
               </div>
-              {/* </div> */}
 
               {/* <div className="grid grid-cols-1 sm:grid-cols-2 gap-4"> */}
               {/* Product Image Upload */}
@@ -421,82 +802,6 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
               </div>
               {/* </div> */}
 
-              {/* <div className="grid grid-cols-1 sm:grid-cols-3 gap-4"> */}
-              {/* Price and Quantity Row */}
-              <div className="space-y-2">
-                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <IndianRupee className="h-4 w-4 text-gray-500" />
-                  Price *
-                </label>
-                <input
-                  type="number"
-                  name="price"
-                  value={values.price}
-                  onChange={handleChange}
-                  onBlur={handleBlur}
-                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="Enter price"
-                  required
-                />
-                {touched.price && errors.price && (
-                  <p className="text-red-500 text-sm">{errors.price}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <Hash className="h-4 w-4 text-gray-500" />
-                  Quantity *
-                </label>
-                <input
-                  type="number"
-                  name="product_qty"
-                  value={values.product_qty}
-                  onChange={handleChange}
-                  onBlur={handleBlur}
-                  className="w-full px-3 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="Enter quantity"
-                  required
-                />
-                {touched.product_qty && errors.product_qty && (
-                  <p className="text-red-500 text-sm">{errors.product_qty}</p>
-                )}
-              </div>
-
-              {/* GST Selection */}
-              <div className="space-y-3">
-                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
-                  <Calculator className="h-4 w-4 text-gray-500" />
-                  GST Rate *
-                </label>
-                <div className="grid grid-cols-3 gap-3">
-                  {[18, 12, 5].map((rate) => (
-                    <label
-                      key={rate}
-                      className={`flex items-center justify-center p-2 border-2 rounded-lg cursor-pointer transition-all duration-200 ${values.GST === String(rate)
-                          ? "border-blue-500 bg-blue-50 text-blue-700"
-                          : "border-gray-300 hover:border-gray-400"
-                        }`}
-                    >
-                      <input
-                        type="radio"
-                        name="GST"
-                        value={rate}
-                        checked={values.GST === String(rate)}
-                        onChange={handleChange}
-                        onBlur={handleBlur}
-                        className="sr-only"
-                      />
-                      <span className="font-medium">{rate}%</span>
-                    </label>
-                  ))}
-                </div>
-                {touched.GST && errors.GST && (
-                  <p className="text-red-500 text-sm">{errors.GST}</p>
-                )}
-              </div>
-              {/* </div> */}
-
               {/* Mode of Payment */}
               <div className="space-y-2">
                 <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
@@ -562,34 +867,54 @@ const AddNewSale = ({ show, setShow, fetchPurchases, editTable }) => {
 
           {/* Footer Actions */}
           <div className="border-t border-gray-200 p-6 bg-gray-50">
+            {pendingProduction && (
+              <p className="mb-3 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                Sale {pendingProduction.sale?.order_id || ""} is saved, but{" "}
+                {pendingProduction.step} could not be created:{" "}
+                {pendingProduction.message}
+              </p>
+            )}
             <div className="flex gap-3">
               <button
                 type="button"
-                onClick={() => setShow(false)}
+                onClick={
+                  pendingProduction ? closeHandler : () => setShow(false)
+                }
                 className="flex-1 px-4 py-2.5 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 font-medium transition-colors duration-200"
               >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                disabled={isSubmitting}
-                onClick={handleSubmit}
-                className={`flex-1 px-4 py-2.5 rounded-lg font-medium transition-all duration-200 ${isSubmitting
-                    ? "bg-gray-400 text-white cursor-not-allowed"
-                    : "bg-blue-500 hover:bg-blue-600 text-white shadow-sm hover:shadow-md"
-                  }`}
-              >
-                {isSubmitting ? (
-                  <div className="flex items-center justify-center gap-2">
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                    {editTable ? "Updating..." : "Creating..."}
-                  </div>
-                ) : editTable ? (
-                  "Update Sale"
-                ) : (
-                  "Create Sale"
-                )}
+                {pendingProduction ? "Close" : "Cancel"}
               </button>
+              {pendingProduction ? (
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={retryProductionHandler}
+                  className="flex-1 px-4 py-2.5 rounded-lg font-medium bg-yellow-500 hover:bg-yellow-600 text-white disabled:opacity-50 transition-colors duration-200"
+                >
+                  {isSubmitting ? "Retrying..." : "Retry"}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  onClick={handleSubmit}
+                  className={`flex-1 px-4 py-2.5 rounded-lg font-medium transition-all duration-200 ${isSubmitting
+                      ? "bg-gray-400 text-white cursor-not-allowed"
+                      : "bg-blue-500 hover:bg-blue-600 text-white shadow-sm hover:shadow-md"
+                    }`}
+                >
+                  {isSubmitting ? (
+                    <div className="flex items-center justify-center gap-2">
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                      {editTable ? "Updating..." : "Creating..."}
+                    </div>
+                  ) : editTable ? (
+                    "Update Sale"
+                  ) : (
+                    "Create Sale"
+                  )}
+                </button>
+              )}
             </div>
           </div>
         </div>
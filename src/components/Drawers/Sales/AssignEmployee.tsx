@@ -1,8 +1,6 @@
 // @ts-nocheck
 
 import { useEffect, useState } from "react";
-import axios from "axios";
-import { useCookies } from "react-cookie";
 import { Text, Badge, Button, HStack } from "@chakra-ui/react";
 import { toast } from "react-toastify";
 import { FaEdit } from "react-icons/fa";
@@ -10,6 +8,11 @@ import { MdDelete } from "react-icons/md";
 import { useFormik } from "formik";
 import { AssignFormValidation } from "../../../Validation/SalesformValidation";
 import { colors } from "../../../theme/colors";
+import {
+  useCreateAssignmentMutation,
+  useDeleteAssignmentMutation,
+  useUpdateAssignmentMutation,
+} from "../../../redux/api/api";
 import {
   UserPlus,
   Users,
@@ -39,8 +42,9 @@ const AssignEmployee = ({
 
   const [isEditMode, setIsEditMode] = useState(false);
   const [editTaskId, setEditTaskId] = useState(null);
-  const [cookies] = useCookies(["access_token"]);
-  const token = cookies?.access_token;
+  const [createAssignment] = useCreateAssignmentMutation();
+  const [updateAssignment] = useUpdateAssignmentMutation();
+  const [deleteAssignment] = useDeleteAssignmentMutation();
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const {
@@ -65,29 +69,13 @@ const AssignEmployee = ({
       if (isSubmitting) return;
       setIsSubmitting(true);
       try {
-        if (!token) throw new Error("Authentication token not found");
-
         if (isEditMode && editTaskId) {
-          const res = await axios.patch(
-            `${process.env.REACT_APP_BACKEND_URL}assined/update/${editTaskId}`,
-            value,
-            {
-              headers: { Authorization: `Bearer ${token}` },
-            }
-          );
-          // console.log(res)
+          await updateAssignment({ _id: editTaskId, ...value }).unwrap();
           toast.success("Task updated successfully");
           setIsEditMode(false);
           setEditTaskId(null);
         } else {
-          const res = await axios.post(
-            `${process.env.REACT_APP_BACKEND_URL}assined/create`,
-            value,
-            {
-              headers: { Authorization: `Bearer ${token}` },
-            }
-          );
-          console.log(res);
+          await createAssignment(value).unwrap();
           toast.success("Task assigned successfully");
         }
         fetchPurchases();
@@ -122,18 +110,13 @@ const AssignEmployee = ({
 
   const handleDelete = async (id) => {
     try {
-      await axios.delete(
-        `${process.env.REACT_APP_BACKEND_URL}assined/delete/${id}`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
+      await deleteAssignment(id).unwrap();
 
       toast.success("Task deleted successfully");
       handleClose();
       setTasks("");
     } catch (error) {
-      toast.error("Failed to remove assigned task");
+      toast.error(error?.message || "Failed to remove assigned task");
     }
   };
 
@@ -0,0 +1,160 @@
+import { useEffect } from "react";
+import { toast } from "react-toastify";
+import { BiX } from "react-icons/bi";
+import Drawer from "../../../ui/Drawer";
+import Loading from "../../../ui/Loading";
+import { colors } from "../../../theme/colors";
+import { useLazySaleDetailsQuery } from "../../../redux/api/api";
+import RecordTabs from "../../Audit/RecordTabs";
+import {
+  formatDeliveryDate,
+  getLineTotal,
+  getSaleItems,
+  getSaleTotals,
+} from "../../utils/salesOrders";
+
+interface SaleDetailsProps {
+  closeDrawerHandler: () => void;
+  saleId: string | undefined;
+}
+
+const SaleDetails: React.FC<SaleDetailsProps> = ({
+  closeDrawerHandler,
+  saleId,
+}) => {
+  const [fetchSale, { data, isFetching }] = useLazySaleDetailsQuery();
+  const sale = data?.data;
+  const items = getSaleItems(sale);
+  const totals = getSaleTotals(items);
+
+  useEffect(() => {
+    if (!saleId) return;
+    fetchSale(saleId)
+      .unwrap()
+      .catch((error: any) =>
+        toast.error(error?.message || "Something went wrong")
+      );
+  }, [saleId, fetchSale]);
+
+  const fields = [
+    { label: "Sale ID", value: sale?.order_id },
+    {
+      label: "Merchant",
+      value: sale?.party?.company_name || sale?.party?.consignee_name?.[0],
+    },
+    { label: "Status", value: sale?.Status },
+    {
+      label: "Created On",
+      value: sale?.createdAt
+        ? new Date(sale.createdAt).toLocaleDateString()
+        : undefined,
+    },
+    { label: "Payment Mode", value: sale?.mode_of_payment },
+    {
+      label: "Total (Incl. GST)",
+      value: `₹${(sale?.total_price ?? totals.total).toLocaleString()}`,
+    },
+  ];
+
+  return (
+    <Drawer closeDrawerHandler={closeDrawerHandler}>
+      <div
+        className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[650px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+        style={{ boxShadow: colors.shadow.xl }}
+      >
+        <div
+          className="flex items-center justify-between p-6 border-b"
+          style={{ borderColor: colors.border.light }}
+        >
+          <h1
+            className="text-xl font-semibold"
+            style={{ color: colors.text.primary }}
+          >
+            Sales Order {sale?.order_id || ""}
+          </h1>
+          <button
+            onClick={closeDrawerHandler}
+            className="p-2 rounded-lg"
+            style={{
+              color: colors.text.secondary,
+              backgroundColor: colors.gray[100],
+            }}
+          >
+            <BiX size={20} />
+          </button>
+        </div>
+
+        <div className="mt-6 px-5 pb-6">
+          <RecordTabs module="sale" recordId={saleId}>
+            {isFetching ? (
+              <Loading />
+            ) : (
+              <div className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {fields.map((field) => (
+                    <div key={field.label}>
+                      <p
+                        className="text-xs"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        {field.label}
+                      </p>
+                      <p className="text-sm font-medium">
+                        {field.value || "N/A"}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="overflow-x-auto border rounded-lg">
+                  <table className="min-w-full text-sm">
+                    <thead style={{ backgroundColor: colors.table.header }}>
+                      <tr>
+                        <th className="px-3 py-2 text-left">Product</th>
+                        <th className="px-3 py-2 text-right">Quantity</th>
+                        <th className="px-3 py-2 text-right">Price</th>
+                        <th className="px-3 py-2 text-right">GST</th>
+                        <th className="px-3 py-2 text-left">Delivery</th>
+                        <th className="px-3 py-2 text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((line, index) => (
+                        <tr
+                          key={`${line.product_id}-${index}`}
+                          className="border-t"
+                          style={{ borderColor: colors.border.light }}
+                        >
+                          <td className="px-3 py-2 font-medium">
+                            {line.name || "N/A"}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {line.quantity} {line.uom || ""}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            ₹{line.price}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {line.GST}%
+                          </td>
+                          <td className="px-3 py-2">
+                            {formatDeliveryDate(line.delivery_date)}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            ₹{getLineTotal(line).toLocaleString()}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </RecordTabs>
+        </div>
+      </div>
+    </Drawer>
+  );
+};
+
+export default SaleDetails;
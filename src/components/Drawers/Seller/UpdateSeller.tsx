@@ -3,8 +3,10 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { toast } from "react-toastify";
-import { useUpdateAgentMutation } from "../../../redux/api/api";
-import { useCookies } from "react-cookie";
+import {
+  useLazyAgentDetailsQuery,
+  useUpdateAgentMutation,
+} from "../../../redux/api/api";
 import Loading from "../../../ui/Loading";
 
 interface UpdateSellerProps {
@@ -18,7 +20,7 @@ const UpdateSeller: React.FC<UpdateSellerProps> = ({
   fetchSellersHandler,
   sellerId,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchAgentDetails] = useLazyAgentDetailsQuery();
   const [isUpdatingSeller, setIsUpdatingSeller] = useState<boolean>(false);
   const [isLoadingSeller, setIsLoadingSeller] = useState<boolean>(false);
   const [name, setName] = useState<string | undefined>();
@@ -38,6 +40,7 @@ const UpdateSeller: React.FC<UpdateSellerProps> = ({
 
   const updateSellerHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!sellerId) return;
 
     if (
       !name ||
@@ -92,21 +95,10 @@ const UpdateSeller: React.FC<UpdateSellerProps> = ({
   };
 
   const fetchSellerDetailsHandler = async () => {
+    if (!sellerId) return;
     try {
       setIsLoadingSeller(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `agent/${sellerId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchAgentDetails(sellerId).unwrap();
       setName(data.agent.name);
       setEmail(data.agent.email);
       setPhone(data.agent.phone);
@@ -2,9 +2,11 @@ import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { useEffect, useState } from "react";
-import { useUpdateStoreMutation } from "../../../redux/api/api";
+import {
+  useLazyStoreDetailsQuery,
+  useUpdateStoreMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
 import { Store, MapPin, FileText, Hash, Edit3 } from "lucide-react";
@@ -20,7 +22,6 @@ const UpdateStore: React.FC<UpdateStoreProps> = ({
   fetchStoresHandler,
   storeId,
 }) => {
-  const [cookies, setCookie] = useCookies();
   const [isLoadingStore, setIsLoadingStore] = useState<boolean>(false);
   const [isUpdatingStore, setIsUpdatingStore] = useState<boolean>(false);
   const [name, setName] = useState<string | undefined>();
@@ -32,9 +33,11 @@ const UpdateStore: React.FC<UpdateStoreProps> = ({
   const [state, setState] = useState<string | undefined>();
 
   const [updateStore] = useUpdateStoreMutation();
+  const [fetchStoreDetails] = useLazyStoreDetailsQuery();
 
   const updateStoreHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!storeId) return;
 
     if (
       !name ||
@@ -72,21 +75,10 @@ const UpdateStore: React.FC<UpdateStoreProps> = ({
   };
 
   const fetchStoreDetailsHandler = async () => {
+    if (!storeId) return;
     try {
       setIsLoadingStore(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `store/${storeId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStoreDetails(storeId).unwrap();
       setName(data.store.name);
       setGst(data.store?.gst_number);
       setAddressLine1(data.store.address_line1);
@@ -0,0 +1,320 @@
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { BiX } from "react-icons/bi";
+import { colors } from "../../../theme/colors";
+import { useLazySupplierDetailsQuery } from "../../../redux/api/api";
+import {
+  SupplierScorecard,
+  getOrderValue,
+  getPriceHistory,
+  getReceiptDate,
+  isDeliveredOnTime,
+} from "../../utils/suppliers";
+import RecordTabs from "../../Audit/RecordTabs";
+
+interface SupplierDetailsProps {
+  closeDrawerHandler: () => void;
+  scorecard: SupplierScorecard;
+  inspections: any[];
+}
+
+const formatPercent = (value: number | null) =>
+  value === null ? "N/A" : `${value.toFixed(1)}%`;
+
+const SupplierDetails: React.FC<SupplierDetailsProps> = ({
+  closeDrawerHandler,
+  scorecard,
+  inspections,
+}) => {
+  const [supplierDetails] = useLazySupplierDetailsQuery();
+  const [party, setParty] = useState<any>(scorecard.supplier);
+
+  const fetchSupplierDetails = async (id: string) => {
+    try {
+      const data = await supplierDetails(id).unwrap();
+      setParty({ ...scorecard.supplier, ...data.supplier });
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  useEffect(() => {
+    if (scorecard.supplier?.id) {
+      fetchSupplierDetails(scorecard.supplier.id);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scorecard.supplier?.id]);
+
+  const priceHistory = getPriceHistory(scorecard.orders);
+
+  const partyFields = [
+    { label: "Supplier Code", value: party?.supplierCode },
+    { label: "Company", value: party?.companyName },
+    { label: "Type", value: party?.supplierType },
+    { label: "Email", value: party?.supplierEmail },
+    { label: "Shipped To", value: party?.supplierShippedTo },
+    { label: "Bill To", value: party?.supplierBillTo },
+    { label: "Shipped GSTIN", value: party?.supplierShippedGSTIN },
+    { label: "Bill GSTIN", value: party?.supplierBillGSTIN },
+  ];
+
+  const metrics = [
+    {
+      label: "Score",
+      value: scorecard.score === null ? "N/A" : scorecard.score.toFixed(0),
+    },
+    { label: "On-Time Delivery", value: formatPercent(scorecard.onTimeRate) },
+    { label: "Rejection Rate", value: formatPercent(scorecard.rejectionRate) },
+    {
+      label: "Price vs Average",
+      value:
+        scorecard.priceIndex === null
+          ? "N/A"
+          : `${((scorecard.priceIndex - 1) * 100).toFixed(1)}%`,
+    },
+    { label: "Purchase Orders", value: scorecard.orders.length },
+    { label: "Total Spend", value: `₹${scorecard.spend.toLocaleString()}` },
+  ];
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[750px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {party?.supplierName || party?.companyName || "Supplier"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-6 px-5 space-y-6">
+        <RecordTabs module="agent" recordId={scorecard.supplier?._id}>
+          {/* Scorecard */}
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {metrics.map((metric) => (
+              <div
+                key={metric.label}
+                className="rounded-lg border p-3"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-xs" style={{ color: colors.text.secondary }}>
+                  {metric.label}
+                </p>
+                <p
+                  className="text-lg font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {metric.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Party Record */}
+          <div>
+            <h2
+              className="text-base font-semibold mb-3"
+              style={{ color: colors.text.primary }}
+            >
+              Party Details
+            </h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {partyFields.map((field) => (
+                <div key={field.label}>
+                  <p className="text-xs" style={{ color: colors.text.secondary }}>
+                    {field.label}
+                  </p>
+                  <p className="text-sm font-medium">{field.value || "N/A"}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Purchase Orders */}
+          <div>
+            <h2
+              className="text-base font-semibold mb-3"
+              style={{ color: colors.text.primary }}
+            >
+              Purchase Orders
+            </h2>
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-3 py-2 text-left">PO</th>
+                    <th className="px-3 py-2 text-left">Date</th>
+                    <th className="px-3 py-2 text-left">Expected</th>
+                    <th className="px-3 py-2 text-left">Received</th>
+                    <th className="px-3 py-2 text-right">Value</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {scorecard.orders.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-4 text-center">
+                        No purchase orders for this supplier.
+                      </td>
+                    </tr>
+                  )}
+                  {scorecard.orders.map((po: any) => {
+                    const receivedAt = getReceiptDate(po, inspections);
+                    const onTime = isDeliveredOnTime(po, inspections);
+                    return (
+                      <tr
+                        key={po._id}
+                        className="border-t"
+                        style={{ borderColor: colors.border.light }}
+                      >
+                        <td className="px-3 py-2 font-medium">{po.poOrder}</td>
+                        <td className="px-3 py-2">
+                          {po.date ? new Date(po.date).toLocaleDateString() : "-"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {po.expectedDeliveryDate
+                            ? new Date(
+                                po.expectedDeliveryDate
+                              ).toLocaleDateString()
+                            : "-"}
+                        </td>
+                        <td className="px-3 py-2">
+                          {receivedAt ? receivedAt.toLocaleDateString() : "-"}
+                          {onTime !== null && (
+                            <span
+                              className={`ml-2 text-xs px-2 py-0.5 rounded-full ${
+                                onTime
+                                  ? "bg-green-100 text-green-800"
+                                  : "bg-red-100 text-red-800"
+                              }`}
+                            >
+                              {onTime ? "On time" : "Late"}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          ₹{getOrderValue(po).toLocaleString()}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Price History */}
+          <div className="pb-6">
+            <h2
+              className="text-base font-semibold mb-3"
+              style={{ color: colors.text.primary }}
+            >
+              Price History
+            </h2>
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-3 py-2 text-left">Material</th>
+                    <th className="px-3 py-2 text-right">Last Price</th>
+                    <th className="px-3 py-2 text-right">Min</th>
+                    <th className="px-3 py-2 text-right">Max</th>
+                    <th className="px-3 py-2 text-right">Change</th>
+                    <th className="px-3 py-2 text-left">History</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {priceHistory.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-3 py-4 text-center">
+                        No materials purchased yet.
+                      </td>
+                    </tr>
+                  )}
+                  {priceHistory.map((material) => {
+                    const prices = material.history.map((h) => h.unitPrice);
+                    const first = prices[0];
+                    const last = prices[prices.length - 1];
+                    const change = first ? ((last - first) / first) * 100 : 0;
+                    return (
+                      <tr
+                        key={material.key}
+                        className="border-t align-top"
+                        style={{ borderColor: colors.border.light }}
+                      >
+                        <td className="px-3 py-2 font-medium">
+                          {material.itemName}
+                          {material.uom && (
+                            <span className="text-xs text-gray-500">
+                              {" "}
+                              / {material.uom}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">₹{last}</td>
+                        <td className="px-3 py-2 text-right">
+                          ₹{Math.min(...prices)}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          ₹{Math.max(...prices)}
+                        </td>
+                        <td
+                          className={`px-3 py-2 text-right ${
+                            change > 0
+                              ? "text-red-600"
+                              : change < 0
+                              ? "text-green-600"
+                              : ""
+                          }`}
+                        >
+                          {change > 0 ? "+" : ""}
+                          {change.toFixed(1)}%
+                        </td>
+                        <td className="px-3 py-2 text-xs text-gray-600">
+                          {material.history.map((point, index) => (
+                            <div key={index}>
+                              {point.date
+                                ? new Date(point.date).toLocaleDateString()
+                                : "-"}{" "}
+                              ({point.poOrder}): ₹{point.unitPrice}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </RecordTabs>
+      </div>
+    </div>
+  );
+};
+
+export default SupplierDetails;
@@ -1,17 +1,15 @@
 // @ts-nocheck
 
 import { X } from "lucide-react";
-import axios from "axios";
-import { useCookies } from "react-cookie";
 import { Badge } from "@chakra-ui/react";
 import { toast } from "react-toastify";
 import { AddtokenamtFormValidation } from "../../../Validation/SalesformValidation";
 import { useFormik } from "formik";
 import { useState } from "react";
+import { useAddSaleTokenMutation } from "../../../redux/api/api";
 const AddToken = ({ showToken, setShowToken, tokenAmount, sale, refresh }) => {
-  const [cookies] = useCookies();
+  const [addSaleToken] = useAddSaleTokenMutation();
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const token = cookies?.access_token;
 
   const {
     values,
@@ -30,17 +28,9 @@ const AddToken = ({ showToken, setShowToken, tokenAmount, sale, refresh }) => {
       if (isSubmitting) return;
       setIsSubmitting(true);
       try {
-        const response = await axios.patch(
-          `${process.env.REACT_APP_BACKEND_URL}sale/addToken/${sale}`,
-          value,
-          {
-            headers: {
-              Authorization: `Bearer ${token}`,
-            },
-          }
-        );
+        const response = await addSaleToken({ _id: sale, ...value }).unwrap();
 
-        toast.success(`Amount submitted: ${response.data?.message}`);
+        toast.success(`Amount submitted: ${response?.message}`);
 
         resetForm({
           token_amt: "",
@@ -52,7 +42,7 @@ const AddToken = ({ showToken, setShowToken, tokenAmount, sale, refresh }) => {
         console.error("Error submitting amount:", error);
 
         toast.error(
-          error.response?.data?.message ||
+          error?.message ||
             "Something went wrong. Please try again."
         );
       } finally {
@@ -1,13 +1,12 @@
 // @ts-nocheck
 
 import { X } from "lucide-react";
-import axios from "axios";
-import { useCookies } from "react-cookie";
 import { Badge } from "@chakra-ui/react";
 import { toast } from "react-toastify";
 import { AddhalftokenFormValidation } from "../../../Validation/SalesformValidation";
 import { useFormik } from "formik";
 import { useState } from "react";
+import { useUpdateSaleMutation } from "../../../redux/api/api";
 const AddhalfToken = ({
   showhalfToken,
   setShowhalfToken,
@@ -15,9 +14,8 @@ const AddhalfToken = ({
   sale,
   refresh,
 }) => {
-  const [cookies] = useCookies();
+  const [updateSale] = useUpdateSaleMutation();
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
-  const token = cookies?.access_token;
 
   const {
     values,
@@ -37,17 +35,9 @@ const AddhalfToken = ({
       if (isSubmitting) return;
       setIsSubmitting(true);
       try {
-        const response = await axios.put(
-          `${process.env.REACT_APP_BACKEND_URL}sale/update/${sale}`,
-          value,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
+        const response = await updateSale({ _id: sale, ...value }).unwrap();
 
-        toast.success(`Amount submitted: ${response.data?.message}`);
+        toast.success(`Amount submitted: ${response?.message}`);
 
         resetForm({
           half_payment: "",
@@ -59,7 +49,7 @@ const AddhalfToken = ({
         console.error("Error submitting amount:", error);
 
         toast.error(
-          error.response?.data?.message ||
+          error?.message ||
             "Something went wrong. Please try again."
         );
       } finally {
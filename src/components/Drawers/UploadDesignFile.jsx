@@ -12,10 +12,10 @@ import {
 import { toast } from "react-toastify";
 import { IoClose } from "react-icons/io5";
 import axios from "axios";
-import { useCookies } from "react-cookie";
+import { useUploadSaleDesignMutation } from "../../redux/api/api";
 
 const UploadDesignFile = ({ show, setShow, saleId, refresh }) => {
-  const [cookies] = useCookies();
+  const [uploadSaleDesign] = useUploadSaleDesignMutation();
   const [file, setFile] = useState(null);
   const [preview, setPreview] = useState(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -43,17 +43,13 @@ const UploadDesignFile = ({ show, setShow, saleId, refresh }) => {
 
     if (uploadedUrl) {
       try {
-        await axios.patch(
-          `${process.env.REACT_APP_BACKEND_URL}sale/upload-image/${saleId}`,
-          { designFile: uploadedUrl },
-          { headers: { Authorization: `Bearer ${cookies.access_token}` } }
-        );
+        await uploadSaleDesign({ _id: saleId, designFile: uploadedUrl }).unwrap();
         toast.success("Design uploaded successfully");
         setShow(false);
         refresh();
       } catch (err) {
         console.log(err);
-        toast.error("Upload failed");
+        toast.error(err?.message || "Upload failed");
       }
     }
 
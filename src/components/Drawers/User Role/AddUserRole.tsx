@@ -7,6 +7,12 @@ import { useAddRoleMutation } from "../../../redux/api/api";
 import { toast } from "react-toastify";
 import { useCookies } from "react-cookie";
 import { colors } from "../../../theme/colors";
+import {
+  ModulePermissions,
+  permissionModules,
+  withDefaultActions,
+} from "../../utils/permissions";
+import ModuleActions from "./ModuleActions";
 // import Select from "react-select";
 interface AddUserRoleProps {
   fetchUserRolesHandler: () => void;
@@ -24,22 +30,7 @@ const AddUserRole: React.FC<AddUserRoleProps> = ({
   const [permissions, setPermissions] = useState<
     { value: string; label: string }[]
   >([]);
-
-  const permissionOptions = [
-    { value: "inventory", label: "Inventory" },
-    { value: "direct", label: "Direct" },
-    { value: "store", label: "Store" },
-    { value: "approval", label: "Approval" },
-    { value: "agent", label: "Agent" },
-    { value: "production", label: "Production" },
-    { value: "sale & purchase", label: "Sale & Purchase" },
-    { value: "parties", label: "Parties" },
-    { value: "sales", label: "Sales" },
-    { value: "task", label: "Task" },
-    { value: "bom", label: "Bom" },
-    { value: "merchant", label: "Merchant" },
-    { value: "dispatch", label: "Dispatch" },
-  ];
+  const [actions, setActions] = useState<ModulePermissions>({});
 
   const [addRole] = useAddRoleMutation();
 
@@ -65,6 +56,7 @@ const AddUserRole: React.FC<AddUserRoleProps> = ({
         role,
         description,
         permissions: modifiedPermissions,
+        actions: withDefaultActions(modifiedPermissions, actions),
       }).unwrap();
       toast.success(response.message);
       fetchUserRolesHandler();
@@ -208,7 +200,7 @@ const AddUserRole: React.FC<AddUserRoleProps> = ({
             </FormLabel>
             <Select
               className="rounded mt-2 border "
-              options={permissionOptions}
+              options={permissionModules}
               placeholder="Select"
               value={permissions}
               name="item_name"
@@ -219,6 +211,11 @@ const AddUserRole: React.FC<AddUserRoleProps> = ({
               styles={customStyles}
             />
           </FormControl>
+          <ModuleActions
+            modules={permissions.map((permission) => permission.value)}
+            actions={actions}
+            setActions={setActions}
+          />
           <Button
             isLoading={isAddingRole}
             type="submit"
@@ -0,0 +1,78 @@
+import { Checkbox, FormControl, FormLabel } from "@chakra-ui/react";
+import {
+  ModulePermissions,
+  PermissionAction,
+  allPermissionActions,
+  getPermissionModuleLabel,
+  permissionActions,
+} from "../../utils/permissions";
+
+interface ModuleActionsProps {
+  modules: string[];
+  actions: ModulePermissions;
+  setActions: (actions: ModulePermissions) => void;
+}
+
+const ModuleActions: React.FC<ModuleActionsProps> = ({
+  modules,
+  actions,
+  setActions,
+}) => {
+  const toggleAction = (
+    module: string,
+    action: PermissionAction,
+    checked: boolean
+  ) => {
+    const current = actions[module] || allPermissionActions;
+    setActions({
+      ...actions,
+      [module]: checked
+        ? allPermissionActions.filter(
+            (a) => a === action || current.includes(a)
+          )
+        : current.filter((a) => a !== action),
+    });
+  };
+
+  if (modules.length === 0) return null;
+
+  return (
+    <FormControl className="mt-5">
+      <FormLabel fontWeight="500" color="gray.700">
+        Allowed Actions
+      </FormLabel>
+      <div className="space-y-3">
+        {modules.map((module) => (
+          <div key={module} className="border border-gray-200 rounded-lg p-3">
+            <p className="text-sm font-semibold text-gray-800 mb-2">
+              {getPermissionModuleLabel(module)}
+            </p>
+            <div className="grid grid-cols-3 gap-2">
+              {permissionActions.map((action) => (
+                <Checkbox
+                  key={action.value}
+                  size="sm"
+                  // Access to a module always lets the user see it
+                  isDisabled={action.value === "view"}
+                  isChecked={
+                    action.value === "view" ||
+                    (actions[module] || allPermissionActions).includes(
+                      action.value
+                    )
+                  }
+                  onChange={(e) =>
+                    toggleAction(module, action.value, e.target.checked)
+                  }
+                >
+                  {action.label}
+                </Checkbox>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </FormControl>
+  );
+};
+
+export default ModuleActions;
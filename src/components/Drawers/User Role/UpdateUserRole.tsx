@@ -3,11 +3,20 @@ import Drawer from "../../../ui/Drawer";
 import { BiX } from "react-icons/bi";
 import { useEffect, useState } from "react";
 import Select from "react-select";
-import { useUpdateRoleMutation } from "../../../redux/api/api";
+import {
+  useLazyRoleDetailsQuery,
+  useUpdateRoleMutation,
+} from "../../../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import Loading from "../../../ui/Loading";
 import { colors } from "../../../theme/colors";
+import {
+  ModulePermissions,
+  getPermissionModuleLabel,
+  permissionModules,
+  withDefaultActions,
+} from "../../utils/permissions";
+import ModuleActions from "./ModuleActions";
 
 interface UpdateUserRoleProps {
   fetchUserRolesHandler: () => void;
@@ -20,7 +29,6 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
   fetchUserRolesHandler,
   roleId,
 }) => {
-  const [cookies, setCookie] = useCookies();
   const [isLoadingRole, setIsLoadingRole] = useState<boolean>(false);
   const [isUpdatingRole, setIsUpdatingRole] = useState<boolean>(false);
   const [role, setRole] = useState<string | undefined>();
@@ -28,26 +36,14 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
   const [permissions, setPermissions] = useState<
     { value: string; label: string }[]
   >([]);
-
-  const permissionOptions = [
-    { value: "inventory", label: "Inventory" },
-    { value: "direct", label: "Direct" },
-    { value: "store", label: "Store" },
-    { value: "approval", label: "Approval" },
-    { value: "agent", label: "Agent" },
-    { value: "production", label: "Production" },
-    { value: "parties", label: "Parties" },
-    { value: "sales", label: "Sales" },
-    { value: "task", label: "Task" },
-    { value: "bom", label: "Bom" },
-    { value: "merchant", label: "Merchant" },
-    {value: "dispatch", label: "Dispatch"}
-  ];
+  const [actions, setActions] = useState<ModulePermissions>({});
 
   const [updateRole] = useUpdateRoleMutation();
+  const [fetchRoleDetails] = useLazyRoleDetailsQuery();
 
   const updateRoleHandler = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!roleId) return;
 
     if (
       !role ||
@@ -74,6 +70,7 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
         role,
         description,
         permissions: modifiedPermissions,
+        actions: withDefaultActions(modifiedPermissions, actions),
       }).unwrap();
       // console.log({
       //   _id: roleId,
@@ -93,31 +90,21 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
   };
 
   const fetchRoleDetailsHandler = async () => {
+    if (!roleId) return;
     try {
       setIsLoadingRole(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `role/${roleId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchRoleDetails(roleId).unwrap();
       setRole(data.userRole.role);
       setDescription(data.userRole?.description || "N/A");
-      const modifiedPermissions = data.userRole?.permissions?.map(
+      const modifiedPermissions = (data.userRole?.permissions || []).map(
         (permission: any) => ({
           value: permission,
-          label: permission.charAt(0).toUpperCase() + permission.slice(1),
+          label: getPermissionModuleLabel(permission),
         })
       );
 
       setPermissions(modifiedPermissions);
+      setActions(data.userRole?.actions || {});
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     } finally {
@@ -266,7 +253,7 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
               <Select
                 required
                 className="rounded mt-2"
-                options={permissionOptions}
+                options={permissionModules}
                 placeholder="Select"
                 value={permissions}
                 name="item_name"
@@ -277,6 +264,11 @@ const UpdateUserRole: React.FC<UpdateUserRoleProps> = ({
                 styles={customStyles}
               />
             </FormControl>
+            <ModuleActions
+              modules={permissions.map((permission) => permission.value)}
+              actions={actions}
+              setActions={setActions}
+            />
 
             <div>
               <Button
@@ -1,10 +1,17 @@
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { BiX } from "react-icons/bi";
 import { toast } from "react-toastify";
 import Loading from "../../../ui/Loading";
 import Drawer from "../../../ui/Drawer";
 import { colors } from "../../../theme/colors";
+import {
+  ModulePermissions,
+  getPermissionModuleLabel,
+  permissionActions,
+  withDefaultActions,
+} from "../../utils/permissions";
+import RecordTabs from "../../Audit/RecordTabs";
+import { useLazyRoleDetailsQuery } from "../../../redux/api/api";
 
 interface UserRoleDetailsProps {
   closeDrawerHandler: () => void;
@@ -15,31 +22,27 @@ const UserRoleDetails: React.FC<UserRoleDetailsProps> = ({
   closeDrawerHandler,
   roleId,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchRoleDetails] = useLazyRoleDetailsQuery();
   const [isLoadinRole, setIsLoadingRole] = useState<boolean>(false);
   const [role, setRole] = useState<string | undefined>();
   const [description, setDescription] = useState<string | undefined>();
   const [permissions, setPermissions] = useState<string[]>([]);
+  const [actions, setActions] = useState<ModulePermissions>({});
 
   const fetchRoleDetailsHandler = async () => {
+    if (!roleId) return;
     try {
       setIsLoadingRole(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `role/${roleId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchRoleDetails(roleId).unwrap();
       setRole(data.userRole.role);
       setDescription(data.userRole?.description || "N/A");
       setPermissions(data.userRole?.permissions || []);
+      setActions(
+        withDefaultActions(
+          data.userRole?.permissions || [],
+          data.userRole?.actions
+        )
+      );
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     } finally {
@@ -91,36 +94,50 @@ const UserRoleDetails: React.FC<UserRoleDetailsProps> = ({
       </div>
 
       <div className="mt-8 px-5">
-        {isLoadinRole && <Loading />}
-        {!isLoadinRole && (
-          <div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Role</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {role}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Description</p>
-              <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
-                {description}
-              </p>
-            </div>
-            <div className="mt-3 mb-5">
-              <p className="font-bold text-gray-700 mb-2">Permissions</p>
-              <div className="bg-gray-50 p-3 rounded-md border">
-                <ul className="space-y-2">
-                  {permissions.map((permission, index) => (
-                    <li key={index} className="flex items-center text-gray-600">
-                      <span className="w-2 h-2 bg-blue-500 rounded-full mr-3"></span>
-                      {permission.charAt(0).toUpperCase() + permission.slice(1)}
-                    </li>
-                  ))}
-                </ul>
+        <RecordTabs module="role" recordId={roleId}>
+          {isLoadinRole && <Loading />}
+          {!isLoadinRole && (
+            <div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Role</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {role}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Description</p>
+                <p className="text-gray-600 bg-gray-50 p-3 rounded-md border">
+                  {description}
+                </p>
+              </div>
+              <div className="mt-3 mb-5">
+                <p className="font-bold text-gray-700 mb-2">Permissions</p>
+                <div className="bg-gray-50 p-3 rounded-md border">
+                  <ul className="space-y-2">
+                    {permissions.map((permission, index) => (
+                      <li key={index} className="flex items-start text-gray-600">
+                        <span className="w-2 h-2 bg-blue-500 rounded-full mr-3 mt-2"></span>
+                        <div>
+                          <p>{getPermissionModuleLabel(permission)}</p>
+                          <p className="text-xs text-gray-500">
+                            {permissionActions
+                              .filter(
+                                (action) =>
+                                  action.value === "view" ||
+                                  actions[permission]?.includes(action.value)
+                              )
+                              .map((action) => action.label)
+                              .join(", ")}
+                          </p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+        </RecordTabs>
       </div>
     </div>
   );
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select,
+} from "@chakra-ui/react";
+import { BiX } from "react-icons/bi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateLedgerMutation,
+  useUpdateLedgerMutation,
+} from "../../../redux/api/api";
+import { ledgerGroups } from "../../utils/vouchers";
+
+interface AddLedgerProps {
+  closeDrawerHandler: () => void;
+  editLedger?: any | null;
+}
+
+const AddLedger: React.FC<AddLedgerProps> = ({
+  closeDrawerHandler,
+  editLedger,
+}) => {
+  const [createLedger] = useCreateLedgerMutation();
+  const [updateLedger] = useUpdateLedgerMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [name, setName] = useState<string>(editLedger?.name || "");
+  const [group, setGroup] = useState<string>(editLedger?.group || "");
+  const [openingBalance, setOpeningBalance] = useState<number>(
+    editLedger?.opening_balance || 0
+  );
+  const [openingType, setOpeningType] = useState<string>(
+    editLedger?.opening_type || "Dr"
+  );
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !group) {
+      toast.error("Please enter the ledger name and group");
+      return;
+    }
+
+    const data = {
+      name: name.trim(),
+      group,
+      opening_balance: +openingBalance || 0,
+      opening_type: openingType,
+    };
+
+    try {
+      setIsSubmitting(true);
+      const response = editLedger?._id
+        ? await updateLedger({ _id: editLedger._id, ...data }).unwrap()
+        : await createLedger(data).unwrap();
+      toast.success(
+        response?.message || `Ledger ${editLedger ? "updated" : "created"}`
+      );
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[450px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editLedger ? "Edit Ledger" : "Add Ledger"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Ledger Name
+            </FormLabel>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. HDFC Current Account"
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Group
+            </FormLabel>
+            <Select
+              value={group}
+              onChange={(e) => setGroup(e.target.value)}
+              placeholder="Select group"
+            >
+              {ledgerGroups.map((ledgerGroup) => (
+                <option key={ledgerGroup.name} value={ledgerGroup.name}>
+                  {ledgerGroup.name} ({ledgerGroup.nature})
+                </option>
+              ))}
+            </Select>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Opening Balance
+            </FormLabel>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(+e.target.value)}
+              />
+              <Select
+                width="100px"
+                value={openingType}
+                onChange={(e) => setOpeningType(e.target.value)}
+              >
+                <option value="Dr">Dr</option>
+                <option value="Cr">Cr</option>
+              </Select>
+            </div>
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Submit
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddLedger;
@@ -0,0 +1,409 @@
+import { useState } from "react";
+import {
+  Button,
+  FormControl,
+  FormLabel,
+  Input,
+  Select as ChakraSelect,
+  Textarea,
+} from "@chakra-ui/react";
+import Select from "react-select";
+import { BiX } from "react-icons/bi";
+import { FiPaperclip, FiPlus, FiTrash2 } from "react-icons/fi";
+import { toast } from "react-toastify";
+import { colors } from "../../../theme/colors";
+import {
+  useCreateVoucherMutation,
+  useUpdateVoucherMutation,
+} from "../../../redux/api/api";
+import { ImageUploader } from "../../utils/ImageUploader";
+import {
+  VoucherEntry,
+  getLedgerName,
+  getVoucherTotals,
+  ledgerGroups,
+  toDateKey,
+  validateVoucher,
+  voucherTypes,
+} from "../../utils/vouchers";
+
+interface AddVoucherProps {
+  closeDrawerHandler: () => void;
+  ledgers: any[];
+  editVoucher?: any | null;
+}
+
+const emptyEntry: VoucherEntry = { ledger_name: "", debit: 0, credit: 0 };
+
+const AddVoucher: React.FC<AddVoucherProps> = ({
+  closeDrawerHandler,
+  ledgers,
+  editVoucher,
+}) => {
+  const [createVoucher] = useCreateVoucherMutation();
+  const [updateVoucher] = useUpdateVoucherMutation();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [voucherType, setVoucherType] = useState<string>(
+    editVoucher?.voucher_type || "Journal"
+  );
+  const [date, setDate] = useState<string>(
+    toDateKey(editVoucher?.date || new Date())
+  );
+  const [entries, setEntries] = useState<VoucherEntry[]>(
+    editVoucher?.entries?.map((entry: any) => ({
+      ledger: entry?.ledger?._id || entry?.ledger,
+      ledger_name: getLedgerName(entry),
+      debit: +entry.debit || 0,
+      credit: +entry.credit || 0,
+    })) || [{ ...emptyEntry }, { ...emptyEntry }]
+  );
+  const [narration, setNarration] = useState<string>(
+    editVoucher?.narration || ""
+  );
+  const [attachments, setAttachments] = useState<
+    { name: string; url: string }[]
+  >(editVoucher?.attachments || []);
+
+  const ledgerOptions = ledgerGroups
+    .map((group) => ({
+      label: group.name,
+      options: ledgers
+        .filter((ledger: any) => ledger.group === group.name)
+        .map((ledger: any) => ({ value: ledger._id, label: ledger.name })),
+    }))
+    .filter((group) => group.options.length > 0);
+  const allLedgerOptions = ledgerOptions.flatMap((group) => group.options);
+
+  const { debit, credit, difference } = getVoucherTotals(entries);
+
+  const updateEntry = (index: number, changes: Partial<VoucherEntry>) => {
+    setEntries((prev) =>
+      prev.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    );
+  };
+
+  const uploadAttachmentsHandler = async (files: FileList | null) => {
+    if (!files?.length) return;
+    try {
+      setIsUploading(true);
+      const uploaded = await Promise.all(
+        Array.from(files).map(async (file) => {
+          const formData = new FormData();
+          formData.append("file", file);
+          const url = await ImageUploader(formData);
+          return url ? { name: file.name, url } : null;
+        })
+      );
+      const succeeded = uploaded.filter(Boolean) as {
+        name: string;
+        url: string;
+      }[];
+      if (succeeded.length < files.length) {
+        toast.error("Some attachments could not be uploaded");
+      }
+      setAttachments((prev) => [...prev, ...succeeded]);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const submitHandler = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateVoucher(voucherType, entries, ledgers);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    const data = {
+      voucher_type: voucherType,
+      date: new Date(date).toISOString(),
+      entries: entries.map((entry) => ({
+        ...entry,
+        debit: +entry.debit || 0,
+        credit: +entry.credit || 0,
+      })),
+      narration,
+      attachments,
+    };
+
+    try {
+      setIsSubmitting(true);
+      const response = editVoucher?._id
+        ? await updateVoucher({ _id: editVoucher._id, ...data }).unwrap()
+        : await createVoucher(data).unwrap();
+      toast.success(
+        response?.message || `Voucher ${editVoucher ? "updated" : "created"}`
+      );
+      closeDrawerHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="absolute overflow-auto h-[100vh] w-[99vw] md:w-[750px] bg-white right-0 top-0 z-50 py-3 border-l border-gray-200"
+      style={{
+        boxShadow:
+          "rgba(0, 0, 0, 0.08) 0px 6px 16px 0px, rgba(0, 0, 0, 0.12) 0px 3px 6px -4px, rgba(0, 0, 0, 0.05) 0px 9px 28px 8px",
+      }}
+    >
+      <div
+        className="flex items-center justify-between p-6 border-b"
+        style={{ borderColor: colors.border.light }}
+      >
+        <h1
+          className="text-xl font-semibold"
+          style={{ color: colors.text.primary }}
+        >
+          {editVoucher
+            ? `Edit Voucher ${editVoucher.voucher_no || ""}`
+            : "New Voucher"}
+        </h1>
+        <button
+          onClick={closeDrawerHandler}
+          className="p-2 rounded-lg transition-colors duration-200"
+          style={{
+            color: colors.text.secondary,
+            backgroundColor: colors.gray[100],
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[200];
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = colors.gray[100];
+          }}
+        >
+          <BiX size={20} />
+        </button>
+      </div>
+
+      <div className="mt-8 px-5">
+        <form onSubmit={submitHandler}>
+          <div className="grid grid-cols-2 gap-3">
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Voucher Type
+              </FormLabel>
+              <ChakraSelect
+                value={voucherType}
+                onChange={(e) => setVoucherType(e.target.value)}
+              >
+                {voucherTypes.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </ChakraSelect>
+            </FormControl>
+            <FormControl className="mt-3 mb-5" isRequired>
+              <FormLabel fontWeight="bold" color="gray.700">
+                Date
+              </FormLabel>
+              <Input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </FormControl>
+          </div>
+
+          <FormControl className="mt-3 mb-5" isRequired>
+            <FormLabel fontWeight="bold" color="gray.700">
+              Entries
+            </FormLabel>
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-2 py-2 text-left">Ledger</th>
+                  <th className="px-2 py-2 text-right w-32">Debit</th>
+                  <th className="px-2 py-2 text-right w-32">Credit</th>
+                  <th className="w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-1">
+                      <Select
+                        placeholder="Select ledger"
+                        options={ledgerOptions}
+                        value={
+                          allLedgerOptions.find(
+                            (option) => option.value === entry.ledger
+                          ) ||
+                          (entry.ledger_name
+                            ? { value: "", label: entry.ledger_name }
+                            : null)
+                        }
+                        onChange={(selected: any) =>
+                          updateEntry(index, {
+                            ledger: selected?.value,
+                            ledger_name: selected?.label || "",
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <Input
+                        size="sm"
+                        type="number"
+                        min={0}
+                        step="any"
+                        textAlign="right"
+                        value={entry.debit || ""}
+                        onChange={(e) =>
+                          updateEntry(index, {
+                            debit: +e.target.value,
+                            credit: 0,
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <Input
+                        size="sm"
+                        type="number"
+                        min={0}
+                        step="any"
+                        textAlign="right"
+                        value={entry.credit || ""}
+                        onChange={(e) =>
+                          updateEntry(index, {
+                            credit: +e.target.value,
+                            debit: 0,
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      {entries.length > 2 && (
+                        <button
+                          type="button"
+                          className="p-2 text-red-600"
+                          onClick={() =>
+                            setEntries((prev) =>
+                              prev.filter((_, i) => i !== index)
+                            )
+                          }
+                        >
+                          <FiTrash2 />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="border-t font-semibold">
+                  <td className="px-2 py-2">
+                    Total
+                    {difference !== 0 && (
+                      <span className="ml-2 text-xs text-red-600">
+                        Difference {Math.abs(difference).toFixed(2)}{" "}
+                        {difference > 0 ? "Dr" : "Cr"}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-2 text-right">{debit.toFixed(2)}</td>
+                  <td className="px-2 py-2 text-right">
+                    {credit.toFixed(2)}
+                  </td>
+                  <td></td>
+                </tr>
+              </tbody>
+            </table>
+            <Button
+              mt={2}
+              size="sm"
+              variant="outline"
+              leftIcon={<FiPlus />}
+              onClick={() =>
+                setEntries((prev) => [
+                  ...prev,
+                  // Start the new line with whatever balances the voucher
+                  {
+                    ...emptyEntry,
+                    debit: difference < 0 ? -difference : 0,
+                    credit: difference > 0 ? difference : 0,
+                  },
+                ])
+              }
+            >
+              Add Entry
+            </Button>
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Narration
+            </FormLabel>
+            <Textarea
+              value={narration}
+              onChange={(e) => setNarration(e.target.value)}
+              placeholder="Being ..."
+              rows={3}
+            />
+          </FormControl>
+
+          <FormControl className="mt-3 mb-5">
+            <FormLabel fontWeight="bold" color="gray.700">
+              Attachments
+            </FormLabel>
+            <Input
+              type="file"
+              multiple
+              p={1}
+              onChange={(e) => uploadAttachmentsHandler(e.target.files)}
+              isDisabled={isUploading}
+            />
+            {isUploading && (
+              <p className="text-xs mt-1 text-gray-500">Uploading...</p>
+            )}
+            {attachments.map((attachment, index) => (
+              <div
+                key={attachment.url}
+                className="flex items-center justify-between mt-2 text-sm"
+              >
+                <a
+                  href={attachment.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="flex items-center gap-2 text-blue-600 underline"
+                >
+                  <FiPaperclip />
+                  {attachment.name}
+                </a>
+                <button
+                  type="button"
+                  className="p-1 text-red-600"
+                  onClick={() =>
+                    setAttachments((prev) => prev.filter((_, i) => i !== index))
+                  }
+                >
+                  <FiTrash2 />
+                </button>
+              </div>
+            ))}
+          </FormControl>
+
+          <Button
+            isLoading={isSubmitting}
+            isDisabled={isUploading}
+            type="submit"
+            className="mt-5"
+            colorScheme="blue"
+            size="md"
+            width="full"
+          >
+            Post Voucher
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AddVoucher;
@@ -1,10 +1,11 @@
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { BiMinus } from "react-icons/bi";
 import { IoIosAdd } from "react-icons/io";
 import { toast } from "react-toastify";
 import Select from "react-select";
+import { findSaleLine } from "../utils/salesOrders";
+import { useLazyFetchProductsQuery } from "../../redux/api/api";
 
 interface AddItemsProps {
   inputs:
@@ -24,7 +25,7 @@ const AddItems: React.FC<AddItemsProps> = ({
   setInputs,
   salesData,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchProducts] = useLazyFetchProductsQuery();
   const [products, setProducts] = useState<any[] | []>([]);
   const [productOptions, setProductOptions] = useState<any[] | []>([]);
 
@@ -43,21 +44,7 @@ const AddItems: React.FC<AddItemsProps> = ({
 
   const fetchItemsHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const results = await response.json();
-
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts({}).unwrap();
 
       const finishedGoods = results.products.filter(
         (product: any) => product.category?.toLowerCase() === "finished goods"
@@ -82,13 +69,11 @@ const AddItems: React.FC<AddItemsProps> = ({
       // Use price from sales data if available, otherwise fallback to product price
       let unitPrice = 0;
 
-      if (salesData && salesData.product_id) {
-        const salesProduct = salesData.product_id.find(
-          (p: any) => p._id === inputsArr[ind].item?.value
-        );
-        if (salesProduct) {
+      if (salesData) {
+        const salesLine = findSaleLine(salesData, inputsArr[ind].item?.value);
+        if (salesLine) {
           // Use the sales price instead of product price
-          unitPrice = salesData.price || salesProduct.price || 0;
+          unitPrice = salesLine.price;
         }
       } else {
         // Fallback to product price from inventory
@@ -1,8 +1,8 @@
 import { FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import Select from "react-select";
 import { toast } from "react-toastify";
+import { useLazyFetchSellersQuery } from "../../redux/api/api";
 
 interface ProcessRawMaterialProps {
   inputs: any[];
@@ -17,7 +17,7 @@ const ProcessRawMaterial: React.FC<ProcessRawMaterialProps> = ({
   products,
   productOptions,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchSellers] = useLazyFetchSellersQuery();
   const [isLoadingProducts, setIsLoadingProducts] = useState<boolean>(false);
   const [selectedProducts, setSelectedProducts] = useState<any[]>([]);
   const [isLoadingSuppliers, setIsLoadingSuppliers] = useState<boolean>(false);
@@ -54,19 +54,7 @@ const ProcessRawMaterial: React.FC<ProcessRawMaterialProps> = ({
 
   const fetchSuppliersHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchSellers({}).unwrap();
       setSuppliers(data.agents);
     } catch (err: any) {
       toast.error(err?.message || "Something went wrong");
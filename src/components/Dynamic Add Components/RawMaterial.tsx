@@ -1,6 +1,5 @@
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { BiMinus } from "react-icons/bi";
 import { IoIosAdd } from "react-icons/io";
 import Select from "react-select";
@@ -18,6 +17,7 @@ import {
   Plus,
   Trash2,
 } from "lucide-react";
+import { useLazyFetchSellersQuery } from "../../redux/api/api";
 
 interface RawMaterialProps {
   inputs: any[];
@@ -32,7 +32,7 @@ const RawMaterial: React.FC<RawMaterialProps> = ({
   products,
   productOptions,
 }) => {
-  const [cookies] = useCookies();
+  const [fetchSellers] = useLazyFetchSellersQuery();
   const [isLoadingProducts, setIsLoadingProducts] = useState<boolean>(false);
   const [selectedProducts, setSelectedProducts] = useState<any[]>([]);
   const [isLoadingSuppliers, setIsLoadingSuppliers] = useState<boolean>(false);
@@ -94,19 +94,7 @@ const RawMaterial: React.FC<RawMaterialProps> = ({
 
   const fetchSuppliersHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchSellers({}).unwrap();
       setSuppliers(data.agents);
     } catch (err: any) {
       toast.error(err?.message || "Something went wrong");
@@ -0,0 +1,263 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useSelector } from "react-redux";
+import { useNavigate } from "react-router-dom";
+import { FiSearch } from "react-icons/fi";
+import { colors } from "../../theme/colors";
+import routes from "../../routes/routes";
+import { useLazyGlobalSearchQuery } from "../../redux/api/api";
+import { SearchResult } from "../../redux/api/types";
+import { useCan } from "../utils/permissions";
+import {
+  MIN_SEARCH_LENGTH,
+  matchesQuery,
+  quickActions,
+  searchEntities,
+} from "../utils/commandPalette";
+
+const SEARCH_DELAY = 250;
+
+interface PaletteItem {
+  id: string;
+  group: string;
+  label: string;
+  subtitle?: string;
+  link: string;
+}
+
+const CommandPalette: React.FC = () => {
+  const { allowedroutes, isSuper } = useSelector((state: any) => state.auth);
+  const can = useCan();
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>("");
+  const [activeIndex, setActiveIndex] = useState<number>(0);
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  const [globalSearch, { isFetching }] = useLazyGlobalSearchQuery();
+
+  useEffect(() => {
+    const keyDownHandler = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setIsOpen((prev) => !prev);
+      }
+    };
+    window.addEventListener("keydown", keyDownHandler);
+    return () => window.removeEventListener("keydown", keyDownHandler);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery("");
+    setResults([]);
+    inputRef.current?.focus();
+  }, [isOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+    if (query.trim().length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      return;
+    }
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await globalSearch({ q: query.trim() }).unwrap();
+        setResults(data?.results || []);
+      } catch {
+        setResults([]);
+      }
+    }, SEARCH_DELAY);
+    return () => clearTimeout(timeout);
+  }, [query, globalSearch]);
+
+  // Pages from the navigation the user's role can open
+  const pages = useMemo(
+    () =>
+      routes
+        .filter(
+          (route: any) =>
+            route.name === "Dashboard" ||
+            isSuper ||
+            allowedroutes.includes(route.path.replaceAll("/", ""))
+        )
+        .flatMap((route: any) =>
+          route.isSublink
+            ? (route.sublink || []).map((sub: any) => ({
+                label: `${route.name} / ${sub.name}`,
+                link: `/${route.path}/${sub.path}`,
+              }))
+            : [{ label: route.name, link: `/${route.path}` }]
+        ),
+    [allowedroutes, isSuper]
+  );
+
+  const items: PaletteItem[] = useMemo(() => {
+    const actions = quickActions
+      .filter((action) => can(action.module, "create"))
+      .filter((action) => matchesQuery(action.label, query))
+      .map((action) => ({ ...action, group: "Quick Actions" }));
+
+    const pageItems = query.trim()
+      ? pages
+          .filter((page: any) => matchesQuery(page.label, query))
+          .map((page: any) => ({
+            id: `page-${page.link}`,
+            group: "Pages",
+            label: page.label,
+            link: page.link,
+          }))
+      : [];
+
+    // Results are grouped in the order of `searchEntities`
+    const records = searchEntities.flatMap((entity) =>
+      can(entity.module)
+        ? results
+            .filter((result) => result.type === entity.type)
+            .map((result) => ({
+              id: `${result.type}-${result._id}`,
+              group: entity.label,
+              label: result.title,
+              subtitle: result.subtitle,
+              link: entity.link(result),
+            }))
+        : []
+    );
+
+    return [...records, ...actions, ...pageItems];
+  }, [can, pages, query, results]);
+
+  const closeHandler = () => setIsOpen(false);
+
+  const selectHandler = (item: PaletteItem) => {
+    closeHandler();
+    navigate(item.link);
+  };
+
+  const inputKeyDownHandler = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.min(prev + 1, items.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "Enter" && items[activeIndex]) {
+      e.preventDefault();
+      selectHandler(items[activeIndex]);
+    } else if (e.key === "Escape") {
+      closeHandler();
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className="hidden md:inline-flex items-center gap-2 px-3 py-2 border rounded-lg text-sm"
+        style={{
+          borderColor: colors.border.medium,
+          color: colors.text.secondary,
+          backgroundColor: colors.background.card,
+        }}
+      >
+        <FiSearch size={16} />
+        Search
+        <kbd
+          className="px-1.5 py-0.5 text-xs rounded border"
+          style={{ borderColor: colors.border.light }}
+        >
+          Ctrl K
+        </kbd>
+      </button>
+
+      {isOpen && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-50 p-4 pt-[10vh]"
+          onClick={closeHandler}
+        >
+          <div
+            className="rounded-xl shadow-xl max-w-xl w-full overflow-hidden"
+            style={{ backgroundColor: colors.background.card }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div
+              className="flex items-center gap-3 px-4 border-b"
+              style={{ borderColor: colors.border.light }}
+            >
+              <FiSearch size={18} style={{ color: colors.text.secondary }} />
+              <input
+                ref={inputRef}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={inputKeyDownHandler}
+                placeholder="Search products, merchants, orders, BOMs, invoices..."
+                className="w-full py-4 text-sm outline-none bg-transparent"
+                style={{ color: colors.text.primary }}
+              />
+              {isFetching && (
+                <span
+                  className="text-xs whitespace-nowrap"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Searching...
+                </span>
+              )}
+            </div>
+
+            <div className="max-h-[60vh] overflow-y-auto py-2">
+              {items.length === 0 && (
+                <p
+                  className="px-4 py-6 text-sm text-center"
+                  style={{ color: colors.text.secondary }}
+                >
+                  {query.trim().length < MIN_SEARCH_LENGTH
+                    ? "Type to search records and pages"
+                    : isFetching
+                    ? "Searching..."
+                    : "No matches"}
+                </p>
+              )}
+              {items.map((item, index) => (
+                <div key={item.id}>
+                  {(index === 0 || items[index - 1].group !== item.group) && (
+                    <p
+                      className="px-4 pt-3 pb-1 text-xs font-medium uppercase"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {item.group}
+                    </p>
+                  )}
+                  <button
+                    className="w-full text-left px-4 py-2 flex items-center justify-between gap-3"
+                    style={{
+                      backgroundColor:
+                        index === activeIndex
+                          ? colors.primary[50]
+                          : "transparent",
+                      color: colors.text.primary,
+                    }}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => selectHandler(item)}
+                  >
+                    <span className="text-sm truncate">{item.label}</span>
+                    {item.subtitle && (
+                      <span
+                        className="text-xs truncate"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        {item.subtitle}
+                      </span>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -1,15 +1,17 @@
 import { useSelector } from "react-redux";
 // import logo from "../../assets/images/logo/logo.png";
 import { Avatar } from "@chakra-ui/react";
-import { IoIosNotifications } from "react-icons/io";
 import { useState, useEffect } from "react";
 import ClickMenu from "../../ui/ClickMenu";
 import { toast } from "react-toastify";
 import { useCookies } from "react-cookie";
 import { useNavigate } from "react-router-dom";
 import UserDetailsMenu from "../../ui/UserDetailsMenu";
+import NotificationCenter from "./NotificationCenter";
+import CommandPalette from "./CommandPalette";
 import { log } from "console";
 import { colors } from "../../theme/colors";
+import { useLazyFetchWelcomeStatsQuery } from "../../redux/api/api";
 // import { MdOutlineDashboardCustomize } from "react-icons/md";
 
 const Header: React.FC = () => {
@@ -28,7 +30,7 @@ const Header: React.FC = () => {
     year: 'numeric' 
   }));
 
-  const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
+  const [fetchWelcomeStats] = useLazyFetchWelcomeStatsQuery();
 
   // Fetch welcome data from API
   useEffect(() => {
@@ -42,25 +44,9 @@ const Header: React.FC = () => {
           return;
         }
 
-        const response = await fetch(`${backendUrl}dashboard/welcome`, {
-          method: 'GET',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        const data = await response.json();
-        
-        console.log('API Response:', data); // Debug log
-        
-        if (data.success) {
-          setGreeting(data.greeting);
-          setDate(data.date);
-          console.log('Updated greeting:', data.greeting, 'date:', data.date); // Debug log
-        } else {
-          console.log('API returned success: false:', data.message);
-        }
+        const data = await fetchWelcomeStats({}).unwrap();
+        setGreeting(data.greeting);
+        setDate(data.date);
       } catch (error) {
         console.error('Error fetching welcome data:', error);
         // Fallback to default values if API fails
@@ -75,7 +61,7 @@ const Header: React.FC = () => {
     };
 
     fetchWelcomeData();
-  }, [cookie.access_token]);
+  }, [cookie.access_token, fetchWelcomeStats]);
 
   const logoutHandler = () => {
     try {
@@ -104,13 +90,8 @@ const Header: React.FC = () => {
        
         <div className="flex items-center gap-4 ml-auto">
       
-          <button
-            className="relative p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors duration-200"
-            aria-label="Notifications"
-          >
-            <IoIosNotifications size={24} />
-            <span className="absolute top-1 right-1 w-2 h-2 bg-red-500 rounded-full"></span>
-          </button>
+          <CommandPalette />
+          <NotificationCenter />
 
      
           <div className="relative">
@@ -0,0 +1,257 @@
+import { useEffect, useMemo, useState } from "react";
+import { useSelector } from "react-redux";
+import { useCookies } from "react-cookie";
+import { useNavigate } from "react-router-dom";
+import { Switch } from "@chakra-ui/react";
+import { IoIosNotifications } from "react-icons/io";
+import { IoSettingsOutline } from "react-icons/io5";
+import { BiArrowBack } from "react-icons/bi";
+import { toast } from "react-toastify";
+import ClickMenu from "../../ui/ClickMenu";
+import { colors } from "../../theme/colors";
+import {
+  useLazyFetchNotificationPreferencesQuery,
+  useLazyFetchNotificationsQuery,
+  useMarkAllNotificationsReadMutation,
+  useMarkNotificationReadMutation,
+  useUpdateNotificationPreferencesMutation,
+} from "../../redux/api/api";
+import {
+  AppNotification,
+  NotificationPreferences,
+  NotificationType,
+} from "../../redux/api/types";
+import {
+  filterNotifications,
+  getAvailableNotificationTypes,
+  getNotificationDefinition,
+} from "../utils/notifications";
+
+const NotificationCenter: React.FC = () => {
+  const navigate = useNavigate();
+  const [cookies] = useCookies();
+  const { allowedroutes, isSuper } = useSelector((state: any) => state.auth);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [showPreferences, setShowPreferences] = useState<boolean>(false);
+
+  const [fetchNotifications, { data: notificationData }] =
+    useLazyFetchNotificationsQuery();
+  const [fetchPreferences, { data: preferenceData }] =
+    useLazyFetchNotificationPreferencesQuery();
+  const [markRead] = useMarkNotificationReadMutation();
+  const [markAllRead] = useMarkAllNotificationsReadMutation();
+  const [updatePreferences, { isLoading: isSavingPreferences }] =
+    useUpdateNotificationPreferencesMutation();
+
+  useEffect(() => {
+    if (!cookies.access_token) return;
+    fetchNotifications({});
+    fetchPreferences({});
+  }, [cookies.access_token, fetchNotifications, fetchPreferences]);
+
+  const preferences: NotificationPreferences = useMemo(
+    () => preferenceData?.preferences || { disabled_types: [] },
+    [preferenceData]
+  );
+  const availableTypes = useMemo(
+    () => getAvailableNotificationTypes(allowedroutes, isSuper),
+    [allowedroutes, isSuper]
+  );
+  const notifications: AppNotification[] = useMemo(
+    () =>
+      filterNotifications(
+        notificationData?.notifications || [],
+        allowedroutes,
+        isSuper,
+        preferences
+      ),
+    [notificationData, allowedroutes, isSuper, preferences]
+  );
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  const openNotificationHandler = async (notification: AppNotification) => {
+    const definition = getNotificationDefinition(notification.type);
+    setIsOpen(false);
+    if (definition) navigate(definition.link(notification));
+    if (notification.read) return;
+    try {
+      await markRead(notification._id).unwrap();
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  const markAllReadHandler = async () => {
+    try {
+      await markAllRead({}).unwrap();
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  const togglePreferenceHandler = async (
+    type: NotificationType,
+    enabled: boolean
+  ) => {
+    const disabled_types = enabled
+      ? preferences.disabled_types.filter((t) => t !== type)
+      : [...preferences.disabled_types, type];
+    try {
+      await updatePreferences({ disabled_types }).unwrap();
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        className="relative p-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+        aria-label="Notifications"
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <IoIosNotifications size={24} />
+        {unreadCount > 0 && (
+          <span className="absolute top-0 right-0 min-w-[18px] h-[18px] px-1 flex items-center justify-center text-[10px] font-semibold text-white bg-red-500 rounded-full">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <ClickMenu
+          top={50}
+          right={0}
+          closeContextMenuHandler={() => {
+            setIsOpen(false);
+            setShowPreferences(false);
+          }}
+        >
+          <div className="bg-white rounded-xl shadow-xl border border-gray-200 w-[340px] overflow-hidden">
+            <div
+              className="flex items-center justify-between px-4 py-3 border-b"
+              style={{ borderColor: colors.border.light }}
+            >
+              <div className="flex items-center gap-2">
+                {showPreferences && (
+                  <button
+                    aria-label="Back to notifications"
+                    className="text-gray-500 hover:text-gray-800"
+                    onClick={() => setShowPreferences(false)}
+                  >
+                    <BiArrowBack size={18} />
+                  </button>
+                )}
+                <h2
+                  className="text-sm font-semibold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {showPreferences
+                    ? "Notification Preferences"
+                    : "Notifications"}
+                </h2>
+              </div>
+              {!showPreferences && (
+                <div className="flex items-center gap-3">
+                  {unreadCount > 0 && (
+                    <button
+                      className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                      onClick={markAllReadHandler}
+                    >
+                      Mark all read
+                    </button>
+                  )}
+                  <button
+                    aria-label="Notification preferences"
+                    className="text-gray-500 hover:text-gray-800"
+                    onClick={() => setShowPreferences(true)}
+                  >
+                    <IoSettingsOutline size={18} />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {showPreferences ? (
+              <div className="max-h-[400px] overflow-auto">
+                {availableTypes.length === 0 && (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500">
+                    Your role has no notifications to configure
+                  </p>
+                )}
+                {availableTypes.map((definition) => (
+                  <div
+                    key={definition.type}
+                    className="flex items-center justify-between gap-3 px-4 py-3 border-b border-gray-100"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-gray-800">
+                        {definition.label}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {definition.description}
+                      </p>
+                    </div>
+                    <Switch
+                      isDisabled={isSavingPreferences}
+                      isChecked={
+                        !preferences.disabled_types.includes(definition.type)
+                      }
+                      onChange={(e) =>
+                        togglePreferenceHandler(
+                          definition.type,
+                          e.target.checked
+                        )
+                      }
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="max-h-[400px] overflow-auto">
+                {notifications.length === 0 && (
+                  <p className="px-4 py-6 text-sm text-center text-gray-500">
+                    You're all caught up
+                  </p>
+                )}
+                {notifications.map((notification) => (
+                  <button
+                    key={notification._id}
+                    className={`w-full text-left flex gap-3 px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                      notification.read ? "" : "bg-blue-50"
+                    }`}
+                    onClick={() => openNotificationHandler(notification)}
+                  >
+                    <span
+                      className={`mt-1.5 w-2 h-2 flex-shrink-0 rounded-full ${
+                        notification.read ? "bg-transparent" : "bg-blue-500"
+                      }`}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-500">
+                        {getNotificationDefinition(notification.type)?.label}
+                      </p>
+                      <p className="text-sm font-medium text-gray-800">
+                        {notification.title}
+                      </p>
+                      {notification.message && (
+                        <p className="text-xs text-gray-600 truncate">
+                          {notification.message}
+                        </p>
+                      )}
+                      <p className="text-[11px] text-gray-400 mt-1">
+                        {new Date(notification.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </ClickMenu>
+      )}
+    </div>
+  );
+};
+
+export default NotificationCenter;
@@ -0,0 +1,167 @@
+// @ts-nocheck
+import React from "react";
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+  Svg,
+  Rect,
+} from "@react-pdf/renderer";
+import {
+  encodeCode128,
+  getPackageQty,
+  getSalePackages,
+} from "../utils/packaging";
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 14,
+    fontSize: 9,
+    fontFamily: "Helvetica",
+  },
+  label: {
+    border: "1.5px solid #000",
+    flex: 1,
+  },
+  row: {
+    flexDirection: "row",
+    borderBottom: "1px solid #000",
+  },
+  cell: {
+    flex: 1,
+    padding: 6,
+  },
+  cellDivider: {
+    borderRight: "1px solid #000",
+  },
+  sectionLabel: {
+    fontSize: 7,
+    fontWeight: "bold",
+    color: "#333",
+    textTransform: "uppercase",
+    marginBottom: 2,
+  },
+  sectionValue: {
+    fontSize: 10,
+  },
+  bigValue: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  barcodeSection: {
+    padding: 8,
+    alignItems: "center",
+  },
+  barcodeText: {
+    marginTop: 4,
+    fontSize: 10,
+    letterSpacing: 1,
+  },
+});
+
+const Barcode = ({ value, width = 240, height = 60 }) => {
+  const modules = encodeCode128(value);
+  const moduleWidth = width / modules.length;
+  return (
+    <Svg width={width} height={height}>
+      {modules.map((isBar, index) =>
+        isBar ? (
+          <Rect
+            key={index}
+            x={index * moduleWidth}
+            y={0}
+            width={moduleWidth}
+            height={height}
+            fill="#000"
+          />
+        ) : null
+      )}
+    </Svg>
+  );
+};
+
+// 4 x 6 inch labels, one package per page
+const PackageLabelPDF = ({ packages, allPackages, userData }: any) => {
+  return (
+    <Document>
+      {packages.map((pkg) => {
+        const siblings = getSalePackages(
+          pkg.sales_order?._id || pkg.sales_order,
+          allPackages
+        ).filter((p) => p.type === pkg.type);
+        const position = siblings.findIndex((p) => p._id === pkg._id) + 1;
+
+        return (
+          <Page key={pkg._id} size={[288, 432]} style={styles.page}>
+            <View style={styles.label}>
+              <View style={styles.row}>
+                <View style={[styles.cell, styles.cellDivider]}>
+                  <Text style={styles.sectionLabel}>From</Text>
+                  <Text style={styles.sectionValue}>
+                    {userData?.cpny_name || "N/A"}
+                  </Text>
+                </View>
+                <View style={styles.cell}>
+                  <Text style={styles.sectionLabel}>Ship To</Text>
+                  <Text style={styles.sectionValue}>
+                    {pkg.merchant_name || "N/A"}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.row}>
+                <View style={[styles.cell, styles.cellDivider]}>
+                  <Text style={styles.sectionLabel}>Sales Order</Text>
+                  <Text style={styles.sectionValue}>{pkg.order_id}</Text>
+                </View>
+                <View style={styles.cell}>
+                  <Text style={styles.sectionLabel}>{pkg.type}</Text>
+                  <Text style={styles.sectionValue}>
+                    {position > 0 ? `${position} of ${siblings.length}` : "-"}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.row}>
+                <View style={styles.cell}>
+                  <Text style={styles.sectionLabel}>Item</Text>
+                  <Text style={styles.sectionValue}>{pkg.item_name}</Text>
+                </View>
+              </View>
+
+              <View style={styles.row}>
+                <View style={[styles.cell, styles.cellDivider]}>
+                  <Text style={styles.sectionLabel}>Quantity</Text>
+                  <Text style={styles.bigValue}>
+                    {getPackageQty(pkg, allPackages)}
+                  </Text>
+                </View>
+                <View style={[styles.cell, styles.cellDivider]}>
+                  <Text style={styles.sectionLabel}>Gross Wt.</Text>
+                  <Text style={styles.sectionValue}>
+                    {pkg.gross_weight ? `${pkg.gross_weight} kg` : "-"}
+                  </Text>
+                </View>
+                <View style={styles.cell}>
+                  <Text style={styles.sectionLabel}>Dimensions</Text>
+                  <Text style={styles.sectionValue}>
+                    {pkg.dimensions || "-"}
+                  </Text>
+                </View>
+              </View>
+
+              <View style={styles.barcodeSection}>
+                <Barcode value={pkg.package_id} />
+                <Text style={styles.barcodeText}>{pkg.package_id}</Text>
+              </View>
+            </View>
+          </Page>
+        );
+      })}
+    </Document>
+  );
+};
+
+export default PackageLabelPDF;
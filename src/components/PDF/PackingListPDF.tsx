@@ -0,0 +1,248 @@
+// @ts-nocheck
+import React from "react";
+import { Document, Page, Text, View, StyleSheet } from "@react-pdf/renderer";
+import { getPackageQty, getPackedQty } from "../utils/packaging";
+
+const styles = StyleSheet.create({
+  page: {
+    padding: 30,
+    fontSize: 10,
+    fontFamily: "Helvetica",
+  },
+  title: {
+    fontSize: 18,
+    textAlign: "center",
+    marginBottom: 20,
+    fontWeight: "bold",
+    textDecoration: "underline",
+  },
+  headerSection: {
+    border: "1.5px solid #000",
+    marginBottom: 15,
+  },
+  headerRow: {
+    flexDirection: "row",
+    borderBottom: "1px solid #000",
+  },
+  headerCell: {
+    width: "50%",
+    padding: 8,
+    borderRight: "1px solid #000",
+  },
+  headerCellLast: {
+    width: "50%",
+    padding: 8,
+  },
+  sectionLabel: {
+    fontSize: 10,
+    fontWeight: "bold",
+    marginBottom: 4,
+    color: "#333",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  sectionValue: {
+    fontSize: 11,
+    lineHeight: 1.3,
+    color: "#000",
+  },
+  table: {
+    width: "100%",
+    border: "1.5px solid #000",
+    marginTop: 10,
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottom: "1px solid #000",
+  },
+  tableHeader: {
+    backgroundColor: "#f0f0f0",
+    fontWeight: "bold",
+  },
+  col1: {
+    width: "8%",
+    padding: 6,
+    borderRight: "1px solid #000",
+    textAlign: "center",
+  },
+  col2: {
+    width: "24%",
+    padding: 6,
+    borderRight: "1px solid #000",
+  },
+  col3: {
+    width: "14%",
+    padding: 6,
+    borderRight: "1px solid #000",
+    textAlign: "center",
+  },
+  col4: {
+    width: "20%",
+    padding: 6,
+    borderRight: "1px solid #000",
+  },
+  col5: {
+    width: "10%",
+    padding: 6,
+    borderRight: "1px solid #000",
+    textAlign: "center",
+  },
+  col6: {
+    width: "12%",
+    padding: 6,
+    borderRight: "1px solid #000",
+    textAlign: "center",
+  },
+  col7: {
+    width: "12%",
+    padding: 6,
+    textAlign: "center",
+  },
+  totalRow: {
+    fontWeight: "bold",
+    backgroundColor: "#f8f8f8",
+  },
+  signatureContainer: {
+    marginTop: 30,
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  signatureBox: {
+    width: "40%",
+    border: "1px solid #000",
+    padding: 10,
+    minHeight: 70,
+    textAlign: "center",
+  },
+  signatureLabel: {
+    fontSize: 11,
+    fontWeight: "bold",
+    color: "#333",
+    textTransform: "uppercase",
+  },
+});
+
+const PackingListPDF = ({ sale, packages, userData }: any) => {
+  const pallets = packages.filter((pkg) => pkg.type === "Pallet");
+  const cartons = packages.filter((pkg) => pkg.type === "Carton");
+  const palletCode = (carton) =>
+    pallets.find((p) => p._id === (carton.pallet?._id || carton.pallet))
+      ?.package_id || "-";
+  // A pallet's gross weight already includes the cartons on it
+  const totalWeight = packages
+    .filter((pkg) => pkg.type === "Pallet" || !pkg.pallet)
+    .reduce((sum, pkg) => sum + (+pkg.gross_weight || 0), 0);
+
+  return (
+    <Document>
+      <Page size="A4" style={styles.page}>
+        <Text style={styles.title}>PACKING LIST</Text>
+
+        <View style={styles.headerSection}>
+          <View style={styles.headerRow}>
+            <View style={styles.headerCell}>
+              <Text style={styles.sectionLabel}>Company Name</Text>
+              <Text style={styles.sectionValue}>{userData?.cpny_name}</Text>
+            </View>
+            <View style={styles.headerCellLast}>
+              <Text style={styles.sectionLabel}>Ship To</Text>
+              <Text style={styles.sectionValue}>
+                {sale?.party?.consignee_name?.[0] ||
+                  sale?.party?.company_name ||
+                  "N/A"}
+              </Text>
+              <Text style={styles.sectionValue}>
+                {sale?.party?.shipped_to || sale?.party?.bill_to || ""}
+              </Text>
+            </View>
+          </View>
+          <View style={[styles.headerRow, { borderBottom: 0 }]}>
+            <View style={styles.headerCell}>
+              <Text style={styles.sectionLabel}>Sales Order</Text>
+              <Text style={styles.sectionValue}>{sale?.order_id}</Text>
+            </View>
+            <View style={styles.headerCellLast}>
+              <Text style={styles.sectionLabel}>Date</Text>
+              <Text style={styles.sectionValue}>
+                {new Date().toLocaleDateString()}
+              </Text>
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.table}>
+          <View style={[styles.tableRow, styles.tableHeader]}>
+            <Text style={styles.col1}>S. No.</Text>
+            <Text style={styles.col2}>Package</Text>
+            <Text style={styles.col3}>Pallet</Text>
+            <Text style={styles.col4}>Item</Text>
+            <Text style={styles.col5}>Qty</Text>
+            <Text style={styles.col6}>Gross Wt.</Text>
+            <Text style={styles.col7}>Dimensions</Text>
+          </View>
+
+          {cartons.map((carton, index) => (
+            <View key={carton._id} style={styles.tableRow}>
+              <Text style={styles.col1}>{index + 1}</Text>
+              <Text style={styles.col2}>{carton.package_id}</Text>
+              <Text style={styles.col3}>{palletCode(carton)}</Text>
+              <Text style={styles.col4}>{carton.item_name}</Text>
+              <Text style={styles.col5}>{carton.quantity}</Text>
+              <Text style={styles.col6}>
+                {carton.gross_weight ? `${carton.gross_weight} kg` : "-"}
+              </Text>
+              <Text style={styles.col7}>{carton.dimensions || "-"}</Text>
+            </View>
+          ))}
+
+          {pallets.map((pallet) => (
+            <View key={pallet._id} style={styles.tableRow}>
+              <Text style={styles.col1}></Text>
+              <Text style={styles.col2}>{pallet.package_id}</Text>
+              <Text style={styles.col3}>Pallet</Text>
+              <Text style={styles.col4}>{pallet.item_name}</Text>
+              <Text style={styles.col5}>
+                {getPackageQty(pallet, packages)}
+              </Text>
+              <Text style={styles.col6}>
+                {pallet.gross_weight ? `${pallet.gross_weight} kg` : "-"}
+              </Text>
+              <Text style={styles.col7}>{pallet.dimensions || "-"}</Text>
+            </View>
+          ))}
+
+          <View style={[styles.tableRow, styles.totalRow]}>
+            <Text style={styles.col1}></Text>
+            <Text style={styles.col2}>
+              {cartons.length} cartons, {pallets.length} pallets
+            </Text>
+            <Text style={styles.col3}></Text>
+            <Text style={styles.col4}>Total</Text>
+            <Text style={styles.col5}>{getPackedQty(packages)}</Text>
+            <Text style={styles.col6}>
+              {totalWeight ? `${totalWeight} kg` : "-"}
+            </Text>
+            <Text style={styles.col7}></Text>
+          </View>
+        </View>
+
+        <View style={styles.signatureContainer}>
+          <View style={styles.signatureBox}>
+            <Text style={styles.signatureLabel}>Packed By</Text>
+            <Text style={{ marginTop: 35, fontSize: 10 }}>
+              _________________________
+            </Text>
+          </View>
+          <View style={styles.signatureBox}>
+            <Text style={styles.signatureLabel}>Checked By</Text>
+            <Text style={{ marginTop: 35, fontSize: 10 }}>
+              _________________________
+            </Text>
+          </View>
+        </View>
+      </Page>
+    </Document>
+  );
+};
+
+export default PackingListPDF;
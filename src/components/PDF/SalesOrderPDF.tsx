@@ -2,6 +2,14 @@
 import React from "react";
 import { Document, Page, Text, View, StyleSheet } from "@react-pdf/renderer";
 import { ToWords } from "to-words";
+import {
+  formatDeliveryDate,
+  getLineGst,
+  getLineSubtotal,
+  getLineTotal,
+  getSaleItems,
+  getSaleTotals,
+} from "../utils/salesOrders";
 
 const styles = StyleSheet.create({
   page: {
@@ -130,6 +138,11 @@ const styles = StyleSheet.create({
     textAlign: "center",
     fontSize: 10,
   },
+  deliveryDate: {
+    fontSize: 8,
+    color: "#555",
+    marginTop: 2,
+  },
   totalRow: {
     fontWeight: "bold",
     backgroundColor: "#f8f8f8",
@@ -231,10 +244,8 @@ const toWords = new ToWords({
 });
 
 const SalesOrderPDF = ({ sale,userData }: any) => {
-  const subtotal = sale.price * sale.product_qty;
-  const gstAmount = (subtotal * sale.GST) / 100;
-  const total = subtotal + gstAmount;
-  console.log("the sale user data is:::",userData)
+  const items = getSaleItems(sale);
+  const { quantity, subtotal, gst: gstAmount, total } = getSaleTotals(items);
 
   return (
     <Document>
@@ -298,20 +309,31 @@ const SalesOrderPDF = ({ sale,userData }: any) => {
             <Text style={styles.col6}>Total Price</Text>
           </View>
 
-          <View style={styles.tableRow}>
-            <Text style={styles.col1}>1</Text>
-            <Text style={styles.col2}>
-              {sale.product_id?.[0]?.name || "N/A"}
-            </Text>
-            <Text style={styles.col3}>{sale.product_qty}</Text>
-            <Text style={styles.col4}>{subtotal.toFixed(2)}</Text>
-            <Text style={styles.col5}>{sale.GST}%</Text>
-            <Text style={styles.col6}>{total.toFixed(2)}</Text>
-          </View>
+          {items.map((item, i) => (
+            <View key={`item-${i}`} style={styles.tableRow}>
+              <Text style={styles.col1}>{i + 1}</Text>
+              <View style={styles.col2}>
+                <Text>{item.name || "N/A"}</Text>
+                <Text style={styles.deliveryDate}>
+                  Delivery: {formatDeliveryDate(item.delivery_date)}
+                </Text>
+              </View>
+              <Text style={styles.col3}>
+                {item.quantity} {item.uom}
+              </Text>
+              <Text style={styles.col4}>
+                {getLineSubtotal(item).toFixed(2)}
+              </Text>
+              <Text style={styles.col5}>
+                {getLineGst(item).toFixed(2)} ({item.GST}%)
+              </Text>
+              <Text style={styles.col6}>{getLineTotal(item).toFixed(2)}</Text>
+            </View>
+          ))}
 
           {/* Empty rows for spacing */}
-          {[...Array(5)].map((_, i) => (
-            <View key={i} style={styles.tableRow}>
+          {[...Array(Math.max(0, 6 - items.length))].map((_, i) => (
+            <View key={`filler-${i}`} style={styles.tableRow}>
               <Text style={styles.col1}></Text>
               <Text style={styles.col2}></Text>
               <Text style={styles.col3}></Text>
@@ -325,7 +347,7 @@ const SalesOrderPDF = ({ sale,userData }: any) => {
           <View style={[styles.tableRow, styles.totalRow]}>
             <Text style={styles.col1}></Text>
             <Text style={styles.col2}>Total</Text>
-            <Text style={styles.col3}>{sale.product_qty}</Text>
+            <Text style={styles.col3}>{quantity}</Text>
             <Text style={styles.col4}>{subtotal.toFixed(2)}</Text>
             <Text style={styles.col5}>{gstAmount.toFixed(2)}</Text>
             <Text style={styles.col6}>{total.toFixed(2)}</Text>
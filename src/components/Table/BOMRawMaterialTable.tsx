@@ -36,8 +36,7 @@ import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
 import { FaArrowDownLong, FaArrowUpLong } from "react-icons/fa6";
 import { toast } from "react-toastify";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import { useMarkInventoryInTransitMutation } from "../../redux/api/api";
 
 const statusColorMap = {
   "production started": "bg-green-100 text-green-800",
@@ -73,38 +72,6 @@ interface BOMRawMaterialTableProps {
   onRefresh?: () => void;
   isApproved: boolean;
 }
-//newwww
-const updateProcessStatus = async (id, status) => {
-  try {
-    const res = await fetch(
-      `${process.env.REACT_APP_BACKEND_URL}production-process/update-status`,
-      {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${cookies?.access_token}`, // optional
-        },
-        body: JSON.stringify({ _id: id, status }),
-      }
-    );
-
-    const data = await res.json();
-    if (!data.success) {
-      throw new Error(data.message);
-    }
-
-    toast.success(data.message || "Status updated");
-    // Trigger a re-fetch instead of full page reload
-    if (typeof window !== "undefined") {
-      // Force a re-render by updating a state or calling a refresh function
-      setTimeout(() => {
-        window.dispatchEvent(new Event("resize"));
-      }, 100);
-    }
-  } catch (err) {
-    toast.error(err.message || "Failed to update status");
-  }
-};
 
 const BOMRawMaterialTable: React.FC<BOMRawMaterialTableProps> = ({
   products = [],
@@ -206,25 +173,12 @@ const BOMRawMaterialTable: React.FC<BOMRawMaterialTableProps> = ({
     ],
     []
   );
-  const [cookies] = useCookies();
+  const [markInventoryInTransit] = useMarkInventoryInTransitMutation();
 
   //  console.log(`process.env.REACT_APP_BACKEND_URL: ${process.env.REACT_APP_BACKEND_URL}`);
   const handleOutAllottedInventory = async (process_id) => {
     try {
-      const res = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/inventory-in-transit`,
-        { _id: process_id },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+      await markInventoryInTransit(process_id).unwrap();
 
       toast.success("Status updated to Inventory in Transit");
 
@@ -572,7 +526,7 @@ const BOMRawMaterialTable: React.FC<BOMRawMaterialTableProps> = ({
                                   : colors.success[600],
                             }}
                             onClick={() => {
-                              approveProductHandler(original._id);
+                              approveProductHandler?.(original._id);
                             }}
                             leftIcon={<FaCheckCircle />}
                             disabled={
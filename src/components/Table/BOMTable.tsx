@@ -30,7 +30,65 @@ import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
 import { useCookies } from "react-cookie";
 import BOMPDF from "../PDF/BOMPDF";
-import axios from 'axios'
+import TableViews, {
+  renderBodyCells,
+  renderHeaderCells,
+} from "./TableViews";
+import { TableColumn, useColumnLayout } from "../utils/tableViews";
+import ExportMenu from "./ExportMenu";
+import { SortingRule, serverTableOptions } from "../utils/tableQuery";
+import { ListArgs, User } from "../../redux/api/types";
+import {
+  useBulkDeleteBomsMutation,
+  useLazyBomDetailsQuery,
+  useLazyEmployeeDetailsQuery,
+} from "../../redux/api/api";
+import {
+  ExportColumn,
+  formatExportDate,
+  getVisibleExportColumns,
+} from "../utils/tableExport";
+import {
+  bomRevisionStatusColorMap,
+  getRevisionLabel,
+  getRevisionStatus,
+} from "../utils/bomRevisions";
+
+const bomColumns: TableColumn[] = [
+  { id: "bom_id", label: "BOM ID" },
+  { id: "bom_name", label: "BOM Name" },
+  { id: "revision", label: "Revision" },
+  { id: "parts_count", label: "Parts Count" },
+  { id: "total_cost", label: "Total Cost" },
+  { id: "createdAt", label: "Created On" },
+  { id: "updatedAt", label: "Last Updated" },
+];
+
+const bomExportColumns: ExportColumn[] = [
+  { id: "bom_id", label: "BOM ID", value: (bom) => bom.bom_id },
+  { id: "bom_name", label: "BOM Name", value: (bom) => bom.bom_name },
+  {
+    id: "revision",
+    label: "Revision",
+    value: (bom) => `${getRevisionLabel(bom)} (${getRevisionStatus(bom)})`,
+  },
+  {
+    id: "parts_count",
+    label: "Parts Count",
+    value: (bom) => bom.parts_count,
+  },
+  { id: "total_cost", label: "Total Cost", value: (bom) => bom.total_cost },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (bom) => formatExportDate(bom.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Last Updated",
+    value: (bom) => formatExportDate(bom.updatedAt),
+  },
+];
 
 interface BOMTableProps {
   boms: Array<{
@@ -48,6 +106,12 @@ interface BOMTableProps {
   deleteBomHandler?: (id: string) => void;
   approveBomHandler?: (id: string) => void;
   refreshBoms?: () => void; // Add refresh function prop
+  // Given when `boms` is one page of a server-side list
+  totalBoms?: number;
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
+  fetchAllBoms?: () => Promise<any[]>;
+  listParams?: ListArgs;
 }
 
 const BOMTable: React.FC<BOMTableProps> = ({
@@ -58,10 +122,20 @@ const BOMTable: React.FC<BOMTableProps> = ({
   deleteBomHandler,
   approveBomHandler,
   refreshBoms,
+  totalBoms,
+  sortBy,
+  onSortByChange,
+  fetchAllBoms,
+  listParams,
 }) => {
+  const isServerSide = !!onSortByChange;
+  const columnLayout = useColumnLayout("boms", bomColumns);
   const [showDeletePage, setshowDeletePage] = useState(false);
   const [deleteId, setdeleteId] = useState("");
   const [cookies] = useCookies();
+  const [fetchBomDetails] = useLazyBomDetailsQuery();
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
+  const [bulkDeleteBoms] = useBulkDeleteBomsMutation();
 
   // Bulk selection states
   const [selectedBoms, setSelectedBoms] = useState([]);
@@ -75,17 +149,7 @@ const BOMTable: React.FC<BOMTableProps> = ({
   const fetchBomForPDF = async (bomId: string) => {
     try {
       setIsGeneratingPDF(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + `bom/${bomId}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) throw new Error(data.message);
+      const data = await fetchBomDetails(bomId).unwrap();
       return data.bom;
     } catch (error: any) {
       toast.error(error?.message || "Failed to fetch BOM data");
@@ -95,31 +159,21 @@ const BOMTable: React.FC<BOMTableProps> = ({
     }
   };
 
-  const [userData, setUserData] = useState<PurchaseOrder | null>(null);
-    
-       // NEW: Function to fetch purchase order data from API
-      const fetchUserData = async () => {
-        try {
-          const response = await axios.get(`${process.env.REACT_APP_BACKEND_URL}auth/user`, {
-            headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          });
-    
-          if (response.data.success) {
-            setUserData(response.data.user); // Assuming API returns data in `data` field
-          } else {
-            console.error("Failed to fetch user data:", response.data.message);
-            toast.error("Failed to fetch user data");
-          }
-        } catch (error: any) {
-          console.error("Error fetching user data:", error);
-          toast.error(error.message || "Failed to fetch user data");
-        }
-      };
-    
-      // NEW: useEffect to fetch user data on component mount
-      useEffect(() => {
-        fetchUserData();
-      }, []); // Empty dependency array ensures it runs only on mount
+  // Signed in user, printed on the BOM PDF
+  const [userData, setUserData] = useState<User | null>(null);
+
+  const fetchUserData = async () => {
+    try {
+      const response = await fetchEmployeeDetails({}).unwrap();
+      setUserData(response.user);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Failed to fetch user data");
+    }
+  };
+
+  useEffect(() => {
+    fetchUserData();
+  }, []);
   
 
   // Handle PDF download with complete BOM data
@@ -157,12 +211,13 @@ const BOMTable: React.FC<BOMTableProps> = ({
     getTableBodyProps,
     headerGroups,
     prepareRow,
+    rows,
     page,
     nextPage,
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex, pageSize },
+    state: { pageIndex, pageSize, sortBy: tableSortBy },
     pageCount,
     setPageSize,
   }: TableInstance<{
@@ -176,12 +231,19 @@ const BOMTable: React.FC<BOMTableProps> = ({
     {
       columns,
       data: boms,
-      initialState: { pageIndex: 0 },
+      initialState: { pageIndex: 0, sortBy: sortBy || [] },
+      ...(isServerSide ? serverTableOptions : {}),
     },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
+  const bomCount = totalBoms ?? boms.length;
+
   // Bulk selection functions
   const handleSelectAll = (checked) => {
     if (checked) {
@@ -204,24 +266,7 @@ const BOMTable: React.FC<BOMTableProps> = ({
     setIsBulkDeleting(true);
 
     try {
-      // Call the bulk delete API endpoint
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}bom/bulk-delete`,
-        {
-          method: "DELETE",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ ids: selectedBoms }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || "Failed to delete BOMs");
-      }
+      const data = await bulkDeleteBoms(selectedBoms).unwrap();
 
       // Single success toast message
       toast.success(
@@ -312,7 +357,7 @@ const BOMTable: React.FC<BOMTableProps> = ({
                   className="text-lg font-semibold"
                   style={{ color: colors.text.primary }}
                 >
-                  {boms.length} BOM{boms.length !== 1 ? "s" : ""} Found
+                  {bomCount} BOM{bomCount !== 1 ? "s" : ""} Found
                 </h3>
                 {/* {selectedBoms.length > 0 && (
                   <p
@@ -371,29 +416,53 @@ const BOMTable: React.FC<BOMTableProps> = ({
               )}
             </div>
 
-            <div className="flex items-center gap-3">
-              <span
-                className="text-sm font-medium"
-                style={{ color: colors.text.secondary }}
-              >
-                Show:
-              </span>
-              <select
-                onChange={(e) => setPageSize(Number(e.target.value))}
-                value={pageSize}
-                className="px-3 py-2 text-sm rounded-lg border transition-colors"
-                style={{
-                  backgroundColor: colors.input.background,
-                  borderColor: colors.border.light,
-                  color: colors.text.primary,
-                }}
-              >
-                {[5, 10, 20, 50, 100, 100000].map((size) => (
-                  <option key={size} value={size}>
-                    {size === 100000 ? "All" : size}
-                  </option>
-                ))}
-              </select>
+            <div className="flex flex-wrap items-center gap-3">
+              <TableViews table="boms" columnLayout={columnLayout} />
+              <ExportMenu
+                module="bom"
+                fileName="BOM_List"
+                columns={getVisibleExportColumns(
+                  bomExportColumns,
+                  columnLayout.visibleIds
+                ).filter(
+                  (column) =>
+                    column.id !== "total_cost" || cookies?.role === "admin"
+                )}
+                hiddenFields={cookies?.role === "admin" ? [] : ["total_cost"]}
+                rows={
+                  isServerSide ? undefined : rows.map((row) => row.original)
+                }
+                fetchRows={fetchAllBoms}
+                totalRows={totalBoms}
+                resource={isServerSide ? "bom" : undefined}
+                params={listParams}
+              />
+              {!isServerSide && (
+                <>
+                  <span
+                    className="text-sm font-medium"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    Show:
+                  </span>
+                  <select
+                    onChange={(e) => setPageSize(Number(e.target.value))}
+                    value={pageSize}
+                    className="px-3 py-2 text-sm rounded-lg border transition-colors"
+                    style={{
+                      backgroundColor: colors.input.background,
+                      borderColor: colors.border.light,
+                      color: colors.text.primary,
+                    }}
+                  >
+                    {[5, 10, 20, 50, 100, 100000].map((size) => (
+                      <option key={size} value={size}>
+                        {size === 100000 ? "All" : size}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
             </div>
           </div>
 
@@ -431,42 +500,64 @@ const BOMTable: React.FC<BOMTableProps> = ({
                         />
                       </th>
                     )}
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      BOM ID
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      BOM Name
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Parts Count
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Total Cost
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Created On
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Last Updated
-                    </th>
+                    {renderHeaderCells(columnLayout, {
+                      bom_id: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          BOM ID
+                        </th>
+                      ),
+                      bom_name: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          BOM Name
+                        </th>
+                      ),
+                      revision: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Revision
+                        </th>
+                      ),
+                      parts_count: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Parts Count
+                        </th>
+                      ),
+                      total_cost: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Total Cost
+                        </th>
+                      ),
+                      createdAt: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Created On
+                        </th>
+                      ),
+                      updatedAt: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Last Updated
+                        </th>
+                      ),
+                    })}
                     <th
                       className="px-4 py-3 text-center text-sm font-semibold whitespace-nowrap"
                       style={{ color: colors.table.headerText }}
@@ -478,15 +569,16 @@ const BOMTable: React.FC<BOMTableProps> = ({
                 <tbody>
                   {page.map((row: any, index) => {
                     prepareRow(row);
+                    const rowBackground =
+                      index % 2 === 0
+                        ? colors.background.card
+                        : colors.table.stripe;
                     return (
                       <tr
                         key={row.id}
                         className="transition-colors hover:shadow-sm"
                         style={{
-                          backgroundColor:
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe,
+                          backgroundColor: rowBackground,
                           borderBottom: `1px solid ${colors.table.border}`,
                         }}
                         onMouseEnter={(e) => {
@@ -495,9 +587,7 @@ const BOMTable: React.FC<BOMTableProps> = ({
                         }}
                         onMouseLeave={(e) => {
                           e.currentTarget.style.backgroundColor =
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe;
+                            rowBackground;
                         }}
                       >
                         {cookies?.role === "admin" && (
@@ -522,62 +612,90 @@ const BOMTable: React.FC<BOMTableProps> = ({
                             />
                           </td>
                         )}
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap font-mono"
-                          style={{ color: colors.text.secondary }}
-                          title={row.original._id}
-                        >
-                          {row.original.bom_id || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm font-medium whitespace-nowrap truncate max-w-xs"
-                          style={{ color: colors.text.primary }}
-                          title={row.original.bom_name}
-                        >
-                          {row.original.bom_name || "—"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          <span
-                            className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
-                            style={{
-                              backgroundColor: colors.primary[100],
-                              color: colors.primary[700],
-                            }}
-                          >
-                            {row.original.parts_count || "0"} parts
-                          </span>
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm font-medium whitespace-nowrap"
-                          style={{ color: colors.success[600] }}
-                        >
-                          {cookies?.role === "admin"
-                            ? `₹${row.original.total_cost}`
-                            : "₹*****"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.createdAt
-                            ? moment(row.original.createdAt).format(
-                                "DD/MM/YYYY"
-                              )
-                            : "—"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.updatedAt
-                            ? moment(row.original.updatedAt).format(
-                                "DD/MM/YYYY"
-                              )
-                            : "—"}
-                        </td>
+                        {renderBodyCells(columnLayout, rowBackground, {
+                          bom_id: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap font-mono"
+                              style={{ color: colors.text.secondary }}
+                              title={row.original._id}
+                            >
+                              {row.original.bom_id || "N/A"}
+                            </td>
+                          ),
+                          bom_name: (
+                            <td
+                              className="px-4 py-3 text-sm font-medium whitespace-nowrap truncate max-w-xs"
+                              style={{ color: colors.text.primary }}
+                              title={row.original.bom_name}
+                            >
+                              {row.original.bom_name || "—"}
+                            </td>
+                          ),
+                          revision: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                              <span
+                                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                                  bomRevisionStatusColorMap[
+                                    getRevisionStatus(row.original)
+                                  ]
+                                }`}
+                              >
+                                {getRevisionLabel(row.original)} ·{" "}
+                                {getRevisionStatus(row.original)}
+                              </span>
+                            </td>
+                          ),
+                          parts_count: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              <span
+                                className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                                style={{
+                                  backgroundColor: colors.primary[100],
+                                  color: colors.primary[700],
+                                }}
+                              >
+                                {row.original.parts_count || "0"} parts
+                              </span>
+                            </td>
+                          ),
+                          total_cost: (
+                            <td
+                              className="px-4 py-3 text-sm font-medium whitespace-nowrap"
+                              style={{ color: colors.success[600] }}
+                            >
+                              {cookies?.role === "admin"
+                                ? `₹${row.original.total_cost}`
+                                : "₹*****"}
+                            </td>
+                          ),
+                          createdAt: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.createdAt
+                                ? moment(row.original.createdAt).format(
+                                    "DD/MM/YYYY"
+                                  )
+                                : "—"}
+                            </td>
+                          ),
+                          updatedAt: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.updatedAt
+                                ? moment(row.original.updatedAt).format(
+                                    "DD/MM/YYYY"
+                                  )
+                                : "—"}
+                            </td>
+                          ),
+                        })}
                         <td className="px-4 py-3 whitespace-nowrap">
                           <div className="flex items-center justify-center gap-2">
                             {openBomDetailsDrawerHandler && (
@@ -723,96 +841,98 @@ const BOMTable: React.FC<BOMTableProps> = ({
           </div>
 
           {/* Enhanced Pagination */}
-          <div
-            className="flex items-center justify-center px-6 py-4 border-t mt-4"
-            style={{
-              backgroundColor: colors.gray[50],
-              borderColor: colors.border.light,
-            }}
-          >
-            <div className="flex items-center gap-2">
-              <button
-                disabled={!canPreviousPage}
-                onClick={previousPage}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                style={{
-                  color: colors.text.primary,
-                  backgroundColor: colors.background.card,
-                  border: `1px solid ${colors.border.light}`,
-                }}
-                onMouseEnter={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor = colors.gray[50];
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor =
-                      colors.background.card;
-                  }
-                }}
-              >
-                <svg
-                  className="w-4 h-4 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+          {!isServerSide && (
+            <div
+              className="flex items-center justify-center px-6 py-4 border-t mt-4"
+              style={{
+                backgroundColor: colors.gray[50],
+                borderColor: colors.border.light,
+              }}
+            >
+              <div className="flex items-center gap-2">
+                <button
+                  disabled={!canPreviousPage}
+                  onClick={previousPage}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  style={{
+                    color: colors.text.primary,
+                    backgroundColor: colors.background.card,
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor = colors.gray[50];
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor =
+                        colors.background.card;
+                    }
+                  }}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 19l-7-7 7-7"
-                  />
-                </svg>
-                Previous
-              </button>
+                  <svg
+                    className="w-4 h-4 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M15 19l-7-7 7-7"
+                    />
+                  </svg>
+                  Previous
+                </button>
 
-              <span
-                className="mx-4 text-sm"
-                style={{ color: colors.text.secondary }}
-              >
-                Page {pageIndex + 1} of {pageCount}
-              </span>
+                <span
+                  className="mx-4 text-sm"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Page {pageIndex + 1} of {pageCount}
+                </span>
 
-              <button
-                disabled={!canNextPage}
-                onClick={nextPage}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                style={{
-                  color: colors.text.primary,
-                  backgroundColor: colors.background.card,
-                  border: `1px solid ${colors.border.light}`,
-                }}
-                onMouseEnter={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor = colors.gray[50];
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor =
-                      colors.background.card;
-                  }
-                }}
-              >
-                Next
-                <svg
-                  className="w-4 h-4 ml-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+                <button
+                  disabled={!canNextPage}
+                  onClick={nextPage}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  style={{
+                    color: colors.text.primary,
+                    backgroundColor: colors.background.card,
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor = colors.gray[50];
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor =
+                        colors.background.card;
+                    }
+                  }}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 5l7 7-7 7"
-                  />
-                </svg>
-              </button>
+                  Next
+                  <svg
+                    className="w-4 h-4 ml-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 5l7 7-7 7"
+                    />
+                  </svg>
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </>
       )}
 
@@ -7,6 +7,52 @@ import { FaCaretDown, FaCaretUp } from "react-icons/fa";
 import { FcApproval } from "react-icons/fc";
 import { usePagination, useSortBy, useTable } from "react-table";
 import { colors } from "../../theme/colors";
+import ExportMenu from "./ExportMenu";
+import {
+  ExportColumn,
+  formatExportDate,
+} from "../utils/tableExport";
+
+const employeeExportColumns: ExportColumn[] = [
+  {
+    id: "employeeId",
+    label: "Employee ID",
+    value: (employee) => employee.employeeId,
+  },
+  {
+    id: "first_name",
+    label: "First Name",
+    value: (employee) => employee.first_name,
+  },
+  {
+    id: "last_name",
+    label: "Last Name",
+    value: (employee) => employee.last_name,
+  },
+  { id: "email", label: "Email", value: (employee) => employee.email },
+  { id: "phone", label: "Phone", value: (employee) => employee.phone },
+  {
+    id: "role",
+    label: "Role",
+    value: (employee) =>
+      employee.role?.role || (employee.isSuper ? "Super Admin" : ""),
+  },
+  {
+    id: "isVerified",
+    label: "Verified",
+    value: (employee) => (employee.isVerified ? "Yes" : "No"),
+  },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (employee) => formatExportDate(employee.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Last Updated",
+    value: (employee) => formatExportDate(employee.updatedAt),
+  },
+];
 
 interface EmployeeTableProps {
   employees: Array<{
@@ -63,6 +109,7 @@ const EmployeeTable: React.FC<EmployeeTableProps> = ({
     getTableBodyProps,
     headerGroups,
     prepareRow,
+    rows,
     page,
     nextPage,
     previousPage,
@@ -149,6 +196,12 @@ const EmployeeTable: React.FC<EmployeeTableProps> = ({
             </div>
 
             <div className="flex items-center gap-3">
+              <ExportMenu
+                module="employee"
+                fileName="Employees"
+                columns={employeeExportColumns}
+                rows={rows.map((row) => row.original)}
+              />
               <span
                 className="text-sm font-medium"
                 style={{ color: colors.text.secondary }}
@@ -0,0 +1,262 @@
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import { FiDownload } from "react-icons/fi";
+import ClickMenu from "../../ui/ClickMenu";
+import { colors } from "../../theme/colors";
+import {
+  ExportFormat,
+  ExportJob,
+  ExportScope,
+  ListArgs,
+} from "../../redux/api/types";
+import {
+  useCreateExportJobMutation,
+  useLazyFetchExportJobQuery,
+} from "../../redux/api/api";
+import { useCan } from "../utils/permissions";
+import {
+  BACKGROUND_EXPORT_THRESHOLD,
+  ExportColumn,
+  buildExportRows,
+  downloadExport,
+} from "../utils/tableExport";
+
+const EXPORT_POLL_INTERVAL = 3000;
+// Ten minutes of polling before giving up on a background export
+const EXPORT_MAX_POLLS = 200;
+
+interface ExportMenuProps {
+  // Permission module whose "export" action is required
+  module: string;
+  fileName: string;
+  // Columns as shown in the table
+  columns: ExportColumn[];
+  // Record fields left out of "all fields" exports
+  hiddenFields?: string[];
+  // Filtered and sorted rows of a list that is loaded in full
+  rows?: any[];
+  // Server-side lists instead load every row matching their filters
+  fetchRows?: () => Promise<any[]>;
+  totalRows?: number;
+  // Backend resource and filters used when the list is too large to export
+  // in the browser
+  resource?: string;
+  params?: ListArgs;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  module,
+  fileName,
+  columns,
+  hiddenFields,
+  rows,
+  fetchRows,
+  totalRows,
+  resource,
+  params,
+}) => {
+  const can = useCan();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [format, setFormat] = useState<ExportFormat>("xlsx");
+  const [scope, setScope] = useState<ExportScope>("visible");
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+
+  const [createExportJob] = useCreateExportJobMutation();
+  const [fetchExportJob] = useLazyFetchExportJobQuery();
+
+  // Background exports stop polling once the menu unmounts
+  const pollControllerRef = useRef<AbortController>();
+  useEffect(() => {
+    const controller = new AbortController();
+    pollControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  if (!can(module, "export")) return null;
+
+  const rowCount = totalRows ?? rows?.length ?? 0;
+  const runsInBackground =
+    !!resource && rowCount > BACKGROUND_EXPORT_THRESHOLD;
+
+  // Resolves to undefined when polling was aborted
+  const waitForExportJob = async (
+    jobId: string,
+    signal?: AbortSignal
+  ): Promise<ExportJob | undefined> => {
+    for (let poll = 0; poll < EXPORT_MAX_POLLS; poll++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, EXPORT_POLL_INTERVAL)
+      );
+      if (signal?.aborted) return undefined;
+      const response = await fetchExportJob(jobId).unwrap();
+      const job: ExportJob = response.job;
+      if (job.status === "failed") {
+        throw new Error(job.error || "Export failed");
+      }
+      if (job.status === "completed") return job;
+    }
+    throw new Error("The export is taking too long, please try again later");
+  };
+
+  const backgroundExportHandler = async () => {
+    if (!resource) return;
+    const response = await createExportJob({
+      resource,
+      format,
+      scope,
+      columns:
+        scope === "visible"
+          ? columns.map(({ id, label }) => ({ field: id, label }))
+          : undefined,
+      hidden_fields: hiddenFields,
+      params: { ...params, page: undefined, limit: undefined },
+    }).unwrap();
+    toast.info(
+      "Your export is being prepared, we will let you know when it is ready"
+    );
+    setIsOpen(false);
+
+    // Not awaited so the menu is free again while the backend works
+    const signal = pollControllerRef.current?.signal;
+    waitForExportJob(response.job._id, signal)
+      .then((job) => {
+        if (!job) return;
+        toast.success(
+          <a href={job.file_url} target="_blank" rel="noreferrer">
+            Your export is ready. Click to download.
+          </a>,
+          { autoClose: false }
+        );
+      })
+      .catch((error: any) => {
+        if (signal?.aborted) return;
+        toast.error(error?.message || "Export failed");
+      });
+  };
+
+  const exportHandler = async () => {
+    setIsExporting(true);
+    try {
+      if (runsInBackground) {
+        await backgroundExportHandler();
+        return;
+      }
+
+      const data = fetchRows ? await fetchRows() : rows || [];
+      if (data.length === 0) {
+        toast.warning("No data available to export");
+        return;
+      }
+      downloadExport(
+        buildExportRows(data, columns, scope, hiddenFields),
+        fileName,
+        format
+      );
+      setIsOpen(false);
+    } catch (error: any) {
+      toast.error(error?.message || "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionStyle = (isActive: boolean) => ({
+    backgroundColor: isActive ? colors.primary[50] : colors.background.card,
+    borderColor: isActive ? colors.primary[300] : colors.border.medium,
+    color: isActive ? colors.primary[700] : colors.text.primary,
+  });
+
+  return (
+    <div className="relative">
+      <button
+        className="inline-flex items-center gap-2 px-3 py-2 border rounded-lg text-sm"
+        style={{
+          borderColor: colors.border.medium,
+          color: colors.text.primary,
+          backgroundColor: colors.background.card,
+        }}
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <FiDownload size={16} />
+        Export
+      </button>
+
+      {isOpen && (
+        <ClickMenu
+          top={44}
+          right={0}
+          closeContextMenuHandler={() => setIsOpen(false)}
+        >
+          <div className="bg-white rounded-xl shadow-xl border border-gray-200 w-[280px] p-4 space-y-4">
+            <div>
+              <p
+                className="text-xs font-medium mb-2"
+                style={{ color: colors.text.secondary }}
+              >
+                Format
+              </p>
+              <div className="flex gap-2">
+                {(["xlsx", "csv"] as const).map((value) => (
+                  <button
+                    key={value}
+                    className="flex-1 px-3 py-1.5 text-sm rounded-lg border uppercase"
+                    style={optionStyle(format === value)}
+                    onClick={() => setFormat(value)}
+                  >
+                    {value}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p
+                className="text-xs font-medium mb-2"
+                style={{ color: colors.text.secondary }}
+              >
+                Columns
+              </p>
+              <div className="flex gap-2">
+                {(
+                  [
+                    { value: "visible", label: "Visible only" },
+                    { value: "all", label: "All fields" },
+                  ] as const
+                ).map((option) => (
+                  <button
+                    key={option.value}
+                    className="flex-1 px-3 py-1.5 text-sm rounded-lg border"
+                    style={optionStyle(scope === option.value)}
+                    onClick={() => setScope(option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-xs" style={{ color: colors.text.secondary }}>
+              {rowCount} row{rowCount === 1 ? "" : "s"} matching the current
+              filters
+              {runsInBackground && " will be exported in the background"}
+            </p>
+
+            <button
+              className="w-full px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50"
+              style={{
+                backgroundColor: colors.button.primary,
+                color: colors.text.inverse,
+              }}
+              disabled={isExporting || rowCount === 0}
+              onClick={exportHandler}
+            >
+              {isExporting ? "Exporting..." : "Export"}
+            </button>
+          </div>
+        </ClickMenu>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
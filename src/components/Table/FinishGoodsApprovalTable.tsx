@@ -1,8 +1,7 @@
 //@ts-nocheck
 import React from "react";
-import axios from "axios";
-import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
+import { useReceiveByInventoryMutation } from "../../redux/api/api";
 
 const colors = {
   border: { light: "#e5e7eb" },
@@ -37,30 +36,19 @@ const FinishedGoodsTable = ({
   onApprove,
   onRefresh,
 }) => {
-  const [cookies] = useCookies();
+  const [receiveByInventoryMutation] = useReceiveByInventoryMutation();
 
   const receiveByInventory = async (id) => {
     try {
-      const baseURL = process.env.REACT_APP_BACKEND_URL || "";
-
-      const res = await axios.post(
-        `${baseURL}production-process/receive-by-inventory`,
-        { id: id },
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-            "Content-Type": "application/json",
-          },
-        }
-      );
+      const res = await receiveByInventoryMutation(id).unwrap();
       if(onRefresh){
         onRefresh()
       }      
       // window.location.reload()  
-      toast.success(res?.data?.message || "Goods received by inventory!");
+      toast.success(res?.message || "Goods received by inventory!");
     } catch (err) {
       console.error(err);
-      toast.error(err.response?.data?.message || "Error receiving goods");
+      toast.error(err?.message || "Error receiving goods");
     }
   };
 
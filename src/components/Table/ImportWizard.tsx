@@ -0,0 +1,519 @@
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { AiFillFileExcel } from "react-icons/ai";
+import { RxCross2 } from "react-icons/rx";
+import { colors } from "../../theme/colors";
+import {
+  useLazyFetchProductsQuery,
+  useLazyFetchStoresQuery,
+} from "../../redux/api/api";
+import {
+  ImportConfig,
+  ImportLookups,
+  ImportMapping,
+  ImportRowResult,
+  ParsedImportFile,
+  buildImportFile,
+  downloadImportErrors,
+  downloadImportTemplate,
+  emptyImportLookups,
+  guessImportMapping,
+  isValidImportRow,
+  parseImportFile,
+  validateImportRows,
+} from "../utils/importWizard";
+
+// Rows rendered in the preview; the error report covers all of them
+const PREVIEW_LIMIT = 200;
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+interface ImportWizardProps {
+  config: ImportConfig;
+  // Posts the rebuilt file to the resource's bulk upload endpoint
+  upload: (formData: FormData) => Promise<{ message?: string }>;
+  onImported: () => void;
+  onClose: () => void;
+  // Sample file to download, a generated header row is used otherwise
+  sampleUrl?: string;
+  onDownloadSample?: () => void;
+}
+
+const ImportWizard: React.FC<ImportWizardProps> = ({
+  config,
+  upload,
+  onImported,
+  onClose,
+  sampleUrl,
+  onDownloadSample,
+}) => {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [file, setFile] = useState<ParsedImportFile>();
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [showErrorsOnly, setShowErrorsOnly] = useState<boolean>(false);
+  const [isParsing, setIsParsing] = useState<boolean>(false);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+  const [lookups, setLookups] = useState<ImportLookups>(emptyImportLookups);
+
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
+
+  useEffect(() => {
+    const loadLookups = async () => {
+      const next = emptyImportLookups();
+      try {
+        if (config.lookups?.includes("productIds")) {
+          const data = await fetchProducts(undefined).unwrap();
+          (data?.products || []).forEach((product: any) => {
+            if (product.product_id) {
+              next.productIds.add(String(product.product_id).toLowerCase());
+            }
+          });
+        }
+        if (config.lookups?.includes("stores")) {
+          const data = await fetchStores(undefined).unwrap();
+          (data?.stores || []).forEach((store: any) => {
+            next.stores.set(String(store.name).toLowerCase(), store._id);
+          });
+        }
+        setLookups(next);
+      } catch (error: any) {
+        toast.error(error?.data?.message || "Could not load existing records");
+      }
+    };
+    loadLookups();
+  }, [config, fetchProducts, fetchStores]);
+
+  const validRows = useMemo(() => results.filter(isValidImportRow), [results]);
+  const invalidRows = useMemo(
+    () => results.filter((row) => !isValidImportRow(row)),
+    [results]
+  );
+  const mappedFields = config.fields.filter((field) => mapping[field.key]);
+  const missingRequired = config.fields.filter(
+    (field) => field.required && !mapping[field.key]
+  );
+  const previewRows = (showErrorsOnly ? invalidRows : results).slice(
+    0,
+    PREVIEW_LIMIT
+  );
+
+  const fileChangeHandler = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setIsParsing(true);
+    try {
+      const parsed = await parseImportFile(selected);
+      if (parsed.rows.length === 0) {
+        toast.error("The file has no rows to import");
+        return;
+      }
+      setFile(parsed);
+      setMapping(guessImportMapping(parsed.headers, config.fields));
+      setStep("map");
+    } catch (error: any) {
+      toast.error(error?.message || "Could not read the file");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const previewHandler = () => {
+    if (!file) return;
+    setResults(validateImportRows(file.rows, mapping, config, lookups));
+    setShowErrorsOnly(false);
+    setStep("preview");
+  };
+
+  const importHandler = async () => {
+    setIsImporting(true);
+    try {
+      const formData = new FormData();
+      formData.append(
+        "excel",
+        buildImportFile(validRows, mappedFields, lookups)
+      );
+      const response = await upload(formData);
+      toast.success(
+        response?.message || `${validRows.length} rows imported successfully`
+      );
+      onImported();
+      if (invalidRows.length === 0) onClose();
+      else setStep("done");
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const errorReportHandler = () =>
+    downloadImportErrors(
+      invalidRows,
+      config.fields,
+      `${config.title.replace(/\s+/g, "_")}_Import_Errors`
+    );
+
+  const sampleHandler = () => {
+    if (onDownloadSample) onDownloadSample();
+    else {
+      downloadImportTemplate(
+        config.fields,
+        `${config.title.replace(/\s+/g, "_")}_Template`
+      );
+    }
+  };
+
+  const secondaryButtonStyle = {
+    borderColor: colors.border.medium,
+    color: colors.text.primary,
+    backgroundColor: colors.background.card,
+  };
+  const primaryButtonStyle = {
+    backgroundColor: colors.button.primary,
+    color: colors.text.inverse,
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div
+        className={`rounded-xl shadow-xl w-full p-6 max-h-[90vh] flex flex-col ${
+          step === "preview" ? "max-w-5xl" : "max-w-xl"
+        }`}
+        style={{ backgroundColor: colors.background.card }}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3
+              className="text-lg font-semibold"
+              style={{ color: colors.text.primary }}
+            >
+              Import {config.title}
+            </h3>
+            <p className="text-xs" style={{ color: colors.text.secondary }}>
+              {step === "upload" && "Step 1 of 3: Choose a file"}
+              {step === "map" && "Step 2 of 3: Map columns to fields"}
+              {step === "preview" && "Step 3 of 3: Review and import"}
+              {step === "done" && "Import finished"}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded-lg transition-colors"
+            style={{ color: colors.text.secondary }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = colors.gray[100];
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = "transparent";
+            }}
+          >
+            <RxCross2 size="20px" />
+          </button>
+        </div>
+
+        {step === "upload" && (
+          <div>
+            <label
+              className="block text-sm font-medium mb-2"
+              style={{ color: colors.text.primary }}
+            >
+              Choose File (.csv or .xlsx)
+            </label>
+            <input
+              type="file"
+              accept=".csv, .xlsx, .xls"
+              disabled={isParsing}
+              onChange={fileChangeHandler}
+              className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
+              style={{
+                backgroundColor: colors.input.background,
+                borderColor: colors.input.border,
+                color: colors.text.primary,
+              }}
+            />
+            {config.note && (
+              <p
+                className="text-xs mt-1"
+                style={{ color: colors.text.secondary }}
+              >
+                {config.note}
+              </p>
+            )}
+
+            <div className="mt-4">
+              {sampleUrl ? (
+                <a href={sampleUrl}>
+                  <button
+                    type="button"
+                    className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
+                    style={secondaryButtonStyle}
+                  >
+                    Sample File
+                    <AiFillFileExcel size="16px" />
+                  </button>
+                </a>
+              ) : (
+                <button
+                  type="button"
+                  onClick={sampleHandler}
+                  className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
+                  style={secondaryButtonStyle}
+                >
+                  Sample Template
+                  <AiFillFileExcel size="16px" />
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {step === "map" && file && (
+          <>
+            <p
+              className="text-sm mb-3"
+              style={{ color: colors.text.secondary }}
+            >
+              {file.rows.length} rows found. Pick the column each field is read
+              from; unmapped fields are left empty.
+            </p>
+            <div className="overflow-y-auto space-y-2 pr-1">
+              {config.fields.map((field) => (
+                <div
+                  key={field.key}
+                  className="grid grid-cols-2 gap-3 items-center"
+                >
+                  <span
+                    className="text-sm"
+                    style={{ color: colors.text.primary }}
+                  >
+                    {field.label}
+                    {field.required && (
+                      <span style={{ color: colors.error[500] }}> *</span>
+                    )}
+                  </span>
+                  <select
+                    className="w-full px-3 py-2 border rounded-lg text-sm"
+                    style={{
+                      backgroundColor: colors.input.background,
+                      borderColor: colors.input.border,
+                      color: colors.text.primary,
+                    }}
+                    value={mapping[field.key] || ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [field.key]: e.target.value,
+                      }))
+                    }
+                  >
+                    <option value="">Do not import</option>
+                    {file.headers.map((header) => (
+                      <option key={header} value={header}>
+                        {header}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-3 mt-4">
+              <button
+                className="flex-1 px-4 py-2 rounded-lg font-medium border"
+                style={secondaryButtonStyle}
+                onClick={() => setStep("upload")}
+              >
+                Back
+              </button>
+              <button
+                className="flex-1 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+                style={primaryButtonStyle}
+                disabled={missingRequired.length > 0}
+                title={
+                  missingRequired.length > 0
+                    ? `Map ${missingRequired
+                        .map((field) => field.label)
+                        .join(", ")} to continue`
+                    : undefined
+                }
+                onClick={previewHandler}
+              >
+                Preview
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === "preview" && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+              <p className="text-sm" style={{ color: colors.text.secondary }}>
+                <span style={{ color: colors.success[600] }}>
+                  {validRows.length} valid
+                </span>
+                {", "}
+                <span style={{ color: colors.error[600] }}>
+                  {invalidRows.length} with errors
+                </span>
+                . Only valid rows are imported.
+              </p>
+              <label
+                className="flex items-center gap-2 text-sm"
+                style={{ color: colors.text.primary }}
+              >
+                <input
+                  type="checkbox"
+                  checked={showErrorsOnly}
+                  onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                />
+                Only rows with errors
+              </label>
+            </div>
+
+            <div
+              className="overflow-auto border rounded-lg flex-1"
+              style={{ borderColor: colors.border.light }}
+            >
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-3 py-2 text-left whitespace-nowrap">
+                      Row
+                    </th>
+                    {mappedFields.map((field) => (
+                      <th
+                        key={field.key}
+                        className="px-3 py-2 text-left whitespace-nowrap"
+                      >
+                        {field.label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.map((row) => (
+                    <tr
+                      key={row.rowNumber}
+                      className="border-t align-top"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td
+                        className="px-3 py-2"
+                        style={{
+                          color: isValidImportRow(row)
+                            ? colors.success[600]
+                            : colors.error[600],
+                        }}
+                      >
+                        {row.rowNumber}
+                      </td>
+                      {mappedFields.map((field) => {
+                        const error = row.errors[field.key];
+                        return (
+                          <td
+                            key={field.key}
+                            className="px-3 py-2 whitespace-nowrap"
+                            style={{
+                              backgroundColor: error
+                                ? colors.error[50]
+                                : undefined,
+                            }}
+                            title={error}
+                          >
+                            {row.values[field.key] || "-"}
+                            {error && (
+                              <p
+                                className="text-xs"
+                                style={{ color: colors.error[600] }}
+                              >
+                                {error}
+                              </p>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {(showErrorsOnly ? invalidRows : results).length >
+              PREVIEW_LIMIT && (
+              <p
+                className="text-xs mt-2"
+                style={{ color: colors.text.secondary }}
+              >
+                Showing the first {PREVIEW_LIMIT} rows.
+              </p>
+            )}
+
+            <div className="flex flex-wrap gap-3 mt-4">
+              <button
+                className="px-4 py-2 rounded-lg font-medium border"
+                style={secondaryButtonStyle}
+                onClick={() => setStep("map")}
+              >
+                Back
+              </button>
+              {invalidRows.length > 0 && (
+                <button
+                  className="px-4 py-2 rounded-lg font-medium border"
+                  style={secondaryButtonStyle}
+                  onClick={errorReportHandler}
+                >
+                  Download Error Report
+                </button>
+              )}
+              <button
+                className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium disabled:opacity-50"
+                style={primaryButtonStyle}
+                disabled={isImporting || validRows.length === 0}
+                onClick={importHandler}
+              >
+                {isImporting
+                  ? "Importing..."
+                  : `Import ${validRows.length} Valid Row${
+                      validRows.length === 1 ? "" : "s"
+                    }`}
+                <AiFillFileExcel size="16px" />
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === "done" && (
+          <>
+            <p className="text-sm" style={{ color: colors.text.primary }}>
+              {validRows.length} rows were imported. {invalidRows.length} rows
+              were skipped because of errors; download the report to fix and
+              import them again.
+            </p>
+            <div className="flex gap-3 mt-4">
+              <button
+                className="flex-1 px-4 py-2 rounded-lg font-medium border"
+                style={secondaryButtonStyle}
+                onClick={errorReportHandler}
+              >
+                Download Error Report
+              </button>
+              <button
+                className="flex-1 px-4 py-2 rounded-lg font-medium"
+                style={primaryButtonStyle}
+                onClick={onClose}
+              >
+                Done
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportWizard;
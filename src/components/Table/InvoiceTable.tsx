@@ -25,8 +25,44 @@ import Loading from "../../ui/Loading";
 import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
 import InvoicePDF from "../PDF/InvoicePDF";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import ExportMenu from "./ExportMenu";
+import {
+  ExportColumn,
+  formatExportDate,
+  getPersonName,
+} from "../utils/tableExport";
+import { SortingRule, serverTableOptions } from "../utils/tableQuery";
+import { ListArgs, User } from "../../redux/api/types";
+import { useLazyEmployeeDetailsQuery } from "../../redux/api/api";
+import { toast } from "react-toastify";
+
+const invoiceExportColumns: ExportColumn[] = [
+  {
+    id: "creator",
+    label: "Created By",
+    value: (invoice) => getPersonName(invoice.creator),
+  },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (invoice) => formatExportDate(invoice.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Last Updated",
+    value: (invoice) => formatExportDate(invoice.updatedAt),
+  },
+  {
+    id: "customer",
+    label: "Customer",
+    value: (invoice) =>
+      invoice.buyer?.company_name ||
+      invoice.buyer?.consignee_name?.[0] ||
+      invoice.supplier?.name,
+  },
+  { id: "subtotal", label: "Sub Total", value: (invoice) => invoice.subtotal },
+  { id: "total", label: "Total", value: (invoice) => invoice.total },
+];
 
 interface InvoiceTableProps {
   invoices: Array<{
@@ -52,6 +88,12 @@ interface InvoiceTableProps {
   deleteInvoiceHandler?: (id: string) => void;
   openUpdateInvoiceDrawer?: (id: string) => void;
   openPaymentDrawer?: (id: string) => void;
+  // Given when `invoices` is one page of a server-side list
+  totalInvoices?: number;
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
+  fetchAllInvoices?: () => Promise<any[]>;
+  listParams?: ListArgs;
 }
 
 const InvoiceTable: React.FC<InvoiceTableProps> = ({
@@ -61,41 +103,30 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({
   deleteInvoiceHandler,
   openUpdateInvoiceDrawer,
   openPaymentDrawer,
+  totalInvoices,
+  sortBy,
+  onSortByChange,
+  fetchAllInvoices,
+  listParams,
 }) => {
+  const isServerSide = !!onSortByChange;
   const [deleteModalId, setDeleteModalId] = useState<string | null>(null);
-  const [userData, setUserData] = useState<PurchaseOrder | null>(null);
-  const [cookies] = useCookies();
+  // Signed in user, printed on the invoice PDF
+  const [userData, setUserData] = useState<User | null>(null);
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
 
-  // NEW: Function to fetch purchase order data from API
   const fetchUserData = async () => {
     try {
-      console.log("INside try");
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}auth/user`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      console.log("Inside Proforma Function ::", response.data);
-
-      if (response.data.success) {
-        setUserData(response.data.user); // Assuming API returns data in `data` field
-      } else {
-        console.error("Failed to fetch user data:", response.data.message);
-        // toast.error("Failed to fetch user data");
-      }
-
-      console.log("Inside Proforma Function ::", response.data);
+      const response = await fetchEmployeeDetails({}).unwrap();
+      setUserData(response.user);
     } catch (error: any) {
-      console.error("Error fetching user data:", error);
-      // toast.error(error.message || "Failed to fetch user data");
+      toast.error(error?.data?.message || "Failed to fetch user data");
     }
   };
 
-  // NEW: useEffect to fetch user data on component mount
   useEffect(() => {
     fetchUserData();
-  }, []); // Empty dependency array ensures it runs only on mount
+  }, []);
 
   const columns = useMemo(
     () => [
@@ -110,34 +141,43 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({
   );
 
   const sortedInvoices = useMemo(() => {
+    if (isServerSide) return invoices;
     return [...invoices].sort((a: any, b: any) =>
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
     );
-  }, [invoices]);
+  }, [invoices, isServerSide]);
 
   const {
     getTableProps,
     getTableBodyProps,
     headerGroups,
     prepareRow,
+    rows,
     page,
     nextPage,
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex, pageSize },
+    state: { pageIndex, pageSize, sortBy: tableSortBy },
     pageCount,
     setPageSize,
   } = useTable(
     {
       columns,
       data: sortedInvoices,
-      initialState: { pageIndex: 0, pageSize: 10 },
+      initialState: { pageIndex: 0, pageSize: 10, sortBy: sortBy || [] },
+      ...(isServerSide ? serverTableOptions : {}),
     },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
+  const invoiceCount = totalInvoices ?? invoices.length;
+
   console.log("ye hai pages ::::::---",page)
 
   const handleDelete = (id: string) => {
@@ -178,31 +218,47 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({
               className="text-lg font-semibold"
               style={{ color: colors.text.primary }}
             >
-              Invoices ({invoices.length})
+              Invoices ({invoiceCount})
             </h2>
             <div className="flex items-center gap-2">
-              <span
-                className="text-sm"
-                style={{ color: colors.text.secondary }}
-              >
-                Show:
-              </span>
-              <Select
-                value={pageSize}
-                onChange={(e) => setPageSize(Number(e.target.value))}
-                size="sm"
-                width="80px"
-                style={{
-                  borderColor: colors.border.light,
-                  fontSize: "14px",
-                }}
-              >
-                {[5, 10, 20, 50, 100].map((size) => (
-                  <option key={size} value={size}>
-                    {size}
-                  </option>
-                ))}
-              </Select>
+              <ExportMenu
+                module="accounts"
+                fileName="Tax_Invoices"
+                columns={invoiceExportColumns}
+                rows={
+                  isServerSide ? undefined : rows.map((row) => row.original)
+                }
+                fetchRows={fetchAllInvoices}
+                totalRows={totalInvoices}
+                resource={isServerSide ? "invoice" : undefined}
+                params={listParams}
+              />
+              {!isServerSide && (
+                <>
+                  <span
+                    className="text-sm"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    Show:
+                  </span>
+                  <Select
+                    value={pageSize}
+                    onChange={(e) => setPageSize(Number(e.target.value))}
+                    size="sm"
+                    width="80px"
+                    style={{
+                      borderColor: colors.border.light,
+                      fontSize: "14px",
+                    }}
+                  >
+                    {[5, 10, 20, 50, 100].map((size) => (
+                      <option key={size} value={size}>
+                        {size}
+                      </option>
+                    ))}
+                  </Select>
+                </>
+              )}
             </div>
           </div>
 
@@ -505,59 +561,61 @@ const InvoiceTable: React.FC<InvoiceTableProps> = ({
           </TableContainer>
 
           {/* Pagination */}
-          <div
-            className="flex items-center justify-between px-6 py-4"
-            style={{ borderTop: `1px solid ${colors.border.light}` }}
-          >
-            <div className="flex items-center gap-2">
-              <span
-                className="text-sm"
-                style={{ color: colors.text.secondary }}
-              >
-                Showing {pageIndex * pageSize + 1} to{" "}
-                {Math.min((pageIndex + 1) * pageSize, invoices.length)} of{" "}
-                {invoices.length} results
-              </span>
-            </div>
-            <div className="flex items-center gap-2">
-              <button
-                onClick={previousPage}
-                disabled={!canPreviousPage}
-                className="px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  color: canPreviousPage
-                    ? colors.text.primary
-                    : colors.text.muted,
-                  backgroundColor: canPreviousPage
-                    ? colors.gray[100]
-                    : colors.gray[50],
-                  border: `1px solid ${colors.border.light}`,
-                }}
-              >
-                Previous
-              </button>
-              <span
-                className="px-4 py-2 text-sm font-medium"
-                style={{ color: colors.text.primary }}
-              >
-                Page {pageIndex + 1} of {pageCount}
-              </span>
-              <button
-                onClick={nextPage}
-                disabled={!canNextPage}
-                className="px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  color: canNextPage ? colors.text.primary : colors.text.muted,
-                  backgroundColor: canNextPage
-                    ? colors.gray[100]
-                    : colors.gray[50],
-                  border: `1px solid ${colors.border.light}`,
-                }}
-              >
-                Next
-              </button>
+          {!isServerSide && (
+            <div
+              className="flex items-center justify-between px-6 py-4"
+              style={{ borderTop: `1px solid ${colors.border.light}` }}
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className="text-sm"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Showing {pageIndex * pageSize + 1} to{" "}
+                  {Math.min((pageIndex + 1) * pageSize, invoices.length)} of{" "}
+                  {invoices.length} results
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={previousPage}
+                  disabled={!canPreviousPage}
+                  className="px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{
+                    color: canPreviousPage
+                      ? colors.text.primary
+                      : colors.text.muted,
+                    backgroundColor: canPreviousPage
+                      ? colors.gray[100]
+                      : colors.gray[50],
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                >
+                  Previous
+                </button>
+                <span
+                  className="px-4 py-2 text-sm font-medium"
+                  style={{ color: colors.text.primary }}
+                >
+                  Page {pageIndex + 1} of {pageCount}
+                </span>
+                <button
+                  onClick={nextPage}
+                  disabled={!canNextPage}
+                  className="px-4 py-2 text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                  style={{
+                    color: canNextPage ? colors.text.primary : colors.text.muted,
+                    backgroundColor: canNextPage
+                      ? colors.gray[100]
+                      : colors.gray[50],
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                >
+                  Next
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </>
       )}
 
@@ -11,6 +11,8 @@ import { MdDeleteOutline, MdEdit } from "react-icons/md";
 import { useTable } from "react-table";
 import axios from "axios";
 import { colors } from "../../theme/colors";
+import { useDeletePartyMutation } from "../../redux/api/api";
+import { pageSizeOptions } from "../utils/tableQuery";
 
 const PartiesTable = ({
   fetchPartiesData,
@@ -23,11 +25,13 @@ const PartiesTable = ({
   selectedRole,
   setEditTable,
   setshowData,
-  limit
+  limit,
+  totalParties
 }) => {
   // const [deleteId, setdeleteId] = useState('')
   const [deleteId, setDeleteId] = useState("");
   const [cookies] = useCookies();
+  const [deleteParty] = useDeletePartyMutation();
   const [showDeletePage, setshowDeletePage] = useState(false);
   const [isConfirmed, setIsConfirmed] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -62,59 +66,22 @@ const PartiesTable = ({
   //   },
   //   usePagination
   // );
-  const filteredParties = partiesData.filter((party) => {
-    const searchLower = searchTerm.toLowerCase();
-
-
-    const matchSearch =
-      (party?.consignee_name?.[0]?.toLowerCase?.() || "").includes(
-        searchLower
-      ) ||
-      (party?.email_id?.[0]?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.contact_number?.[0]?.toLowerCase?.() || "").includes(
-        searchLower
-      ) ||
-      (party?.type?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.cust_id?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.contact_person_name?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.shipped_gst_to?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.bill_gst_to?.toLowerCase?.() || "").includes(searchLower) ||
-      (party?.company_name?.toLowerCase?.() || "").includes(searchLower);
-
-    const matchType = selectedType ? party?.type === selectedType : true;
-    const matchRole = selectedRole
-      ? party?.parties_type === selectedRole
-      : true;
-
-    return matchSearch && matchType && matchRole;
-  });
+  // Search and filters are applied by the backend, see Parties
+  const filteredParties = partiesData;
 
   const handleDelete = async (partyId) => {
     if (isSubmitting) return;
     setIsSubmitting(true);
 
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/delete/${partyId}`,
-        {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${cookies.access_token}`,
-          },
-        }
-      );
-
-      if (res?.ok) {
-        setPartiesData((prev) => prev.filter((party) => party._id !== partyId));
-        toast.success("Party deleted successfully");
-      } else {
-        console.error(error?.message);
-      }
+      await deleteParty(partyId).unwrap();
+      setPartiesData((prev) => prev.filter((party) => party._id !== partyId));
+      toast.success("Party deleted successfully");
       setshowDeletePage(false);
       setIsConfirmed(false);
     } catch (error) {
       console.error("Error deleting party:", error);
-      toast.error("Error deleting party");
+      toast.error(error?.message || "Error deleting party");
     } finally {
       setIsSubmitting(false);
     }
@@ -142,16 +109,14 @@ const PartiesTable = ({
 
     try {
       const deletePromises = selectedParties.map(partyId =>
-        fetch(`${process.env.REACT_APP_BACKEND_URL}parties/delete/${partyId}`, {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${cookies.access_token}`,
-          },
-        })
+        deleteParty(partyId)
+          .unwrap()
+          .then(() => true)
+          .catch(() => false)
       );
 
       const results = await Promise.all(deletePromises);
-      const successCount = results.filter(res => res.ok).length;
+      const successCount = results.filter(Boolean).length;
 
       if (successCount > 0) {
         setPartiesData(prev =>
@@ -243,8 +208,9 @@ const PartiesTable = ({
               className="text-lg font-semibold"
               style={{ color: colors.text.primary }}
             >
-              {filteredParties.length} Part
-              {filteredParties.length !== 1 ? "ies" : "y"} Found
+              {totalParties ?? filteredParties.length} Part
+              {(totalParties ?? filteredParties.length) !== 1 ? "ies" : "y"}{" "}
+              Found
             </h3>
           </div>
 
@@ -287,9 +253,9 @@ const PartiesTable = ({
               color: colors.text.primary,
             }}
           >
-            {[5, 10, 20, 50, 100].map((size) => (
+            {pageSizeOptions.map((size) => (
               <option key={size} value={size}>
-                {size === 100 ? "All" : size}
+                {size}
               </option>
             ))}
           </select>
@@ -1,6 +1,6 @@
 // @ts-nocheck
 
-import { useMemo } from "react";
+import { useEffect, useMemo } from "react";
 import {
   Cell,
   Column,
@@ -26,6 +26,42 @@ import { FaCaretDown, FaCaretUp } from "react-icons/fa";
 import moment from "moment";
 import { MdDeleteOutline, MdEdit, MdOutlineVisibility } from "react-icons/md";
 import EmptyData from "../../ui/emptyData";
+import ExportMenu from "./ExportMenu";
+import {
+  ExportColumn,
+  formatExportDate,
+  getPersonName,
+} from "../utils/tableExport";
+import { SortingRule, serverTableOptions } from "../utils/tableQuery";
+import { ListArgs } from "../../redux/api/types";
+
+const paymentExportColumns: ExportColumn[] = [
+  {
+    id: "creator",
+    label: "Created By",
+    value: (payment) => getPersonName(payment.creator),
+  },
+  {
+    id: "customer",
+    label: "Customer",
+    value: (payment) =>
+      payment.invoice?.buyer?.company_name ||
+      payment.invoice?.buyer?.consignee_name?.[0] ||
+      payment.invoice?.supplier?.name,
+  },
+  { id: "amount", label: "Amount", value: (payment) => payment.amount },
+  { id: "mode", label: "Payment Mode", value: (payment) => payment.mode },
+  {
+    id: "createdAt",
+    label: "Created At",
+    value: (payment) => formatExportDate(payment.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Updated At",
+    value: (payment) => formatExportDate(payment.updatedAt),
+  },
+];
 
 interface PaymentTableProps {
   payments: Array<{
@@ -40,6 +76,12 @@ interface PaymentTableProps {
   isLoadingPayments: boolean;
   openPaymentDetailsDrawerHandler?: (id: string) => void;
   openUpdatePaymentDrawer?: (id: string) => void;
+  // Given when `payments` is one page of a server-side list
+  totalPayments?: number;
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
+  fetchAllPayments?: () => Promise<any[]>;
+  listParams?: ListArgs;
 }
 
 const PaymentTable: React.FC<AgentTableProps> = ({
@@ -47,7 +89,13 @@ const PaymentTable: React.FC<AgentTableProps> = ({
   isLoadingPayments,
   openPaymentDetailsDrawerHandler,
   openUpdatePaymentDrawer,
+  totalPayments,
+  sortBy,
+  onSortByChange,
+  fetchAllPayments,
+  listParams,
 }) => {
+  const isServerSide = !!onSortByChange;
 
 
 
@@ -69,12 +117,13 @@ const PaymentTable: React.FC<AgentTableProps> = ({
     getTableBodyProps,
     headerGroups,
     prepareRow,
+    rows,
     page,
     nextPage,
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex, pageSize },
+    state: { pageIndex, pageSize, sortBy: tableSortBy },
     pageCount,
     setPageSize,
   }: TableInstance<{
@@ -88,39 +137,58 @@ const PaymentTable: React.FC<AgentTableProps> = ({
     {
       columns,
       data: payments,
-      initialState: { pageIndex: 0 },
+      initialState: { pageIndex: 0, sortBy: sortBy || [] },
+      ...(isServerSide ? serverTableOptions : {}),
     },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
   return (
     <div>
       {isLoadingPayments && <Loading />}
       {payments.length === 0 && !isLoadingPayments && <EmptyData />}
       {!isLoadingPayments && payments.length > 0 && (
         <div>
-          <div className="flex justify-end mb-2">
-            <Select
-              onChange={(e) => setPageSize(e.target.value)}
-              color="white"
-              width="80px"
-              size="sm"
-              borderRadius="md"
-              border="1px solid white"
-              sx={{
-                option: {
-                  backgroundColor: "#444e5b", // Default background
-                  color: "white",
-                },
-              }}
-            >
-              <option value={10}>10</option>
-              <option value={20}>20</option>
-              <option value={50}>50</option>
-              <option value={100}>100</option>
-              <option value={100000}>All</option>
-            </Select>
+          <div className="flex justify-end items-center gap-2 mb-2">
+            <ExportMenu
+              module="accounts"
+              fileName="Payments"
+              columns={paymentExportColumns}
+              rows={
+                isServerSide ? undefined : rows.map((row) => row.original)
+              }
+              fetchRows={fetchAllPayments}
+              totalRows={totalPayments}
+              resource={isServerSide ? "payment" : undefined}
+              params={listParams}
+            />
+            {!isServerSide && (
+              <Select
+                onChange={(e) => setPageSize(e.target.value)}
+                color="white"
+                width="80px"
+                size="sm"
+                borderRadius="md"
+                border="1px solid white"
+                sx={{
+                  option: {
+                    backgroundColor: "#444e5b", // Default background
+                    color: "white",
+                  },
+                }}
+              >
+                <option value={10}>10</option>
+                <option value={20}>20</option>
+                <option value={50}>50</option>
+                <option value={100}>100</option>
+                <option value={100000}>All</option>
+              </Select>
+            )}
           </div>
 
           <TableContainer maxHeight="600px" overflowY="auto">
@@ -278,25 +346,27 @@ const PaymentTable: React.FC<AgentTableProps> = ({
             </Table>
           </TableContainer>
 
-          <div className="w-[max-content] m-auto my-7">
-            <button
-              className="text-sm mt-2 bg-[#1640d6] py-1 px-4 text-white border-[1px] border-[#1640d6] rounded-3xl disabled:bg-[#b2b2b2] disabled:border-[#b2b2b2] disabled:cursor-not-allowed md:text-lg md:py-1 md:px-4 lg:text-xl lg:py-1 xl:text-base"
-              disabled={!canPreviousPage}
-              onClick={previousPage}
-            >
-              Prev
-            </button>
-            <span className="mx-3 text-sm md:text-lg lg:text-xl xl:text-base">
-              {pageIndex + 1} of {pageCount}
-            </span>
-            <button
-              className="text-sm mt-2 bg-[#1640d6] py-1 px-4 text-white border-[1px] border-[#1640d6] rounded-3xl disabled:bg-[#b2b2b2] disabled:border-[#b2b2b2] disabled:cursor-not-allowed md:text-lg md:py-1 md:px-4 lg:text-xl lg:py-1 xl:text-base"
-              disabled={!canNextPage}
-              onClick={nextPage}
-            >
-              Next
-            </button>
-          </div>
+          {!isServerSide && (
+            <div className="w-[max-content] m-auto my-7">
+              <button
+                className="text-sm mt-2 bg-[#1640d6] py-1 px-4 text-white border-[1px] border-[#1640d6] rounded-3xl disabled:bg-[#b2b2b2] disabled:border-[#b2b2b2] disabled:cursor-not-allowed md:text-lg md:py-1 md:px-4 lg:text-xl lg:py-1 xl:text-base"
+                disabled={!canPreviousPage}
+                onClick={previousPage}
+              >
+                Prev
+              </button>
+              <span className="mx-3 text-sm md:text-lg lg:text-xl xl:text-base">
+                {pageIndex + 1} of {pageCount}
+              </span>
+              <button
+                className="text-sm mt-2 bg-[#1640d6] py-1 px-4 text-white border-[1px] border-[#1640d6] rounded-3xl disabled:bg-[#b2b2b2] disabled:border-[#b2b2b2] disabled:cursor-not-allowed md:text-lg md:py-1 md:px-4 lg:text-xl lg:py-1 xl:text-base"
+                disabled={!canNextPage}
+                onClick={nextPage}
+              >
+                Next
+              </button>
+            </div>
+          )}
         </div>
       )}
     </div>
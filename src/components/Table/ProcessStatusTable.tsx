@@ -19,9 +19,39 @@ import {
 import moment from "moment";
 import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useLazyProcessDetailsQuery,
+  useMarkOutFinishGoodsMutation,
+  useMoveProcessToInventoryMutation,
+  usePauseProcessMutation,
+  useRequestInventoryAllocationMutation,
+  useSendToDispatchMutation,
+  useStartProductionMutation,
+} from "../../redux/api/api";
 import { Button } from "@chakra-ui/react";
+import {
+  queuedActionLabels,
+  runOrQueue,
+  useOfflineQueue,
+} from "../utils/offlineQueue";
+import { useCan } from "../utils/permissions";
+import TableViews, {
+  renderBodyCells,
+  renderHeaderCells,
+} from "./TableViews";
+import { TableColumn, useColumnLayout } from "../utils/tableViews";
+import { SortingRule } from "../utils/tableQuery";
+
+const processColumns: TableColumn[] = [
+  { id: "creator", label: "Created By", pinned: true },
+  { id: "status", label: "Status" },
+  { id: "item", label: "Item" },
+  { id: "rm_store", label: "RM Store" },
+  { id: "fg_store", label: "FG Store" },
+  { id: "scrap_store", label: "Scrap Store" },
+  { id: "createdAt", label: "Created On" },
+  { id: "updatedAt", label: "Last Updated" },
+];
 
 interface ProcessTableProps {
   proces: Array<{
@@ -39,41 +69,11 @@ interface ProcessTableProps {
   openProcessDetailsDrawerHandler?: (id: string) => void;
   deleteProcessHandler?: (id: string) => void;
   fetchProcessHandler?: () => void;
+  // Sort kept by the page, e.g. in the URL
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
 }
 
-const updateProcessStatus = async (id, status) => {
-  try {
-    const res = await fetch(
-      `${process.env.REACT_APP_BACKEND_URL}production-process/update-status`,
-      {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${cookies?.access_token}`,
-        },
-        body: JSON.stringify({ _id: id, status }),
-      }
-    );
-
-    const data = await res.json();
-
-    if (!data.success) {
-      throw new Error(data.message);
-    }
-
-    toast.success(data.message || "Status updated successfully");
-    // Trigger a re-render instead of full page reload
-    if (typeof window !== "undefined") {
-      setTimeout(() => {
-        window.dispatchEvent(new Event("resize"));
-      }, 100);
-    }
-    window.location.reload();
-  } catch (err) {
-    toast.error(err.message || "Failed to update status");
-  }
-};
-
 const ProcessStatusTable: React.FC<ProcessTableProps> = ({
   proces,
   isLoadingProcess,
@@ -81,7 +81,14 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
   openProcessDetailsDrawerHandler,
   deleteProcessHandler,
   fetchProcessHandler,
+  sortBy,
+  onSortByChange,
 }) => {
+  const columnLayout = useColumnLayout(
+    "production-processes",
+    processColumns,
+    60
+  );
   const [showDeletePage, setshowDeletePage] = useState(false);
   const [deleteId, setdeleteId] = useState("");
   const [selectedProcess, setSelectedProcess] = useState(null);
@@ -90,25 +97,35 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
   const [showBulkDeleteModal, setShowBulkDeleteModal] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
   const [processDetails, setProcessDetails] = useState({}); // Store detailed process data
-  const [cookies] = useCookies();
+  const [startProduction] = useStartProductionMutation();
+  const [requestInventoryAllocation] = useRequestInventoryAllocationMutation();
+  const [pauseProcess] = usePauseProcessMutation();
+  const can = useCan();
+  const [markOutFinishGoodsMutation] = useMarkOutFinishGoodsMutation();
+  const [sendToDispatch] = useSendToDispatchMutation();
+  const [moveProcessToInventory] = useMoveProcessToInventoryMutation();
+  const [fetchProcessById] = useLazyProcessDetailsQuery();
+  const { entries: queuedActions } = useOfflineQueue();
+  const queuedByProcess = useMemo(
+    () =>
+      queuedActions.reduce((acc, action) => {
+        acc[action.process_id] = [...(acc[action.process_id] || []), action];
+        return acc;
+      }, {}),
+    [queuedActions]
+  );
 
-  const UpdatedStatus = async (id) => {
+  const UpdatedStatus = async (process) => {
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/start-production`,
-
+      const data = await runOrQueue(
         {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ _id: id }),
-        }
+          kind: "start",
+          process_id: process._id,
+          base_updated_at: process.updatedAt,
+        },
+        () => startProduction(process._id).unwrap()
       );
-
-      const data = await res.json();
-      if (!data.success) throw new Error(data.message);
+      if (!data) return;
 
       toast.success(data.message || "Status updated successfully");
       // Trigger a re-render instead of full page reload
@@ -124,14 +141,7 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
 
   const RequestForAllocated = async (id) => {
     try {
-      const res = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/allocation?_id=${id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      await requestInventoryAllocation(id).unwrap();
     } catch (error) {
       console.error("Error requesting for allocated inventory:", error);
       toast.error(
@@ -140,22 +150,17 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
     }
   };
 
-  const handlePauseProcess = async (id) => {
+  const handlePauseProcess = async (process) => {
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/pause`,
+      const data = await runOrQueue(
         {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ _id: id }),
-        }
+          kind: "pause",
+          process_id: process._id,
+          base_updated_at: process.updatedAt,
+        },
+        () => pauseProcess(process._id).unwrap()
       );
-
-      const data = await res.json();
-      if (!data.success) throw new Error(data.message);
+      if (!data) return;
 
       toast.success(data.message || "Process paused successfully");
       window.location.reload();
@@ -165,42 +170,26 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
   };
   const markOutFinishGoods = async (id) => {
     try {
-      const baseURL = process.env.REACT_APP_BACKEND_URL || "";
-      const res = await axios.post(
-        `${baseURL}production-process/out-finish-goods`,
-        { id }
-      );
+      const res = await markOutFinishGoodsMutation(id).unwrap();
 
-      toast.success(res.data.message || "Finished goods marked out!");
+      toast.success(res.message || "Finished goods marked out!");
       if (fetchProcessHandler) {
         fetchProcessHandler();
       }
     } catch (err) {
       console.error(err);
-      toast.error(
-        err.response?.data?.message || "Error marking finished goods"
-      );
+      toast.error(err?.message || "Error marking finished goods");
     }
   };
   const handleMoveToDispatch = async (id) => {
     try {
-      const baseURL = process.env.REACT_APP_BACKEND_URL || "";
-      const res = await axios.post(
-        `${baseURL}dispatch/send-from-production`,
-        { production_process_id: id },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      const res = await sendToDispatch({ production_process_id: id }).unwrap();
 
-      toast.success(res.data.message || "Moved to Dispatch successfully");
+      toast.success(res.message || "Moved to Dispatch successfully");
       setCloseModal(true);
     } catch (err) {
       console.error(err);
-      toast.error(err.response?.data?.message || "Error moving to dispatch");
+      toast.error(err?.message || "Error moving to dispatch");
     }
   };
 
@@ -299,7 +288,7 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex, pageSize },
+    state: { pageIndex, pageSize, sortBy: tableSortBy },
     pageCount,
     setPageSize,
   }: TableInstance<{
@@ -312,12 +301,17 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
     {
       columns,
       data: proces,
-      initialState: { pageIndex: 0 },
+      initialState: { pageIndex: 0, sortBy: sortBy || [] },
+      autoResetSortBy: !onSortByChange,
     },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
   const handleSelectAll = (checked) => {
     if (checked) {
       setSelectedProcesses(page.map((row) => row.original._id));
@@ -327,15 +321,8 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
   };
   const openProcessFullDetails = async (data) => {
     try {
-      const res = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/${data._id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      setSelectedProcess(res.data?.production_process);
+      const res = await fetchProcessById(data._id).unwrap();
+      setSelectedProcess(res.production_process);
     } catch (error) {
       console.error("Failed to fetch process details:", error);
       toast.error("Failed to load process details");
@@ -384,29 +371,14 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
 
   const moveToInventory = async (processId) => {
     try {
-      const apiUrl = `${process.env.REACT_APP_BACKEND_URL}production-process/move-to-inventory`;
-
-      const res = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${cookies?.access_token}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ processId: processId }),
-      });
-
-      const data = await res.json();
-      if (data.success) {
-        toast.success("Moved to inventory successfully");
-        setCloseModal(true);
-        if (fetchProcessHandler) {
-          fetchProcessHandler();
-        }
-      } else {
-        toast.error("Failed to move to inventory");
+      await moveProcessToInventory(processId).unwrap();
+      toast.success("Moved to inventory successfully");
+      setCloseModal(true);
+      if (fetchProcessHandler) {
+        fetchProcessHandler();
       }
     } catch (err) {
-      toast.error("Error moving to inventory");
+      toast.error(err?.message || "Error moving to inventory");
     }
   };
 
@@ -460,22 +432,11 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
     if (processDetails[processId]) return; // Already fetched
 
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/${processId}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await res.json();
-
-      if (data.success) {
-        setProcessDetails((prev) => ({
-          ...prev,
-          [processId]: data.production_process,
-        }));
-      }
+      const data = await fetchProcessById(processId).unwrap();
+      setProcessDetails((prev) => ({
+        ...prev,
+        [processId]: data.production_process,
+      }));
     } catch (error) {
       console.error("Failed to fetch process details:", error);
     }
@@ -614,7 +575,11 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
               )}
             </div>
 
-            <div className="flex items-center gap-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <TableViews
+                table="production-processes"
+                columnLayout={columnLayout}
+              />
               <span
                 className="text-sm font-medium"
                 style={{ color: colors.text.secondary }}
@@ -683,61 +648,72 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                         className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
                       />
                     </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{
-                        color: colors.table.headerText,
-                        position: "sticky",
-                        top: 0,
-                        left: "60px",
-                        zIndex: 3,
-                        backgroundColor: colors.table.header,
-                      }}
-                    >
-                      Created By
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Status
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Item
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      RM Store
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      FG Store
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Scrap Store
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Created On
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Last Updated
-                    </th>
+                    {renderHeaderCells(columnLayout, {
+                      creator: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Created By
+                        </th>
+                      ),
+                      status: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Status
+                        </th>
+                      ),
+                      item: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Item
+                        </th>
+                      ),
+                      rm_store: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          RM Store
+                        </th>
+                      ),
+                      fg_store: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          FG Store
+                        </th>
+                      ),
+                      scrap_store: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Scrap Store
+                        </th>
+                      ),
+                      createdAt: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Created On
+                        </th>
+                      ),
+                      updatedAt: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Last Updated
+                        </th>
+                      ),
+                    })}
 
                     <th className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap">
                       {page.some(
@@ -756,15 +732,16 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                 <tbody>
                   {page.map((row, index) => {
                     prepareRow(row);
+                    const rowBackground =
+                      index % 2 === 0
+                        ? colors.background.card
+                        : colors.table.stripe;
                     return (
                       <tr
                         key={row.id}
                         className="transition-colors hover:shadow-sm"
                         style={{
-                          backgroundColor:
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe,
+                          backgroundColor: rowBackground,
                           borderBottom: `1px solid ${colors.table.border}`,
                         }}
                         onMouseEnter={(e) => {
@@ -773,9 +750,7 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                         }}
                         onMouseLeave={(e) => {
                           e.currentTarget.style.backgroundColor =
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe;
+                            rowBackground;
                         }}
                       >
                         <td
@@ -785,10 +760,7 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                             position: "sticky",
                             left: 0,
                             zIndex: 1,
-                            backgroundColor:
-                              index % 2 === 0
-                                ? colors.background.card
-                                : colors.table.stripe,
+                            backgroundColor: rowBackground,
                             width: "60px",
                             minWidth: "60px",
                           }}
@@ -807,85 +779,126 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                             className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
                           />
                         </td>
-                        <td
-                          className="px-4 py-3 text-sm font-mono whitespace-nowrap"
-                          style={{
-                            color: colors.text.secondary,
-                            position: "sticky",
-                            left: "60px",
-                            zIndex: 1,
-                            backgroundColor:
-                              index % 2 === 0
-                                ? colors.background.card
-                                : colors.table.stripe,
-                          }}
-                        >
-                          {row.original.creator
-                            ? `${row.original.creator.first_name || ""} ${
-                                row.original.creator.last_name || ""
-                              }`.trim() || "N/A"
-                            : "N/A"}
-                        </td>
-                        <td className="px-4 py-3 text-sm whitespace-nowrap">
-                          {row.original.status && (
-                            <span
-                              className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
-                              style={
-                                statusStyles[row.original.status] || {
-                                  backgroundColor: colors.gray[100],
-                                  color: colors.gray[700],
-                                }
-                              }
+                        {renderBodyCells(columnLayout, rowBackground, {
+                          creator: (
+                            <td
+                              className="px-4 py-3 text-sm font-mono whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
                             >
-                              {row.original.status.charAt(0).toUpperCase() +
-                                row.original.status.slice(1)}
-                            </span>
-                          )}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.item?.name || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.rm_store?.name || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.fg_store?.name || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.scrap_store?.name || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.createdAt
-                            ? moment(row.original.createdAt).format(
-                                "DD/MM/YYYY"
-                              )
-                            : "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.updatedAt
-                            ? moment(row.original.updatedAt).format(
-                                "DD/MM/YYYY"
-                              )
-                            : "N/A"}
-                        </td>
+                              {row.original.creator
+                                ? `${row.original.creator.first_name || ""} ${
+                                    row.original.creator.last_name || ""
+                                  }`.trim() || "N/A"
+                                : "N/A"}
+                            </td>
+                          ),
+                          status: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                              {row.original.status && (
+                                <span
+                                  className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                                  style={
+                                    statusStyles[row.original.status] || {
+                                      backgroundColor: colors.gray[100],
+                                      color: colors.gray[700],
+                                    }
+                                  }
+                                >
+                                  {row.original.status.charAt(0).toUpperCase() +
+                                    row.original.status.slice(1)}
+                                </span>
+                              )}
+                              {queuedByProcess[row.original._id] && (
+                                <span
+                                  className="ml-2 px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                                  style={
+                                    queuedByProcess[row.original._id].some(
+                                      (a) => a.conflict
+                                    )
+                                      ? {
+                                          backgroundColor: colors.error[100],
+                                          color: colors.error[700],
+                                        }
+                                      : {
+                                          backgroundColor: colors.warning[100],
+                                          color: colors.warning[700],
+                                        }
+                                  }
+                                  title={queuedByProcess[row.original._id]
+                                    .map(
+                                      (a) =>
+                                        `${queuedActionLabels[a.kind]}${
+                                          a.error ? `: ${a.error}` : ""
+                                        }`
+                                    )
+                                    .join("\n")}
+                                >
+                                  {queuedByProcess[row.original._id].some(
+                                    (a) => a.conflict
+                                  )
+                                    ? "Sync conflict"
+                                    : "Pending sync"}
+                                </span>
+                              )}
+                            </td>
+                          ),
+                          item: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.item?.name || "N/A"}
+                            </td>
+                          ),
+                          rm_store: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.rm_store?.name || "N/A"}
+                            </td>
+                          ),
+                          fg_store: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.fg_store?.name || "N/A"}
+                            </td>
+                          ),
+                          scrap_store: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.scrap_store?.name || "N/A"}
+                            </td>
+                          ),
+                          createdAt: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.createdAt
+                                ? moment(row.original.createdAt).format(
+                                    "DD/MM/YYYY"
+                                  )
+                                : "N/A"}
+                            </td>
+                          ),
+                          updatedAt: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.updatedAt
+                                ? moment(row.original.updatedAt).format(
+                                    "DD/MM/YYYY"
+                                  )
+                                : "N/A"}
+                            </td>
+                          ),
+                        })}
                         <td className="px-4 py-3 text-left">
                           {row?.original.status ===
                             "allocated finish goods" && (
@@ -984,12 +997,27 @@ const ProcessStatusTable: React.FC<ProcessTableProps> = ({
                                 </button>
                               )}
 
-                            {row?.original?.status !== "completed" &&
+                            {can("production", "update") &&
+                              row?.original?.status === "production paused" && (
+                                <button
+                                  className="p-2 rounded-lg transition-all duration-200 hover:shadow-md"
+                                  onClick={() => UpdatedStatus(row.original)}
+                                  style={{
+                                    color: colors.success[600],
+                                    backgroundColor: colors.success[50],
+                                  }}
+                                >
+                                  Resume
+                                </button>
+                              )}
+                            {can("production", "update") &&
+                              row?.original?.status !== "completed" &&
+                              row?.original?.status !== "production paused" &&
                               !shouldHideStartPauseButtons(row.original) && (
                                 <button
                                   className="p-2 rounded-lg transition-all duration-200 hover:shadow-md"
                                   onClick={() =>
-                                    handlePauseProcess(row.original?._id)
+                                    handlePauseProcess(row.original)
                                   }
                                   style={{
                                     color: colors.error[600],
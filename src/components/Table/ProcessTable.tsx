@@ -13,8 +13,11 @@ import { MdDeleteOutline, MdEdit, MdOutlineVisibility } from "react-icons/md";
 import moment from "moment";
 import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useBulkDeleteProcessesMutation,
+  useRequestInventoryAllocationMutation,
+  useStartProductionMutation,
+} from "../../redux/api/api";
 
 const statusColorMap = {
   completed: "bg-green-100 text-green-800",
@@ -45,37 +48,6 @@ interface ProcessTableProps {
   fetchProcessHandler?: (id: string) => void;
 }
 
-const updateProcessStatus = async (id, status) => {
-  //new
-  try {
-    const res = await fetch(
-      `${process.env.REACT_APP_BACKEND_URL}production-process/update-status`,
-      {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${cookies?.access_token}`, // if needed
-        },
-        body: JSON.stringify({ _id: id, status }),
-      }
-    );
-
-    const data = await res.json();
-
-    if (!data.success) {
-      throw new Error(data.message);
-    }
-
-    toast.success(data.message || "Status updated successfully");
-    // Refresh list after status update
-    if (fetchProcessHandler) {
-      fetchProcessHandler();
-    }
-  } catch (err) {
-    toast.error(err.message || "Failed to update status");
-  }
-};
-
 const ProcessTable: React.FC<ProcessTableProps> = ({
   proces,
   isLoadingProcess,
@@ -91,25 +63,13 @@ const ProcessTable: React.FC<ProcessTableProps> = ({
   const [selectedProcesses, setSelectedProcesses] = useState([]);
   const [showBulkDeleteModal, setShowBulkDeleteModal] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
-  const [cookies] = useCookies();
+  const [startProduction] = useStartProductionMutation();
+  const [requestInventoryAllocation] = useRequestInventoryAllocationMutation();
+  const [bulkDeleteProcesses] = useBulkDeleteProcessesMutation();
 
   const UpdatedStatus = async (id) => {
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/start-production`,
-
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ _id: id }),
-        }
-      );
-
-      const data = await res.json();
-      if (!data.success) throw new Error(data.message);
+      const data = await startProduction(id).unwrap();
 
       toast.success(data.message || "Status updated successfully");
       if (fetchProcessHandler) {
@@ -122,16 +82,8 @@ const ProcessTable: React.FC<ProcessTableProps> = ({
 
   const RequestForAllocated = async (id) => {
     try {
-      const res = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/allocation?_id=${id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      await requestInventoryAllocation(id).unwrap();
       fetchProcessHandler();
-      // console.log(cookies?.access_token);
     } catch (error) {
       console.error("Error requesting for allocated inventory:", error);
       toast.error(
@@ -227,23 +179,7 @@ const ProcessTable: React.FC<ProcessTableProps> = ({
 
     try {
       // Use bulk delete endpoint
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/bulk-delete`,
-        {
-          method: "DELETE",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ ids: selectedProcesses }),
-        }
-      );
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await bulkDeleteProcesses(selectedProcesses).unwrap();
 
       // Success feedback
       toast.success(data.message);
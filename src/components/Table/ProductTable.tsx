@@ -26,12 +26,31 @@ import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
 import { useCookies } from "react-cookie";
 import axios from "axios";
+import TableViews, {
+  renderBodyCells,
+  renderHeaderCells,
+} from "./TableViews";
+import { TableColumn, useColumnLayout } from "../utils/tableViews";
+import { SortingRule, serverTableOptions } from "../utils/tableQuery";
 
 const capitalizeWords = (str: string | undefined | null): string => {
   if (!str) return "";
   return str.replace(/\b\w/g, (char) => char.toUpperCase());
 };
 
+const productColumns: TableColumn[] = [
+  { id: "product_id", label: "Product Id" },
+  { id: "name", label: "Name", pinned: true },
+  { id: "category", label: "Inventory Type" },
+  { id: "inventory_category", label: "Inventory Category" },
+  { id: "item_type", label: "Type" },
+  { id: "uom", label: "UOM" },
+  { id: "price", label: "Price" },
+  { id: "current_stock", label: "Current Stock" },
+  { id: "change", label: "Last Change" },
+  { id: "createdAt", label: "Created On" },
+];
+
 interface ProductTableProps {
   products: Array<any>;
   isLoadingProducts: boolean;
@@ -40,6 +59,10 @@ interface ProductTableProps {
   deleteProductHandler?: (id: string) => void;
   bulkDeleteProductsHandler?: (productIds: string[]) => void;
   approveProductHandler?: (id: string) => void;
+  // Given when `products` is one page of a server-side list
+  totalProducts?: number;
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
 }
 
 const ProductTable: React.FC<ProductTableProps> = ({
@@ -50,7 +73,12 @@ const ProductTable: React.FC<ProductTableProps> = ({
   deleteProductHandler,
   bulkDeleteProductsHandler,
   approveProductHandler,
+  totalProducts,
+  sortBy,
+  onSortByChange,
 }) => {
+  const isServerSide = !!onSortByChange;
+
   const columns: Column<any>[] = useMemo(
     () => [
       { Header: "ID", accessor: "product_id" },
@@ -92,6 +120,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
     ],
     []
   );
+  const columnLayout = useColumnLayout("products", productColumns);
   const [showDeletePage, setshowDeletePage] = useState(false);
   const [deleteId, setdeleteId] = useState("");
 
@@ -120,15 +149,26 @@ const ProductTable: React.FC<ProductTableProps> = ({
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex, pageSize },
+    state: { pageIndex, pageSize, sortBy: tableSortBy },
     pageCount,
     setPageSize,
   } = useTable(
-    { columns, data: products, initialState: { pageIndex: 0 } },
+    {
+      columns,
+      data: products,
+      initialState: { pageIndex: 0, sortBy: sortBy || [] },
+      ...(isServerSide ? serverTableOptions : {}),
+    },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
+  const productCount = totalProducts ?? products.length;
+
   const [cookies] = useCookies();
   // Bulk selection functions
   const handleSelectAll = (checked) => {
@@ -256,8 +296,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
                   className="text-lg font-semibold"
                   style={{ color: colors.text.primary }}
                 >
-                  {products.length} Product{products.length !== 1 ? "s" : ""}{" "}
-                  Found
+                  {productCount} Product{productCount !== 1 ? "s" : ""} Found
                 </h3>
               </div>
 
@@ -307,31 +346,36 @@ const ProductTable: React.FC<ProductTableProps> = ({
               )}
             </div>
 
-            <div className="flex items-center gap-3">
-              <span
-                className="text-sm font-medium"
-                style={{ color: colors.text.secondary }}
-              >
-                Show:
-              </span>
-              <Select
-                onChange={(e) => setPageSize(Number(e.target.value))}
-                value={pageSize}
-                size="sm"
-                width="auto"
-                borderRadius="lg"
-                borderColor={colors.border.light}
-                _focus={{
-                  borderColor: colors.primary[500],
-                  boxShadow: `0 0 0 1px ${colors.primary[500]}`,
-                }}
-              >
-                {[5, 10, 20, 50, 100, 100000].map((size) => (
-                  <option key={size} value={size}>
-                    {size === 100000 ? "All" : size}
-                  </option>
-                ))}
-              </Select>
+            <div className="flex flex-wrap items-center gap-3">
+              <TableViews table="products" columnLayout={columnLayout} />
+              {!isServerSide && (
+                <>
+                  <span
+                    className="text-sm font-medium"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    Show:
+                  </span>
+                  <Select
+                    onChange={(e) => setPageSize(Number(e.target.value))}
+                    value={pageSize}
+                    size="sm"
+                    width="auto"
+                    borderRadius="lg"
+                    borderColor={colors.border.light}
+                    _focus={{
+                      borderColor: colors.primary[500],
+                      boxShadow: `0 0 0 1px ${colors.primary[500]}`,
+                    }}
+                  >
+                    {[5, 10, 20, 50, 100, 100000].map((size) => (
+                      <option key={size} value={size}>
+                        {size === 100000 ? "All" : size}
+                      </option>
+                    ))}
+                  </Select>
+                </>
+              )}
             </div>
           </div>
 
@@ -375,79 +419,96 @@ const ProductTable: React.FC<ProductTableProps> = ({
                         />
                       )}
                     </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{
-                        color: colors.table.headerText,
-                        width: "160px",
-                        minWidth: "160px",
-                      }}
-                    >
-                      Product Id
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{
-                        color: colors.table.headerText,
-                        position: "sticky",
-                        top: 0,
-                        left: 0,
-                        zIndex: 3,
-                        backgroundColor: colors.table.header,
-                        width: "160px",
-                        minWidth: "160px",
-                      }}
-                    >
-                      Name
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Inventory Type
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Inventory Category
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Type
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      UOM
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Price
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Current Stock 
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Last Change
-                    </th>
-                    <th
-                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                      style={{ color: colors.table.headerText }}
-                    >
-                      Created On
-                    </th>
+                    {renderHeaderCells(columnLayout, {
+                      product_id: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{
+                            color: colors.table.headerText,
+                            width: "160px",
+                            minWidth: "160px",
+                          }}
+                        >
+                          Product Id
+                        </th>
+                      ),
+                      name: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{
+                            color: colors.table.headerText,
+                            width: "160px",
+                            minWidth: "160px",
+                          }}
+                        >
+                          Name
+                        </th>
+                      ),
+                      category: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Inventory Type
+                        </th>
+                      ),
+                      inventory_category: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Inventory Category
+                        </th>
+                      ),
+                      item_type: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Type
+                        </th>
+                      ),
+                      uom: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          UOM
+                        </th>
+                      ),
+                      price: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Price
+                        </th>
+                      ),
+                      current_stock: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Current Stock 
+                        </th>
+                      ),
+                      change: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Last Change
+                        </th>
+                      ),
+                      createdAt: (
+                        <th
+                          className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                          style={{ color: colors.table.headerText }}
+                        >
+                          Created On
+                        </th>
+                      ),
+                    })}
                     <th
                       className="px-4 py-3 text-center text-sm font-semibold whitespace-nowrap"
                       style={{ color: colors.table.headerText }}
@@ -459,15 +520,16 @@ const ProductTable: React.FC<ProductTableProps> = ({
                 <tbody>
                   {page.map((row, index) => {
                     prepareRow(row);
+                    const rowBackground =
+                      index % 2 === 0
+                        ? colors.background.card
+                        : colors.table.stripe;
                     return (
                       <tr
                         key={row.id}
                         className="transition-colors hover:shadow-sm"
                         style={{
-                          backgroundColor:
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe,
+                          backgroundColor: rowBackground,
                           borderBottom: `1px solid ${colors.table.border}`,
                         }}
                         onMouseEnter={(e) => {
@@ -476,9 +538,7 @@ const ProductTable: React.FC<ProductTableProps> = ({
                         }}
                         onMouseLeave={(e) => {
                           e.currentTarget.style.backgroundColor =
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe;
+                            rowBackground;
                         }}
                       >
                         <td
@@ -505,203 +565,218 @@ const ProductTable: React.FC<ProductTableProps> = ({
                             />
                           )}
                         </td>
-                        <td
-                          className="px-4 py-3 text-sm font-mono whitespace-nowrap"
-                          style={{
-                            color: colors.text.secondary,
-                            width: "160px",
-                            minWidth: "160px",
-                          }}
-                        >
-                          {row.original.product_id || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm font-medium whitespace-nowrap max-w-xs truncate"
-                          style={{
-                            color: colors.text.secondary,
-                            position: "sticky",
-                            left: 0,
-                            zIndex: 1,
-                            backgroundColor:
-                              index % 2 === 0
-                                ? colors.background.card
-                                : colors.table.stripe,
-                            width: "160px",
-                            minWidth: "160px",
-                          }}
-                          title={row.original.name}
-                        >
-                          {capitalizeWords(row.original.name) || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {capitalizeWords(row.original.category) || "N/A"}
-                        </td>
-                        <td className="px-4 py-3 text-sm whitespace-nowrap">
-                          {row.original.inventory_category && (
-                            <span
-                              className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                        {renderBodyCells(columnLayout, rowBackground, {
+                          product_id: (
+                            <td
+                              className="px-4 py-3 text-sm font-mono whitespace-nowrap"
                               style={{
-                                backgroundColor:
-                                  row.original.inventory_category === "direct"
-                                    ? colors.success[100]
-                                    : colors.error[100],
-                                color:
-                                  row.original.inventory_category === "direct"
-                                    ? colors.success[700]
-                                    : colors.error[700],
+                                color: colors.text.secondary,
+                                width: "160px",
+                                minWidth: "160px",
                               }}
                             >
-                              {capitalizeWords(row.original.inventory_category)}
-                            </span>
-                          )}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {capitalizeWords(row.original.item_type) || "N/A"}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.uom || "N/A"}
-                        </td>
-                        <td className="px-4 py-3 text-sm whitespace-nowrap relative">
-                          <div className="flex flex-col">
-                            <span
-                              className="font-medium"
-                              style={{ color: colors.success[600] }}
+                              {row.original.product_id || "N/A"}
+                            </td>
+                          ),
+                          name: (
+                            <td
+                              className="px-4 py-3 text-sm font-medium whitespace-nowrap max-w-xs truncate"
+                              style={{
+                                color: colors.text.secondary,
+                                width: "160px",
+                                minWidth: "160px",
+                              }}
+                              title={row.original.name}
                             >
-                              ₹{row.original.price || "0"}
-                            </span>
-                            {row.original.latest_price &&
-                              row.original.latest_price !==
-                                row.original.price && (
-                                <div className="flex items-center">
-                                  <FaHistory
-                                    onClick={() => toggleModal(row.original._id)}
-                                    style={{
-                                      marginRight: "3px",
-                                      marginTop: "1px",
-                                      fontSize: "12px",
-                                      cursor: "pointer",
-                                    }}
-                                  />
-                                  <span
-                                    className="text-xs font-medium"
-                                    style={{ color: colors.primary[600] }}
-                                  >
-                                    Latest: ₹
-                                    {row.original.latest_price.toFixed(2)}
-                                  </span>
-                                  {isLatestPriceModalOpen === row.original._id && (
-                                    <div
-                                      ref={modalRef}
-                                      className="absolute top-full left-0 mt-1 bg-white p-4 rounded-lg shadow-lg w-64 z-50"
-                                      style={{
-                                        border: `1px solid ${colors.border.light}`,
-                                      }}
-                                    >
-                                      <h3
-                                        className="text-sm font-semibold mb-1"
-                                        style={{ color: colors.text.primary }}
+                              {capitalizeWords(row.original.name) || "N/A"}
+                            </td>
+                          ),
+                          category: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {capitalizeWords(row.original.category) || "N/A"}
+                            </td>
+                          ),
+                          inventory_category: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                              {row.original.inventory_category && (
+                                <span
+                                  className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                                  style={{
+                                    backgroundColor:
+                                      row.original.inventory_category === "direct"
+                                        ? colors.success[100]
+                                        : colors.error[100],
+                                    color:
+                                      row.original.inventory_category === "direct"
+                                        ? colors.success[700]
+                                        : colors.error[700],
+                                  }}
+                                >
+                                  {capitalizeWords(row.original.inventory_category)}
+                                </span>
+                              )}
+                            </td>
+                          ),
+                          item_type: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {capitalizeWords(row.original.item_type) || "N/A"}
+                            </td>
+                          ),
+                          uom: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.uom || "N/A"}
+                            </td>
+                          ),
+                          price: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap relative">
+                              <div className="flex flex-col">
+                                <span
+                                  className="font-medium"
+                                  style={{ color: colors.success[600] }}
+                                >
+                                  ₹{row.original.price || "0"}
+                                </span>
+                                {row.original.latest_price &&
+                                  row.original.latest_price !==
+                                    row.original.price && (
+                                    <div className="flex items-center">
+                                      <FaHistory
+                                        onClick={() => toggleModal(row.original._id)}
+                                        style={{
+                                          marginRight: "3px",
+                                          marginTop: "1px",
+                                          fontSize: "12px",
+                                          cursor: "pointer",
+                                        }}
+                                      />
+                                      <span
+                                        className="text-xs font-medium"
+                                        style={{ color: colors.primary[600] }}
                                       >
-                                        Recent Price History
-                                      </h3>
-                                      <ul className="text-sm">
-                                        {row.original.price_history &&
-                                        row.original.price_history.length > 0 ? (
-                                          row.original.price_history
-                                            .slice(0, 5)
-                                            .map((history, index) => (
-                                              <li key={index} className="mb-1">
-                                                <span
-                                                  className="font-medium"
-                                                  style={{
-                                                    color: colors.text.secondary,
-                                                  }}
-                                                >
-                                                  {moment(history.updated_at).format(
-                                                    "DD/MM/YYYY HH:mm"
-                                                  )}
-                                                  :
-                                                </span>{" "}
-                                                ₹{Math.round(history.price).toFixed(2)}
-                                              </li>
-                                            ))
-                                        ) : (
-                                          <li
-                                            style={{ color: colors.text.muted }}
+                                        Latest: ₹
+                                        {row.original.latest_price.toFixed(2)}
+                                      </span>
+                                      {isLatestPriceModalOpen === row.original._id && (
+                                        <div
+                                          ref={modalRef}
+                                          className="absolute top-full left-0 mt-1 bg-white p-4 rounded-lg shadow-lg w-64 z-50"
+                                          style={{
+                                            border: `1px solid ${colors.border.light}`,
+                                          }}
+                                        >
+                                          <h3
+                                            className="text-sm font-semibold mb-1"
+                                            style={{ color: colors.text.primary }}
                                           >
-                                            No price history available
-                                          </li>
-                                        )}
-                                      </ul>
+                                            Recent Price History
+                                          </h3>
+                                          <ul className="text-sm">
+                                            {row.original.price_history &&
+                                            row.original.price_history.length > 0 ? (
+                                              row.original.price_history
+                                                .slice(0, 5)
+                                                .map((history, index) => (
+                                                  <li key={index} className="mb-1">
+                                                    <span
+                                                      className="font-medium"
+                                                      style={{
+                                                        color: colors.text.secondary,
+                                                      }}
+                                                    >
+                                                      {moment(history.updated_at).format(
+                                                        "DD/MM/YYYY HH:mm"
+                                                      )}
+                                                      :
+                                                    </span>{" "}
+                                                    ₹{Math.round(history.price).toFixed(2)}
+                                                  </li>
+                                                ))
+                                            ) : (
+                                              <li
+                                                style={{ color: colors.text.muted }}
+                                              >
+                                                No price history available
+                                              </li>
+                                            )}
+                                          </ul>
+                                        </div>
+                                      )}
                                     </div>
                                   )}
-                                </div>
-                              )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-sm whitespace-nowrap">
-                          <div className="flex flex-col">
-                            <span style={{ color: colors.text.secondary }}>
-                              {(row.original.current_stock || 0) +
-                                (row.original.updated_stock || 0) -
-                                (row.original.updated_stock || 0)}
-                            </span>
-                            {row.original.updated_stock &&
-                              row.original.updated_stock !== null && (
-                                <span
-                                  className="text-xs font-medium"
-                                  style={{ color: colors.primary[600] }}
-                                >
-                                  Updated: +{row.original.updated_stock}
+                              </div>
+                            </td>
+                          ),
+                          current_stock: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                              <div className="flex flex-col">
+                                <span style={{ color: colors.text.secondary }}>
+                                  {(row.original.current_stock || 0) +
+                                    (row.original.updated_stock || 0) -
+                                    (row.original.updated_stock || 0)}
                                 </span>
+                                {row.original.updated_stock &&
+                                  row.original.updated_stock !== null && (
+                                    <span
+                                      className="text-xs font-medium"
+                                      style={{ color: colors.primary[600] }}
+                                    >
+                                      Updated: +{row.original.updated_stock}
+                                    </span>
+                                  )}
+                              </div>
+                            </td>
+                          ),
+                          change: (
+                            <td className="px-4 py-3 text-sm whitespace-nowrap">
+                              {row.original.change_type && (
+                                <div className="flex gap-1 items-center whitespace-nowrap">
+                                  {row.original.change_type === "increase" ? (
+                                    <FaArrowUpLong
+                                      size={16}
+                                      style={{ color: colors.success[500] }}
+                                    />
+                                  ) : (
+                                    <FaArrowDownLong
+                                      size={16}
+                                      style={{ color: colors.error[500] }}
+                                    />
+                                  )}
+                                  <span
+                                    style={{
+                                      color:
+                                        row.original.change_type === "increase"
+                                          ? colors.success[600]
+                                          : colors.error[600],
+                                    }}
+                                  >
+                                    {row.original.quantity_changed}
+                                  </span>
+                                </div>
                               )}
-                          </div>
-                        </td>
-                        <td className="px-4 py-3 text-sm whitespace-nowrap">
-                          {row.original.change_type && (
-                            <div className="flex gap-1 items-center whitespace-nowrap">
-                              {row.original.change_type === "increase" ? (
-                                <FaArrowUpLong
-                                  size={16}
-                                  style={{ color: colors.success[500] }}
-                                />
-                              ) : (
-                                <FaArrowDownLong
-                                  size={16}
-                                  style={{ color: colors.error[500] }}
-                                />
-                              )}
-                              <span
-                                style={{
-                                  color:
-                                    row.original.change_type === "increase"
-                                      ? colors.success[600]
-                                      : colors.error[600],
-                                }}
-                              >
-                                {row.original.quantity_changed}
-                              </span>
-                            </div>
-                          )}
-                        </td>
-                        <td
-                          className="px-4 py-3 text-sm whitespace-nowrap"
-                          style={{ color: colors.text.secondary }}
-                        >
-                          {row.original.createdAt
-                            ? moment(row.original.createdAt).format(
-                                "DD/MM/YYYY"
-                              )
-                            : "N/A"}
-                        </td>
+                            </td>
+                          ),
+                          createdAt: (
+                            <td
+                              className="px-4 py-3 text-sm whitespace-nowrap"
+                              style={{ color: colors.text.secondary }}
+                            >
+                              {row.original.createdAt
+                                ? moment(row.original.createdAt).format(
+                                    "DD/MM/YYYY"
+                                  )
+                                : "N/A"}
+                            </td>
+                          ),
+                        })}
                         <td className="px-4 py-3">
                           <div className="flex items-center justify-center gap-2">
                             {openProductDetailsDrawerHandler && (
@@ -812,96 +887,98 @@ const ProductTable: React.FC<ProductTableProps> = ({
             </div>
           </div>
 
-          <div
-            className="flex items-center justify-center px-6 py-4 border-t mt-4"
-            style={{
-              backgroundColor: colors.gray[50],
-              borderColor: colors.border.light,
-            }}
-          >
-            <div className="flex items-center gap-2">
-              <button
-                disabled={!canPreviousPage}
-                onClick={previousPage}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                style={{
-                  color: colors.text.primary,
-                  backgroundColor: colors.background.card,
-                  border: `1px solid ${colors.border.light}`,
-                }}
-                onMouseEnter={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor = colors.gray[50];
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor =
-                      colors.background.card;
-                  }
-                }}
-              >
-                <svg
-                  className="w-4 h-4 mr-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+          {!isServerSide && (
+            <div
+              className="flex items-center justify-center px-6 py-4 border-t mt-4"
+              style={{
+                backgroundColor: colors.gray[50],
+                borderColor: colors.border.light,
+              }}
+            >
+              <div className="flex items-center gap-2">
+                <button
+                  disabled={!canPreviousPage}
+                  onClick={previousPage}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  style={{
+                    color: colors.text.primary,
+                    backgroundColor: colors.background.card,
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor = colors.gray[50];
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor =
+                        colors.background.card;
+                    }
+                  }}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 19l-7-7 7-7"
-                  />
-                </svg>
-                Previous
-              </button>
+                  <svg
+                    className="w-4 h-4 mr-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M15 19l-7-7 7-7"
+                    />
+                  </svg>
+                  Previous
+                </button>
 
-              <span
-                className="mx-4 text-sm"
-                style={{ color: colors.text.secondary }}
-              >
-                Page {pageIndex + 1} of {pageCount}
-              </span>
+                <span
+                  className="mx-4 text-sm"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Page {pageIndex + 1} of {pageCount}
+                </span>
 
-              <button
-                disabled={!canNextPage}
-                onClick={nextPage}
-                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
-                style={{
-                  color: colors.text.primary,
-                  backgroundColor: colors.background.card,
-                  border: `1px solid ${colors.border.light}`,
-                }}
-                onMouseEnter={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor = colors.gray[50];
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!e.currentTarget.disabled) {
-                    e.currentTarget.style.backgroundColor =
-                      colors.background.card;
-                  }
-                }}
-              >
-                Next
-                <svg
-                  className="w-4 h-4 ml-2"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
+                <button
+                  disabled={!canNextPage}
+                  onClick={nextPage}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+                  style={{
+                    color: colors.text.primary,
+                    backgroundColor: colors.background.card,
+                    border: `1px solid ${colors.border.light}`,
+                  }}
+                  onMouseEnter={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor = colors.gray[50];
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!e.currentTarget.disabled) {
+                      e.currentTarget.style.backgroundColor =
+                        colors.background.card;
+                    }
+                  }}
                 >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 5l7 7-7 7"
-                  />
-                </svg>
-              </button>
+                  Next
+                  <svg
+                    className="w-4 h-4 ml-2"
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M9 5l7 7-7 7"
+                    />
+                  </svg>
+                </button>
+              </div>
             </div>
-          </div>
+          )}
         </>
       )}
 
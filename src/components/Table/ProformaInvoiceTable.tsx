@@ -8,8 +8,9 @@ import { usePagination, useSortBy, useTable } from "react-table";
 import { PDFDownloadLink } from "@react-pdf/renderer";
 import { colors } from "../../theme/colors";
 import PorformaInvoicePDF from "../PDF/PorformaInvoicePDF";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import { User } from "../../redux/api/types";
+import { useLazyEmployeeDetailsQuery } from "../../redux/api/api";
+import { toast } from "react-toastify";
 
 
 interface ProformaInvoiceTableProps {
@@ -37,40 +38,22 @@ const ProformaInvoiceTable: React.FC<ProformaInvoiceTableProps> = ({
 }) => {
   const [showDeletePage, setshowDeletePage] = useState(false);
   const [deleteId, setdeleteId] = useState("");
-  const [userData, setUserData] = useState<PurchaseOrder | null>(null);
-  const [cookies] = useCookies();
-   
+  // Signed in user, printed on the proforma invoice PDF
+  const [userData, setUserData] = useState<User | null>(null);
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
 
-  // NEW: Function to fetch purchase order data from API
   const fetchUserData = async () => {
     try {
-      console.log("INside try")
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}auth/user`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      console.log("Inside Proforma Function ::", response.data);
-
-      if (response.data.success) {
-        setUserData(response.data.user); // Assuming API returns data in `data` field
-      } else {
-        console.error("Failed to fetch user data:", response.data.message);
-        // toast.error("Failed to fetch user data");
-      }
-
-      console.log("Inside Proforma Function ::", response.data);
+      const response = await fetchEmployeeDetails({}).unwrap();
+      setUserData(response.user);
     } catch (error: any) {
-      console.error("Error fetching user data:", error);
-      // toast.error(error.message || "Failed to fetch user data");
+      toast.error(error?.data?.message || "Failed to fetch user data");
     }
   };
 
-  // NEW: useEffect to fetch user data on component mount
   useEffect(() => {
     fetchUserData();
-  }, []); // Empty dependency array ensures it runs only on mount
+  }, []);
 
   const columns = useMemo(
     () => [
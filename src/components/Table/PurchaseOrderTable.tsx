@@ -1,15 +1,40 @@
 // @ts-nocheck
 
 import React, { useState, useEffect } from "react";
-import { MdDeleteOutline, MdEdit, MdOutlineVisibility } from "react-icons/md";
+import {
+  MdDeleteOutline,
+  MdEdit,
+  MdMoveToInbox,
+  MdOutlineVisibility,
+} from "react-icons/md";
 import { BiSolidTrash, BiX } from "react-icons/bi";
 import { colors } from "../../theme/colors";
-import { useCookies } from "react-cookie";
-import axios from "axios";
+import TableViews, {
+  renderBodyCells,
+  renderHeaderCells,
+} from "./TableViews";
+import { TableColumn, useColumnLayout } from "../utils/tableViews";
+import ExportMenu from "./ExportMenu";
+import { ListArgs, User } from "../../redux/api/types";
+import {
+  ExportColumn,
+  formatExportDate,
+  getVisibleExportColumns,
+} from "../utils/tableExport";
+import {
+  useBulkDeletePurchaseOrdersMutation,
+  useDeletePurchaseOrderMutation,
+  useLazyEmployeeDetailsQuery,
+} from "../../redux/api/api";
 import { toast } from "react-toastify";
 import { PDFDownloadLink } from "@react-pdf/renderer";
 import PurchaseOrderPDF from "../PDF/PurchaseOrderPDF";
 import { FaFilePdf } from "react-icons/fa";
+import GoodsReceipt from "../Drawers/Purchase Order/GoodsReceipt";
+import {
+  getPurchaseOrderStatus,
+  purchaseOrderStatusColorMap,
+} from "../utils/goodsReceipts";
 
 interface PurchaseOrder {
   _id: string;
@@ -30,12 +55,46 @@ interface PurchaseOrder {
   updatedAt?: string;
 }
 
+const purchaseOrderColumns: TableColumn[] = [
+  { id: "poOrder", label: "P.O. Number" },
+  { id: "date", label: "Order Date" },
+  { id: "status", label: "Status" },
+  { id: "supplierName", label: "Supplier Name" },
+  { id: "supplierEmail", label: "Supplier Email" },
+  { id: "supplierShippedGSTIN", label: "Shipped GSTIN" },
+  { id: "supplierBillGSTIN", label: "Bill GSTIN" },
+  { id: "supplierShippedTo", label: "Shipped To" },
+  { id: "supplierBillTo", label: "Bill To" },
+  { id: "modeOfPayment", label: "Mode of Payment" },
+  { id: "GSTApply", label: "GST Apply" },
+];
+
+// Every column shows a plain field of the order, only the date and the
+// receipt status are formatted
+const purchaseOrderExportColumns: ExportColumn[] = purchaseOrderColumns.map(
+  ({ id, label }) => ({
+    id,
+    label,
+    value: (order: PurchaseOrder) =>
+      id === "date"
+        ? formatExportDate(order.date)
+        : id === "status"
+        ? getPurchaseOrderStatus(order)
+        : order[id],
+  })
+);
+
 interface PurchaseOrderTableProps {
   refreshTrigger?: number;
   onEdit?: (order: PurchaseOrder) => void;
   filteredPurchaseOrders: PurchaseOrder[];
   onDelete?: (id: string) => void;
   onRefresh?: () => void;
+  // Given when `filteredPurchaseOrders` is one page of a server-side list,
+  // already sorted
+  totalPurchaseOrders?: number;
+  fetchAllPurchaseOrders?: () => Promise<PurchaseOrder[]>;
+  listParams?: ListArgs;
 }
 
 const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
@@ -44,13 +103,27 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
   filteredPurchaseOrders,
   onDelete,
   onRefresh,
+  totalPurchaseOrders,
+  fetchAllPurchaseOrders,
+  listParams,
 }) => {
-  const [cookies] = useCookies();
+  const isServerSide = !!fetchAllPurchaseOrders;
+  const [deletePurchaseOrder] = useDeletePurchaseOrderMutation();
+  const [bulkDeletePurchaseOrders] = useBulkDeletePurchaseOrdersMutation();
+  const columnLayout = useColumnLayout(
+    "purchase-orders",
+    purchaseOrderColumns
+  );
+  const getRowBackground = (index: number) =>
+    index % 2 === 0 ? colors.background.card : colors.table.stripe;
   const [loading, setLoading] = useState(true);
   const [limit, setLimit] = useState(10);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [viewOrder, setViewOrder] = useState<PurchaseOrder | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(
+    null
+  );
 
   // Bulk delete states
   const [selectedOrders, setSelectedOrders] = useState<string[]>([]);
@@ -61,41 +134,23 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteId, setDeleteId] = useState<string>("");
 
-  // NEW: State to store fetched user data
-  const [userData, setUserData] = useState<PurchaseOrder | null>(null);
+  // Signed in user, printed on the purchase order PDF
+  const [userData, setUserData] = useState<User | null>(null);
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
 
-  // NEW: Function to fetch purchase order data from API
   const fetchUserData = async () => {
     try {
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}auth/user`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (response.data.success) {
-        setUserData(response.data.user); // Assuming API returns data in `data` field
-      } else {
-        console.error("Failed to fetch user data:", response.data.message);
-        toast.error("Failed to fetch user data");
-      }
-      console.log("ggggggggggggggggggggggggggg", response.data);
+      const response = await fetchEmployeeDetails({}).unwrap();
+      setUserData(response.user);
     } catch (error: any) {
-      console.error("Error fetching user data:", error);
-      toast.error(error.message || "Failed to fetch user data");
+      toast.error(error?.data?.message || "Failed to fetch user data");
     }
   };
 
-  // NEW: useEffect to fetch user data on component mount
   useEffect(() => {
     fetchUserData();
   }, []); // Empty dependency array ensures it runs only on mount
 
-  useEffect(() => {
-    console.log("The user data is ::: ", userData);
-  }, []);
-
   // Auto-refresh setup
   useEffect(() => {
     setLoading(false);
@@ -113,22 +168,10 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
 
     setDeletingId(deleteId);
     try {
-      const response = await axios.delete(
-        `${process.env.REACT_APP_BACKEND_URL}purchase-order/${deleteId}`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (response.data.success) {
-        toast.success("Purchase order deleted successfully!");
-        if (onDelete) {
-          onDelete(deleteId);
-        }
-      } else {
-        throw new Error(
-          response.data.message || "Failed to delete purchase order"
-        );
+      await deletePurchaseOrder(deleteId).unwrap();
+      toast.success("Purchase order deleted successfully!");
+      if (onDelete) {
+        onDelete(deleteId);
       }
     } catch (error: any) {
       console.error("Error deleting purchase order:", error);
@@ -164,34 +207,19 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
     setIsBulkDeleting(true);
 
     try {
-      const response = await axios.delete(
-        `${process.env.REACT_APP_BACKEND_URL}purchase-order/bulk-delete`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          data: { ids: selectedOrders },
-        }
+      const response = await bulkDeletePurchaseOrders(selectedOrders).unwrap();
+      toast.success(
+        `Successfully deleted ${response.deletedCount} purchase order(s)`
       );
-
-      if (response.data.success) {
-        toast.success(
-          `Successfully deleted ${response.data.deletedCount} purchase order(s)`
-        );
-        // Remove deleted orders from local state
-        if (onDelete) {
-          selectedOrders.forEach((orderId) => onDelete(orderId));
-        }
-        setSelectedOrders([]);
-        setShowBulkDeleteModal(false);
-      } else {
-        throw new Error(
-          response.data.message || "Failed to delete purchase orders"
-        );
+      // Remove deleted orders from local state
+      if (onDelete) {
+        selectedOrders.forEach((orderId) => onDelete(orderId));
       }
+      setSelectedOrders([]);
+      setShowBulkDeleteModal(false);
     } catch (error: any) {
       console.error("Error in bulk delete:", error);
-      toast.error(
-        error?.response?.data?.message || "Error deleting purchase orders"
-      );
+      toast.error(error?.message || "Error deleting purchase orders");
     } finally {
       setIsBulkDeleting(false);
     }
@@ -212,11 +240,15 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
   // Handle PDF download - Removed as we'll use PDFDownloadLink component instead
 
   // Sort purchase orders by createdAt in descending order
-  const sortedPurchaseOrders = [...filteredPurchaseOrders].sort((a, b) => {
-    const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-    const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-    return dateB - dateA;
-  });
+  const sortedPurchaseOrders = isServerSide
+    ? filteredPurchaseOrders
+    : [...filteredPurchaseOrders].sort((a, b) => {
+        const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+        const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+        return dateB - dateA;
+      });
+  const purchaseOrderCount =
+    totalPurchaseOrders ?? filteredPurchaseOrders.length;
 
   // Selection state helpers
   const isAllSelected =
@@ -236,8 +268,8 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
               className="text-lg font-semibold"
               style={{ color: colors.text.primary }}
             >
-              {filteredPurchaseOrders.length} Purchase Order
-              {filteredPurchaseOrders.length !== 1 ? "s" : ""} Found
+              {purchaseOrderCount} Purchase Order
+              {purchaseOrderCount !== 1 ? "s" : ""} Found
             </h3>
           </div>
 
@@ -262,29 +294,47 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
           )}
         </div>
 
-        <div className="flex items-center gap-3">
-          {/* Limit Selector */}
-          <span
-            className="text-sm font-medium"
-            style={{ color: colors.text.secondary }}
-          >
-            Show:
-          </span>
-          <select
-            onChange={(e) => setLimit(Number(e.target.value))}
-            className="px-3 py-2 text-sm rounded-lg border transition-colors"
-            style={{
-              backgroundColor: colors.input.background,
-              borderColor: colors.border.light,
-              color: colors.text.primary,
-            }}
-          >
-            {[5, 10, 20, 50, 100].map((size) => (
-              <option key={size} value={size}>
-                {size === 100 ? "All" : size}
-              </option>
-            ))}
-          </select>
+        <div className="flex flex-wrap items-center gap-3">
+          <TableViews table="purchase-orders" columnLayout={columnLayout} />
+          <ExportMenu
+            module="procurement"
+            fileName="Purchase_Orders"
+            columns={getVisibleExportColumns(
+              purchaseOrderExportColumns,
+              columnLayout.visibleIds
+            )}
+            rows={isServerSide ? undefined : sortedPurchaseOrders}
+            fetchRows={fetchAllPurchaseOrders}
+            totalRows={totalPurchaseOrders}
+            resource={isServerSide ? "purchase-order" : undefined}
+            params={listParams}
+          />
+          {!isServerSide && (
+            <>
+              {/* Limit Selector */}
+              <span
+                className="text-sm font-medium"
+                style={{ color: colors.text.secondary }}
+              >
+                Show:
+              </span>
+              <select
+                onChange={(e) => setLimit(Number(e.target.value))}
+                className="px-3 py-2 text-sm rounded-lg border transition-colors"
+                style={{
+                  backgroundColor: colors.input.background,
+                  borderColor: colors.border.light,
+                  color: colors.text.primary,
+                }}
+              >
+                {[5, 10, 20, 50, 100].map((size) => (
+                  <option key={size} value={size}>
+                    {size === 100 ? "All" : size}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
         </div>
       </div>
 
@@ -569,78 +619,96 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                   />
                 </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  P.O. Number
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Order Date
-                </th>
-                {/* <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Item Name
-                </th> */}
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Supplier Name
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Supplier Email
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Shipped GSTIN
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Bill GSTIN
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Shipped To
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Bill To
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Mode of Payment
-                </th>
-                <th
-                  className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  GST Apply
-                </th>
-                {/* <th
-                  className="px-4 py-3 text-left text-sm font-medium whitespace-nowrap"
-                  style={{ color: colors.table.headerText }}
-                >
-                  Billing Address
-                </th> */}
+                {renderHeaderCells(columnLayout, {
+                  poOrder: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      P.O. Number
+                    </th>
+                  ),
+                  date: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Order Date
+                    </th>
+                  ),
+                  status: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Status
+                    </th>
+                  ),
+                  supplierName: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Supplier Name
+                    </th>
+                  ),
+                  supplierEmail: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Supplier Email
+                    </th>
+                  ),
+                  supplierShippedGSTIN: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Shipped GSTIN
+                    </th>
+                  ),
+                  supplierBillGSTIN: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Bill GSTIN
+                    </th>
+                  ),
+                  supplierShippedTo: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Shipped To
+                    </th>
+                  ),
+                  supplierBillTo: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Bill To
+                    </th>
+                  ),
+                  modeOfPayment: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      Mode of Payment
+                    </th>
+                  ),
+                  GSTApply: (
+                    <th
+                      className="px-4 py-3 text-left text-sm font-semibold whitespace-nowrap"
+                      style={{ color: colors.table.headerText }}
+                    >
+                      GST Apply
+                    </th>
+                  ),
+                })}
                 <th
                   className="px-4 py-3 text-center text-sm font-semibold whitespace-nowrap"
                   style={{ color: colors.table.headerText }}
@@ -669,16 +737,13 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
                 </tr>
               ) : (
                 sortedPurchaseOrders
-                  .slice(0, limit)
+                  .slice(0, isServerSide ? undefined : limit)
                   .map((order: PurchaseOrder, index: number) => (
                     <tr
                       key={order._id || index}
                       className="transition-colors hover:shadow-sm"
                       style={{
-                        backgroundColor:
-                          index % 2 === 0
-                            ? colors.background.card
-                            : colors.table.stripe,
+                        backgroundColor: getRowBackground(index),
                         borderBottom: `1px solid ${colors.table.border}`,
                         opacity: deletingId === order._id ? 0.5 : 1,
                       }}
@@ -691,9 +756,7 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
                       onMouseLeave={(e) => {
                         if (deletingId !== order._id) {
                           e.currentTarget.style.backgroundColor =
-                            index % 2 === 0
-                              ? colors.background.card
-                              : colors.table.stripe;
+                            getRowBackground(index);
                         }
                       }}
                     >
@@ -707,100 +770,121 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
                           className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                         />
                       </td>
-                      <td
-                        className="px-4 py-3 text-sm whitespace-nowrap"
-                        style={{ color: colors.text.secondary }}
-                      >
-                        {order.poOrder || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm whitespace-nowrap"
-                        style={{ color: colors.text.secondary }}
-                      >
-                        {order.date
-                          ? new Date(order.date).toLocaleDateString()
-                          : "N/A"}
-                      </td>
-                      {/* <td
-                        className="px-4 py-3 text-sm font-medium whitespace-nowrap truncate max-w-xs"
-                        style={{ color: colors.text.primary }}
-                        title={order.itemName || "N/A"}
-                      >
-                        {order.itemName || "N/A"}
-                      </td> */}
-                      <td
-                        className="px-4 py-3 text-sm font-medium whitespace-nowrap truncate max-w-xs"
-                        style={{ color: colors.text.primary }}
-                        title={order.supplierName || "N/A"}
-                      >
-                        {order.supplierName || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
-                        style={{ color: colors.text.secondary }}
-                        title={order.supplierEmail || "N/A"}
-                      >
-                        {order.supplierEmail || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
-                        style={{ color: colors.text.secondary }}
-                        title={order.supplierShippedGSTIN || "N/A"}
-                      >
-                        {order.supplierShippedGSTIN || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
-                        style={{ color: colors.text.secondary }}
-                        title={order.supplierBillGSTIN || "N/A"}
-                      >
-                        {order.supplierBillGSTIN || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm max-w-xs truncate whitespace-nowrap"
-                        style={{ color: colors.text.secondary }}
-                        title={order.supplierShippedTo || "N/A"}
-                      >
-                        {order.supplierShippedTo || "N/A"}
-                      </td>
-                      <td
-                        className="px-4 py-3 text-sm max-w-xs truncate whitespace-nowrap"
-                        style={{ color: colors.text.secondary }}
-                        title={order.supplierBillTo || "N/A"}
-                      >
-                        {order.supplierBillTo || "N/A"}
-                      </td>
-                      <td className="px-4 py-3 text-sm whitespace-nowrap">
-                        <span
-                          className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
-                          style={{
-                            backgroundColor: colors.primary[100],
-                            color: colors.primary[700],
-                          }}
-                        >
-                          {order.modeOfPayment || "N/A"}
-                        </span>
-                      </td>
-                      <td className="px-4 py-3 text-sm whitespace-nowrap">
-                        <span
-                          className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
-                          style={{
-                            backgroundColor: colors.success[100],
-                            color: colors.success[700],
-                          }}
-                        >
-                          {order.GSTApply
-                            ? order.GSTApply.toUpperCase()
-                            : "N/A"}
-                        </span>
-                      </td>
-                      {/* <td
-                        className="px-4 py-3 text-sm max-w-xs truncate whitespace-nowrap"
-                        style={{ color: colors.text.secondary }}
-                        title={order.billingAddress || "N/A"}
-                      >
-                        {order.billingAddress || "N/A"}
-                      </td> */}
+                      {renderBodyCells(columnLayout, getRowBackground(index), {
+                        poOrder: (
+                          <td
+                            className="px-4 py-3 text-sm whitespace-nowrap"
+                            style={{ color: colors.text.secondary }}
+                          >
+                            {order.poOrder || "N/A"}
+                          </td>
+                        ),
+                        date: (
+                          <td
+                            className="px-4 py-3 text-sm whitespace-nowrap"
+                            style={{ color: colors.text.secondary }}
+                          >
+                            {order.date
+                              ? new Date(order.date).toLocaleDateString()
+                              : "N/A"}
+                          </td>
+                        ),
+                        status: (
+                          <td className="px-4 py-3 text-sm whitespace-nowrap">
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+                                purchaseOrderStatusColorMap[
+                                  getPurchaseOrderStatus(order)
+                                ]
+                              }`}
+                            >
+                              {getPurchaseOrderStatus(order)}
+                            </span>
+                          </td>
+                        ),
+                        supplierName: (
+                          <td
+                            className="px-4 py-3 text-sm font-medium whitespace-nowrap truncate max-w-xs"
+                            style={{ color: colors.text.primary }}
+                            title={order.supplierName || "N/A"}
+                          >
+                            {order.supplierName || "N/A"}
+                          </td>
+                        ),
+                        supplierEmail: (
+                          <td
+                            className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
+                            style={{ color: colors.text.secondary }}
+                            title={order.supplierEmail || "N/A"}
+                          >
+                            {order.supplierEmail || "N/A"}
+                          </td>
+                        ),
+                        supplierShippedGSTIN: (
+                          <td
+                            className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
+                            style={{ color: colors.text.secondary }}
+                            title={order.supplierShippedGSTIN || "N/A"}
+                          >
+                            {order.supplierShippedGSTIN || "N/A"}
+                          </td>
+                        ),
+                        supplierBillGSTIN: (
+                          <td
+                            className="px-4 py-3 text-sm whitespace-nowrap truncate max-w-xs"
+                            style={{ color: colors.text.secondary }}
+                            title={order.supplierBillGSTIN || "N/A"}
+                          >
+                            {order.supplierBillGSTIN || "N/A"}
+                          </td>
+                        ),
+                        supplierShippedTo: (
+                          <td
+                            className="px-4 py-3 text-sm max-w-xs truncate whitespace-nowrap"
+                            style={{ color: colors.text.secondary }}
+                            title={order.supplierShippedTo || "N/A"}
+                          >
+                            {order.supplierShippedTo || "N/A"}
+                          </td>
+                        ),
+                        supplierBillTo: (
+                          <td
+                            className="px-4 py-3 text-sm max-w-xs truncate whitespace-nowrap"
+                            style={{ color: colors.text.secondary }}
+                            title={order.supplierBillTo || "N/A"}
+                          >
+                            {order.supplierBillTo || "N/A"}
+                          </td>
+                        ),
+                        modeOfPayment: (
+                          <td className="px-4 py-3 text-sm whitespace-nowrap">
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                              style={{
+                                backgroundColor: colors.primary[100],
+                                color: colors.primary[700],
+                              }}
+                            >
+                              {order.modeOfPayment || "N/A"}
+                            </span>
+                          </td>
+                        ),
+                        GSTApply: (
+                          <td className="px-4 py-3 text-sm whitespace-nowrap">
+                            <span
+                              className="px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap"
+                              style={{
+                                backgroundColor: colors.success[100],
+                                color: colors.success[700],
+                              }}
+                            >
+                              {order.GSTApply
+                                ? order.GSTApply.toUpperCase()
+                                : "N/A"}
+                            </span>
+                          </td>
+                        ),
+                      })}
                       <td className="px-4 py-3 whitespace-nowrap">
                         <div className="flex items-center justify-center gap-2">
                           <button
@@ -823,6 +907,26 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
                           >
                             <MdOutlineVisibility size={16} />
                           </button>
+                          <button
+                            onClick={() => setReceivingOrder(order)}
+                            className="p-2 rounded-lg transition-all duration-200 hover:shadow-md"
+                            style={{
+                              color: colors.success[600],
+                              backgroundColor: colors.success[50],
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                colors.success[100];
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                colors.success[50];
+                            }}
+                            title="Goods receipts"
+                            disabled={deletingId === order._id}
+                          >
+                            <MdMoveToInbox size={16} />
+                          </button>
                           <button
                             onClick={() => {
                               console.log("Edit order:", order._id);
@@ -914,6 +1018,14 @@ const PurchaseOrderTable: React.FC<PurchaseOrderTableProps> = ({
         </div>
       </div>
 
+      {receivingOrder && (
+        <GoodsReceipt
+          order={receivingOrder}
+          onClose={() => setReceivingOrder(null)}
+          onPosted={onRefresh}
+        />
+      )}
+
       {/* Single Delete Modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
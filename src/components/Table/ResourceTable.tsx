@@ -16,6 +16,32 @@ import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
 import { useCookies } from "react-cookie";
 import { SquarePen } from "lucide-react";
+import ExportMenu from "./ExportMenu";
+import {
+  ExportColumn,
+  formatExportDate,
+} from "../utils/tableExport";
+
+const resourceExportColumns: ExportColumn[] = [
+  { id: "customId", label: "ID", value: (resource) => resource.customId },
+  { id: "name", label: "Name", value: (resource) => resource.name },
+  { id: "type", label: "Type", value: (resource) => resource.type },
+  {
+    id: "specification",
+    label: "Specification",
+    value: (resource) => resource.specification,
+  },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (resource) => formatExportDate(resource.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Last Updated",
+    value: (resource) => formatExportDate(resource.updatedAt),
+  },
+];
 
 interface ResourceTableProps {
   resources: Array<{
@@ -78,6 +104,7 @@ const ResourceTable: React.FC<ResourceTableProps> = ({
     getTableBodyProps,
     headerGroups,
     prepareRow,
+    rows,
     page,
     nextPage,
     previousPage,
@@ -216,7 +243,7 @@ const ResourceTable: React.FC<ResourceTableProps> = ({
               {/* Bulk Actions */}
               {selectedResources.length > 0 && (
                 <div className="flex flex-wrap items-center gap-2 sm:gap-3">
-                  {deleteResourceHandler && (
+                  {bulkDeleteResourcesHandler && (
                     <button
                       onClick={() => setShowBulkDeleteModal(true)}
                       className="flex items-center gap-2 px-3 sm:px-4 py-2 bg-red-500 hover:bg-red-600 text-white text-xs sm:text-sm font-medium rounded-lg transition-colors whitespace-nowrap"
@@ -264,6 +291,12 @@ const ResourceTable: React.FC<ResourceTableProps> = ({
             </div>
 
             <div className="flex items-center gap-3 lg:flex-shrink-0">
+              <ExportMenu
+                module="resources"
+                fileName="Resources"
+                columns={resourceExportColumns}
+                rows={rows.map((row) => row.original)}
+              />
               <span
                 className="text-sm font-medium whitespace-nowrap"
                 style={{ color: colors.text.secondary }}
@@ -505,28 +538,30 @@ const ResourceTable: React.FC<ResourceTableProps> = ({
                                   <MdOutlineVisibility size={16} />
                                 </button>
                               )}
-                              <button
-                                onClick={() => {
-                                  setEditResource(row.original);
-                                  setAddResourceDrawerOpened(true);
-                                }}
-                                className="p-2 rounded-lg transition-all duration-200 hover:shadow-md"
-                                style={{
-                                  color: colors.primary[600],
-                                  backgroundColor: colors.primary[50],
-                                }}
-                                onMouseEnter={(e) => {
-                                  e.currentTarget.style.backgroundColor =
-                                    colors.primary[100];
-                                }}
-                                onMouseLeave={(e) => {
-                                  e.currentTarget.style.backgroundColor =
-                                    colors.primary[50];
-                                }}
-                                title="Edit resource"
-                              >
-                                <MdEdit size={16} />
-                              </button>
+                              {openUpdateResourceDrawerHandler && (
+                                <button
+                                  onClick={() => {
+                                    setEditResource(row.original);
+                                    setAddResourceDrawerOpened(true);
+                                  }}
+                                  className="p-2 rounded-lg transition-all duration-200 hover:shadow-md"
+                                  style={{
+                                    color: colors.primary[600],
+                                    backgroundColor: colors.primary[50],
+                                  }}
+                                  onMouseEnter={(e) => {
+                                    e.currentTarget.style.backgroundColor =
+                                      colors.primary[100];
+                                  }}
+                                  onMouseLeave={(e) => {
+                                    e.currentTarget.style.backgroundColor =
+                                      colors.primary[50];
+                                  }}
+                                  title="Edit resource"
+                                >
+                                  <MdEdit size={16} />
+                                </button>
+                              )}
                               {deleteResourceHandler && (
                                 <button
                                   onClick={() => {
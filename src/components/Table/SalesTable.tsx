@@ -6,6 +6,14 @@ import UploadInvoice from "../Drawers/Sales/UploadInvoice";
 import ViewPayment from "../Drawers/Sales/ViewPayment";
 import ViewDesign from "../Drawers/Sales/ViewDesign";
 import ApproveSample from "../Drawers/Sales/ApproveSample";
+import { useNotificationLink } from "../utils/notifications";
+import { useCan } from "../utils/permissions";
+import {
+  formatDeliveryDate,
+  getLineTotal,
+  getSaleItems,
+  getSaleTotals,
+} from "../utils/salesOrders";
 import Loading from "../../ui/Loading";
 import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
@@ -22,8 +30,17 @@ import SalesOrderPDF from "../PDF/SalesOrderPDF";
 import { PDFDownloadLink } from "@react-pdf/renderer";
 import { Textarea } from "@chakra-ui/react";
 import { toast } from "react-toastify";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useAddBomMutation,
+  useApproveInventoryRawMaterialMutation,
+  useEmployeeDetailsQuery,
+  useLazySalesOrderStatusQuery,
+  useMarkInventoryInTransitMutation,
+  useRequestInventoryAllocationMutation,
+  useStartProductionMutation,
+  useUpdateProcessStatusMutation,
+} from "../../redux/api/api";
+import { runOrQueue } from "../utils/offlineQueue";
 
 const statusColorMap = {
   "production started": "bg-green-100 text-green-800",
@@ -46,28 +63,28 @@ const SalesTable = ({
   const [loadingStatuses, setLoadingStatuses] = useState({});
   const [showInventoryDetails, setShowInventoryDetails] = useState({});
   const [showProductionDetails, setShowProductionDetails] = useState({});
-  const [cookies] = useCookies();
+  const can = useCan();
+  const [updateProcessStatusMutation] = useUpdateProcessStatusMutation();
+  const [markInventoryInTransit] = useMarkInventoryInTransitMutation();
+  const [requestInventoryAllocation] = useRequestInventoryAllocationMutation();
+  const [startProduction] = useStartProductionMutation();
+  const [fetchSalesOrderStatusQuery] = useLazySalesOrderStatusQuery();
+  const [approveInventoryRawMaterial] =
+    useApproveInventoryRawMaterialMutation();
+  const [addBom] = useAddBomMutation();
+  // Signed in user, printed on the sales order PDF
+  const { data: userDetails } = useEmployeeDetailsQuery();
+  const userData = userDetails?.user || null;
   const [isApproved, setIsApproved] = useState(false);
 
   // Function to update process status (same as BOMRawMaterialTable)
   const updateProcessStatus = async (id, status) => {
     try {
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/update-status`,
-        {
-          method: "PUT",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: JSON.stringify({ _id: id, status }),
-        }
+      const data = await runOrQueue(
+        { kind: "status", process_id: id, payload: { _id: id, status } },
+        () => updateProcessStatusMutation({ _id: id, status }).unwrap()
       );
-
-      const data = await res.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      if (!data) return;
 
       toast.success(data.message || "Status updated");
       // Refresh the specific sales order status instead of full page reload
@@ -84,20 +101,7 @@ const SalesTable = ({
     console.log("process_id", process_id);
 
     try {
-      const res = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/inventory-in-transit`,
-        { _id: process_id },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+      await markInventoryInTransit(process_id).unwrap();
 
       toast.success("Status updated to Inventory in Transit");
       // Refresh the specific sales order status instead of full page reload
@@ -109,42 +113,19 @@ const SalesTable = ({
     }
   };
   
-  const calculateTotalPrice = (price: number, qty: number, gst: number) => {
-    const basePrice = price * qty;
-    const gstVal = (basePrice * gst) / 100;
-    const totalPrice = basePrice + gstVal;
-    return totalPrice;
-  };
   const [selectedSale, setSelectedSale] = useState([]);
   const [paymentshow, setPaymentshow] = useState(false);
   const [isOpen, setViewDesign] = useState(false);
   const [isChecked, setIsChecked] = useState(false);
-  const [userData, setUserData] = useState<PurchaseOrder | null>(null);
-      
-         // NEW: Function to fetch purchase order data from API
-        const fetchUserData = async () => {
-          try {
-            const response = await axios.get(`${process.env.REACT_APP_BACKEND_URL}auth/user`, {
-              headers: { Authorization: `Bearer ${cookies?.access_token}` },
-            });
-      
-            if (response.data.success) {
-              setUserData(response.data.user); // Assuming API returns data in `data` field
-            } else {
-              console.error("Failed to fetch user data:", response.data.message);
-              toast.error("Failed to fetch user data");
-            }
-          } catch (error: any) {
-            console.error("Error fetching user data:", error);
-            toast.error(error.message || "Failed to fetch user data");
-          }
-        };
-      
-        // NEW: useEffect to fetch user data on component mount
-        useEffect(() => {
-          fetchUserData();
-        }, []); // Empty dependency array ensures it runs only on mount
 
+  useNotificationLink(
+    "sample",
+    (id) => {
+      if (!filteredPurchases?.some((p) => p._id === id)) return false;
+      if (can("sales", "approve")) setIsChecked(true);
+    },
+    filteredPurchases
+  );
   // Function to fetch comprehensive sales order status
   const fetchSalesOrderStatus = async (salesOrderId) => {
     if (!salesOrderId) return;
@@ -155,37 +136,11 @@ const SalesTable = ({
     setLoadingStatuses(prev => ({ ...prev, [salesOrderId]: true }));
     
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}bom/sales-order-status/${salesOrderId}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-      
-      console.log("Individual status response:", response.status);
-      
-      if (response.ok) {
-        const data = await response.json();
-        setSalesOrderStatuses(prev => ({
-          ...prev,
-          [salesOrderId]: data
-        }));
-      } else {
-        console.error('Failed to fetch sales order status for:', salesOrderId);
-        setSalesOrderStatuses(prev => ({
-          ...prev,
-          [salesOrderId]: {
-            overallStatus: "Error",
-            inventoryDetails: [],
-            productionDetails: null,
-            bomDetails: null
-          }
-        }));
-      }
+      const data = await fetchSalesOrderStatusQuery(salesOrderId).unwrap();
+      setSalesOrderStatuses(prev => ({
+        ...prev,
+        [salesOrderId]: data
+      }));
     } catch (error) {
       console.error('Error fetching sales order status for:', salesOrderId, error);
       setSalesOrderStatuses(prev => ({
@@ -226,19 +181,7 @@ const SalesTable = ({
         throw new Error("BOM not found");
       }
 
-      const res = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/allocation?_id=${statusData.bomId}`,
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+      await requestInventoryAllocation(statusData.bomId).unwrap();
 
       toast.success("Inventory allocation requested successfully");
       // Refresh status
@@ -256,20 +199,7 @@ const SalesTable = ({
         throw new Error("Production process not found");
       }
 
-      const res = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/start-production`,
-        { _id: statusData.productionProcessId },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+      await startProduction(statusData.productionProcessId).unwrap();
 
       toast.success("Production started successfully");
       // Refresh status
@@ -282,20 +212,7 @@ const SalesTable = ({
   // Function to approve inventory
   const handleApproveInventory = async (materialId) => {
     try {
-      const res = await axios.post(
-        `${process.env.REACT_APP_BACKEND_URL}bom/approve/inventory/raw-materials`,
-        { _id: materialId },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+      await approveInventoryRawMaterial(materialId).unwrap();
 
       toast.success("Raw material approved successfully");
       // Refresh all sales order statuses
@@ -311,57 +228,43 @@ const SalesTable = ({
     }
   };
 
-  // Function to create BOM
-  const handleCreateBOM = async (salesOrderId) => {
+  // Function to create BOM, one per line item of the sales order
+  const handleCreateBOM = async (salesOrderId, lineIndex = 0) => {
     try {
       // Get sales order details first
       const salesOrder = filteredPurchases.find(p => p._id === salesOrderId);
+      const lines = getSaleItems(salesOrder);
+      const line = lines[lineIndex];
+      const bomName = `BOM-${salesOrder?.order_id || salesOrderId.slice(-6)}`;
       
-      const res = await axios.post(
-        `${process.env.REACT_APP_BACKEND_URL}bom/`,
-        {
-          sale_id: salesOrderId,
-          bom_name: `BOM-${salesOrder?.order_id || salesOrderId.slice(-6)}`,
-          finished_good: {
-            item: salesOrder?.items?.[0]?.product_id || "PRODUCT_ID",
-            quantity: salesOrder?.items?.[0]?.quantity || 10
-          },
-          raw_materials: salesOrder?.items?.map(item => ({
-            item: item.product_id,
-            quantity: item.quantity,
-            description: item.description || "",
-            comments: item.comments || ""
-          })) || [
-            {
-              item: "RAW_MATERIAL_ID",
-              quantity: 5
-            }
-          ],
-          processes: ["Production"],
-          manpower: [
-            {
-              number: "1"
-            }
-          ],
-          resources: [
-            {
-              resource_id: "RESOURCE_ID",
-              type: "Assembly line",
-              specification: "Production line"
-            }
-          ]
+      await addBom({
+        sale_id: salesOrderId,
+        bom_name:
+          lines.length > 1 ? `${bomName}-${lineIndex + 1}` : bomName,
+        finished_good: {
+          item: line?.product_id || "PRODUCT_ID",
+          quantity: line?.quantity || 10
         },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!res.data.success) {
-        throw new Error(res.data.message);
-      }
+        raw_materials: [
+          {
+            item: "RAW_MATERIAL_ID",
+            quantity: 5
+          }
+        ],
+        processes: ["Production"],
+        manpower: [
+          {
+            number: "1"
+          }
+        ],
+        resources: [
+          {
+            resource_id: "RESOURCE_ID",
+            type: "Assembly line",
+            specification: "Production line"
+          }
+        ]
+      }).unwrap();
 
       toast.success("BOM created successfully");
       // Refresh status for this sales order
@@ -618,50 +521,54 @@ const SalesTable = ({
                 </div>
                 {/* Edit and Assign buttons moved to top right */}
                 <div className="flex gap-2">
-                  <button
-                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                    style={{
-                      borderColor: colors.border.medium,
-                      color: colors.text.primary,
-                      backgroundColor: colors.background.card,
-                    }}
-                    onClick={() => {
-                      setShow(true);
-                      setEditTable(purchase);
-                    }}
-                    onMouseEnter={(e) => {
-                      e.currentTarget.style.backgroundColor = colors.gray[50];
-                    }}
-                    onMouseLeave={(e) => {
-                      e.currentTarget.style.backgroundColor =
-                        colors.background.card;
-                    }}
-                  >
-                    <FaEdit size="16px" />
-                    Edit
-                  </button>
+                  {can("sales", "update") && (
+                    <button
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
+                      style={{
+                        borderColor: colors.border.medium,
+                        color: colors.text.primary,
+                        backgroundColor: colors.background.card,
+                      }}
+                      onClick={() => {
+                        setShow(true);
+                        setEditTable(purchase);
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor = colors.gray[50];
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor =
+                          colors.background.card;
+                      }}
+                    >
+                      <FaEdit size="16px" />
+                      Edit
+                    </button>
+                  )}
 
-                  <button
-                    className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                    onClick={() => {
-                      setShowAssign(!showassign);
-                      setSelectedSale(purchase);
-                    }}
-                    onMouseEnter={(e) => {
-                      e.currentTarget.style.backgroundColor =
-                        colors.button.primaryHover;
-                    }}
-                    onMouseLeave={(e) => {
-                      e.currentTarget.style.backgroundColor = colors.button.primary;
-                    }}
-                  >
-                    <FaUserPlus size="16px" />
-                    Assign
-                  </button>
+                  {can("sales", "update") && (
+                    <button
+                      className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                      style={{
+                        backgroundColor: colors.button.primary,
+                        color: colors.text.inverse,
+                      }}
+                      onClick={() => {
+                        setShowAssign(!showassign);
+                        setSelectedSale(purchase);
+                      }}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.backgroundColor =
+                          colors.button.primaryHover;
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.backgroundColor = colors.button.primary;
+                      }}
+                    >
+                      <FaUserPlus size="16px" />
+                      Assign
+                    </button>
+                  )}
 
                   <PDFDownloadLink
                     document={<SalesOrderPDF sale={purchase} userData={userData} />}
@@ -713,80 +620,9 @@ const SalesTable = ({
                       {purchase?.party?.bill_to || "N/A"}
                     </span>
                   </div>
-                  <div>
-                    <span
-                      className="text-sm font-medium"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      Product:
-                    </span>
-                    <span
-                      className="ml-2 text-sm"
-                      style={{ color: colors.text.primary }}
-                    >
-                      {purchase?.product_id[0]?.name || "N/A"}
-                    </span>
-                  </div>
-                  <div>
-                    <span
-                      className="text-sm font-medium"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      Quantity:
-                    </span>
-                    <span
-                      className="ml-2 text-sm"
-                      style={{ color: colors.text.primary }}
-                    >
-                      {purchase?.product_qty}
-                    </span>
-                  </div>
                 </div>
 
                 <div className="space-y-3">
-                  <div>
-                    <span
-                      className="text-sm font-medium"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      Unit Price:
-                    </span>
-                    <span
-                      className="ml-2 text-sm"
-                      style={{ color: colors.text.primary }}
-                    >
-                      ₹{purchase?.price || "N/A"}
-                    </span>
-                  </div>
-                  {/* <div>
-                    <span
-                      className="text-sm font-medium"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      Subtotal:
-                    </span>
-                    <span
-                      className="ml-2 text-sm"
-                      style={{ color: colors.text.primary }}
-                    >
-                      ₹{purchase?.price * purchase?.product_qty}
-                    </span>
-                    
-                  </div> */}
-                  <div>
-                    <span
-                      className="text-sm font-medium"
-                      style={{ color: colors.text.secondary }}
-                    >
-                      GST:
-                    </span>
-                    <span
-                      className="ml-2 text-sm"
-                      style={{ color: colors.text.primary }}
-                    >
-                      {purchase?.GST}%
-                    </span>
-                  </div>
                   <div>
                     <span
                       className="text-sm font-medium"
@@ -799,11 +635,7 @@ const SalesTable = ({
                       style={{ color: colors.success[600] }}
                     >
                       ₹
-                      {calculateTotalPrice(
-                        purchase?.price,
-                        purchase?.product_qty,
-                        purchase?.GST
-                      ).toFixed(2)}
+                      {getSaleTotals(getSaleItems(purchase)).total.toFixed(2)}
                     </span>
                   </div>
                   <div>
@@ -823,6 +655,59 @@ const SalesTable = ({
                 </div>
               </div>
 
+              {/* Line Items */}
+              <div
+                className="overflow-x-auto border rounded-lg mb-6"
+                style={{ borderColor: colors.border.light }}
+              >
+                <table className="w-full text-sm">
+                  <thead style={{ backgroundColor: colors.table.header }}>
+                    <tr>
+                      {[
+                        "#",
+                        "Product",
+                        "Quantity",
+                        "Unit Price",
+                        "GST",
+                        "Delivery Date",
+                        "Total",
+                      ].map((heading) => (
+                        <th
+                          key={heading}
+                          className="px-3 py-2 text-left font-medium"
+                          style={{ color: colors.text.secondary }}
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody style={{ color: colors.text.primary }}>
+                    {getSaleItems(purchase).map((line, lineIndex) => (
+                      <tr
+                        key={`${line.product_id}-${lineIndex}`}
+                        className="border-t"
+                        style={{ borderColor: colors.border.light }}
+                      >
+                        <td className="px-3 py-2">{lineIndex + 1}</td>
+                        <td className="px-3 py-2">{line.name || "N/A"}</td>
+                        <td className="px-3 py-2">
+                          {line.quantity} {line.uom}
+                        </td>
+                        <td className="px-3 py-2">₹{line.price}</td>
+                        <td className="px-3 py-2">{line.GST}%</td>
+                        <td className="px-3 py-2">
+                          {formatDeliveryDate(line.delivery_date)}
+                        </td>
+                        <td className="px-3 py-2 font-medium">
+                          ₹{getLineTotal(line).toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
               {/* Terms of Delivery Section */}
               <div className="flex items-center gap-2 -mt-3">
                 <span
@@ -1,5 +1,5 @@
 // @ts-nocheck
-import React, { useMemo } from "react";
+import React, { useEffect, useMemo } from "react";
 import {
   Table,
   TableContainer,
@@ -24,6 +24,7 @@ import moment from "moment";
 import Loading from "../../ui/Loading";
 import EmptyData from "../../ui/emptyData";
 import { colors } from "../../theme/colors";
+import { SortingRule, serverTableOptions } from "../utils/tableQuery";
 
 interface ScrapTableProps {
   scraps: Array<{
@@ -37,13 +38,22 @@ interface ScrapTableProps {
   }>;
   isLoadingScraps: boolean;
   openScrapDetailsDrawerHandler?: (id: string) => void;
+  // Given when `scraps` is one page of a server-side list
+  totalScraps?: number;
+  sortBy?: SortingRule[];
+  onSortByChange?: (sortBy: SortingRule[]) => void;
 }
 
 const ScrapTable: React.FC<ScrapTableProps> = ({
   scraps,
   isLoadingScraps,
   openScrapDetailsDrawerHandler,
+  totalScraps,
+  sortBy,
+  onSortByChange,
 }) => {
+  const isServerSide = !!onSortByChange;
+
   const columns: Column<any>[] = useMemo(
     () => [
       { Header: "Item", accessor: "item" },
@@ -68,19 +78,26 @@ const ScrapTable: React.FC<ScrapTableProps> = ({
     previousPage,
     canNextPage,
     canPreviousPage,
-    state: { pageIndex },
+    state: { pageIndex, sortBy: tableSortBy },
     setPageSize,
     pageCount,
   }: TableInstance<any> = useTable(
     {
       columns,
       data: scraps,
-      initialState: { pageIndex: 0, pageSize: 10 },
+      initialState: { pageIndex: 0, pageSize: 10, sortBy: sortBy || [] },
+      ...(isServerSide ? serverTableOptions : {}),
     },
     useSortBy,
     usePagination
   );
 
+  useEffect(() => {
+    onSortByChange?.(tableSortBy);
+  }, [tableSortBy, onSortByChange]);
+
+  const scrapCount = totalScraps ?? scraps.length;
+
   const dynamicBg = (index: number) =>
     index % 2 !== 0 ? "#ffffff40" : "#ffffff1f";
 
@@ -134,34 +151,36 @@ const ScrapTable: React.FC<ScrapTableProps> = ({
               className="text-lg font-semibold"
               style={{ color: colors.gray[800] }}
             >
-              {scraps.length} Scrap Record{scraps.length !== 1 ? "s" : ""} Found
+              {scrapCount} Scrap Record{scrapCount !== 1 ? "s" : ""} Found
             </h3>
           </div>
         </div>
 
-        <div className="flex items-center gap-3">
-          <span
-            className="text-sm font-medium"
-            style={{ color: colors.gray[600] }}
-          >
-            Show:
-          </span>
-          <select
-            onChange={(e) => setPageSize(Number(e.target.value))}
-            className="px-3 py-2 text-sm rounded-lg border transition-colors"
-            style={{
-              backgroundColor: colors.gray[50],
-              borderColor: colors.gray[300],
-              color: colors.gray[800],
-            }}
-          >
-            {[10, 20, 50, 100, 100000].map((size) => (
-              <option key={size} value={size}>
-                {size === 100000 ? "All" : size}
-              </option>
-            ))}
-          </select>
-        </div>
+        {!isServerSide && (
+          <div className="flex items-center gap-3">
+            <span
+              className="text-sm font-medium"
+              style={{ color: colors.gray[600] }}
+            >
+              Show:
+            </span>
+            <select
+              onChange={(e) => setPageSize(Number(e.target.value))}
+              className="px-3 py-2 text-sm rounded-lg border transition-colors"
+              style={{
+                backgroundColor: colors.gray[50],
+                borderColor: colors.gray[300],
+                color: colors.gray[800],
+              }}
+            >
+              {[10, 20, 50, 100, 100000].map((size) => (
+                <option key={size} value={size}>
+                  {size === 100000 ? "All" : size}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
       </div>
 
       {/* Enhanced Table */}
@@ -289,35 +308,37 @@ const ScrapTable: React.FC<ScrapTableProps> = ({
       </div>
 
       {/* Enhanced Pagination */}
-      <div className="flex items-center justify-center gap-4 mt-4">
-        <button
-          onClick={previousPage}
-          disabled={!canPreviousPage}
-          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            canPreviousPage
-              ? "bg-blue-500 text-white hover:bg-blue-600"
-              : "bg-gray-300 text-gray-500 cursor-not-allowed"
-          }`}
-        >
-          Previous
-        </button>
+      {!isServerSide && (
+        <div className="flex items-center justify-center gap-4 mt-4">
+          <button
+            onClick={previousPage}
+            disabled={!canPreviousPage}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              canPreviousPage
+                ? "bg-blue-500 text-white hover:bg-blue-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            Previous
+          </button>
 
-        <span className="text-sm" style={{ color: colors.gray[600] }}>
-          Page {pageIndex + 1} of {pageCount}
-        </span>
+          <span className="text-sm" style={{ color: colors.gray[600] }}>
+            Page {pageIndex + 1} of {pageCount}
+          </span>
 
-        <button
-          onClick={nextPage}
-          disabled={!canNextPage}
-          className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
-            canNextPage
-              ? "bg-blue-500 text-white hover:bg-blue-600"
-              : "bg-gray-300 text-gray-500 cursor-not-allowed"
-          }`}
-        >
-          Next
-        </button>
-      </div>
+          <button
+            onClick={nextPage}
+            disabled={!canNextPage}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              canNextPage
+                ? "bg-blue-500 text-white hover:bg-blue-600"
+                : "bg-gray-300 text-gray-500 cursor-not-allowed"
+            }`}
+          >
+            Next
+          </button>
+        </div>
+      )}
     </div>
   );
 };
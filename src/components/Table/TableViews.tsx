@@ -0,0 +1,472 @@
+import {
+  cloneElement,
+  FormEvent,
+  Fragment,
+  MouseEvent as ReactMouseEvent,
+  ReactElement,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { useSelector } from "react-redux";
+import { useCookies } from "react-cookie";
+import { useSearchParams } from "react-router-dom";
+import { toast } from "react-toastify";
+import {
+  ArrowDown,
+  ArrowUp,
+  Bookmark,
+  Columns3,
+  Pin,
+  PinOff,
+  RotateCcw,
+  Trash2,
+} from "lucide-react";
+import ClickMenu from "../../ui/ClickMenu";
+import { colors } from "../../theme/colors";
+import {
+  useCreateTableViewMutation,
+  useDeleteTableViewMutation,
+  useLazyFetchTableViewsQuery,
+  useUpdateTableViewMutation,
+} from "../../redux/api/api";
+import { TableView } from "../../redux/api/types";
+import {
+  ColumnLayoutState,
+  getViewCreatorId,
+  normalizeLayout,
+} from "../utils/tableViews";
+
+type CellMap = { [id: string]: ReactElement };
+
+const ColumnResizer: React.FC<{
+  id: string;
+  columnLayout: ColumnLayoutState;
+}> = ({ id, columnLayout }) => {
+  const startResizeHandler = (e: ReactMouseEvent<HTMLSpanElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const cell = e.currentTarget.parentElement;
+    if (!cell) return;
+
+    const startX = e.clientX;
+    const startWidth = cell.getBoundingClientRect().width;
+    let width = startWidth;
+
+    // Only the header follows the pointer; the body catches up on release
+    const moveHandler = (event: MouseEvent) => {
+      width = startWidth + event.clientX - startX;
+      cell.style.width = `${width}px`;
+      cell.style.minWidth = `${width}px`;
+      cell.style.maxWidth = `${width}px`;
+    };
+    const upHandler = () => {
+      document.removeEventListener("mousemove", moveHandler);
+      document.removeEventListener("mouseup", upHandler);
+      columnLayout.resizeColumn(id, width);
+    };
+    document.addEventListener("mousemove", moveHandler);
+    document.addEventListener("mouseup", upHandler);
+  };
+
+  return (
+    <span
+      role="separator"
+      aria-orientation="vertical"
+      aria-label="Resize column"
+      className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300"
+      onMouseDown={startResizeHandler}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+};
+
+// Renders the header cells of the visible columns in layout order, with a
+// resize handle on each
+export const renderHeaderCells = (
+  columnLayout: ColumnLayoutState,
+  headers: CellMap
+) =>
+  columnLayout.visibleIds.map((id) => {
+    const header = headers[id];
+    const style = columnLayout.getColumnStyle(id, colors.table.header);
+    return cloneElement(
+      header,
+      {
+        key: id,
+        style: {
+          ...header.props.style,
+          position: "relative",
+          ...style,
+          ...(style.position && { zIndex: 3 }),
+        },
+      },
+      <Fragment key="content">{header.props.children}</Fragment>,
+      <ColumnResizer key="resizer" id={id} columnLayout={columnLayout} />
+    );
+  });
+
+// `background` fills pinned cells so scrolled content does not show through
+export const renderBodyCells = (
+  columnLayout: ColumnLayoutState,
+  background: string,
+  cells: CellMap
+) =>
+  columnLayout.visibleIds.map((id) =>
+    cloneElement(cells[id], {
+      key: id,
+      style: {
+        ...cells[id].props.style,
+        ...columnLayout.getColumnStyle(id, background),
+      },
+    })
+  );
+
+interface TableViewsProps {
+  // Key the views are saved under, e.g. "products"
+  table: string;
+  // Lists without columns, such as card lists, only save their filters
+  columnLayout?: ColumnLayoutState;
+}
+
+// Saved views and column settings for a list page. A view is the column
+// layout together with the filters, search and sort in the URL.
+const TableViews: React.FC<TableViewsProps> = ({ table, columnLayout }) => {
+  const [cookies] = useCookies();
+  const { id: userId, isSuper } = useSelector((state: any) => state.auth);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [openMenu, setOpenMenu] = useState<"columns" | "save">();
+  const [activeViewId, setActiveViewId] = useState<string>("");
+  const [viewName, setViewName] = useState<string>("");
+  const [isShared, setIsShared] = useState<boolean>(false);
+
+  const [fetchViews, { data }] = useLazyFetchTableViewsQuery();
+  const [createView, { isLoading: isCreating }] = useCreateTableViewMutation();
+  const [updateView, { isLoading: isUpdating }] = useUpdateTableViewMutation();
+  const [deleteView] = useDeleteTableViewMutation();
+
+  useEffect(() => {
+    if (!cookies.access_token) return;
+    fetchViews(table);
+  }, [cookies.access_token, table, fetchViews]);
+
+  const views: TableView[] = useMemo(() => data?.views || [], [data]);
+  const myViews = views.filter((view) => getViewCreatorId(view) === userId);
+  const sharedViews = views.filter(
+    (view) => view.shared && getViewCreatorId(view) !== userId
+  );
+  const activeView = views.find((view) => view._id === activeViewId);
+  const canEditActiveView =
+    !!activeView && (isSuper || getViewCreatorId(activeView) === userId);
+
+  // Views always open on the first page
+  const getCurrentQuery = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("page");
+    return params.toString();
+  };
+
+  const applyViewHandler = (id: string) => {
+    setActiveViewId(id);
+    const view = views.find((v) => v._id === id);
+    if (!view) return;
+    if (columnLayout) {
+      columnLayout.setLayout(
+        normalizeLayout(view.layout, columnLayout.columns)
+      );
+    }
+    setSearchParams(new URLSearchParams(view.query), { replace: true });
+  };
+
+  const saveViewHandler = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!viewName.trim()) {
+      toast.error("Please enter a name for the view");
+      return;
+    }
+    try {
+      const response = await createView({
+        table,
+        name: viewName.trim(),
+        shared: isShared,
+        layout: columnLayout?.layout,
+        query: getCurrentQuery(),
+      }).unwrap();
+      toast.success(response.message || "View saved");
+      setActiveViewId(response.view?._id || "");
+      setViewName("");
+      setIsShared(false);
+      setOpenMenu(undefined);
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  const updateViewHandler = async () => {
+    if (!activeView) return;
+    try {
+      const response = await updateView({
+        _id: activeView._id,
+        layout: columnLayout?.layout,
+        query: getCurrentQuery(),
+      }).unwrap();
+      toast.success(response.message || "View updated");
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  const deleteViewHandler = async () => {
+    if (!activeView) return;
+    if (!window.confirm(`Delete the view "${activeView.name}"?`)) return;
+    try {
+      const response = await deleteView(activeView._id).unwrap();
+      toast.success(response.message || "View deleted");
+      setActiveViewId("");
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  const toggleColumn = (
+    key: "hidden" | "pinned",
+    id: string,
+    enabled: boolean
+  ) => {
+    if (!columnLayout) return;
+    const { layout, setLayout } = columnLayout;
+    setLayout({
+      ...layout,
+      [key]: enabled
+        ? [...layout[key], id]
+        : layout[key].filter((item) => item !== id),
+    });
+  };
+
+  const moveColumn = (index: number, direction: -1 | 1) => {
+    if (!columnLayout) return;
+    const { layout, setLayout } = columnLayout;
+    const order = [...layout.order];
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setLayout({ ...layout, order });
+  };
+
+  const buttonStyle = {
+    borderColor: colors.border.medium,
+    color: colors.text.primary,
+    backgroundColor: colors.background.card,
+  };
+
+  return (
+    <div className="relative flex flex-wrap items-center gap-2">
+      <Bookmark size={16} style={{ color: colors.text.secondary }} />
+      <select
+        aria-label="Saved views"
+        className="px-3 py-2 border rounded-lg text-sm min-w-[180px]"
+        style={buttonStyle}
+        value={activeViewId}
+        onChange={(e) => applyViewHandler(e.target.value)}
+      >
+        <option value="">Current view</option>
+        {myViews.length > 0 && (
+          <optgroup label="My views">
+            {myViews.map((view) => (
+              <option key={view._id} value={view._id}>
+                {view.name}
+                {view.shared ? " (shared)" : ""}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedViews.length > 0 && (
+          <optgroup label="Shared views">
+            {sharedViews.map((view) => (
+              <option key={view._id} value={view._id}>
+                {view.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {canEditActiveView && (
+        <>
+          <button
+            className="px-3 py-2 border rounded-lg text-sm"
+            style={buttonStyle}
+            onClick={updateViewHandler}
+            disabled={isUpdating}
+          >
+            Update view
+          </button>
+          <button
+            aria-label="Delete view"
+            className="p-2 border rounded-lg"
+            style={{ ...buttonStyle, color: colors.error[600] }}
+            onClick={deleteViewHandler}
+          >
+            <Trash2 size={16} />
+          </button>
+        </>
+      )}
+
+      <button
+        className="px-3 py-2 border rounded-lg text-sm"
+        style={buttonStyle}
+        onClick={() => setOpenMenu(openMenu === "save" ? undefined : "save")}
+      >
+        Save as view
+      </button>
+
+      {columnLayout && (
+        <button
+          className="inline-flex items-center gap-2 px-3 py-2 border rounded-lg text-sm"
+          style={buttonStyle}
+          onClick={() =>
+            setOpenMenu(openMenu === "columns" ? undefined : "columns")
+          }
+        >
+          <Columns3 size={16} />
+          Columns
+        </button>
+      )}
+
+      {openMenu === "save" && (
+        <ClickMenu
+          top={44}
+          left={0}
+          closeContextMenuHandler={() => setOpenMenu(undefined)}
+        >
+          <form
+            className="bg-white rounded-xl shadow-xl border border-gray-200 w-[280px] p-4 space-y-3"
+            onSubmit={saveViewHandler}
+          >
+            <input
+              autoFocus
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+              style={{
+                backgroundColor: colors.input.background,
+                borderColor: colors.input.border,
+              }}
+              placeholder="e.g. Pending dispatch this week"
+              value={viewName}
+              onChange={(e) => setViewName(e.target.value)}
+            />
+            <label
+              className="flex items-center gap-2 text-sm"
+              style={{ color: colors.text.primary }}
+            >
+              <input
+                type="checkbox"
+                checked={isShared}
+                onChange={(e) => setIsShared(e.target.checked)}
+              />
+              Share with the team
+            </label>
+            <button
+              type="submit"
+              className="w-full px-3 py-2 rounded-lg text-sm font-medium"
+              style={{
+                backgroundColor: colors.button.primary,
+                color: colors.text.inverse,
+              }}
+              disabled={isCreating}
+            >
+              Save view
+            </button>
+          </form>
+        </ClickMenu>
+      )}
+
+      {openMenu === "columns" && columnLayout && (
+        <ClickMenu
+          top={44}
+          right={0}
+          closeContextMenuHandler={() => setOpenMenu(undefined)}
+        >
+          <div className="bg-white rounded-xl shadow-xl border border-gray-200 w-[300px] overflow-hidden">
+            <div
+              className="flex items-center justify-between px-4 py-3 border-b"
+              style={{ borderColor: colors.border.light }}
+            >
+              <h2
+                className="text-sm font-semibold"
+                style={{ color: colors.text.primary }}
+              >
+                Columns
+              </h2>
+              <button
+                className="inline-flex items-center gap-1 text-xs"
+                style={{ color: colors.primary[600] }}
+                onClick={columnLayout.resetLayout}
+              >
+                <RotateCcw size={12} />
+                Reset
+              </button>
+            </div>
+            <ul className="max-h-[360px] overflow-y-auto py-1">
+              {columnLayout.layout.order.map((id, index) => {
+                const column = columnLayout.columns.find((c) => c.id === id);
+                const isHidden = columnLayout.layout.hidden.includes(id);
+                const isPinned = columnLayout.layout.pinned.includes(id);
+                return (
+                  <li
+                    key={id}
+                    className="flex items-center gap-2 px-4 py-1.5 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      aria-label={`Show ${column?.label}`}
+                      checked={!isHidden}
+                      onChange={(e) =>
+                        toggleColumn("hidden", id, !e.target.checked)
+                      }
+                    />
+                    <span
+                      className="flex-1 truncate"
+                      style={{ color: colors.text.primary }}
+                    >
+                      {column?.label}
+                    </span>
+                    <button
+                      aria-label={isPinned ? "Unpin column" : "Pin column"}
+                      title={isPinned ? "Unpin" : "Pin to the left"}
+                      style={{
+                        color: isPinned
+                          ? colors.primary[600]
+                          : colors.text.secondary,
+                      }}
+                      onClick={() => toggleColumn("pinned", id, !isPinned)}
+                    >
+                      {isPinned ? <PinOff size={14} /> : <Pin size={14} />}
+                    </button>
+                    <button
+                      aria-label="Move up"
+                      className="disabled:opacity-30"
+                      disabled={index === 0}
+                      onClick={() => moveColumn(index, -1)}
+                    >
+                      <ArrowUp size={14} />
+                    </button>
+                    <button
+                      aria-label="Move down"
+                      className="disabled:opacity-30"
+                      disabled={index === columnLayout.layout.order.length - 1}
+                      onClick={() => moveColumn(index, 1)}
+                    >
+                      <ArrowDown size={14} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </ClickMenu>
+      )}
+    </div>
+  );
+};
+
+export default TableViews;
@@ -0,0 +1,74 @@
+import { AuditAction, AuditEvent } from "../../redux/api/types";
+
+export const auditActions: {
+  value: AuditAction;
+  label: string;
+  className: string;
+}[] = [
+  {
+    value: "create",
+    label: "Created",
+    className: "bg-green-100 text-green-800",
+  },
+  {
+    value: "update",
+    label: "Updated",
+    className: "bg-blue-100 text-blue-800",
+  },
+  {
+    value: "approve",
+    label: "Approved",
+    className: "bg-violet-100 text-violet-800",
+  },
+  {
+    value: "delete",
+    label: "Deleted",
+    className: "bg-red-100 text-red-800",
+  },
+];
+
+// Keys are the module names the backend records audit entries under
+export const auditModules = [
+  { value: "product", label: "Inventory" },
+  { value: "store", label: "Store" },
+  { value: "agent", label: "Buyers, Sellers & Suppliers" },
+  { value: "bom", label: "BOM" },
+  { value: "production-process", label: "Production" },
+  { value: "sale", label: "Sales" },
+  { value: "dispatch", label: "Dispatch" },
+  { value: "purchase-order", label: "Purchase Order" },
+  { value: "proforma-invoice", label: "Proforma Invoice" },
+  { value: "invoice", label: "Tax Invoice" },
+  { value: "payment", label: "Payment" },
+  { value: "employee", label: "Employees" },
+  { value: "role", label: "User Roles" },
+];
+
+export const getAuditAction = (action: string) =>
+  auditActions.find((a) => a.value === action);
+
+export const getAuditModuleLabel = (module: string) =>
+  auditModules.find((m) => m.value === module)?.label || module;
+
+export const getAuditUserName = (user?: AuditEvent["user"]) => {
+  if (!user) return "System";
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  return name || user.email || "Unknown user";
+};
+
+export const formatAuditField = (field: string) =>
+  field
+    .split(".")
+    .filter((part) => isNaN(Number(part)))
+    .join(" ")
+    .replace(/_/g, " ")
+    .replace(/\b\w/g, (char) => char.toUpperCase());
+
+export const formatAuditValue = (value: any): string => {
+  if (value === undefined || value === null || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") {
+    return value.name || value.product_id || JSON.stringify(value);
+  }
+  return String(value);
+};
@@ -0,0 +1,264 @@
+export type BomRevisionStatus = "Draft" | "Approved" | "Obsolete";
+
+export const bomRevisionStatusColorMap: { [status: string]: string } = {
+  Draft: "bg-gray-100 text-gray-800",
+  Approved: "bg-green-100 text-green-800",
+  Obsolete: "bg-red-100 text-red-800",
+};
+
+export interface RevisionDiffRow {
+  key: string;
+  section: string;
+  label: string;
+  before?: string;
+  after?: string;
+  change: "added" | "removed" | "changed" | "unchanged";
+}
+
+const getId = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "string") return value;
+  return value?._id;
+};
+
+// BOMs saved before revisions existed count as approved revision 1
+export const getRevisionStatus = (bom: any): BomRevisionStatus =>
+  bom?.revision_status || "Approved";
+
+export const getRevisionNumber = (bom: any): number => +bom?.revision || 1;
+
+export const getRevisionLabel = (bom: any) => `Rev ${getRevisionNumber(bom)}`;
+
+// Every revision points at the first revision of its BOM
+export const getRevisionFamily = (bom: any): string | undefined =>
+  getId(bom?.revision_of) || bom?._id;
+
+// Approved revisions are kept as they were approved so that production
+// processes started on them keep their materials; changes go into a clone.
+// BOMs saved before revisions existed have no status and stay editable.
+export const isEditableRevision = (bom: any) =>
+  !bom?.revision_status || bom.revision_status === "Draft";
+
+// Newest revision first
+export const getBomRevisions = (bom: any, boms: any[]): any[] => {
+  const family = getRevisionFamily(bom);
+  if (!family) return [];
+  return boms
+    .filter((b: any) => getRevisionFamily(b) === family)
+    .sort((a: any, b: any) => getRevisionNumber(b) - getRevisionNumber(a));
+};
+
+const getEffectiveTime = (bom: any) =>
+  bom?.effective_from ? new Date(bom.effective_from).getTime() : 0;
+
+// The approved revision that took effect last on or before `date`
+export const getEffectiveRevision = (
+  revisions: any[],
+  date: Date = new Date()
+): any | undefined =>
+  revisions
+    .filter(
+      (bom: any) =>
+        getRevisionStatus(bom) === "Approved" &&
+        getEffectiveTime(bom) <= date.getTime()
+    )
+    .sort(
+      (a: any, b: any) =>
+        getEffectiveTime(b) - getEffectiveTime(a) ||
+        getRevisionNumber(b) - getRevisionNumber(a)
+    )[0];
+
+export const formatEffectiveDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString() : "Immediately";
+
+// Payload for addBom with the BOM's lines scaled by `multiplier` and
+// populated references reduced to ids
+export const copyBom = (bom: any, multiplier = 1) => {
+  const scale = (value: any) => +((+value || 0) * multiplier).toFixed(2);
+
+  return {
+    bom_name: bom?.bom_name,
+    finished_good: {
+      ...bom?.finished_good,
+      item: getId(bom?.finished_good?.item),
+      quantity: scale(bom?.finished_good?.quantity),
+    },
+    raw_materials: (bom?.raw_materials || []).map((material: any) => ({
+      ...material,
+      _id: undefined,
+      item: getId(material?.item),
+      supplier: getId(material?.supplier),
+      sub_bom: getId(material?.sub_bom),
+      quantity: scale(material?.quantity),
+      total_part_cost: scale(material?.total_part_cost),
+    })),
+    scrap_materials: (bom?.scrap_materials || []).map((material: any) => ({
+      ...material,
+      _id: undefined,
+      item: getId(material?.item),
+      quantity: scale(material?.quantity),
+      total_part_cost: scale(material?.total_part_cost),
+    })),
+    processes: bom?.processes,
+    parts_count: bom?.parts_count,
+    total_cost: scale(bom?.total_cost),
+    other_charges: bom?.other_charges,
+    manpower: bom?.manpower,
+    resources: (bom?.resources || []).map((resource: any) => ({
+      ...resource,
+      resource_id: getId(resource?.resource_id),
+    })),
+    remarks: bom?.remarks,
+  };
+};
+
+// The whole BOM for updateBOM with its revision moved to `status`. The
+// `approved` flag is the sign-off given on the Approvals page (bom/unapproved);
+// approving a revision gives it too, so the revision does not wait there for
+// a second approval. Approving without a date makes it effective right away.
+export const buildRevisionStatusUpdate = (
+  bom: any,
+  status: BomRevisionStatus
+) => {
+  const copy = copyBom(bom);
+  return {
+    ...copy,
+    _id: bom?._id,
+    raw_materials: copy.raw_materials.map((material: any, index: number) => ({
+      ...material,
+      _id: bom?.raw_materials?.[index]?._id,
+    })),
+    scrap_materials: copy.scrap_materials.map(
+      (material: any, index: number) => ({
+        ...material,
+        _id: bom?.scrap_materials?.[index]?._id,
+      })
+    ),
+    sale_id: getId(bom?.sale_id),
+    revision: getRevisionNumber(bom),
+    revision_of: getId(bom?.revision_of),
+    effective_from:
+      status === "Approved" && !bom?.effective_from
+        ? new Date().toISOString()
+        : bom?.effective_from,
+    revision_status: status,
+    ...(status === "Approved" ? { approved: true } : {}),
+  };
+};
+
+// Draft copy of `bom` numbered after the newest revision of its family
+export const buildNextRevision = (bom: any, boms: any[]) => {
+  const latest = getBomRevisions(bom, boms)[0] || bom;
+  return {
+    ...copyBom(bom),
+    sale_id: getId(bom?.sale_id),
+    revision: getRevisionNumber(latest) + 1,
+    revision_of: getRevisionFamily(bom),
+    revision_status: "Draft" as BomRevisionStatus,
+  };
+};
+
+const getChange = (before?: string, after?: string) => {
+  if (before === undefined) return "added";
+  if (after === undefined) return "removed";
+  return before === after ? "unchanged" : "changed";
+};
+
+// Quantities per item, with repeated items added up
+const getMaterialValues = (materials: any[] = []) => {
+  const values: { [itemId: string]: { label: string; quantity: number } } =
+    {};
+  materials.forEach((material: any, index: number) => {
+    const itemId = getId(material?.item) || String(index);
+    if (!values[itemId]) {
+      values[itemId] = { label: material?.item?.name || "N/A", quantity: 0 };
+    }
+    values[itemId].quantity += +material?.quantity || 0;
+  });
+  return values;
+};
+
+const diffMaterials = (
+  section: string,
+  before: any[],
+  after: any[]
+): RevisionDiffRow[] => {
+  const beforeValues = getMaterialValues(before);
+  const afterValues = getMaterialValues(after);
+  const itemIds = Array.from(
+    new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)])
+  );
+  return itemIds.map((itemId) => {
+    const beforeValue = beforeValues[itemId]
+      ? String(+beforeValues[itemId].quantity.toFixed(2))
+      : undefined;
+    const afterValue = afterValues[itemId]
+      ? String(+afterValues[itemId].quantity.toFixed(2))
+      : undefined;
+    return {
+      key: `${section}-${itemId}`,
+      section,
+      label: (afterValues[itemId] || beforeValues[itemId]).label,
+      before: beforeValue,
+      after: afterValue,
+      change: getChange(beforeValue, afterValue),
+    };
+  });
+};
+
+// Row by row comparison of two revisions, materials matched on their item
+export const diffBomRevisions = (
+  before: any,
+  after: any
+): RevisionDiffRow[] => {
+  const general = [
+    ["Finished Good Quantity", (bom: any) => bom?.finished_good?.quantity],
+    ["Total Cost", (bom: any) => bom?.total_cost],
+    ["Effective From", (bom: any) => formatEffectiveDate(bom?.effective_from)],
+  ] as const;
+
+  const processes = Array.from(
+    new Set([...(before?.processes || []), ...(after?.processes || [])])
+  ).filter(Boolean);
+
+  return [
+    ...general.map(([label, getValue]) => {
+      const beforeValue = String(getValue(before) ?? "N/A");
+      const afterValue = String(getValue(after) ?? "N/A");
+      return {
+        key: `general-${label}`,
+        section: "General",
+        label,
+        before: beforeValue,
+        after: afterValue,
+        change: getChange(beforeValue, afterValue),
+      } as RevisionDiffRow;
+    }),
+    ...diffMaterials(
+      "Raw Materials",
+      before?.raw_materials,
+      after?.raw_materials
+    ),
+    ...diffMaterials(
+      "Scrap Materials",
+      before?.scrap_materials,
+      after?.scrap_materials
+    ),
+    ...processes.map((process: string) => {
+      const beforeValue = before?.processes?.includes(process)
+        ? "Yes"
+        : undefined;
+      const afterValue = after?.processes?.includes(process)
+        ? "Yes"
+        : undefined;
+      return {
+        key: `process-${process}`,
+        section: "Processes",
+        label: process,
+        before: beforeValue,
+        after: afterValue,
+        change: getChange(beforeValue, afterValue),
+      } as RevisionDiffRow;
+    }),
+  ];
+};
@@ -0,0 +1,198 @@
+import { getRevisionLabel, getRevisionStatus } from "./bomRevisions";
+
+export interface BomTreeNode {
+  key: string;
+  name: string;
+  product_id?: string;
+  uom?: string;
+  quantity: number;
+  unit_cost: number;
+  total_cost: number;
+  // Set on lines made from another BOM
+  bom_id?: string;
+  bom_name?: string;
+  children: BomTreeNode[];
+}
+
+export interface WhereUsedEntry {
+  bom_id: string;
+  bom_name: string;
+  finished_good: string;
+  quantity: number;
+  uom?: string;
+  // 1 when the BOM consumes the product itself, 2 when it consumes a
+  // sub-assembly that does, and so on
+  level: number;
+  // Sub-assembly BOM the product reaches this BOM through
+  via?: string;
+}
+
+const MAX_BOM_DEPTH = 10;
+
+const getId = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "string") return value;
+  return value?._id;
+};
+
+export const findBomById = (bomId: string | undefined, boms: any[]) =>
+  bomId ? boms.find((bom: any) => bom?._id === bomId) : undefined;
+
+// A raw material line is a sub-assembly when it links another BOM
+export const getSubBom = (material: any, boms: any[]): any | undefined =>
+  findBomById(getId(material?.sub_bom), boms);
+
+const getLineCost = (
+  material: any,
+  boms: any[],
+  path: string[]
+): { unit_cost: number; total_cost: number } => {
+  const quantity = +material?.quantity || 0;
+  const subBom = getSubBom(material, boms);
+  if (subBom) {
+    const unitCost = getRolledUpUnitCost(subBom, boms, path);
+    return { unit_cost: unitCost, total_cost: unitCost * quantity };
+  }
+  const totalCost = +material?.total_part_cost || 0;
+  return {
+    unit_cost:
+      quantity > 0 ? totalCost / quantity : +material?.item?.price || 0,
+    total_cost: totalCost,
+  };
+};
+
+// Material cost of one unit of the BOM's finished good, with sub-assemblies
+// costed from their own BOMs instead of the price stored on the line
+export const getRolledUpUnitCost = (
+  bom: any,
+  boms: any[],
+  path: string[] = []
+): number => {
+  if (!bom || path.includes(bom._id) || path.length >= MAX_BOM_DEPTH) {
+    return 0;
+  }
+  const total = (bom?.raw_materials || []).reduce(
+    (sum: number, material: any) =>
+      sum + getLineCost(material, boms, [...path, bom._id]).total_cost,
+    0
+  );
+  return total / (+bom?.finished_good?.quantity || 1);
+};
+
+export const getRolledUpCost = (bom: any, boms: any[]): number =>
+  getRolledUpUnitCost(bom, boms) * (+bom?.finished_good?.quantity || 1);
+
+// BOMs a raw material line can link as a sub-assembly. Copies raised for
+// sales orders and obsolete revisions are left out, as is the BOM being
+// edited.
+export const getSubAssemblyOptions = (boms: any[], excludeId?: string) =>
+  boms
+    .filter(
+      (bom: any) =>
+        !bom?.sale_id &&
+        bom?._id !== excludeId &&
+        getRevisionStatus(bom) !== "Obsolete"
+    )
+    .map((bom: any) => ({
+      value: bom._id as string,
+      label: `${bom?.bom_name} ${getRevisionLabel(bom)} (${
+        bom?.finished_good?.item?.name || "N/A"
+      })`,
+    }));
+
+// Raw material line fields taken from a linked sub-assembly BOM
+export const getSubAssemblyFields = (bom: any, boms: any[]) => {
+  const item = bom?.finished_good?.item;
+  return {
+    item_name: { value: getId(item) || "", label: item?.name || "N/A" },
+    uom: item?.uom,
+    category: item?.category,
+    unit_cost: +getRolledUpUnitCost(bom, boms).toFixed(2),
+  };
+};
+
+// Lines of a sub-assembly are scaled to the quantity the parent consumes
+export const buildBomTree = (
+  bom: any,
+  boms: any[],
+  multiplier = 1,
+  path: string[] = []
+): BomTreeNode[] => {
+  if (!bom || path.includes(bom._id) || path.length >= MAX_BOM_DEPTH) {
+    return [];
+  }
+  return (bom?.raw_materials || []).map((material: any, index: number) => {
+    const quantity = (+material?.quantity || 0) * multiplier;
+    const subBom = getSubBom(material, boms);
+    const { unit_cost } = getLineCost(material, boms, [...path, bom._id]);
+    return {
+      key: `${bom._id}-${material?._id || index}`,
+      name: material?.item?.name || "N/A",
+      product_id: material?.item?.product_id,
+      uom: material?.item?.uom,
+      quantity: +quantity.toFixed(2),
+      unit_cost,
+      total_cost: unit_cost * quantity,
+      bom_id: subBom?._id,
+      bom_name: subBom?.bom_name,
+      children: subBom
+        ? buildBomTree(
+            subBom,
+            boms,
+            quantity / (+subBom?.finished_good?.quantity || 1),
+            [...path, bom._id]
+          )
+        : [],
+    };
+  });
+};
+
+// Every BOM that consumes the product, directly or through sub-assemblies.
+// A BOM consuming the finished good of a product's BOM is found through the
+// link on the line, or through the item when the line was not linked.
+export const getWhereUsed = (
+  productId: string,
+  boms: any[]
+): WhereUsedEntry[] => {
+  const entries: WhereUsedEntry[] = [];
+  const seen = new Set<string>();
+  let current: { productId: string; bomId?: string; bomName?: string }[] = [
+    { productId },
+  ];
+
+  for (let level = 1; current.length > 0 && level <= MAX_BOM_DEPTH; level++) {
+    const next: typeof current = [];
+    current.forEach((target) => {
+      boms.forEach((bom: any) => {
+        if (!bom?._id || seen.has(bom._id)) return;
+        const line = (bom?.raw_materials || []).find(
+          (material: any) =>
+            getId(material?.item) === target.productId ||
+            (target.bomId && getId(material?.sub_bom) === target.bomId)
+        );
+        if (!line) return;
+
+        seen.add(bom._id);
+        entries.push({
+          bom_id: bom._id,
+          bom_name: bom?.bom_name || "N/A",
+          finished_good: bom?.finished_good?.item?.name || "N/A",
+          quantity: +line?.quantity || 0,
+          uom: line?.item?.uom,
+          level,
+          via: target.bomName,
+        });
+        const finishedGoodId = getId(bom?.finished_good?.item);
+        if (finishedGoodId) {
+          next.push({
+            productId: finishedGoodId,
+            bomId: bom._id,
+            bomName: bom?.bom_name,
+          });
+        }
+      });
+    });
+    current = next;
+  }
+  return entries;
+};
@@ -1,21 +1,13 @@
+import { can, PermissionAction } from "./permissions";
+
 interface checkAccessProps{
     auth ?: { [key: string]: any },
-    route: string
+    route: string,
+    action ?: PermissionAction
 }
 
-const checkAccess = ({auth, route}: checkAccessProps)=>{
-    if(!auth){
-        return false;
-    }
-
-    const isSuperAdmin = auth.isSuper;
-    const permittedRoutes = auth.allowedroutes || [];
-
-    if(isSuperAdmin || permittedRoutes.includes(route)){
-        return true;
-    }
-
-    return false;
+const checkAccess = ({auth, route, action}: checkAccessProps)=>{
+    return can(auth, route, action);
 }
 
-export default checkAccess;
\ No newline at end of file
+export default checkAccess;
@@ -0,0 +1,106 @@
+import { SearchEntityType, SearchResult } from "../../redux/api/types";
+
+export interface SearchEntity {
+  type: SearchEntityType;
+  label: string;
+  // Permission module needed to see the records
+  module: string;
+  link: (result: SearchResult) => string;
+}
+
+// Each record opens in its page's details drawer through the `id` link
+export const searchEntities: SearchEntity[] = [
+  {
+    type: "product",
+    label: "Products",
+    module: "inventory",
+    link: (r) =>
+      `/inventory/${r.category === "indirect" ? "indirect" : "direct"}?id=${
+        r._id
+      }`,
+  },
+  {
+    type: "party",
+    label: "Merchants",
+    module: "parties",
+    link: (r) => `/merchant?id=${r._id}`,
+  },
+  {
+    type: "sale",
+    label: "Sales Orders",
+    module: "sales",
+    link: (r) => `/sales?id=${r._id}`,
+  },
+  {
+    type: "bom",
+    label: "BOMs",
+    module: "production",
+    link: (r) => `/production/bom?id=${r._id}`,
+  },
+  {
+    type: "invoice",
+    label: "Invoices",
+    module: "accounts",
+    link: (r) => `/accounts/taxInvoice?id=${r._id}`,
+  },
+  {
+    type: "purchase_order",
+    label: "Purchase Orders",
+    module: "procurement",
+    link: (r) => `/procurement/purchase-order?id=${r._id}`,
+  },
+  {
+    type: "dispatch",
+    label: "Dispatches",
+    module: "dispatch",
+    link: (r) => `/dispatch?id=${r._id}`,
+  },
+];
+
+export interface QuickAction {
+  id: string;
+  label: string;
+  // Module whose "create" permission the action needs
+  module: string;
+  link: string;
+}
+
+export const quickActions: QuickAction[] = [
+  { id: "new-sale", label: "New Sale", module: "sales", link: "/sales" },
+  {
+    id: "new-purchase-order",
+    label: "New Purchase Order",
+    module: "procurement",
+    link: "/procurement/purchase-order",
+  },
+  {
+    id: "new-product",
+    label: "New Product",
+    module: "inventory",
+    link: "/inventory/direct",
+  },
+  {
+    id: "new-bom",
+    label: "New BOM",
+    module: "production",
+    link: "/production/bom",
+  },
+  {
+    id: "new-invoice",
+    label: "New Invoice",
+    module: "accounts",
+    link: "/accounts/taxInvoice",
+  },
+  {
+    id: "new-dispatch",
+    label: "New Dispatch",
+    module: "dispatch",
+    link: "/dispatch",
+  },
+].map((action) => ({ ...action, link: `${action.link}?action=new` }));
+
+// Minimum characters before the backend is searched
+export const MIN_SEARCH_LENGTH = 2;
+
+export const matchesQuery = (text: string, query: string) =>
+  text.toLowerCase().includes(query.trim().toLowerCase());
@@ -0,0 +1,138 @@
+import {
+  GoodsReceipt,
+  GoodsReceiptItem,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from "../../redux/api/types";
+
+export const purchaseOrderStatusColorMap: { [status: string]: string } = {
+  Ordered: "bg-blue-100 text-blue-800",
+  "Partially Received": "bg-yellow-100 text-yellow-800",
+  Received: "bg-green-100 text-green-800",
+};
+
+export const goodsReceiptStatusColorMap: { [status: string]: string } = {
+  Draft: "bg-gray-100 text-gray-800",
+  Posted: "bg-green-100 text-green-800",
+};
+
+export interface ReceiptLine {
+  // Matches `po_item` on the receipt lines
+  key: string;
+  item_name: string;
+  product_id?: string;
+  uom?: string;
+  ordered_qty: number;
+  received_qty: number;
+  pending_qty: number;
+  // Accepted on draft receipts that are not posted yet
+  draft_qty: number;
+}
+
+// Lines saved before the backend added ids are matched by position
+const getLineKey = (item: any, index: number): string =>
+  item?._id || String(index);
+
+export const getPurchaseOrderStatus = (
+  order: PurchaseOrder
+): PurchaseOrderStatus => order?.status || "Ordered";
+
+const getAcceptedQty = (receipts: GoodsReceipt[]) => {
+  const accepted: { [key: string]: number } = {};
+  receipts.forEach((receipt) =>
+    receipt.items.forEach((item: GoodsReceiptItem) => {
+      if (!item.po_item) return;
+      accepted[item.po_item] =
+        (accepted[item.po_item] || 0) + (+item.accepted_qty || 0);
+    })
+  );
+  return accepted;
+};
+
+// Only posted receipts count, and only what was accepted: rejected goods go
+// back to the supplier and stay pending on the order
+export const getReceiptLines = (
+  order: PurchaseOrder,
+  receipts: GoodsReceipt[]
+): ReceiptLine[] => {
+  const received = getAcceptedQty(
+    receipts.filter((receipt) => receipt.status === "Posted")
+  );
+  const drafted = getAcceptedQty(
+    receipts.filter((receipt) => receipt.status === "Draft")
+  );
+
+  return (order?.items || []).map((item: any, index: number) => {
+    const key = getLineKey(item, index);
+    const ordered = +item?.quantity || 0;
+    const receivedQty = received[key] || 0;
+    return {
+      key,
+      item_name: item?.itemName || "N/A",
+      product_id: item?.productId || undefined,
+      uom: item?.uom,
+      ordered_qty: ordered,
+      received_qty: receivedQty,
+      pending_qty: Math.max(0, ordered - receivedQty),
+      draft_qty: drafted[key] || 0,
+    };
+  });
+};
+
+export const getReceiptStatus = (
+  lines: ReceiptLine[]
+): PurchaseOrderStatus => {
+  if (lines.length > 0 && lines.every((line) => line.pending_qty === 0)) {
+    return "Received";
+  }
+  return lines.some((line) => line.received_qty > 0)
+    ? "Partially Received"
+    : "Ordered";
+};
+
+export const getStoreName = (store: GoodsReceipt["store"]) =>
+  typeof store === "string" ? store : store?.name || "N/A";
+
+// What a new receipt can still accept once open drafts are posted
+export const getOpenQty = (line: ReceiptLine) =>
+  Math.max(0, line.pending_qty - line.draft_qty);
+
+export const getReceiptItemsByLine = (receipt: GoodsReceipt) =>
+  receipt.items.reduce(
+    (acc: { [key: string]: GoodsReceiptItem }, item) =>
+      item.po_item ? { ...acc, [item.po_item]: item } : acc,
+    {}
+  );
+
+// Returns an error message per line key, empty when the receipt can be saved.
+// A draft being posted is checked with `countDrafts` off, against what is
+// still pending after the posted receipts alone.
+export const validateReceiptItems = (
+  lines: ReceiptLine[],
+  items: { [key: string]: GoodsReceiptItem },
+  countDrafts = true
+) => {
+  const errors: { [key: string]: string } = {};
+  lines.forEach((line) => {
+    const item = items[line.key];
+    if (!item) return;
+    const limit = countDrafts ? getOpenQty(line) : line.pending_qty;
+    if (item.accepted_qty < 0 || item.rejected_qty < 0) {
+      errors[line.key] = "Quantities cannot be negative";
+    } else if (item.accepted_qty > limit) {
+      errors[line.key] =
+        countDrafts && line.draft_qty > 0
+          ? `Only ${limit} pending, ${line.draft_qty} is on draft receipts`
+          : `Only ${limit} pending`;
+    } else if (
+      item.accepted_qty + item.rejected_qty > 0 &&
+      !item.batch_no?.trim()
+    ) {
+      errors[line.key] = "Batch number is required";
+    }
+  });
+  return errors;
+};
+
+export const isReceivedItem = (item: GoodsReceiptItem) =>
+  item.accepted_qty + item.rejected_qty > 0;
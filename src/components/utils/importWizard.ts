@@ -0,0 +1,408 @@
+import * as XLSX from "xlsx";
+import { downloadExport, ExportRow } from "./tableExport";
+
+// Existing records an import is checked against
+export interface ImportLookups {
+  productIds: Set<string>;
+  // Store names, lowercased, to their ids
+  stores: Map<string, string>;
+}
+
+export type ImportLookup = keyof ImportLookups;
+
+export interface ImportField {
+  // Column header the bulk upload endpoint expects
+  key: string;
+  label: string;
+  required?: boolean;
+  // Other headers the column is recognised by when mapping
+  aliases?: string[];
+  numeric?: boolean;
+  // Allowed values, compared case-insensitively
+  options?: string[];
+  // Values must not repeat within the file
+  unique?: boolean;
+  validate?: (value: string, lookups: ImportLookups) => string | undefined;
+  // Value written to the uploaded file, e.g. a store's id instead of its name
+  transform?: (value: string, lookups: ImportLookups) => string;
+}
+
+export interface ImportConfig {
+  title: string;
+  fields: ImportField[];
+  lookups?: ImportLookup[];
+  // Checks that need more than one cell, keyed by the field they report on
+  validateRow?: (values: ImportValues) => ImportErrors;
+  note?: string;
+}
+
+export type ImportValues = { [field: string]: string };
+export type ImportErrors = { [field: string]: string };
+// Field key to the file header it is read from, "" when not imported
+export type ImportMapping = { [field: string]: string };
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: ImportValues[];
+}
+
+export interface ImportRowResult {
+  // Row number in the uploaded file, counting the header as row 1
+  rowNumber: number;
+  values: ImportValues;
+  errors: ImportErrors;
+}
+
+export const emptyImportLookups = (): ImportLookups => ({
+  productIds: new Set(),
+  stores: new Map(),
+});
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^(\+91[\s-]?)?[6-9]\d{9}$/;
+const PINCODE_PATTERN = /^\d{6}$/;
+
+export const validateGstin = (value: string) =>
+  GSTIN_PATTERN.test(value.toUpperCase()) ? undefined : "Invalid GSTIN";
+
+export const validateEmail = (value: string) =>
+  EMAIL_PATTERN.test(value) ? undefined : "Invalid email";
+
+export const validatePhone = (value: string) =>
+  PHONE_PATTERN.test(value.replace(/\s/g, ""))
+    ? undefined
+    : "Invalid phone number";
+
+export const validatePincode = (value: string) =>
+  PINCODE_PATTERN.test(value) ? undefined : "Pincode must be 6 digits";
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const parseImportFile = async (
+  file: File
+): Promise<ParsedImportFile> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: "array" });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error("The file has no sheets");
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<string[]>(sheet, {
+    header: 1,
+  });
+  const headers = headerRow
+    .map((header) => String(header ?? "").trim())
+    .filter(Boolean);
+  const rows = XLSX.utils
+    .sheet_to_json<{ [header: string]: unknown }>(sheet, {
+      defval: "",
+      raw: false,
+    })
+    .map((row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([header, value]) => [
+          header.trim(),
+          String(value ?? "").trim(),
+        ])
+      )
+    );
+
+  return { headers, rows };
+};
+
+// Maps each field to the header that matches its key, label or an alias
+export const guessImportMapping = (
+  headers: string[],
+  fields: ImportField[]
+): ImportMapping =>
+  fields.reduce((mapping: ImportMapping, field) => {
+    const names = [field.key, field.label, ...(field.aliases || [])].map(
+      normalizeHeader
+    );
+    mapping[field.key] =
+      headers.find((header) => names.includes(normalizeHeader(header))) || "";
+    return mapping;
+  }, {});
+
+const findImportOption = (field: ImportField, value: string) =>
+  field.options?.find(
+    (option) => option.toLowerCase() === value.toLowerCase()
+  );
+
+const validateCell = (
+  field: ImportField,
+  value: string,
+  lookups: ImportLookups
+) => {
+  if (!value) return field.required ? "Required" : undefined;
+  if (field.numeric && Number.isNaN(Number(value))) {
+    return "Must be a number";
+  }
+  if (field.options && !findImportOption(field, value)) {
+    return `Must be one of ${field.options.join(", ")}`;
+  }
+  return field.validate?.(value, lookups);
+};
+
+export const validateImportRows = (
+  rows: ImportValues[],
+  mapping: ImportMapping,
+  config: ImportConfig,
+  lookups: ImportLookups
+): ImportRowResult[] => {
+  // Unique field to the first row each value was seen on
+  const seen: { [field: string]: Map<string, number> } = {};
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const values: ImportValues = {};
+    const errors: ImportErrors = {};
+
+    config.fields.forEach((field) => {
+      const value = mapping[field.key] ? row[mapping[field.key]] || "" : "";
+      values[field.key] = value;
+
+      const error = validateCell(field, value, lookups);
+      if (error) {
+        errors[field.key] = error;
+      } else if (field.unique && value) {
+        if (!seen[field.key]) seen[field.key] = new Map();
+        const firstSeen = seen[field.key];
+        const key = value.toLowerCase();
+        if (firstSeen.has(key)) {
+          errors[field.key] = `Duplicate of row ${firstSeen.get(key)}`;
+        } else {
+          firstSeen.set(key, rowNumber);
+        }
+      }
+    });
+
+    Object.entries(config.validateRow?.(values) || {}).forEach(
+      ([field, error]) => {
+        if (!errors[field]) errors[field] = error;
+      }
+    );
+
+    return { rowNumber, values, errors };
+  });
+};
+
+export const isValidImportRow = (row: ImportRowResult) =>
+  Object.keys(row.errors).length === 0;
+
+// Rebuilds the valid rows as a workbook with the headers the bulk upload
+// endpoint expects, so only those rows are committed. Options are written in
+// their canonical case.
+export const buildImportFile = (
+  rows: ImportRowResult[],
+  fields: ImportField[],
+  lookups: ImportLookups
+) => {
+  const data = rows.map((row) =>
+    fields.reduce((acc: ImportValues, field) => {
+      const value = row.values[field.key];
+      if (value && field.transform) {
+        acc[field.key] = field.transform(value, lookups);
+      } else {
+        acc[field.key] = findImportOption(field, value) || value;
+      }
+      return acc;
+    }, {})
+  );
+  const worksheet = XLSX.utils.json_to_sheet(data, {
+    header: fields.map((field) => field.key),
+  });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Data");
+  const buffer = XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+
+  return new File([buffer], "import.xlsx", {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+export const downloadImportErrors = (
+  rows: ImportRowResult[],
+  fields: ImportField[],
+  fileName: string
+) => {
+  const report = rows.map((row) => {
+    const record: ExportRow = { Row: row.rowNumber };
+    fields.forEach((field) => {
+      record[field.label] = row.values[field.key];
+    });
+    record.Errors = Object.entries(row.errors)
+      .map(([key, error]) => {
+        const label = fields.find((field) => field.key === key)?.label;
+        return `${label || key}: ${error}`;
+      })
+      .join("; ");
+    return record;
+  });
+  downloadExport(report, fileName, "xlsx");
+};
+
+export const downloadImportTemplate = (
+  fields: ImportField[],
+  fileName: string
+) => {
+  const worksheet = XLSX.utils.aoa_to_sheet([fields.map((field) => field.key)]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Data");
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
+
+const numericField = (key: string, label: string): ImportField => ({
+  key,
+  label,
+  numeric: true,
+});
+
+export const productImportConfig: ImportConfig = {
+  title: "Products",
+  lookups: ["productIds", "stores"],
+  note: "Leave Product ID empty to have it generated.",
+  fields: [
+    {
+      key: "product_id",
+      label: "Product ID",
+      unique: true,
+      validate: (value, lookups) =>
+        lookups.productIds.has(value.toLowerCase())
+          ? "Product ID already exists"
+          : undefined,
+    },
+    {
+      key: "inventory_category",
+      label: "Inventory Category",
+      options: ["direct", "indirect"],
+    },
+    { key: "name", label: "Name", required: true, aliases: ["product name"] },
+    { key: "uom", label: "UOM", required: true, aliases: ["unit"] },
+    { key: "category", label: "Category", required: true },
+    numericField("current_stock", "Current Stock"),
+    numericField("min_stock", "Min Stock"),
+    numericField("max_stock", "Max Stock"),
+    numericField("price", "Price"),
+    { key: "hsn_code", label: "HSN Code", aliases: ["hsn"] },
+    { key: "item_type", label: "Item Type", options: ["buy", "sell", "both"] },
+    {
+      key: "product_or_service",
+      label: "Product or Service",
+      options: ["product", "service"],
+    },
+    { key: "sub_category", label: "Sub Category" },
+    numericField("regular_buying_price", "Regular Buying Price"),
+    numericField("wholesale_buying_price", "Wholesale Buying Price"),
+    numericField("mrp", "MRP"),
+    numericField("dealer_price", "Dealer Price"),
+    numericField("distributor_price", "Distributor Price"),
+    {
+      key: "store",
+      label: "Store",
+      aliases: ["store name"],
+      validate: (value, lookups) =>
+        lookups.stores.has(value.toLowerCase()) ? undefined : "Unknown store",
+      transform: (value, lookups) =>
+        lookups.stores.get(value.toLowerCase()) || value,
+    },
+  ],
+};
+
+const addressFields: ImportField[] = [
+  { key: "address_line1", label: "Address Line 1" },
+  { key: "address_line2", label: "Address Line 2" },
+  { key: "pincode", label: "Pincode", validate: validatePincode },
+  { key: "city", label: "City" },
+  { key: "state", label: "State" },
+];
+
+export const storeImportConfig: ImportConfig = {
+  title: "Stores",
+  fields: [
+    { key: "name", label: "Name", required: true, unique: true },
+    {
+      key: "gst_number",
+      label: "GST Number",
+      aliases: ["gstin"],
+      validate: validateGstin,
+    },
+    ...addressFields,
+  ],
+};
+
+export const agentImportConfig: ImportConfig = {
+  title: "Agents",
+  fields: [
+    {
+      key: "agent_type",
+      label: "Agent Type",
+      required: true,
+      options: ["buyer", "supplier"],
+    },
+    { key: "name", label: "Name", required: true },
+    { key: "email", label: "Email", unique: true, validate: validateEmail },
+    { key: "phone", label: "Phone", validate: validatePhone },
+    {
+      key: "gst_number",
+      label: "GST Number",
+      aliases: ["gstin"],
+      validate: validateGstin,
+    },
+    { key: "company_name", label: "Company Name", required: true },
+    { key: "company_email", label: "Company Email", validate: validateEmail },
+    { key: "company_phone", label: "Company Phone", validate: validatePhone },
+    ...addressFields,
+  ],
+};
+
+export const partyImportConfig: ImportConfig = {
+  title: "Merchants",
+  // Companies are identified by their company name, individuals by name
+  validateRow: (values) => {
+    const errors: ImportErrors = {};
+    if (values.Type.toLowerCase() === "company") {
+      if (!values.Company_Name) errors.Company_Name = "Required for companies";
+    } else if (!values.Consignee_Name) {
+      errors.Consignee_Name = "Required for individuals";
+    }
+    return errors;
+  },
+  fields: [
+    { key: "Consignee_Name", label: "Consignee Name" },
+    { key: "Company_Name", label: "Company Name" },
+    {
+      key: "Type",
+      label: "Type",
+      required: true,
+      options: ["Company", "Individual"],
+    },
+    {
+      key: "Merchant_Type",
+      label: "Merchant Type",
+      required: true,
+      options: ["Buyer", "Seller"],
+    },
+    {
+      key: "Email_ID",
+      label: "Email",
+      aliases: ["email"],
+      unique: true,
+      validate: validateEmail,
+    },
+    {
+      key: "Contact_Number",
+      label: "Contact Number",
+      aliases: ["phone"],
+      validate: validatePhone,
+    },
+    { key: "Shipped_To", label: "Shipped To" },
+    { key: "Bill_To", label: "Bill To" },
+    {
+      key: "Shipped_GST_IN",
+      label: "Shipped GSTIN",
+      validate: validateGstin,
+    },
+    { key: "Bill_GST_IN", label: "Bill GSTIN", validate: validateGstin },
+  ],
+};
@@ -0,0 +1,134 @@
+export const webhookEvents = [
+  { value: "sale.created", label: "Sale created" },
+  { value: "sale.updated", label: "Sale updated" },
+  { value: "invoice.created", label: "Invoice created" },
+  { value: "payment.created", label: "Payment received" },
+  { value: "dispatch.created", label: "Dispatch created" },
+  { value: "dispatch.status_changed", label: "Dispatch status changed" },
+  { value: "purchase_order.created", label: "Purchase order created" },
+  { value: "production.completed", label: "Production completed" },
+];
+
+export const getWebhookEventLabel = (event: string) =>
+  webhookEvents.find((e) => e.value === event)?.label || event;
+
+export interface ConnectorField {
+  key: string;
+  label: string;
+  type?: "text" | "number" | "password" | "email" | "select" | "checkbox";
+  options?: string[];
+  placeholder?: string;
+  required?: boolean;
+}
+
+export interface ConnectorDefinition {
+  type: string;
+  name: string;
+  description: string;
+  fields: ConnectorField[];
+}
+
+export const connectorDefinitions: ConnectorDefinition[] = [
+  {
+    type: "tally",
+    name: "Tally",
+    description: "Push vouchers and ledgers to Tally through its XML gateway",
+    fields: [
+      {
+        key: "host",
+        label: "Tally Gateway URL",
+        placeholder: "http://192.168.1.10:9000",
+        required: true,
+      },
+      { key: "company", label: "Company Name in Tally", required: true },
+      {
+        key: "schedule",
+        label: "Sync",
+        type: "select",
+        options: ["Manual", "Hourly", "Daily"],
+      },
+    ],
+  },
+  {
+    type: "csv_export",
+    name: "CSV Accounting Export",
+    description: "Email the day's vouchers, invoices and payments as CSV files",
+    fields: [
+      {
+        key: "email",
+        label: "Send To",
+        type: "email",
+        placeholder: "accounts@example.com",
+        required: true,
+      },
+      {
+        key: "schedule",
+        label: "Schedule",
+        type: "select",
+        options: ["Daily", "Weekly", "Monthly"],
+      },
+      { key: "include_invoices", label: "Include invoices", type: "checkbox" },
+      { key: "include_payments", label: "Include payments", type: "checkbox" },
+    ],
+  },
+  {
+    type: "smtp",
+    name: "SMTP",
+    description: "Send notifications and documents from your own mail server",
+    fields: [
+      {
+        key: "host",
+        label: "Host",
+        placeholder: "smtp.gmail.com",
+        required: true,
+      },
+      {
+        key: "port",
+        label: "Port",
+        type: "number",
+        placeholder: "587",
+        required: true,
+      },
+      { key: "username", label: "Username", required: true },
+      { key: "password", label: "Password", type: "password" },
+      {
+        key: "from_email",
+        label: "From Address",
+        type: "email",
+        required: true,
+      },
+      { key: "secure", label: "Use TLS", type: "checkbox" },
+    ],
+  },
+];
+
+export const syncStatusColorMap: { [status: string]: string } = {
+  Success: "bg-green-100 text-green-800",
+  Failed: "bg-red-100 text-red-800",
+  Running: "bg-blue-100 text-blue-800",
+  "Not Configured": "bg-gray-100 text-gray-800",
+  Never: "bg-yellow-100 text-yellow-800",
+};
+
+export const deliveryStatusColorMap: { [status: string]: string } = {
+  Delivered: "bg-green-100 text-green-800",
+  Failed: "bg-red-100 text-red-800",
+  Pending: "bg-yellow-100 text-yellow-800",
+};
+
+// The connector as saved on the server, or its unconfigured default
+export const getConnector = (type: string, connectors: any[]) =>
+  connectors.find((connector: any) => connector.type === type) || {
+    type,
+    enabled: false,
+    config: {},
+  };
+
+export const getSyncStatus = (connector: any) => {
+  if (!connector?._id) return "Not Configured";
+  return connector.last_sync_status || "Never";
+};
+
+// Keys are only shown in full once, right after they are created
+export const maskApiKey = (apiKey: any) =>
+  `${apiKey?.prefix || "key"}••••••••${apiKey?.last_four || ""}`;
@@ -0,0 +1,109 @@
+import { DeviceDataResponse } from "../../redux/api/types";
+
+export const maintenanceTriggers = [
+  { value: "calendar", label: "Calendar (every N days)" },
+  { value: "run-hours", label: "Run Hours" },
+  { value: "cycle-count", label: "Cycle Count" },
+];
+
+// Counters reported by the shop-floor device (see Sensors page)
+export const meterSources = [
+  { value: "encoderCount", label: "Encoder Count" },
+  { value: "breakCount", label: "Break Count" },
+];
+
+export const workOrderStatuses = ["Open", "In Progress", "Completed"];
+
+export const downtimeReasons = [
+  "Breakdown",
+  "Planned Maintenance",
+  "Setup / Changeover",
+  "No Operator",
+  "No Material",
+  "Other",
+];
+
+// Share of the interval after which a plan is flagged as due soon
+const DUE_SOON_RATIO = 0.1;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface MaintenanceDue {
+  isOverdue: boolean;
+  isDueSoon: boolean;
+  nextDueDate?: Date;
+  remaining?: number;
+  unit: string;
+  label: string;
+}
+
+export const getMeterReading = (reading: any, meter: string) =>
+  typeof reading?.[meter] === "number" ? reading[meter] : 0;
+
+// Works out when a plan is next due, by date for calendar plans and by
+// the device counter for run-hour and cycle-count plans
+export const getMaintenanceDue = (plan: any, reading: any): MaintenanceDue => {
+  if (plan?.trigger === "calendar") {
+    const lastService = new Date(plan?.last_service_date || plan?.createdAt);
+    const nextDueDate = new Date(
+      lastService.getTime() + (+plan?.interval_days || 0) * DAY
+    );
+    const daysLeft = Math.ceil((nextDueDate.getTime() - Date.now()) / DAY);
+    return {
+      isOverdue: daysLeft < 0,
+      isDueSoon:
+        daysLeft >= 0 && daysLeft <= (+plan?.interval_days || 0) * DUE_SOON_RATIO,
+      nextDueDate,
+      remaining: daysLeft,
+      unit: "days",
+      label:
+        daysLeft < 0
+          ? `Overdue by ${Math.abs(daysLeft)} day(s)`
+          : `Due ${nextDueDate.toLocaleDateString()}`,
+    };
+  }
+
+  const counted =
+    getMeterReading(reading, plan?.meter || "encoderCount") -
+    (+plan?.last_service_reading || 0);
+  const isRunHours = plan?.trigger === "run-hours";
+  const used = isRunHours
+    ? counted / (+plan?.counts_per_hour || 1)
+    : counted;
+  const interval = +plan?.interval_value || 0;
+  const remaining = Math.round((interval - used) * 10) / 10;
+  const unit = isRunHours ? "hrs" : "cycles";
+  return {
+    isOverdue: remaining < 0,
+    isDueSoon: remaining >= 0 && remaining <= interval * DUE_SOON_RATIO,
+    remaining,
+    unit,
+    label:
+      remaining < 0
+        ? `Overdue by ${Math.abs(remaining)} ${unit}`
+        : `${remaining} ${unit} left`,
+  };
+};
+
+// Picks the most pressing plan among those attached to a resource or device
+export const getNextService = (plans: any[], reading: any) => {
+  const dues = plans.map((plan) => ({
+    plan,
+    due: getMaintenanceDue(plan, reading),
+  }));
+  const urgency = ({ due }: { due: MaintenanceDue }) =>
+    due.isOverdue ? 0 : due.isDueSoon ? 1 : 2;
+  return dues.sort((a, b) => urgency(a) - urgency(b))[0];
+};
+
+export const getDowntimeHours = (downtime: any) => {
+  const start = new Date(downtime?.start).getTime();
+  const end = downtime?.end ? new Date(downtime.end).getTime() : Date.now();
+  return Math.max(0, (end - start) / (60 * 60 * 1000));
+};
+
+// Latest counters pushed by the shop-floor device
+export const getLatestDeviceReading = (response?: DeviceDataResponse) => {
+  const readings = response?.data;
+  return Array.isArray(readings) && readings.length ? readings[0] : null;
+};
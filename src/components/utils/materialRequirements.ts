@@ -0,0 +1,241 @@
+import { getSaleItems } from "./salesOrders";
+import { RequisitionLine } from "./requisitions";
+import { getSubBom } from "./bomTree";
+import { getEffectiveRevision } from "./bomRevisions";
+
+export interface MaterialRequirement {
+  item_id: string;
+  product_id?: string;
+  name: string;
+  uom?: string;
+  required_qty: number;
+  available_qty: number;
+  shortage_qty: number;
+}
+
+const getId = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value === "string") return value;
+  return value?._id;
+};
+
+// The product of the order's first line
+export const getSaleProductId = (sale: any): string | undefined =>
+  getSaleItems(sale)[0]?.product_id || undefined;
+
+const isLinkedToSale = (bom: any, sale: any) =>
+  !!sale?._id && getId(bom?.sale_id) === sale._id;
+
+// Prefer the BOM raised for this sales order, otherwise the product's own
+// BOM, each in the revision currently in effect
+export const findBomForSale = (sale: any, boms: any[]): any | undefined => {
+  const linkedBom = getEffectiveRevision(
+    boms.filter((bom: any) => isLinkedToSale(bom, sale))
+  );
+  if (linkedBom) return linkedBom;
+
+  const productId = getSaleProductId(sale);
+  if (!productId) return undefined;
+  return findBomForProduct(productId, boms);
+};
+
+// Multi-line orders raise a BOM per line, so a BOM linked to the order only
+// counts for the line whose product it makes
+export const findBomForLine = (
+  sale: any,
+  productId: string,
+  boms: any[]
+): any | undefined =>
+  getEffectiveRevision(
+    boms.filter(
+      (bom: any) =>
+        isLinkedToSale(bom, sale) &&
+        getId(bom?.finished_good?.item) === productId
+    )
+  ) || findBomForProduct(productId, boms);
+
+// The BOM each line of the order is made from, undefined where none exists
+export const findBomsForSaleLines = (
+  sale: any,
+  boms: any[]
+): (any | undefined)[] => {
+  const lines = getSaleItems(sale);
+  return lines.map((line) =>
+    lines.length === 1
+      ? findBomForSale(sale, boms)
+      : findBomForLine(sale, line.product_id, boms)
+  );
+};
+
+export const calculateMaterialRequirements = (
+  sales: any[],
+  boms: any[],
+  products: any[]
+): MaterialRequirement[] => {
+  const requirements: { [itemId: string]: MaterialRequirement } = {};
+
+  sales.forEach((sale: any) => {
+    const lineBoms = findBomsForSaleLines(sale, boms);
+    getSaleItems(sale).forEach((line, index) => {
+      const bom = lineBoms[index];
+      if (!bom) return;
+
+      const bomQty = +bom?.finished_good?.quantity || 1;
+      const multiplier = line.quantity / bomQty;
+
+      (bom?.raw_materials || []).forEach((material: any) => {
+        const itemId = getId(material?.item);
+        if (!itemId) return;
+
+        if (!requirements[itemId]) {
+          const product = products.find((p: any) => p._id === itemId);
+          requirements[itemId] = {
+            item_id: itemId,
+            product_id: product?.product_id || material?.item?.product_id,
+            name: product?.name || material?.item?.name || "N/A",
+            uom: product?.uom || material?.item?.uom,
+            required_qty: 0,
+            available_qty: +product?.current_stock || 0,
+            shortage_qty: 0,
+          };
+        }
+        requirements[itemId].required_qty +=
+          (+material?.quantity || 0) * multiplier;
+      });
+    });
+  });
+
+  return Object.values(requirements).map((requirement) => ({
+    ...requirement,
+    required_qty: +requirement.required_qty.toFixed(2),
+    shortage_qty: Math.max(
+      0,
+      +(requirement.required_qty - requirement.available_qty).toFixed(2)
+    ),
+  }));
+};
+
+export interface ExplodedMaterial extends MaterialRequirement {
+  // 1 for the BOM's own raw materials, 2 for the components of those that
+  // are sub-assemblies, and so on
+  level: number;
+  bom_name?: string;
+  price: number;
+  // Made from its own BOM rather than bought
+  is_assembly: boolean;
+}
+
+const MAX_BOM_DEPTH = 10;
+
+// BOMs raised for a sales order are copies, the product's own BOM is the one
+// without a sale, in the revision currently in effect. Undefined while no
+// revision is approved and in effect.
+export const findBomForProduct = (
+  productId: string,
+  boms: any[]
+): any | undefined =>
+  getEffectiveRevision(
+    boms.filter(
+      (bom: any) =>
+        getId(bom?.finished_good?.item) === productId && !bom?.sale_id
+    )
+  );
+
+const explodeLines = (
+  bom: any,
+  quantity: number,
+  boms: any[],
+  products: any[],
+  allocated: { [itemId: string]: number },
+  level: number,
+  path: string[]
+): ExplodedMaterial[] => {
+  if (!bom || level > MAX_BOM_DEPTH || path.includes(bom._id)) return [];
+  const multiplier = quantity / (+bom?.finished_good?.quantity || 1);
+
+  return (bom?.raw_materials || []).flatMap((material: any) => {
+    const itemId = getId(material?.item);
+    if (!itemId) return [];
+
+    const product = products.find((p: any) => p._id === itemId);
+    const required = +((+material?.quantity || 0) * multiplier).toFixed(2);
+    const available = Math.max(
+      0,
+      (+product?.current_stock || 0) - (allocated[itemId] || 0)
+    );
+    const used = Math.min(available, required);
+    allocated[itemId] = (allocated[itemId] || 0) + used;
+    const shortage = +(required - used).toFixed(2);
+    const subBom =
+      getSubBom(material, boms) || findBomForProduct(itemId, boms);
+
+    const row: ExplodedMaterial = {
+      item_id: itemId,
+      product_id: product?.product_id || material?.item?.product_id,
+      name: product?.name || material?.item?.name || "N/A",
+      uom: product?.uom || material?.item?.uom,
+      required_qty: required,
+      available_qty: +available.toFixed(2),
+      shortage_qty: shortage,
+      level,
+      bom_name: bom?.bom_name,
+      price: +product?.price || 0,
+      is_assembly: !!subBom,
+    };
+    if (!subBom || shortage === 0) return [row];
+    return [
+      row,
+      ...explodeLines(subBom, shortage, boms, products, allocated, level + 1, [
+        ...path,
+        bom._id,
+      ]),
+    ];
+  });
+};
+
+// Scales the product's BOM to `quantity` and walks into components that are
+// sub-assemblies. Stock is handed out through `allocated` as it is used, so a
+// material needed by several lines or levels is not counted twice, and only
+// the part of a sub-assembly that is not in stock is exploded further.
+export const explodeBom = (
+  productId: string,
+  quantity: number,
+  boms: any[],
+  products: any[],
+  allocated: { [itemId: string]: number } = {}
+): ExplodedMaterial[] =>
+  explodeLines(
+    findBomForProduct(productId, boms),
+    quantity,
+    boms,
+    products,
+    allocated,
+    1,
+    []
+  );
+
+// Bought-in materials that are short, merged per item for a requisition
+export const getPurchaseShortages = (
+  materials: ExplodedMaterial[]
+): RequisitionLine[] => {
+  const lines: { [itemId: string]: RequisitionLine } = {};
+  materials
+    .filter((material) => !material.is_assembly && material.shortage_qty > 0)
+    .forEach((material) => {
+      if (!lines[material.item_id]) {
+        lines[material.item_id] = {
+          item: material.item_id,
+          item_name: material.name,
+          quantity: 0,
+          uom: material.uom,
+          estimated_price: material.price,
+          bom_name: material.bom_name,
+          source: "shortage",
+        };
+      }
+      lines[material.item_id].quantity = +(
+        lines[material.item_id].quantity + material.shortage_qty
+      ).toFixed(2);
+    });
+  return Object.values(lines);
+};
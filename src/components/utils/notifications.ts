@@ -0,0 +1,107 @@
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  AppNotification,
+  NotificationPreferences,
+  NotificationType,
+} from "../../redux/api/types";
+
+export interface NotificationDefinition {
+  type: NotificationType;
+  label: string;
+  description: string;
+  // Route the user's role must allow to receive this notification
+  route: string;
+  link: (notification: AppNotification) => string;
+}
+
+export const notificationDefinitions: NotificationDefinition[] = [
+  {
+    type: "approval.pending",
+    label: "Awaiting approval",
+    description: "New products, stores, parties and BOMs sent for approval",
+    route: "approval",
+    link: (n) => `/approval?section=${n.section || "products"}`,
+  },
+  {
+    type: "task.assigned",
+    label: "Task assigned",
+    description: "A task has been assigned to you",
+    route: "task",
+    link: (n) => `/task?id=${n.record_id}`,
+  },
+  {
+    type: "sample.pending",
+    label: "Sample awaiting approval",
+    description: "A sample is ready and waiting for approval",
+    route: "sales",
+    link: (n) => `/sales?sample=${n.record_id}`,
+  },
+  {
+    type: "dispatch.delivered",
+    label: "Dispatch delivered",
+    description: "A dispatch has been marked as delivered",
+    route: "dispatch",
+    link: (n) => `/dispatch?id=${n.record_id}`,
+  },
+  {
+    type: "inventory.shortage",
+    label: "Inventory shortage",
+    description: "A raw material has fallen short of what orders need",
+    route: "procurement",
+    link: () => "/procurement/purchase-order?view=shortages",
+  },
+];
+
+export const getNotificationDefinition = (type: string) =>
+  notificationDefinitions.find((d) => d.type === type);
+
+export const getAvailableNotificationTypes = (
+  allowedroutes: string[],
+  isSuper: boolean
+) =>
+  notificationDefinitions.filter(
+    (d) => isSuper || allowedroutes.includes(d.route)
+  );
+
+// Keeps only the notifications the user's role can open and has not muted
+export const filterNotifications = (
+  notifications: AppNotification[],
+  allowedroutes: string[],
+  isSuper: boolean,
+  preferences?: NotificationPreferences
+) => {
+  const available = getAvailableNotificationTypes(allowedroutes, isSuper).map(
+    (d) => d.type
+  );
+  const disabled = preferences?.disabled_types || [];
+  return notifications.filter(
+    (n) => available.includes(n.type) && !disabled.includes(n.type)
+  );
+};
+
+// Opens the record a notification link points at. `open` returns false while
+// the page has not loaded the record yet and is called again when `loaded`
+// changes. The query param is dropped once handled so a refresh does not
+// reopen the drawer.
+export const useNotificationLink = (
+  param: string,
+  open: (value: string) => boolean | void,
+  loaded?: unknown
+) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(param);
+  const openRef = useRef(open);
+  openRef.current = open;
+
+  useEffect(() => {
+    if (!value || openRef.current(value) === false) return;
+    setSearchParams(
+      (prev) => {
+        prev.delete(param);
+        return prev;
+      },
+      { replace: true }
+    );
+  }, [param, value, loaded, setSearchParams]);
+};
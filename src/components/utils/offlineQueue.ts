@@ -0,0 +1,327 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "react-toastify";
+import {
+  useLazyProcessDetailsQuery,
+  usePauseProcessMutation,
+  useStartProductionMutation,
+  useUpdateProcessMutation,
+  useUpdateProcessStatusMutation,
+} from "../../redux/api/api";
+import { ProcessResponse, ProductionProcess } from "../../redux/api/types";
+
+export type QueuedActionKind = "start" | "pause" | "update" | "status";
+
+export interface QueuedAction {
+  id?: number;
+  kind: QueuedActionKind;
+  process_id: string;
+  // Body of the update or status request; start and pause only need the
+  // process id
+  payload?: any;
+  // `updatedAt` of the process as the operator last saw it
+  base_updated_at?: string;
+  queued_at: string;
+  conflict?: boolean;
+  // Why the server refused the change, when it did
+  error?: string;
+}
+
+export const queuedActionLabels: { [kind in QueuedActionKind]: string } = {
+  start: "Resume",
+  pause: "Pause",
+  update: "Progress update",
+  status: "Status change",
+};
+
+const DB_NAME = "erp-offline";
+const DB_VERSION = 1;
+const CACHE_STORE = "cache";
+const QUEUE_STORE = "queue";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(CACHE_STORE);
+        request.result.createObjectStore(QUEUE_STORE, {
+          keyPath: "id",
+          autoIncrement: true,
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    const request = action(store);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Last good server response for a key, so the floor can keep working offline
+export const saveOfflineCopy = (key: string, value: any) =>
+  runInStore(CACHE_STORE, "readwrite", (store) => store.put(value, key)).catch(
+    (error) =>
+      toast.error(
+        `Could not save an offline copy: ${error?.message || "unknown error"}`
+      )
+  );
+
+export const readOfflineCopy = <T>(key: string) =>
+  runInStore<T | undefined>(CACHE_STORE, "readonly", (store) => store.get(key));
+
+export const isNetworkError = (error: any) =>
+  !navigator.onLine || error?.status === "FETCH_ERROR";
+
+// The queue is mirrored in memory so every table row and banner reads the
+// same list without going back to IndexedDB on each render
+let queue: QueuedAction[] = [];
+const listeners = new Set<(entries: QueuedAction[]) => void>();
+
+const loadQueue = async () => {
+  queue = await runInStore<QueuedAction[]>(QUEUE_STORE, "readonly", (store) =>
+    store.getAll()
+  );
+  listeners.forEach((listener) => listener(queue));
+};
+
+const saveAction = (action: QueuedAction) =>
+  runInStore(QUEUE_STORE, "readwrite", (store) => store.put(action));
+
+const removeAction = (id: number) =>
+  runInStore(QUEUE_STORE, "readwrite", (store) => store.delete(id));
+
+// Changes that are fine themselves but wait behind a conflict on the same
+// process, they are only sent once that conflict is applied or discarded
+export const getHeldBackActions = (entries: QueuedAction[]) => {
+  const conflicted = new Set(
+    entries.filter((a) => a.conflict).map((a) => a.process_id)
+  );
+  return entries.filter((a) => !a.conflict && conflicted.has(a.process_id));
+};
+
+export const discardConflicts = async () => {
+  await Promise.all(
+    queue.filter((a) => a.conflict).map((a) => removeAction(a.id as number))
+  );
+  await loadQueue();
+};
+
+// Sends the change straight away when possible. It is queued instead when the
+// device is offline, when the request never reached the server, or when
+// earlier changes for the same process are still waiting, so the server
+// always receives them in the order the operator made them.
+export const runOrQueue = async <T>(
+  action: Omit<QueuedAction, "id" | "queued_at">,
+  request: () => Promise<T>
+): Promise<T | undefined> => {
+  const pending = queue.filter((a) => a.process_id === action.process_id);
+  if (navigator.onLine && pending.length === 0) {
+    try {
+      return await request();
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  await saveAction({ ...action, queued_at: new Date().toISOString() });
+  await loadQueue();
+  if (pending.some((a) => a.conflict)) {
+    toast.warning(
+      "Saved on this device, but held back until the sync conflict on this process is applied or discarded on Production Status"
+    );
+  } else {
+    toast.info("Saved on this device, it will sync once you are back online");
+  }
+  return undefined;
+};
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+}
+
+let isReplaying = false;
+
+// Replays queued changes process by process. A process edited by someone else
+// since the operator last saw it is flagged as a conflict rather than
+// overwritten, unless `force` is set; without it, a process that already has a
+// conflict is skipped whole so its later changes are not sent out of order. Each change that goes through moves the
+// base of the ones after it to the server's new `updatedAt`, so a replay cut
+// short does not leave them looking like conflicts.
+const replayQueue = async (
+  fetchProcess: (id: string) => Promise<ProductionProcess | undefined>,
+  send: (action: QueuedAction) => Promise<Partial<ProcessResponse>>,
+  force: boolean
+): Promise<ReplayResult> => {
+  const result: ReplayResult = { synced: 0, conflicts: 0 };
+  if (isReplaying) return result;
+  isReplaying = true;
+
+  try {
+    await loadQueue();
+    const byProcess = new Map<string, QueuedAction[]>();
+    queue.forEach((a) =>
+      byProcess.set(a.process_id, [...(byProcess.get(a.process_id) || []), a])
+    );
+
+    for (const [processId, actions] of Array.from(byProcess)) {
+      if (!force && actions.some((a) => a.conflict)) continue;
+      const base = actions[0].base_updated_at;
+      if (!force && base) {
+        const current = await fetchProcess(processId);
+        if (current?.updatedAt && current.updatedAt !== base) {
+          await Promise.all(
+            actions.map((a) => saveAction({ ...a, conflict: true }))
+          );
+          result.conflicts += actions.length;
+          continue;
+        }
+      }
+
+      for (let i = 0; i < actions.length; i++) {
+        let response: Partial<ProcessResponse>;
+        try {
+          response = await send(actions[i]);
+        } catch (error: any) {
+          if (isNetworkError(error)) return result;
+          // Later changes built on the refused one, so hold them back too
+          const refused = actions.slice(i);
+          await Promise.all(
+            refused.map((a, index) =>
+              saveAction({
+                ...a,
+                conflict: true,
+                error: index === 0 ? error?.message : a.error,
+              })
+            )
+          );
+          result.conflicts += refused.length;
+          break;
+        }
+        await removeAction(actions[i].id as number);
+        result.synced += 1;
+
+        if (i === actions.length - 1) continue;
+        const updatedAt =
+          response?.production_process?.updatedAt ||
+          (await fetchProcess(processId).catch(() => undefined))?.updatedAt;
+        if (!updatedAt) continue;
+        for (let j = i + 1; j < actions.length; j++) {
+          actions[j] = { ...actions[j], base_updated_at: updatedAt };
+          await saveAction(actions[j]);
+        }
+      }
+    }
+    return result;
+  } finally {
+    isReplaying = false;
+    await loadQueue();
+  }
+};
+
+export const useOfflineQueue = () => {
+  const [entries, setEntries] = useState<QueuedAction[]>(queue);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+
+  useEffect(() => {
+    listeners.add(setEntries);
+    loadQueue().catch((error) =>
+      toast.error(
+        `Could not read offline changes: ${error?.message || "unknown error"}`
+      )
+    );
+
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener("online", updateOnline);
+    window.addEventListener("offline", updateOnline);
+    return () => {
+      listeners.delete(setEntries);
+      window.removeEventListener("online", updateOnline);
+      window.removeEventListener("offline", updateOnline);
+    };
+  }, []);
+
+  return { entries, isOnline };
+};
+
+// Replays the queue whenever the connection comes back. Mount it once on the
+// page operators work from.
+export const useOfflineSync = (onSynced?: () => void) => {
+  const [startProduction] = useStartProductionMutation();
+  const [pauseProcess] = usePauseProcessMutation();
+  const [updateProcess] = useUpdateProcessMutation();
+  const [updateProcessStatus] = useUpdateProcessStatusMutation();
+  const [fetchProcessDetails] = useLazyProcessDetailsQuery();
+  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  const sync = useCallback(
+    async (force = false) => {
+      try {
+        setIsSyncing(true);
+        const { synced, conflicts } = await replayQueue(
+          async (id) =>
+            (await fetchProcessDetails(id).unwrap()).production_process,
+          (action) => {
+            if (action.kind === "start") {
+              return startProduction(action.process_id).unwrap();
+            }
+            if (action.kind === "pause") {
+              return pauseProcess(action.process_id).unwrap();
+            }
+            if (action.kind === "status") {
+              return updateProcessStatus(action.payload).unwrap();
+            }
+            return updateProcess(action.payload).unwrap();
+          },
+          force
+        );
+        if (synced > 0) {
+          toast.success(`${synced} offline change(s) synced`);
+          onSyncedRef.current?.();
+        }
+        if (conflicts > 0) {
+          toast.warning(
+            `${conflicts} offline change(s) conflict with newer updates, review them before syncing`
+          );
+        }
+      } catch (error: any) {
+        toast.error(error?.message || "Could not sync offline changes");
+      } finally {
+        setIsSyncing(false);
+      }
+    },
+    [
+      fetchProcessDetails,
+      pauseProcess,
+      startProduction,
+      updateProcess,
+      updateProcessStatus,
+    ]
+  );
+
+  useEffect(() => {
+    const syncOnReconnect = () => sync();
+    window.addEventListener("online", syncOnReconnect);
+    if (navigator.onLine) sync();
+    return () => window.removeEventListener("online", syncOnReconnect);
+  }, [sync]);
+
+  return { sync, isSyncing };
+};
@@ -0,0 +1,117 @@
+export const packageTypes = ["Carton", "Pallet"];
+
+export const packageStatuses = ["Packed", "Dispatched"];
+
+// Process statuses after which the finished goods have reached inventory
+const packableProcessStatuses = [
+  "moved to inventory",
+  "allocated finish goods",
+  "received",
+  "dispatched",
+];
+
+const getId = (value: any) => value?._id || value;
+
+export const isPackableProcess = (process: any) =>
+  packableProcessStatuses.includes(String(process?.status || "").toLowerCase());
+
+// Processes whose BOM was made for the sale, else any process producing the
+// line's product
+export const getProducedQtyForLine = (
+  sale: any,
+  productId: string,
+  processes: any[]
+) => {
+  const producing = processes.filter(
+    (process: any) =>
+      isPackableProcess(process) &&
+      getId(process?.finished_good?.item) === productId
+  );
+  const linked = producing.filter(
+    (process: any) => getId(process?.bom?.sale_id) === sale?._id
+  );
+  return (linked.length ? linked : producing).reduce(
+    (sum: number, process: any) =>
+      sum + (+process?.finished_good?.produced_quantity || 0),
+    0
+  );
+};
+
+export const getSalePackages = (saleId: string, packages: any[]) =>
+  packages.filter((pkg: any) => getId(pkg?.sales_order) === saleId);
+
+export const getLinePackages = (salePackages: any[], productId: string) =>
+  salePackages.filter((pkg: any) => getId(pkg?.product_id) === productId);
+
+// Cartons carry the units; a pallet only groups cartons
+export const getPackedQty = (packages: any[]) =>
+  packages
+    .filter((pkg: any) => pkg?.type === "Carton")
+    .reduce((sum: number, pkg: any) => sum + (+pkg?.quantity || 0), 0);
+
+export const getPackageQty = (pkg: any, packages: any[]) =>
+  pkg?.type === "Pallet"
+    ? getPackedQty(
+        packages.filter((carton: any) => getId(carton?.pallet) === pkg?._id)
+      )
+    : +pkg?.quantity || 0;
+
+// What can go on a truck: pallets plus cartons that are not on a pallet
+export const getShippableUnits = (packages: any[]) =>
+  packages.filter(
+    (pkg: any) =>
+      pkg?.status !== "Dispatched" &&
+      (pkg?.type === "Pallet" || !getId(pkg?.pallet))
+  );
+
+export const getPackageCode = (
+  type: string,
+  orderId: string,
+  sequence: number
+) =>
+  `${type === "Pallet" ? "PLT" : "CTN"}-${orderId || "NA"}-${String(
+    sequence
+  ).padStart(3, "0")}`;
+
+// Code 128 bar/space widths, indexed by symbol value
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213",
+  "122312", "132212", "221213", "221312", "231212", "112232", "122132",
+  "122231", "113222", "123122", "123221", "223211", "221132", "221231",
+  "213212", "223112", "312131", "311222", "321122", "321221", "312212",
+  "322112", "322211", "212123", "212321", "232121", "111323", "131123",
+  "131321", "112313", "132113", "132311", "211313", "231113", "231311",
+  "112133", "112331", "132131", "113123", "113321", "133121", "313121",
+  "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114",
+  "413111", "241112", "134111", "111242", "121142", "121241", "114212",
+  "124112", "124211", "411212", "421112", "421211", "212141", "214121",
+  "412121", "111143", "111341", "131141", "114113", "114311", "411113",
+  "411311", "113141", "114131", "311141", "411131", "211412", "211214",
+  "211232", "2331112",
+];
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+// Encodes printable ASCII as Code 128 set B, returning one entry per module
+// (true for a bar)
+export const encodeCode128 = (text: string): boolean[] => {
+  const values = Array.from(text)
+    .map((char) => char.charCodeAt(0) - 32)
+    .filter((value) => value >= 0 && value < 95);
+  const checksum =
+    values.reduce(
+      (sum, value, index) => sum + value * (index + 1),
+      CODE128_START_B
+    ) % 103;
+
+  const modules: boolean[] = [];
+  [CODE128_START_B, ...values, checksum, CODE128_STOP].forEach((symbol) => {
+    Array.from(CODE128_PATTERNS[symbol]).forEach((width, index) => {
+      for (let i = 0; i < +width; i++) modules.push(index % 2 === 0);
+    });
+  });
+  return modules;
+};
@@ -0,0 +1,94 @@
+import { useCallback } from "react";
+import { useSelector } from "react-redux";
+
+export type PermissionAction =
+  | "view"
+  | "create"
+  | "update"
+  | "delete"
+  | "approve"
+  | "export";
+
+export type ModulePermissions = { [module: string]: PermissionAction[] };
+
+export const permissionActions: { value: PermissionAction; label: string }[] =
+  [
+    { value: "view", label: "View" },
+    { value: "create", label: "Create" },
+    { value: "update", label: "Update" },
+    { value: "delete", label: "Delete" },
+    { value: "approve", label: "Approve" },
+    { value: "export", label: "Export" },
+  ];
+
+export const allPermissionActions = permissionActions.map((a) => a.value);
+
+// Module keys are the strings stored in a role's `permissions` and checked
+// against `allowedroutes`
+export const permissionModules = [
+  { value: "inventory", label: "Inventory" },
+  { value: "direct", label: "Direct" },
+  { value: "store", label: "Store" },
+  { value: "approval", label: "Approval" },
+  { value: "agent", label: "Agent" },
+  { value: "production", label: "Production" },
+  { value: "sale & purchase", label: "Sale & Purchase" },
+  { value: "parties", label: "Parties" },
+  { value: "sales", label: "Sales" },
+  { value: "task", label: "Task" },
+  { value: "bom", label: "Bom" },
+  { value: "merchant", label: "Merchant" },
+  { value: "dispatch", label: "Dispatch" },
+  { value: "procurement", label: "Procurement" },
+  { value: "packaging", label: "Packaging" },
+  { value: "accounts", label: "Accounts" },
+  { value: "employee", label: "Employees" },
+  { value: "resources", label: "Resources" },
+  { value: "maintenance", label: "Maintenance" },
+  { value: "integration", label: "Integrations" },
+  { value: "audit-log", label: "Audit Log" },
+];
+
+// Modules without an entry get every action, matching how roles saved before
+// action-level permissions behave
+export const withDefaultActions = (
+  modules: string[],
+  actions: ModulePermissions = {}
+) =>
+  modules.reduce((acc: ModulePermissions, module) => {
+    acc[module] = actions[module] || allPermissionActions;
+    return acc;
+  }, {});
+
+export const getPermissionModuleLabel = (module: string) =>
+  permissionModules.find((m) => m.value === module)?.label ||
+  module.charAt(0).toUpperCase() + module.slice(1);
+
+interface PermissionAuth {
+  isSuper?: boolean;
+  allowedroutes?: string[];
+  permissions?: ModulePermissions;
+}
+
+// A module without an entry in `permissions` allows every action, see above
+export const can = (
+  auth: PermissionAuth | undefined,
+  module: string,
+  action: PermissionAction = "view"
+) => {
+  if (!auth) return false;
+  if (auth.isSuper) return true;
+  if (!(auth.allowedroutes || []).includes(module)) return false;
+
+  const actions = auth.permissions?.[module];
+  return !actions || action === "view" || actions.includes(action);
+};
+
+export const useCan = () => {
+  const auth = useSelector((state: any) => state.auth);
+  return useCallback(
+    (module: string, action: PermissionAction = "view") =>
+      can(auth, module, action),
+    [auth]
+  );
+};
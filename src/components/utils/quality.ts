@@ -0,0 +1,35 @@
+export const inspectionStages = [
+  { value: "incoming", label: "Incoming (Purchase Order)" },
+  { value: "in-process", label: "In-Process (Production)" },
+  { value: "final", label: "Final (Before Dispatch)" },
+];
+
+export const ncrDispositions = [
+  "Rework",
+  "Scrap",
+  "Return to Supplier",
+  "Use As Is",
+];
+
+export const ncrStatuses = ["Open", "Under Review", "Closed"];
+
+export const getStageLabel = (stage: string) =>
+  inspectionStages.find((s) => s.value === stage)?.label || stage;
+
+export const getInspectionResult = (inspection: any) => {
+  if (+inspection?.rejected_qty > 0) return "Fail";
+  if (+inspection?.rework_qty > 0) return "Rework";
+  return "Pass";
+};
+
+// Picks the inspection plan that applies to a product at a given stage
+export const findInspectionPlan = (
+  plans: any[],
+  productId: string | undefined,
+  stage: string
+) =>
+  plans.find(
+    (plan: any) =>
+      (plan?.product?._id || plan?.product) === productId &&
+      (plan?.stages || []).includes(stage)
+  );
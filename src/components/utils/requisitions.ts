@@ -0,0 +1,142 @@
+import { GoodsReceipt } from "../../redux/api/types";
+import { getReceiptLines } from "./goodsReceipts";
+
+export const requisitionStatuses = [
+  "Pending Approval",
+  "Approved",
+  "Rejected",
+  "Converted",
+];
+
+export const UNASSIGNED_SUPPLIER = "Unassigned";
+
+export interface RequisitionLine {
+  item?: string;
+  item_name: string;
+  quantity: number;
+  uom?: string;
+  estimated_price?: number;
+  preferred_supplier?: string;
+  bom_name?: string;
+  source: "shortage" | "manual";
+  converted?: boolean;
+  // The PO the line was converted into
+  purchase_order?: string;
+}
+
+export interface ShortageCoverage {
+  requisitionQty: number;
+  purchaseOrderQty: number;
+  isCovered: boolean;
+  references: string[];
+}
+
+// bom/inventory-shortages has returned both naming schemes over time
+export const normalizeShortage = (shortage: any) => ({
+  item: shortage?.item?._id || shortage?.item || shortage?.material_id,
+  item_name: shortage?.item_name || shortage?.material_name || "",
+  bom_name: shortage?.bom_name,
+  uom: shortage?.uom,
+  required_qty: +(shortage?.required_qty ?? shortage?.total_required ?? 0),
+  available_qty: +(
+    shortage?.available_qty ??
+    shortage?.available_stock ??
+    shortage?.current_stock ??
+    0
+  ),
+  shortage_qty: +(shortage?.shortage_qty ?? shortage?.shortage_quantity ?? 0),
+  price: +(shortage?.current_price || 0),
+});
+
+const sameItem = (
+  a: { id?: string; name?: string },
+  b: { id?: string; name?: string }
+) => {
+  if (a.id && b.id) return a.id === b.id;
+  return (
+    !!a.name &&
+    a.name.trim().toLowerCase() === (b.name || "").trim().toLowerCase()
+  );
+};
+
+export const isOpenPurchaseOrder = (po: any) =>
+  !["Received", "Closed", "Cancelled"].includes(po?.status);
+
+// Per PO line, what is still to arrive. A partially received PO only covers
+// what has not been accepted on its posted receipts yet.
+const getOutstandingQuantities = (
+  po: any,
+  receipts: GoodsReceipt[]
+): number[] => {
+  if (po?.status !== "Partially Received") {
+    return (po?.items || []).map((item: any) => +item.quantity || 0);
+  }
+  const poReceipts = receipts.filter(
+    (receipt) =>
+      (typeof receipt.purchase_order === "string"
+        ? receipt.purchase_order
+        : receipt.purchase_order?._id) === po._id
+  );
+  return getReceiptLines(po, poReceipts).map((line) => line.pending_qty);
+};
+
+export const getShortageCoverage = (
+  shortage: ReturnType<typeof normalizeShortage>,
+  requisitions: any[],
+  purchaseOrders: any[],
+  receipts: GoodsReceipt[]
+): ShortageCoverage => {
+  const target = { id: shortage.item, name: shortage.item_name };
+  const references: string[] = [];
+
+  let requisitionQty = 0;
+  requisitions
+    .filter((r: any) => ["Pending Approval", "Approved"].includes(r?.status))
+    .forEach((requisition: any) => {
+      (requisition?.lines || [])
+        .filter(
+          (line: any) =>
+            !line?.converted &&
+            sameItem({ id: line?.item, name: line?.item_name }, target)
+        )
+        .forEach((line: any) => {
+          requisitionQty += +line.quantity || 0;
+          references.push(requisition.requisition_id || "Requisition");
+        });
+    });
+
+  let purchaseOrderQty = 0;
+  purchaseOrders.filter(isOpenPurchaseOrder).forEach((po: any) => {
+    const outstanding = getOutstandingQuantities(po, receipts);
+    (po?.items || []).forEach((item: any, index: number) => {
+      if (!sameItem({ id: item?.productId, name: item?.itemName }, target)) {
+        return;
+      }
+      if (!outstanding[index]) return;
+      purchaseOrderQty += outstanding[index];
+      references.push(po.poOrder || "PO");
+    });
+  });
+
+  return {
+    requisitionQty,
+    purchaseOrderQty,
+    isCovered: requisitionQty + purchaseOrderQty >= shortage.shortage_qty,
+    references: Array.from(new Set(references)),
+  };
+};
+
+// Each supplier gets its own PO when a requisition is converted
+export const groupLinesBySupplier = (requisition: any) => {
+  const groups: { [supplier: string]: { line: any; index: number }[] } = {};
+  (requisition?.lines || []).forEach((line: any, index: number) => {
+    if (line?.converted) return;
+    const supplier = line?.preferred_supplier || UNASSIGNED_SUPPLIER;
+    groups[supplier] = groups[supplier] || [];
+    groups[supplier].push({ line, index });
+  });
+  return Object.keys(groups).map((supplier) => ({
+    supplier,
+    lines: groups[supplier],
+  }));
+};
@@ -0,0 +1,88 @@
+export const GST_RATES = [18, 12, 5];
+
+export interface SaleLine {
+  product_id: string;
+  name?: string;
+  uom?: string;
+  quantity: number;
+  price: number;
+  GST: number;
+  delivery_date?: string;
+}
+
+export interface SaleTotals {
+  quantity: number;
+  subtotal: number;
+  gst: number;
+  total: number;
+}
+
+const getId = (value: any): string =>
+  typeof value === "string" ? value : value?._id || "";
+
+// Orders created before line items carry a single product in
+// product_id[0]/product_qty/price/GST, which is read as a one-line order
+export const getSaleItems = (sale: any): SaleLine[] => {
+  if (sale?.items?.length > 0) {
+    return sale.items.map((item: any) => ({
+      product_id: getId(item?.product_id),
+      name: item?.product_id?.name || item?.name,
+      uom: item?.uom || item?.product_id?.uom,
+      quantity: +item?.quantity || 0,
+      price: +item?.price || 0,
+      GST: +(item?.GST ?? sale?.GST) || 0,
+      delivery_date: item?.delivery_date,
+    }));
+  }
+
+  const product = Array.isArray(sale?.product_id)
+    ? sale.product_id[0]
+    : sale?.product_id;
+  if (!product) return [];
+  return [
+    {
+      product_id: getId(product),
+      name: product?.name,
+      uom: sale?.uom || product?.uom,
+      quantity: +sale?.product_qty || 0,
+      price: +sale?.price || 0,
+      GST: +sale?.GST || 0,
+      delivery_date: sale?.delivery_date,
+    },
+  ];
+};
+
+// The line of the order for a product, e.g. the one a dispatch ships
+export const findSaleLine = (sale: any, product: any): SaleLine | undefined =>
+  getSaleItems(sale).find((line) => line.product_id === getId(product));
+
+export const getLineSubtotal = (line: SaleLine) =>
+  (+line.price || 0) * (+line.quantity || 0);
+
+export const getLineGst = (line: SaleLine) =>
+  (getLineSubtotal(line) * (+line.GST || 0)) / 100;
+
+export const getLineTotal = (line: SaleLine) =>
+  getLineSubtotal(line) + getLineGst(line);
+
+export const getSaleTotals = (items: SaleLine[]): SaleTotals =>
+  items.reduce(
+    (totals, line) => ({
+      quantity: totals.quantity + (+line.quantity || 0),
+      subtotal: totals.subtotal + getLineSubtotal(line),
+      gst: totals.gst + getLineGst(line),
+      total: totals.total + getLineTotal(line),
+    }),
+    { quantity: 0, subtotal: 0, gst: 0, total: 0 }
+  );
+
+export const formatDeliveryDate = (date?: string) =>
+  date ? new Date(date).toLocaleDateString() : "N/A";
+
+// One line per product, e.g. "Box x 100 pcs, Lid x 100 pcs"
+export const formatSaleLines = (sale: any) =>
+  getSaleItems(sale)
+    .map((line) =>
+      `${line.name || "N/A"} x ${line.quantity} ${line.uom || ""}`.trim()
+    )
+    .join(", ") || "N/A";
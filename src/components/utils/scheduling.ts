@@ -0,0 +1,60 @@
+export interface ScheduledProcess {
+  _id: string;
+  resource?: any;
+  planned_start?: string;
+  planned_end?: string;
+  [key: string]: any;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+export const DEFAULT_PROCESS_DURATION = 4 * HOUR;
+
+export const getResourceId = (process: ScheduledProcess): string | undefined =>
+  typeof process?.resource === "string"
+    ? process.resource
+    : process?.resource?._id;
+
+export const isScheduled = (process: ScheduledProcess): boolean =>
+  !!(getResourceId(process) && process.planned_start && process.planned_end);
+
+// Rounds a timestamp to the nearest step (defaults to 30 minutes)
+export const snapTime = (time: number, step: number = HOUR / 2): number =>
+  Math.round(time / step) * step;
+
+// Returns the ids of every scheduled process whose window overlaps another
+// process on the same resource
+export const findOverlaps = (processes: ScheduledProcess[]): Set<string> => {
+  const overlapping = new Set<string>();
+  const lanes: { [resourceId: string]: ScheduledProcess[] } = {};
+
+  processes.filter(isScheduled).forEach((process) => {
+    const resourceId = getResourceId(process) as string;
+    lanes[resourceId] = [...(lanes[resourceId] || []), process];
+  });
+
+  Object.values(lanes).forEach((lane) => {
+    const sorted = [...lane].sort(
+      (a, b) =>
+        new Date(a.planned_start as string).getTime() -
+        new Date(b.planned_start as string).getTime()
+    );
+    let latestEnd = 0;
+    let latestProcess: ScheduledProcess | undefined;
+
+    sorted.forEach((process) => {
+      const start = new Date(process.planned_start as string).getTime();
+      const end = new Date(process.planned_end as string).getTime();
+      if (latestProcess && start < latestEnd) {
+        overlapping.add(process._id);
+        overlapping.add(latestProcess._id);
+      }
+      if (end > latestEnd) {
+        latestEnd = end;
+        latestProcess = process;
+      }
+    });
+  });
+
+  return overlapping;
+};
@@ -0,0 +1,81 @@
+import { useEffect, useRef } from "react";
+import io, { Socket } from "socket.io-client";
+import { AppNotification } from "../../redux/api/types";
+
+export type RecordAction = "created" | "updated" | "deleted";
+
+export interface RecordChange {
+  action: RecordAction;
+  _id: string;
+  // Name of the colleague who made the change, when the backend sends it
+  by?: string;
+  [key: string]: any;
+}
+
+// Events the backend broadcasts, keyed by event name
+export interface SocketEvents {
+  saleUpdate: RecordChange;
+  bomUpdate: RecordChange;
+  productionProcessUpdate: RecordChange;
+  dispatchUpdate: RecordChange;
+  approvalUpdate: RecordChange;
+  machineStatusUpdate: any;
+  controlDataUpdate: any;
+  notification: AppNotification;
+}
+
+export type SocketEvent = keyof SocketEvents;
+
+const socketUrl =
+  process.env.REACT_APP_SOCKET_URL ||
+  (process.env.REACT_APP_BACKEND_URL || "").replace(/\/api\/?$/, "") ||
+  "http://localhost:8085";
+
+let socket: Socket | null = null;
+
+// The whole app shares one connection. Pages may subscribe before Layout has
+// connected it, so the client is created lazily and only connected on login.
+export const getSocket = (): Socket => {
+  if (!socket) {
+    socket = io(socketUrl, { autoConnect: false, withCredentials: true });
+  }
+  return socket;
+};
+
+export const connectSocket = (token: string): Socket => {
+  const client = getSocket();
+  client.io.opts.extraHeaders = { Authorization: `Bearer ${token}` };
+  client.disconnect().connect();
+  return client;
+};
+
+export const useSocketEvent = <E extends SocketEvent>(
+  event: E,
+  handler: (payload: SocketEvents[E]) => void
+) => {
+  // Keeps the subscription stable while still calling the latest handler
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    const client = getSocket();
+    const listener = (payload: SocketEvents[E]) => handlerRef.current(payload);
+    client.on(event as string, listener);
+    return () => {
+      client.off(event as string, listener);
+    };
+  }, [event]);
+};
+
+// Rooms are dropped by the server on disconnect, so join again on reconnect
+export const useSocketRoom = (joinEvent: string) => {
+  useEffect(() => {
+    const client = getSocket();
+    const join = () => client.emit(joinEvent);
+    if (client.connected) join();
+    client.on("connect", join);
+    return () => {
+      client.off("connect", join);
+    };
+  }, [joinEvent]);
+};
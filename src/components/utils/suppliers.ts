@@ -0,0 +1,205 @@
+export interface PricePoint {
+  poOrder: string;
+  date: string;
+  unitPrice: number;
+  quantity: number;
+}
+
+export interface MaterialPriceHistory {
+  key: string;
+  itemName: string;
+  uom?: string;
+  history: PricePoint[];
+}
+
+export interface SupplierScorecard {
+  supplier: any;
+  orders: any[];
+  spend: number;
+  onTimeRate: number | null;
+  rejectionRate: number | null;
+  priceIndex: number | null;
+  score: number | null;
+}
+
+// Weight of each metric in the overall score, re-balanced when a metric
+// has no data yet for a supplier
+const SCORE_WEIGHTS = { delivery: 0.4, quality: 0.4, price: 0.2 };
+
+const normalize = (value: any) => (value || "").toString().trim().toLowerCase();
+
+const getMaterialKey = (item: any) => item?.productId || normalize(item?.itemName);
+
+export const getOrderValue = (po: any) =>
+  (po?.items || []).reduce(
+    (sum: number, item: any) =>
+      sum + (+item?.totalPrice || +item?.quantity * +item?.unitPrice || 0),
+    0
+  );
+
+// POs only carry the supplier's code and name, not a reference to the party
+export const matchesSupplier = (po: any, supplier: any) => {
+  if (po?.supplierCode && supplier?.supplierCode) {
+    return po.supplierCode === supplier.supplierCode;
+  }
+  const poName = normalize(po?.supplierName);
+  return (
+    !!poName &&
+    (poName === normalize(supplier?.supplierName) ||
+      poName === normalize(supplier?.companyName))
+  );
+};
+
+const getIncomingInspections = (po: any, inspections: any[]) =>
+  inspections.filter(
+    (inspection: any) =>
+      inspection?.stage === "incoming" &&
+      (inspection?.purchase_order?._id || inspection?.purchase_order) === po._id
+  );
+
+// Material is inspected when it arrives, so the first incoming inspection
+// marks the receipt of a PO
+export const getReceiptDate = (po: any, inspections: any[]) => {
+  const dates = getIncomingInspections(po, inspections)
+    .map((inspection: any) => new Date(inspection.createdAt).getTime())
+    .filter((time: number) => !isNaN(time));
+  if (po?.receivedDate) dates.push(new Date(po.receivedDate).getTime());
+  return dates.length ? new Date(Math.min(...dates)) : null;
+};
+
+export const isDeliveredOnTime = (po: any, inspections: any[]) => {
+  const receivedAt = getReceiptDate(po, inspections);
+  if (!po?.expectedDeliveryDate || !receivedAt) return null;
+  const dueBy = new Date(po.expectedDeliveryDate);
+  dueBy.setHours(23, 59, 59, 999);
+  return receivedAt.getTime() <= dueBy.getTime();
+};
+
+export const getPriceHistory = (orders: any[]): MaterialPriceHistory[] => {
+  const materials: { [key: string]: MaterialPriceHistory } = {};
+  orders.forEach((po: any) => {
+    (po?.items || []).forEach((item: any) => {
+      const key = getMaterialKey(item);
+      if (!key) return;
+      if (!materials[key]) {
+        materials[key] = {
+          key,
+          itemName: item.itemName,
+          uom: item.uom,
+          history: [],
+        };
+      }
+      materials[key].history.push({
+        poOrder: po.poOrder,
+        date: po.date || po.createdAt,
+        unitPrice: +item.unitPrice || 0,
+        quantity: +item.quantity || 0,
+      });
+    });
+  });
+  return Object.values(materials).map((material) => ({
+    ...material,
+    history: material.history.sort(
+      (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
+    ),
+  }));
+};
+
+const getAveragePrices = (purchaseOrders: any[]) => {
+  const totals: { [key: string]: { sum: number; count: number } } = {};
+  purchaseOrders.forEach((po: any) =>
+    (po?.items || []).forEach((item: any) => {
+      const key = getMaterialKey(item);
+      if (!key || !(+item?.unitPrice > 0)) return;
+      totals[key] = totals[key] || { sum: 0, count: 0 };
+      totals[key].sum += +item.unitPrice;
+      totals[key].count += 1;
+    })
+  );
+  const averages: { [key: string]: number } = {};
+  Object.keys(totals).forEach((key) => {
+    averages[key] = totals[key].sum / totals[key].count;
+  });
+  return averages;
+};
+
+const clampScore = (value: number) => Math.max(0, Math.min(100, value));
+
+export const calculateSupplierScorecards = (
+  suppliers: any[],
+  purchaseOrders: any[],
+  inspections: any[]
+): SupplierScorecard[] => {
+  const averagePrices = getAveragePrices(purchaseOrders);
+
+  return suppliers.map((supplier: any) => {
+    const orders = purchaseOrders.filter((po: any) =>
+      matchesSupplier(po, supplier)
+    );
+
+    const deliveries = orders
+      .map((po: any) => isDeliveredOnTime(po, inspections))
+      .filter((onTime): onTime is boolean => onTime !== null);
+    const onTimeRate = deliveries.length
+      ? (deliveries.filter(Boolean).length / deliveries.length) * 100
+      : null;
+
+    const receipts = orders.flatMap((po: any) =>
+      getIncomingInspections(po, inspections)
+    );
+    const inspected = receipts.reduce(
+      (sum: number, inspection: any) => sum + (+inspection?.inspected_qty || 0),
+      0
+    );
+    const rejected = receipts.reduce(
+      (sum: number, inspection: any) => sum + (+inspection?.rejected_qty || 0),
+      0
+    );
+    const rejectionRate = inspected ? (rejected / inspected) * 100 : null;
+
+    // Ratio of this supplier's prices to the average paid across all suppliers
+    const ratios = orders.flatMap((po: any) =>
+      (po?.items || [])
+        .filter(
+          (item: any) =>
+            +item?.unitPrice > 0 && averagePrices[getMaterialKey(item)]
+        )
+        .map(
+          (item: any) => +item.unitPrice / averagePrices[getMaterialKey(item)]
+        )
+    );
+    const priceIndex = ratios.length
+      ? ratios.reduce((sum: number, ratio: number) => sum + ratio, 0) /
+        ratios.length
+      : null;
+
+    const metrics = [
+      { weight: SCORE_WEIGHTS.delivery, value: onTimeRate },
+      {
+        weight: SCORE_WEIGHTS.quality,
+        value: rejectionRate === null ? null : 100 - rejectionRate,
+      },
+      {
+        weight: SCORE_WEIGHTS.price,
+        value: priceIndex === null ? null : clampScore(100 * (2 - priceIndex)),
+      },
+    ].filter((metric) => metric.value !== null);
+    const totalWeight = metrics.reduce((sum, metric) => sum + metric.weight, 0);
+    const score = totalWeight
+      ? metrics.reduce(
+          (sum, metric) => sum + metric.weight * (metric.value as number),
+          0
+        ) / totalWeight
+      : null;
+
+    return {
+      supplier,
+      orders,
+      spend: orders.reduce((sum: number, po: any) => sum + getOrderValue(po), 0),
+      onTimeRate,
+      rejectionRate,
+      priceIndex,
+      score,
+    };
+  });
+};
@@ -0,0 +1,103 @@
+import * as XLSX from "xlsx";
+import moment from "moment";
+import { ExportFormat, ExportScope } from "../../redux/api/types";
+
+export type ExportValue = string | number | boolean | null | undefined;
+
+export interface ExportColumn {
+  // Field path on the record, also sent to the backend for background exports
+  id: string;
+  label: string;
+  value: (row: any) => ExportValue;
+}
+
+export type ExportRow = { [column: string]: ExportValue };
+
+// Lists with more matching rows than this are exported by the backend
+export const BACKGROUND_EXPORT_THRESHOLD = 5000;
+
+export const formatExportDate = (value?: string) =>
+  value ? moment(value).format("DD/MM/YYYY") : "";
+
+export const formatExportList = (value?: string | string[]) =>
+  Array.isArray(value) ? value.join(", ") : value;
+
+export const getPersonName = (person?: {
+  first_name?: string;
+  last_name?: string;
+}) =>
+  person
+    ? [person.first_name, person.last_name].filter(Boolean).join(" ")
+    : "";
+
+// Keeps the columns the user has not hidden, in the order they are shown
+export const getVisibleExportColumns = (
+  columns: ExportColumn[],
+  visibleIds: string[]
+) =>
+  visibleIds
+    .map((id) => columns.find((column) => column.id === id))
+    .filter((column): column is ExportColumn => !!column);
+
+// Nested objects become dotted columns, e.g. "party.company_name", and arrays
+// a comma separated list
+export const flattenRecord = (record: any, prefix = ""): ExportRow =>
+  Object.entries(record || {}).reduce((acc: ExportRow, [key, value]) => {
+    if (key === "__v") return acc;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value)) {
+      acc[path] = value
+        .map((item) =>
+          item && typeof item === "object"
+            ? item.name || item._id || JSON.stringify(item)
+            : item
+        )
+        .join(", ");
+    } else if (value && typeof value === "object") {
+      Object.assign(acc, flattenRecord(value, path));
+    } else {
+      acc[path] = value as ExportValue;
+    }
+    return acc;
+  }, {});
+
+// `hiddenFields` are left out of "all fields" exports, e.g. costs the user's
+// role may not see
+export const buildExportRows = (
+  rows: any[],
+  columns: ExportColumn[],
+  scope: ExportScope,
+  hiddenFields: string[] = []
+): ExportRow[] =>
+  scope === "all"
+    ? rows.map((row) => {
+        const record = flattenRecord(row);
+        Object.keys(record).forEach((key) => {
+          const isHidden = hiddenFields.some(
+            (field) => key === field || key.startsWith(`${field}.`)
+          );
+          if (isHidden) delete record[key];
+        });
+        return record;
+      })
+    : rows.map((row) =>
+        columns.reduce((acc: ExportRow, column) => {
+          acc[column.label] = column.value(row) ?? "";
+          return acc;
+        }, {})
+      );
+
+export const downloadExport = (
+  rows: ExportRow[],
+  fileName: string,
+  format: ExportFormat
+) => {
+  const worksheet = XLSX.utils.json_to_sheet(rows);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Data");
+
+  const currentDate = new Date().toISOString().split("T")[0];
+  XLSX.writeFile(workbook, `${fileName}_${currentDate}.${format}`, {
+    bookType: format,
+  });
+};
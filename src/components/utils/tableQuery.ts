@@ -0,0 +1,174 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { ListArgs, SortOrder } from "../../redux/api/types";
+
+export const pageSizeOptions = [10, 20, 50, 100];
+
+// Shape of react-table's `sortBy` state
+export type SortingRule = { id: string; desc?: boolean };
+
+interface TableQueryOptions {
+  defaultLimit?: number;
+  // Query params, besides the search box, sent to the backend as filters
+  filters?: string[];
+}
+
+type ParamChanges = { [key: string]: string | number | undefined };
+
+// Paging, sorting and filtering of a server-side list. Everything lives in the
+// URL query string so a filtered view can be shared or bookmarked, and
+// `params` is passed as-is to the list endpoint.
+export const useTableQuery = ({
+  defaultLimit = 10,
+  filters: filterKeys = [],
+}: TableQueryOptions = {}) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  const limit = Number(searchParams.get("limit")) || defaultLimit;
+  const sort = searchParams.get("sort") || undefined;
+  const order: SortOrder =
+    searchParams.get("order") === "desc" ? "desc" : "asc";
+  const search = searchParams.get("search") || "";
+
+  const filterString = filterKeys
+    .map((key) => `${key}=${searchParams.get(key) || ""}`)
+    .join("&");
+  const filters = useMemo(
+    () =>
+      Object.fromEntries(
+        new URLSearchParams(filterString).entries()
+      ) as { [key: string]: string },
+    [filterString]
+  );
+
+  // Any change other than the page itself starts again from the first page
+  const update = useCallback(
+    (changes: ParamChanges, keepPage = false) =>
+      setSearchParams(
+        (prev) => {
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === undefined || value === "") prev.delete(key);
+            else prev.set(key, String(value));
+          });
+          if (!keepPage) prev.delete("page");
+          return prev;
+        },
+        { replace: true }
+      ),
+    [setSearchParams]
+  );
+
+  const setPage = useCallback(
+    (value: number) => update({ page: value > 1 ? value : undefined }, true),
+    [update]
+  );
+  const setLimit = useCallback(
+    (value: number) =>
+      update({ limit: value === defaultLimit ? undefined : value }),
+    [update, defaultLimit]
+  );
+  const setSearch = useCallback(
+    (value: string) => update({ search: value.trim() }),
+    [update]
+  );
+  const setFilter = useCallback(
+    (key: string, value: string) => update({ [key]: value }),
+    [update]
+  );
+  const filterKeyList = filterKeys.join(",");
+  const clearFilters = useCallback(
+    () =>
+      update(
+        Object.fromEntries(
+          ["search", ...filterKeyList.split(",")]
+            .filter(Boolean)
+            .map((key) => [key, undefined])
+        )
+      ),
+    [update, filterKeyList]
+  );
+
+  const sortBy: SortingRule[] = useMemo(
+    () => (sort ? [{ id: sort, desc: order === "desc" }] : []),
+    [sort, order]
+  );
+  const setSortBy = useCallback(
+    (rules: SortingRule[]) => {
+      const next = rules[0];
+      const nextOrder = next?.desc ? "desc" : "asc";
+      if (next ? next.id === sort && nextOrder === order : !sort) return;
+      update({
+        sort: next?.id,
+        order: next?.desc ? "desc" : undefined,
+      });
+    },
+    [update, sort, order]
+  );
+
+  const params: ListArgs = useMemo(() => {
+    const args: ListArgs = { page, limit };
+    if (sort) {
+      args.sort = sort;
+      args.order = order;
+    }
+    if (search) args.search = search;
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) args[key] = value;
+    });
+    return args;
+  }, [page, limit, sort, order, search, filters]);
+
+  return {
+    page,
+    limit,
+    sort,
+    order,
+    search,
+    filters,
+    sortBy,
+    params,
+    setPage,
+    setLimit,
+    setSearch,
+    setFilter,
+    setSortBy,
+    clearFilters,
+  };
+};
+
+export type TableQuery = ReturnType<typeof useTableQuery>;
+
+// Keeps the search box responsive while only pushing the term to the URL, and
+// so to the backend, once the user stops typing
+export const useSearchInput = (
+  search: string,
+  setSearch: (value: string) => void,
+  delay = 400
+) => {
+  const [value, setValue] = useState<string>(search);
+  const setSearchRef = useRef(setSearch);
+  setSearchRef.current = setSearch;
+
+  // Follow outside changes, e.g. back navigation or clearing the filters
+  useEffect(
+    () => setValue((prev) => (prev.trim() === search ? prev : search)),
+    [search]
+  );
+
+  useEffect(() => {
+    if (value.trim() === search) return;
+    const timeout = setTimeout(() => setSearchRef.current(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, search, delay]);
+
+  return [value, setValue] as const;
+};
+
+// useTable options for rows that are already a single, sorted server page
+export const serverTableOptions = {
+  manualSortBy: true,
+  manualPagination: true,
+  autoResetSortBy: false,
+  autoResetPage: false,
+};
@@ -0,0 +1,154 @@
+import { CSSProperties, useCallback, useMemo, useState } from "react";
+import { ColumnLayout, TableView } from "../../redux/api/types";
+
+export interface TableColumn {
+  id: string;
+  label: string;
+  // Columns pinned to the left until the user changes the layout
+  pinned?: boolean;
+  // Columns left out of the default layout, e.g. rarely used details
+  hidden?: boolean;
+}
+
+export const DEFAULT_COLUMN_WIDTH = 160;
+export const MIN_COLUMN_WIDTH = 60;
+
+const getStorageKey = (table: string) => `table-layout:${table}`;
+
+export const getDefaultLayout = (columns: TableColumn[]): ColumnLayout => ({
+  order: columns.map((column) => column.id),
+  hidden: columns.filter((column) => column.hidden).map((column) => column.id),
+  pinned: columns.filter((column) => column.pinned).map((column) => column.id),
+  widths: {},
+});
+
+// Drops ids of columns that no longer exist and appends new columns at the
+// end, so layouts saved against an older column set still apply
+export const normalizeLayout = (
+  layout: Partial<ColumnLayout> | undefined,
+  columns: TableColumn[]
+): ColumnLayout => {
+  const defaults = getDefaultLayout(columns);
+  if (!layout) return defaults;
+
+  const ids = new Set(defaults.order);
+  const known = (list?: string[]) => (list || []).filter((id) => ids.has(id));
+  const order = known(layout.order);
+  defaults.order.forEach((id) => {
+    if (!order.includes(id)) order.push(id);
+  });
+
+  return {
+    order,
+    hidden: layout.hidden ? known(layout.hidden) : defaults.hidden,
+    pinned: layout.pinned ? known(layout.pinned) : defaults.pinned,
+    widths: layout.widths || {},
+  };
+};
+
+const readLayout = (table: string) => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(table));
+    return stored ? (JSON.parse(stored) as ColumnLayout) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const getViewCreatorId = (view: TableView) =>
+  typeof view.creator === "string" ? view.creator : view.creator?._id;
+
+// Column order, visibility, pinning and widths of a table. The working layout
+// is kept per browser; saved views store a copy of it on the backend.
+// `pinnedOffset` is the width of any sticky column, such as a selection
+// checkbox, that the table renders before the pinned ones.
+export const useColumnLayout = (
+  table: string,
+  columns: TableColumn[],
+  pinnedOffset = 0
+) => {
+  const [storedLayout, setStoredLayout] = useState<
+    Partial<ColumnLayout> | undefined
+  >(() => readLayout(table));
+
+  const layout = useMemo(
+    () => normalizeLayout(storedLayout, columns),
+    [storedLayout, columns]
+  );
+
+  const setLayout = useCallback(
+    (next: ColumnLayout | undefined) => {
+      setStoredLayout(next);
+      const key = getStorageKey(table);
+      if (next) localStorage.setItem(key, JSON.stringify(next));
+      else localStorage.removeItem(key);
+    },
+    [table]
+  );
+
+  // Pinned columns come first, in the order they appear in the layout
+  const visibleIds = useMemo(() => {
+    const shown = layout.order.filter((id) => !layout.hidden.includes(id));
+    return [
+      ...shown.filter((id) => layout.pinned.includes(id)),
+      ...shown.filter((id) => !layout.pinned.includes(id)),
+    ];
+  }, [layout]);
+
+  const getWidth = useCallback(
+    (id: string) => layout.widths[id] || DEFAULT_COLUMN_WIDTH,
+    [layout]
+  );
+
+  // Pinned columns stick to the left, one after the other
+  const getColumnStyle = useCallback(
+    (id: string, background: string): CSSProperties => {
+      const width = layout.widths[id];
+      const style: CSSProperties = width
+        ? { width, minWidth: width, maxWidth: width }
+        : {};
+      if (!layout.pinned.includes(id)) return style;
+
+      const left = visibleIds
+        .slice(0, visibleIds.indexOf(id))
+        .reduce((total, prev) => total + getWidth(prev), pinnedOffset);
+      const pinnedWidth = getWidth(id);
+      return {
+        ...style,
+        width: pinnedWidth,
+        minWidth: pinnedWidth,
+        maxWidth: pinnedWidth,
+        position: "sticky",
+        left,
+        zIndex: 2,
+        backgroundColor: background,
+      };
+    },
+    [layout, visibleIds, getWidth, pinnedOffset]
+  );
+
+  const resizeColumn = useCallback(
+    (id: string, width: number) =>
+      setLayout({
+        ...layout,
+        widths: {
+          ...layout.widths,
+          [id]: Math.max(MIN_COLUMN_WIDTH, Math.round(width)),
+        },
+      }),
+    [layout, setLayout]
+  );
+
+  return {
+    table,
+    columns,
+    layout,
+    visibleIds,
+    setLayout,
+    resetLayout: () => setLayout(undefined),
+    getColumnStyle,
+    resizeColumn,
+  };
+};
+
+export type ColumnLayoutState = ReturnType<typeof useColumnLayout>;
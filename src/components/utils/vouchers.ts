@@ -0,0 +1,230 @@
+export const voucherTypes = [
+  "Journal",
+  "Receipt",
+  "Payment",
+  "Contra",
+  "Sales",
+  "Purchase",
+];
+
+export const ledgerGroups = [
+  { name: "Cash-in-Hand", nature: "Assets" },
+  { name: "Bank Accounts", nature: "Assets" },
+  { name: "Sundry Debtors", nature: "Assets" },
+  { name: "Fixed Assets", nature: "Assets" },
+  { name: "Current Assets", nature: "Assets" },
+  { name: "Sundry Creditors", nature: "Liabilities" },
+  { name: "Duties & Taxes", nature: "Liabilities" },
+  { name: "Loans (Liability)", nature: "Liabilities" },
+  { name: "Capital Account", nature: "Liabilities" },
+  { name: "Sales Accounts", nature: "Income" },
+  { name: "Direct Incomes", nature: "Income" },
+  { name: "Indirect Incomes", nature: "Income" },
+  { name: "Purchase Accounts", nature: "Expenses" },
+  { name: "Direct Expenses", nature: "Expenses" },
+  { name: "Indirect Expenses", nature: "Expenses" },
+];
+
+// Ledgers the auto-generated vouchers post to, resolved by name
+export const CASH_LEDGER = "Cash";
+export const BANK_LEDGER = "Bank Account";
+export const SALES_LEDGER = "Sales Account";
+export const OUTPUT_GST_LEDGER = "Output GST";
+
+const cashGroups = ["Cash-in-Hand", "Bank Accounts"];
+
+export interface VoucherEntry {
+  ledger?: string;
+  ledger_name: string;
+  debit: number;
+  credit: number;
+}
+
+export const getLedgerName = (entry: any) =>
+  entry?.ledger?.name || entry?.ledger_name || "";
+
+export const getVoucherTotals = (entries: VoucherEntry[]) => {
+  const debit = entries.reduce((sum, entry) => sum + (+entry.debit || 0), 0);
+  const credit = entries.reduce((sum, entry) => sum + (+entry.credit || 0), 0);
+  // Paise rounding so 0.1 + 0.2 still balances against 0.3
+  const difference = Math.round((debit - credit) * 100) / 100;
+  return { debit, credit, difference };
+};
+
+const isCashLedger = (entry: VoucherEntry, ledgers: any[]) => {
+  const ledger = ledgers.find(
+    (l: any) => l._id === entry.ledger || l.name === entry.ledger_name
+  );
+  return cashGroups.includes(ledger?.group);
+};
+
+// Returns the first problem with the voucher, or null when it can be posted
+export const validateVoucher = (
+  voucherType: string,
+  entries: VoucherEntry[],
+  ledgers: any[]
+): string | null => {
+  if (entries.length < 2) return "A voucher needs at least two entries";
+  if (entries.some((entry) => !entry.ledger && !entry.ledger_name))
+    return "Please select a ledger for every entry";
+  if (entries.some((entry) => +entry.debit > 0 && +entry.credit > 0))
+    return "An entry can be either a debit or a credit, not both";
+  if (entries.some((entry) => !(+entry.debit > 0) && !(+entry.credit > 0)))
+    return "Every entry needs a debit or credit amount";
+
+  const { debit, difference } = getVoucherTotals(entries);
+  if (debit <= 0) return "Voucher amount must be greater than zero";
+  if (difference !== 0)
+    return `Debits and credits differ by ${Math.abs(difference).toFixed(2)}`;
+
+  const debits = entries.filter((entry) => +entry.debit > 0);
+  const credits = entries.filter((entry) => +entry.credit > 0);
+  if (
+    voucherType === "Contra" &&
+    entries.some((entry) => !isCashLedger(entry, ledgers))
+  )
+    return "Contra vouchers can only move money between cash and bank ledgers";
+  if (
+    voucherType === "Receipt" &&
+    !debits.some((entry) => isCashLedger(entry, ledgers))
+  )
+    return "A receipt must debit a cash or bank ledger";
+  if (
+    voucherType === "Payment" &&
+    !credits.some((entry) => isCashLedger(entry, ledgers))
+  )
+    return "A payment must credit a cash or bank ledger";
+  return null;
+};
+
+// Money in against a sales invoice is a receipt, money out against a purchase
+// invoice is a payment
+export const buildPaymentVoucher = ({
+  amount,
+  mode,
+  partyName,
+  reference,
+  paymentId,
+  isPurchase,
+}: {
+  amount: number;
+  mode?: string;
+  partyName: string;
+  reference?: string;
+  paymentId?: string;
+  isPurchase?: boolean;
+}) => {
+  const cashLedger = mode === "Cash" ? CASH_LEDGER : BANK_LEDGER;
+  return {
+    voucher_type: isPurchase ? "Payment" : "Receipt",
+    date: new Date().toISOString(),
+    entries: [
+      {
+        ledger_name: isPurchase ? partyName : cashLedger,
+        debit: amount,
+        credit: 0,
+      },
+      {
+        ledger_name: isPurchase ? cashLedger : partyName,
+        debit: 0,
+        credit: amount,
+      },
+    ],
+    narration: `${isPurchase ? "Paid" : "Received"} ${
+      mode ? `by ${mode} ` : ""
+    }${isPurchase ? "to" : "from"} ${partyName}${
+      reference ? ` against ${reference}` : ""
+    }`,
+    source: { type: "payment", id: paymentId },
+  };
+};
+
+export const buildSalesVoucher = ({
+  date,
+  invoiceNo,
+  partyName,
+  subtotal,
+  total,
+  invoiceId,
+}: {
+  date?: string;
+  invoiceNo: string;
+  partyName: string;
+  subtotal: number;
+  total: number;
+  invoiceId?: string;
+}) => {
+  const tax = Math.round((total - subtotal) * 100) / 100;
+  return {
+    voucher_type: "Sales",
+    date: date || new Date().toISOString(),
+    entries: [
+      { ledger_name: partyName, debit: total, credit: 0 },
+      { ledger_name: SALES_LEDGER, debit: 0, credit: subtotal },
+      ...(tax > 0
+        ? [{ ledger_name: OUTPUT_GST_LEDGER, debit: 0, credit: tax }]
+        : []),
+    ],
+    narration: `Sales invoice ${invoiceNo} to ${partyName}`,
+    source: { type: "invoice", id: invoiceId },
+  };
+};
+
+// Local YYYY-MM-DD, comparable with the value of a date input
+export const toDateKey = (date: string | Date) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(
+    2,
+    "0"
+  )}-${String(d.getDate()).padStart(2, "0")}`;
+};
+
+// Opening balance plus every posting up to and including the date
+export const getTrialBalance = (
+  vouchers: any[],
+  ledgers: any[],
+  asOn?: string
+) => {
+  const rows: {
+    [name: string]: { ledger_name: string; group: string; balance: number };
+  } = {};
+  const rowFor = (name: string) => {
+    if (!rows[name]) {
+      const ledger = ledgers.find((l: any) => l.name === name);
+      rows[name] = {
+        ledger_name: name,
+        group: ledger?.group || "Ungrouped",
+        balance: 0,
+      };
+    }
+    return rows[name];
+  };
+
+  ledgers.forEach((ledger: any) => {
+    const opening = +ledger.opening_balance || 0;
+    rowFor(ledger.name).balance +=
+      ledger.opening_type === "Cr" ? -opening : opening;
+  });
+
+  vouchers
+    .filter((voucher: any) => !asOn || toDateKey(voucher.date) <= asOn)
+    .forEach((voucher: any) => {
+      (voucher.entries || []).forEach((entry: any) => {
+        rowFor(getLedgerName(entry)).balance +=
+          (+entry.debit || 0) - (+entry.credit || 0);
+      });
+    });
+
+  return Object.values(rows)
+    .filter((row) => Math.abs(row.balance) > 0.005)
+    .map((row) => ({
+      ...row,
+      debit: row.balance > 0 ? row.balance : 0,
+      credit: row.balance < 0 ? -row.balance : 0,
+    }))
+    .sort(
+      (a, b) =>
+        a.group.localeCompare(b.group) ||
+        a.ledger_name.localeCompare(b.ledger_name)
+    );
+};
@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useCookies } from 'react-cookie';
 import { toast } from 'react-toastify';
+import {
+  useLazyFetchAccountantDashboardQuery,
+  useLazyFetchInvoicesQuery,
+  useLazyFetchPaymentQuery,
+  useLazyFetchProformaInvoicesQuery,
+} from '../redux/api/api';
 import { FileText, Receipt, CreditCard } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 
@@ -125,6 +131,10 @@ const AccountantDashboard: React.FC = () => {
   const [paymentData, setPaymentData] = useState<PaymentData[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'proforma' | 'tax' | 'payments'>('proforma');
+  const [fetchAccountantDashboard] = useLazyFetchAccountantDashboardQuery();
+  const [fetchProformaInvoices] = useLazyFetchProformaInvoicesQuery();
+  const [fetchInvoices] = useLazyFetchInvoicesQuery();
+  const [fetchPayments] = useLazyFetchPaymentQuery();
 
   // Fetch dashboard data
   useEffect(() => {
@@ -137,74 +147,31 @@ const AccountantDashboard: React.FC = () => {
           throw new Error('No authentication token found. Please login again.');
         }
 
-        const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-        
         // Fetch proforma invoices, tax invoices, and payments
-        const [proformaResponse, taxResponse, paymentResponse] = await Promise.all([
-          fetch(`${backendUrl}proforma-invoice/all`, {
-            method: 'GET',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`,
-            },
-          }),
-          fetch(`${backendUrl}invoice/all`, {
-            method: 'GET',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`,
-            },
-          }),
-          fetch(`${backendUrl}payment/all`, {
-            method: 'GET',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`,
-            },
-          })
-        ]);
-
-        if (!proformaResponse.ok || !taxResponse.ok || !paymentResponse.ok) {
-          if (proformaResponse.status === 401 || taxResponse.status === 401 || paymentResponse.status === 401) {
-            throw new Error('Authentication failed. Please login again.');
-          } else if (proformaResponse.status >= 500 || taxResponse.status >= 500 || paymentResponse.status >= 500) {
-            throw new Error('Server error. Please try again later.');
-          } else {
-            throw new Error(`HTTP error! status: ${proformaResponse.status || taxResponse.status || paymentResponse.status}`);
-          }
-        }
-
         const [proformaData, taxData, paymentData] = await Promise.all([
-          proformaResponse.json(),
-          taxResponse.json(),
-          paymentResponse.json()
+          fetchProformaInvoices({}).unwrap(),
+          fetchInvoices({}).unwrap(),
+          fetchPayments({}).unwrap(),
         ]);
 
-        if (proformaData.success && taxData.success && paymentData.success) {
-          setInvoiceData(proformaData.proforma_invoices || []);
-          setTaxInvoiceData(taxData.invoices || []);
-          setPaymentData(paymentData.payments || []);
-          
-          // Calculate dashboard stats from the data
-          const totalProformaInvoices = proformaData.proforma_invoices?.length || 0;
-          const totalTaxInvoices = taxData.invoices?.length || 0;
-          const totalPayments = paymentData.payments?.length || 0;
-          
-          const dashboardStats: DashboardData = {
-            proformaInvoice: { total: totalProformaInvoices, lastMonth: Math.max(0, totalProformaInvoices - 5) },
-            taxInvoice: { total: totalTaxInvoices, lastMonth: Math.max(0, totalTaxInvoices - 2) },
-            payments: { total: totalPayments, lastMonth: Math.max(0, totalPayments - 3) }
-          };
-          
-          setDashboardData(dashboardStats);
-        } else {
-          throw new Error('Failed to fetch data');
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch dashboard data';
+        setInvoiceData((proformaData.proforma_invoices || []) as InvoiceData[]);
+        setTaxInvoiceData((taxData.invoices || []) as InvoiceData[]);
+        setPaymentData((paymentData.payments || []) as PaymentData[]);
+        
+        // Calculate dashboard stats from the data
+        const totalProformaInvoices = proformaData.proforma_invoices?.length || 0;
+        const totalTaxInvoices = taxData.invoices?.length || 0;
+        const totalPayments = paymentData.payments?.length || 0;
+        
+        const dashboardStats: DashboardData = {
+          proformaInvoice: { total: totalProformaInvoices, lastMonth: Math.max(0, totalProformaInvoices - 5) },
+          taxInvoice: { total: totalTaxInvoices, lastMonth: Math.max(0, totalTaxInvoices - 2) },
+          payments: { total: totalPayments, lastMonth: Math.max(0, totalPayments - 3) }
+        };
+        
+        setDashboardData(dashboardStats);
+      } catch (err: any) {
+        const errorMessage = err?.data?.message || err?.message || 'Failed to fetch dashboard data';
         setError(errorMessage);
         toast.error(`Error: ${errorMessage}`);
       } finally {
@@ -213,7 +180,7 @@ const AccountantDashboard: React.FC = () => {
     };
 
     fetchDashboardData();
-  }, [cookies?.access_token]);
+  }, [cookies?.access_token, fetchProformaInvoices, fetchInvoices, fetchPayments]);
 
   // Fetch API data for KPI cards
   useEffect(() => {
@@ -224,30 +191,15 @@ const AccountantDashboard: React.FC = () => {
           return;
         }
 
-        const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-        
-        const response = await fetch(`${backendUrl}dashboard/accountant-dashboard`, {
-          method: 'GET',
-          credentials: 'include',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (response.ok) {
-          const data: AccountantDashboardAPI = await response.json();
-          if (data.success) {
-            setApiData(data);
-          }
-        }
+        const data = (await fetchAccountantDashboard({}).unwrap()) as AccountantDashboardAPI;
+        setApiData(data);
       } catch (error) {
         console.error('Error fetching KPI data:', error);
       }
     };
 
     fetchKPIData();
-  }, [cookies?.access_token]);
+  }, [cookies?.access_token, fetchAccountantDashboard]);
 
   const [error, setError] = useState<string | null>(null);
 
@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react';
-import { useCookies } from 'react-cookie';
 import {
   Box,
   Text,
@@ -47,15 +46,28 @@ import {
   Edit,
   Trash2
 } from 'lucide-react';
+import {
+  useLazyFetchDashboardQuery,
+  useLazyFetchDashboardStatsQuery,
+  useDeleteRoleMutation,
+  useLazyFetchDispatchChartQuery,
+  useLazyFetchFinanceChartQuery,
+  useLazyFetchInventoryRawMaterialsQuery,
+  useLazyFetchProcessQuery,
+  useLazyFetchResourcesQuery,
+  useLazyFetchRolesQuery,
+  useLazyFetchSalesChartQuery,
+  useUpdateRoleMutation,
+} from '../redux/api/api';
 import RoleModals from '../components/RoleModals';
 
 const Analytics: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState('monthly');
   const [salesPeriod, setSalesPeriod] = useState('Yearly');
   const [salesYear, setSalesYear] = useState(new Date().getFullYear());
-  const [salesData, setSalesData] = useState([]);
+  const [salesData, setSalesData] = useState<any[]>([]);
   const [isLoadingSales, setIsLoadingSales] = useState(false);
-  const [apiDispatchData, setApiDispatchData] = useState([]);
+  const [apiDispatchData, setApiDispatchData] = useState<any[]>([]);
   const [isLoadingDispatch, setIsLoadingDispatch] = useState(false);
   const [merchantChartData, setMerchantChartData] = useState<any>(null);
   const [isLoadingMerchant, setIsLoadingMerchant] = useState(false);
@@ -74,13 +86,23 @@ const Analytics: React.FC = () => {
   const [accountsYear, setAccountsYear] = useState(new Date().getFullYear());
   const [statsData, setStatsData] = useState<any>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(false);
-  const [cookies] = useCookies();
   const [inventoryPeriod, setInventoryPeriod] = useState('Weekly');
   const [productionPeriod, setProductionPeriod] = useState('Weekly');
   const [dispatchPeriod, setDispatchPeriod] = useState('Yearly');
   const [accountsPeriod, setAccountsPeriod] = useState('Weekly');
   const [merchantPeriod, setMerchantPeriod] = useState('Weekly');
   const toast = useToast();
+  const [fetchSalesChart] = useLazyFetchSalesChartQuery();
+  const [fetchDispatchChart] = useLazyFetchDispatchChartQuery();
+  const [fetchDashboard] = useLazyFetchDashboardQuery();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchFinanceChart] = useLazyFetchFinanceChartQuery();
+  const [fetchDashboardStats] = useLazyFetchDashboardStatsQuery();
+  const [fetchRoles] = useLazyFetchRolesQuery();
+  const [updateRole] = useUpdateRoleMutation();
+  const [deleteRole] = useDeleteRoleMutation();
+  const [fetchInventoryRawMaterials] = useLazyFetchInventoryRawMaterialsQuery();
   const navigate = useNavigate();
 
   // Modal states
@@ -135,44 +157,22 @@ const Analytics: React.FC = () => {
   const fetchSalesData = async () => {
     setIsLoadingSales(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard/sales?view=${salesPeriod.toLowerCase()}&year=${salesYear}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          // Transform API data to chart format
-          const transformedData = data.labels.map((label: string, index: number) => ({
-            month: label,
-            value1: data.datasets[0]?.data[index] || 0,
-            value2: data.datasets[1]?.data[index] || 0
-          }));
-          setSalesData(transformedData);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch sales data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch sales data');
-      }
-    } catch (error) {
+      const data = await fetchSalesChart({
+        view: salesPeriod.toLowerCase(),
+        year: salesYear,
+      }).unwrap();
+      // Transform API data to chart format
+      const transformedData = data.labels.map((label: string, index: number) => ({
+        month: label,
+        value1: data.datasets[0]?.data[index] || 0,
+        value2: data.datasets[1]?.data[index] || 0
+      }));
+      setSalesData(transformedData);
+    } catch (error: any) {
       console.error('Error fetching sales data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch sales data",
+        description: error?.message || "Failed to fetch sales data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -191,51 +191,27 @@ const Analytics: React.FC = () => {
   const fetchDispatchData = async () => {
     setIsLoadingDispatch(true);
     try {
-      let url = `${process.env.REACT_APP_BACKEND_URL}dashboard/dispatch?view=${dispatchPeriod.toLowerCase()}&year=${new Date().getFullYear()}`;
-      
-      // Add month parameter for monthly view
-      if (dispatchPeriod.toLowerCase() === 'monthly') {
-        const currentMonth = new Date().getMonth() + 1; // 1-12
-        url += `&month=${currentMonth}`;
-      }
-      
-      console.log('Dispatch API URL:', url); // Debug log
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          // Transform API data to chart format
-          const transformedData = data.labels.map((label: string, index: number) => ({
-            day: label,
-            dispatch: data.datasets[0]?.data[index] || 0,
-            deliver: data.datasets[1]?.data[index] || 0
-          }));
-          setApiDispatchData(transformedData);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch dispatch data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch dispatch data');
-      }
-    } catch (error) {
+      const data = await fetchDispatchChart({
+        view: dispatchPeriod.toLowerCase(),
+        year: new Date().getFullYear(),
+        // Add month parameter for monthly view
+        month:
+          dispatchPeriod.toLowerCase() === 'monthly'
+            ? new Date().getMonth() + 1
+            : undefined,
+      }).unwrap();
+      // Transform API data to chart format
+      const transformedData = data.labels.map((label: string, index: number) => ({
+        day: label,
+        dispatch: data.datasets[0]?.data[index] || 0,
+        deliver: data.datasets[1]?.data[index] || 0
+      }));
+      setApiDispatchData(transformedData);
+    } catch (error: any) {
       console.error('Error fetching dispatch data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch dispatch data",
+        description: error?.message || "Failed to fetch dispatch data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -255,38 +231,13 @@ const Analytics: React.FC = () => {
    const fetchInventoryData = async () => {
      setIsLoadingInventory(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${inventoryPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setInventoryChartData(data.inventory_chart);
-         } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch inventory data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch inventory data');
-      }
-    } catch (error) {
+      const data = await fetchDashboard({ filter: inventoryPeriod.toLowerCase() }).unwrap();
+       setInventoryChartData(data.inventory_chart);
+    } catch (error: any) {
       console.error('Error fetching inventory data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch inventory data",
+        description: error?.message || "Failed to fetch inventory data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -300,38 +251,13 @@ const Analytics: React.FC = () => {
    const fetchProductionData = async () => {
      setIsLoadingProduction(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${productionPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setProductionChartData(data.production_chart);
-         } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch production data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch production data');
-      }
-    } catch (error) {
+      const data = await fetchDashboard({ filter: productionPeriod.toLowerCase() }).unwrap();
+       setProductionChartData(data.production_chart);
+    } catch (error: any) {
       console.error('Error fetching production data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch production data",
+        description: error?.message || "Failed to fetch production data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -345,38 +271,13 @@ const Analytics: React.FC = () => {
    const fetchMerchantData = async () => {
      setIsLoadingMerchant(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${merchantPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-             if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setMerchantChartData(data.merchant_chart);
-         } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch merchant data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch merchant data');
-      }
-    } catch (error) {
+             const data = await fetchDashboard({ filter: merchantPeriod.toLowerCase() }).unwrap();
+       setMerchantChartData(data.merchant_chart);
+    } catch (error: any) {
       console.error('Error fetching merchant data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch merchant data",
+        description: error?.message || "Failed to fetch merchant data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -403,38 +304,13 @@ const Analytics: React.FC = () => {
    const fetchResourcesData = async () => {
      setIsLoadingResources(true);
      try {
-       const response = await fetch(
-         `${process.env.REACT_APP_BACKEND_URL}resources`,
-         {
-           method: 'GET',
-           headers: {
-             'Content-Type': 'application/json',
-             'Authorization': `Bearer ${cookies?.access_token}`
-           }
-         }
-       );
-
-       if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setApiResourcesData(data.resources || []);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch resources data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         throw new Error('Failed to fetch resources data');
-       }
-     } catch (error) {
+       const data = await fetchResources({}).unwrap();
+       setApiResourcesData(data.resources || []);
+     } catch (error: any) {
        console.error('Error fetching resources data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch resources data",
+         description: error?.message || "Failed to fetch resources data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -453,38 +329,13 @@ const Analytics: React.FC = () => {
    const fetchRolesData = async () => {
      setIsLoadingRoles(true);
      try {
-       const response = await fetch(
-         `${process.env.REACT_APP_BACKEND_URL}role/`,
-         {
-           method: 'GET',
-           headers: {
-             'Content-Type': 'application/json',
-             'Authorization': `Bearer ${cookies?.access_token}`
-           }
-         }
-       );
-
-       if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setApiRolesData(data.roles || []);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch roles data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         throw new Error('Failed to fetch roles data');
-       }
-     } catch (error) {
+       const data = await fetchRoles({}).unwrap();
+       setApiRolesData(data.roles || []);
+     } catch (error: any) {
        console.error('Error fetching roles data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch roles data",
+         description: error?.message || "Failed to fetch roles data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -504,44 +355,24 @@ const Analytics: React.FC = () => {
       setIsLoadingApproval(true);
       try {
         // Fetch inventory data (BOM API)
-        const inventoryResponse = await fetch(
-          `${process.env.REACT_APP_BACKEND_URL}bom/all/inventory/raw-materials`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${cookies?.access_token}`
-            }
-          }
-        );
+        const inventoryResult = await fetchInventoryRawMaterials({})
+          .unwrap()
+          .catch(() => null);
 
         // Fetch production data
-        const productionResponse = await fetch(
-          `${process.env.REACT_APP_BACKEND_URL}production-process/all`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${cookies?.access_token}`
-            }
-          }
-        );
-
-        let inventoryData = [];
-        let productionData = [];
-
-        if (inventoryResponse.ok) {
-          const inventoryResult = await inventoryResponse.json();
-          if (inventoryResult.success) {
-            inventoryData = inventoryResult.unapproved || [];
-          }
+        const productionResult = await fetchProcess({})
+          .unwrap()
+          .catch(() => null);
+
+        let inventoryData: any[] = [];
+        let productionData: any[] = [];
+
+        if (inventoryResult) {
+          inventoryData = inventoryResult.unapproved || [];
         }
 
-        if (productionResponse.ok) {
-          const productionResult = await productionResponse.json();
-          if (productionResult.success) {
-            productionData = productionResult.production_processes || [];
-          }
+        if (productionResult) {
+          productionData = productionResult.production_processes || [];
         }
 
         // Combine data: top 1 inventory + top 1 production
@@ -587,45 +418,21 @@ const Analytics: React.FC = () => {
    const fetchFinanceData = async () => {
      setIsLoadingFinance(true);
      try {
-      let url = `${process.env.REACT_APP_BACKEND_URL}dashboard/finance?view=${accountsPeriod.toLowerCase()}&year=${accountsYear}`;
-      
-      // Add month parameter for monthly view
-      if (accountsPeriod.toLowerCase() === 'monthly') {
-        const currentMonth = new Date().getMonth() + 1; // 1-12
-        url += `&mon=${currentMonth}`;
-      }
-      
-      console.log('Finance API URL:', url); // Debug log
-      
-      const response = await fetch(url, {
-           method: 'GET',
-           headers: {
-             'Content-Type': 'application/json',
-             'Authorization': `Bearer ${cookies?.access_token}`
-           }
-      });
-
-       if (response.ok) {
-         const data = await response.json();
-         if (data.success) {
-           setFinanceData(data);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch finance data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         throw new Error('Failed to fetch finance data');
-       }
-     } catch (error) {
+       const data = await fetchFinanceChart({
+         view: accountsPeriod.toLowerCase(),
+         year: accountsYear,
+         // Add month parameter for monthly view
+         month:
+           accountsPeriod.toLowerCase() === 'monthly'
+             ? new Date().getMonth() + 1
+             : undefined,
+       }).unwrap();
+       setFinanceData(data);
+     } catch (error: any) {
        console.error('Error fetching finance data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch finance data",
+         description: error?.message || "Failed to fetch finance data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -644,36 +451,14 @@ const Analytics: React.FC = () => {
    const fetchStatsData = async () => {
      setIsLoadingStats(true);
      try {
-       const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}dashboard/stats`, {
-         method: 'GET',
-         headers: {
-           'Content-Type': 'application/json',
-           'Authorization': `Bearer ${cookies?.access_token}`
-         }
-       });
-
-       if (response.ok) {
-         const data = await response.json();
-         console.log('Stats API Response:', data); // Debug log
-         if (data.success) {
-           setStatsData(data);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch stats data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         console.error('Stats API Error:', response.status, response.statusText);
-       }
-     } catch (error) {
+       const data = await fetchDashboardStats({}).unwrap();
+       console.log('Stats API Response:', data); // Debug log
+       setStatsData(data);
+     } catch (error: any) {
        console.error('Error fetching stats data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch stats data",
+         description: error?.message || "Failed to fetch stats data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -690,25 +475,12 @@ const Analytics: React.FC = () => {
 
   const handleSaveEdit = async () => {
     try {
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}role`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        },
-        body: JSON.stringify({
-          _id: selectedRole?._id,
-          role: editForm.role,
-          description: editForm.description,
-          permissions: selectedRole?.permissions || []
-        })
-      });
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await updateRole({
+        _id: selectedRole?._id,
+        role: editForm.role,
+        description: editForm.description,
+        permissions: selectedRole?.permissions || []
+      }).unwrap();
 
       toast({
         title: "Role Updated",
@@ -734,22 +506,7 @@ const Analytics: React.FC = () => {
 
   const handleConfirmDelete = async () => {
     try {
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}role`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        },
-        body: JSON.stringify({
-          _id: selectedRole?._id
-        })
-      });
-
-      const data = await response.json();
-      
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await deleteRole({ _id: selectedRole?._id }).unwrap();
 
       toast({
         title: "Role Deleted",
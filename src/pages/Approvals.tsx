@@ -2,17 +2,23 @@
 
 import { toast } from "react-toastify";
 import {
+  useApproveRawMaterialMutation,
   useDeleteAgentMutation,
   useDeleteBomMutation,
   useDeleteProductMutation,
   useDeleteStoresMutation,
+  useLazyUnapprovedBomsQuery,
+  useLazyUnapprovedBuyersQuery,
+  useLazyUnapprovedProductsQuery,
+  useLazyUnapprovedRawMaterialsQuery,
+  useLazyUnapprovedSellersQuery,
+  useLazyUnapprovedStoresQuery,
   useUpdateAgentMutation,
   useUpdateBOMMutation,
   useUpdateProductMutation,
   useUpdateStoreMutation,
 } from "../redux/api/api";
 import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { Button } from "@chakra-ui/react";
 import { MdOutlineRefresh } from "react-icons/md";
 import ProductTable from "../components/Table/ProductTable";
@@ -22,14 +28,17 @@ import BOMRawMaterialTable from "../components/Table/BOMRawMaterialTable";
 import { useSelector } from "react-redux";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
 import StoreTable from "../components/Table/StoreTable";
+import { useSocketEvent } from "../components/utils/socket";
+import { useNotificationLink } from "../components/utils/notifications";
 
 const Approvals: React.FC = () => {
-  const [cookies] = useCookies();
   const [activeSection, setActiveSection] = useState("products");
 
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("Approval");
+  const can = useCan();
   //  Products
   const [productSearchKey, setProductSearchKey] = useState<
     string | undefined
@@ -71,21 +80,19 @@ const Approvals: React.FC = () => {
   const [updateAgent] = useUpdateAgentMutation();
   const [deleteBom] = useDeleteBomMutation();
   const [updateBom] = useUpdateBOMMutation();
+  const [fetchUnapprovedProducts] = useLazyUnapprovedProductsQuery();
+  const [fetchUnapprovedStores] = useLazyUnapprovedStoresQuery();
+  const [fetchUnapprovedBuyers] = useLazyUnapprovedBuyersQuery();
+  const [fetchUnapprovedSellers] = useLazyUnapprovedSellersQuery();
+  const [fetchUnapprovedBoms] = useLazyUnapprovedBomsQuery();
+  const [fetchUnapprovedBomRMs] = useLazyUnapprovedRawMaterialsQuery();
+  const [approveRawMaterial] = useApproveRawMaterialMutation();
 
   // For Unapproved Products
   const fetchUnapprovedProductsHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/unapproved",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedProducts({}).unwrap();
       setProducts(data.unapproved);
       setFilteredProducts(data.unapproved);
     } catch (err: any) {
@@ -122,16 +129,7 @@ const Approvals: React.FC = () => {
   const fetchUnapprovedStoresHandler = async () => {
     try {
       setIsLoadingStores(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/unapproved",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedStores({}).unwrap();
       setStores(data.unapproved);
       setFilteredStores(data.unapproved);
     } catch (err: any) {
@@ -165,16 +163,7 @@ const Approvals: React.FC = () => {
   const fetchUnapprovedBuyersHandler = async () => {
     try {
       setIsLoadingBuyers(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/unapproved-buyers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedBuyers({}).unwrap();
       setBuyers(data.agents);
       setFilteredBuyers(data.agents);
     } catch (err: any) {
@@ -187,16 +176,7 @@ const Approvals: React.FC = () => {
   const fetchUnapprovedSellersHandler = async () => {
     try {
       setIsLoadingBuyers(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/unapproved-suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedSellers({}).unwrap();
       setSellers(data.agents);
       setFilteredSellers(data.agents);
     } catch (err: any) {
@@ -232,16 +212,7 @@ const Approvals: React.FC = () => {
   const fetchUnapprovedBomsHandler = async () => {
     try {
       setIsLoadingBoms(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "bom/unapproved",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedBoms({}).unwrap();
       setBoms(data.boms);
       setFilteredBoms(data.boms);
     } catch (err: any) {
@@ -275,16 +246,7 @@ const Approvals: React.FC = () => {
   const fetchUnapprovedBomRMsHandler = async () => {
     try {
       setIsLoadingBomRMs(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "bom/unapproved/raw-materials",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
+      const data = await fetchUnapprovedBomRMs({}).unwrap();
       setBomRMs(data.unapproved);
       setFilteredBomRMs(data.unapproved);
     } catch (err: any) {
@@ -296,24 +258,7 @@ const Approvals: React.FC = () => {
 
   const approveBomRMHandler = async (id: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "bom/approve/raw-materials",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-            "content-type": "application/json",
-          },
-          body: JSON.stringify({
-            _id: id,
-          }),
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-
+      const data = await approveRawMaterial(id).unwrap();
       toast.success(data.message);
       fetchUnapprovedBomRMsHandler();
     } catch (err: any) {
@@ -330,6 +275,23 @@ const Approvals: React.FC = () => {
     fetchUnapprovedBomRMsHandler();
   }, []);
 
+  useSocketEvent("approvalUpdate", () => {
+    fetchUnapprovedProductsHandler();
+    fetchUnapprovedStoresHandler();
+    fetchUnapprovedBuyersHandler();
+    fetchUnapprovedSellersHandler();
+    fetchUnapprovedBomsHandler();
+    fetchUnapprovedBomRMsHandler();
+  });
+  useSocketEvent("bomUpdate", () => {
+    fetchUnapprovedBomsHandler();
+    fetchUnapprovedBomRMsHandler();
+  });
+
+  useNotificationLink("section", (section) => {
+    setActiveSection(section);
+  });
+
   // Product Search
   useEffect(() => {
     const searchTxt = productSearchKey?.toLowerCase();
@@ -1097,8 +1059,12 @@ const Approvals: React.FC = () => {
               <ProductTable
                 isLoadingProducts={isLoadingProducts}
                 products={filteredProducts}
-                deleteProductHandler={deleteProductHandler}
-                approveProductHandler={approveProductHandler}
+                deleteProductHandler={
+                  can("approval", "delete") ? deleteProductHandler : undefined
+                }
+                approveProductHandler={
+                  can("approval", "approve") ? approveProductHandler : undefined
+                }
               />
             </div>
           </div>
@@ -1171,7 +1137,9 @@ const Approvals: React.FC = () => {
                   <StoreTable
                     isLoadingStores={isLoadingStores}
                     stores={filteredStores}
-                    deleteStoreHandler={deleteStoreHandler}
+                    deleteStoreHandler={
+                      can("approval", "delete") ? deleteStoreHandler : undefined
+                    }
                   />
                 </div>
               </div>
@@ -1244,8 +1212,12 @@ const Approvals: React.FC = () => {
               <AgentTable
                 isLoadingAgents={isLoadingBuyers}
                 agents={filteredBuyers}
-                deleteAgentHandler={deleteAgentHandler}
-                approveAgentHandler={approveAgentHandler}
+                deleteAgentHandler={
+                  can("approval", "delete") ? deleteAgentHandler : undefined
+                }
+                approveAgentHandler={
+                  can("approval", "approve") ? approveAgentHandler : undefined
+                }
               />
             </div>
           </div>
@@ -1318,8 +1290,12 @@ const Approvals: React.FC = () => {
               <AgentTable
                 isLoadingAgents={isLoadingSellers}
                 agents={filteredSellers}
-                deleteAgentHandler={deleteAgentHandler}
-                approveAgentHandler={approveAgentHandler}
+                deleteAgentHandler={
+                  can("approval", "delete") ? deleteAgentHandler : undefined
+                }
+                approveAgentHandler={
+                  can("approval", "approve") ? approveAgentHandler : undefined
+                }
               />
             </div>
           </div>
@@ -1392,8 +1368,12 @@ const Approvals: React.FC = () => {
               <BOMTable
                 isLoadingBoms={isLoadingBoms}
                 boms={filteredBoms}
-                deleteBomHandler={deleteBomHandler}
-                approveBomHandler={approveBomHandler}
+                deleteBomHandler={
+                  can("approval", "delete") ? deleteBomHandler : undefined
+                }
+                approveBomHandler={
+                  can("approval", "approve") ? approveBomHandler : undefined
+                }
               />
             </div>
           </div>
@@ -1466,7 +1446,9 @@ const Approvals: React.FC = () => {
               <BOMRawMaterialTable
                 isLoadingProducts={isLoadingBomRMs}
                 products={filteredBomRMs}
-                approveProductHandler={approveBomRMHandler}
+                approveProductHandler={
+                  can("approval", "approve") ? approveBomRMHandler : undefined
+                }
               />
             </div>
           </div>
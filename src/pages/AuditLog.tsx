@@ -0,0 +1,279 @@
+import { useEffect, useMemo } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { History } from "lucide-react";
+import { colors } from "../theme/colors";
+import Pagination from "./Pagination";
+import {
+  useLazyFetchAuditLogsQuery,
+  useLazyFetchEmployeesQuery,
+} from "../redux/api/api";
+import { AuditEvent } from "../redux/api/types";
+import {
+  auditActions,
+  auditModules,
+  formatAuditField,
+  formatAuditValue,
+  getAuditAction,
+  getAuditModuleLabel,
+  getAuditUserName,
+} from "../components/utils/audit";
+import { useTableQuery } from "../components/utils/tableQuery";
+
+
+const filterStyle = {
+  backgroundColor: colors.input.background,
+  borderColor: colors.input.border,
+  color: colors.text.primary,
+};
+
+const AuditLog: React.FC = () => {
+  const query = useTableQuery({
+    defaultLimit: 20,
+    filters: ["user", "module", "action", "from", "to"],
+  });
+  const { filters, setFilter } = query;
+
+  const [fetchAuditLogs, { data, isFetching }] = useLazyFetchAuditLogsQuery();
+  const [fetchEmployees, { data: employeeData }] =
+    useLazyFetchEmployeesQuery();
+
+  const events: AuditEvent[] = useMemo(() => data?.events || [], [data]);
+  const employees: any[] = employeeData?.users || [];
+
+  const fetchAuditLogsHandler = async () => {
+    try {
+      await fetchAuditLogs(query.params).unwrap();
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    }
+  };
+
+  useEffect(() => {
+    fetchEmployees({});
+  }, [fetchEmployees]);
+
+  useEffect(() => {
+    fetchAuditLogsHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query.params]);
+
+  return (
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-slate-500 to-slate-600 p-3 rounded-xl shadow-lg">
+                <History className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Audit Log
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Every create, update, approval and deletion across modules
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                onClick={query.clearFilters}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+              >
+                Clear Filters
+              </Button>
+              <Button
+                onClick={fetchAuditLogsHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isFetching}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+            <select
+              className="w-full px-3 py-2.5 border rounded-lg text-sm"
+              style={filterStyle}
+              value={filters.user}
+              onChange={(e) => setFilter("user", e.target.value)}
+            >
+              <option value="">All users</option>
+              {employees.map((employee: any) => (
+                <option key={employee._id} value={employee._id}>
+                  {getAuditUserName(employee)}
+                </option>
+              ))}
+            </select>
+            <select
+              className="w-full px-3 py-2.5 border rounded-lg text-sm"
+              style={filterStyle}
+              value={filters.module}
+              onChange={(e) => setFilter("module", e.target.value)}
+            >
+              <option value="">All modules</option>
+              {auditModules.map((module) => (
+                <option key={module.value} value={module.value}>
+                  {module.label}
+                </option>
+              ))}
+            </select>
+            <select
+              className="w-full px-3 py-2.5 border rounded-lg text-sm"
+              style={filterStyle}
+              value={filters.action}
+              onChange={(e) => setFilter("action", e.target.value)}
+            >
+              <option value="">All actions</option>
+              {auditActions.map((action) => (
+                <option key={action.value} value={action.value}>
+                  {action.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              aria-label="From date"
+              className="w-full px-3 py-2.5 border rounded-lg text-sm"
+              style={filterStyle}
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => setFilter("from", e.target.value)}
+            />
+            <input
+              type="date"
+              aria-label="To date"
+              className="w-full px-3 py-2.5 border rounded-lg text-sm"
+              style={filterStyle}
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => setFilter("to", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <table className="min-w-full text-sm">
+            <thead style={{ backgroundColor: colors.table.header }}>
+              <tr>
+                <th className="px-4 py-3 text-left">Time</th>
+                <th className="px-4 py-3 text-left">User</th>
+                <th className="px-4 py-3 text-left">Module</th>
+                <th className="px-4 py-3 text-left">Record</th>
+                <th className="px-4 py-3 text-left">Action</th>
+                <th className="px-4 py-3 text-left">Changes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={6}
+                    className="px-4 py-6 text-center"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    {isFetching
+                      ? "Loading..."
+                      : "No audit entries match these filters."}
+                  </td>
+                </tr>
+              )}
+              {events.map((event) => {
+                const action = getAuditAction(event.action);
+                return (
+                  <tr
+                    key={event._id}
+                    className="border-t align-top"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      {new Date(event.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      {getAuditUserName(event.user)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {getAuditModuleLabel(event.module)}
+                    </td>
+                    <td className="px-4 py-3 break-all">
+                      {event.record_label || event.record_id}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`px-2 py-1 rounded-full text-xs font-medium ${
+                          action?.className || "bg-gray-100 text-gray-800"
+                        }`}
+                      >
+                        {action?.label || event.action}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {(event.changes || []).length === 0 && "-"}
+                      {(event.changes || []).map((change) => (
+                        <p key={change.field} className="break-all">
+                          <span className="font-medium">
+                            {formatAuditField(change.field)}:
+                          </span>{" "}
+                          <span className="text-red-700 line-through">
+                            {formatAuditValue(change.from)}
+                          </span>{" "}
+                          →{" "}
+                          <span className="text-green-700">
+                            {formatAuditValue(change.to)}
+                          </span>
+                        </p>
+                      ))}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <Pagination
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={events.length === query.limit}
+            totalItems={data?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
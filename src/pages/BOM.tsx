@@ -1,12 +1,11 @@
 //@ts-nocheck
 
 import { Button } from "@chakra-ui/react";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import BOMTable from "../components/Table/BOMTable";
 import { useDeleteBomMutation, useLazyFetchBomsQuery } from "../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddBomDrawer,
@@ -21,22 +20,34 @@ import BomDetails from "../components/Drawers/BOM/BomDetails";
 import UpdateBom from "../components/Drawers/BOM/UpdateBom";
 import { FiDownload, FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import { useNotificationLink } from "../components/utils/notifications";
 import { FileText } from "lucide-react";
 import { AiFillFileExcel } from "react-icons/ai";
 import { RxCross2 } from "react-icons/rx";
 import SampleCSV from "../assets/csv/bom-sample.csv";
 import * as XLSX from "xlsx";
+import Pagination from "./Pagination";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
 
 const BOM: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   // console.log("allowedroutes =", allowedroutes);
   const isAllowed = isSuper || allowedroutes.includes("production");
-  const [cookies] = useCookies();
+  const can = useCan();
   const [bomId, setBomId] = useState<string | undefined>();
-  const [searchKey, setSearchKey] = useState<string | undefined>();
-  const [isLoadingBoms, setIsLoadingBoms] = useState<boolean>(false);
-  const [boms, setBoms] = useState<any[]>([]);
-  const [filteredBoms, setFilteredBoms] = useState<any[]>([]);
+  const query = useTableQuery();
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  const [fetchBoms, { data: bomsData, isFetching: isLoadingBoms }] =
+    useLazyFetchBomsQuery();
+  const [fetchAllBoms] = useLazyFetchBomsQuery();
+  const boms = useMemo(() => bomsData?.boms || [], [bomsData]);
   const [isExporting, setIsExporting] = useState(false);
 
   // const [showBulkUploadMenu, setShowBulkUploadMenu] = useState(false);fhjffryj
@@ -71,31 +82,32 @@ const BOM: React.FC = () => {
     dispatch(closeBomDetailsDrawer());
   };
 
+  // Links from the command palette
+  useNotificationLink("id", openBomDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new" && can("production", "create")) {
+      openAddBomDrawerHandler();
+    }
+  });
+
   const fetchBomsHandler = async () => {
     try {
-      setIsLoadingBoms(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "bom/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-      setBoms(data?.boms);
-      setFilteredBoms(data.boms);
+      await fetchBoms(query.params).unwrap();
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
-    } finally {
-      setIsLoadingBoms(false);
     }
   };
 
+  // Every BOM matching the current search and sort, for exports
+  const fetchAllMatchingBoms = async () => {
+    const result = await fetchAllBoms({
+      ...query.params,
+      page: 1,
+      limit: bomsData?.totalData || query.limit,
+    }).unwrap();
+    return result?.boms || [];
+  };
+
   const deleteBomHandler = async (id: string) => {
     try {
       const response = await deleteBom(id).unwrap();
@@ -105,17 +117,17 @@ const BOM: React.FC = () => {
       toast.error(error?.data?.message || "Something went wrong");
     }
   };
-  console.log(boms);
   const exportProductsToExcel = async () => {
     try {
       setIsExporting(true);
 
-      if (!boms || boms.length === 0) {
+      const allBoms = await fetchAllMatchingBoms();
+      if (allBoms.length === 0) {
         toast.warning("No BOMs to export");
         return;
       }
 
-      const dataForExcel = boms.map((bom: any, index: number) => {
+      const dataForExcel = allBoms.map((bom: any, index: number) => {
         const rawMaterialNames = bom?.raw_materials
           ?.map((mat: any) => mat?.item?.name || "N/A")
           .join(", ");
@@ -192,39 +204,7 @@ const BOM: React.FC = () => {
 
   useEffect(() => {
     fetchBomsHandler();
-  }, []);
-
-  useEffect(() => {
-    const searchTxt = searchKey?.toLowerCase();
-    const results = boms.filter(
-      (bom: any) =>
-        bom._id?.toLowerCase()?.includes(searchTxt) ||
-        bom.bom_name?.toLowerCase()?.includes(searchTxt) ||
-        bom.parts_count?.toString()?.toLowerCase()?.includes(searchTxt) ||
-        bom.total_cost?.toString()?.toLowerCase()?.includes(searchTxt) ||
-        (bom?.approved_by?.first_name + " " + bom?.approved_by?.last_name)
-          ?.toString()
-          ?.toLowerCase()
-          ?.includes(searchTxt || "") ||
-        (bom?.createdAt &&
-          new Date(bom?.createdAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            .reverse()
-            .join("")
-            ?.includes(searchTxt?.replaceAll("/", "") || "")) ||
-        (bom?.updatedAt &&
-          new Date(bom?.updatedAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            ?.reverse()
-            ?.join("")
-            ?.includes(searchTxt?.replaceAll("/", "") || ""))
-    );
-    setFilteredBoms(results);
-  }, [searchKey]);
+  }, [query.params]);
 
   if (!isAllowed) {
     return (
@@ -252,6 +232,7 @@ const BOM: React.FC = () => {
           <BomDetails
             bomId={bomId}
             closeDrawerHandler={closeBomDetailsDrawerHandler}
+            fetchBomsHandler={fetchBomsHandler}
           />
         )}
         {/* Update BOM */}
@@ -294,24 +275,26 @@ const BOM: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddBomDrawerHandler}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="20px" />
-                Add BOM
-              </button>
+              {can("production", "create") && (
+                <button
+                  onClick={openAddBomDrawerHandler}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="20px" />
+                  Add BOM
+                </button>
+              )}
 
               <button
                 onClick={exportProductsToExcel}
@@ -388,7 +371,7 @@ const BOM: React.FC = () => {
                     e.currentTarget.style.boxShadow = "none";
                   }}
                   placeholder="Search by BOM ID, name, parts, cost..."
-                  value={searchKey || ""}
+                  value={searchKey}
                   onChange={(e) => setSearchKey(e.target.value)}
                 />
               </div>
@@ -406,12 +389,29 @@ const BOM: React.FC = () => {
         >
           <BOMTable
             isLoadingBoms={isLoadingBoms}
-            boms={filteredBoms}
+            boms={boms}
+            totalBoms={bomsData?.totalData}
+            sortBy={query.sortBy}
+            onSortByChange={query.setSortBy}
+            fetchAllBoms={fetchAllMatchingBoms}
+            listParams={query.params}
             openBomDetailsDrawerHandler={openBomDetailsDrawerHandler}
-            openUpdateBomDrawerHandler={openUpdateBomDrawerHandler}
-            deleteBomHandler={deleteBomHandler}
+            openUpdateBomDrawerHandler={
+              can("production", "update") ? openUpdateBomDrawerHandler : undefined
+            }
+            deleteBomHandler={
+              can("production", "delete") ? deleteBomHandler : undefined
+            }
             refreshBoms={fetchBomsHandler}
           />
+          <Pagination
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={boms.length === query.limit}
+            totalItems={bomsData?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
+          />
         </div>
       </div>
     </div>
@@ -2,9 +2,12 @@
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import AgentTable from "../components/Table/AgentTable";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import ImportWizard from "../components/Table/ImportWizard";
+import { agentImportConfig } from "../components/utils/importWizard";
 import {
   closeAddBuyerDrawer,
   closeBuyerDetailsDrawer,
@@ -15,26 +18,23 @@ import {
 } from "../redux/reducers/drawersSlice";
 import SampleCSV from "../assets/csv/agent-sample.csv";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import AddBuyer from "../components/Drawers/Buyer/AddBuyer";
 import UpdateBuyer from "../components/Drawers/Buyer/UpdateBuyer";
 import {
   useAgentBulKUploadMutation,
   useDeleteAgentMutation,
+  useLazyFetchBuyersQuery,
 } from "../redux/api/api";
 import BuyerDetails from "../components/Drawers/Buyer/BuyerDetails";
 import { AiFillFileExcel } from "react-icons/ai";
-import { RxCross2 } from "react-icons/rx";
 import { FiSearch } from "react-icons/fi";
 import { Users } from "lucide-react";
 
 const Buyers: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("agent");
-  const [cookies] = useCookies();
+  const can = useCan();
   const [showBulkUploadMenu, setShowBulkUploadMenu] = useState<boolean>(false);
-  const [bulkUploading, setBulkUploading] = useState<boolean>(false);
-  const fileRef = useRef<HTMLInputElement | null>(null);
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [buyerId, setBuyerId] = useState<string | undefined>();
   const [isLoadingBuyers, setIsLoadingBuyers] = useState<boolean>(false);
@@ -50,6 +50,7 @@ const Buyers: React.FC = () => {
 
   const [deleteBuyer] = useDeleteAgentMutation();
   const [bulkUpload] = useAgentBulKUploadMutation();
+  const [fetchBuyers] = useLazyFetchBuyersQuery();
 
   const openAddBuyerDrawerHandler = () => {
     dispatch(openAddBuyerDrawer());
@@ -75,19 +76,7 @@ const Buyers: React.FC = () => {
   const fetchBuyersHandler = async () => {
     try {
       setIsLoadingBuyers(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/buyers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchBuyers({}).unwrap();
       setBuyers(data.agents);
       setFilteredBuyers(data.agents);
     } catch (error: any) {
@@ -109,29 +98,6 @@ const Buyers: React.FC = () => {
     }
   };
 
-  const bulkUploadHandler = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    const file = fileRef?.current?.files?.[0];
-    if (!file) {
-      toast.error("CSV file not selected");
-      return;
-    }
-
-    try {
-      setBulkUploading(true);
-      const formData = new FormData();
-      formData.append("excel", file);
-
-      const response = await bulkUpload(formData).unwrap();
-      toast.success(response.message);
-    } catch (err: any) {
-      toast.error(err?.data?.message || err?.message || "Something went wrong");
-    } finally {
-      setBulkUploading(false);
-    }
-  };
-
   useEffect(() => {
     fetchBuyersHandler();
   }, []);
@@ -240,24 +206,26 @@ const Buyers: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddBuyerDrawerHandler}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="20px" />
-                Add Buyer
-              </button>
+              {can("agent", "create") && (
+                <button
+                  onClick={openAddBuyerDrawerHandler}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="20px" />
+                  Add Buyer
+                </button>
+              )}
 
               <button
                 onClick={fetchBuyersHandler}
@@ -341,88 +309,15 @@ const Buyers: React.FC = () => {
           </div>
         </div>
 
-        {/* Bulk Upload Modal */}
+        {/* Import Wizard */}
         {showBulkUploadMenu && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div
-              className="rounded-xl shadow-xl max-w-md w-full p-6"
-              style={{ backgroundColor: colors.background.card }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3
-                  className="text-lg font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Bulk Upload Buyers
-                </h3>
-                <button
-                  onClick={() => setShowBulkUploadMenu(false)}
-                  className="p-1 rounded-lg transition-colors"
-                  style={{ color: colors.text.secondary }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = colors.gray[100];
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                >
-                  <RxCross2 size="20px" />
-                </button>
-              </div>
-
-              <form onSubmit={bulkUploadHandler}>
-                <div className="mb-4">
-                  <label
-                    className="block text-sm font-medium mb-2"
-                    style={{ color: colors.text.primary }}
-                  >
-                    Choose File (.csv or .xlsx)
-                  </label>
-                  <input
-                    ref={fileRef}
-                    type="file"
-                    accept=".csv, .xlsx"
-                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
-                    style={{
-                      backgroundColor: colors.input.background,
-                      borderColor: colors.input.border,
-                      color: colors.text.primary,
-                    }}
-                  />
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="submit"
-                    disabled={bulkUploading}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                  >
-                    {bulkUploading ? "Uploading..." : "Upload"}
-                    <AiFillFileExcel size="16px" />
-                  </button>
-
-                  <a href={SampleCSV} className="flex-1">
-                    <button
-                      type="button"
-                      className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                      style={{
-                        borderColor: colors.border.medium,
-                        color: colors.text.primary,
-                        backgroundColor: colors.background.card,
-                      }}
-                    >
-                      Sample CSV
-                      <AiFillFileExcel size="16px" />
-                    </button>
-                  </a>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ImportWizard
+            config={agentImportConfig}
+            upload={(formData) => bulkUpload(formData).unwrap()}
+            onImported={fetchBuyersHandler}
+            onClose={() => setShowBulkUploadMenu(false)}
+            sampleUrl={SampleCSV}
+          />
         )}
 
         {/* Buyer Table */}
@@ -435,10 +330,14 @@ const Buyers: React.FC = () => {
         >
           <AgentTable
             agents={filteredBuyers}
-            openUpdateAgentDrawerHandler={openUpdateBuyerDrawerHandler}
+            openUpdateAgentDrawerHandler={
+              can("agent", "update") ? openUpdateBuyerDrawerHandler : undefined
+            }
             openAgentDetailsDrawerHandler={openBuyerDetailsDrawerHandler}
             isLoadingAgents={isLoadingBuyers}
-            deleteAgentHandler={deleteBuyerHandler}
+            deleteAgentHandler={
+              can("agent", "delete") ? deleteBuyerHandler : undefined
+            }
           />
         </div>
       </div>
@@ -54,6 +54,22 @@ import {
   Edit,
   Trash2
 } from 'lucide-react';
+import {
+  useDeleteRoleMutation,
+  useEmployeeDetailsQuery,
+  useFetchRolesQuery,
+  useLazyFetchDashboardQuery,
+  useLazyFetchDashboardStatsQuery,
+  useLazyFetchDispatchChartQuery,
+  useLazyFetchFinanceChartQuery,
+  useLazyFetchInventoryRawMaterialsQuery,
+  useLazyFetchMachineStatusQuery,
+  useLazyFetchProcessQuery,
+  useLazyFetchResourcesQuery,
+  useLazyFetchSalesChartQuery,
+  useLazyFetchSalesDeliveredQuery,
+  useUpdateRoleMutation,
+} from '../redux/api/api';
 import RoleModals from '../components/RoleModals';
 import InventoryDashboard from './InventoryDashboard'; // Import the InventoryDashboard component (adjust path as needed)
 import ProductionDashboard from './ProductionDashboard';
@@ -67,9 +83,9 @@ const Analytics: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState('monthly');
   const [salesPeriod, setSalesPeriod] = useState('Yearly');
   const [salesYear, setSalesYear] = useState(new Date().getFullYear());
-  const [salesData, setSalesData] = useState([]);
+  const [salesData, setSalesData] = useState<any[]>([]);
   const [isLoadingSales, setIsLoadingSales] = useState(false);
-  const [apiDispatchData, setApiDispatchData] = useState([]);
+  const [apiDispatchData, setApiDispatchData] = useState<any[]>([]);
   const [isLoadingDispatch, setIsLoadingDispatch] = useState(false);
   const [merchantChartData, setMerchantChartData] = useState<any>(null);
   const [isLoadingMerchant, setIsLoadingMerchant] = useState(false);
@@ -79,8 +95,6 @@ const Analytics: React.FC = () => {
   const [isLoadingInventory, setIsLoadingInventory] = useState(false);
   const [apiResourcesData, setApiResourcesData] = useState<any[]>([]);
   const [isLoadingResources, setIsLoadingResources] = useState(false);
-  const [apiRolesData, setApiRolesData] = useState<any[]>([]);
-  const [isLoadingRoles, setIsLoadingRoles] = useState(false);
   const [apiApprovalData, setApiApprovalData] = useState<any[]>([]);
   const [isLoadingApproval, setIsLoadingApproval] = useState(false);
   const [financeData, setFinanceData] = useState<any>(null);
@@ -97,10 +111,20 @@ const Analytics: React.FC = () => {
   const [accountsPeriod, setAccountsPeriod] = useState('Weekly');
   const [merchantPeriod, setMerchantPeriod] = useState('Weekly');
   const toast = useToast();
+  const [fetchSalesChart] = useLazyFetchSalesChartQuery();
+  const [fetchDispatchChart] = useLazyFetchDispatchChartQuery();
+  const [fetchDashboard] = useLazyFetchDashboardQuery();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchInventoryRawMaterials] = useLazyFetchInventoryRawMaterialsQuery();
+  const [updateRole] = useUpdateRoleMutation();
+  const [deleteRole] = useDeleteRoleMutation();
+  const [fetchFinanceChart] = useLazyFetchFinanceChartQuery();
+  const [fetchDashboardStats] = useLazyFetchDashboardStatsQuery();
+  const [fetchSalesDelivered] = useLazyFetchSalesDeliveredQuery();
+  const [fetchMachineStatusData] = useLazyFetchMachineStatusQuery();
   const navigate = useNavigate();
 
-  const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-
   // Modal states
   const { isOpen: isViewOpen, onOpen: onViewOpen, onClose: onViewClose } = useDisclosure();
   const { isOpen: isEditOpen, onOpen: onEditOpen, onClose: onEditClose } = useDisclosure();
@@ -154,34 +178,19 @@ const Analytics: React.FC = () => {
     onDeleteOpen();
   };
 
-  // New state for user details
-  const [userDetails, setUserDetails] = useState<any>(null);
-  const [isLoadingUser, setIsLoadingUser] = useState(true);
-
-  // Fetch current user details
-  const fetchUserDetails = async () => {
-    setIsLoadingUser(true);
-    try {
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}auth/user`, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        }
-      });
+  // Current user details, with the default view when there is no session
+  const {
+    data: userData,
+    error: userError,
+    isLoading: isLoadingUser,
+  } = useEmployeeDetailsQuery(undefined, { skip: !cookies?.access_token });
+  const userDetails: any = isLoadingUser
+    ? null
+    : userData?.user || { isSuper: false, role: { role: 'default' } };
 
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setUserDetails(data.user);
-        } else {
-          throw new Error(data.message || 'Failed to fetch user details');
-        }
-      } else {
-        throw new Error('Failed to fetch user details');
-      }
-    } catch (error) {
-      console.error('Error fetching user details:', error);
+  useEffect(() => {
+    if (userError) {
+      console.error('Error fetching user details:', userError);
       toast({
         title: "Error",
         description: "Failed to fetch user details. Showing default view.",
@@ -189,64 +198,29 @@ const Analytics: React.FC = () => {
         duration: 3000,
         isClosable: true,
       });
-      setUserDetails({ isSuper: false, role: { role: 'default' } }); // Default if fetch fails
-    } finally {
-      setIsLoadingUser(false);
-    }
-  };
-
-  // Fetch user details on mount
-  useEffect(() => {
-    if (cookies?.access_token) {
-      fetchUserDetails();
-    } else {
-      setUserDetails({ isSuper: false, role: { role: 'default' } }); // Default if no token
-      setIsLoadingUser(false);
     }
-  }, [cookies?.access_token]);
+  }, [userError]);
 
   // Fetch sales data from API
   const fetchSalesData = async () => {
     setIsLoadingSales(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard/sales?view=${salesPeriod.toLowerCase()}&year=${salesYear}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          // Transform API data to chart format
-          const transformedData = data.labels.map((label: string, index: number) => ({
-            month: label,
-            value1: data.datasets[0]?.data[index] || 0,
-            value2: data.datasets[1]?.data[index] || 0
-          }));
-          setSalesData(transformedData);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch sales data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch sales data');
-      }
-    } catch (error) {
+      const data = await fetchSalesChart({
+        view: salesPeriod.toLowerCase(),
+        year: salesYear,
+      }).unwrap();
+      // Transform API data to chart format
+      const transformedData = data.labels.map((label: string, index: number) => ({
+        month: label,
+        value1: data.datasets[0]?.data[index] || 0,
+        value2: data.datasets[1]?.data[index] || 0
+      }));
+      setSalesData(transformedData);
+    } catch (error: any) {
       console.error('Error fetching sales data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch sales data",
+        description: error?.message || "Failed to fetch sales data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -267,51 +241,27 @@ const Analytics: React.FC = () => {
   const fetchDispatchData = async () => {
     setIsLoadingDispatch(true);
     try {
-      let url = `${process.env.REACT_APP_BACKEND_URL}dashboard/dispatch?view=${dispatchPeriod.toLowerCase()}&year=${new Date().getFullYear()}`;
-
-      // Add month parameter for monthly view
-      if (dispatchPeriod.toLowerCase() === 'monthly') {
-        const currentMonth = new Date().getMonth() + 1; // 1-12
-        url += `&month=${currentMonth}`;
-      }
-
-      console.log('Dispatch API URL:', url); // Debug log
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          // Transform API data to chart format
-          const transformedData = data.labels.map((label: string, index: number) => ({
-            day: label,
-            dispatch: data.datasets[0]?.data[index] || 0,
-            deliver: data.datasets[1]?.data[index] || 0
-          }));
-          setApiDispatchData(transformedData);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch dispatch data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch dispatch data');
-      }
-    } catch (error) {
+      const data = await fetchDispatchChart({
+        view: dispatchPeriod.toLowerCase(),
+        year: new Date().getFullYear(),
+        // Add month parameter for monthly view
+        month:
+          dispatchPeriod.toLowerCase() === 'monthly'
+            ? new Date().getMonth() + 1
+            : undefined,
+      }).unwrap();
+      // Transform API data to chart format
+      const transformedData = data.labels.map((label: string, index: number) => ({
+        day: label,
+        dispatch: data.datasets[0]?.data[index] || 0,
+        deliver: data.datasets[1]?.data[index] || 0
+      }));
+      setApiDispatchData(transformedData);
+    } catch (error: any) {
       console.error('Error fetching dispatch data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch dispatch data",
+        description: error?.message || "Failed to fetch dispatch data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -333,38 +283,13 @@ const Analytics: React.FC = () => {
   const fetchInventoryData = async () => {
     setIsLoadingInventory(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${inventoryPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setInventoryChartData(data.inventory_chart);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch inventory data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch inventory data');
-      }
-    } catch (error) {
+      const data = await fetchDashboard({ filter: inventoryPeriod.toLowerCase() }).unwrap();
+      setInventoryChartData(data.inventory_chart);
+    } catch (error: any) {
       console.error('Error fetching inventory data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch inventory data",
+        description: error?.message || "Failed to fetch inventory data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -378,38 +303,13 @@ const Analytics: React.FC = () => {
   const fetchProductionData = async () => {
     setIsLoadingProduction(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${productionPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setProductionChartData(data.production_chart);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch production data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch production data');
-      }
-    } catch (error) {
+      const data = await fetchDashboard({ filter: productionPeriod.toLowerCase() }).unwrap();
+      setProductionChartData(data.production_chart);
+    } catch (error: any) {
       console.error('Error fetching production data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch production data",
+        description: error?.message || "Failed to fetch production data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -423,38 +323,13 @@ const Analytics: React.FC = () => {
   const fetchMerchantData = async () => {
     setIsLoadingMerchant(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}dashboard?filter=${merchantPeriod.toLowerCase()}`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setMerchantChartData(data.merchant_chart);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch merchant data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch merchant data');
-      }
-    } catch (error) {
+      const data = await fetchDashboard({ filter: merchantPeriod.toLowerCase() }).unwrap();
+      setMerchantChartData(data.merchant_chart);
+    } catch (error: any) {
       console.error('Error fetching merchant data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch merchant data",
+        description: error?.message || "Failed to fetch merchant data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -487,38 +362,13 @@ const Analytics: React.FC = () => {
   const fetchResourcesData = async () => {
     setIsLoadingResources(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}resources`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setApiResourcesData(data.resources || []);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch resources data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch resources data');
-      }
-    } catch (error) {
+      const data = await fetchResources({}).unwrap();
+      setApiResourcesData(data.resources || []);
+    } catch (error: any) {
       console.error('Error fetching resources data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch resources data",
+        description: error?.message || "Failed to fetch resources data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -535,101 +385,50 @@ const Analytics: React.FC = () => {
     }
   }, [userDetails?.isSuper]);
 
-  // Fetch roles data from API
-  const fetchRolesData = async () => {
-    setIsLoadingRoles(true);
-    try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}role/`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setApiRolesData(data.roles || []);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch roles data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch roles data');
-      }
-    } catch (error) {
-      console.error('Error fetching roles data:', error);
+  // Roles are only listed on the admin dashboard
+  const {
+    data: rolesData,
+    error: rolesError,
+    isLoading: isLoadingRoles,
+  } = useFetchRolesQuery(undefined, { skip: !userDetails?.isSuper });
+  const apiRolesData: any[] = rolesData?.roles || [];
+
+  useEffect(() => {
+    if (rolesError) {
+      console.error('Error fetching roles data:', rolesError);
       toast({
         title: "Error",
-        description: "Failed to fetch roles data",
+        description: rolesError?.message || "Failed to fetch roles data",
         status: "error",
         duration: 3000,
         isClosable: true,
       });
-    } finally {
-      setIsLoadingRoles(false);
-    }
-  };
-
-  // Fetch roles data on component mount
-  useEffect(() => {
-    if (userDetails?.isSuper) {
-      fetchRolesData();
     }
-  }, [userDetails?.isSuper]);
+  }, [rolesError]);
 
   // Fetch approval data from API
   const fetchApprovalData = async () => {
     setIsLoadingApproval(true);
     try {
       // Fetch inventory data (BOM API)
-      const inventoryResponse = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}bom/all/inventory/raw-materials`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
+      const inventoryResult = await fetchInventoryRawMaterials()
+        .unwrap()
+        .catch(() => null);
 
       // Fetch production data
-      const productionResponse = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/all`,
-        {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies?.access_token}`
-          }
-        }
-      );
-
-      let inventoryData = [];
-      let productionData = [];
-
-      if (inventoryResponse.ok) {
-        const inventoryResult = await inventoryResponse.json();
-        if (inventoryResult.success) {
-          inventoryData = inventoryResult.unapproved || [];
-        }
+      const productionResult = await fetchProcess({})
+        .unwrap()
+        .catch(() => null);
+
+      let inventoryData: any[] = [];
+      let productionData: any[] = [];
+
+      if (inventoryResult) {
+        inventoryData = inventoryResult.unapproved || [];
       }
 
-      if (productionResponse.ok) {
-        const productionResult = await productionResponse.json();
-        if (productionResult.success) {
-          productionData = productionResult.production_processes || [];
-        }
+      if (productionResult) {
+        productionData = productionResult.production_processes || [];
       }
 
       // Combine data: top 1 inventory + top 1 production
@@ -677,45 +476,21 @@ const Analytics: React.FC = () => {
   const fetchFinanceData = async () => {
     setIsLoadingFinance(true);
     try {
-      let url = `${process.env.REACT_APP_BACKEND_URL}dashboard/finance?view=${accountsPeriod.toLowerCase()}&year=${accountsYear}`;
-
-      // Add month parameter for monthly view
-      if (accountsPeriod.toLowerCase() === 'monthly') {
-        const currentMonth = new Date().getMonth() + 1; // 1-12
-        url += `&mon=${currentMonth}`;
-      }
-
-      console.log('Finance API URL:', url); // Debug log
-
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
-          setFinanceData(data);
-        } else {
-          toast({
-            title: "Error",
-            description: data.message || "Failed to fetch finance data",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch finance data');
-      }
-    } catch (error) {
+      const data = await fetchFinanceChart({
+        view: accountsPeriod.toLowerCase(),
+        year: accountsYear,
+        // Add month parameter for monthly view
+        month:
+          accountsPeriod.toLowerCase() === 'monthly'
+            ? new Date().getMonth() + 1
+            : undefined,
+      }).unwrap();
+      setFinanceData(data);
+    } catch (error: any) {
       console.error('Error fetching finance data:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch finance data",
+        description: error?.message || "Failed to fetch finance data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -736,36 +511,14 @@ const Analytics: React.FC = () => {
    const fetchStatsData = async () => {
      setIsLoadingStats(true);
      try {
-       const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}dashboard/stats`, {
-         method: 'GET',
-         headers: {
-           'Content-Type': 'application/json',
-           'Authorization': `Bearer ${cookies?.access_token}`
-         }
-       });
-
-       if (response.ok) {
-         const data = await response.json();
-         console.log('Stats API Response:', data); // Debug log
-         if (data.success) {
-           setStatsData(data);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch stats data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         console.error('Stats API Error:', response.status, response.statusText);
-       }
-     } catch (error) {
+       const data = await fetchDashboardStats({}).unwrap();
+       console.log('Stats API Response:', data); // Debug log
+       setStatsData(data);
+     } catch (error: any) {
        console.error('Error fetching stats data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch stats data",
+         description: error?.message || "Failed to fetch stats data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -786,36 +539,14 @@ const Analytics: React.FC = () => {
    const fetchSalesDeliveredData = async () => {
      setIsLoadingSalesDelivered(true);
      try {
-       const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}dashboard/sales-delivered`, {
-         method: 'GET',
-         headers: {
-           'Content-Type': 'application/json',
-           'Authorization': `Bearer ${cookies?.access_token}`
-         }
-       });
-
-       if (response.ok) {
-         const data = await response.json();
-         console.log('Sales-Delivered API Response:', data); // Debug log
-         if (data.success) {
-           setSalesDeliveredData(data);
-         } else {
-           toast({
-             title: "Error",
-             description: data.message || "Failed to fetch sales-delivered data",
-             status: "error",
-             duration: 3000,
-             isClosable: true,
-           });
-         }
-       } else {
-         console.error('Sales-Delivered API Error:', response.status, response.statusText);
-       }
-     } catch (error) {
+       const data = await fetchSalesDelivered({}).unwrap();
+       console.log('Sales-Delivered API Response:', data); // Debug log
+       setSalesDeliveredData(data);
+     } catch (error: any) {
        console.error('Error fetching sales-delivered data:', error);
        toast({
          title: "Error",
-         description: "Failed to fetch sales-delivered data",
+         description: error?.message || "Failed to fetch sales-delivered data",
          status: "error",
          duration: 3000,
          isClosable: true,
@@ -834,25 +565,12 @@ const Analytics: React.FC = () => {
 
   const handleSaveEdit = async () => {
     try {
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}role`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        },
-        body: JSON.stringify({
-          _id: selectedRole?._id,
-          role: editForm.role,
-          description: editForm.description,
-          permissions: selectedRole?.permissions || []
-        })
-      });
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await updateRole({
+        _id: selectedRole?._id,
+        role: editForm.role,
+        description: editForm.description,
+        permissions: selectedRole?.permissions || []
+      }).unwrap();
 
       toast({
         title: "Role Updated",
@@ -862,8 +580,6 @@ const Analytics: React.FC = () => {
         isClosable: true,
       });
 
-      // Refresh roles data
-      fetchRolesData();
       onEditClose();
     } catch (error: any) {
       toast({
@@ -878,22 +594,7 @@ const Analytics: React.FC = () => {
 
   const handleConfirmDelete = async () => {
     try {
-      const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}role`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token}`
-        },
-        body: JSON.stringify({
-          _id: selectedRole?._id
-        })
-      });
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await deleteRole({ _id: selectedRole?._id }).unwrap();
 
       toast({
         title: "Role Deleted",
@@ -903,8 +604,6 @@ const Analytics: React.FC = () => {
         isClosable: true,
       });
 
-      // Refresh roles data
-      fetchRolesData();
       onDeleteClose();
     } catch (error: any) {
       toast({
@@ -921,41 +620,20 @@ const Analytics: React.FC = () => {
   const fetchMachineStatus = async () => {
     try {
       setIsLoadingMachineStatus(true);
-      const response = await fetch(`${backendUrl}dashboard/machine-status`, {
-        headers: {
-          'Authorization': `Bearer ${cookies?.access_token}`,
-          'Content-Type': 'application/json',
-        },
+      const result = await fetchMachineStatusData({}).unwrap();
+      setMachineStatusData(result.data);
+      toast({
+        title: "Success",
+        description: "Machine status data fetched successfully",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
       });
-      
-      if (response.ok) {
-        const result = await response.json();
-        if (result.success) {
-          setMachineStatusData(result.data);
-          toast({
-            title: "Success",
-            description: "Machine status data fetched successfully",
-            status: "success",
-            duration: 3000,
-            isClosable: true,
-          });
-        } else {
-          toast({
-            title: "Error",
-            description: result.message || "Failed to fetch machine status",
-            status: "error",
-            duration: 3000,
-            isClosable: true,
-          });
-        }
-      } else {
-        throw new Error('Failed to fetch machine status');
-      }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error fetching machine status:', error);
       toast({
         title: "Error",
-        description: "Failed to fetch machine status data",
+        description: error?.message || "Failed to fetch machine status data",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -1,8 +1,14 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useCookies } from 'react-cookie';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import { Trash2, FileText, Clock, CheckCircle, Users } from 'lucide-react';
+import {
+  useDeleteAssignmentMutation,
+  useLazyFetchAssignmentsQuery,
+  useLazyFetchDesignerStatsQuery,
+} from '../redux/api/api';
+import { formatSaleLines } from '../components/utils/salesOrders';
 
 interface DesignerDashboardData {
   message: string;
@@ -24,7 +30,8 @@ interface AssignedTaskData {
   _id: string;
   sale_id: Array<{
     _id: string;
-    product_id: Array<{
+    items?: Array<any>;
+    product_id?: Array<{
       _id: string;
       name: string;
       quantity?: number;
@@ -73,6 +80,9 @@ const DesignerDashboard: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [taskToDelete, setTaskToDelete] = useState<string | null>(null);
+  const [fetchDesignerStats] = useLazyFetchDesignerStatsQuery();
+  const [fetchAssignments] = useLazyFetchAssignmentsQuery();
+  const [deleteAssignment] = useDeleteAssignmentMutation();
 
   // Fetch dashboard data
   useEffect(() => {
@@ -87,34 +97,14 @@ const DesignerDashboard: React.FC = () => {
           throw new Error('No authentication token found. Please login again.');
         }
 
-        const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-        const response = await fetch(`${backendUrl}assined/dashboard-stats`, {
-          method: 'GET',
-          credentials: 'include',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('Authentication failed. Please login again.');
-          } else if (response.status >= 500) {
-            throw new Error('Server error. Please try again later.');
-          } else {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-        }
-
-        const data = await response.json();
+        const data = (await fetchDesignerStats({}).unwrap()) as DesignerDashboardData;
         if (data.message) {
           setDashboardData(data);
         } else {
           throw new Error('Failed to fetch dashboard data');
         }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch dashboard data';
+      } catch (err: any) {
+        const errorMessage = err?.message || 'Failed to fetch dashboard data';
         setError(errorMessage);
         toast.error(`Error: ${errorMessage}`);
       } finally {
@@ -123,57 +113,29 @@ const DesignerDashboard: React.FC = () => {
     };
 
     fetchDashboardData();
-  }, [cookies?.access_token]);
+  }, [cookies?.access_token, fetchDesignerStats]);
+
+  const fetchAssignedTasksData = useCallback(async () => {
+    try {
+      setDesignsLoading(true);
+      const data = (await fetchAssignments({}).unwrap()) as AssignedTasksResponse;
+      setAssignedTasksData(data.data || []);
+      setTotalTasks(data.totalData || 0);
+    } catch (err: any) {
+      toast.error(`Error: ${err?.message || 'Failed to fetch assigned tasks data'}`);
+    } finally {
+      setDesignsLoading(false);
+    }
+  }, [fetchAssignments]);
 
   // Fetch assigned tasks data
   useEffect(() => {
-    const fetchAssignedTasksData = async () => {
-      try {
-        setDesignsLoading(true);
-        
-        const token = cookies?.access_token;
-
-        if (!token) {
-          throw new Error('No authentication token found. Please login again.');
-        }
-
-        const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-        const response = await fetch(`${backendUrl}assined/get-assined`, {
-          method: 'GET',
-          credentials: 'include',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('Authentication failed. Please login again.');
-          } else if (response.status >= 500) {
-            throw new Error('Server error. Please try again later.');
-          } else {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-        }
-
-        const data: AssignedTasksResponse = await response.json();
-        if (data.message) {
-          setAssignedTasksData(data.data || []);
-          setTotalTasks(data.totalData || 0);
-        } else {
-          throw new Error('Failed to fetch assigned tasks data');
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch assigned tasks data';
-        toast.error(`Error: ${errorMessage}`);
-      } finally {
-        setDesignsLoading(false);
-      }
-    };
-
+    if (!cookies?.access_token) {
+      toast.error('Error: No authentication token found. Please login again.');
+      return;
+    }
     fetchAssignedTasksData();
-  }, [cookies?.access_token]);
+  }, [cookies?.access_token, fetchAssignedTasksData]);
 
   const getChangeText = (current: number, lastMonth: number) => {
     const difference = current - lastMonth;
@@ -232,34 +194,7 @@ const DesignerDashboard: React.FC = () => {
     if (!taskToDelete) return;
 
     try {
-      const token = cookies?.access_token;
-
-      if (!token) {
-        toast.error('No authentication token found. Please login again.');
-        return;
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}assined/delete/${taskToDelete}`, {
-        method: 'DELETE',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data = await response.json();
+      const data = await deleteAssignment(taskToDelete).unwrap();
       toast.success(data.message || 'Task deleted successfully');
       
       // Close confirmation dialog
@@ -267,39 +202,9 @@ const DesignerDashboard: React.FC = () => {
       setTaskToDelete(null);
       
       // Refresh the assigned tasks data
-      const fetchAssignedTasksData = async () => {
-        try {
-          setDesignsLoading(true);
-          
-          const response = await fetch(`${backendUrl}assined/get-assined`, {
-            method: 'GET',
-            credentials: 'include',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${token}`,
-            },
-          });
-
-          if (!response.ok) {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-
-          const data: AssignedTasksResponse = await response.json();
-          if (data.message) {
-            setAssignedTasksData(data.data || []);
-            setTotalTasks(data.totalData || 0);
-          }
-        } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : 'Failed to refresh tasks data';
-          toast.error(`Error: ${errorMessage}`);
-        } finally {
-          setDesignsLoading(false);
-        }
-      };
-
       fetchAssignedTasksData();
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete task';
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to delete task';
       toast.error(`Error: ${errorMessage}`);
       setShowDeleteConfirm(false);
       setTaskToDelete(null);
@@ -482,7 +387,7 @@ const DesignerDashboard: React.FC = () => {
                   assignedTasksData.slice(0, 5).map((task, index) => (
                     <tr key={task._id} className={index % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {task.sale_id?.[0]?.product_id?.[0]?.name || 'N/A'}
+                        {formatSaleLines(task.sale_id?.[0])}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
                         {task.assined_process}
@@ -1,10 +1,9 @@
 //@ts-nocheck
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { TbTruckDelivery } from "react-icons/tb";
 import { HiOutlinePaperClip } from "react-icons/hi";
 import { FiEye } from "react-icons/fi";
 import { RefreshCw, Filter, Search, Pencil, Download } from "lucide-react";
-import axios from "axios";
 import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
 import { X } from "lucide-react";
@@ -16,18 +15,153 @@ import Pagination from "./Pagination";
 import { colors } from "../theme/colors";
 import { MdAdd, MdOutlineRefresh } from "react-icons/md";
 import AddDispatch from "../components/Drawers/Dispatch/AddDispatch";
+import DispatchDetails from "../components/Drawers/Dispatch/DispatchDetails";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  closeDispatchDetailsDrawer,
+  openDispatchDetailsDrawer,
+} from "../redux/reducers/drawersSlice";
+import {
+  useDownloadDispatchDocumentMutation,
+  useFetchDispatchesQuery,
+  useFetchInvoicesQuery,
+  useFetchSalesQuery,
+  useLazyFetchDispatchesQuery,
+  useUpdateDispatchMutation,
+  useUploadDispatchDocumentMutation,
+} from "../redux/api/api";
+import { useSocketEvent } from "../components/utils/socket";
+import { useNotificationLink } from "../components/utils/notifications";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import { useCan } from "../components/utils/permissions";
+import ExportMenu from "../components/Table/ExportMenu";
+import {
+  ExportColumn,
+  formatExportDate,
+} from "../components/utils/tableExport";
+import {
+  findSaleLine,
+  getLineSubtotal,
+  getLineTotal,
+} from "../components/utils/salesOrders";
+
+const dispatchExportColumns: ExportColumn[] = [
+  {
+    id: "order_id",
+    label: "Sales Order",
+    value: (dispatch) => dispatch.order_id || dispatch.sales_order_id,
+  },
+  {
+    id: "merchant_name",
+    label: "Merchant",
+    value: (dispatch) => dispatch.merchant_name,
+  },
+  { id: "item_name", label: "Item", value: (dispatch) => dispatch.item_name },
+  {
+    id: "quantity",
+    label: "Order Quantity",
+    value: (dispatch) => dispatch.quantity,
+  },
+  {
+    id: "dispatch_qty",
+    label: "Dispatched Quantity",
+    value: (dispatch) => dispatch.dispatch_qty,
+  },
+  {
+    id: "dispatch_status",
+    label: "Status",
+    value: (dispatch) => dispatch.dispatch_status || "Dispatch",
+  },
+  {
+    id: "total_amount",
+    label: "Total Amount",
+    value: (dispatch) => dispatch.total_amount,
+  },
+  {
+    id: "invoice.invoice_no",
+    label: "Invoice",
+    value: (dispatch) => dispatch.invoice?.invoice_no,
+  },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (dispatch) => formatExportDate(dispatch.createdAt),
+  },
+];
+
+// Adds the dispatched sale line's price and the invoice to each dispatch
+const enrichDispatches = (dispatches, sales, invoices) =>
+  dispatches.map((dispatch) => {
+    const matchingSale = sales.find(
+      (sale) =>
+        sale.order_id === dispatch.order_id ||
+        sale.order_id === dispatch.sales_order_id ||
+        sale._id === dispatch.sale_id
+    );
+
+    const matchingInvoice = invoices.find(
+      (invoice) =>
+        invoice.invoice_no === dispatch.order_id ||
+        (matchingSale &&
+          (invoice.buyer?._id === matchingSale.party?._id ||
+            invoice.supplier?._id === matchingSale.party?._id))
+    );
+
+    let enrichedDispatch = { ...dispatch };
+
+    if (matchingSale) {
+      const saleLine = findSaleLine(matchingSale, dispatch.product_id);
+      enrichedDispatch = {
+        ...enrichedDispatch,
+        total_amount: saleLine
+          ? +getLineTotal(saleLine).toFixed(2)
+          : matchingSale.total_price || dispatch.total_amount,
+        sales_price: saleLine?.price || 0,
+        sales_quantity: saleLine?.quantity || dispatch.quantity,
+        sales_gst: saleLine?.GST || 0,
+        sales_subtotal: saleLine ? getLineSubtotal(saleLine) : 0,
+        sales_data: matchingSale,
+      };
+    }
+
+    if (matchingInvoice) {
+      enrichedDispatch = {
+        ...enrichedDispatch,
+        invoice: {
+          ...matchingInvoice,
+          total: matchingInvoice.total,
+          balance: matchingInvoice.balance,
+          invoice_no: matchingInvoice.invoice_no,
+        },
+      };
+    }
+
+    return enrichedDispatch;
+  });
 
 const Dispatch = () => {
-  const [paymentFilter, setPaymentFilter] = useState("All");
-  const [isLoading, setIsLoading] = useState(true);
-  const [productFilter, setProductFilter] = useState("All");
+  const query = useTableQuery({
+    filters: ["dispatch_status", "payment_status"],
+  });
+  const productFilter = query.filters.dispatch_status || "All";
+  const paymentFilter = query.filters.payment_status || "All";
+  const setProductFilter = (value: string) =>
+    query.setFilter("dispatch_status", value === "All" ? "" : value);
+  const setPaymentFilter = (value: string) =>
+    query.setFilter("payment_status", value === "All" ? "" : value);
   const [showModal, setShowModal] = useState(false);
   const [showAddDispatch, setShowAddDispatch] = useState(false);
   const [siteLink, setSiteLink] = useState("");
   const [trackingId, setTrackingId] = useState("");
   const [cookies] = useCookies();
-  const [data, setData] = useState([]);
-  const [page, setPage] = useState(1);
+  const can = useCan();
+  const [fetchDispatches] = useLazyFetchDispatchesQuery();
+  const [updateDispatch] = useUpdateDispatchMutation();
+  const [uploadDispatchDocument] = useUploadDispatchDocumentMutation();
+  const [downloadDispatchDocument] = useDownloadDispatchDocumentMutation();
   const [editDispatch, setEditDispatch] = useState(null);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -35,7 +169,10 @@ const Dispatch = () => {
   const [showInvoice, setShowInvoice] = useState(false);
   const [preview, setPreview] = useState(null);
   const [fileName, setFileName] = useState("");
-  const [searchTerm, setSearchTerm] = useState("");
+  const [searchTerm, setSearchTerm] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
   const [selectedDispatchId, setSelectedDispatchId] = useState(null);
   const [selectedFile, setSelectedFile] = useState(null);
   const [uploadType, setUploadType] = useState(""); // "delivery" or "invoice"
@@ -141,21 +278,11 @@ const Dispatch = () => {
         formData.append("invoice", selectedFile);
       }
 
-      const endpoint =
-        uploadType === "delivery"
-          ? `upload-delivery-proof/${selectedDispatchId}`
-          : `upload-invoice/${selectedDispatchId}`;
-
-      const response = await axios.post(
-        `${process.env.REACT_APP_BACKEND_URL}dispatch/${endpoint}`,
+      await uploadDispatchDocument({
+        _id: selectedDispatchId,
+        document: uploadType === "delivery" ? "delivery-proof" : "invoice",
         formData,
-        {
-          headers: {
-            "Content-Type": "multipart/form-data",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      }).unwrap();
 
       toast.success(
         `${
@@ -172,7 +299,7 @@ const Dispatch = () => {
       setShowDeliveryProof(false);
       setShowInvoice(false);
 
-      GetDispatch();
+      refetchDispatches();
     } catch (error) {
       console.error("Upload error:", error);
       toast.error(
@@ -203,21 +330,12 @@ const Dispatch = () => {
       if (isSubmitting) return;
       setIsSubmitting(true);
       try {
-        const response = await axios.put(
-          `${process.env.REACT_APP_BACKEND_URL}dispatch/update/${trackingId}`,
-          values,
-          {
-            headers: {
-              "Content-Type": "application/json",
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
+        await updateDispatch({ _id: trackingId, ...values }).unwrap();
 
         toast.success("Tracking information updated successfully");
         resetForm();
         setShowModal(false);
-        GetDispatch();
+        refetchDispatches();
       } catch (error) {
         console.log(error);
         toast.error("Failed to update tracking information");
@@ -227,135 +345,69 @@ const Dispatch = () => {
     },
   });
 
-  const GetDispatch = async () => {
-    try {
-      setIsLoading(true);
-
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: "10",
-      });
-
-      if (productFilter !== "All") {
-        params.append("dispatch_status", productFilter);
-      }
-      if (searchTerm) {
-        params.append("search", searchTerm);
-      }
-
-      const response = await axios.get(
-        `${
-          process.env.REACT_APP_BACKEND_URL
-        }dispatch/getAll?${params.toString()}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies.access_token}`,
-          },
-        }
-      );
-
-      let dispatchData = response?.data?.data || [];
-
-      // Fetch sales data to get price information
-      try {
-        const salesResponse = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=1000`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies.access_token}`,
-            },
-          }
-        );
-
-        const salesData = salesResponse?.data?.data || [];
-
-        // Fetch invoice data to get payment information
-        const invoiceResponse = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}invoice/all`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies.access_token}`,
-            },
-          }
-        );
-
-        const invoiceData = invoiceResponse?.data?.invoices || [];
-
-        // Enrich dispatch data with sales price information and invoice data
-        dispatchData = dispatchData.map((dispatch) => {
-          // Find matching sales order by order_id or sales_order_id
-          const matchingSale = salesData.find(
-            (sale) =>
-              sale.order_id === dispatch.order_id ||
-              sale.order_id === dispatch.sales_order_id ||
-              sale._id === dispatch.sale_id
-          );
-
-          // Find matching invoice by order_id or sales data
-          const matchingInvoice = invoiceData.find(
-            (invoice) =>
-              invoice.invoice_no === dispatch.order_id ||
-              (matchingSale &&
-                (invoice.buyer?._id === matchingSale.party?._id ||
-                  invoice.supplier?._id === matchingSale.party?._id))
-          );
-
-          let enrichedDispatch = { ...dispatch };
-
-          if (matchingSale) {
-            enrichedDispatch = {
-              ...enrichedDispatch,
-              // Override with sales price data
-              total_amount: matchingSale.total_price || dispatch.total_amount,
-              sales_price: matchingSale.price || 0,
-              sales_quantity: matchingSale.product_qty || dispatch.quantity,
-              sales_gst: matchingSale.GST || 0,
-              sales_subtotal:
-                matchingSale.price && matchingSale.product_qty
-                  ? matchingSale.price * matchingSale.product_qty
-                  : 0,
-              sales_data: matchingSale, // Store full sales data for reference
-            };
-          }
+  const {
+    data: dispatchesResponse,
+    isLoading,
+    isError,
+    refetch: refetchDispatches,
+  } = useFetchDispatchesQuery(query.params);
+  const { data: salesResponse } = useFetchSalesQuery({ page: 1, limit: 1000 });
+  const { data: invoicesResponse } = useFetchInvoicesQuery();
+  const totalDispatches = dispatchesResponse?.totalData || 0;
+
+  const data = useMemo(
+    () =>
+      enrichDispatches(
+        dispatchesResponse?.data || [],
+        salesResponse?.data || [],
+        invoicesResponse?.invoices || []
+      ),
+    [dispatchesResponse, salesResponse, invoicesResponse]
+  );
 
-          if (matchingInvoice) {
-            enrichedDispatch = {
-              ...enrichedDispatch,
-              invoice: {
-                ...matchingInvoice,
-                total: matchingInvoice.total,
-                balance: matchingInvoice.balance,
-                invoice_no: matchingInvoice.invoice_no,
-              },
-            };
-          }
+  useEffect(() => {
+    if (isError) toast.error("Failed to fetch dispatch data");
+  }, [isError]);
+
+  const fetchAllMatchingDispatches = async () => {
+    const response = await fetchDispatches({
+      ...query.params,
+      page: 1,
+      limit: totalDispatches || query.limit,
+    }).unwrap();
+    return enrichDispatches(
+      response?.data || [],
+      salesResponse?.data || [],
+      invoicesResponse?.invoices || []
+    );
+  };
 
-          return enrichedDispatch;
-        });
-      } catch (salesError) {
-        console.error("Error fetching sales or invoice data:", salesError);
-        // Continue with original dispatch data if fetch fails
-      }
+  useSocketEvent("dispatchUpdate", () => {
+    refetchDispatches();
+  });
 
-      if (paymentFilter !== "All") {
-        dispatchData = dispatchData.filter((dispatch) => {
-          const calculatedStatus = calculatePaymentStatus(dispatch);
-          return calculatedStatus === paymentFilter;
-        });
-      }
+  const dispatch = useDispatch();
+  const { isDispatchDetailsDrawerOpened } = useSelector(
+    (state: any) => state.drawers
+  );
+  const [dispatchId, setDispatchId] = useState<string | undefined>();
 
-      setData(dispatchData);
-    } catch (error) {
-      console.error("Error fetching dispatch data:", error);
-      toast.error("Failed to fetch dispatch data");
-    } finally {
-      setIsLoading(false);
-    }
+  const openDispatchDetailsDrawerHandler = (id: string) => {
+    setDispatchId(id);
+    dispatch(openDispatchDetailsDrawer());
+  };
+  const closeDispatchDetailsDrawerHandler = () => {
+    dispatch(closeDispatchDetailsDrawer());
   };
 
-  useEffect(() => {
-    GetDispatch();
-  }, [page, productFilter, paymentFilter, searchTerm]);
+  // Links from notifications and the command palette
+  useNotificationLink("id", openDispatchDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new" && can("dispatch", "create")) {
+      setEditDispatch(null);
+      setShowAddDispatch(true);
+    }
+  });
 
   if (isLoading) {
     return (
@@ -611,34 +663,44 @@ const Dispatch = () => {
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={() => {
-                  setShowAddDispatch(true);
-                  setEditDispatch(null);
-                }}
-                className="inline-flex items-center gap-1.5 px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="16px" />
-                Add Dispatch
-              </button>
+              {can("dispatch", "create") && (
+                <button
+                  onClick={() => {
+                    setShowAddDispatch(true);
+                    setEditDispatch(null);
+                  }}
+                  className="inline-flex items-center gap-1.5 px-3 py-2 whitespace-nowrap rounded-md text-sm font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="16px" />
+                  Add Dispatch
+                </button>
+              )}
+
+              <ExportMenu
+                module="dispatch"
+                fileName="Dispatches"
+                columns={dispatchExportColumns}
+                fetchRows={fetchAllMatchingDispatches}
+                totalRows={totalDispatches}
+                resource="dispatch"
+                params={query.params}
+              />
 
               <button
                 onClick={() => {
-                  setPaymentFilter("All");
-                  setProductFilter("All");
-                  setSearchTerm("");
-                  GetDispatch();
+                  query.clearFilters();
+                  refetchDispatches();
                 }}
                 className="inline-flex items-center gap-1.5 px-3 py-2 rounded-md text-sm font-medium border transition-colors"
                 style={{
@@ -1249,92 +1311,87 @@ const Dispatch = () => {
                         className="flex gap-3 justify-end pt-4 border-t"
                         style={{ borderColor: colors.border.light }}
                       >
-                        <button
-                          onClick={() => {
-                            setShowAddDispatch(true);
-                            setEditDispatch(dispatch);
-                          }}
-                          className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2"
-                          style={{
-                            backgroundColor: colors.background.card,
-                            borderColor: colors.border.medium,
-                            color: colors.text.secondary,
-                          }}
-                          onMouseEnter={(e) => {
-                            e.currentTarget.style.backgroundColor =
-                              colors.gray[50];
-                          }}
-                          onMouseLeave={(e) => {
-                            e.currentTarget.style.backgroundColor =
-                              colors.background.card;
-                          }}
-                        >
-                          <Pencil size={16} />
-                          Update Dispatch
-                        </button>
-
-                        <button
-                          onClick={() => {
-                            setSelectedDispatchId(dispatch._id);
-                            setUploadType("delivery");
-                            setShowDeliveryProof(true);
-                          }}
-                          className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                            dispatch?.dispatch_status === "Delivered"
-                              ? "border-green-500 bg-green-50"
-                              : ""
-                          }`}
-                          style={{
-                            backgroundColor:
-                              dispatch?.dispatch_status === "Delivered"
-                                ? colors.success[50]
-                                : colors.background.card,
-                            borderColor:
-                              dispatch?.dispatch_status === "Delivered"
-                                ? colors.success[500]
-                                : colors.border.medium,
-                            color:
-                              dispatch?.dispatch_status === "Delivered"
-                                ? colors.success[700]
-                                : colors.text.secondary,
-                          }}
-                          onMouseEnter={(e) => {
-                            e.currentTarget.style.backgroundColor =
-                              dispatch?.dispatch_status === "Delivered"
-                                ? colors.success[100]
-                                : colors.gray[50];
-                          }}
-                          onMouseLeave={(e) => {
-                            e.currentTarget.style.backgroundColor =
+                        {can("dispatch", "update") && (
+                          <button
+                            onClick={() => {
+                              setShowAddDispatch(true);
+                              setEditDispatch(dispatch);
+                            }}
+                            className="flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2"
+                            style={{
+                              backgroundColor: colors.background.card,
+                              borderColor: colors.border.medium,
+                              color: colors.text.secondary,
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                colors.gray[50];
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                colors.background.card;
+                            }}
+                          >
+                            <Pencil size={16} />
+                            Update Dispatch
+                          </button>
+                        )}
+
+                        {can("dispatch", "update") && (
+                          <button
+                            onClick={() => {
+                              setSelectedDispatchId(dispatch._id);
+                              setUploadType("delivery");
+                              setShowDeliveryProof(true);
+                            }}
+                            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
                               dispatch?.dispatch_status === "Delivered"
-                                ? colors.success[50]
-                                : colors.background.card;
-                          }}
-                        >
-                          <HiOutlinePaperClip size={16} />
-                          {dispatch?.delivery_proof?.filename
-                            ? "Update Delivery Proof"
-                            : "Upload Delivery Proof"}
-                        </button>
+                                ? "border-green-500 bg-green-50"
+                                : ""
+                            }`}
+                            style={{
+                              backgroundColor:
+                                dispatch?.dispatch_status === "Delivered"
+                                  ? colors.success[50]
+                                  : colors.background.card,
+                              borderColor:
+                                dispatch?.dispatch_status === "Delivered"
+                                  ? colors.success[500]
+                                  : colors.border.medium,
+                              color:
+                                dispatch?.dispatch_status === "Delivered"
+                                  ? colors.success[700]
+                                  : colors.text.secondary,
+                            }}
+                            onMouseEnter={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                dispatch?.dispatch_status === "Delivered"
+                                  ? colors.success[100]
+                                  : colors.gray[50];
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor =
+                                dispatch?.dispatch_status === "Delivered"
+                                  ? colors.success[50]
+                                  : colors.background.card;
+                            }}
+                          >
+                            <HiOutlinePaperClip size={16} />
+                            {dispatch?.delivery_proof?.filename
+                              ? "Update Delivery Proof"
+                              : "Upload Delivery Proof"}
+                          </button>
+                        )}
 
                         {dispatch?.dispatch_status === "Delivered" &&
                           dispatch?.delivery_proof?.filename && (
                             <button
                               onClick={async () => {
                                 try {
-                                  const response = await axios.get(
-                                    `${process.env.REACT_APP_BACKEND_URL}dispatch/download/${dispatch._id}/delivery-proof`,
-                                    {
-                                      headers: {
-                                        Authorization: `Bearer ${cookies?.access_token}`,
-                                      },
-                                      responseType: "blob",
-                                    }
-                                  );
-
-                                  // Create a blob URL and trigger download
-                                  const blob = new Blob([response.data]);
-                                  const url = window.URL.createObjectURL(blob);
+                                  const url = await downloadDispatchDocument({
+                                    _id: dispatch._id,
+                                    document: "delivery-proof",
+                                  }).unwrap();
                                   const link = document.createElement("a");
                                   link.href = url;
                                   link.download =
@@ -1374,71 +1431,64 @@ const Dispatch = () => {
                             </button>
                           )}
 
-                        <button
-                          onClick={() => {
-                            if (dispatch?.invoice?.filename) {
-                              toast.info(
-                                "Invoice already uploaded. You can only upload once."
-                              );
-                              return;
-                            }
-                            setSelectedDispatchId(dispatch._id);
-                            setUploadType("invoice");
-                            setShowInvoice(true);
-                          }}
-                          disabled={dispatch?.invoice?.filename}
-                          className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
-                            dispatch?.invoice?.filename
-                              ? "border-green-500 bg-green-50 cursor-not-allowed opacity-60"
-                              : ""
-                          }`}
-                          style={{
-                            backgroundColor: dispatch?.invoice?.filename
-                              ? colors.success[50]
-                              : colors.background.card,
-                            borderColor: dispatch?.invoice?.filename
-                              ? colors.success[500]
-                              : colors.border.medium,
-                            color: dispatch?.invoice?.filename
-                              ? colors.success[700]
-                              : colors.text.secondary,
-                          }}
-                          onMouseEnter={(e) => {
-                            if (!dispatch?.invoice?.filename) {
-                              e.currentTarget.style.backgroundColor =
-                                colors.gray[50];
-                            }
-                          }}
-                          onMouseLeave={(e) => {
-                            e.currentTarget.style.backgroundColor = dispatch
-                              ?.invoice?.filename
-                              ? colors.success[50]
-                              : colors.background.card;
-                          }}
-                        >
-                          <HiOutlinePaperClip size={16} />
-                          {dispatch?.invoice?.filename
-                            ? "Invoice Uploaded"
-                            : "Upload Invoice"}
-                        </button>
+                        {can("dispatch", "update") && (
+                          <button
+                            onClick={() => {
+                              if (dispatch?.invoice?.filename) {
+                                toast.info(
+                                  "Invoice already uploaded. You can only upload once."
+                                );
+                                return;
+                              }
+                              setSelectedDispatchId(dispatch._id);
+                              setUploadType("invoice");
+                              setShowInvoice(true);
+                            }}
+                            disabled={dispatch?.invoice?.filename}
+                            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2 ${
+                              dispatch?.invoice?.filename
+                                ? "border-green-500 bg-green-50 cursor-not-allowed opacity-60"
+                                : ""
+                            }`}
+                            style={{
+                              backgroundColor: dispatch?.invoice?.filename
+                                ? colors.success[50]
+                                : colors.background.card,
+                              borderColor: dispatch?.invoice?.filename
+                                ? colors.success[500]
+                                : colors.border.medium,
+                              color: dispatch?.invoice?.filename
+                                ? colors.success[700]
+                                : colors.text.secondary,
+                            }}
+                            onMouseEnter={(e) => {
+                              if (!dispatch?.invoice?.filename) {
+                                e.currentTarget.style.backgroundColor =
+                                  colors.gray[50];
+                              }
+                            }}
+                            onMouseLeave={(e) => {
+                              e.currentTarget.style.backgroundColor = dispatch
+                                ?.invoice?.filename
+                                ? colors.success[50]
+                                : colors.background.card;
+                            }}
+                          >
+                            <HiOutlinePaperClip size={16} />
+                            {dispatch?.invoice?.filename
+                              ? "Invoice Uploaded"
+                              : "Upload Invoice"}
+                          </button>
+                        )}
 
                         {dispatch?.invoice?.filename && (
                           <button
                             onClick={async () => {
                               try {
-                                const response = await axios.get(
-                                  `${process.env.REACT_APP_BACKEND_URL}dispatch/download/${dispatch._id}/invoice`,
-                                  {
-                                    headers: {
-                                      Authorization: `Bearer ${cookies?.access_token}`,
-                                    },
-                                    responseType: "blob",
-                                  }
-                                );
-
-                                // Create a blob URL and trigger download
-                                const blob = new Blob([response.data]);
-                                const url = window.URL.createObjectURL(blob);
+                                const url = await downloadDispatchDocument({
+                                  _id: dispatch._id,
+                                  document: "invoice",
+                                }).unwrap();
                                 const link = document.createElement("a");
                                 link.href = url;
                                 link.download =
@@ -1484,9 +1534,12 @@ const Dispatch = () => {
 
         <div className="mt-6">
           <Pagination
-            page={page}
-            setPage={setPage}
-            hasNextPage={data.length === 10}
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={data.length === query.limit}
+            totalItems={dispatchesResponse?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
           />
         </div>
       </div>
@@ -1804,9 +1857,15 @@ const Dispatch = () => {
             setEditDispatch(null);
           }
         }}
-        fetchDispatch={GetDispatch}
+        fetchDispatch={refetchDispatches}
         editDispatch={editDispatch}
       />
+      {isDispatchDetailsDrawerOpened && (
+        <DispatchDetails
+          dispatchId={dispatchId}
+          closeDrawerHandler={closeDispatchDetailsDrawerHandler}
+        />
+      )}
     </div>
   );
 };
@@ -4,11 +4,19 @@ import { Box, Icon } from "@chakra-ui/react";
 import React, { useEffect, useState } from "react";
 import { FaArrowDown, FaArrowUp } from "react-icons/fa";
 import { TbTruckDelivery, TbPackage, TbClock, TbCheck } from "react-icons/tb";
-import { useLazyFetchDispatchStatsQuery } from "../redux/api/api";
+import {
+  useLazyFetchDispatchStatsQuery,
+  useLazyFetchDispatchesQuery,
+  useLazyFetchInvoicesQuery,
+  useLazyFetchSalesQuery,
+} from "../redux/api/api";
 import { toast } from "react-toastify";
+import {
+  findSaleLine,
+  getLineSubtotal,
+  getLineTotal,
+} from "../components/utils/salesOrders";
 import { colors } from "../theme/colors";
-import { useCookies } from "react-cookie";
-import axios from "axios";
 
 interface DispatchStats {
   totalDispatches: number;
@@ -25,7 +33,9 @@ const DispatchDashboard = () => {
   const [dispatchData, setDispatchData] = useState([]);
   const [isLoadingTable, setIsLoadingTable] = useState(true);
   const [fetchDispatchStats, { isLoading }] = useLazyFetchDispatchStatsQuery();
-  const [cookies] = useCookies();
+  const [fetchDispatches] = useLazyFetchDispatchesQuery();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [fetchInvoices] = useLazyFetchInvoicesQuery();
 
   useEffect(() => {
     fetchStats();
@@ -45,41 +55,23 @@ const DispatchDashboard = () => {
   const fetchDispatchData = async () => {
     try {
       setIsLoadingTable(true);
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}dispatch/getAll?page=1&limit=20`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies.access_token}`,
-          },
-        }
-      );
+      const response = await fetchDispatches({ page: 1, limit: 20 }).unwrap();
 
-      let dispatchData = response?.data?.data || [];
+      let dispatchData = response?.data || [];
 
       // Fetch sales data and invoice data to enrich dispatch data (same as Dispatch.tsx)
       try {
-        const salesResponse = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=1000`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies.access_token}`,
-            },
-          }
-        );
+        const salesResponse = await fetchSales({
+          page: 1,
+          limit: 1000,
+        }).unwrap();
 
-        const salesData = salesResponse?.data?.data || [];
+        const salesData = salesResponse?.data || [];
 
         // Fetch invoice data to get payment information
-        const invoiceResponse = await axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}invoice/all`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies.access_token}`,
-            },
-          }
-        );
+        const invoiceResponse = await fetchInvoices({}).unwrap();
 
-        const invoiceData = invoiceResponse?.data?.invoices || [];
+        const invoiceData = invoiceResponse?.invoices || [];
 
         // Enrich dispatch data with sales price information and invoice data
         dispatchData = dispatchData.map((dispatch) => {
@@ -103,17 +95,17 @@ const DispatchDashboard = () => {
           let enrichedDispatch = { ...dispatch };
 
           if (matchingSale) {
+            const saleLine = findSaleLine(matchingSale, dispatch.product_id);
             enrichedDispatch = {
               ...enrichedDispatch,
               // Override with sales price data
-              total_amount: matchingSale.total_price || dispatch.total_amount,
-              sales_price: matchingSale.price || 0,
-              sales_quantity: matchingSale.product_qty || dispatch.quantity,
-              sales_gst: matchingSale.GST || 0,
-              sales_subtotal:
-                matchingSale.price && matchingSale.product_qty
-                  ? matchingSale.price * matchingSale.product_qty
-                  : 0,
+              total_amount: saleLine
+                ? +getLineTotal(saleLine).toFixed(2)
+                : matchingSale.total_price || dispatch.total_amount,
+              sales_price: saleLine?.price || 0,
+              sales_quantity: saleLine?.quantity || dispatch.quantity,
+              sales_gst: saleLine?.GST || 0,
+              sales_subtotal: saleLine ? getLineSubtotal(saleLine) : 0,
               sales_data: matchingSale, // Store full sales data for reference
             };
           }
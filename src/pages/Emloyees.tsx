@@ -5,7 +5,6 @@ import { MdOutlineRefresh } from "react-icons/md";
 import { FiSearch } from "react-icons/fi";
 import { useEffect, useState } from "react";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddEmployeeDrawer,
@@ -18,11 +17,12 @@ import {
 import EmployeeTable from "../components/Table/EmployeeTable";
 import EmployeeDetails from "../components/Drawers/Employee/EmployeeDetails";
 import UpdateEmployee from "../components/Drawers/Employee/UpdateEmployee";
+import { useLazyFetchEmployeesQuery } from "../redux/api/api";
 
 const Employees: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("employee");
-  const [cookies] = useCookies();
+  const [fetchEmployees] = useLazyFetchEmployeesQuery();
   const [data, setData] = useState([]);
   const [employeeId, setEmployeeId] = useState<string | undefined>();
   const [searchKey, setSearchKey] = useState<string | undefined>();
@@ -55,19 +55,7 @@ const Employees: React.FC = () => {
   const fetchEmployeesHandler = async () => {
     try {
       setIsLoadingEmployees(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "auth/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchEmployees({}).unwrap();
       setData(results.users);
       setFilteredData(results.users);
     } catch (error: any) {
@@ -2,17 +2,19 @@ import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
 import Select from "react-select";
 import { MdOutlineRefresh, MdAdd, MdFileDownload } from "react-icons/md";
 import { AiFillFileExcel } from "react-icons/ai";
-import { RxCross2 } from "react-icons/rx";
 import SampleCSV from "../assets/csv/product-sample.csv";
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   useDeleteProductMutation,
+  useDownloadProductSampleMutation,
+  useExportProductsMutation,
   useBulkDeleteProductsMutation,
+  useLazyFetchProductsQuery,
+  useLazyFetchStoresQuery,
   useProductBulkUploadIndirectMutation,
   useProductBulKUploadMutation,
 } from "../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import ProductTable from "../components/Table/ProductTable";
 import { useDispatch, useSelector } from "react-redux";
 import {
@@ -28,30 +30,39 @@ import UpdateProduct from "../components/Drawers/Product/UpdateProduct";
 import ProductDetails from "../components/Drawers/Product/ProductDetails";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import { useNotificationLink } from "../components/utils/notifications";
+import ImportWizard from "../components/Table/ImportWizard";
+import { productImportConfig } from "../components/utils/importWizard";
 import { Package } from "lucide-react";
+import Pagination from "./Pagination";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
 
 const IndirectProducts: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("inventory");
-  const [cookies] = useCookies();
-  const [data, setData] = useState([]);
+  const can = useCan();
   const [productId, setProductId] = useState<string | undefined>(); // Product Id to be updated or deleted
-  const [searchKey, setSearchKey] = useState<string | undefined>();
-  const [filteredData, setFilteredData] = useState<any>([]);
+  const query = useTableQuery({ filters: ["product_or_service", "store"] });
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
 
   // Bulk upload menu
   const [showBulkUploadMenu, setShowBulkUploadMenu] = useState<boolean>(false);
   const [isExporting, setIsExporting] = useState<boolean>(false);
   // Filters
-  const [productServiceFilter, setProductServiceFilter] = useState<string>("");
+  const productServiceFilter = query.filters.product_or_service;
   const [storeOptions, setStoreOptions] = useState<
     { value: string; label: string }[] | []
   >([]);
-  const [storeFilter, setStoreFilter] = useState<
-    { value: string; label: string } | undefined
-  >();
-  const fileRef = useRef<HTMLInputElement | null>(null);
-  const [bulkUploading, setBulkUploading] = useState<boolean>(false);
+  const storeFilter = storeOptions.find(
+    (store) => store.value === query.filters.store
+  );
 
   const [bulkUpload] = useProductBulkUploadIndirectMutation();
 
@@ -91,6 +102,14 @@ const IndirectProducts: React.FC = () => {
     dispatch(closeProductDetailsDrawer());
   };
 
+  // Links from the command palette
+  useNotificationLink("id", openProductDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new" && can("inventory", "create")) {
+      openAddProductDrawerHandler();
+    }
+  });
+
   const deleteProductHandler = async (id: string) => {
     try {
       const response: any = await deleteProduct({ _id: id }).unwrap();
@@ -111,48 +130,26 @@ const IndirectProducts: React.FC = () => {
     }
   };
 
-  const [isLoadingProducts, setIsLoadingProducts] = useState<boolean>(false);
+  const [
+    fetchProducts,
+    { data: productsData, isFetching: isLoadingProducts },
+  ] = useLazyFetchProductsQuery();
+  const data = useMemo(() => productsData?.products || [], [productsData]);
+  const [fetchStores] = useLazyFetchStoresQuery();
+  const [exportProducts] = useExportProductsMutation();
+  const [downloadProductSample] = useDownloadProductSampleMutation();
 
   const fetchProductsHandler = async () => {
     try {
-      setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all?category=indirect",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
-      setData(results.products);
-      setFilteredData(results.products);
+      await fetchProducts({ ...query.params, category: "indirect" }).unwrap();
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
-    } finally {
-      setIsLoadingProducts(false);
     }
   };
 
   const fetchAllStores = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores().unwrap();
       let modifiedStores = [{ value: "", label: "All" }];
       modifiedStores.push(
         ...data.stores.map((store: any) => ({
@@ -166,74 +163,19 @@ const IndirectProducts: React.FC = () => {
     }
   };
 
-  const bulkUploadHandler = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    const file = fileRef?.current?.files?.[0];
-    if (!file) {
-      toast.error("CSV file not selected");
-      return;
-    }
-
-    try {
-      setBulkUploading(true);
-      const formData = new FormData();
-      formData.append("excel", file);
-
-      const response = await bulkUpload(formData).unwrap();
-      toast.success(response.message);
-      setShowBulkUploadMenu(false);
-      fetchProductsHandler();
-    } catch (err: any) {
-      toast.error(err?.data?.message || err?.message || "Something went wrong");
-    } finally {
-      setBulkUploading(false);
-    }
-  };
   const [productTypeFilter, setProductTypeFilter] = useState<string>("");
 
   const exportToExcelHandler = async () => {
     try {
       setIsExporting(true);
 
-      // Build query parameters based on current filters
-      const queryParams = new URLSearchParams();
-      if (productTypeFilter) {
-        queryParams.append("category", productTypeFilter);
-      }
-
-      const response = await fetch(
-        `${
-          process.env.REACT_APP_BACKEND_URL
-        }product/exports/inexcel?${queryParams.toString()}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Export failed");
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      const { url, filename } = await exportProducts({
+        category: "indirect",
+        productType: productTypeFilter,
+      }).unwrap();
       const link = document.createElement("a");
       link.href = url;
-
-      // Get filename from response headers or create default
-      const contentDisposition = response.headers.get("content-disposition");
-      let filename = "indirect_products.xlsx";
-      if (contentDisposition) {
-        const match = contentDisposition.match(/filename="(.+)"/);
-        if (match) {
-          filename = match[1];
-        }
-      }
-
-      link.download = filename;
+      link.download = filename || "indirect_products.xlsx";
       document.body.appendChild(link);
       link.click();
       link.remove();
@@ -249,22 +191,7 @@ const IndirectProducts: React.FC = () => {
 
   const downloadSampleTemplate = async () => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}product/exports/insample`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error("Download failed");
-      }
-
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
+      const { url } = await downloadProductSample("indirect").unwrap();
       const link = document.createElement("a");
       link.href = url;
       link.download = "indirect_products_sample_template.xlsx";
@@ -322,51 +249,12 @@ const IndirectProducts: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchProductsHandler();
     fetchAllStores();
   }, []);
 
   useEffect(() => {
-    const searchTxt = searchKey?.toLowerCase();
-    // // @ts-ignore
-    const results = data.filter(
-      (prod: any) =>
-        prod.product_or_service?.toLowerCase().includes(productServiceFilter) &&
-        storeFilter &&
-        (storeFilter?.value === "" ||
-          prod?.store?._id === storeFilter?.value) &&
-        (prod.name?.toLowerCase()?.includes(searchTxt) ||
-          prod.product_id?.toLowerCase()?.includes(searchTxt) ||
-          prod.category?.toLowerCase()?.includes(searchTxt) ||
-          prod.price
-            ?.toString()
-            ?.toLowerCase()
-            ?.toString()
-            .includes(searchTxt) ||
-          prod.uom?.toLowerCase()?.includes(searchTxt) ||
-          prod.current_stock?.toString().toString().includes(searchTxt) ||
-          prod?.min_stock?.toString()?.includes(searchTxt) ||
-          prod?.max_stock?.toString()?.includes(searchTxt) ||
-          prod?.hsn?.includes(searchTxt) ||
-          (prod?.createdAt &&
-            new Date(prod?.createdAt)
-              ?.toISOString()
-              ?.substring(0, 10)
-              ?.split("-")
-              .reverse()
-              .join("")
-              ?.includes(searchTxt?.replaceAll("/", "") || "")) ||
-          (prod?.updatedAt &&
-            new Date(prod?.updatedAt)
-              ?.toISOString()
-              ?.substring(0, 10)
-              ?.split("-")
-              ?.reverse()
-              ?.join("")
-              ?.includes(searchTxt?.replaceAll("/", "") || "")))
-    );
-    setFilteredData(results);
-  }, [searchKey, productServiceFilter, storeFilter]);
+    fetchProductsHandler();
+  }, [query.params]);
 
   if (!isAllowed) {
     return (
@@ -436,24 +324,26 @@ const IndirectProducts: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddProductDrawerHandler}
-                className="inline-flex items-center gap-2 px-3 py-1.5 whitespace-nowrap rounded-md text-sm font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="16px" />
-                Add Product
-              </button>
+              {can("inventory", "create") && (
+                <button
+                  onClick={openAddProductDrawerHandler}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 whitespace-nowrap rounded-md text-sm font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="16px" />
+                  Add Product
+                </button>
+              )}
 
               {/* Bulk Upload */}
               <button
@@ -551,7 +441,7 @@ const IndirectProducts: React.FC = () => {
                     e.currentTarget.style.boxShadow = "none";
                   }}
                   placeholder="Search by name, ID, category..."
-                  value={searchKey || ""}
+                  value={searchKey}
                   onChange={(e) => setSearchKey(e.target.value)}
                 />
               </div>
@@ -567,7 +457,9 @@ const IndirectProducts: React.FC = () => {
               </label>
               <select
                 value={productServiceFilter}
-                onChange={(e) => setProductServiceFilter(e.target.value)}
+                onChange={(e) =>
+                  query.setFilter("product_or_service", e.target.value)
+                }
                 className="w-full px-3 py-2.5 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
                 style={{
                   backgroundColor: colors.input.background,
@@ -601,7 +493,7 @@ const IndirectProducts: React.FC = () => {
                 styles={customSelectStyles}
                 options={storeOptions}
                 value={storeFilter}
-                onChange={(d: any) => setStoreFilter(d)}
+                onChange={(d: any) => query.setFilter("store", d?.value || "")}
                 placeholder="Select store..."
                 isClearable
               />
@@ -609,94 +501,15 @@ const IndirectProducts: React.FC = () => {
           </div>
         </div>
 
-        {/* Bulk Upload Modal */}
+        {/* Import Wizard */}
         {showBulkUploadMenu && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div
-              className="rounded-xl shadow-xl max-w-md w-full p-6"
-              style={{ backgroundColor: colors.background.card }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3
-                  className="text-lg font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Bulk Upload Indirect Products
-                </h3>
-                <button
-                  onClick={() => setShowBulkUploadMenu(false)}
-                  className="p-1 rounded-lg transition-colors"
-                  style={{ color: colors.text.secondary }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = colors.gray[100];
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                >
-                  <RxCross2 size="20px" />
-                </button>
-              </div>
-
-              <form onSubmit={bulkUploadHandler}>
-                <div className="mb-4">
-                  <label
-                    className="block text-sm font-medium mb-2"
-                    style={{ color: colors.text.primary }}
-                  >
-                    Choose File (.csv or .xlsx)
-                  </label>
-                  <input
-                    ref={fileRef}
-                    type="file"
-                    accept=".csv, .xlsx, .xls"
-                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
-                    style={{
-                      backgroundColor: colors.input.background,
-                      borderColor: colors.input.border,
-                      color: colors.text.primary,
-                    }}
-                  />
-                  <p
-                    className="text-xs mt-1"
-                    style={{ color: colors.text.secondary }}
-                  >
-                    Note: Product ID will be auto-generated. Don't include it in
-                    your file.
-                  </p>
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="submit"
-                    disabled={bulkUploading}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                  >
-                    {bulkUploading ? "Uploading..." : "Upload"}
-                    <AiFillFileExcel size="16px" />
-                  </button>
-
-                  <button
-                    type="button"
-                    onClick={downloadSampleTemplate}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                    style={{
-                      borderColor: colors.border.medium,
-                      color: colors.text.primary,
-                      backgroundColor: colors.background.card,
-                    }}
-                  >
-                    Sample Template
-                    <AiFillFileExcel size="16px" />
-                  </button>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ImportWizard
+            config={productImportConfig}
+            upload={(formData) => bulkUpload(formData).unwrap()}
+            onImported={fetchProductsHandler}
+            onClose={() => setShowBulkUploadMenu(false)}
+            onDownloadSample={downloadSampleTemplate}
+          />
         )}
 
         {/* Table Section */}
@@ -709,11 +522,28 @@ const IndirectProducts: React.FC = () => {
         >
           <ProductTable
             isLoadingProducts={isLoadingProducts}
-            products={filteredData}
-            openUpdateProductDrawerHandler={openUpdateProductDrawerHandler}
+            products={data}
+            totalProducts={productsData?.totalData}
+            sortBy={query.sortBy}
+            onSortByChange={query.setSortBy}
+            openUpdateProductDrawerHandler={
+              can("inventory", "update") ? openUpdateProductDrawerHandler : undefined
+            }
             openProductDetailsDrawerHandler={openProductDetailsDrawerHandler}
-            deleteProductHandler={deleteProductHandler}
-            bulkDeleteProductsHandler={bulkDeleteProductsHandler}
+            deleteProductHandler={
+              can("inventory", "delete") ? deleteProductHandler : undefined
+            }
+            bulkDeleteProductsHandler={
+              can("inventory", "delete") ? bulkDeleteProductsHandler : undefined
+            }
+          />
+          <Pagination
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={data.length === query.limit}
+            totalItems={productsData?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
           />
         </div>
       </div>
@@ -1,9 +1,625 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPlus } from "react-icons/fi";
+import { Plug } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeleteWebhookMutation,
+  useLazyFetchApiKeysQuery,
+  useLazyFetchConnectorsQuery,
+  useLazyFetchWebhookDeliveriesQuery,
+  useLazyFetchWebhooksQuery,
+  useRetryWebhookDeliveryMutation,
+  useRevokeApiKeyMutation,
+  useSyncConnectorMutation,
+  useTestWebhookMutation,
+} from "../redux/api/api";
+import AddWebhook from "../components/Drawers/Integration/AddWebhook";
+import AddApiKey from "../components/Drawers/Integration/AddApiKey";
+import ConfigureConnector from "../components/Drawers/Integration/ConfigureConnector";
+import {
+  ConnectorDefinition,
+  connectorDefinitions,
+  deliveryStatusColorMap,
+  getConnector,
+  getSyncStatus,
+  getWebhookEventLabel,
+  maskApiKey,
+  syncStatusColorMap,
+} from "../components/utils/integrations";
+
+type Tab = "webhooks" | "deliveries" | "api-keys" | "connectors";
+
+const formatDateTime = (date?: string) =>
+  date ? new Date(date).toLocaleString() : "-";
+
+const Integration: React.FC = () => {
+  const can = useCan();
+  const [activeTab, setActiveTab] = useState<Tab>("webhooks");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const [isWebhookDrawerOpened, setIsWebhookDrawerOpened] = useState(false);
+  const [editWebhook, setEditWebhook] = useState<any | null>(null);
+  const [isApiKeyDrawerOpened, setIsApiKeyDrawerOpened] = useState(false);
+  const [configureConnector, setConfigureConnector] =
+    useState<ConnectorDefinition | null>(null);
+  const [syncingType, setSyncingType] = useState<string | null>(null);
+
+  const [fetchWebhooks, { data: webhookData }] = useLazyFetchWebhooksQuery();
+  const [fetchDeliveries, { data: deliveryData }] =
+    useLazyFetchWebhookDeliveriesQuery();
+  const [fetchApiKeys, { data: apiKeyData }] = useLazyFetchApiKeysQuery();
+  const [fetchConnectors, { data: connectorData }] =
+    useLazyFetchConnectorsQuery();
+  const [deleteWebhook] = useDeleteWebhookMutation();
+  const [testWebhook] = useTestWebhookMutation();
+  const [retryDelivery] = useRetryWebhookDeliveryMutation();
+  const [revokeApiKey] = useRevokeApiKeyMutation();
+  const [syncConnector] = useSyncConnectorMutation();
+
+  const webhooks: any[] = useMemo(
+    () => webhookData?.webhooks || [],
+    [webhookData]
+  );
+  const deliveries: any[] = useMemo(
+    () => deliveryData?.deliveries || [],
+    [deliveryData]
+  );
+  const apiKeys: any[] = useMemo(
+    () => apiKeyData?.api_keys || [],
+    [apiKeyData]
+  );
+  const connectors: any[] = useMemo(
+    () => connectorData?.connectors || [],
+    [connectorData]
+  );
+
+  const fetchIntegrationDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      await Promise.all([
+        fetchWebhooks({}).unwrap(),
+        fetchDeliveries({}).unwrap(),
+        fetchApiKeys({}).unwrap(),
+        fetchConnectors({}).unwrap(),
+      ]);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchIntegrationDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const runAction = async (action: () => Promise<any>, fallback: string) => {
+    try {
+      const response = await action();
+      toast.success(response?.message || fallback);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const syncConnectorHandler = async (type: string) => {
+    setSyncingType(type);
+    await runAction(() => syncConnector(type).unwrap(), "Sync started");
+    setSyncingType(null);
+  };
+
+  const activeApiKeys = apiKeys.filter((key: any) => !key.revoked);
+  const stats = [
+    {
+      label: "Active Webhooks",
+      value: webhooks.filter((webhook: any) => webhook.active).length,
+    },
+    {
+      label: "Failed Deliveries",
+      value: deliveries.filter(
+        (delivery: any) => delivery.status === "Failed"
+      ).length,
+    },
+    { label: "Active API Keys", value: activeApiKeys.length },
+    {
+      label: "Connectors Enabled",
+      value: connectors.filter((connector: any) => connector.enabled).length,
+    },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "webhooks", label: "Webhooks" },
+    { key: "deliveries", label: "Delivery Logs" },
+    { key: "api-keys", label: "API Keys" },
+    { key: "connectors", label: "Connectors" },
+  ];
+
+  const emptyRow = (colSpan: number, message: string) => (
+    <tr>
+      <td
+        colSpan={colSpan}
+        className="px-4 py-6 text-center"
+        style={{ color: colors.text.secondary }}
+      >
+        {isLoading ? "Loading..." : message}
+      </td>
+    </tr>
+  );
 
-const Integration = () => {
   return (
-    <div>Integration</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isWebhookDrawerOpened && (
+        <AddWebhook
+          closeDrawerHandler={() => {
+            setIsWebhookDrawerOpened(false);
+            setEditWebhook(null);
+          }}
+          editWebhook={editWebhook}
+        />
+      )}
+      {isApiKeyDrawerOpened && (
+        <AddApiKey closeDrawerHandler={() => setIsApiKeyDrawerOpened(false)} />
+      )}
+      {configureConnector && (
+        <ConfigureConnector
+          closeDrawerHandler={() => setConfigureConnector(null)}
+          definition={configureConnector}
+          connector={getConnector(configureConnector.type, connectors)}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-violet-500 to-violet-600 p-3 rounded-xl shadow-lg">
+                <Plug className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Integrations
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Webhooks, API keys and connectors to external systems
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {(activeTab === "webhooks" || activeTab === "api-keys") &&
+                can("integration", "create") && (
+                  <button
+                    onClick={() =>
+                      activeTab === "webhooks"
+                        ? setIsWebhookDrawerOpened(true)
+                        : setIsApiKeyDrawerOpened(true)
+                    }
+                    style={{ backgroundColor: colors.primary[600] }}
+                    onMouseEnter={(e) => {
+                      e.currentTarget.style.backgroundColor = colors.primary[700];
+                    }}
+                    onMouseLeave={(e) => {
+                      e.currentTarget.style.backgroundColor = colors.primary[600];
+                    }}
+                    className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                  >
+                    <FiPlus size={16} />
+                    {activeTab === "webhooks" ? "Add Webhook" : "Issue API Key"}
+                  </button>
+                )}
+              <Button
+                onClick={fetchIntegrationDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {activeTab === "connectors" ? (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {connectorDefinitions.map((definition) => {
+              const connector = getConnector(definition.type, connectors);
+              const syncStatus = getSyncStatus(connector);
+              return (
+                <div
+                  key={definition.type}
+                  className="rounded-xl shadow-sm border p-5 flex flex-col"
+                  style={{
+                    backgroundColor: colors.background.card,
+                    borderColor: colors.border.light,
+                  }}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <h2
+                      className="text-lg font-semibold"
+                      style={{ color: colors.text.primary }}
+                    >
+                      {definition.name}
+                    </h2>
+                    <span
+                      className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        syncStatusColorMap[syncStatus] ||
+                        "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {syncStatus}
+                    </span>
+                  </div>
+                  <p
+                    className="text-sm mt-1"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    {definition.description}
+                  </p>
+                  <div className="mt-4 text-sm space-y-1 flex-1">
+                    <p>
+                      <span className="text-gray-500">Status: </span>
+                      {connector.enabled ? "Enabled" : "Disabled"}
+                    </p>
+                    <p>
+                      <span className="text-gray-500">Last synced: </span>
+                      {formatDateTime(connector.last_synced_at)}
+                    </p>
+                    {syncStatus === "Failed" && connector.last_error && (
+                      <p className="text-red-600 text-xs">
+                        {connector.last_error}
+                      </p>
+                    )}
+                  </div>
+                  <div className="mt-4 flex gap-2">
+                    {can("integration", "update") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setConfigureConnector(definition)}
+                      >
+                        Configure
+                      </Button>
+                    )}
+                    {can("integration", "update") && (
+                      <Button
+                        size="sm"
+                        colorScheme="blue"
+                        isDisabled={!connector.enabled}
+                        isLoading={syncingType === definition.type}
+                        onClick={() => syncConnectorHandler(definition.type)}
+                      >
+                        Sync Now
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div
+            className="rounded-xl shadow-sm border overflow-x-auto"
+            style={{
+              backgroundColor: colors.background.card,
+              borderColor: colors.border.light,
+            }}
+          >
+            {activeTab === "webhooks" && (
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-4 py-3 text-left">Endpoint</th>
+                    <th className="px-4 py-3 text-left">Events</th>
+                    <th className="px-4 py-3 text-left">Status</th>
+                    <th className="px-4 py-3 text-left">Last Delivery</th>
+                    <th className="px-4 py-3 text-left">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {webhooks.length === 0 &&
+                    emptyRow(5, "No webhooks configured yet.")}
+                  {webhooks.map((webhook: any) => (
+                    <tr
+                      key={webhook._id}
+                      className="border-t align-top"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3 font-medium break-all">
+                        {webhook.url}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex flex-wrap gap-1">
+                          {(webhook.events || []).map((event: string) => (
+                            <span
+                              key={event}
+                              className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700"
+                            >
+                              {getWebhookEventLabel(event)}
+                            </span>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            webhook.active
+                              ? "bg-green-100 text-green-800"
+                              : "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {webhook.active ? "Active" : "Paused"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatDateTime(webhook.last_delivery_at)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <div className="flex gap-2">
+                          {can("integration", "update") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              onClick={() =>
+                                runAction(
+                                  () => testWebhook(webhook._id).unwrap(),
+                                  "Test event sent"
+                                )
+                              }
+                            >
+                              Send Test
+                            </Button>
+                          )}
+                          {can("integration", "update") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              onClick={() => {
+                                setEditWebhook(webhook);
+                                setIsWebhookDrawerOpened(true);
+                              }}
+                            >
+                              Edit
+                            </Button>
+                          )}
+                          {can("integration", "delete") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              colorScheme="red"
+                              onClick={() =>
+                                runAction(
+                                  () => deleteWebhook(webhook._id).unwrap(),
+                                  "Webhook deleted"
+                                )
+                              }
+                            >
+                              Delete
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {activeTab === "deliveries" && (
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-4 py-3 text-left">Time</th>
+                    <th className="px-4 py-3 text-left">Event</th>
+                    <th className="px-4 py-3 text-left">Endpoint</th>
+                    <th className="px-4 py-3 text-left">Status</th>
+                    <th className="px-4 py-3 text-left">Response</th>
+                    <th className="px-4 py-3 text-right">Attempts</th>
+                    <th className="px-4 py-3 text-left">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.length === 0 &&
+                    emptyRow(7, "No deliveries logged yet.")}
+                  {deliveries.map((delivery: any) => (
+                    <tr
+                      key={delivery._id}
+                      className="border-t align-top"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3">
+                        {formatDateTime(delivery.createdAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {getWebhookEventLabel(delivery.event)}
+                      </td>
+                      <td className="px-4 py-3 break-all">
+                        {delivery.webhook?.url || delivery.url || "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            deliveryStatusColorMap[delivery.status] ||
+                            "bg-gray-100 text-gray-800"
+                          }`}
+                        >
+                          {delivery.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        {delivery.response_code || "-"}
+                        {delivery.error && (
+                          <span className="block text-xs text-red-600">
+                            {delivery.error}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {delivery.attempts || 0}
+                      </td>
+                      <td className="px-4 py-3">
+                        {delivery.status === "Failed" &&
+                          can("integration", "update") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              onClick={() =>
+                                runAction(
+                                  () => retryDelivery(delivery._id).unwrap(),
+                                  "Delivery queued for retry"
+                                )
+                              }
+                            >
+                              Retry
+                            </Button>
+                          )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {activeTab === "api-keys" && (
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-4 py-3 text-left">Name</th>
+                    <th className="px-4 py-3 text-left">Key</th>
+                    <th className="px-4 py-3 text-left">Created</th>
+                    <th className="px-4 py-3 text-left">Last Used</th>
+                    <th className="px-4 py-3 text-left">Expires</th>
+                    <th className="px-4 py-3 text-left">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {apiKeys.length === 0 &&
+                    emptyRow(6, "No API keys issued yet.")}
+                  {apiKeys.map((apiKey: any) => (
+                    <tr
+                      key={apiKey._id}
+                      className="border-t"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3 font-medium">{apiKey.name}</td>
+                      <td className="px-4 py-3 font-mono">
+                        {maskApiKey(apiKey)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatDateTime(apiKey.createdAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatDateTime(apiKey.last_used_at)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {apiKey.expires_at
+                          ? new Date(apiKey.expires_at).toLocaleDateString()
+                          : "Never"}
+                      </td>
+                      <td className="px-4 py-3">
+                        {apiKey.revoked ? (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Revoked
+                          </span>
+                        ) : (
+                          can("integration", "delete") && (
+                              <Button
+                                size="xs"
+                                variant="outline"
+                                colorScheme="red"
+                                onClick={() =>
+                                  runAction(
+                                    () => revokeApiKey(apiKey._id).unwrap(),
+                                    "API key revoked"
+                                  )
+                                }
+                              >
+                                Revoke
+                              </Button>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
 
-export default Integration
\ No newline at end of file
+export default Integration;
@@ -8,7 +8,14 @@ import { useCookies } from "react-cookie";
 import { useSelector } from "react-redux";
 import BOMRawMaterialTable from "../components/Table/BOMRawMaterialTable";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
 import FinishedGoodsTable from "../components/Table/FinishGoodsApprovalTable";
+import {
+  useApproveInventoryRawMaterialMutation,
+  useLazyFetchInventoryRawMaterialsQuery,
+  useLazyFetchProcessesInInventoryQuery,
+  useUpdateProcessInventoryStatusMutation,
+} from "../redux/api/api";
 
 // Lightweight Finished Goods table right here so you don't need an external component
 // Swap this with your own component if you already have one.
@@ -16,9 +23,16 @@ import FinishedGoodsTable from "../components/Table/FinishGoodsApprovalTable";
 const InventoryApprovals: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("inventory");
+  const can = useCan();
   const [isApproved, setIsApproved] = useState(false);
   const [cookies] = useCookies();
   const token = cookies?.access_token;
+  const [fetchProcessesInInventory] = useLazyFetchProcessesInInventoryQuery();
+  const [fetchInventoryRawMaterials] = useLazyFetchInventoryRawMaterialsQuery();
+  const [approveInventoryRawMaterial] =
+    useApproveInventoryRawMaterialMutation();
+  const [updateProcessInventoryStatus] =
+    useUpdateProcessInventoryStatusMutation();
 
   // Search
   const [searchKey, setSearchKey] = useState<string | undefined>("");
@@ -40,16 +54,7 @@ const InventoryApprovals: React.FC = () => {
   const fetchRM = async () => {
     try {
       setIsLoadingRM(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "bom/all/inventory/raw-materials",
-        {
-          method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-      const results = await response.json();
-      if (!results?.success)
-        throw new Error(results?.message || "Failed to load raw materials");
+      const results = await fetchInventoryRawMaterials({}).unwrap();
       setRmData(results.unapproved || []);
       setRmFiltered(results.unapproved || []);
     } catch (err: any) {
@@ -61,22 +66,7 @@ const InventoryApprovals: React.FC = () => {
 
   const approveRM = async (id: string) => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}bom/approve/inventory/raw-materials`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ _id: id }),
-        }
-      );
-
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      await approveInventoryRawMaterial(id).unwrap();
 
       toast.success("Raw material approved successfully!");
       setIsApproved(true);
@@ -90,17 +80,7 @@ const InventoryApprovals: React.FC = () => {
   const fetchFG = async () => {
     try {
       setIsLoadingFG(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL +
-        "production-process/moved-to-inventory",
-        {
-          method: "GET",
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-      const results = await response.json();
-      if (!results?.success)
-        throw new Error(results?.message || "Failed to load finished goods");
+      const results = await fetchProcessesInInventory({}).unwrap();
       // Accept either `unapproved` or a plain array depending on backend
       const items = results.unapproved || results.data || results.items || [];
       setFgData(items);
@@ -116,23 +96,10 @@ const InventoryApprovals: React.FC = () => {
 
   const approveFG = async (id: string) => {
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/update-inventory-status`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            processId: id,
-            status: "allocated finish goods",
-          }),
-        }
-      );
-
-      const data = await response.json();
-      if (!data?.success) throw new Error(data?.message || "Approval failed");
+      const data = await updateProcessInventoryStatus({
+        processId: id,
+        status: "allocated finish goods",
+      }).unwrap();
 
       toast.success(data.message || "Status updated to allocated");
 
@@ -402,7 +369,9 @@ const InventoryApprovals: React.FC = () => {
               <BOMRawMaterialTable
                 products={rmFiltered}
                 isLoadingProducts={isLoadingRM}
-                approveProductHandler={approveRM}
+                approveProductHandler={
+                  can("inventory", "approve") ? approveRM : undefined
+                }
                 onRefresh={fetchRM}
                 isApproved={isApproved}
               />
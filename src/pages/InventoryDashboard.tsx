@@ -11,6 +11,12 @@ import {
 import { toast } from 'react-toastify';
 import { useCookies } from 'react-cookie';
 import { useNavigate } from 'react-router-dom';
+import {
+  useLazyFetchInventoryRawMaterialsQuery,
+  useLazyFetchInventoryStatsQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchWipProductsQuery,
+} from '../redux/api/api';
 
 interface InventoryStats {
   direct_inventory: {
@@ -106,6 +112,10 @@ const InventoryDashboard: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [cookies] = useCookies(['access_token']);
+  const [fetchStats] = useLazyFetchInventoryStatsQuery();
+  const [fetchWipProducts] = useLazyFetchWipProductsQuery();
+  const [fetchInventoryRawMaterials] = useLazyFetchInventoryRawMaterialsQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
   const navigate = useNavigate();
   
   // New state for products and dropdown
@@ -172,36 +182,18 @@ const InventoryDashboard: React.FC = () => {
           return;
         }
 
-        const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}dashboard/inventory-stats`, {
-          method: 'GET',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${cookies.access_token}`,
-          },
-          credentials: 'include', // This ensures cookies are sent with the request
-        });
-
-        if (response.status === 401) {
+        const data = (await fetchStats({}).unwrap()) as InventoryStats;
+        setInventoryStats(data);
+        setError(null); // Clear any previous errors
+      } catch (error: any) {
+        console.error('Error fetching inventory stats:', error);
+        if (error?.status === 401) {
           // Session expired or invalid
           setError('Session expired. Please login again.');
           toast.error('Session expired. Please login again.');
-          // Optionally redirect to login page
-          // window.location.href = '/login';
-          setLoading(false);
           return;
         }
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.message || 'Failed to fetch inventory stats');
-        }
-
-        const data = await response.json();
-        setInventoryStats(data);
-        setError(null); // Clear any previous errors
-      } catch (error) {
-        console.error('Error fetching inventory stats:', error);
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load inventory statistics';
+        const errorMessage = error?.message || 'Failed to load inventory statistics';
         setError(errorMessage);
         toast.error(errorMessage);
       } finally {
@@ -210,7 +202,7 @@ const InventoryDashboard: React.FC = () => {
     };
 
     fetchInventoryStats();
-  }, [cookies.access_token]);
+  }, [cookies.access_token, fetchStats]);
 
   // Fetch products by category
   const fetchProductsByCategory = useCallback(async (category: string) => {
@@ -219,59 +211,36 @@ const InventoryDashboard: React.FC = () => {
       setProductsError(null);
 
       // Use different endpoint based on category
-      let endpoint: string;
-      if (category === 'work_in_progress') {
-        endpoint = `${process.env.REACT_APP_BACKEND_URL}product/wip`;
-      } else if (category === 'inventory_approval') {
-        endpoint = `${process.env.REACT_APP_BACKEND_URL}bom/all/inventory/raw-materials`;
-      } else {
-        endpoint = `${process.env.REACT_APP_BACKEND_URL}product/all?category=${category}`;
-      }
-
-      const response = await fetch(endpoint, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies.access_token}`,
-        },
-        credentials: 'include',
-      });
-
-      if (response.status === 401) {
-        setProductsError('Session expired. Please login again.');
-        toast.error('Session expired. Please login again.');
-        return;
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to fetch products');
-      }
-
-      const data = await response.json();
-      
       if (category === 'work_in_progress') {
-        setWipProducts(data.products || []);
+        const data = await fetchWipProducts({}).unwrap();
+        setWipProducts((data.products || []) as WIPProduct[]);
         setProducts([]); // Clear regular products
         setApprovalItems([]); // Clear approval items
       } else if (category === 'inventory_approval') {
-        setApprovalItems(data.unapproved || []);
+        const data = await fetchInventoryRawMaterials({}).unwrap();
+        setApprovalItems(
+          (data.unapproved || []) as InventoryApprovalItem[]
+        );
         setProducts([]); // Clear regular products
         setWipProducts([]); // Clear WIP products
       } else {
-        setProducts(data.products || []);
+        const data = await fetchProducts({ category }).unwrap();
+        setProducts((data.products || []) as Product[]);
         setWipProducts([]); // Clear WIP products
         setApprovalItems([]); // Clear approval items
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error fetching products:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Failed to load products';
+      const errorMessage =
+        error?.status === 401
+          ? 'Session expired. Please login again.'
+          : error?.message || 'Failed to load products';
       setProductsError(errorMessage);
       toast.error(errorMessage);
     } finally {
       setProductsLoading(false);
     }
-  }, [cookies.access_token]);
+  }, [fetchWipProducts, fetchInventoryRawMaterials, fetchProducts]);
 
   // Fetch products when category changes
   useEffect(() => {
@@ -1,27 +1,17 @@
 import React, { useEffect, useState } from "react";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { colors } from "../theme/colors";
+import { useLazyFetchInventoryShortagesQuery } from "../redux/api/api";
 
 const InventoryShortages: React.FC = () => {
-  const [cookies] = useCookies();
+  const [fetchInventoryShortages] = useLazyFetchInventoryShortagesQuery();
   const [shortages, setShortages] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   const fetchShortages = async () => {
     setIsLoading(true);
     try {
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}bom/inventory-shortages`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      ); 
-      const data = await response.json();
-      if (!data.success) throw new Error(data.message);
+      const data = await fetchInventoryShortages({}).unwrap();
       setShortages(data.shortages || []);
     } catch (err: any) {
       toast.error(err?.message || "Failed to fetch inventory shortages");
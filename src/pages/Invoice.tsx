@@ -1,6 +1,6 @@
 // @ts-nocheck
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { toast } from "react-toastify";
 import { useDispatch, useSelector } from "react-redux";
 import {
@@ -15,10 +15,12 @@ import {
   openUpdateInvoiceDrawer,
   openUpdatePaymentDrawer,
 } from "../redux/reducers/drawersSlice";
-import { useCookies } from "react-cookie";
 import { MdAdd, MdOutlineRefresh } from "react-icons/md";
 import { FiSearch } from "react-icons/fi";
-import { useDeleteInvoiceMutation } from "../redux/api/api";
+import {
+  useDeleteInvoiceMutation,
+  useLazyFetchInvoicesQuery,
+} from "../redux/api/api";
 import InvoiceTable from "../components/Table/InvoiceTable";
 import AddInvoice from "../components/Drawers/Invoice/AddInvoice";
 import InvoiceDetails from "../components/Drawers/Invoice/InvoiceDetails";
@@ -26,16 +28,38 @@ import UpdateInvoice from "../components/Drawers/Invoice/UpdateInvoice";
 import AddPayment from "../components/Drawers/Payment/AddPayment";
 import UpdatePayment from "../components/Drawers/Payment/UpdatePayment";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import { useNotificationLink } from "../components/utils/notifications";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import Pagination from "./Pagination";
 import { Button } from "@chakra-ui/react";
 
 const Invoice: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("sale & purchase");
-  const [cookies] = useCookies();
-  const [searchKey, setSearchKey] = useState<string | undefined>();
-  const [data, setData] = useState<any[] | []>([]);
-  const [filteredData, setFilteredData] = useState<any[] | []>([]);
-  const [isLoadingInvoices, setIsLoadingInvoices] = useState<boolean>(false);
+  const can = useCan();
+  const query = useTableQuery();
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  // Newest invoices first unless a sort is set in the URL
+  const listParams = useMemo(
+    () =>
+      query.sort
+        ? query.params
+        : { ...query.params, sort: "createdAt", order: "desc" as const },
+    [query.params, query.sort]
+  );
+  const [
+    fetchInvoices,
+    { data: invoicesData, isFetching: isLoadingInvoices },
+  ] = useLazyFetchInvoicesQuery();
+  const [fetchAllInvoices] = useLazyFetchInvoicesQuery();
+  const data = useMemo(() => invoicesData?.invoices || [], [invoicesData]);
   const {
     isAddInvoiceDrawerOpened,
     isUpdateInvoiceDrawerOpened,
@@ -63,6 +87,12 @@ const Invoice: React.FC = () => {
     dispatch(closeInvoiceDetailsDrawer());
   };
 
+  // Links from the command palette
+  useNotificationLink("id", openInvoiceDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new") openAddInvoiceDrawerHandler();
+  });
+
   const openInvoiceUpdateDrawerHandler = (id: string) => {
     setId(id);
     dispatch(openUpdateInvoiceDrawer());
@@ -92,27 +122,22 @@ const Invoice: React.FC = () => {
 
   const fetchInvoiceHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "invoice/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-
-      setData(data.invoices);
-      setFilteredData(data.invoices);
+      await fetchInvoices(listParams).unwrap();
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     }
   };
 
+  // Every invoice matching the current search and sort, for exports
+  const fetchAllMatchingInvoices = async () => {
+    const result = await fetchAllInvoices({
+      ...listParams,
+      page: 1,
+      limit: invoicesData?.totalData || query.limit,
+    }).unwrap();
+    return result?.invoices || [];
+  };
+
   const deleteInvoiceHandler = async (id: string) => {
     try {
       const response = await deleteInvoice(id).unwrap();
@@ -128,37 +153,7 @@ const Invoice: React.FC = () => {
 
   useEffect(() => {
     fetchInvoiceHandler();
-  }, []);
-
-  useEffect(() => {
-    const searchText = searchKey?.toLowerCase();
-    const results = data.filter(
-      (i: any) =>
-        i.creator.first_name?.toLowerCase()?.includes(searchText) ||
-        i?.creator?.last_name?.toLowerCase()?.includes(searchText) ||
-        i?.subtotal?.toString()?.toLowerCase()?.includes(searchText) ||
-        i?.total?.toString()?.toLowerCase()?.includes(searchText) ||
-        i?.supplier?.name?.toLowerCase()?.includes(searchText) ||
-        i?.buyer?.name?.toLowerCase()?.includes(searchText) ||
-        (i?.createdAt &&
-          new Date(i?.createdAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            .reverse()
-            .join("")
-            ?.includes(searchText?.replaceAll("/", "") || "")) ||
-        (i?.updatedAt &&
-          new Date(i?.updatedAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            ?.reverse()
-            ?.join("")
-            ?.includes(searchText?.replaceAll("/", "") || ""))
-    );
-    setFilteredData(results);
-  }, [searchKey]);
+  }, [listParams]);
 
   if (!isAllowed) {
     return (
@@ -249,39 +244,41 @@ const Invoice: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <Button
-                onClick={openAddInvoiceDrawerHandler}
-                colorScheme="blue"
-                size="md"
-                leftIcon={
-                  <svg
-                    className="w-4 h-4"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                    />
-                  </svg>
-                }
-                style={{
-                  backgroundColor: colors.primary[600],
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.primary[700];
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.primary[600];
-                }}
-                className="flex items-center px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
-                _hover={{ transform: "translateY(-1px)" }}
-              >
-                Add New Tax Invoice
-              </Button>
+              {can("accounts", "create") && (
+                <Button
+                  onClick={openAddInvoiceDrawerHandler}
+                  colorScheme="blue"
+                  size="md"
+                  leftIcon={
+                    <svg
+                      className="w-4 h-4"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                      />
+                    </svg>
+                  }
+                  style={{
+                    backgroundColor: colors.primary[600],
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  _hover={{ transform: "translateY(-1px)" }}
+                >
+                  Add New Tax Invoice
+                </Button>
+              )}
               <Button
                 onClick={fetchInvoiceHandler}
                 leftIcon={<MdOutlineRefresh />}
@@ -316,11 +313,32 @@ const Invoice: React.FC = () => {
         {/* Table Section */}
         <InvoiceTable
           isLoadingInvoices={isLoadingInvoices}
-          invoices={filteredData}
-          deleteInvoiceHandler={deleteInvoiceHandler}
+          invoices={data}
+          deleteInvoiceHandler={
+            can("accounts", "delete") ? deleteInvoiceHandler : undefined
+          }
           openInvoiceDetailsHandler={openInvoiceDetailsDrawerHandler}
-          openUpdateInvoiceDrawer={openInvoiceUpdateDrawerHandler}
-          openPaymentDrawer={openAddPaymentHandler}
+          openUpdateInvoiceDrawer={
+            can("accounts", "update")
+              ? openInvoiceUpdateDrawerHandler
+              : undefined
+          }
+          openPaymentDrawer={
+            can("accounts", "create") ? openAddPaymentHandler : undefined
+          }
+          totalInvoices={invoicesData?.totalData}
+          sortBy={query.sortBy}
+          onSortByChange={query.setSortBy}
+          fetchAllInvoices={fetchAllMatchingInvoices}
+          listParams={listParams}
+        />
+        <Pagination
+          page={query.page}
+          setPage={query.setPage}
+          hasNextPage={data.length === query.limit}
+          totalItems={invoicesData?.totalData}
+          pageSize={query.limit}
+          setPageSize={query.setLimit}
         />
       </div>
     </div>
@@ -7,27 +7,26 @@ import { userExists } from "../redux/reducers/authSlice";
 import Navigation from "../components/Navigation/Navigation";
 import Container from "../components/Container/Container";
 import Header from "../components/Header/Header";
+import {
+  agentApi,
+  bomApi,
+  erpApi,
+  notificationApi,
+  productApi,
+  storeApi,
+  useLazyLoginWithTokenQuery,
+} from "../redux/api/api";
+import { connectSocket, useSocketEvent } from "../components/utils/socket";
 
 const Layout: React.FC = () => {
   const [cookies, setCookie] = useCookies();
+  const [loginWithToken] = useLazyLoginWithTokenQuery();
   const dispatch = useDispatch();
   const navigate = useNavigate();
 
   const loginWithTokenHandler = async (token: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "auth/login",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await loginWithToken({}).unwrap();
       setCookie("access_token", data.token, { maxAge: 86400 });
       dispatch(userExists(data.user));
     } catch (err: any) {
@@ -43,6 +42,37 @@ const Layout: React.FC = () => {
       loginWithTokenHandler(cookies?.access_token);
     }
   }, []);
+
+  useEffect(() => {
+    if (!cookies?.access_token) return;
+    const socket = connectSocket(cookies.access_token);
+    return () => {
+      socket.disconnect();
+    };
+  }, [cookies?.access_token]);
+
+  // Refetch whatever is on screen when a colleague changes a record
+  useSocketEvent("saleUpdate", () => {
+    dispatch(erpApi.util.invalidateTags(["Sale", "Assignment", "Dashboard"]));
+  });
+  useSocketEvent("productionProcessUpdate", () => {
+    dispatch(erpApi.util.invalidateTags(["Process", "Scrap", "Dashboard"]));
+  });
+  useSocketEvent("dispatchUpdate", () => {
+    dispatch(erpApi.util.invalidateTags(["Dispatch", "Sale", "Dashboard"]));
+  });
+  useSocketEvent("bomUpdate", () => {
+    dispatch(bomApi.util.invalidateTags(["BOM"]));
+  });
+  useSocketEvent("notification", () => {
+    dispatch(notificationApi.util.invalidateTags(["Notification"]));
+  });
+  useSocketEvent("approvalUpdate", () => {
+    dispatch(productApi.util.invalidateTags(["Product"]));
+    dispatch(storeApi.util.invalidateTags(["Store"]));
+    dispatch(agentApi.util.invalidateTags(["Agent"]));
+    dispatch(bomApi.util.invalidateTags(["BOM"]));
+  });
      
   return (
     <div className="min-h-screen bg-gray-50">
@@ -1,6 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
-import { useCookies } from "react-cookie";
-import io, { Socket } from "socket.io-client";
+import React, { useState, useEffect, useCallback } from "react";
 import {
   Box,
   Text,
@@ -34,9 +32,19 @@ import {
   Line,
 } from "recharts";
 import { Activity } from "lucide-react";
+import {
+  useLazyFetchDeviceDataQuery,
+  useLazyFetchMachineDataQuery,
+  useLazyFetchMaintenancePlansQuery,
+  useSaveMachineStatusMutation,
+} from "../redux/api/api";
+import { useSocketEvent, useSocketRoom } from "../components/utils/socket";
+import {
+  getLatestDeviceReading,
+  getNextService,
+} from "../components/utils/maintenance";
 
 const MachineStatus: React.FC = () => {
-  const [cookies] = useCookies();
   const toast = useToast();
   const [machineData, setMachineData] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -49,32 +57,31 @@ const MachineStatus: React.FC = () => {
   const [autoRefresh, setAutoRefresh] = useState<boolean>(false);
   const [refreshInterval, setRefreshInterval] = useState<number>(30); // seconds
 
-  const backendUrl =
-    process.env.REACT_APP_BACKEND_URL || "http://localhost:8096/api/";
-  const MACHINE_STATUS_POST_URL = `${backendUrl}machine-status/save-machine-status`;
-  const MACHINE_STATUS_GET_URL = `${backendUrl}machine-status/get-all-machine-status`;
+  // Maintenance plans linked to machines by device id, for the next service due
+  const [fetchMaintenancePlans, { data: maintenancePlanData }] =
+    useLazyFetchMaintenancePlansQuery();
+  const [fetchMachineDataByDevice] = useLazyFetchMachineDataQuery();
+  const [fetchDeviceData, { data: deviceData }] = useLazyFetchDeviceDataQuery();
+  const [saveMachineStatus] = useSaveMachineStatusMutation();
+  const deviceReading = getLatestDeviceReading(deviceData);
+
+  useEffect(() => {
+    fetchMaintenancePlans({});
+    fetchDeviceData({});
+  }, [fetchMaintenancePlans, fetchDeviceData]);
 
-  // Socket ref for real-time updates
-  const socketRef = useRef<Socket | null>(null);
+  const getMachineNextService = (deviceId: string) =>
+    getNextService(
+      (maintenancePlanData?.plans || []).filter(
+        (plan: any) => plan?.device_id === deviceId
+      ),
+      deviceReading
+    );
 
   // POST function to save machine status to database
   const postMachineStatus = async (data: any) => {
     try {
-      const response = await fetch(MACHINE_STATUS_POST_URL, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${cookies?.access_token || ""}`,
-        },
-        credentials: "include",
-        body: JSON.stringify(data),
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to save machine status");
-      }
-
-      const result = await response.json();
+      const result = await saveMachineStatus(data).unwrap();
       console.log("Machine status saved successfully:", result);
 
       return result;
@@ -98,37 +105,21 @@ const MachineStatus: React.FC = () => {
         const actualDeviceId = deviceId === "all" ? "PC-001" : deviceId;
 
         // Use the machine-data API endpoint
-        const response = await fetch(
-          `${backendUrl}dashboard/machine-data?device_id=${actualDeviceId}`,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-              "Content-Type": "application/json",
-            },
-          }
-        );
-
-        if (response.ok) {
-          const result = await response.json();
-          if (result.success) {
-            // Transform the API response to match our card structure
-            const transformedData = transformMachineData(result.data);
-            setMachineData(transformedData);
-            setApiSummaryData(result.data); // Store complete API data for summary
-            setLastUpdated(new Date());
-            toast({
-              title: "Success",
-              description: "Machine data fetched successfully",
-              status: "success",
-              duration: 3000,
-              isClosable: true,
-            });
-          } else {
-            throw new Error(result.message || "Failed to fetch machine data");
-          }
-        } else {
-          throw new Error("Failed to fetch machine data");
-        }
+        const result = await fetchMachineDataByDevice({
+          device_id: actualDeviceId,
+        }).unwrap();
+        // Transform the API response to match our card structure
+        const transformedData = transformMachineData(result.data);
+        setMachineData(transformedData);
+        setApiSummaryData(result.data); // Store complete API data for summary
+        setLastUpdated(new Date());
+        toast({
+          title: "Success",
+          description: "Machine data fetched successfully",
+          status: "success",
+          duration: 3000,
+          isClosable: true,
+        });
       } catch (error: any) {
         console.error("Error fetching machine data:", error);
         toast({
@@ -143,7 +134,7 @@ const MachineStatus: React.FC = () => {
         setIsLoading(false);
       }
     },
-    [cookies?.access_token, toast]
+    [fetchMachineDataByDevice, toast]
   );
 
   useEffect(() => {
@@ -151,57 +142,34 @@ const MachineStatus: React.FC = () => {
     fetchMachineData(selectedMachine);
   }, [selectedMachine, fetchMachineData]);
 
-  // Socket.IO connection for real-time updates
-  useEffect(() => {
-    // Initialize Socket.IO client
-    const socketUrl =
-      process.env.REACT_APP_SOCKET_URL ||
-      (process.env.REACT_APP_BACKEND_URL || "").replace(/\/api\/?$/, "") ||
-      "http://localhost:8085";
-
-    socketRef.current = io(socketUrl, {
-      withCredentials: true,
-      extraHeaders: {
-        Authorization: `Bearer ${cookies?.access_token || ""}`,
-      },
-    });
+  // Real-time updates over the shared socket
+  useSocketRoom("joinMachineStatusDashboard");
 
-    // Join the 'machineStatusDashboard' room
-    socketRef.current.emit("joinMachineStatusDashboard");
-    console.log("Joined machineStatusDashboard room");
+  useSocketEvent("machineStatusUpdate", (data: any) => {
+    console.log("Received machine status update:", data);
 
-    // Handle machine status updates from backend
-    socketRef.current.on("machineStatusUpdate", (data: any) => {
-      console.log("Received machine status update:", data);
-
-      // Add new data to the list
-      setMachineData((prevData) => {
-        const newData = {
-          deviceId: data.deviceId || "PC-001",
-          timestamp: new Date(
-            data.createdAt || data.startTime
-          ).toLocaleString(),
-          shift: data.shift || "Shift-A",
-          design: data.design || "Design123",
-          count: data.count || 0,
-          efficiency: parseFloat(data.efficiency || 0).toFixed(2),
-          error1: data.error1 || 0,
-          error2: data.error2 || 0,
-          status: data.status || "OFF",
-          duration: data.duration || "0h 0m",
-        };
-
-        return [newData, ...prevData].slice(0, 100); // Keep last 100 entries
-      });
+    // Add new data to the list
+    setMachineData((prevData) => {
+      const newData = {
+        deviceId: data.deviceId || "PC-001",
+        timestamp: new Date(
+          data.createdAt || data.startTime
+        ).toLocaleString(),
+        shift: data.shift || "Shift-A",
+        design: data.design || "Design123",
+        count: data.count || 0,
+        efficiency: parseFloat(data.efficiency || 0).toFixed(2),
+        error1: data.error1 || 0,
+        error2: data.error2 || 0,
+        status: data.status || "OFF",
+        duration: data.duration || "0h 0m",
+      };
 
-      setLastUpdated(new Date());
+      return [newData, ...prevData].slice(0, 100); // Keep last 100 entries
     });
 
-    // Cleanup on unmount
-    return () => {
-      socketRef.current?.disconnect();
-    };
-  }, [cookies?.access_token]);
+    setLastUpdated(new Date());
+  });
 
   // Auto-refresh functionality
   useEffect(() => {
@@ -1039,6 +1007,44 @@ const MachineStatus: React.FC = () => {
                         </Text>
                       </Box>
 
+                      {/* Next Service */}
+                      <Box mb={3}>
+                        <Text fontSize="xs" color="gray.500" mb={1}>
+                          Next Service
+                        </Text>
+                        {(() => {
+                          const nextService = getMachineNextService(
+                            item.deviceId
+                          );
+                          if (!nextService) {
+                            return (
+                              <Text fontSize="sm" color="gray.400">
+                                No maintenance plan
+                              </Text>
+                            );
+                          }
+                          return (
+                            <HStack spacing={2}>
+                              <Text fontSize="sm" fontWeight="medium">
+                                {nextService.plan.title}
+                              </Text>
+                              <Badge
+                                colorScheme={
+                                  nextService.due.isOverdue
+                                    ? "red"
+                                    : nextService.due.isDueSoon
+                                    ? "yellow"
+                                    : "green"
+                                }
+                                variant="subtle"
+                              >
+                                {nextService.due.label}
+                              </Badge>
+                            </HStack>
+                          );
+                        })()}
+                      </Box>
+
                       {/* Performance Metrics */}
                       <SimpleGrid columns={2} spacing={3} mb={3}>
                         <Box>
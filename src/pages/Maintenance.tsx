@@ -1,9 +1,624 @@
-import React from 'react'
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPlus } from "react-icons/fi";
+import { Wrench } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeleteDowntimeMutation,
+  useDeleteMaintenancePlanMutation,
+  useLazyFetchDeviceDataQuery,
+  useLazyFetchDowntimesQuery,
+  useLazyFetchMaintenancePlansQuery,
+  useLazyFetchResourcesQuery,
+  useLazyFetchWorkOrdersQuery,
+  useUpdateDowntimeMutation,
+} from "../redux/api/api";
+import AddMaintenancePlan from "../components/Drawers/Maintenance/AddMaintenancePlan";
+import AddWorkOrder from "../components/Drawers/Maintenance/AddWorkOrder";
+import AddDowntime from "../components/Drawers/Maintenance/AddDowntime";
+import {
+  getDowntimeHours,
+  getLatestDeviceReading,
+  getMaintenanceDue,
+  maintenanceTriggers,
+} from "../components/utils/maintenance";
+
+type Tab = "due" | "plans" | "work-orders" | "downtime";
+
+const workOrderColorMap: { [status: string]: string } = {
+  Open: "bg-blue-100 text-blue-800",
+  "In Progress": "bg-yellow-100 text-yellow-800",
+  Completed: "bg-green-100 text-green-800",
+};
+
+const Maintenance: React.FC = () => {
+  const can = useCan();
+  const [activeTab, setActiveTab] = useState<Tab>("due");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [resources, setResources] = useState<any[]>([]);
+  const [deviceReading, setDeviceReading] = useState<any>(null);
+
+  const [isPlanDrawerOpened, setIsPlanDrawerOpened] = useState(false);
+  const [editPlan, setEditPlan] = useState<any | null>(null);
+  const [isWorkOrderDrawerOpened, setIsWorkOrderDrawerOpened] =
+    useState(false);
+  const [workOrderPlan, setWorkOrderPlan] = useState<any | null>(null);
+  const [editWorkOrder, setEditWorkOrder] = useState<any | null>(null);
+  const [isDowntimeDrawerOpened, setIsDowntimeDrawerOpened] = useState(false);
+
+  const [fetchMaintenancePlans, { data: planData }] =
+    useLazyFetchMaintenancePlansQuery();
+  const [fetchWorkOrders, { data: workOrderData }] =
+    useLazyFetchWorkOrdersQuery();
+  const [fetchDowntimes, { data: downtimeData }] = useLazyFetchDowntimesQuery();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [fetchDeviceData] = useLazyFetchDeviceDataQuery();
+  const [deleteMaintenancePlan] = useDeleteMaintenancePlanMutation();
+  const [updateDowntime] = useUpdateDowntimeMutation();
+  const [deleteDowntime] = useDeleteDowntimeMutation();
+
+  const plans: any[] = planData?.plans || [];
+  const workOrders: any[] = workOrderData?.work_orders || [];
+  const downtimes: any[] = downtimeData?.downtimes || [];
+
+  const fetchMaintenanceDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [resourceData, reading] = await Promise.all([
+        fetchResources({}).unwrap(),
+        fetchDeviceData({})
+          .unwrap()
+          .catch(() => undefined),
+        fetchMaintenancePlans({}).unwrap(),
+        fetchWorkOrders({}).unwrap(),
+        fetchDowntimes({}).unwrap(),
+      ]);
+      setResources(resourceData?.resources || []);
+      setDeviceReading(getLatestDeviceReading(reading));
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMaintenanceDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const deletePlanHandler = async (id: string) => {
+    try {
+      const response = await deleteMaintenancePlan(id).unwrap();
+      toast.success(response?.message || "Maintenance plan deleted");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const endDowntimeHandler = async (id: string) => {
+    try {
+      const response = await updateDowntime({
+        _id: id,
+        end: new Date().toISOString(),
+      }).unwrap();
+      toast.success(response?.message || "Downtime closed");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const deleteDowntimeHandler = async (id: string) => {
+    try {
+      const response = await deleteDowntime(id).unwrap();
+      toast.success(response?.message || "Downtime entry deleted");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const openWorkOrderDrawerHandler = (
+    plan: any | null,
+    workOrder: any | null
+  ) => {
+    setWorkOrderPlan(plan);
+    setEditWorkOrder(workOrder);
+    setIsWorkOrderDrawerOpened(true);
+  };
+
+  const getResourceName = (resource: any) =>
+    resource?.name ||
+    resources.find((r: any) => r._id === resource)?.name ||
+    "N/A";
+
+  const planDues = plans.map((plan: any) => ({
+    plan,
+    due: getMaintenanceDue(plan, deviceReading),
+    // A plan already has an open work order if one was raised and not finished
+    openWorkOrder: workOrders.find(
+      (wo: any) =>
+        (wo?.plan?._id || wo?.plan) === plan._id && wo?.status !== "Completed"
+    ),
+  }));
+  const duePlans = planDues
+    .filter(({ due }) => due.isOverdue || due.isDueSoon)
+    .sort((a, b) => Number(b.due.isOverdue) - Number(a.due.isOverdue));
+
+  const monthAgo = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const recentDowntimeHours = downtimes
+    .filter((d: any) => new Date(d?.start).getTime() >= monthAgo)
+    .reduce((sum, d) => sum + getDowntimeHours(d), 0);
+
+  const stats = [
+    { label: "Maintenance Plans", value: plans.length },
+    {
+      label: "Overdue",
+      value: planDues.filter(({ due }) => due.isOverdue).length,
+    },
+    {
+      label: "Open Work Orders",
+      value: workOrders.filter((wo: any) => wo?.status !== "Completed").length,
+    },
+    {
+      label: "Downtime (30 days)",
+      value: `${recentDowntimeHours.toFixed(1)} hrs`,
+    },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "due", label: `Overdue & Due Soon (${duePlans.length})` },
+    { key: "plans", label: "Maintenance Plans" },
+    { key: "work-orders", label: "Work Orders" },
+    { key: "downtime", label: "Downtime Log" },
+  ];
+
+  const primaryAction =
+    activeTab === "plans"
+      ? { label: "New Maintenance Plan", onClick: () => setIsPlanDrawerOpened(true) }
+      : activeTab === "downtime"
+      ? { label: "Log Downtime", onClick: () => setIsDowntimeDrawerOpened(true) }
+      : {
+          label: "New Work Order",
+          onClick: () => openWorkOrderDrawerHandler(null, null),
+        };
 
-const Maintenance = () => {
   return (
-    <div>Maintenance</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isPlanDrawerOpened && (
+        <AddMaintenancePlan
+          closeDrawerHandler={() => {
+            setIsPlanDrawerOpened(false);
+            setEditPlan(null);
+          }}
+          resources={resources}
+          deviceReading={deviceReading}
+          editPlan={editPlan}
+        />
+      )}
+      {isWorkOrderDrawerOpened && (
+        <AddWorkOrder
+          closeDrawerHandler={() => {
+            setIsWorkOrderDrawerOpened(false);
+            setWorkOrderPlan(null);
+            setEditWorkOrder(null);
+          }}
+          resources={resources}
+          plans={plans}
+          deviceReading={deviceReading}
+          plan={workOrderPlan}
+          editWorkOrder={editWorkOrder}
+        />
+      )}
+      {isDowntimeDrawerOpened && (
+        <AddDowntime
+          closeDrawerHandler={() => setIsDowntimeDrawerOpened(false)}
+          resources={resources}
+          workOrders={workOrders}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-orange-500 to-orange-600 p-3 rounded-xl shadow-lg">
+                <Wrench className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Maintenance
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Preventive maintenance plans, work orders and machine
+                  downtime
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {can("maintenance", "create") && (
+                <button
+                  onClick={primaryAction.onClick}
+                  style={{ backgroundColor: colors.primary[600] }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                >
+                  <FiPlus size={16} />
+                  {primaryAction.label}
+                </button>
+              )}
+              <Button
+                onClick={fetchMaintenanceDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          {(activeTab === "due" || activeTab === "plans") && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Plan</th>
+                  <th className="px-4 py-3 text-left">Resource</th>
+                  <th className="px-4 py-3 text-left">Trigger</th>
+                  <th className="px-4 py-3 text-left">Last Serviced</th>
+                  <th className="px-4 py-3 text-left">Next Service</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(activeTab === "due" ? duePlans : planDues).length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={6}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {activeTab === "due"
+                        ? "No maintenance is overdue or due soon."
+                        : "No maintenance plans defined yet."}
+                    </td>
+                  </tr>
+                )}
+                {(activeTab === "due" ? duePlans : planDues).map(
+                  ({ plan, due, openWorkOrder }) => (
+                    <tr
+                      key={plan._id}
+                      className="border-t"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3 font-medium">
+                        {plan.title}
+                        {plan.device_id && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {plan.device_id}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {getResourceName(plan.resource)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {maintenanceTriggers.find(
+                          (t) => t.value === plan.trigger
+                        )?.label || plan.trigger}
+                      </td>
+                      <td className="px-4 py-3">
+                        {plan.last_service_date
+                          ? new Date(plan.last_service_date).toLocaleDateString()
+                          : "Never"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${
+                            due.isOverdue
+                              ? "bg-red-100 text-red-800"
+                              : due.isDueSoon
+                              ? "bg-yellow-100 text-yellow-800"
+                              : "bg-green-100 text-green-800"
+                          }`}
+                        >
+                          {due.label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 flex gap-2">
+                        {openWorkOrder && can("maintenance", "update") && (
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            onClick={() =>
+                              openWorkOrderDrawerHandler(null, openWorkOrder)
+                            }
+                          >
+                            Open Work Order
+                          </Button>
+                        )}
+                        {!openWorkOrder && can("maintenance", "create") && (
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            colorScheme="blue"
+                            onClick={() =>
+                              openWorkOrderDrawerHandler(plan, null)
+                            }
+                          >
+                            Create Work Order
+                          </Button>
+                        )}
+                        {activeTab === "plans" && (
+                          <>
+                            {can("maintenance", "update") && (
+                              <Button
+                                size="xs"
+                                variant="outline"
+                                onClick={() => {
+                                  setEditPlan(plan);
+                                  setIsPlanDrawerOpened(true);
+                                }}
+                              >
+                                Edit
+                              </Button>
+                            )}
+                            {can("maintenance", "delete") && (
+                              <Button
+                                size="xs"
+                                variant="outline"
+                                colorScheme="red"
+                                onClick={() => deletePlanHandler(plan._id)}
+                              >
+                                Delete
+                              </Button>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "work-orders" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Work Order</th>
+                  <th className="px-4 py-3 text-left">Resource</th>
+                  <th className="px-4 py-3 text-left">Scheduled</th>
+                  <th className="px-4 py-3 text-left">Assigned To</th>
+                  <th className="px-4 py-3 text-left">Checklist</th>
+                  <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {workOrders.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No work orders raised yet.
+                    </td>
+                  </tr>
+                )}
+                {workOrders.map((wo: any) => (
+                  <tr
+                    key={wo._id}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">{wo.title}</td>
+                    <td className="px-4 py-3">
+                      {getResourceName(wo.resource)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {wo.scheduled_date
+                        ? new Date(wo.scheduled_date).toLocaleDateString()
+                        : "N/A"}
+                    </td>
+                    <td className="px-4 py-3">{wo.assigned_to || "-"}</td>
+                    <td className="px-4 py-3">
+                      {(wo.checklist || []).filter((c: any) => c.done).length}
+                      /{(wo.checklist || []).length} done
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${
+                          workOrderColorMap[wo.status || "Open"]
+                        }`}
+                      >
+                        {wo.status || "Open"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {can("maintenance", "update") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          onClick={() => openWorkOrderDrawerHandler(null, wo)}
+                        >
+                          Update
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "downtime" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Resource</th>
+                  <th className="px-4 py-3 text-left">Reason</th>
+                  <th className="px-4 py-3 text-left">Start</th>
+                  <th className="px-4 py-3 text-left">End</th>
+                  <th className="px-4 py-3 text-right">Duration (hrs)</th>
+                  <th className="px-4 py-3 text-left">Remarks</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {downtimes.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No downtime logged.
+                    </td>
+                  </tr>
+                )}
+                {downtimes.map((downtime: any) => (
+                  <tr
+                    key={downtime._id}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">
+                      {getResourceName(downtime.resource)}
+                    </td>
+                    <td className="px-4 py-3">{downtime.reason}</td>
+                    <td className="px-4 py-3">
+                      {new Date(downtime.start).toLocaleString()}
+                    </td>
+                    <td className="px-4 py-3">
+                      {downtime.end ? (
+                        new Date(downtime.end).toLocaleString()
+                      ) : (
+                        <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">
+                          Still down
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {getDowntimeHours(downtime).toFixed(1)}
+                    </td>
+                    <td className="px-4 py-3">{downtime.remarks || "-"}</td>
+                    <td className="px-4 py-3 flex gap-2">
+                      {!downtime.end && can("maintenance", "update") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          colorScheme="green"
+                          onClick={() => endDowntimeHandler(downtime._id)}
+                        >
+                          End Now
+                        </Button>
+                      )}
+                      {can("maintenance", "delete") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          colorScheme="red"
+                          onClick={() => deleteDowntimeHandler(downtime._id)}
+                        >
+                          Delete
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Maintenance
\ No newline at end of file
+export default Maintenance;
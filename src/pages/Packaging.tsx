@@ -1,9 +1,557 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button, Checkbox, Select } from "@chakra-ui/react";
+import { PDFDownloadLink } from "@react-pdf/renderer";
+import { MdOutlineRefresh } from "react-icons/md";
+import { PackageOpen } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeletePackageMutation,
+  useLazyEmployeeDetailsQuery,
+  useLazyFetchPackagesQuery,
+  useLazyFetchProcessQuery,
+  useLazyFetchSalesQuery,
+} from "../redux/api/api";
+import AddPackage from "../components/Drawers/Packaging/AddPackage";
+import PackageLabelPDF from "../components/PDF/PackageLabelPDF";
+import PackingListPDF from "../components/PDF/PackingListPDF";
+import {
+  getLinePackages,
+  getPackageQty,
+  getPackedQty,
+  getProducedQtyForLine,
+  getSalePackages,
+} from "../components/utils/packaging";
+import { getSaleItems } from "../components/utils/salesOrders";
+
+type Tab = "orders" | "packages";
+
+const packageStatusColorMap: { [status: string]: string } = {
+  Packed: "bg-blue-100 text-blue-800",
+  Dispatched: "bg-green-100 text-green-800",
+};
+
+const Packaging: React.FC = () => {
+  const can = useCan();
+  const [activeTab, setActiveTab] = useState<Tab>("orders");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [sales, setSales] = useState<any[]>([]);
+  const [processes, setProcesses] = useState<any[]>([]);
+  const [userData, setUserData] = useState<any>(null);
+  const [orderFilter, setOrderFilter] = useState<string>("");
+  const [selectedPackages, setSelectedPackages] = useState<string[]>([]);
+  const [packingSale, setPackingSale] = useState<any | null>(null);
+
+  const [fetchPackages, { data: packageData }] = useLazyFetchPackagesQuery();
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
+  const [deletePackage] = useDeletePackageMutation();
+  const packages: any[] = useMemo(
+    () => packageData?.packages || [],
+    [packageData]
+  );
+
+  const fetchPackagingDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [saleData, processData, userResponse] = await Promise.all([
+        fetchSales({ page: 1, limit: 10000 }).unwrap(),
+        fetchProcess({}).unwrap(),
+        fetchEmployeeDetails({}).unwrap(),
+        fetchPackages({}).unwrap(),
+      ]);
+      setSales(saleData?.data || []);
+      setProcesses(processData?.production_processes || []);
+      setUserData(userResponse?.user || null);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPackagingDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Sales order lines with finished goods in inventory or packages already
+  // made
+  const packingRows = useMemo(
+    () =>
+      sales
+        .flatMap((sale: any) => {
+          const salePackages = getSalePackages(sale._id, packages);
+          return getSaleItems(sale).map((line) => {
+            const linePackages = getLinePackages(salePackages, line.product_id);
+            const orderQty = line.quantity;
+            const producedQty = getProducedQtyForLine(
+              sale,
+              line.product_id,
+              processes
+            );
+            const packedQty = getPackedQty(linePackages);
+            const dispatchedQty = getPackedQty(
+              linePackages.filter((pkg: any) => pkg.status === "Dispatched")
+            );
+            return {
+              sale,
+              line,
+              salePackages,
+              linePackages,
+              orderQty,
+              producedQty,
+              packedQty,
+              dispatchedQty,
+              leftToPack: Math.max(
+                Math.min(orderQty, producedQty) - packedQty,
+                0
+              ),
+            };
+          });
+        })
+        .filter((row) => row.producedQty > 0 || row.linePackages.length > 0),
+    [sales, processes, packages]
+  );
+
+  const packingSales = useMemo(
+    () =>
+      Array.from(
+        new Map(packingRows.map((row) => [row.sale._id, row.sale])).values()
+      ),
+    [packingRows]
+  );
+
+  const filteredPackages = orderFilter
+    ? getSalePackages(orderFilter, packages)
+    : packages;
+
+  const deletePackageHandler = async (id: string) => {
+    try {
+      const response = await deletePackage(id).unwrap();
+      toast.success(response?.message || "Package deleted");
+      setSelectedPackages((prev) => prev.filter((p) => p !== id));
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const stats = [
+    {
+      label: "Orders to Pack",
+      value: new Set(
+        packingRows
+          .filter((row) => row.leftToPack > 0)
+          .map((row) => row.sale._id)
+      ).size,
+    },
+    {
+      label: "Units Left to Pack",
+      value: packingRows.reduce((sum, row) => sum + row.leftToPack, 0),
+    },
+    {
+      label: "Cartons Awaiting Dispatch",
+      value: packages.filter(
+        (pkg: any) => pkg.type === "Carton" && pkg.status !== "Dispatched"
+      ).length,
+    },
+    {
+      label: "Pallets Awaiting Dispatch",
+      value: packages.filter(
+        (pkg: any) => pkg.type === "Pallet" && pkg.status !== "Dispatched"
+      ).length,
+    },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "orders", label: "Ready to Pack" },
+    { key: "packages", label: "Packages" },
+  ];
 
-const Packaging = () => {
   return (
-    <div>Packaging</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {packingSale && (
+        <AddPackage
+          closeDrawerHandler={() => setPackingSale(null)}
+          sale={packingSale.sale}
+          line={packingSale.line}
+          salePackages={packingSale.salePackages}
+          remainingQty={packingSale.leftToPack}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-amber-500 to-amber-600 p-3 rounded-xl shadow-lg">
+                <PackageOpen className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Packaging & Labels
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Pack finished goods into cartons and pallets, print labels
+                  and packing lists for dispatch
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {activeTab === "packages" && selectedPackages.length > 0 && (
+                <PDFDownloadLink
+                  document={
+                    <PackageLabelPDF
+                      packages={packages.filter((pkg: any) =>
+                        selectedPackages.includes(pkg._id)
+                      )}
+                      allPackages={packages}
+                      userData={userData}
+                    />
+                  }
+                  fileName="PackageLabels.pdf"
+                >
+                  {({ loading }) => (
+                    <Button
+                      colorScheme="blue"
+                      size="md"
+                      isLoading={loading}
+                    >
+                      Print Labels ({selectedPackages.length})
+                    </Button>
+                  )}
+                </PDFDownloadLink>
+              )}
+              <Button
+                onClick={fetchPackagingDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap items-center">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+            {activeTab === "packages" && (
+              <Select
+                size="sm"
+                width="auto"
+                value={orderFilter}
+                onChange={(e) => {
+                  setOrderFilter(e.target.value);
+                  setSelectedPackages([]);
+                }}
+                placeholder="All sales orders"
+              >
+                {packingSales.map((sale: any) => (
+                  <option key={sale._id} value={sale._id}>
+                    {sale.order_id}
+                  </option>
+                ))}
+              </Select>
+            )}
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          {activeTab === "orders" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Sales Order</th>
+                  <th className="px-4 py-3 text-left">Merchant</th>
+                  <th className="px-4 py-3 text-left">Product</th>
+                  <th className="px-4 py-3 text-right">Ordered</th>
+                  <th className="px-4 py-3 text-right">In Inventory</th>
+                  <th className="px-4 py-3 text-right">Packed</th>
+                  <th className="px-4 py-3 text-right">Dispatched</th>
+                  <th className="px-4 py-3 text-right">Left to Pack</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {packingRows.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={9}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {isLoading
+                        ? "Loading..."
+                        : "No finished goods have been moved to inventory yet."}
+                    </td>
+                  </tr>
+                )}
+                {packingRows.map((row, index) => (
+                  <tr
+                    key={`${row.sale._id}-${index}`}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">
+                      {row.sale.order_id}
+                    </td>
+                    <td className="px-4 py-3">
+                      {row.sale?.party?.consignee_name?.[0] ||
+                        row.sale?.party?.company_name ||
+                        "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {row.line.name || "-"}
+                    </td>
+                    <td className="px-4 py-3 text-right">{row.orderQty}</td>
+                    <td className="px-4 py-3 text-right">{row.producedQty}</td>
+                    <td className="px-4 py-3 text-right">{row.packedQty}</td>
+                    <td className="px-4 py-3 text-right">
+                      {row.dispatchedQty}
+                    </td>
+                    <td className="px-4 py-3 text-right font-bold">
+                      {row.leftToPack}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-2">
+                        {can("packaging", "create") && (
+                          <Button
+                            size="xs"
+                            colorScheme="blue"
+                            isDisabled={row.leftToPack <= 0}
+                            onClick={() => setPackingSale(row)}
+                          >
+                            Pack
+                          </Button>
+                        )}
+                        {row.salePackages.length > 0 && (
+                          <PDFDownloadLink
+                            document={
+                              <PackingListPDF
+                                sale={row.sale}
+                                packages={row.salePackages}
+                                userData={userData}
+                              />
+                            }
+                            fileName={`PackingList_${row.sale.order_id}.pdf`}
+                          >
+                            {({ loading }) => (
+                              <Button
+                                size="xs"
+                                variant="outline"
+                                isLoading={loading}
+                              >
+                                Packing List
+                              </Button>
+                            )}
+                          </PDFDownloadLink>
+                        )}
+                        {row.salePackages.length > 0 && (
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            onClick={() => {
+                              setOrderFilter(row.sale._id);
+                              setSelectedPackages([]);
+                              setActiveTab("packages");
+                            }}
+                          >
+                            Packages ({row.salePackages.length})
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "packages" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left w-10">
+                    <Checkbox
+                      isChecked={
+                        filteredPackages.length > 0 &&
+                        selectedPackages.length === filteredPackages.length
+                      }
+                      onChange={(e) =>
+                        setSelectedPackages(
+                          e.target.checked
+                            ? filteredPackages.map((pkg: any) => pkg._id)
+                            : []
+                        )
+                      }
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left">Package</th>
+                  <th className="px-4 py-3 text-left">Type</th>
+                  <th className="px-4 py-3 text-left">Sales Order</th>
+                  <th className="px-4 py-3 text-left">Item</th>
+                  <th className="px-4 py-3 text-right">Qty</th>
+                  <th className="px-4 py-3 text-left">Pallet</th>
+                  <th className="px-4 py-3 text-right">Gross Wt.</th>
+                  <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredPackages.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={10}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No packages yet.
+                    </td>
+                  </tr>
+                )}
+                {filteredPackages.map((pkg: any) => {
+                  const palletId = pkg.pallet?._id || pkg.pallet;
+                  return (
+                    <tr
+                      key={pkg._id}
+                      className="border-t"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3">
+                        <Checkbox
+                          isChecked={selectedPackages.includes(pkg._id)}
+                          onChange={(e) =>
+                            setSelectedPackages((prev) =>
+                              e.target.checked
+                                ? [...prev, pkg._id]
+                                : prev.filter((id) => id !== pkg._id)
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3 font-medium">
+                        {pkg.package_id}
+                      </td>
+                      <td className="px-4 py-3">{pkg.type}</td>
+                      <td className="px-4 py-3">{pkg.order_id}</td>
+                      <td className="px-4 py-3">{pkg.item_name}</td>
+                      <td className="px-4 py-3 text-right">
+                        {getPackageQty(pkg, packages)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {palletId
+                          ? packages.find((p: any) => p._id === palletId)
+                              ?.package_id || "-"
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {pkg.gross_weight ? `${pkg.gross_weight} kg` : "-"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${
+                            packageStatusColorMap[pkg.status] ||
+                            packageStatusColorMap.Packed
+                          }`}
+                        >
+                          {pkg.status || "Packed"}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {pkg.status !== "Dispatched" &&
+                          can("packaging", "delete") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              colorScheme="red"
+                              onClick={() => deletePackageHandler(pkg._id)}
+                            >
+                              Delete
+                            </Button>
+                          )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Packaging
\ No newline at end of file
+export default Packaging;
@@ -1,33 +1,72 @@
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { colors } from "../theme/colors";
+import { pageSizeOptions } from "../components/utils/tableQuery";
 
 interface PaginationsProps {
   page: number;
   setPage: (page: number) => void;
-  hasNextPage: boolean;
+  // Lists without a total count only know whether another page follows
+  hasNextPage?: boolean;
+  totalItems?: number;
+  pageSize?: number;
+  setPageSize?: (pageSize: number) => void;
 }
 
 const Paginations: React.FC<PaginationsProps> = ({
   page,
   setPage,
   hasNextPage,
+  totalItems,
+  pageSize = 10,
+  setPageSize,
 }) => {
+  const hasTotal = totalItems !== undefined;
+  const totalPages = hasTotal
+    ? Math.max(1, Math.ceil((totalItems as number) / pageSize))
+    : undefined;
+  const canGoNext = totalPages ? page < totalPages : !!hasNextPage;
+  const [jumpTo, setJumpTo] = useState<string>(String(page));
+
+  useEffect(() => setJumpTo(String(page)), [page]);
+
   const handlePrev = () => {
     if (page > 1) setPage(page - 1);
   };
 
   const handleNext = () => {
-    if (hasNextPage) setPage(page + 1);
+    if (canGoNext) setPage(page + 1);
+  };
+
+  const handleJump = () => {
+    const target = Math.min(
+      Math.max(1, Math.floor(Number(jumpTo)) || 1),
+      totalPages || 1
+    );
+    setJumpTo(String(target));
+    if (target !== page) setPage(target);
   };
 
   return (
     <div
-      className="flex items-center justify-center px-6 py-4 border-t"
+      className={`flex flex-wrap items-center gap-3 px-6 py-4 border-t ${
+        hasTotal ? "justify-between" : "justify-center"
+      }`}
       style={{
         backgroundColor: colors.gray[50],
         borderColor: colors.border.light,
       }}
     >
+      {hasTotal && (
+        <p className="text-sm" style={{ color: colors.text.secondary }}>
+          {totalItems === 0
+            ? "No records"
+            : `Showing ${(page - 1) * pageSize + 1}–${Math.min(
+                page * pageSize,
+                totalItems as number
+              )} of ${totalItems}`}
+        </p>
+      )}
+
       <div className="flex items-center gap-2">
         {/* Previous Button */}
         <button
@@ -75,12 +114,13 @@ const Paginations: React.FC<PaginationsProps> = ({
             boxShadow: colors.shadow.sm,
           }}
         >
-           {page}
+          {page}
+          {totalPages ? ` / ${totalPages}` : ""}
         </div>
 
         {/* Next Button */}
         <button
-          disabled={!hasNextPage}
+          disabled={!canGoNext}
           onClick={handleNext}
           className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
           style={{
@@ -115,6 +155,47 @@ const Paginations: React.FC<PaginationsProps> = ({
           </svg>
         </button>
       </div>
+
+      {hasTotal && (
+        <div className="flex items-center gap-3 text-sm">
+          <label className="flex items-center gap-2">
+            <span style={{ color: colors.text.secondary }}>Go to</span>
+            <input
+              type="number"
+              min={1}
+              max={totalPages}
+              value={jumpTo}
+              onChange={(e) => setJumpTo(e.target.value)}
+              onBlur={handleJump}
+              onKeyDown={(e) => e.key === "Enter" && handleJump()}
+              className="w-16 px-2 py-1.5 border rounded-lg"
+              style={{
+                backgroundColor: colors.input.background,
+                borderColor: colors.input.border,
+                color: colors.text.primary,
+              }}
+            />
+          </label>
+          {setPageSize && (
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(Number(e.target.value))}
+              className="px-2 py-1.5 border rounded-lg"
+              style={{
+                backgroundColor: colors.input.background,
+                borderColor: colors.input.border,
+                color: colors.text.primary,
+              }}
+            >
+              {pageSizeOptions.map((size) => (
+                <option key={size} value={size}>
+                  {size} / page
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -1,51 +1,139 @@
 // @ts-nocheck
 import { MdOutlineRefresh } from "react-icons/md";
-import { FiSearch, FiPlus, FiUsers, FiDownload } from "react-icons/fi";
+import { FiSearch, FiPlus, FiUsers } from "react-icons/fi";
 import { AiFillFileExcel } from "react-icons/ai";
-import { RxCross2 } from "react-icons/rx";
 import AddParties from "../components/Drawers/Parties/AddParties";
+import PartyDetails from "../components/Drawers/Parties/PartyDetails";
 import PartiesTable from "../components/Table/PartiesTable";
-import { useEffect, useState, useRef } from "react";
-import { useCookies } from "react-cookie";
+import ExportMenu from "../components/Table/ExportMenu";
+import ImportWizard from "../components/Table/ImportWizard";
+import { partyImportConfig } from "../components/utils/importWizard";
+import { useEffect, useState } from "react";
 import Pagination from "./Pagination";
 import { colors } from "../theme/colors";
-import * as XLSX from 'xlsx';
-import { toast } from "react-toastify";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  useLazyFetchPartiesQuery,
+  usePartiesBulkUploadMutation,
+} from "../redux/api/api";
+import {
+  closePartyDetailsDrawer,
+  openPartyDetailsDrawer,
+} from "../redux/reducers/drawersSlice";
+import { useNotificationLink } from "../components/utils/notifications";
 import SampleCSV from "../assets/csv/parties-sample.csv";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import {
+  ExportColumn,
+  formatExportDate,
+  formatExportList,
+} from "../components/utils/tableExport";
+
+const partiesExportColumns: ExportColumn[] = [
+  { id: "cust_id", label: "Customer ID", value: (party) => party.cust_id },
+  {
+    id: "createdAt",
+    label: "Date Added",
+    value: (party) => formatExportDate(party.createdAt),
+  },
+  {
+    id: "consignee_name",
+    label: "Consignee Name",
+    value: (party) => party?.consignee_name?.[0],
+  },
+  {
+    id: "company_name",
+    label: "Company Name",
+    value: (party) => party.company_name,
+  },
+  {
+    id: "contact_person_name",
+    label: "Contact Person",
+    value: (party) => party.contact_person_name,
+  },
+  {
+    id: "email_id",
+    label: "Email",
+    value: (party) => formatExportList(party.email_id),
+  },
+  {
+    id: "contact_number",
+    label: "Phone Number",
+    value: (party) => formatExportList(party.contact_number),
+  },
+  { id: "type", label: "Type", value: (party) => party.type },
+  {
+    id: "parties_type",
+    label: "Merchant Type",
+    value: (party) => party.parties_type,
+  },
+  { id: "gst_in", label: "GST No.", value: (party) => party.gst_in },
+  { id: "gst_add", label: "GST Address", value: (party) => party.gst_add },
+  {
+    id: "delivery_address",
+    label: "Delivery Address",
+    value: (party) => party.delivery_address,
+  },
+  { id: "shipped_to", label: "Shipped To", value: (party) => party.shipped_to },
+  { id: "bill_to", label: "Bill To", value: (party) => party.bill_to },
+  {
+    id: "shipped_gst_to",
+    label: "Shipped GSTIN",
+    value: (party) => party.shipped_gst_to,
+  },
+  {
+    id: "bill_gst_to",
+    label: "Bill GSTIN",
+    value: (party) => party.bill_gst_to,
+  },
+];
 
 const Parties = () => {
   const [showData, setshowData] = useState(false);
   const [counter, setCounter] = useState(0);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [selectedType, setSelectedType] = useState("");
-  const [selectedRole, setSelectedRole] = useState("");
+  const query = useTableQuery({ filters: ["type", "parties_type"] });
+  const [searchTerm, setSearchTerm] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  const selectedType = query.filters.type;
+  const selectedRole = query.filters.parties_type;
+  const [totalParties, setTotalParties] = useState<number | undefined>();
   const [partiesData, setPartiesData] = useState([]);
-  const [cookies] = useCookies();
+  const [fetchParties] = useLazyFetchPartiesQuery();
+  const [partiesBulkUpload] = usePartiesBulkUploadMutation();
   const [isLoading, setIsLoading] = useState(true);
-  const [page, setPage] = useState(1);
   const [edittable, setEditTable] = useState(null);
-  const [limit, setLimit] = useState(10);
-  const [isExporting, setIsExporting] = useState(false);
 
   // Bulk upload states
   const [showBulkUploadMenu, setShowBulkUploadMenu] = useState(false);
-  const [bulkUploading, setBulkUploading] = useState(false);
-  const fileRef = useRef(null);
+
+  const dispatch = useDispatch();
+  const { isPartyDetailsDrawerOpened } = useSelector(
+    (state: any) => state.drawers
+  );
+  const [partyId, setPartyId] = useState<string | undefined>();
+
+  const openPartyDetailsDrawerHandler = (id: string) => {
+    setPartyId(id);
+    dispatch(openPartyDetailsDrawer());
+  };
+  const closePartyDetailsDrawerHandler = () => {
+    dispatch(closePartyDetailsDrawer());
+  };
+
+  // Links from the command palette
+  useNotificationLink("id", openPartyDetailsDrawerHandler);
 
   const fetchPartiesData = async () => {
     try {
       setIsLoading(true);
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/get?page=${page}&&limit=${limit}`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await res.json();
+      const data = await fetchParties(query.params).unwrap();
       setPartiesData(data?.data);
+      setTotalParties(data?.totalData);
     } catch (error) {
       console.log(error);
     } finally {
@@ -53,137 +141,19 @@ const Parties = () => {
     }
   };
 
-  const fetchAllPartiesForExport = async () => {
-    try {
-      setIsExporting(true);
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/get?page=1&limit=10000`, // Get all data
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await res.json();
-      return data?.data || [];
-    } catch (error) {
-      console.error("Error fetching parties data for export:", error);
-      return [];
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
-  const bulkUploadHandler = async (e) => {
-    e.preventDefault();
-
-    const file = fileRef?.current?.files?.[0];
-    if (!file) {
-      toast.error("CSV file not selected");
-      return;
-    }
-
-    try {
-      setBulkUploading(true);
-      const formData = new FormData();
-      formData.append("excel", file);
-
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}parties/bulk`,
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-          body: formData,
-        }
-      );
-
-      const result = await response.json();
-
-      if (!response.ok) {
-        throw new Error(result.message || "Something went wrong");
-      }
-
-      toast.success(result.message);
-      setShowBulkUploadMenu(false);
-      fetchPartiesData(); // Refresh the data
-
-      // Reset file input
-      if (fileRef.current) {
-        fileRef.current.value = "";
-      }
-    } catch (err) {
-      toast.error(err.message || "Something went wrong");
-    } finally {
-      setBulkUploading(false);
-    }
-  };
-
-  const exportToExcel = async () => {
-    try {
-      const allPartiesData = await fetchAllPartiesForExport();
-
-      if (!allPartiesData || allPartiesData.length === 0) {
-        toast.error("No data available to export");
-        return;
-      }
-
-      const excelData = allPartiesData.map((party, index) => ({
-        'Sr. No.': index + 1,
-        'Customer ID': party.cust_id || 'N/A',
-        'Date Added': party.createdAt ? new Date(party.createdAt).toLocaleDateString() : 'N/A',
-        'Consignee Name': party?.consignee_name?.[0] || "N/A",
-        'Company Name': party.company_name || 'N/A',
-        'Email': Array.isArray(party.email_id) && party.email_id.length > 0
-          ? party.email_id.join(', ')
-          : party.email_id || 'N/A',
-        'Phone Number': Array.isArray(party.contact_number) && party.contact_number.length > 0
-          ? party.contact_number.join(', ')
-          : party.contact_number || 'N/A',
-        'Type': party.type || 'N/A',
-        'Merchant Type': party.parties_type || 'N/A',
-        'Shipped To': party.shipped_to || 'N/A',
-        'Bill To': party.bill_to || 'N/A',
-        'Shipped GSTIN': party.shipped_gst_to || 'N/A',
-        'Bill GSTIN': party.bill_gst_to || 'N/A'
-      }));
-
-      const wb = XLSX.utils.book_new();
-      const ws = XLSX.utils.json_to_sheet(excelData);
-
-      const colWidths = [
-        { wch: 8 },
-        { wch: 12 },
-        { wch: 12 },
-        { wch: 20 },
-        { wch: 20 },
-        { wch: 25 },
-        { wch: 15 },
-        { wch: 12 },
-        { wch: 15 },
-        { wch: 30 },
-        { wch: 30 },
-        { wch: 30 },
-        { wch: 30 }
-      ];
-      ws['!cols'] = colWidths;
-
-      XLSX.utils.book_append_sheet(wb, ws, "Parties Data");
-
-      const currentDate = new Date().toISOString().split('T')[0];
-      const filename = `Parties_Data_${currentDate}.xlsx`;
-
-      XLSX.writeFile(wb, filename);
-    } catch (error) {
-      toast.error("Error exporting data to Excel. Please try again.");
-    }
+  // Every party matching the current filters and sort, for exports
+  const fetchAllMatchingParties = async () => {
+    const data = await fetchParties({
+      ...query.params,
+      page: 1,
+      limit: totalParties || query.limit,
+    }).unwrap();
+    return data?.data || [];
   };
 
   useEffect(() => {
-    fetchPartiesData(page);
-  }, [counter, page, limit]);
+    fetchPartiesData();
+  }, [counter, query.params]);
 
   return (
     <div
@@ -252,24 +222,16 @@ const Parties = () => {
                 Bulk Upload
               </button>
 
-              {/* Excel Export Button */}
-              <button
-                onClick={exportToExcel}
-                disabled={isExporting}
-                className="flex items-center gap-1 px-3 py-2 text-white font-medium rounded-md transition-all duration-150 hover:shadow focus:outline-none focus:ring-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  backgroundColor: colors.success[600],
-                }}
-                onMouseEnter={(e) => {
-                  if (!isExporting) e.currentTarget.style.backgroundColor = colors.success[700];
-                }}
-                onMouseLeave={(e) => {
-                  if (!isExporting) e.currentTarget.style.backgroundColor = colors.success[600];
-                }}
-              >
-                <FiDownload size={16} />
-                {isExporting ? 'Exporting...' : 'Export Excel'}
-              </button>
+              <ExportMenu
+                module="parties"
+                fileName="Parties_Data"
+                columns={partiesExportColumns}
+                rows={partiesData}
+                totalRows={totalParties}
+                fetchRows={fetchAllMatchingParties}
+                resource="parties"
+                params={query.params}
+              />
               {/* Bulk Upload */}
     
 
@@ -344,7 +306,7 @@ const Parties = () => {
               <select
                 className="w-full px-4 py-3 text-sm border rounded-lg transition-colors focus:outline-none focus:ring-2"
                 value={selectedType}
-                onChange={(e) => setSelectedType(e.target.value)}
+                onChange={(e) => query.setFilter("type", e.target.value)}
                 style={{
                   backgroundColor: colors.input.background,
                   borderColor: colors.input.border,
@@ -376,7 +338,9 @@ const Parties = () => {
               <select
                 className="w-full px-4 py-3 text-sm border rounded-lg transition-colors focus:outline-none focus:ring-2"
                 value={selectedRole}
-                onChange={(e) => setSelectedRole(e.target.value)}
+                onChange={(e) =>
+                  query.setFilter("parties_type", e.target.value)
+                }
                 style={{
                   backgroundColor: colors.input.background,
                   borderColor: colors.input.border,
@@ -399,88 +363,15 @@ const Parties = () => {
           </div>
         </div>
 
-        {/* Bulk Upload Modal */}
+        {/* Import Wizard */}
         {showBulkUploadMenu && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div
-              className="rounded-xl shadow-xl max-w-md w-full p-6"
-              style={{ backgroundColor: colors.background.card }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3
-                  className="text-lg font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Bulk Upload Merchants
-                </h3>
-                <button
-                  onClick={() => setShowBulkUploadMenu(false)}
-                  className="p-1 rounded-lg transition-colors"
-                  style={{ color: colors.text.secondary }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = colors.gray[100];
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                >
-                  <RxCross2 size="20px" />
-                </button>
-              </div>
-
-              <form onSubmit={bulkUploadHandler}>
-                <div className="mb-4">
-                  <label
-                    className="block text-sm font-medium mb-2"
-                    style={{ color: colors.text.primary }}
-                  >
-                    Choose File (.csv or .xlsx)
-                  </label>
-                  <input
-                    ref={fileRef}
-                    type="file"
-                    accept=".csv, .xlsx"
-                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
-                    style={{
-                      backgroundColor: colors.input.background,
-                      borderColor: colors.input.border,
-                      color: colors.text.primary,
-                    }}
-                  />
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="submit"
-                    disabled={bulkUploading}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                  >
-                    {bulkUploading ? "Uploading..." : "Upload"}
-                    <AiFillFileExcel size="16px" />
-                  </button>
-
-                  <a href={SampleCSV} className="flex-1">
-                    <button
-                      type="button"
-                      className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                      style={{
-                        borderColor: colors.border.medium,
-                        color: colors.text.primary,
-                        backgroundColor: colors.background.card,
-                      }}
-                    >
-                      Sample CSV
-                      <AiFillFileExcel size="16px" />
-                    </button>
-                  </a>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ImportWizard
+            config={partyImportConfig}
+            upload={(formData) => partiesBulkUpload(formData).unwrap()}
+            onImported={fetchPartiesData}
+            onClose={() => setShowBulkUploadMenu(false)}
+            sampleUrl={SampleCSV}
+          />
         )}
 
         {/* Table Section */}
@@ -502,17 +393,20 @@ const Parties = () => {
             setPartiesData={setPartiesData}
             isLoading={isLoading}
             fetchPartiesData={fetchPartiesData}
-            setLimit={setLimit}
-            limit={limit}
+            setLimit={query.setLimit}
+            limit={query.limit}
+            totalParties={totalParties}
           />
         </div>
 
         {/* Pagination */}
         <div className="mt-6">
           <Pagination
-            page={page}
-            setPage={setPage}
-            hasNextPage={partiesData?.length === limit}
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={partiesData?.length === query.limit}
+            totalItems={totalParties}
+            pageSize={query.limit}
           />
         </div>
       </div>
@@ -526,6 +420,12 @@ const Parties = () => {
         setshowData={setshowData}
         setCounter={setCounter}
       />
+      {isPartyDetailsDrawerOpened && (
+        <PartyDetails
+          partyId={partyId}
+          closeDrawerHandler={closePartyDetailsDrawerHandler}
+        />
+      )}
     </div>
   );
 };
@@ -1,8 +1,7 @@
 import { Button } from "@chakra-ui/react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import PaymentTable from "../components/Table/PaymentTable";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { MdOutlineRefresh } from "react-icons/md";
 import { useDispatch, useSelector } from "react-redux";
 import {
@@ -15,16 +14,38 @@ import PaymentDetails from "../components/Drawers/Payment/PaymentDetails";
 import UpdatePayment from "../components/Drawers/Payment/UpdatePayment";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
 import { BadgeIndianRupee } from "lucide-react";
+import { useLazyFetchPaymentQuery } from "../redux/api/api";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import Pagination from "./Pagination";
 
 const Payment: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("sale & purchase");
-  const [searchKey, setSearchKey] = useState<string | undefined>();
-  const [data, setData] = useState<any[] | []>([]);
-  const [filteredData, setFilteredData] = useState<any[] | []>([]);
-  const [isLoadingPayments, setIsLoadingPayments] = useState<boolean>(false);
-  const [cookies] = useCookies();
+  const can = useCan();
+  const query = useTableQuery();
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  // Newest payments first unless a sort is set in the URL
+  const listParams = useMemo(
+    () =>
+      query.sort
+        ? query.params
+        : { ...query.params, sort: "createdAt", order: "desc" as const },
+    [query.params, query.sort]
+  );
+  const [
+    fetchPayments,
+    { data: paymentsData, isFetching: isLoadingPayments },
+  ] = useLazyFetchPaymentQuery();
+  const [fetchAllPayments] = useLazyFetchPaymentQuery();
+  const data = useMemo(() => paymentsData?.payments || [], [paymentsData]);
   const dispatch = useDispatch();
   const { isUpdatePaymentDrawerOpened, isPaymentDetailsDrawerOpened } =
     useSelector((state: any) => state.drawers);
@@ -32,29 +53,22 @@ const Payment: React.FC = () => {
 
   const fetchPaymentsHandler = async () => {
     try {
-      setIsLoadingPayments(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "payment/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-      setData(data.payments);
-      setFilteredData(data.payments);
+      await fetchPayments(listParams).unwrap();
     } catch (error: any) {
       toast.error(error.message || "Something went wrong");
-    } finally {
-      setIsLoadingPayments(false);
     }
   };
 
+  // Every payment matching the current search and sort, for exports
+  const fetchAllMatchingPayments = async () => {
+    const result = await fetchAllPayments({
+      ...listParams,
+      page: 1,
+      limit: paymentsData?.totalData || query.limit,
+    }).unwrap();
+    return result?.payments || [];
+  };
+
   const openPaymentDetailsDrawerHandler = (id: string) => {
     setId(id);
     dispatch(openPaymentDetailsDrawer());
@@ -75,37 +89,7 @@ const Payment: React.FC = () => {
 
   useEffect(() => {
     fetchPaymentsHandler();
-  }, []);
-
-  useEffect(() => {
-    const searchText = searchKey?.toLowerCase();
-    const results = data.filter(
-      (p: any) =>
-        p.creator.first_name?.toLowerCase()?.includes(searchText) ||
-        p?.creator?.last_name?.toLowerCase()?.includes(searchText) ||
-        p?.amount?.toString()?.toLowerCase()?.includes(searchText) ||
-        p?.mode?.toLowerCase()?.includes(searchText) ||
-        p?.supplier?.name?.toLowerCase()?.includes(searchText) ||
-        p?.buyer?.name?.toLowerCase()?.includes(searchText) ||
-        (p?.createdAt &&
-          new Date(p?.createdAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            .reverse()
-            .join("")
-            ?.includes(searchText?.replaceAll("/", "") || "")) ||
-        (p?.updatedAt &&
-          new Date(p?.updatedAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            ?.reverse()
-            ?.join("")
-            ?.includes(searchText?.replaceAll("/", "") || ""))
-    );
-    setFilteredData(results);
-  }, [searchKey])
+  }, [listParams]);
 
   if (!isAllowed) {
     return <div className="text-center text-red-500">You are not allowed to access this route.</div>
@@ -213,10 +197,27 @@ const Payment: React.FC = () => {
         <div>
           <PaymentTable
             isLoadingPayments={isLoadingPayments}
-            payments={filteredData}
-            payment={filteredData}
+            payments={data}
+            payment={data}
             openPaymentDetailsDrawerHandler={openPaymentDetailsDrawerHandler}
-            openUpdatePaymentDrawer={openPaymentUpdateDrawerHandler}
+            openUpdatePaymentDrawer={
+              can("accounts", "update")
+                ? openPaymentUpdateDrawerHandler
+                : undefined
+            }
+            totalPayments={paymentsData?.totalData}
+            sortBy={query.sortBy}
+            onSortByChange={query.setSortBy}
+            fetchAllPayments={fetchAllMatchingPayments}
+            listParams={listParams}
+          />
+          <Pagination
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={data.length === query.limit}
+            totalItems={paymentsData?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
           />
         </div>
       </div>
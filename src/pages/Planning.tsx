@@ -1,9 +1,672 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPlus, FiSearch } from "react-icons/fi";
+import { Calendar, ChevronDown, ChevronRight } from "lucide-react";
+import { colors } from "../theme/colors";
+import {
+  useDeletePlanMutation,
+  useLazyFetchBomsQuery,
+  useLazyFetchPlansQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchSalesQuery,
+  useUpdatePlanMutation,
+} from "../redux/api/api";
+import AddPlan from "../components/Drawers/Planning/AddPlan";
+import {
+  calculateMaterialRequirements,
+  findBomsForSaleLines,
+} from "../components/utils/materialRequirements";
+import {
+  formatSaleLines,
+  getSaleItems,
+} from "../components/utils/salesOrders";
+
+const planStatusColorMap: { [status: string]: string } = {
+  Draft: "bg-gray-100 text-gray-800",
+  Released: "bg-blue-100 text-blue-800",
+  Completed: "bg-green-100 text-green-800",
+};
+
+const nextPlanStatus: { [status: string]: string | undefined } = {
+  Draft: "Released",
+  Released: "Completed",
+};
+
+const hasMissingBom = (sale: any, boms: any[]) =>
+  findBomsForSaleLines(sale, boms).some((bom) => !bom);
+
+const getPlanSaleIds = (plan: any): string[] =>
+  (plan?.sales_orders || []).map((sale: any) => sale?._id || sale);
+
+const Planning: React.FC = () => {
+  const [sales, setSales] = useState<any[]>([]);
+  const [plans, setPlans] = useState<any[]>([]);
+  const [boms, setBoms] = useState<any[]>([]);
+  const [products, setProducts] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [searchKey, setSearchKey] = useState<string>("");
+  const [selectedSales, setSelectedSales] = useState<string[]>([]);
+  const [expandedPlans, setExpandedPlans] = useState<{
+    [planId: string]: boolean;
+  }>({});
+  const [isAddPlanDrawerOpened, setIsAddPlanDrawerOpened] = useState(false);
+  const [editPlan, setEditPlan] = useState<any | null>(null);
+
+  const [fetchPlans] = useLazyFetchPlansQuery();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [updatePlan] = useUpdatePlanMutation();
+  const [deletePlan] = useDeletePlanMutation();
+
+  const fetchSalesHandler = async () => {
+    const data = await fetchSales({ page: 1, limit: 10000 }).unwrap();
+    setSales(data?.data || []);
+  };
+
+  const fetchPlansHandler = async () => {
+    const data = await fetchPlans({}).unwrap();
+    setPlans(data?.plans || []);
+  };
+
+  const fetchPlanningDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [bomData, productData] = await Promise.all([
+        fetchBoms({}).unwrap(),
+        fetchProducts({}).unwrap(),
+        fetchSalesHandler(),
+        fetchPlansHandler(),
+      ]);
+      setBoms(bomData?.boms || []);
+      setProducts(productData?.products || []);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPlanningDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Orders already grouped into an open plan are not offered again
+  const plannedSaleIds = useMemo(() => {
+    const ids = new Set<string>();
+    plans
+      .filter((plan: any) => plan?.status !== "Completed")
+      .forEach((plan: any) => getPlanSaleIds(plan).forEach((id) => ids.add(id)));
+    return ids;
+  }, [plans]);
+
+  const unplannedSales = useMemo(
+    () =>
+      sales.filter((sale: any) => !plannedSaleIds.has(sale._id)),
+    [sales, plannedSaleIds]
+  );
+
+  const filteredUnplannedSales = useMemo(() => {
+    const searchTxt = searchKey.toLowerCase();
+    if (!searchTxt) return unplannedSales;
+    return unplannedSales.filter((sale: any) =>
+      [
+        sale?.order_id,
+        ...getSaleItems(sale).map((line) => line.name),
+        sale?.party?.consignee_name?.[0],
+        sale?.party?.company_name,
+      ]
+        .filter(Boolean)
+        .some((field) => field.toString().toLowerCase().includes(searchTxt))
+    );
+  }, [unplannedSales, searchKey]);
+
+  const getPlanSales = (plan: any) => {
+    const ids = getPlanSaleIds(plan);
+    return sales.filter((sale: any) => ids.includes(sale._id));
+  };
+
+  const openAddPlanDrawerHandler = () => {
+    setEditPlan(null);
+    setIsAddPlanDrawerOpened(true);
+  };
+
+  const openUpdatePlanDrawerHandler = (plan: any) => {
+    setEditPlan(plan);
+    setIsAddPlanDrawerOpened(true);
+  };
+
+  const closeAddPlanDrawerHandler = () => {
+    setIsAddPlanDrawerOpened(false);
+    setEditPlan(null);
+    setSelectedSales([]);
+  };
+
+  const refreshPlansHandler = async () => {
+    try {
+      await fetchPlansHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const updatePlanStatusHandler = async (plan: any, status: string) => {
+    try {
+      const response = await updatePlan({ _id: plan._id, status }).unwrap();
+      toast.success(response?.message || `Plan marked as ${status}`);
+      refreshPlansHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const deletePlanHandler = async (id: string) => {
+    try {
+      const response = await deletePlan(id).unwrap();
+      toast.success(response?.message || "Plan deleted successfully");
+      refreshPlansHandler();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const toggleSaleSelection = (id: string) => {
+    setSelectedSales((prev) =>
+      prev.includes(id) ? prev.filter((s) => s !== id) : [...prev, id]
+    );
+  };
+
+  const togglePlanExpanded = (id: string) => {
+    setExpandedPlans((prev) => ({ ...prev, [id]: !prev[id] }));
+  };
 
-const Planning = () => {
   return (
-    <div>Planning</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isAddPlanDrawerOpened && (
+        <AddPlan
+          closeDrawerHandler={closeAddPlanDrawerHandler}
+          fetchPlansHandler={refreshPlansHandler}
+          editPlan={editPlan}
+          preselectedSales={selectedSales}
+          sales={
+            editPlan
+              ? [...getPlanSales(editPlan), ...unplannedSales]
+              : unplannedSales
+          }
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 p-3 rounded-xl shadow-lg">
+                <Calendar className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Production Planning
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Group sales orders into production plans and check material
+                  requirements against stock
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <button
+                onClick={openAddPlanDrawerHandler}
+                style={{ backgroundColor: colors.primary[600] }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[700];
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[600];
+                }}
+                className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+              >
+                <FiPlus size={16} />
+                {selectedSales.length > 0
+                  ? `Plan ${selectedSales.length} Selected Order${
+                      selectedSales.length > 1 ? "s" : ""
+                    }`
+                  : "New Plan"}
+              </button>
+              <Button
+                onClick={fetchPlanningDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {/* Summary */}
+          <div className="mt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {[
+              { label: "Unplanned Orders", value: unplannedSales.length },
+              {
+                label: "Open Plans",
+                value: plans.filter((plan: any) => plan?.status !== "Completed")
+                  .length,
+              },
+              {
+                label: "Orders Without BOM",
+                value: unplannedSales.filter(
+                  (sale: any) => hasMissingBom(sale, boms)
+                ).length,
+              },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          {/* Unplanned Sales Orders */}
+          <div
+            className="rounded-xl shadow-sm border overflow-hidden"
+            style={{
+              backgroundColor: colors.background.card,
+              borderColor: colors.border.light,
+            }}
+          >
+            <div
+              className="p-4 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+              style={{ borderColor: colors.border.light }}
+            >
+              <h2
+                className="text-lg font-semibold"
+                style={{ color: colors.text.primary }}
+              >
+                Unplanned Sales Orders
+              </h2>
+              <div className="relative w-full sm:max-w-xs">
+                <FiSearch
+                  className="absolute left-3 top-1/2 transform -translate-y-1/2"
+                  style={{ color: colors.text.secondary }}
+                />
+                <input
+                  className="w-full pl-10 pr-4 py-2 border rounded-lg text-sm focus:outline-none"
+                  style={{
+                    backgroundColor: colors.input.background,
+                    borderColor: colors.input.border,
+                    color: colors.text.primary,
+                  }}
+                  placeholder="Search order, product, merchant..."
+                  value={searchKey}
+                  onChange={(e) => setSearchKey(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead style={{ backgroundColor: colors.table.header }}>
+                  <tr>
+                    <th className="px-4 py-3"></th>
+                    <th className="px-4 py-3 text-left">Order</th>
+                    <th className="px-4 py-3 text-left">Merchant</th>
+                    <th className="px-4 py-3 text-left">Product</th>
+                    <th className="px-4 py-3 text-right">Qty</th>
+                    <th className="px-4 py-3 text-left">BOM</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {filteredUnplannedSales.length === 0 && (
+                    <tr>
+                      <td
+                        colSpan={6}
+                        className="px-4 py-6 text-center"
+                        style={{ color: colors.text.secondary }}
+                      >
+                        {isLoading ? "Loading..." : "No unplanned sales orders."}
+                      </td>
+                    </tr>
+                  )}
+                  {filteredUnplannedSales.map((sale: any) => {
+                    const lineBoms = findBomsForSaleLines(sale, boms);
+                    return (
+                      <tr
+                        key={sale._id}
+                        className="border-t"
+                        style={{ borderColor: colors.border.light }}
+                      >
+                        <td className="px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedSales.includes(sale._id)}
+                            onChange={() => toggleSaleSelection(sale._id)}
+                          />
+                        </td>
+                        <td className="px-4 py-3 font-medium">
+                          {sale?.order_id || "N/A"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {sale?.party?.consignee_name?.[0] ||
+                            sale?.party?.company_name ||
+                            "N/A"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {getSaleItems(sale).map((line, index) => (
+                            <div key={`${line.product_id}-${index}`}>
+                              {line.name || "N/A"}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {getSaleItems(sale).map((line, index) => (
+                            <div key={`${line.product_id}-${index}`}>
+                              {line.quantity} {line.uom || ""}
+                            </div>
+                          ))}
+                        </td>
+                        <td className="px-4 py-3">
+                          {lineBoms.map((bom, index) => (
+                            <div key={index}>
+                              {bom ? (
+                                bom?.bom_name
+                              ) : (
+                                <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">
+                                  No BOM
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Production Plans */}
+          <div className="space-y-4">
+            {plans.length === 0 && (
+              <div
+                className="rounded-xl shadow-sm border p-6 text-center"
+                style={{
+                  backgroundColor: colors.background.card,
+                  borderColor: colors.border.light,
+                  color: colors.text.secondary,
+                }}
+              >
+                No production plans yet. Select sales orders and create a plan.
+              </div>
+            )}
+            {plans.map((plan: any) => {
+              const planSales = getPlanSales(plan);
+              const requirements = calculateMaterialRequirements(
+                planSales,
+                boms,
+                products
+              );
+              const shortages = requirements.filter(
+                (requirement) => requirement.shortage_qty > 0
+              );
+              const salesWithoutBom = planSales.filter(
+                (sale: any) => hasMissingBom(sale, boms)
+              );
+              const isOverdue =
+                plan?.status !== "Completed" &&
+                plan?.target_date &&
+                new Date(plan.target_date) < new Date();
+              const nextStatus = nextPlanStatus[plan?.status || "Draft"];
+
+              return (
+                <div
+                  key={plan._id}
+                  className="rounded-xl shadow-sm border overflow-hidden"
+                  style={{
+                    backgroundColor: colors.background.card,
+                    borderColor: colors.border.light,
+                  }}
+                >
+                  <div className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                    <button
+                      className="flex items-start gap-2 text-left"
+                      onClick={() => togglePlanExpanded(plan._id)}
+                    >
+                      {expandedPlans[plan._id] ? (
+                        <ChevronDown size={20} className="mt-1" />
+                      ) : (
+                        <ChevronRight size={20} className="mt-1" />
+                      )}
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <h3
+                            className="text-base font-semibold"
+                            style={{ color: colors.text.primary }}
+                          >
+                            {plan?.name}
+                          </h3>
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full ${
+                              planStatusColorMap[plan?.status || "Draft"]
+                            }`}
+                          >
+                            {plan?.status || "Draft"}
+                          </span>
+                          {isOverdue && (
+                            <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-800">
+                              Overdue
+                            </span>
+                          )}
+                        </div>
+                        <p
+                          className="text-xs mt-1"
+                          style={{ color: colors.text.secondary }}
+                        >
+                          Target:{" "}
+                          {plan?.target_date
+                            ? new Date(plan.target_date).toLocaleDateString()
+                            : "N/A"}{" "}
+                          &middot; {planSales.length} order
+                          {planSales.length !== 1 ? "s" : ""} &middot;{" "}
+                          {shortages.length > 0 ? (
+                            <span className="text-red-600 font-medium">
+                              {shortages.length} material shortage
+                              {shortages.length > 1 ? "s" : ""}
+                            </span>
+                          ) : (
+                            <span className="text-green-600 font-medium">
+                              Materials available
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                    </button>
+                    <div className="flex gap-2">
+                      {nextStatus && (
+                        <Button
+                          size="sm"
+                          colorScheme="blue"
+                          onClick={() =>
+                            updatePlanStatusHandler(plan, nextStatus)
+                          }
+                        >
+                          {nextStatus === "Released" ? "Release" : "Complete"}
+                        </Button>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => openUpdatePlanDrawerHandler(plan)}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        colorScheme="red"
+                        onClick={() => deletePlanHandler(plan._id)}
+                      >
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+
+                  {expandedPlans[plan._id] && (
+                    <div
+                      className="border-t p-4 space-y-4"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <div>
+                        <h4
+                          className="text-sm font-semibold mb-2"
+                          style={{ color: colors.text.primary }}
+                        >
+                          Sales Orders
+                        </h4>
+                        <div className="flex flex-wrap gap-2">
+                          {planSales.map((sale: any) => (
+                            <span
+                              key={sale._id}
+                              className="text-xs px-2 py-1 rounded border"
+                              style={{ borderColor: colors.border.light }}
+                            >
+                              {sale?.order_id || sale._id.slice(-6)} &middot;{" "}
+                              {formatSaleLines(sale)}
+                            </span>
+                          ))}
+                        </div>
+                        {salesWithoutBom.length > 0 && (
+                          <p className="text-xs mt-2 text-red-600">
+                            No BOM found for{" "}
+                            {salesWithoutBom
+                              .map((sale: any) => sale?.order_id || sale._id)
+                              .join(", ")}
+                            ; their materials are not included below.
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="overflow-x-auto">
+                        <h4
+                          className="text-sm font-semibold mb-2"
+                          style={{ color: colors.text.primary }}
+                        >
+                          Material Requirements
+                        </h4>
+                        <table className="min-w-full text-sm border">
+                          <thead
+                            style={{ backgroundColor: colors.table.header }}
+                          >
+                            <tr>
+                              <th className="px-3 py-2 text-left">Material</th>
+                              <th className="px-3 py-2 text-right">Required</th>
+                              <th className="px-3 py-2 text-right">
+                                In Stock
+                              </th>
+                              <th className="px-3 py-2 text-right">Shortage</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {requirements.length === 0 && (
+                              <tr>
+                                <td
+                                  colSpan={4}
+                                  className="px-3 py-4 text-center"
+                                  style={{ color: colors.text.secondary }}
+                                >
+                                  No material requirements.
+                                </td>
+                              </tr>
+                            )}
+                            {requirements.map((requirement) => (
+                              <tr key={requirement.item_id} className="border-t">
+                                <td className="px-3 py-2">
+                                  {requirement.name}
+                                  {requirement.product_id && (
+                                    <span
+                                      className="block text-xs"
+                                      style={{ color: colors.text.secondary }}
+                                    >
+                                      {requirement.product_id}
+                                    </span>
+                                  )}
+                                </td>
+                                <td className="px-3 py-2 text-right">
+                                  {requirement.required_qty}{" "}
+                                  {requirement.uom || ""}
+                                </td>
+                                <td className="px-3 py-2 text-right">
+                                  {requirement.available_qty}
+                                </td>
+                                <td
+                                  className={`px-3 py-2 text-right font-bold ${
+                                    requirement.shortage_qty > 0
+                                      ? "text-red-600"
+                                      : "text-green-600"
+                                  }`}
+                                >
+                                  {requirement.shortage_qty}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+
+                      {plan?.remarks && (
+                        <p
+                          className="text-sm"
+                          style={{ color: colors.text.secondary }}
+                        >
+                          {plan.remarks}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Planning
\ No newline at end of file
+export default Planning;
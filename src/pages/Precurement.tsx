@@ -1,9 +1,757 @@
-import React from 'react'
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button, Checkbox } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPlus } from "react-icons/fi";
+import { ClipboardList } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useApproveRequisitionMutation,
+  useDeleteRequisitionMutation,
+  useLazyFetchGoodsReceiptsQuery,
+  useLazyFetchInventoryShortagesQuery,
+  useLazyFetchPurchaseOrdersQuery,
+  useLazyFetchRawMaterialsQuery,
+  useLazyFetchRequisitionsQuery,
+  useLazyFetchSuppliersQuery,
+  useUpdateRequisitionMutation,
+} from "../redux/api/api";
+import AddRequisition from "../components/Drawers/Requisition/AddRequisition";
+import AddPurchaseOrder from "../components/Drawers/Purchase Order/AddPurchaseOrder";
+import {
+  RequisitionLine,
+  UNASSIGNED_SUPPLIER,
+  getShortageCoverage,
+  groupLinesBySupplier,
+  normalizeShortage,
+} from "../components/utils/requisitions";
+import { PurchaseOrder } from "../redux/api/types";
+
+type Tab = "shortages" | "requisitions";
+
+const statusColorMap: { [status: string]: string } = {
+  "Pending Approval": "bg-yellow-100 text-yellow-800",
+  Approved: "bg-blue-100 text-blue-800",
+  Rejected: "bg-red-100 text-red-800",
+  Converted: "bg-green-100 text-green-800",
+};
+
+const Precurement: React.FC = () => {
+  const can = useCan();
+  const canApprove = can("approval", "approve");
+
+  const [activeTab, setActiveTab] = useState<Tab>("shortages");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [shortages, setShortages] = useState<any[]>([]);
+  const [rawMaterials, setRawMaterials] = useState<any[]>([]);
+  const [selectedShortages, setSelectedShortages] = useState<number[]>([]);
+
+  const [isRequisitionDrawerOpened, setIsRequisitionDrawerOpened] =
+    useState(false);
+  const [requisitionLines, setRequisitionLines] = useState<RequisitionLine[]>(
+    []
+  );
+  const [editRequisition, setEditRequisition] = useState<any | null>(null);
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+  // The PO being raised from a requisition and the lines it covers
+  const [purchaseOrderPrefill, setPurchaseOrderPrefill] = useState<any | null>(
+    null
+  );
+  const [pendingConversion, setPendingConversion] = useState<{
+    requisition: any;
+    lineIndexes: number[];
+  } | null>(null);
+
+  const [fetchRequisitions, { data: requisitionData }] =
+    useLazyFetchRequisitionsQuery();
+  const [updateRequisition] = useUpdateRequisitionMutation();
+  const [approveRequisition] = useApproveRequisitionMutation();
+  const [deleteRequisition] = useDeleteRequisitionMutation();
+  const requisitions: any[] = useMemo(
+    () => requisitionData?.requisitions || [],
+    [requisitionData]
+  );
+  const [fetchPurchaseOrders, { data: purchaseOrderData }] =
+    useLazyFetchPurchaseOrdersQuery();
+  const purchaseOrders: any[] = useMemo(
+    () => purchaseOrderData?.purchase_orders || [],
+    [purchaseOrderData]
+  );
+  const [fetchGoodsReceipts, { data: goodsReceiptData }] =
+    useLazyFetchGoodsReceiptsQuery();
+  const goodsReceipts = useMemo(
+    () => goodsReceiptData?.grns || [],
+    [goodsReceiptData]
+  );
+  const [fetchSuppliers, { data: supplierData }] = useLazyFetchSuppliersQuery();
+  const [fetchInventoryShortages] = useLazyFetchInventoryShortagesQuery();
+  const [fetchRawMaterials] = useLazyFetchRawMaterialsQuery();
+  const suppliers: any[] = useMemo(
+    () => supplierData?.suppliers || [],
+    [supplierData]
+  );
+
+  const fetchProcurementDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [shortageResponse, materialResponse] = await Promise.all([
+        fetchInventoryShortages({}).unwrap(),
+        fetchRawMaterials({}).unwrap(),
+        fetchSuppliers({}).unwrap(),
+        fetchPurchaseOrders({}).unwrap(),
+        fetchGoodsReceipts({}).unwrap(),
+        fetchRequisitions({}).unwrap(),
+      ]);
+      setShortages(
+        (shortageResponse?.shortages || []).map(normalizeShortage)
+      );
+      setRawMaterials(materialResponse?.rawMaterials || []);
+      setSelectedShortages([]);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchProcurementDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const coverages = useMemo(
+    () =>
+      shortages.map((shortage) =>
+        getShortageCoverage(
+          shortage,
+          requisitions,
+          purchaseOrders,
+          goodsReceipts
+        )
+      ),
+    [shortages, requisitions, purchaseOrders, goodsReceipts]
+  );
+
+  const openRequisitionDrawerHandler = (
+    lines: RequisitionLine[],
+    requisition: any | null
+  ) => {
+    setRequisitionLines(lines);
+    setEditRequisition(requisition);
+    setIsRequisitionDrawerOpened(true);
+  };
+
+  const raiseFromShortagesHandler = () => {
+    const lines: RequisitionLine[] = selectedShortages.map((index) => {
+      const shortage = shortages[index];
+      const coverage = coverages[index];
+      // Only ask for what open requisitions and POs do not already cover
+      const uncovered =
+        shortage.shortage_qty -
+        coverage.requisitionQty -
+        coverage.purchaseOrderQty;
+      const material = rawMaterials.find(
+        (m: any) =>
+          m._id === shortage.item ||
+          m.name?.toLowerCase() === shortage.item_name.toLowerCase()
+      );
+      return {
+        item: shortage.item || material?._id,
+        item_name: shortage.item_name,
+        quantity: Math.max(uncovered, 0) || shortage.shortage_qty,
+        uom: shortage.uom || material?.uom || "",
+        estimated_price: shortage.price || material?.price || 0,
+        preferred_supplier: "",
+        bom_name: shortage.bom_name,
+        source: "shortage",
+      };
+    });
+    openRequisitionDrawerHandler(lines, null);
+  };
+
+  const approvalHandler = async (
+    requisition: any,
+    status: "Approved" | "Rejected"
+  ) => {
+    try {
+      const response = await approveRequisition({
+        _id: requisition._id,
+        status,
+      }).unwrap();
+      toast.success(response?.message || `Requisition ${status.toLowerCase()}`);
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const deleteRequisitionHandler = async (id: string) => {
+    try {
+      const response = await deleteRequisition(id).unwrap();
+      toast.success(response?.message || "Requisition deleted");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const createPurchaseOrderHandler = (
+    requisition: any,
+    supplier: string,
+    lines: { line: any; index: number }[]
+  ) => {
+    setPendingConversion({
+      requisition,
+      lineIndexes: lines.map(({ index }) => index),
+    });
+    setPurchaseOrderPrefill({
+      supplierName: supplier === UNASSIGNED_SUPPLIER ? "" : supplier,
+      expectedDeliveryDate: requisition.required_by,
+      additionalRemarks: `Against requisition ${
+        requisition.requisition_id || requisition._id
+      }`,
+      requisition: requisition._id,
+      items: lines.map(({ line }) => ({
+        itemName: line.item_name,
+        quantity: +line.quantity,
+        unitPrice: +line.estimated_price || 0,
+        totalPrice: +line.quantity * (+line.estimated_price || 0),
+        productId: line.item || "",
+        uom: line.uom || "",
+      })),
+    });
+  };
+
+  // Marks the requisition lines that went into the new PO as converted
+  const purchaseOrderCreatedHandler = async (purchaseOrder?: PurchaseOrder) => {
+    if (!pendingConversion) return;
+    const { requisition, lineIndexes } = pendingConversion;
+    const lines = (requisition.lines || []).map((line: any, index: number) =>
+      lineIndexes.includes(index)
+        ? { ...line, converted: true, purchase_order: purchaseOrder?._id }
+        : line
+    );
+    try {
+      await updateRequisition({
+        _id: requisition._id,
+        lines,
+        status: lines.every((line: any) => line.converted)
+          ? "Converted"
+          : requisition.status,
+      }).unwrap();
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    } finally {
+      setPendingConversion(null);
+    }
+  };
+
+  const getRequisitionValue = (requisition: any) =>
+    (requisition?.lines || []).reduce(
+      (sum: number, line: any) =>
+        sum + (+line.quantity || 0) * (+line.estimated_price || 0),
+      0
+    );
+
+  const stats = [
+    { label: "Shortage Lines", value: shortages.length },
+    {
+      label: "Uncovered Shortages",
+      value: coverages.filter((coverage) => !coverage.isCovered).length,
+    },
+    {
+      label: "Pending Approval",
+      value: requisitions.filter((r) => r.status === "Pending Approval")
+        .length,
+    },
+    {
+      label: "Approved, Awaiting PO",
+      value: requisitions.filter((r) => r.status === "Approved").length,
+    },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "shortages", label: "Shortages" },
+    { key: "requisitions", label: "Requisitions" },
+  ];
 
-const Precurement = () => {
   return (
-    <div>Precurement</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isRequisitionDrawerOpened && (
+        <AddRequisition
+          closeDrawerHandler={() => {
+            setIsRequisitionDrawerOpened(false);
+            setEditRequisition(null);
+            setSelectedShortages([]);
+          }}
+          rawMaterials={rawMaterials}
+          suppliers={suppliers}
+          initialLines={requisitionLines}
+          editRequisition={editRequisition}
+        />
+      )}
+      {purchaseOrderPrefill && (
+        <AddPurchaseOrder
+          isOpen={!!purchaseOrderPrefill}
+          closeDrawerHandler={() => {
+            setPurchaseOrderPrefill(null);
+            setPendingConversion(null);
+          }}
+          prefill={purchaseOrderPrefill}
+          onPurchaseOrderCreated={purchaseOrderCreatedHandler}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-teal-500 to-teal-600 p-3 rounded-xl shadow-lg">
+                <ClipboardList className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Purchase Requisitions
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Raise requisitions from shortages, approve them and convert
+                  them into purchase orders
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {activeTab === "shortages" && selectedShortages.length > 0 ? (
+                <button
+                  onClick={raiseFromShortagesHandler}
+                  style={{ backgroundColor: colors.primary[600] }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                >
+                  <FiPlus size={16} />
+                  Raise Requisition ({selectedShortages.length})
+                </button>
+              ) : (
+                <button
+                  onClick={() => openRequisitionDrawerHandler([], null)}
+                  style={{ backgroundColor: colors.primary[600] }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                >
+                  <FiPlus size={16} />
+                  New Requisition
+                </button>
+              )}
+              <Button
+                onClick={fetchProcurementDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          {activeTab === "shortages" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left w-10">
+                    <Checkbox
+                      isChecked={
+                        shortages.length > 0 &&
+                        selectedShortages.length === shortages.length
+                      }
+                      onChange={(e) =>
+                        setSelectedShortages(
+                          e.target.checked ? shortages.map((_, i) => i) : []
+                        )
+                      }
+                    />
+                  </th>
+                  <th className="px-4 py-3 text-left">BOM</th>
+                  <th className="px-4 py-3 text-left">Material</th>
+                  <th className="px-4 py-3 text-right">Required</th>
+                  <th className="px-4 py-3 text-right">Available</th>
+                  <th className="px-4 py-3 text-right">Shortage</th>
+                  <th className="px-4 py-3 text-left">Coverage</th>
+                </tr>
+              </thead>
+              <tbody>
+                {shortages.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {isLoading ? "Loading..." : "No shortages found."}
+                    </td>
+                  </tr>
+                )}
+                {shortages.map((shortage, index) => {
+                  const coverage = coverages[index];
+                  const coveredQty =
+                    coverage.requisitionQty + coverage.purchaseOrderQty;
+                  return (
+                    <tr
+                      key={index}
+                      className="border-t"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3">
+                        <Checkbox
+                          isChecked={selectedShortages.includes(index)}
+                          onChange={(e) =>
+                            setSelectedShortages((prev) =>
+                              e.target.checked
+                                ? [...prev, index]
+                                : prev.filter((i) => i !== index)
+                            )
+                          }
+                        />
+                      </td>
+                      <td className="px-4 py-3">{shortage.bom_name || "-"}</td>
+                      <td className="px-4 py-3 font-medium">
+                        {shortage.item_name || "-"}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {shortage.required_qty}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {shortage.available_qty}
+                      </td>
+                      <td className="px-4 py-3 text-right font-bold text-red-600">
+                        {shortage.shortage_qty}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${
+                            coverage.isCovered
+                              ? "bg-green-100 text-green-800"
+                              : coveredQty > 0
+                              ? "bg-yellow-100 text-yellow-800"
+                              : "bg-red-100 text-red-800"
+                          }`}
+                        >
+                          {coverage.isCovered
+                            ? "Covered"
+                            : coveredQty > 0
+                            ? `Partly covered (${coveredQty})`
+                            : "Not covered"}
+                        </span>
+                        {coverage.references.length > 0 && (
+                          <p className="text-xs mt-1 text-gray-500">
+                            {coverage.references.join(", ")}
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "requisitions" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Requisition</th>
+                  <th className="px-4 py-3 text-left">Raised On</th>
+                  <th className="px-4 py-3 text-left">Items</th>
+                  <th className="px-4 py-3 text-left">Required By</th>
+                  <th className="px-4 py-3 text-right">Est. Value</th>
+                  <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {requisitions.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={7}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No requisitions raised yet.
+                    </td>
+                  </tr>
+                )}
+                {requisitions.map((requisition: any) => {
+                  const status = requisition.status || "Pending Approval";
+                  const isEditable =
+                    status === "Pending Approval" || status === "Rejected";
+                  return (
+                    <Fragment key={requisition._id}>
+                      <tr
+                        className="border-t align-top"
+                        style={{ borderColor: colors.border.light }}
+                      >
+                        <td className="px-4 py-3 font-medium">
+                          {requisition.requisition_id ||
+                            requisition._id.slice(-6).toUpperCase()}
+                        </td>
+                        <td className="px-4 py-3">
+                          {requisition.createdAt
+                            ? new Date(
+                                requisition.createdAt
+                              ).toLocaleDateString()
+                            : "-"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {(requisition.lines || []).map(
+                            (line: any, index: number) => (
+                              <p
+                                key={index}
+                                className={
+                                  line.converted ? "text-gray-400" : ""
+                                }
+                              >
+                                {line.item_name} × {line.quantity}{" "}
+                                {line.uom}
+                                {line.converted && " (PO raised)"}
+                              </p>
+                            )
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          {requisition.required_by
+                            ? new Date(
+                                requisition.required_by
+                              ).toLocaleDateString()
+                            : "-"}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          ₹{getRequisitionValue(requisition).toLocaleString()}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full ${statusColorMap[status]}`}
+                          >
+                            {status}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex flex-wrap gap-2">
+                            {status === "Pending Approval" && canApprove && (
+                              <>
+                                <Button
+                                  size="xs"
+                                  colorScheme="green"
+                                  onClick={() =>
+                                    approvalHandler(requisition, "Approved")
+                                  }
+                                >
+                                  Approve
+                                </Button>
+                                <Button
+                                  size="xs"
+                                  variant="outline"
+                                  colorScheme="red"
+                                  onClick={() =>
+                                    approvalHandler(requisition, "Rejected")
+                                  }
+                                >
+                                  Reject
+                                </Button>
+                              </>
+                            )}
+                            {status === "Approved" && (
+                              <Button
+                                size="xs"
+                                colorScheme="blue"
+                                onClick={() =>
+                                  setConvertingId(
+                                    convertingId === requisition._id
+                                      ? null
+                                      : requisition._id
+                                  )
+                                }
+                              >
+                                Convert to PO
+                              </Button>
+                            )}
+                            {isEditable && (
+                              <>
+                                <Button
+                                  size="xs"
+                                  variant="outline"
+                                  onClick={() =>
+                                    openRequisitionDrawerHandler(
+                                      [],
+                                      requisition
+                                    )
+                                  }
+                                >
+                                  Edit
+                                </Button>
+                                <Button
+                                  size="xs"
+                                  variant="outline"
+                                  colorScheme="red"
+                                  onClick={() =>
+                                    deleteRequisitionHandler(requisition._id)
+                                  }
+                                >
+                                  Delete
+                                </Button>
+                              </>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                      {convertingId === requisition._id &&
+                        status === "Approved" && (
+                          <tr>
+                            <td
+                              colSpan={7}
+                              className="px-4 py-3"
+                              style={{ backgroundColor: colors.gray[50] }}
+                            >
+                              <p className="text-xs font-semibold mb-2 text-gray-600">
+                                One purchase order per supplier
+                              </p>
+                              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                {groupLinesBySupplier(requisition).map(
+                                  ({ supplier, lines }) => (
+                                    <div
+                                      key={supplier}
+                                      className="p-3 border rounded-lg bg-white flex items-start justify-between gap-3"
+                                      style={{
+                                        borderColor: colors.border.light,
+                                      }}
+                                    >
+                                      <div>
+                                        <p className="font-medium">
+                                          {supplier}
+                                        </p>
+                                        {lines.map(({ line, index }) => (
+                                          <p
+                                            key={index}
+                                            className="text-xs text-gray-600"
+                                          >
+                                            {line.item_name} × {line.quantity}{" "}
+                                            {line.uom}
+                                          </p>
+                                        ))}
+                                      </div>
+                                      <Button
+                                        size="xs"
+                                        colorScheme="blue"
+                                        variant="outline"
+                                        onClick={() =>
+                                          createPurchaseOrderHandler(
+                                            requisition,
+                                            supplier,
+                                            lines
+                                          )
+                                        }
+                                      >
+                                        Create PO
+                                      </Button>
+                                    </div>
+                                  )
+                                )}
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Precurement
\ No newline at end of file
+export default Precurement;
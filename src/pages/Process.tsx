@@ -3,7 +3,6 @@ import { useState, useEffect } from "react";
 import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import ProcessTable from "../components/Table/ProcessTable";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddProcessDrawer,
@@ -16,37 +15,31 @@ import {
 import AddProcess from "../components/Drawers/Process/AddProcess";
 import ProcessDetails from "../components/Drawers/Process/ProcessDetails";
 import UpdateProcess from "../components/Drawers/Process/UpdateProcess";
-import { useDeleteProcessMutation } from "../redux/api/api";
+import {
+  useDeleteProcessMutation,
+  useLazyFetchProcessQuery,
+} from "../redux/api/api";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import { useSocketEvent } from "../components/utils/socket";
 import { Settings } from "lucide-react";
 
 const Process: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("production");
+  const can = useCan();
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [data, setData] = useState<any[] | []>([]);
   const [filteredData, setFilteredData] = useState<any[] | []>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [cookies] = useCookies();
   const [id, setId] = useState<string | undefined>();
+  const [fetchProcess] = useLazyFetchProcessQuery();
 
   const fetchProcessHandler = async () => {
   try {
     setIsLoading(true); // Set loading state
-    const response = await fetch(
-      `${process.env.REACT_APP_BACKEND_URL}production-process/all`,
-      {
-        method: "GET",
-        headers: {
-          Authorization: `Bearer ${cookies?.access_token}`,
-        },
-      }
-    );
-    const data = await response.json();
-    if (!data.success) {
-      throw new Error(data.message);
-    }
+    const data = await fetchProcess({}).unwrap();
 
     // Filter out processes with status "production started"
     const filteredProcesses = data.production_processes.filter((process: any) => {
@@ -117,6 +110,10 @@ const Process: React.FC = () => {
     fetchProcessHandler();
   }, []);
 
+  useSocketEvent("productionProcessUpdate", () => {
+    fetchProcessHandler();
+  });
+
   useEffect(() => {
     const searchText = searchKey?.toLowerCase();
     const results = data.filter(
@@ -217,24 +214,26 @@ const Process: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddProcessDrawerHandler}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="20px" />
-                Add New Process
-              </button>
+              {can("production", "create") && (
+                <button
+                  onClick={openAddProcessDrawerHandler}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="20px" />
+                  Add New Process
+                </button>
+              )}
 
               <button
                 onClick={fetchProcessHandler}
@@ -308,8 +307,12 @@ const Process: React.FC = () => {
           <ProcessTable 
             isLoadingProcess={isLoading}
             proces={filteredData}
-            deleteProcessHandler={deleteProcessHandler}
-            openUpdateProcessDrawerHandler={openUpdateProcessDrawerHandler}
+            deleteProcessHandler={
+              can("production", "delete") ? deleteProcessHandler : undefined
+            }
+            openUpdateProcessDrawerHandler={
+              can("production", "update") ? openUpdateProcessDrawerHandler : undefined
+            }
             fetchProcessHandler={fetchProcessHandler}
           />
         </div>
@@ -14,8 +14,19 @@ import React, { useMemo, useState, useEffect } from 'react';
   ChevronDown,
 } from 'lucide-react';
 import { toast } from 'react-toastify';
-import { parseCookies } from 'nookies';
 import { useNavigate } from 'react-router-dom';
+import {
+  useDeleteBomMutation,
+  useDeleteProcessMutation,
+  useLazyBomDetailsQuery,
+  useLazyFetchBomsQuery,
+  useLazyFetchProcessQuery,
+  useLazyFetchProductionDashboardQuery,
+  useLazyProcessDetailsQuery,
+  usePauseProcessMutation,
+  useUpdateBOMMutation,
+  useUpdateProcessMutation,
+} from '../redux/api/api';
 
 type ChangeType = 'increase' | 'decrease' | 'no-change';
 
@@ -489,6 +500,16 @@ const ProductionDashboard: React.FC = () => {
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<'bom' | 'pre' | 'status'>('bom');
   const [dashboardData, setDashboardData] = useState<ProductionDashboardData | null>(null);
+  const [fetchProductionDashboard] = useLazyFetchProductionDashboardQuery();
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchProcessDetails] = useLazyProcessDetailsQuery();
+  const [updateProcess] = useUpdateProcessMutation();
+  const [deleteProcess] = useDeleteProcessMutation();
+  const [pauseProcess] = usePauseProcessMutation();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [fetchBomDetails] = useLazyBomDetailsQuery();
+  const [updateBom] = useUpdateBOMMutation();
+  const [deleteBom] = useDeleteBomMutation();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
@@ -528,47 +549,10 @@ const ProductionDashboard: React.FC = () => {
         setLoading(true);
         setError(null);
         
-        // Get the access token from cookies
-        const cookies = parseCookies();
-        const token = cookies?.access_token;
-
-        if (!token) {
-          throw new Error('No authentication token found. Please login again.');
-        }
-
-        const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-        const response = await fetch(`${backendUrl}dashboard/production-dashboard`, {
-          method: 'GET',
-          credentials: 'include', // Include cookies for authentication
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`,
-          },
-        });
-
-        if (!response.ok) {
-          if (response.status === 401) {
-            throw new Error('Authentication failed. Please login again.');
-          } else if (response.status === 403) {
-            throw new Error('Access denied. You do not have permission to view this data.');
-          } else if (response.status === 404) {
-            throw new Error('API endpoint not found. Please check the backend configuration.');
-          } else if (response.status >= 500) {
-            throw new Error('Server error. Please try again later.');
-          } else {
-            throw new Error(`HTTP error! status: ${response.status}`);
-          }
-        }
-
-        const data: ProductionDashboardData = await response.json();
-        
-        if (data.success) {
-          setDashboardData(data);
-        } else {
-          throw new Error('API returned unsuccessful response');
-        }
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch dashboard data';
+        const data = (await fetchProductionDashboard({}).unwrap()) as ProductionDashboardData;
+        setDashboardData(data);
+      } catch (err: any) {
+        const errorMessage = err?.message || 'Failed to fetch dashboard data';
         setError(errorMessage);
         toast.error(`Error loading dashboard: ${errorMessage}`);
         console.error('Error fetching dashboard data:', err);
@@ -578,7 +562,7 @@ const ProductionDashboard: React.FC = () => {
     };
 
     fetchDashboardData();
-  }, []);
+  }, [fetchProductionDashboard]);
 
   // Fetch data when component mounts based on active tab
   useEffect(() => {
@@ -589,6 +573,7 @@ const ProductionDashboard: React.FC = () => {
         fetchProductionProcessData();
       }
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTab, allProductionProcessData.length]);
 
   const metrics: MetricCard[] = useMemo(() => {
@@ -747,47 +732,10 @@ const ProductionDashboard: React.FC = () => {
       setBomLoading(true);
       setBomError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}bom/all`, {
-        method: 'GET',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to view this data.');
-        } else if (response.status === 404) {
-          throw new Error('API endpoint not found. Please check the backend configuration.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data: BomApiResponse = await response.json();
-      
-      if (data.success) {
-        setBomData(data.boms);
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch BOM data';
+      const data = (await fetchBoms({}).unwrap()) as BomApiResponse;
+      setBomData(data.boms);
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to fetch BOM data';
       setBomError(errorMessage);
       toast.error(`Error loading BOM data: ${errorMessage}`);
       console.error('Error fetching BOM data:', err);
@@ -802,48 +750,11 @@ const ProductionDashboard: React.FC = () => {
       setBomDetailLoading(true);
       setBomDetailError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}bom/${bomId}`, {
-        method: 'GET',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to view this data.');
-        } else if (response.status === 404) {
-          throw new Error('BOM not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data: BomDetailApiResponse = await response.json();
-      
-      if (data.success) {
-        setBomDetailData(data.bom);
-        setShowBomDetailModal(true);
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch BOM detail';
+      const data = (await fetchBomDetails(bomId).unwrap()) as BomDetailApiResponse;
+      setBomDetailData(data.bom);
+      setShowBomDetailModal(true);
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to fetch BOM detail';
       setBomDetailError(errorMessage);
       toast.error(`Error loading BOM detail: ${errorMessage}`);
       console.error('Error fetching BOM detail:', err);
@@ -858,49 +769,12 @@ const ProductionDashboard: React.FC = () => {
       setBomEditLoading(true);
       setBomEditError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}bom/${bomId}`, {
-        method: 'GET',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to view this data.');
-        } else if (response.status === 404) {
-          throw new Error('BOM not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data: BomDetailApiResponse = await response.json();
-      
-      if (data.success) {
-        setBomEditData(data.bom);
-        setBomEditFormData(data.bom);
-        setShowBomEditModal(true);
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch BOM edit data';
+      const data = (await fetchBomDetails(bomId).unwrap()) as BomDetailApiResponse;
+      setBomEditData(data.bom);
+      setBomEditFormData(data.bom);
+      setShowBomEditModal(true);
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to fetch BOM edit data';
       setBomEditError(errorMessage);
       toast.error(`Error loading BOM edit data: ${errorMessage}`);
       console.error('Error fetching BOM edit data:', err);
@@ -919,51 +793,16 @@ const ProductionDashboard: React.FC = () => {
       setBomEditLoading(true);
       setBomEditError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}bom/${bomEditData._id}`, {
-        method: 'PUT',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(bomEditFormData),
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to edit this BOM.');
-        } else if (response.status === 404) {
-          throw new Error('BOM not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data = await response.json();
-      
-      if (data.success) {
-        toast.success('BOM updated successfully!');
-        setShowBomEditModal(false);
-        // Refresh BOM data
-        fetchBomData();
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update BOM';
+      await updateBom({
+        ...bomEditFormData,
+        _id: bomEditData._id,
+      }).unwrap();
+      toast.success('BOM updated successfully!');
+      setShowBomEditModal(false);
+      // Refresh BOM data
+      fetchBomData();
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to update BOM';
       setBomEditError(errorMessage);
       toast.error(`Error updating BOM: ${errorMessage}`);
       console.error('Error updating BOM:', err);
@@ -986,49 +825,12 @@ const ProductionDashboard: React.FC = () => {
       setProductionProcessEditLoading(true);
       setProductionProcessEditError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}production-process/${processId}`, {
-        method: 'GET',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to view this data.');
-        } else if (response.status === 404) {
-          throw new Error('Production process not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data: ProductionProcessEditApiResponse = await response.json();
-      
-      if (data.success) {
-        setProductionProcessEditData(data.production_process);
-        setProductionProcessEditFormData(data.production_process);
-        setShowProductionProcessEditModal(true);
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch production process edit data';
+      const data = (await fetchProcessDetails(processId).unwrap()) as ProductionProcessEditApiResponse;
+      setProductionProcessEditData(data.production_process);
+      setProductionProcessEditFormData(data.production_process);
+      setShowProductionProcessEditModal(true);
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to fetch production process edit data';
       setProductionProcessEditError(errorMessage);
       toast.error(`Error loading production process edit data: ${errorMessage}`);
       console.error('Error fetching production process edit data:', err);
@@ -1047,51 +849,16 @@ const ProductionDashboard: React.FC = () => {
       setProductionProcessEditLoading(true);
       setProductionProcessEditError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}production-process/${productionProcessEditData._id}`, {
-        method: 'PUT',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify(productionProcessEditFormData),
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to edit this production process.');
-        } else if (response.status === 404) {
-          throw new Error('Production process not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data = await response.json();
-      
-      if (data.success) {
-        toast.success('Production process updated successfully!');
-        setShowProductionProcessEditModal(false);
-        // Refresh production process data
-        fetchProductionProcessData();
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to update production process';
+      await updateProcess({
+        ...productionProcessEditFormData,
+        _id: productionProcessEditData._id,
+      }).unwrap();
+      toast.success('Production process updated successfully!');
+      setShowProductionProcessEditModal(false);
+      // Refresh production process data
+      fetchProductionProcessData();
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to update production process';
       setProductionProcessEditError(errorMessage);
       toast.error(`Error updating production process: ${errorMessage}`);
       console.error('Error updating production process:', err);
@@ -1114,47 +881,10 @@ const ProductionDashboard: React.FC = () => {
       setProductionProcessLoading(true);
       setProductionProcessError(null);
       
-      // Get the access token from cookies
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}production-process/all`, {
-        method: 'GET',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to view this data.');
-        } else if (response.status === 404) {
-          throw new Error('API endpoint not found. Please check the backend configuration.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-
-      const data: ProductionProcessApiResponse = await response.json();
-      
-      if (data.success) {
-        setAllProductionProcessData(data.production_processes);
-      } else {
-        throw new Error('API returned unsuccessful response');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch production process data';
+      const data = (await fetchProcess({}).unwrap()) as ProductionProcessApiResponse;
+      setAllProductionProcessData(data.production_processes);
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to fetch production process data';
       setProductionProcessError(errorMessage);
       toast.error(`Error loading production process data: ${errorMessage}`);
       console.error('Error fetching production process data:', err);
@@ -1209,45 +939,14 @@ const ProductionDashboard: React.FC = () => {
     if (!deletingBomId) return;
     try {
       setDeleteLoading(true);
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}bom/${deletingBomId}`, {
-        method: 'DELETE',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to delete this BOM.');
-        } else if (response.status === 404) {
-          throw new Error('BOM not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      const data = await response.json();
-      if (data.success) {
-        toast.success('BOM has been deleted successfully');
-        setShowDeleteModal(false);
-        setDeletingBomId(null);
-        // Refresh list
-        fetchBomData();
-      } else {
-        throw new Error('Failed to delete BOM');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete BOM';
+      await deleteBom(deletingBomId).unwrap();
+      toast.success('BOM has been deleted successfully');
+      setShowDeleteModal(false);
+      setDeletingBomId(null);
+      // Refresh list
+      fetchBomData();
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to delete BOM';
       toast.error(`Error: ${errorMessage}`);
     } finally {
       setDeleteLoading(false);
@@ -1265,45 +964,14 @@ const ProductionDashboard: React.FC = () => {
     if (!deletingProductionProcessId) return;
     try {
       setProductionProcessDeleteLoading(true);
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}production-process/${deletingProductionProcessId}`, {
-        method: 'DELETE',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-      if (!response.ok) {
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to delete this production process.');
-        } else if (response.status === 404) {
-          throw new Error('Production process not found.');
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-      }
-      const data = await response.json();
-      if (data.success) {
-        toast.success('Production process has been deleted successfully');
-        setShowProductionProcessDeleteModal(false);
-        setDeletingProductionProcessId(null);
-        // Refresh list
-        fetchProductionProcessData();
-      } else {
-        throw new Error('Failed to delete production process');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to delete production process';
+      await deleteProcess(deletingProductionProcessId).unwrap();
+      toast.success('Production process has been deleted successfully');
+      setShowProductionProcessDeleteModal(false);
+      setDeletingProductionProcessId(null);
+      // Refresh list
+      fetchProductionProcessData();
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to delete production process';
       toast.error(`Error: ${errorMessage}`);
     } finally {
       setProductionProcessDeleteLoading(false);
@@ -1316,63 +984,12 @@ const ProductionDashboard: React.FC = () => {
       setPauseLoading(true);
       setPausingProcessId(processId);
       
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (!token) {
-        throw new Error('No authentication token found. Please login again.');
-      }
-      
-      const backendUrl = process.env.REACT_APP_BACKEND_URL || 'http://localhost:8096/api/';
-      const response = await fetch(`${backendUrl}production-process/pause`, {
-        method: 'PUT',
-        credentials: 'include',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
-        },
-        body: JSON.stringify({ _id: processId }),
-      });
-      
-      console.log('Pause API Response Status:', response.status);
-      console.log('Pause API Response:', response);
-      
-      if (!response.ok) {
-        // Try to get the error message from the response
-        let errorMessage = `HTTP error! status: ${response.status}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.message) {
-            errorMessage = errorData.message;
-          }
-        } catch (e) {
-          // If we can't parse the error response, use the default message
-        }
-        
-        if (response.status === 401) {
-          throw new Error('Authentication failed. Please login again.');
-        } else if (response.status === 403) {
-          throw new Error('Access denied. You do not have permission to pause this production process.');
-        } else if (response.status === 404) {
-          throw new Error('Production process not found.');
-        } else if (response.status === 400) {
-          throw new Error(`Bad Request: ${errorMessage}`);
-        } else if (response.status >= 500) {
-          throw new Error('Server error. Please try again later.');
-        } else {
-          throw new Error(errorMessage);
-        }
-      }
-      
-      const data = await response.json();
-      if (data.success) {
-        toast.success('Production process paused successfully');
-        // Refresh the production process data to show updated status
-        fetchProductionProcessData();
-      } else {
-        throw new Error('Failed to pause production process');
-      }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to pause production process';
+      await pauseProcess(processId).unwrap();
+      toast.success('Production process paused successfully');
+      // Refresh the production process data to show updated status
+      fetchProductionProcessData();
+    } catch (err: any) {
+      const errorMessage = err?.message || 'Failed to pause production process';
       toast.error(`Error: ${errorMessage}`);
     } finally {
       setPauseLoading(false);
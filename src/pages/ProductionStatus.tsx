@@ -1,9 +1,8 @@
 import { Button } from "@chakra-ui/react";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import ProcessStatusTable from "../components/Table/ProcessStatusTable";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddProcessDrawer,
@@ -15,40 +14,64 @@ import {
 import AddProcess from "../components/Drawers/Process/AddProcess";
 import ProcessDetails from "../components/Drawers/Process/ProcessDetails";
 import UpdateProcess from "../components/Drawers/Process/UpdateProcess";
-import { useDeleteProcessMutation } from "../redux/api/api";
+import {
+  useDeleteProcessMutation,
+  useLazyFetchProcessQuery,
+} from "../redux/api/api";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import { useSocketEvent } from "../components/utils/socket";
+import {
+  discardConflicts,
+  getHeldBackActions,
+  isNetworkError,
+  readOfflineCopy,
+  saveOfflineCopy,
+  useOfflineQueue,
+  useOfflineSync,
+} from "../components/utils/offlineQueue";
 import { Settings } from "lucide-react";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
 
 const ProductionStatus: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("production");
-  const [searchKey, setSearchKey] = useState<string | undefined>();
+  const can = useCan();
+  // The whole list is loaded so it can be kept offline; only the search and
+  // sort live in the URL, where saved views pick them up
+  const query = useTableQuery();
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
   const [data, setData] = useState<any[] | []>([]);
-  const [filteredData, setFilteredData] = useState<any[] | []>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [cookies] = useCookies();
   const [id, setId] = useState<string | undefined>();
+  const [fetchProcess] = useLazyFetchProcessQuery();
 
   const fetchProcessHandler = async () => {
     try {
       setIsLoading(true); // Set loading state
-      const response = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}production-process/all`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
+      let processes: any[];
+      try {
+        const data = await fetchProcess({}).unwrap();
+        processes = data.production_processes;
+        saveOfflineCopy("production-processes", processes);
+      } catch (error) {
+        const saved =
+          isNetworkError(error) &&
+          (await readOfflineCopy<any[]>("production-processes"));
+        if (!saved) throw error;
+        toast.info("You're offline, showing the processes saved on this device");
+        processes = saved;
       }
 
       // Filter for processes with status "production started"
-      const filteredProcesses = data.production_processes.filter(
+      const filteredProcesses = processes.filter(
         (process: any) =>
           [
             "production started",
@@ -65,7 +88,6 @@ const ProductionStatus: React.FC = () => {
 
       console.log("filtered production started processes", filteredProcesses);
       setData(filteredProcesses);
-      setFilteredData(filteredProcesses);
     } catch (error: any) {
       toast.error(error.message || "Something went wrong");
     } finally {
@@ -117,9 +139,18 @@ const ProductionStatus: React.FC = () => {
     fetchProcessHandler();
   }, []);
 
-  useEffect(() => {
-    const searchText = searchKey?.toLowerCase();
-    const results = data.filter(
+  useSocketEvent("productionProcessUpdate", () => {
+    fetchProcessHandler();
+  });
+
+  const { entries: queuedActions, isOnline } = useOfflineQueue();
+  const { sync, isSyncing } = useOfflineSync(fetchProcessHandler);
+  const conflictCount = queuedActions.filter((a) => a.conflict).length;
+  const heldBackCount = getHeldBackActions(queuedActions).length;
+
+  const filteredData = useMemo(() => {
+    const searchText = query.search.toLowerCase();
+    return data.filter(
       (p: any) =>
         p.creator.first_name?.toLowerCase()?.includes(searchText) ||
         p?.creator?.last_name?.toLowerCase()?.includes(searchText) ||
@@ -145,9 +176,7 @@ const ProductionStatus: React.FC = () => {
             ?.join("")
             ?.includes(searchText?.replaceAll("/", "") || ""))
     );
-    console.log("search results", results);
-    setFilteredData(results);
-  }, [searchKey]);
+  }, [data, query.search]);
 
   if (!isAllowed) {
     return (
@@ -297,6 +326,65 @@ const ProductionStatus: React.FC = () => {
           </div>
         </div>
 
+        {(!isOnline || queuedActions.length > 0) && (
+          <div
+            className="rounded-xl border p-4 mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+            style={{
+              backgroundColor: conflictCount
+                ? colors.error[50]
+                : colors.warning[50],
+              borderColor: conflictCount
+                ? colors.error[200]
+                : colors.warning[200],
+            }}
+          >
+            <div className="text-sm" style={{ color: colors.text.primary }}>
+              <p className="font-semibold">
+                {isOnline ? "Changes waiting to sync" : "You are offline"}
+              </p>
+              <p style={{ color: colors.text.secondary }}>
+                {queuedActions.length} change(s) saved on this device
+                {conflictCount > 0 &&
+                  `, ${conflictCount} conflict with newer updates from the server`}
+                {heldBackCount > 0 &&
+                  `, ${heldBackCount} held back until those are applied or discarded`}
+              </p>
+            </div>
+            {isOnline && (
+              <div className="flex gap-2">
+                {conflictCount > 0 && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      colorScheme="red"
+                      onClick={discardConflicts}
+                    >
+                      Discard Conflicts
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      isLoading={isSyncing}
+                      onClick={() => sync(true)}
+                    >
+                      Apply Anyway
+                    </Button>
+                  </>
+                )}
+                <Button
+                  size="sm"
+                  colorScheme="blue"
+                  isLoading={isSyncing}
+                  onClick={() => sync()}
+                >
+                  Sync Now
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Process Table */}
         <div
           className="rounded-xl shadow-sm border border-gray-100 overflow-hidden"
@@ -308,8 +396,14 @@ const ProductionStatus: React.FC = () => {
           <ProcessStatusTable
             isLoadingProcess={isLoading}
             proces={filteredData}
-            deleteProcessHandler={deleteProcessHandler}
-            openUpdateProcessDrawerHandler={openUpdateProcessDrawerHandler}
+            sortBy={query.sortBy}
+            onSortByChange={query.setSortBy}
+            deleteProcessHandler={
+              can("production", "delete") ? deleteProcessHandler : undefined
+            }
+            openUpdateProcessDrawerHandler={
+              can("production", "update") ? openUpdateProcessDrawerHandler : undefined
+            }
             fetchProcessHandler={fetchProcessHandler}
           />
         </div>
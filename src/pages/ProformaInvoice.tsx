@@ -12,17 +12,21 @@ import {
   openUpdateProformaInvoiceDrawer,
 } from "../redux/reducers/drawersSlice";
 import AddProformaInvoice from "../components/Drawers/Proforma Invoice/AddProformaInvoice";
-import { useCookies } from "react-cookie";
 import { MdOutlineRefresh } from "react-icons/md";
-import { useDeleteProformaInvoiceMutation } from "../redux/api/api";
+import {
+  useDeleteProformaInvoiceMutation,
+  useLazyFetchProductsQuery,
+  useLazyFetchProformaInvoicesQuery,
+} from "../redux/api/api";
 import ProformaInvoiceDetails from "../components/Drawers/Proforma Invoice/ProformaInvoiceDetails";
 import UpdateProformaInvoice from "../components/Drawers/Proforma Invoice/UpdateProformaInvoice";
 import { FiSearch } from "react-icons/fi";
+import { useCan } from "../components/utils/permissions";
 
 const ProformaInvoice: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("sale & purchase");
-  const [cookies] = useCookies();
+  const can = useCan();
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [data, setData] = useState<any[] | []>([]);
   const [filteredData, setFilteredData] = useState<any[] | []>([]);
@@ -38,6 +42,8 @@ const ProformaInvoice: React.FC = () => {
   const [id, setId] = useState<string | undefined>();
 
   const [deleteProformaInvoice] = useDeleteProformaInvoiceMutation();
+  const [fetchProformaInvoices] = useLazyFetchProformaInvoicesQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
 
   const openAddProformaInvoiceDrawerHandler = () => {
     dispatch(openAddProformaInvoiceDrawer());
@@ -64,19 +70,7 @@ const ProformaInvoice: React.FC = () => {
 
   const fetchProformaInvoiceHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "proforma-invoice/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchProformaInvoices({}).unwrap();
  
       setData(data.proforma_invoices);
       setFilteredData(data.proforma_invoices);
@@ -88,19 +82,7 @@ const ProformaInvoice: React.FC = () => {
   // Fetch all items for PDF generation
   const fetchItemsHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchProducts({}).unwrap();
       setAllItems(results.products);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
@@ -219,25 +201,27 @@ const ProformaInvoice: React.FC = () => {
 
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3">
-            <button
-              className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2.5 px-4 rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105 flex items-center justify-center gap-2"
-              onClick={openAddProformaInvoiceDrawerHandler}
-            >
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            {can("accounts", "create") && (
+              <button
+                className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2.5 px-4 rounded-lg shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105 flex items-center justify-center gap-2"
+                onClick={openAddProformaInvoiceDrawerHandler}
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M12 6v6m0 0v6m0-6h6m-6 0H6"
-                />
-              </svg>
-              Add New Invoice
-            </button>
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+                  />
+                </svg>
+                Add New Invoice
+              </button>
+            )}
             <button
               className="bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium py-2.5 px-4 rounded-lg border border-gray-300 transition-all duration-200 hover:shadow-md flex items-center justify-center gap-2"
               onClick={fetchProformaInvoiceHandler}
@@ -270,12 +254,16 @@ const ProformaInvoice: React.FC = () => {
         <ProformaInvoiceTable
           isLoadingProformaInvoices={isLoadingProformaInvoices}
           proformaInvoices={filteredData}
-          deleteProformaInvoiceHandler={deleteProformaInvoiceHandler}
+          deleteProformaInvoiceHandler={
+            can("accounts", "delete") ? deleteProformaInvoiceHandler : undefined
+          }
           openProformaInvoiceDetailsHandler={
             openProformaInvoiceDetailsDrawerHandler
           }
           openUpdateProformaInvoiceDrawer={
-            openProformaInvoiceUpdateDrawerHandler
+            can("accounts", "update")
+              ? openProformaInvoiceUpdateDrawerHandler
+              : undefined
           }
           // allItems={allItems} // Pass allItems to the table for PDF generation
         />
@@ -1,64 +1,35 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddPurchaseOrderDrawer,
+  closePurchaseOrderDetailsDrawer,
   openAddPurchaseOrderDrawer,
+  openPurchaseOrderDetailsDrawer,
 } from "../redux/reducers/drawersSlice";
 import { MdOutlineRefresh } from "react-icons/md";
 import { FiSearch } from "react-icons/fi";
 import { toast } from "react-toastify";
 import AddPurchaseOrder from "../components/Drawers/Purchase Order/AddPurchaseOrder";
+import PurchaseOrderDetails from "../components/Drawers/Purchase Order/PurchaseOrderDetails";
 import PurchaseOrderTable from "../components/Table/PurchaseOrderTable";
-import { useCookies } from "react-cookie";
-import axios from "axios";
-
-interface PurchaseOrder {
-  _id: string;
-  poOrder: string;
-  date: string;
-  itemName: string;
-  supplierName: string;
-  supplierEmail: string;
-  supplierShippedGSTIN: string;
-  supplierBillGSTIN: string;
-  supplierShippedTo: string;
-  supplierBillTo: string;
-  modeOfPayment: string;
-  GSTApply: string;
-  billingAddress: string;
-  additionalImportant?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
-
-interface InventoryShortage {
-  bom_name: string;
-  item_name: string;
-  item: string;
-  shortage_quantity: number;
-  total_required?: number;
-  available_stock?: number;
-  current_stock: number;
-  updated_stock?: number | null;
-  original_stock: number;
-  current_price: number;
-  updated_price?: number | null;
-  price_change?: number;
-  price_change_percentage?: number;
-  updated_at: string;
-  remaining_shortage?: number;
-  is_fully_resolved?: boolean;
-  is_grouped?: boolean;
-}
-
-interface ProductInventory {
-  _id: string;
-  name: string;
-  currentStock: number;
-  minStockLevel: number;
-  maxStockLevel: number;
-  unit: string;
-}
+import {
+  useClearUpdatedPriceMutation,
+  useClearUpdatedStockMutation,
+  useLazyFetchInventoryShortagesQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchPurchaseOrdersQuery,
+  useRemoveFromShortagesMutation,
+  useUpdateProductMutation,
+  useUpdateProductPriceMutation,
+} from "../redux/api/api";
+import { InventoryShortage, PurchaseOrder } from "../redux/api/types";
+import { useNotificationLink } from "../components/utils/notifications";
+import { useCan } from "../components/utils/permissions";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import Pagination from "./Pagination";
 
 interface InventoryUpdateForm {
   itemName: string;
@@ -72,114 +43,36 @@ interface InventoryUpdateForm {
   priceDifference: number;
 }
 
-// Product Inventory Row Component
-const ProductInventoryRow: React.FC<{
-  product: ProductInventory;
-  onUpdate: (productId: string, newStock: number) => void;
-  onUpdateWithShortages: (productId: string, newStock: number) => void;
-  isUpdating: boolean;
-}> = ({ product, onUpdate, onUpdateWithShortages, isUpdating }) => {
-  const [newStock, setNewStock] = useState(product.currentStock);
-  const [isEditing, setIsEditing] = useState(false);
-  const [useShortageAdjustment, setUseShortageAdjustment] = useState(true);
-
-  const handleSave = () => {
-    if (newStock !== product.currentStock) {
-      if (useShortageAdjustment) {
-        onUpdateWithShortages(product._id, newStock);
-      } else {
-        onUpdate(product._id, newStock);
-      }
-    }
-    setIsEditing(false);
-  };
-
-  const handleCancel = () => {
-    setNewStock(product.currentStock);
-    setIsEditing(false);
-  };
-
-  return (
-    <tr className="hover:bg-gray-50">
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.name}
-      </td>
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.currentStock}
-      </td>
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.minStockLevel}
-      </td>
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.maxStockLevel}
-      </td>
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {product.unit}
-      </td>
-      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-        {isEditing ? (
-          <div className="flex flex-col space-y-2">
-            <div className="flex items-center space-x-2">
-              <input
-                type="number"
-                value={newStock}
-                onChange={(e) => setNewStock(Number(e.target.value))}
-                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
-                min="0"
-              />
-              <button
-                onClick={handleSave}
-                disabled={isUpdating}
-                className="bg-green-600 hover:bg-green-700 text-white px-2 py-1 rounded text-xs disabled:opacity-50"
-              >
-                {isUpdating ? "Saving..." : "Save"}
-              </button>
-              <button
-                onClick={handleCancel}
-                disabled={isUpdating}
-                className="bg-gray-600 hover:bg-gray-700 text-white px-2 py-1 rounded text-xs disabled:opacity-50"
-              >
-                Cancel
-              </button>
-            </div>
-            <div className="flex items-center space-x-2">
-              <input
-                type="checkbox"
-                id={`shortage-adj-${product._id}`}
-                checked={useShortageAdjustment}
-                onChange={(e) => setUseShortageAdjustment(e.target.checked)}
-                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-              />
-              <label
-                htmlFor={`shortage-adj-${product._id}`}
-                className="text-xs text-gray-600"
-              >
-                Auto-adjust shortages
-              </label>
-            </div>
-          </div>
-        ) : (
-          <button
-            onClick={() => setIsEditing(true)}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded text-xs"
-          >
-            Edit Stock
-          </button>
-        )}
-      </td>
-    </tr>
-  );
-};
-
 const PurchaseOrder: React.FC = () => {
-  const [cookies] = useCookies();
+  const query = useTableQuery();
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  // Newest orders first unless a sort is set in the URL
+  const listParams = useMemo(
+    () =>
+      query.sort
+        ? query.params
+        : { ...query.params, sort: "createdAt", order: "desc" as const },
+    [query.params, query.sort]
+  );
+  const [fetchPurchaseOrderList, { data: purchaseOrdersData }] =
+    useLazyFetchPurchaseOrdersQuery();
+  const [fetchAllPurchaseOrderList] = useLazyFetchPurchaseOrdersQuery();
+  const purchaseOrders = useMemo(
+    () => purchaseOrdersData?.purchase_orders || [],
+    [purchaseOrdersData]
+  );
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchShortages] = useLazyFetchInventoryShortagesQuery();
+  const [updateProductPrice] = useUpdateProductPriceMutation();
+  const [clearProductPrice] = useClearUpdatedPriceMutation();
+  const [clearProductStock] = useClearUpdatedStockMutation();
+  const [removeProductFromShortages] = useRemoveFromShortagesMutation();
+  const [updateProduct] = useUpdateProductMutation();
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
-  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
-  const [filteredPurchaseOrders, setFilteredPurchaseOrders] = useState<
-    PurchaseOrder[]
-  >([]);
-  const [searchKey, setSearchKey] = useState("");
 
   // New state for inventory management
   const [activeTab, setActiveTab] = useState<
@@ -207,48 +100,40 @@ const PurchaseOrder: React.FC = () => {
   const [isLoadingUpdateForm, setIsLoadingUpdateForm] = useState(false);
   const [isSavingChanges, setIsSavingChanges] = useState(false);
 
-  const { isAddPurchaseOrderDrawerOpened } = useSelector(
-    (state: any) => state.drawers
-  );
+  const { isAddPurchaseOrderDrawerOpened, isPurchaseOrderDetailsDrawerOpened } =
+    useSelector((state: any) => state.drawers);
   const dispatch = useDispatch();
+  const can = useCan();
+  const [purchaseOrderId, setPurchaseOrderId] = useState<string | undefined>();
 
   // Fetch purchase orders
   const fetchPurchaseOrders = async () => {
     try {
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}purchase-order/all`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-      if (response.data.success) {
-        setPurchaseOrders(response.data.purchase_orders || []);
-        setFilteredPurchaseOrders(response.data.purchase_orders || []);
-      }
+      await fetchPurchaseOrderList(listParams).unwrap();
     } catch (error) {
       console.error("Error fetching purchase orders:", error);
     }
   };
 
+  // Every order matching the current search and sort, for exports
+  const fetchAllMatchingPurchaseOrders = async () => {
+    const result = await fetchAllPurchaseOrderList({
+      ...listParams,
+      page: 1,
+      limit: purchaseOrdersData?.totalData || query.limit,
+    }).unwrap();
+    return result?.purchase_orders || [];
+  };
+
   // Fetch inventory shortages (raw materials only)
   const fetchInventoryShortages = async () => {
     setIsLoadingShortages(true);
     try {
       // First fetch all products to get raw materials
-      const productsResponse = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}product/all`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (!productsResponse.data.success) {
-        toast.error("Failed to fetch products");
-        return;
-      }
+      const productsResponse = await fetchProducts({}).unwrap();
 
       // Filter for raw materials only
-      const rawMaterials = productsResponse.data.products.filter(
+      const rawMaterials = productsResponse.products.filter(
         (product: any) =>
           product.category &&
           product.category.toLowerCase().includes("raw material")
@@ -257,72 +142,56 @@ const PurchaseOrder: React.FC = () => {
       console.log("Raw materials found:", rawMaterials.length);
 
       // Now fetch inventory shortages
-      const shortagesResponse = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}bom/inventory-shortages`,
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (shortagesResponse.data.success) {
-        const allShortages = shortagesResponse.data.shortages || [];
+      const shortagesResponse = await fetchShortages({}).unwrap();
+      const allShortages = shortagesResponse.shortages || [];
+
+      console.log("All shortages from API:", allShortages);
+
+      // Filter shortages to only include raw materials
+      const rawMaterialShortages = allShortages.filter((shortage: any) => {
+        // Check if the shortage item is in our raw materials list
+        return rawMaterials.some(
+          (rawMaterial: any) =>
+            rawMaterial.name.toLowerCase() ===
+              shortage.item_name?.toLowerCase() ||
+            rawMaterial._id === shortage.item
+        );
+      });
 
-        console.log("All shortages from API:", allShortages);
+      console.log("Total shortages:", allShortages.length);
+      console.log("Raw material shortages:", rawMaterialShortages.length);
 
-        // Filter shortages to only include raw materials
-        const rawMaterialShortages = allShortages.filter((shortage: any) => {
-          // Check if the shortage item is in our raw materials list
-          return rawMaterials.some(
-            (rawMaterial: any) =>
-              rawMaterial.name.toLowerCase() ===
-                shortage.item_name?.toLowerCase() ||
-              rawMaterial._id === shortage.item
+      // Remove duplicates based on item ID and add original_stock field to track changes
+      const uniqueShortages = rawMaterialShortages.reduce(
+        (acc: any[], shortage: any) => {
+          const existingIndex = acc.findIndex(
+            (item) => item.item === shortage.item
           );
-        });
-
-        console.log("Total shortages:", allShortages.length);
-        console.log("Raw material shortages:", rawMaterialShortages.length);
-
-        // Remove duplicates based on item ID and add original_stock field to track changes
-        const uniqueShortages = rawMaterialShortages.reduce(
-          (acc: any[], shortage: any) => {
-            const existingIndex = acc.findIndex(
-              (item) => item.item === shortage.item
-            );
-            if (existingIndex === -1) {
-              acc.push(shortage);
-            }
-            return acc;
-          },
-          []
-        );
+          if (existingIndex === -1) {
+            acc.push(shortage);
+          }
+          return acc;
+        },
+        []
+      );
 
-        const shortagesWithOriginalStock = uniqueShortages.map(
-          (shortage: any) => ({
-            ...shortage,
-            original_stock: shortage.current_stock,
-            updated_price: shortage.updated_price || null,
-            updated_stock: shortage.updated_stock || null,
-          })
-        );
+      const shortagesWithOriginalStock = uniqueShortages.map(
+        (shortage: any) => ({
+          ...shortage,
+          original_stock: shortage.current_stock,
+          updated_price: shortage.updated_price || null,
+        })
+      );
 
-        console.log(
-          "Unique raw material shortages:",
-          shortagesWithOriginalStock.length
-        );
-        console.log("Final shortages data:", shortagesWithOriginalStock);
-        setInventoryShortages(shortagesWithOriginalStock);
-      } else {
-        toast.error(
-          shortagesResponse.data.message ||
-            "Failed to fetch inventory shortages"
-        );
-      }
+      console.log(
+        "Unique raw material shortages:",
+        shortagesWithOriginalStock.length
+      );
+      console.log("Final shortages data:", shortagesWithOriginalStock);
+      setInventoryShortages(shortagesWithOriginalStock);
     } catch (error: any) {
       console.error("Error fetching inventory shortages:", error);
-      toast.error(
-        error?.response?.data?.message || "Failed to fetch inventory shortages"
-      );
+      toast.error(error?.message || "Failed to fetch inventory shortages");
     } finally {
       setIsLoadingShortages(false);
     }
@@ -332,114 +201,84 @@ const PurchaseOrder: React.FC = () => {
   const fetchUpdateInventoryForm = async () => {
     setIsLoadingUpdateForm(true);
     try {
-      console.log("Fetching inventory data...");
-      console.log("Backend URL:", process.env.REACT_APP_BACKEND_URL);
-      console.log("Token:", cookies?.access_token ? "Present" : "Missing");
-
-      // Fetch both inventory shortages and products
+      // Fetch both inventory shortages and products; the form still opens
+      // without product data
       const [shortagesResponse, productsResponse] = await Promise.all([
-        axios.get(
-          `${process.env.REACT_APP_BACKEND_URL}bom/inventory-shortages`,
-          {
-            headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          }
-        ),
-        axios.get(`${process.env.REACT_APP_BACKEND_URL}product/all`, {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }),
+        fetchShortages({}).unwrap(),
+        fetchProducts({})
+          .unwrap()
+          .catch(() => null),
       ]);
 
-      console.log("Shortages response:", shortagesResponse.data);
-      console.log("Products response:", productsResponse.data);
+      const shortages = shortagesResponse.shortages || [];
+      const products = productsResponse?.products || [];
 
-      // Check if at least shortages API is working
-      if (shortagesResponse.data.success) {
-        const shortages = shortagesResponse.data.shortages || [];
-        const products = productsResponse.data.success
-          ? productsResponse.data.products || []
-          : [];
+      console.log("Shortages found:", shortages.length);
+      console.log("Products found:", products.length);
 
-        console.log("Shortages found:", shortages.length);
-        console.log("Products found:", products.length);
-
-        // Filter for raw materials only
-        const rawMaterials = products.filter(
-          (product: any) =>
-            product.category &&
-            product.category.toLowerCase().includes("raw material")
-        );
+      // Filter for raw materials only
+      const rawMaterials = products.filter(
+        (product: any) =>
+          product.category &&
+          product.category.toLowerCase().includes("raw material")
+      );
 
-        // Filter shortages to only include raw materials
-        const rawMaterialShortages = shortages.filter((shortage: any) => {
-          return rawMaterials.some(
-            (rawMaterial: any) =>
-              rawMaterial.name.toLowerCase() ===
-                shortage.item_name?.toLowerCase() ||
-              rawMaterial._id === shortage.item
-          );
-        });
-
-        console.log("Total shortages:", shortages.length);
-        console.log("Raw material shortages:", rawMaterialShortages.length);
-
-        // Create form data by combining shortages with product info
-        const formData = rawMaterialShortages.map(
-          (shortage: InventoryShortage) => {
-            const product = rawMaterials.find(
-              (p: ProductInventory) =>
-                p.name.toLowerCase() === shortage.item_name.toLowerCase()
-            );
-
-            return {
-              itemName: shortage.item_name,
-              shortageQuantity: shortage.shortage_quantity,
-              currentStock: product
-                ? product.currentStock
-                : shortage.current_stock,
-              currentPrice: shortage.current_price,
-              updatedPrice: shortage.current_price,
-              priceChange: 0,
-              priceChangePercentage: 0,
-              buyQuantity: 0, // User will input this
-              priceDifference: 0, // User will input this
-            };
-          }
+      // Filter shortages to only include raw materials
+      const rawMaterialShortages = shortages.filter((shortage: any) => {
+        return rawMaterials.some(
+          (rawMaterial: any) =>
+            rawMaterial.name.toLowerCase() ===
+              shortage.item_name?.toLowerCase() ||
+            rawMaterial._id === shortage.item
         );
+      });
 
-        console.log("Form data created:", formData);
-        setUpdateInventoryForm(formData);
+      console.log("Total shortages:", shortages.length);
+      console.log("Raw material shortages:", rawMaterialShortages.length);
 
-        if (!productsResponse.data.success) {
-          toast.warning(
-            "Products data not available, but shortages data loaded successfully"
+      // Create form data by combining shortages with product info
+      const formData = rawMaterialShortages.map(
+        (shortage: InventoryShortage) => {
+          const product = rawMaterials.find(
+            (p) =>
+              p.name.toLowerCase() === shortage.item_name.toLowerCase()
           );
+
+          return {
+            itemName: shortage.item_name,
+            shortageQuantity: shortage.shortage_quantity,
+            currentStock: product
+              ? product.currentStock
+              : shortage.current_stock,
+            currentPrice: shortage.current_price,
+            updatedPrice: shortage.current_price,
+            priceChange: 0,
+            priceChangePercentage: 0,
+            buyQuantity: 0, // User will input this
+            priceDifference: 0, // User will input this
+          };
         }
-      } else {
-        console.error("API responses not successful:", {
-          shortages: shortagesResponse.data,
-          products: productsResponse.data,
-        });
-        toast.error(
-          "Failed to fetch inventory data - API response not successful"
+      );
+
+      console.log("Form data created:", formData);
+      setUpdateInventoryForm(formData);
+
+      if (!productsResponse) {
+        toast.warning(
+          "Products data not available, but shortages data loaded successfully"
         );
       }
     } catch (error: any) {
       console.error("Error fetching inventory data:", error);
-      console.error("Error response:", error?.response);
-      console.error("Error message:", error?.message);
 
-      if (error?.response?.status === 401) {
+      if (error?.status === 401) {
         toast.error("Authentication failed. Please login again.");
-      } else if (error?.response?.status === 404) {
+      } else if (error?.status === 404) {
         toast.error("API endpoints not found. Please check the backend URL.");
-      } else if (error?.code === "NETWORK_ERROR") {
+      } else if (error?.status === "FETCH_ERROR") {
         toast.error("Network error. Please check your internet connection.");
       } else {
-        toast.error(
-          error?.response?.data?.message ||
-            error?.message ||
-            "Failed to fetch inventory data"
-        );
+        toast.error(error?.message || "Failed to fetch inventory data");
       }
     } finally {
       setIsLoadingUpdateForm(false);
@@ -477,25 +316,6 @@ const PurchaseOrder: React.FC = () => {
     setUpdateInventoryForm(updatedForm);
   };
 
-  // Handle stock updates in shortages table (local only - no automatic API call)
-  const handleStockUpdate = (index: number, newStock: number) => {
-    const updatedShortages = [...inventoryShortages];
-    const item = updatedShortages[index];
-
-    // newStock represents the additional stock to be added
-    // Calculate remaining shortage after adding this stock
-    const remainingShortage = Math.max(0, item.shortage_quantity - newStock);
-
-    // Update UI immediately for better user experience
-    updatedShortages[index] = {
-      ...item,
-      updated_stock: newStock,
-      remaining_shortage: remainingShortage, // Add this field to track remaining shortage
-      is_fully_resolved: remainingShortage === 0, // Add this field to track if shortage is fully resolved
-    };
-    setInventoryShortages(updatedShortages);
-  };
-
   // Handle price updates in shortages table (local only - no automatic API call)
   const handlePriceUpdate = (index: number, newPrice: number) => {
     const updatedShortages = [...inventoryShortages];
@@ -549,13 +369,12 @@ const PurchaseOrder: React.FC = () => {
     setShowEditRawMaterialModal(true);
   };
 
-  // Submit all changes in Raw Material Shortages modal
+  // Submit price changes in Raw Material Shortages modal. Stock is not
+  // edited here, it only goes up when a goods receipt is posted against the
+  // purchase order
   const submitRawMaterialChanges = async () => {
     setIsSavingChanges(true);
     try {
-      console.log("Total inventory shortages:", inventoryShortages.length);
-
-      // Find items that have been modified
       const itemsWithPriceChanges = inventoryShortages.filter(
         (item) =>
           item.updated_price &&
@@ -563,300 +382,103 @@ const PurchaseOrder: React.FC = () => {
           item.updated_price !== item.current_price
       );
 
-      const itemsWithStockChanges = inventoryShortages.filter(
-        (item) =>
-          item.updated_stock &&
-          item.updated_stock !== null &&
-          item.updated_stock > 0
-      );
-
-      console.log("All inventory shortages:", inventoryShortages);
-      console.log("Items with price changes:", itemsWithPriceChanges);
-      console.log("Items with stock changes:", itemsWithStockChanges);
-      console.log(
-        "Items with price changes count:",
-        itemsWithPriceChanges.length
-      );
-      console.log(
-        "Items with stock changes count:",
-        itemsWithStockChanges.length
-      );
-
-      const totalModifiedItems =
-        itemsWithPriceChanges.length + itemsWithStockChanges.length;
-
-      if (totalModifiedItems === 0) {
+      if (itemsWithPriceChanges.length === 0) {
         toast.info("No changes to save");
         return;
       }
 
       // Update prices (now stores in updated_price field)
-      const priceUpdates = itemsWithPriceChanges.map((item) =>
-        axios.put(
-          `${process.env.REACT_APP_BACKEND_URL}product/update-price`,
-          {
-            productId: item.item,
-            newPrice: item.updated_price,
-          },
-          {
-            headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          }
-        )
-      );
-
-      // Update stocks (now stores in updated_stock field)
-      const stockUpdates = itemsWithStockChanges.map((item) =>
-        axios.put(
-          `${process.env.REACT_APP_BACKEND_URL}product/update-stock`,
-          {
+      await Promise.all(
+        itemsWithPriceChanges.map((item) =>
+          updateProductPrice({
             productId: item.item,
-            newStock: item.updated_stock,
-          },
-          {
-            headers: { Authorization: `Bearer ${cookies?.access_token}` },
-          }
+            newPrice: item.updated_price as number,
+          }).unwrap()
         )
       );
 
-      // Execute all updates
-      await Promise.all([...priceUpdates, ...stockUpdates]);
-
-      const uniqueItemsUpdated = new Set([
-        ...itemsWithPriceChanges.map((item) => item.item),
-        ...itemsWithStockChanges.map((item) => item.item),
-      ]).size;
-
       toast.success(
-        `Successfully updated ${uniqueItemsUpdated} items (${itemsWithPriceChanges.length} price updates, ${itemsWithStockChanges.length} stock updates)`
-      );
-
-      // Handle partial and full shortage resolution
-      const fullyResolvedItems = itemsWithStockChanges.filter(
-        (item) => item.is_fully_resolved === true
-      );
-
-      const partiallyResolvedItems = itemsWithStockChanges.filter(
-        (item) =>
-          item.is_fully_resolved === false && (item.remaining_shortage || 0) > 0
-      );
-
-      // Only remove fully resolved items from shortages
-      const removalPromises = fullyResolvedItems.map((item) =>
-        axios
-          .put(
-            `${process.env.REACT_APP_BACKEND_URL}product/remove-from-shortages`,
-            {
-              productId: item.item,
-            },
-            {
-              headers: { Authorization: `Bearer ${cookies?.access_token}` },
-            }
-          )
-          .catch((error) => {
-            // Ignore errors - item might not be in shortages
-            console.log(
-              `Item ${item.item_name} not in shortages or no updates:`,
-              error
-            );
-            return null;
-          })
-      );
-
-      await Promise.all(removalPromises);
-
-      // Update shortage quantities for partially resolved items
-      const updateShortagePromises = partiallyResolvedItems.map((item) =>
-        axios
-          .put(
-            `${process.env.REACT_APP_BACKEND_URL}product/update-shortage-quantity`,
-            {
-              productId: item.item,
-              newShortageQuantity: item.remaining_shortage,
-            },
-            {
-              headers: { Authorization: `Bearer ${cookies?.access_token}` },
-            }
-          )
-          .catch((error) => {
-            console.log(
-              `Failed to update shortage quantity for ${item.item_name}:`,
-              error
-            );
-            return null;
-          })
+        `Successfully updated prices of ${itemsWithPriceChanges.length} items`
       );
 
-      await Promise.all(updateShortagePromises);
-
-      if (fullyResolvedItems.length > 0) {
-        toast.success(
-          `Fully resolved and removed ${fullyResolvedItems.length} items from shortages`
-        );
-      }
-
-      // if (partiallyResolvedItems.length > 0) {
-      //   toast.success(
-      //     `📝 Partially resolved ${partiallyResolvedItems.length} items - shortages updated`
-      //   );
-      // }
-
       // Refresh all data to sync across components
       await Promise.all([
         fetchInventoryShortages(),
         fetchUpdateInventoryForm(),
       ]);
     } catch (error: any) {
-      toast.error(error?.response?.data?.message || "Failed to save changes");
+      toast.error(error?.message || "Failed to save changes");
     } finally {
       setIsSavingChanges(false);
     }
   };
 
+  const refreshInventoryData = () =>
+    Promise.all([fetchInventoryShortages(), fetchUpdateInventoryForm()]);
+
   // Clear updated price (optional functionality)
   const clearUpdatedPrice = async (productId: string) => {
     try {
-      const response = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}product/clear-updated-price`,
-        {
-          productId: productId,
-        },
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (response.data.success) {
-        toast.success("Updated price cleared successfully");
-        // Refresh all data to sync across components
-        await Promise.all([
-          fetchInventoryShortages(),
-          fetchUpdateInventoryForm(),
-        ]);
-      } else {
-        toast.error(response.data.message || "Failed to clear updated price");
-      }
+      await clearProductPrice(productId).unwrap();
+      toast.success("Updated price cleared successfully");
+      // Refresh all data to sync across components
+      await refreshInventoryData();
     } catch (error: any) {
-      toast.error(
-        error?.response?.data?.message || "Failed to clear updated price"
-      );
+      toast.error(error?.message || "Failed to clear updated price");
     }
   };
 
   // Clear updated stock (optional functionality)
   const clearUpdatedStock = async (productId: string) => {
     try {
-      const response = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}product/clear-updated-stock`,
-        {
-          productId: productId,
-        },
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (response.data.success) {
-        toast.success("Updated stock cleared successfully");
-        // Refresh all data to sync across components
-        await Promise.all([
-          fetchInventoryShortages(),
-          fetchUpdateInventoryForm(),
-        ]);
-      } else {
-        toast.error(response.data.message || "Failed to clear updated stock");
-      }
+      await clearProductStock(productId).unwrap();
+      toast.success("Updated stock cleared successfully");
+      // Refresh all data to sync across components
+      await refreshInventoryData();
     } catch (error: any) {
-      toast.error(
-        error?.response?.data?.message || "Failed to clear updated stock"
-      );
+      toast.error(error?.message || "Failed to clear updated stock");
     }
   };
 
   // Remove item from inventory shortages (when item has been updated)
   const removeFromShortages = async (productId: string) => {
     try {
-      const response = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}product/remove-from-shortages`,
-        {
-          productId: productId,
-        },
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
+      const response = await removeProductFromShortages(productId).unwrap();
+      toast.success(
+        `Item removed from shortages (${response.deletedShortages} shortages removed)`
       );
-
-      if (response.data.success) {
-        toast.success(
-          `Item removed from shortages (${response.data.deletedShortages} shortages removed)`
-        );
-        // Refresh all data to sync across components
-        await Promise.all([
-          fetchInventoryShortages(),
-          fetchUpdateInventoryForm(),
-        ]);
-      } else {
-        toast.error(response.data.message || "Failed to remove from shortages");
-      }
+      // Refresh all data to sync across components
+      await refreshInventoryData();
     } catch (error: any) {
-      toast.error(
-        error?.response?.data?.message || "Failed to remove from shortages"
-      );
+      toast.error(error?.message || "Failed to remove from shortages");
     }
   };
 
   // Update raw material details
   const updateRawMaterial = async (itemId: string, updates: any) => {
     try {
-      const response = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}product/update`,
-        {
-          _id: itemId,
-          ...updates,
-        },
-        {
-          headers: { Authorization: `Bearer ${cookies?.access_token}` },
-        }
-      );
-
-      if (response.data.success) {
-        toast.success("Raw material updated successfully");
-        // Refresh all data to sync across components
-        await Promise.all([
-          fetchInventoryShortages(),
-          fetchUpdateInventoryForm(),
-        ]);
-      } else {
-        toast.error("Failed to update raw material");
-      }
+      await updateProduct({ _id: itemId, ...updates }).unwrap();
+      toast.success("Raw material updated successfully");
+      // Refresh all data to sync across components
+      await refreshInventoryData();
     } catch (error: any) {
-      toast.error(
-        error?.response?.data?.message || "Failed to update raw material"
-      );
+      toast.error(error?.message || "Failed to update raw material");
     }
   };
 
   useEffect(() => {
     fetchPurchaseOrders();
-  }, [refreshTrigger]);
+  }, [refreshTrigger, listParams]);
 
-  // Filter purchase orders based on search key
-  useEffect(() => {
-    const searchLower = searchKey.toLowerCase();
-    const results = purchaseOrders.filter(
-      (order: PurchaseOrder) =>
-        (order?.poOrder?.toLowerCase() || "").includes(searchLower) ||
-        (order?.supplierName?.toLowerCase() || "").includes(searchLower) ||
-        (order?.itemName?.toLowerCase() || "").includes(searchLower)
-    );
-    setFilteredPurchaseOrders(results);
-  }, [searchKey, purchaseOrders]);
+  useNotificationLink("view", (view) => {
+    if (view !== "shortages") return;
+    setShowInventoryShortagesModal(true);
+    fetchInventoryShortages();
+  });
 
   // Handle delete purchase order
-  const handleDeletePurchaseOrder = (id: string) => {
-    setPurchaseOrders((prev) => prev.filter((order) => order._id !== id));
-    setFilteredPurchaseOrders((prev) =>
-      prev.filter((order) => order._id !== id)
-    );
+  const handleDeletePurchaseOrder = () => {
+    refreshTableData();
   };
 
   const openAddPurchaseOrderDrawerHandler = () => {
@@ -868,6 +490,23 @@ const PurchaseOrder: React.FC = () => {
     setEditingOrder(null);
   };
 
+  const openPurchaseOrderDetailsDrawerHandler = (id: string) => {
+    setPurchaseOrderId(id);
+    dispatch(openPurchaseOrderDetailsDrawer());
+  };
+
+  const closePurchaseOrderDetailsDrawerHandler = () => {
+    dispatch(closePurchaseOrderDetailsDrawer());
+  };
+
+  // Links from the command palette
+  useNotificationLink("id", openPurchaseOrderDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new" && can("procurement", "create")) {
+      openAddPurchaseOrderDrawerHandler();
+    }
+  });
+
   // Handle edit purchase order
   const handleEditPurchaseOrder = (order: PurchaseOrder) => {
     console.log("Edit purchase order clicked:", order);
@@ -895,6 +534,12 @@ const PurchaseOrder: React.FC = () => {
           fetchPurchaseOrderData={handlePurchaseOrderDataChange}
         />
       )}
+      {isPurchaseOrderDetailsDrawerOpened && (
+        <PurchaseOrderDetails
+          purchaseOrderId={purchaseOrderId}
+          closeDrawerHandler={closePurchaseOrderDetailsDrawerHandler}
+        />
+      )}
 
       {/* Header Section */}
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mb-6">
@@ -1035,8 +680,20 @@ const PurchaseOrder: React.FC = () => {
         <PurchaseOrderTable
           refreshTrigger={refreshTrigger}
           onEdit={handleEditPurchaseOrder}
-          filteredPurchaseOrders={filteredPurchaseOrders}
+          filteredPurchaseOrders={purchaseOrders}
           onDelete={handleDeletePurchaseOrder}
+          onRefresh={refreshTableData}
+          totalPurchaseOrders={purchaseOrdersData?.totalData}
+          fetchAllPurchaseOrders={fetchAllMatchingPurchaseOrders}
+          listParams={listParams}
+        />
+        <Pagination
+          page={query.page}
+          setPage={query.setPage}
+          hasNextPage={purchaseOrders.length === query.limit}
+          totalItems={purchaseOrdersData?.totalData}
+          pageSize={query.limit}
+          setPageSize={query.setLimit}
         />
       </div>
 
@@ -1127,9 +784,9 @@ const PurchaseOrder: React.FC = () => {
                   {/* Price Impact Summary */}
                   <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                     <h3 className="text-lg font-semibold text-blue-900 mb-2">
-                      Price & Stock Impact Summary
+                      Price Impact Summary
                     </h3>
-                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
                       <div>
                         <span className="text-blue-700 font-medium">
                           Total Items:
@@ -1152,19 +809,6 @@ const PurchaseOrder: React.FC = () => {
                           }
                         </span>
                       </div>
-                      <div>
-                        <span className="text-blue-700 font-medium">
-                          Stock Changes:
-                        </span>
-                        <span className="ml-2 text-blue-900">
-                          {
-                            inventoryShortages.filter(
-                              (item) =>
-                                item.updated_stock && item.updated_stock > 0
-                            ).length
-                          }
-                        </span>
-                      </div>
                       <div>
                         <span className="text-blue-700 font-medium">
                           Total Impact:
@@ -1213,15 +857,9 @@ const PurchaseOrder: React.FC = () => {
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                             Total Available Stock
                           </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Updated Stock
-                          </th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                             Shortage Quantity
                           </th>
-                          <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                            Remaining Shortage
-                          </th>
                           <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                             Current Price
                           </th>
@@ -1251,68 +889,9 @@ const PurchaseOrder: React.FC = () => {
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                               {item.current_stock}
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap">
-                              <input
-                                type="number"
-                                value={
-                                  item.updated_stock !== null
-                                    ? item.updated_stock
-                                    : 0
-                                }
-                                onChange={(e) =>
-                                  handleStockUpdate(idx, Number(e.target.value))
-                                }
-                                className={`w-20 px-2 py-1 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                                  item.updated_stock &&
-                                  item.updated_stock > 0 &&
-                                  item.updated_stock < item.shortage_quantity
-                                    ? "border-orange-500 bg-orange-50"
-                                    : item.updated_stock &&
-                                      item.updated_stock >=
-                                        item.shortage_quantity
-                                    ? "border-green-500 bg-green-50"
-                                    : "border-gray-300"
-                                }`}
-                                placeholder="0"
-                                min="0"
-                                step="1"
-                              />
-                              {item.updated_stock && item.updated_stock > 0 && (
-                                <div
-                                  className={`text-xs mt-1 ${
-                                    item.updated_stock < item.shortage_quantity
-                                      ? "text-orange-600"
-                                      : "text-green-600"
-                                  }`}
-                                >
-                                  {item.updated_stock < item.shortage_quantity
-                                    ? `Partial: ${
-                                        item.remaining_shortage || 0
-                                      } remaining`
-                                    : `Complete: +${item.updated_stock}`}
-                                </div>
-                              )}
-                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-red-600">
                               {item.shortage_quantity}
                             </td>
-                            <td className="px-6 py-4 whitespace-nowrap text-sm">
-                              {item.updated_stock && item.updated_stock > 0 ? (
-                                <span
-                                  className={`font-semibold ${
-                                    (item.remaining_shortage || 0) > 0
-                                      ? "text-orange-600"
-                                      : "text-green-600"
-                                  }`}
-                                >
-                                  {item.remaining_shortage || 0}
-                                </span>
-                              ) : (
-                                <span className="text-red-600 font-semibold">
-                                  {item.shortage_quantity}
-                                </span>
-                              )}
-                            </td>
                             <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                               ₹{item.current_price}
                             </td>
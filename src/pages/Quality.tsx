@@ -1,9 +1,598 @@
-import React from 'react'
+import { useEffect, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPlus } from "react-icons/fi";
+import { ShieldCheck } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeleteInspectionPlanMutation,
+  useLazyFetchBomsQuery,
+  useLazyFetchInspectionPlansQuery,
+  useLazyFetchInspectionsQuery,
+  useLazyFetchNcrsQuery,
+  useLazyFetchProcessQuery,
+  useLazyFetchProductsQuery,
+  useLazyFetchPurchaseOrdersQuery,
+  useLazyFetchSalesQuery,
+} from "../redux/api/api";
+import AddInspectionPlan from "../components/Drawers/Quality/AddInspectionPlan";
+import AddInspection from "../components/Drawers/Quality/AddInspection";
+import AddNcr from "../components/Drawers/Quality/AddNcr";
+import {
+  getInspectionResult,
+  getStageLabel,
+} from "../components/utils/quality";
+
+type Tab = "inspections" | "plans" | "ncr";
+
+const resultColorMap: { [result: string]: string } = {
+  Pass: "bg-green-100 text-green-800",
+  Rework: "bg-yellow-100 text-yellow-800",
+  Fail: "bg-red-100 text-red-800",
+};
+
+const ncrStatusColorMap: { [status: string]: string } = {
+  Open: "bg-red-100 text-red-800",
+  "Under Review": "bg-yellow-100 text-yellow-800",
+  Closed: "bg-green-100 text-green-800",
+};
+
+const Quality: React.FC = () => {
+  const can = useCan();
+  const [activeTab, setActiveTab] = useState<Tab>("inspections");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [products, setProducts] = useState<any[]>([]);
+  const [boms, setBoms] = useState<any[]>([]);
+  const [processes, setProcesses] = useState<any[]>([]);
+  const [purchaseOrders, setPurchaseOrders] = useState<any[]>([]);
+  const [sales, setSales] = useState<any[]>([]);
+
+  const [isPlanDrawerOpened, setIsPlanDrawerOpened] = useState(false);
+  const [editPlan, setEditPlan] = useState<any | null>(null);
+  const [isInspectionDrawerOpened, setIsInspectionDrawerOpened] =
+    useState(false);
+  const [isNcrDrawerOpened, setIsNcrDrawerOpened] = useState(false);
+  const [ncrInspection, setNcrInspection] = useState<any | null>(null);
+  const [editNcr, setEditNcr] = useState<any | null>(null);
+
+  const [fetchInspectionPlans, { data: planData }] =
+    useLazyFetchInspectionPlansQuery();
+  const [fetchInspections, { data: inspectionData }] =
+    useLazyFetchInspectionsQuery();
+  const [fetchNcrs, { data: ncrData }] = useLazyFetchNcrsQuery();
+  const [fetchProducts] = useLazyFetchProductsQuery();
+  const [fetchBoms] = useLazyFetchBomsQuery();
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchPurchaseOrders] = useLazyFetchPurchaseOrdersQuery();
+  const [fetchSales] = useLazyFetchSalesQuery();
+  const [deleteInspectionPlan] = useDeleteInspectionPlanMutation();
+
+  const plans: any[] = planData?.plans || [];
+  const inspections: any[] = inspectionData?.inspections || [];
+  const ncrs: any[] = ncrData?.ncrs || [];
+
+  const fetchQualityDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [productData, bomData, processData, poData, saleData] =
+        await Promise.all([
+          fetchProducts({}).unwrap(),
+          fetchBoms({}).unwrap(),
+          fetchProcess({}).unwrap(),
+          fetchPurchaseOrders({}).unwrap(),
+          fetchSales({ page: 1, limit: 10000 }).unwrap(),
+          fetchInspectionPlans({}).unwrap(),
+          fetchInspections({}).unwrap(),
+          fetchNcrs({}).unwrap(),
+        ]);
+      setProducts(productData?.products || []);
+      setBoms(bomData?.boms || []);
+      setProcesses(processData?.production_processes || []);
+      setPurchaseOrders(poData?.purchase_orders || []);
+      setSales(saleData?.data || []);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQualityDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const deletePlanHandler = async (id: string) => {
+    try {
+      const response = await deleteInspectionPlan(id).unwrap();
+      toast.success(response?.message || "Inspection plan deleted");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const openNcrDrawerHandler = (inspection: any | null, ncr: any | null) => {
+    setNcrInspection(inspection);
+    setEditNcr(ncr);
+    setIsNcrDrawerOpened(true);
+  };
+
+  const totalInspected = inspections.reduce(
+    (sum, inspection) => sum + (+inspection?.inspected_qty || 0),
+    0
+  );
+  const totalAccepted = inspections.reduce(
+    (sum, inspection) => sum + (+inspection?.accepted_qty || 0),
+    0
+  );
+  const stats = [
+    { label: "Inspections", value: inspections.length },
+    {
+      label: "Acceptance Rate",
+      value: totalInspected
+        ? `${((totalAccepted / totalInspected) * 100).toFixed(1)}%`
+        : "N/A",
+    },
+    {
+      label: "Open NCRs",
+      value: ncrs.filter((ncr) => ncr?.status !== "Closed").length,
+    },
+    { label: "Inspection Plans", value: plans.length },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "inspections", label: "Inspections" },
+    { key: "plans", label: "Inspection Plans" },
+    { key: "ncr", label: "Non-Conformances" },
+  ];
+
+  const getReferenceLabel = (inspection: any) => {
+    if (inspection?.stage === "incoming") {
+      const po = purchaseOrders.find(
+        (p: any) =>
+          p._id === (inspection?.purchase_order?._id || inspection?.purchase_order)
+      );
+      return po ? `${po.poOrder} - ${po.supplierName}` : "N/A";
+    }
+    if (inspection?.stage === "in-process") {
+      const p = processes.find(
+        (p: any) =>
+          p._id ===
+          (inspection?.production_process?._id ||
+            inspection?.production_process)
+      );
+      return p ? `${p?.bom?.bom_name || p?.item?.name}` : "N/A";
+    }
+    const sale = sales.find(
+      (s: any) => s._id === (inspection?.sale?._id || inspection?.sale)
+    );
+    return sale?.order_id || "N/A";
+  };
+
+  const getProductName = (product: any) =>
+    product?.name ||
+    products.find((p: any) => p._id === product)?.name ||
+    "N/A";
 
-const Quality = () => {
   return (
-    <div>Quality</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isPlanDrawerOpened && (
+        <AddInspectionPlan
+          closeDrawerHandler={() => {
+            setIsPlanDrawerOpened(false);
+            setEditPlan(null);
+          }}
+          products={products}
+          editPlan={editPlan}
+        />
+      )}
+      {isInspectionDrawerOpened && (
+        <AddInspection
+          closeDrawerHandler={() => setIsInspectionDrawerOpened(false)}
+          onRaiseNcr={(inspection) => openNcrDrawerHandler(inspection, null)}
+          plans={plans}
+          products={products}
+          purchaseOrders={purchaseOrders}
+          processes={processes}
+          sales={sales}
+        />
+      )}
+      {isNcrDrawerOpened && (
+        <AddNcr
+          closeDrawerHandler={() => {
+            setIsNcrDrawerOpened(false);
+            setNcrInspection(null);
+            setEditNcr(null);
+          }}
+          inspection={ncrInspection}
+          editNcr={editNcr}
+          products={products}
+          boms={boms}
+          processes={processes}
+          purchaseOrders={purchaseOrders}
+          sales={sales}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-emerald-500 to-emerald-600 p-3 rounded-xl shadow-lg">
+                <ShieldCheck className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Quality Control
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Inspection plans, inspection records and non-conformance
+                  reports
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {can("production", "create") && (
+                <button
+                  onClick={() => {
+                    if (activeTab === "plans") {
+                      setEditPlan(null);
+                      setIsPlanDrawerOpened(true);
+                    } else if (activeTab === "ncr") {
+                      openNcrDrawerHandler(null, null);
+                    } else {
+                      setIsInspectionDrawerOpened(true);
+                    }
+                  }}
+                  style={{ backgroundColor: colors.primary[600] }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                >
+                  <FiPlus size={16} />
+                  {activeTab === "plans"
+                    ? "New Inspection Plan"
+                    : activeTab === "ncr"
+                    ? "Raise NCR"
+                    : "Record Inspection"}
+                </button>
+              )}
+              <Button
+                onClick={fetchQualityDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          {activeTab === "inspections" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Date</th>
+                  <th className="px-4 py-3 text-left">Stage</th>
+                  <th className="px-4 py-3 text-left">Reference</th>
+                  <th className="px-4 py-3 text-left">Product</th>
+                  <th className="px-4 py-3 text-right">Inspected</th>
+                  <th className="px-4 py-3 text-right">Accepted</th>
+                  <th className="px-4 py-3 text-right">Rejected</th>
+                  <th className="px-4 py-3 text-right">Rework</th>
+                  <th className="px-4 py-3 text-left">Result</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inspections.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={10}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No inspections recorded yet.
+                    </td>
+                  </tr>
+                )}
+                {inspections.map((inspection: any) => {
+                  const result = getInspectionResult(inspection);
+                  return (
+                    <tr
+                      key={inspection._id}
+                      className="border-t"
+                      style={{ borderColor: colors.border.light }}
+                    >
+                      <td className="px-4 py-3">
+                        {inspection?.createdAt
+                          ? new Date(inspection.createdAt).toLocaleDateString()
+                          : "N/A"}
+                      </td>
+                      <td className="px-4 py-3">
+                        {getStageLabel(inspection?.stage)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {getReferenceLabel(inspection)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {getProductName(inspection?.product)}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {inspection?.inspected_qty || 0}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {inspection?.accepted_qty || 0}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {inspection?.rejected_qty || 0}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {inspection?.rework_qty || 0}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-full ${resultColorMap[result]}`}
+                        >
+                          {result}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {result !== "Pass" &&
+                          can("production", "create") && (
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              colorScheme="red"
+                              onClick={() =>
+                                openNcrDrawerHandler(inspection, null)
+                              }
+                            >
+                              Raise NCR
+                            </Button>
+                          )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "plans" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Product</th>
+                  <th className="px-4 py-3 text-left">Stages</th>
+                  <th className="px-4 py-3 text-left">Parameters</th>
+                  <th className="px-4 py-3 text-right">Sample Size</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plans.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={5}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No inspection plans defined yet.
+                    </td>
+                  </tr>
+                )}
+                {plans.map((plan: any) => (
+                  <tr
+                    key={plan._id}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">
+                      {getProductName(plan?.product)}
+                    </td>
+                    <td className="px-4 py-3">
+                      {(plan?.stages || [])
+                        .map((stage: string) => getStageLabel(stage))
+                        .join(", ")}
+                    </td>
+                    <td className="px-4 py-3">
+                      {(plan?.parameters || [])
+                        .map((parameter: any) => parameter.name)
+                        .join(", ")}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {plan?.sample_size ? `${plan.sample_size}%` : "-"}
+                    </td>
+                    <td className="px-4 py-3 flex gap-2">
+                      {can("production", "update") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          onClick={() => {
+                            setEditPlan(plan);
+                            setIsPlanDrawerOpened(true);
+                          }}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                      {can("production", "delete") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          colorScheme="red"
+                          onClick={() => deletePlanHandler(plan._id)}
+                        >
+                          Delete
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "ncr" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">NCR</th>
+                  <th className="px-4 py-3 text-left">Title</th>
+                  <th className="px-4 py-3 text-left">Severity</th>
+                  <th className="px-4 py-3 text-left">Product</th>
+                  <th className="px-4 py-3 text-left">BOM</th>
+                  <th className="px-4 py-3 text-left">Supplier</th>
+                  <th className="px-4 py-3 text-left">Disposition</th>
+                  <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ncrs.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={9}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No non-conformance reports raised.
+                    </td>
+                  </tr>
+                )}
+                {ncrs.map((ncr: any) => (
+                  <tr
+                    key={ncr._id}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">
+                      {ncr?.ncr_id || ncr._id.slice(-6).toUpperCase()}
+                    </td>
+                    <td className="px-4 py-3">{ncr?.title}</td>
+                    <td className="px-4 py-3">{ncr?.severity}</td>
+                    <td className="px-4 py-3">
+                      {ncr?.product ? getProductName(ncr.product) : "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {ncr?.bom?.bom_name ||
+                        boms.find((b: any) => b._id === ncr?.bom)?.bom_name ||
+                        "-"}
+                    </td>
+                    <td className="px-4 py-3">{ncr?.supplier_name || "-"}</td>
+                    <td className="px-4 py-3">{ncr?.disposition}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`text-xs px-2 py-1 rounded-full ${
+                          ncrStatusColorMap[ncr?.status || "Open"]
+                        }`}
+                      >
+                        {ncr?.status || "Open"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {can("production", "update") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          onClick={() => openNcrDrawerHandler(null, ncr)}
+                        >
+                          Update
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Quality
\ No newline at end of file
+export default Quality;
@@ -6,9 +6,12 @@ import { Button } from "@chakra-ui/react";
 import { MdOutlineRefresh } from "react-icons/md";
 import ResourceTable from "../components/Table/ResourceTable";
 import AddResource from "../components/Drawers/Resources/AddResource";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useDeleteResourceMutation,
+  useLazyFetchResourcesQuery,
+} from "../redux/api/api";
 import { toast } from "react-toastify";
+import { useCan } from "../components/utils/permissions";
 
 interface Resource {
   _id: string;
@@ -20,8 +23,9 @@ interface Resource {
 }
 
 const Resources = () => {
-
-  const [cookies] = useCookies();
+  const can = useCan();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [deleteResource] = useDeleteResourceMutation();
   const [resources, setResources] = useState<Resource[]>([]);
   const [filteredResources, setFilteredResources] = useState<Resource[]>([]);
   const [searchKey, setSearchKey] = useState("");
@@ -42,17 +46,9 @@ const Resources = () => {
   const fetchResourcesHandler = async () => {
     try {
       setIsLoadingResources(true);
-      const res = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}resources`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      console.log(res?.data);
-      setResources(res?.data?.resources || []);
-      setFilteredResources(res?.data?.resources || []);
+      const res = await fetchResources({}).unwrap();
+      setResources(res?.resources || []);
+      setFilteredResources(res?.resources || []);
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     } finally {
@@ -62,14 +58,7 @@ const Resources = () => {
 
   const deleteResourceHandler = async (id: string) => {
     try {
-      await axios.delete(
-        `${process.env.REACT_APP_BACKEND_URL}resources/${id}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      await deleteResource(id).unwrap();
 
       const updatedResources = resources.filter(
         (resource) => resource._id !== id
@@ -92,13 +81,7 @@ const Resources = () => {
 
   const bulkDeleteResourcesHandler = async (ids: string[]) => {
     try {
-      const deletePromises = ids.map((id) =>
-        axios.delete(`${process.env.REACT_APP_BACKEND_URL}resources/${id}`, {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        })
-      );
+      const deletePromises = ids.map((id) => deleteResource(id).unwrap());
 
       await Promise.all(deletePromises);
 
@@ -196,22 +179,24 @@ const Resources = () => {
 
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3">
-            <button
-              onClick={openAddResourceDrawerHandler}
-              style={{
-                backgroundColor: colors.primary[600],
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = colors.primary[700];
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = colors.primary[600];
-              }}
-              className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
-            >
-              <FiPlus size={16} />
-              Add New Resource
-            </button>
+            {can("resources", "create") && (
+              <button
+                onClick={openAddResourceDrawerHandler}
+                style={{
+                  backgroundColor: colors.primary[600],
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[700];
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[600];
+                }}
+                className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
+              >
+                <FiPlus size={16} />
+                Add New Resource
+              </button>
+            )}
             <Button
               onClick={fetchResourcesHandler}
               leftIcon={<MdOutlineRefresh />}
@@ -248,13 +233,21 @@ const Resources = () => {
         <ResourceTable
           resources={filteredResources}
           isLoadingResources={isLoadingResources}
-          deleteResourceHandler={deleteResourceHandler}
+          deleteResourceHandler={
+            can("resources", "delete") ? deleteResourceHandler : undefined
+          }
           fetchResourcesHandler={fetchResourcesHandler}
           setEditResource={setEditResource}
           editResource={editResource}
-          openUpdateResourceDrawerHandler={openAddResourceDrawerHandler}
+          openUpdateResourceDrawerHandler={
+            can("resources", "update")
+              ? openAddResourceDrawerHandler
+              : undefined
+          }
           setAddResourceDrawerOpened={setIsAddResourceDrawerOpened}
-          bulkDeleteResourcesHandler={bulkDeleteResourcesHandler}
+          bulkDeleteResourcesHandler={
+            can("resources", "delete") ? bulkDeleteResourcesHandler : undefined
+          }
         />
       </div>
     </div>
@@ -1,31 +1,135 @@
 // @ts-nocheck
 import { MdOutlineRefresh } from "react-icons/md";
-import { FiSearch, FiPlus, FiShoppingCart, FiDownload } from "react-icons/fi";
+import { FiSearch, FiPlus, FiShoppingCart } from "react-icons/fi";
 import AddNewSale from "../components/Drawers/Sales/AddNewSale";
-// import UpdateSale from "../components/Drawers/Sales/UpdateSale";
-import { useState, useEffect } from "react";
+import SaleDetails from "../components/Drawers/Sales/SaleDetails";
+import { useState, useEffect, useMemo } from "react";
 import SalesTable from "../components/Table/SalesTable";
+import TableViews from "../components/Table/TableViews";
+import ExportMenu from "../components/Table/ExportMenu";
 import AssignEmployee from "../components/Drawers/Sales/AssignEmployee";
 import Pagination from "./Pagination";
 import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
-import axios from "axios";
 import { colors } from "../theme/colors";
-import * as XLSX from "xlsx";
+import { useDispatch, useSelector } from "react-redux";
+import {
+  useLazyFetchEmployeesQuery,
+  useLazyFetchSalesQuery,
+} from "../redux/api/api";
+import {
+  closeSaleDetailsDrawer,
+  openSaleDetailsDrawer,
+} from "../redux/reducers/drawersSlice";
+import { useCan } from "../components/utils/permissions";
+import { useNotificationLink } from "../components/utils/notifications";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import {
+  ExportColumn,
+  formatExportDate,
+} from "../components/utils/tableExport";
+import {
+  getSaleItems,
+  getSaleTotals,
+} from "../components/utils/salesOrders";
+
+const getSaleStatus = (sale) =>
+  sale?.Status ||
+  (sale?.assinedto?.some(
+    (item) => item?.isCompleted?.toLowerCase() === "pending"
+  )
+    ? "Pending"
+    : sale?.assinedto?.some(
+        (item) => item?.isCompleted?.toLowerCase() === "inprogress"
+      )
+    ? "In Progress"
+    : "Completed");
+
+const salesExportColumns: ExportColumn[] = [
+  {
+    id: "createdAt",
+    label: "Date",
+    value: (sale) => formatExportDate(sale?.createdAt),
+  },
+  { id: "order_id", label: "Sale ID", value: (sale) => sale?.order_id },
+  {
+    id: "party.consignee_name",
+    label: "Merchant Name",
+    value: (sale) =>
+      sale?.party?.consignee_name?.[0] || sale?.party?.company_name,
+  },
+  {
+    id: "items.product_id.name",
+    label: "Products",
+    value: (sale) =>
+      getSaleItems(sale)
+        .map((item) => item.name)
+        .filter(Boolean)
+        .join(", "),
+  },
+  {
+    id: "items.quantity",
+    label: "Quantity",
+    value: (sale) => getSaleTotals(getSaleItems(sale)).quantity,
+  },
+  {
+    id: "subtotal",
+    label: "SubTotal",
+    value: (sale) => getSaleTotals(getSaleItems(sale)).subtotal,
+  },
+  {
+    id: "gst_amount",
+    label: "GST",
+    value: (sale) => getSaleTotals(getSaleItems(sale)).gst,
+  },
+  {
+    id: "total_price",
+    label: "Total Price (Incl. GST)",
+    value: (sale) =>
+      sale?.total_price ?? getSaleTotals(getSaleItems(sale)).total,
+  },
+  { id: "Status", label: "Status", value: getSaleStatus },
+];
 
 const Sales = () => {
-  const [page, setPage] = useState(1);
+  const query = useTableQuery({ filters: ["status", "date"] });
+  const [filterText, setFilterText] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
   const [show, setShow] = useState(false);
   // const [editshow, seteditsale] = useState(false);
   const [cookies] = useCookies(["access_token", "role"]);
-  const [purchases, setPurchases] = useState([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const can = useCan();
+
+  const dispatch = useDispatch();
+  const { isSaleDetailsDrawerOpened } = useSelector(
+    (state: any) => state.drawers
+  );
+  const [saleId, setSaleId] = useState<string | undefined>();
+
+  const openSaleDetailsDrawerHandler = (id: string) => {
+    setSaleId(id);
+    dispatch(openSaleDetailsDrawer());
+  };
+  const closeSaleDetailsDrawerHandler = () => {
+    dispatch(closeSaleDetailsDrawer());
+  };
+
+  // Links from the command palette
+  useNotificationLink("id", openSaleDetailsDrawerHandler);
+  useNotificationLink("action", (action) => {
+    if (action === "new" && can("sales", "create")) setShow(true);
+  });
+  const [fetchSales, { data: salesData, isFetching: isLoading }] =
+    useLazyFetchSalesQuery();
+  const [fetchAllSales] = useLazyFetchSalesQuery();
+  const [fetchAllEmployees] = useLazyFetchEmployeesQuery();
+  const purchases = useMemo(() => salesData?.data || [], [salesData]);
   const role = cookies?.role;
-  const token = cookies?.access_token;
-  const [filterText, setFilterText] = useState("");
-  const [filterDate, setFilterDate] = useState("");
-  const [filterStatus, setFilterStatus] = useState("");
-  const [filteredPurchases, setFilteredPurchases] = useState([]);
   // const [selectedSale, setSelectedSale] = useState([]);
   const [employees, setEmployees] = useState<any[]>([]);
   const [editTable, setEditTable] = useState(null);
@@ -33,207 +137,45 @@ const Sales = () => {
   //     setSelectedSale(data);
   //     seteditsale(true);
   // };
-  const [isExporting, setIsExporting] = useState(false);
 
-const fetchPurchases = async (currentPage = page) => {
+const fetchPurchases = async () => {
   try {
-    setIsLoading(true);
-    if (!token) throw new Error("Authentication token not found");
-
-    const url = `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=${currentPage}&&limit=10`
-        
-
-    const response = await axios.get(url, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-
-    // Force new reference to trigger re-render
-    setPurchases([...response?.data?.data]);
+    await fetchSales(query.params).unwrap();
   } catch (error: any) {
-    toast.error(
-      error.response?.data?.message ||
-        error.message ||
-        "Failed to fetch sale data"
-    );
-  } finally {
-    setIsLoading(false);
+    toast.error(error?.message || "Failed to fetch sale data");
   }
 };
 
 
   const fetchEmployees = async () => {
     try {
-      if (!token) throw new Error("Authentication token not found");
-
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}auth/all`,
-        {
-          headers: { Authorization: `Bearer ${token}` },
-        }
-      );
-
-      const filteredEmployees = (response?.data?.users || []).filter(
+      const response = await fetchAllEmployees({}).unwrap();
+      const filteredEmployees = (response?.users || []).filter(
         (user) => user.role
       );
       setEmployees(filteredEmployees);
     } catch (error: any) {
-      toast.error(
-        error.response?.data?.message ||
-          error.message ||
-          "Failed to fetch employees"
-      );
-    }
-  };
-  const fetchAllSalesOrderForExport = async () => {
-    try {
-      setIsExporting(true);
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=10000`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const data = await res.json();
-      console.log(data);
-      return data?.data || [];
-    } catch (error) {
-      console.error("Error fetching parties data for export:", error);
-      return [];
-    } finally {
-      setIsExporting(false);
+      toast.error(error?.data?.message || "Failed to fetch employees");
     }
   };
-  const exportToExcel = async () => {
-    try {
-      setIsExporting(true);
-      const res = await fetch(
-        `${process.env.REACT_APP_BACKEND_URL}sale/getAll?page=1&limit=10000`,
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-
-      const result = await res.json();
-      const allSalesData = result?.data || [];
-
-      if (!allSalesData.length) {
-        toast.warning("No data available to export");
-        return;
-      }
-
-      const excelData = allSalesData.map((sale, index) => ({
-        "Sr. No.": index + 1,
-        Date: sale?.createdAt
-          ? new Date(sale.createdAt).toLocaleDateString()
-          : "N/A",
-        "Sale ID": sale.order_id || "N/A",
-        "Merchant Name": sale?.party?.consignee_name?.[0] || "N/A",
-        Product: sale?.product_id?.[0]?.name || "N/A",
-        Quantity: sale?.product_qty || 0,
-        Price: sale?.price || 0,
-        SubTotal:
-          sale?.price && sale?.product_qty
-            ? sale.price * sale.product_qty
-            : "N/A",
-        "GST (%)": sale?.GST || 0,
-        "Total Price (Incl. GST)": sale?.total_price || 0,
-        // "Employee": sale?.user_id?.[0]?.first_name || "N/A",
-        Status:
-          sale?.Status ||
-          (sale?.assinedto?.some(
-            (item) => item?.isCompleted?.toLowerCase() === "pending"
-          )
-            ? "Pending"
-            : sale?.assinedto?.some(
-                (item) => item?.isCompleted?.toLowerCase() === "inprogress"
-              )
-            ? "In Progress"
-            : "Completed"),
-      }));
-
-      const wb = XLSX.utils.book_new();
-      const ws = XLSX.utils.json_to_sheet(excelData);
-
-      ws["!cols"] = [
-        { wch: 8 },
-        { wch: 25 },
-        { wch: 20 },
-        { wch: 20 },
-        { wch: 20 },
-        { wch: 15 },
-        { wch: 15 },
-      ];
-
-      XLSX.utils.book_append_sheet(wb, ws, "Sales Data");
-
-      const currentDate = new Date().toISOString().split("T")[0];
-      const filename = `Sales_Data_${currentDate}.xlsx`;
-
-      XLSX.writeFile(wb, filename);
-    } catch (error) {
-      console.error("Error exporting to Excel:", error);
-      toast.error("Error exporting sales data.");
-    } finally {
-      setIsExporting(false);
-    }
+  // Every sale matching the current filters and sort, for exports
+  const fetchAllMatchingSales = async () => {
+    const result = await fetchAllSales({
+      ...query.params,
+      page: 1,
+      limit: salesData?.totalData || query.limit,
+    }).unwrap();
+    return result?.data || [];
   };
 
   useEffect(() => {
-    fetchPurchases(page);
     fetchEmployees();
-    fetchAllSalesOrderForExport();
-  }, [page]);
+  }, []);
 
   useEffect(() => {
-    const filtered = purchases.filter((purchase) => {
-      const matchesText =
-        !filterText ||
-        [
-          purchase?.order_id,
-          purchase?.user_id?.[0]?.first_name,
-          purchase?.user_id?.[0]?.last_name,
-          purchase?.product_id?.[0]?.name,
-          purchase?.party?.consignee_name,
-          purchase?.party?.company_name,
-          purchase?.party_id?.[0]?.full_name,
-          purchase?.party_id?.[0]?.company_name,
-          purchase?.party_id?.[0]?.consignee_name,
-        ]
-          .filter(Boolean)
-          .some((field) =>
-            field?.toString().toLowerCase().includes(filterText.toLowerCase())
-          );
-
-      const matchesDate =
-        !filterDate ||
-        new Date(purchase?.createdAt).toISOString().split("T")[0] ===
-          filterDate;
-      const assignedList = purchase?.assinedto || [];
-
-      const derivedStatus = assignedList.some(
-        (item) => item?.isCompleted?.toLowerCase() === "pending"
-      )
-        ? "pending"
-        : assignedList.some(
-            (item) => item?.isCompleted?.toLowerCase() === "inprogress"
-          )
-        ? "inprogress"
-        : "completed";
+    fetchPurchases();
+  }, [query.params]);
 
-      const matchesStatus =
-        !filterStatus || derivedStatus === filterStatus.toLowerCase();
-      return matchesText && matchesDate && matchesStatus;
-    });
-
-    setFilteredPurchases(filtered);
-  }, [filterText, filterDate, filterStatus, purchases]);
 
   
 
@@ -274,50 +216,30 @@ const fetchPurchases = async (currentPage = page) => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
+              {can("sales", "create") && (
+                <button
+                  onClick={() => {
+                    setShow(!show);
+                    setEditTable(null);
+                  }}
+                  className="flex items-center gap-2 px-4 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
+                  style={{
+                    backgroundColor: colors.primary[600],
+                    focusRingColor: colors.primary[500],
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                >
+                  <FiPlus size={16} />
+                  Add New Sale
+                </button>
+              )}
               <button
-                onClick={() => {
-                  setShow(!show);
-                  setEditTable(null);
-                }}
-                className="flex items-center gap-2 px-4 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
-                style={{
-                  backgroundColor: colors.primary[600],
-                  focusRingColor: colors.primary[500],
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.primary[700];
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.primary[600];
-                }}
-              >
-                <FiPlus size={16} />
-                Add New Sale
-              </button>
-              <button
-                onClick={exportToExcel}
-                disabled={isExporting}
-                className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                style={{
-                  backgroundColor: colors.success[600],
-                  focusRingColor: colors.success[500],
-                }}
-                onMouseEnter={(e) => {
-                  if (!isExporting) {
-                    e.currentTarget.style.backgroundColor = colors.success[700];
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  if (!isExporting) {
-                    e.currentTarget.style.backgroundColor = colors.success[600];
-                  }
-                }}
-              >
-                <FiDownload size={16} />
-                {isExporting ? "Exporting..." : "Export to Excel"}
-              </button>
-              <button
-                onClick={fetchPurchases}
+                onClick={() => fetchPurchases()}
                 className="flex items-center gap-2 px-6 py-3 text-sm font-medium rounded-lg border transition-all duration-200 hover:shadow-md focus:outline-none focus:ring-2 focus:ring-offset-2"
                 style={{
                   backgroundColor: colors.background.card,
@@ -385,8 +307,8 @@ const fetchPurchases = async (currentPage = page) => {
                 Status
               </label>
               <select
-                value={filterStatus}
-                onChange={(e) => setFilterStatus(e.target.value)}
+                value={query.filters.status}
+                onChange={(e) => query.setFilter("status", e.target.value)}
                 className="w-full px-4 py-3 text-sm border rounded-lg transition-colors focus:outline-none focus:ring-2"
                 style={{
                   backgroundColor: colors.input.background,
@@ -408,6 +330,42 @@ const fetchPurchases = async (currentPage = page) => {
                 <option value="Completed">Completed</option>
               </select>
             </div>
+
+            {/* Date Filter */}
+            <div className="w-full lg:w-48">
+              <label
+                className="block text-sm font-medium mb-2"
+                style={{ color: colors.text.primary }}
+              >
+                Date
+              </label>
+              <input
+                type="date"
+                value={query.filters.date}
+                onChange={(e) => query.setFilter("date", e.target.value)}
+                className="w-full px-4 py-3 text-sm border rounded-lg transition-colors focus:outline-none focus:ring-2"
+                style={{
+                  backgroundColor: colors.input.background,
+                  borderColor: colors.input.border,
+                  color: colors.text.primary,
+                }}
+              />
+            </div>
+
+            {/* Saved Views and Export */}
+            <div className="lg:ml-auto flex flex-wrap items-center gap-3">
+              <TableViews table="sales" />
+              <ExportMenu
+                module="sales"
+                fileName="Sales_Data"
+                columns={salesExportColumns}
+                rows={purchases}
+                totalRows={salesData?.totalData}
+                fetchRows={fetchAllMatchingSales}
+                resource="sale"
+                params={query.params}
+              />
+            </div>
           </div>
         </div>
 
@@ -422,7 +380,7 @@ const fetchPurchases = async (currentPage = page) => {
           <SalesTable
             setShow={setShow}
             setEditTable={setEditTable}
-            filteredPurchases={filteredPurchases}
+            filteredPurchases={purchases}
             empData={employees}
             isLoading={isLoading}
             fetchPurchases={fetchPurchases}
@@ -432,9 +390,12 @@ const fetchPurchases = async (currentPage = page) => {
         {/* Pagination */}
         <div className="mt-6">
           <Pagination
-            page={page}
-            setPage={setPage}
-            hasNextPage={purchases.length === 10}
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={purchases.length === query.limit}
+            totalItems={salesData?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
           />
         </div>
       </div>
@@ -446,7 +407,12 @@ const fetchPurchases = async (currentPage = page) => {
         setShow={setShow}
         fetchPurchases={fetchPurchases}
       />
-      {/* <UpdateSale editshow={editshow} sale={selectedSale} seteditsale={seteditsale} refresh={fetchPurchases} /> */}
+      {isSaleDetailsDrawerOpened && (
+        <SaleDetails
+          saleId={saleId}
+          closeDrawerHandler={closeSaleDetailsDrawerHandler}
+        />
+      )}
     </div>
   );
 };
@@ -1,19 +1,22 @@
 // @ts-nocheck
 import { Box, Icon } from "@chakra-ui/react";
-import axios from "axios";
 import { Check, List, X } from "lucide-react";
 import React, { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
 import { FaArrowDown, FaArrowUp, FaRegTimesCircle } from "react-icons/fa";
 import { NavLink } from "react-router-dom";
 import { toast } from "react-toastify";
+import {
+    useLazyFetchSalesDeliveredQuery,
+    useLazyFetchSalesQuery,
+} from "../redux/api/api";
+import { getSaleItems } from "../components/utils/salesOrders";
 
 const SalesDashboard = () => {
 
     const [isLoadingSales, setIsLoadingSalesDelivered] = useState(false);
     const [salesDeliverData, setSalesDeliveredData] = useState([]);
-    const [cookies] = useCookies();
-    const token = cookies?.access_token ;
+    const [fetchSalesDelivered] = useLazyFetchSalesDeliveredQuery();
+    const [fetchSales] = useLazyFetchSalesQuery();
     // console.log(salesDeliverData?.sales)
     const [purchases, setPurchases] = useState([])
     const stats = [
@@ -100,40 +103,11 @@ const SalesDashboard = () => {
     const fetchSalesDeliveredData = async () => {
         setIsLoadingSalesDelivered(true);
         try {
-            const response = await fetch(`${process.env.REACT_APP_BACKEND_URL}dashboard/sales-delivered`, {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Authorization': `Bearer ${cookies?.access_token}`
-                }
-            });
-
-            if (response.ok) {
-                const data = await response.json();
-
-                if (data.success) {
-                    setSalesDeliveredData(data);
-                } else {
-                    toast({
-                        title: "Error",
-                        description: data.message || "Failed to fetch sales-delivered data",
-                        status: "error",
-                        duration: 3000,
-                        isClosable: true,
-                    });
-                }
-            } else {
-                console.error('Sales-Delivered API Error:', response.status, response.statusText);
-            }
+            const data = await fetchSalesDelivered({}).unwrap();
+            setSalesDeliveredData(data);
         } catch (error) {
             console.error('Error fetching sales-delivered data:', error);
-            toast({
-                title: "Error",
-                description: "Failed to fetch sales-delivered data",
-                status: "error",
-                duration: 3000,
-                isClosable: true,
-            });
+            toast.error(error?.message || "Failed to fetch sales-delivered data");
         } finally {
             setIsLoadingSalesDelivered(false);
         }
@@ -141,26 +115,10 @@ const SalesDashboard = () => {
 
     const fetchPurchases = async () => {
       try {
-       
-        if (!token) throw new Error("Authentication token not found");
-    
-        const url = `${process.env.REACT_APP_BACKEND_URL}sale/getAll?limit=5`
-          // // role === "admin"
-          //   ? 
-          //   : `${process.env.REACT_APP_BACKEND_URL}sale/getOne?page=${currentPage}&&limit=10`;
-    
-        const response = await axios.get(url, {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-    
-        // Force new reference to trigger re-render
-        setPurchases([...response?.data?.data]);
+        const response = await fetchSales({ limit: 5 }).unwrap();
+        setPurchases([...response.data]);
       } catch (error) {
-        toast.error(
-          error.response?.data?.message ||
-            error.message ||
-            "Failed to fetch sale data"
-        );
+        toast.error(error?.message || "Failed to fetch sale data");
       } 
     };
 
@@ -239,9 +197,21 @@ const SalesDashboard = () => {
                                 </td>
 
                                 <td className="py-3 px-4">{order?.party?.consignee_name[0] || order?.party?.company_name}</td> 
-                                <td className="py-3 px-4">{order?.product_id[0]?.name}</td>
-                                <td className="py-3 px-4">{order?.product_qty}</td>
-                                <td className="py-3 px-4">₹{order.price}</td>
+                                <td className="py-3 px-4">
+                                    {getSaleItems(order).map((line, index) => (
+                                        <div key={`${line.product_id}-${index}`}>{line.name}</div>
+                                    ))}
+                                </td>
+                                <td className="py-3 px-4">
+                                    {getSaleItems(order).map((line, index) => (
+                                        <div key={`${line.product_id}-${index}`}>{line.quantity}</div>
+                                    ))}
+                                </td>
+                                <td className="py-3 px-4">
+                                    {getSaleItems(order).map((line, index) => (
+                                        <div key={`${line.product_id}-${index}`}>₹{line.price}</div>
+                                    ))}
+                                </td>
                                 <td className="py-3 px-4">₹{order.total_price}</td>
                                 {/* <td className="py-3 px-4">
                                     <span
@@ -1,9 +1,503 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiChevronLeft, FiChevronRight } from "react-icons/fi";
+import { AlertTriangle, SquareChartGantt } from "lucide-react";
+import { colors } from "../theme/colors";
+import {
+  useLazyFetchProcessQuery,
+  useLazyFetchResourcesQuery,
+  useScheduleProcessMutation,
+} from "../redux/api/api";
+import ScheduleProcess from "../components/Drawers/Process/ScheduleProcess";
+import {
+  DEFAULT_PROCESS_DURATION,
+  findOverlaps,
+  getResourceId,
+  isScheduled,
+  snapTime,
+} from "../components/utils/scheduling";
+
+const HOUR = 60 * 60 * 1000;
+
+// Processes in these states no longer occupy a resource
+const finishedStatuses = [
+  "completed",
+  "moved to inventory",
+  "allocated finish goods",
+  "out finished goods",
+  "received",
+];
+
+const hourWidthByDays: { [days: number]: number } = {
+  1: 60,
+  3: 30,
+  7: 14,
+};
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const formatTime = (date?: string) =>
+  date
+    ? new Date(date).toLocaleString([], {
+        day: "2-digit",
+        month: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "N/A";
+
+const Scheduling: React.FC = () => {
+  const [resources, setResources] = useState<any[]>([]);
+  const [processes, setProcesses] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [viewStart, setViewStart] = useState<Date>(startOfDay(new Date()));
+  const [viewDays, setViewDays] = useState<number>(3);
+  const [selectedProcess, setSelectedProcess] = useState<any | null>(null);
+
+  const [fetchProcess] = useLazyFetchProcessQuery();
+  const [fetchResources] = useLazyFetchResourcesQuery();
+  const [scheduleProcess] = useScheduleProcessMutation();
+
+  const hourWidth = hourWidthByDays[viewDays];
+  const totalHours = viewDays * 24;
+  const timelineWidth = totalHours * hourWidth;
+  const viewEnd = viewStart.getTime() + totalHours * HOUR;
+
+  const fetchSchedulingDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      const [resourceData, processData] = await Promise.all([
+        fetchResources({}).unwrap(),
+        fetchProcess({}).unwrap(),
+      ]);
+      setResources(resourceData?.resources || []);
+      setProcesses(
+        (processData?.production_processes || []).filter(
+          (p: any) => !finishedStatuses.includes(p?.status?.toLowerCase())
+        )
+      );
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSchedulingDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const overlaps = useMemo(() => findOverlaps(processes), [processes]);
+  const unscheduledProcesses = processes.filter((p: any) => !isScheduled(p));
+
+  const scheduleProcessHandler = async (
+    target: any,
+    schedule: {
+      resource: string | null;
+      planned_start: string | null;
+      planned_end: string | null;
+    }
+  ) => {
+    const previous = processes;
+    // Optimistically move the bar, roll back if the backend rejects it
+    setProcesses((prev) =>
+      prev.map((p: any) => (p._id === target._id ? { ...p, ...schedule } : p))
+    );
+    try {
+      const response = await scheduleProcess({
+        _id: target._id,
+        ...schedule,
+      }).unwrap();
+      toast.success(response?.message || "Schedule updated");
+    } catch (error: any) {
+      setProcesses(previous);
+      toast.error(error?.data?.message || "Failed to update schedule");
+    }
+  };
+
+  const dragStartHandler = (
+    e: React.DragEvent<HTMLDivElement>,
+    process: any
+  ) => {
+    // Keep the grab point so the bar does not jump to the cursor on drop. A bar
+    // starting before the view is clipped at its left edge, so the offset is
+    // measured from the process's own start.
+    let grabOffset = 0;
+    if (isScheduled(process)) {
+      const start = new Date(process.planned_start).getTime();
+      const rect = e.currentTarget.getBoundingClientRect();
+      const grabbedAt =
+        Math.max(start, viewStart.getTime()) +
+        ((e.clientX - rect.left) / hourWidth) * HOUR;
+      grabOffset = grabbedAt - start;
+    }
+    e.dataTransfer.setData(
+      "text/plain",
+      JSON.stringify({ _id: process._id, grabOffset })
+    );
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  const dropHandler = (e: React.DragEvent<HTMLDivElement>, resource: any) => {
+    e.preventDefault();
+    let payload: { _id: string; grabOffset: number };
+    try {
+      payload = JSON.parse(e.dataTransfer.getData("text/plain"));
+    } catch (error) {
+      return;
+    }
+    const target = processes.find((p: any) => p._id === payload._id);
+    if (!target) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const droppedAt =
+      viewStart.getTime() + ((e.clientX - rect.left) / hourWidth) * HOUR;
+    const start = snapTime(droppedAt - payload.grabOffset);
+    const duration = isScheduled(target)
+      ? new Date(target.planned_end).getTime() -
+        new Date(target.planned_start).getTime()
+      : DEFAULT_PROCESS_DURATION;
+
+    scheduleProcessHandler(target, {
+      resource: resource._id,
+      planned_start: new Date(start).toISOString(),
+      planned_end: new Date(start + duration).toISOString(),
+    });
+  };
+
+  const shiftViewHandler = (direction: number) => {
+    setViewStart(
+      (prev) => new Date(prev.getTime() + direction * viewDays * 24 * HOUR)
+    );
+  };
+
+  const getBarStyle = (process: any) => {
+    const start = Math.max(
+      new Date(process.planned_start).getTime(),
+      viewStart.getTime()
+    );
+    const end = Math.min(new Date(process.planned_end).getTime(), viewEnd);
+    return {
+      left: ((start - viewStart.getTime()) / HOUR) * hourWidth,
+      width: Math.max(((end - start) / HOUR) * hourWidth, 8),
+    };
+  };
+
+  const isInView = (process: any) =>
+    new Date(process.planned_start).getTime() < viewEnd &&
+    new Date(process.planned_end).getTime() > viewStart.getTime();
 
-const Scheduling = () => {
   return (
-    <div>Scheduling</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {selectedProcess && (
+        <ScheduleProcess
+          process={selectedProcess}
+          resources={resources}
+          closeDrawerHandler={() => setSelectedProcess(null)}
+          scheduleProcessHandler={scheduleProcessHandler}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-cyan-500 to-cyan-600 p-3 rounded-xl shadow-lg">
+                <SquareChartGantt className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Scheduling
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Drag production processes onto resources to plan their run
+                  window
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => shiftViewHandler(-1)}
+                  className="p-2 rounded-lg border"
+                  style={{ borderColor: colors.border.medium }}
+                >
+                  <FiChevronLeft />
+                </button>
+                <input
+                  type="date"
+                  className="px-3 py-2 border rounded-lg text-sm"
+                  style={{ borderColor: colors.input.border }}
+                  value={`${viewStart.getFullYear()}-${String(
+                    viewStart.getMonth() + 1
+                  ).padStart(2, "0")}-${String(viewStart.getDate()).padStart(
+                    2,
+                    "0"
+                  )}`}
+                  onChange={(e) =>
+                    e.target.value &&
+                    setViewStart(startOfDay(new Date(`${e.target.value}T00:00`)))
+                  }
+                />
+                <button
+                  onClick={() => shiftViewHandler(1)}
+                  className="p-2 rounded-lg border"
+                  style={{ borderColor: colors.border.medium }}
+                >
+                  <FiChevronRight />
+                </button>
+              </div>
+              <select
+                className="px-3 py-2 border rounded-lg text-sm"
+                style={{ borderColor: colors.input.border }}
+                value={viewDays}
+                onChange={(e) => setViewDays(+e.target.value)}
+              >
+                <option value={1}>1 Day</option>
+                <option value={3}>3 Days</option>
+                <option value={7}>1 Week</option>
+              </select>
+              <Button
+                onClick={fetchSchedulingDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          {overlaps.size > 0 && (
+            <div className="mt-4 flex items-center gap-2 px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">
+              <AlertTriangle size={18} />
+              {overlaps.size} processes have overlapping windows on the same
+              resource. Conflicting bars are outlined in red.
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-[280px_1fr] gap-6">
+          {/* Unscheduled processes */}
+          <div
+            className="rounded-xl shadow-sm border p-4 h-fit"
+            style={{
+              backgroundColor: colors.background.card,
+              borderColor: colors.border.light,
+            }}
+          >
+            <h2
+              className="text-lg font-semibold mb-3"
+              style={{ color: colors.text.primary }}
+            >
+              Unscheduled ({unscheduledProcesses.length})
+            </h2>
+            <div className="space-y-2 max-h-[60vh] overflow-auto">
+              {unscheduledProcesses.length === 0 && (
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  Every open process is scheduled.
+                </p>
+              )}
+              {unscheduledProcesses.map((p: any) => (
+                <div
+                  key={p._id}
+                  draggable
+                  onDragStart={(e) => dragStartHandler(e, p)}
+                  onClick={() => setSelectedProcess(p)}
+                  className="p-3 rounded-lg border cursor-move hover:shadow-md transition-shadow"
+                  style={{ borderColor: colors.border.light }}
+                >
+                  <p
+                    className="text-sm font-medium"
+                    style={{ color: colors.text.primary }}
+                  >
+                    {p?.item?.name || "N/A"}
+                  </p>
+                  <p
+                    className="text-xs"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    {p?.bom?.bom_name || "N/A"} &middot; {p?.status}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Gantt chart */}
+          <div
+            className="rounded-xl shadow-sm border overflow-hidden"
+            style={{
+              backgroundColor: colors.background.card,
+              borderColor: colors.border.light,
+            }}
+          >
+            <div className="flex">
+              {/* Lane labels */}
+              <div
+                className="w-40 flex-shrink-0 border-r"
+                style={{ borderColor: colors.border.light }}
+              >
+                <div
+                  className="h-10 border-b px-3 flex items-center text-xs font-semibold"
+                  style={{
+                    borderColor: colors.border.light,
+                    backgroundColor: colors.table.header,
+                  }}
+                >
+                  Resource
+                </div>
+                {resources.map((resource: any) => (
+                  <div
+                    key={resource._id}
+                    className="h-14 border-b px-3 flex flex-col justify-center"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <p
+                      className="text-sm font-medium truncate"
+                      style={{ color: colors.text.primary }}
+                    >
+                      {resource.name}
+                    </p>
+                    <p
+                      className="text-xs truncate"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {resource.type}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Timeline */}
+              <div className="overflow-x-auto flex-1">
+                <div style={{ width: timelineWidth }}>
+                  <div
+                    className="h-10 border-b flex"
+                    style={{
+                      borderColor: colors.border.light,
+                      backgroundColor: colors.table.header,
+                    }}
+                  >
+                    {Array.from({ length: totalHours }).map((_, hour) => {
+                      const time = new Date(viewStart.getTime() + hour * HOUR);
+                      const showLabel =
+                        time.getHours() % (viewDays === 1 ? 1 : 6) === 0;
+                      return (
+                        <div
+                          key={hour}
+                          className="text-[10px] border-l flex-shrink-0 px-1 pt-1"
+                          style={{
+                            width: hourWidth,
+                            borderColor:
+                              time.getHours() === 0
+                                ? colors.border.dark
+                                : colors.border.light,
+                            color: colors.text.secondary,
+                          }}
+                        >
+                          {time.getHours() === 0
+                            ? time.toLocaleDateString([], {
+                                day: "2-digit",
+                                month: "short",
+                              })
+                            : showLabel
+                            ? `${time.getHours()}:00`
+                            : ""}
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {resources.map((resource: any) => (
+                    <div
+                      key={resource._id}
+                      className="h-14 border-b relative"
+                      style={{
+                        borderColor: colors.border.light,
+                        backgroundImage: `repeating-linear-gradient(to right, ${colors.border.light} 0, ${colors.border.light} 1px, transparent 1px, transparent ${hourWidth}px)`,
+                      }}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => dropHandler(e, resource)}
+                    >
+                      {processes
+                        .filter(
+                          (p: any) =>
+                            isScheduled(p) &&
+                            getResourceId(p) === resource._id &&
+                            isInView(p)
+                        )
+                        .map((p: any) => (
+                          <div
+                            key={p._id}
+                            draggable
+                            onDragStart={(e) => dragStartHandler(e, p)}
+                            onClick={() => setSelectedProcess(p)}
+                            title={`${p?.item?.name || "N/A"}\n${formatTime(
+                              p.planned_start
+                            )} - ${formatTime(p.planned_end)}`}
+                            className="absolute top-2 h-10 rounded-md px-2 text-xs text-white flex items-center overflow-hidden cursor-move shadow"
+                            style={{
+                              ...getBarStyle(p),
+                              backgroundColor: colors.primary[500],
+                              border: overlaps.has(p._id)
+                                ? `2px solid ${colors.error[600]}`
+                                : "none",
+                            }}
+                          >
+                            <span className="truncate">
+                              {p?.item?.name || "N/A"}
+                            </span>
+                          </div>
+                        ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+            {resources.length === 0 && (
+              <p
+                className="p-6 text-center text-sm"
+                style={{ color: colors.text.secondary }}
+              >
+                {isLoading
+                  ? "Loading..."
+                  : "No resources found. Add machines under Resources first."}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Scheduling
\ No newline at end of file
+export default Scheduling;
@@ -2,74 +2,91 @@
 
 import { Button } from "@chakra-ui/react";
 import { MdOutlineRefresh } from "react-icons/md";
-import { useEffect, useState } from "react";
-import { useCookies } from "react-cookie";
+import { useEffect, useMemo } from "react";
 import ScrapTable from "../components/Table/ScrapTable";
+import ExportMenu from "../components/Table/ExportMenu";
 import { toast } from "react-toastify";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useLazyFetchScrapsQuery } from "../redux/api/api";
 import { Recycle } from "lucide-react";
+import Pagination from "./Pagination";
+import {
+  useSearchInput,
+  useTableQuery,
+} from "../components/utils/tableQuery";
+import {
+  ExportColumn,
+  formatExportDate,
+} from "../components/utils/tableExport";
+
+const scrapExportColumns: ExportColumn[] = [
+  { id: "item.name", label: "Item", value: (scrap) => scrap.item?.name },
+  { id: "bom.bom_name", label: "BOM", value: (scrap) => scrap.bom?.bom_name },
+  {
+    id: "bom.finished_good.item.name",
+    label: "Finished Good",
+    value: (scrap) => scrap.bom?.finished_good?.item?.name,
+  },
+  {
+    id: "estimated_quantity",
+    label: "Estimated Quantity",
+    value: (scrap) => scrap.estimated_quantity,
+  },
+  {
+    id: "produced_quantity",
+    label: "Produced Quantity",
+    value: (scrap) => scrap.produced_quantity,
+  },
+  {
+    id: "total_part_cost",
+    label: "Total Part Cost",
+    value: (scrap) => scrap.total_part_cost,
+  },
+  {
+    id: "createdAt",
+    label: "Created On",
+    value: (scrap) => formatExportDate(scrap.createdAt),
+  },
+  {
+    id: "updatedAt",
+    label: "Last Updated",
+    value: (scrap) => formatExportDate(scrap.updatedAt),
+  },
+];
 
 const Scrap: React.FC = () => {
-  const [cookies] = useCookies();
-  const [data, setData] = useState<any[] | []>([]);
-  const [filteredData, setFilteredData] = useState<any[] | []>([]);
-  const [isLoadingScraps, setIsLoadingScraps] = useState<boolean>(false);
-  const [searchKey, setSearchKey] = useState<string | undefined>();
+  const query = useTableQuery({ defaultLimit: 20 });
+  const [searchKey, setSearchKey] = useSearchInput(
+    query.search,
+    query.setSearch
+  );
+  const [fetchScraps, { data: scrapData, isFetching: isLoadingScraps }] =
+    useLazyFetchScrapsQuery();
+  const [fetchAllScraps] = useLazyFetchScrapsQuery();
+  const data = useMemo(() => scrapData?.scraps || [], [scrapData]);
 
   const fetchScrapHandler = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "scrap/all",
-        {
-          method:"GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
-      setData(data.scraps);
-      setFilteredData(data.scraps);
+      await fetchScraps(query.params).unwrap();
     } catch (error: any) {
       toast.error(error?.message || "Something went wrong");
     }
   };
 
-  useEffect(() => {
-    fetchScrapHandler();
-  }, []);
+  // Every scrap entry matching the current search and sort, for exports
+  const fetchAllMatchingScraps = async () => {
+    const result = await fetchAllScraps({
+      ...query.params,
+      page: 1,
+      limit: scrapData?.totalData || query.limit,
+    }).unwrap();
+    return result?.scraps || [];
+  };
 
   useEffect(() => {
-    const searchTxt = searchKey?.toLowerCase();
-    const results = data.filter(
-      (scrap: any) =>
-        scrap.bom.bom_name?.toLowerCase()?.includes(searchTxt) ||
-        scrap.item.name?.toLowerCase()?.includes(searchTxt) ||
-        scrap.produced_quantity.toString().toLowerCase().includes(searchTxt) ||
-        scrap.estimated_quantity.toString().toLowerCase().includes(searchTxt) ||
-        (scrap?.createdAt &&
-          new Date(scrap?.createdAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            .reverse()
-            .join("")
-            ?.includes(searchTxt?.replaceAll("/", "") || "")) ||
-        (scrap?.updatedAt &&
-          new Date(scrap?.updatedAt)
-            ?.toISOString()
-            ?.substring(0, 10)
-            ?.split("-")
-            ?.reverse()
-            ?.join("")
-            ?.includes(searchTxt?.replaceAll("/", "") || ""))
-    );
-    setFilteredData(results);
-  }, [searchKey]);
+    fetchScrapHandler();
+  }, [query.params]);
 
   return (
     <div
@@ -108,6 +125,16 @@ const Scrap: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
+              <ExportMenu
+                module="inventory"
+                fileName="Scrap_Data"
+                columns={scrapExportColumns}
+                rows={data}
+                totalRows={scrapData?.totalData}
+                fetchRows={fetchAllMatchingScraps}
+                resource="scrap"
+                params={query.params}
+              />
               <button
                 onClick={fetchScrapHandler}
                 className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
@@ -162,7 +189,7 @@ const Scrap: React.FC = () => {
                     e.currentTarget.style.boxShadow = "none";
                   }}
                   placeholder="Search by BOM, item name, quantity..."
-                  value={searchKey || ""}
+                  value={searchKey}
                   onChange={(e) => setSearchKey(e.target.value)}
                 />
               </div>
@@ -179,9 +206,20 @@ const Scrap: React.FC = () => {
           }}
         >
           <ScrapTable
-            scraps={filteredData}
+            scraps={data}
+            totalScraps={scrapData?.totalData}
             isLoadingScraps={isLoadingScraps}
             openScrapDetailsDrawerHandler={() => {}}
+            sortBy={query.sortBy}
+            onSortByChange={query.setSortBy}
+          />
+          <Pagination
+            page={query.page}
+            setPage={query.setPage}
+            hasNextPage={data.length === query.limit}
+            totalItems={scrapData?.totalData}
+            pageSize={query.limit}
+            setPageSize={query.setLimit}
           />
         </div>
       </div>
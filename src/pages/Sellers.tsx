@@ -1,6 +1,5 @@
 import { Button, FormControl, FormLabel, Input } from "@chakra-ui/react";
-import { useEffect, useRef, useState } from "react";
-import { useCookies } from "react-cookie";
+import { useEffect, useState } from "react";
 import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import { useDispatch, useSelector } from "react-redux";
 import { toast } from "react-toastify";
@@ -19,21 +18,22 @@ import UpdateSeller from "../components/Drawers/Seller/UpdateSeller";
 import {
   useAgentBulKUploadMutation,
   useDeleteAgentMutation,
+  useLazyFetchSellersQuery,
 } from "../redux/api/api";
 import SellerDetails from "../components/Drawers/Seller/SellerDetails";
 import { AiFillFileExcel } from "react-icons/ai";
-import { RxCross2 } from "react-icons/rx";
 import { FiSearch } from "react-icons/fi";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import ImportWizard from "../components/Table/ImportWizard";
+import { agentImportConfig } from "../components/utils/importWizard";
 import { Truck } from "lucide-react";
 
 const Sellers: React.FC = () => {
+  const can = useCan();
   const [sellerId, setSellerId] = useState<string | undefined>();
   const [showBulkUploadMenu, setShowBulkUploadMenu] = useState<boolean>(false);
-  const [bulkUploading, setBulkUploading] = useState<boolean>(false);
-  const fileRef = useRef<HTMLInputElement | null>(null);
   const [isSellersLoading, setIsSellersLoading] = useState<boolean>(false);
-  const [cookies] = useCookies();
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [sellers, setSellers] = useState<any[]>([]);
   const [filteredSellers, setFilteredSellers] = useState<any[]>([]);
@@ -47,6 +47,7 @@ const Sellers: React.FC = () => {
 
   const [deleteSeller] = useDeleteAgentMutation();
   const [bulkUpload] = useAgentBulKUploadMutation();
+  const [fetchSellers] = useLazyFetchSellersQuery();
 
   const openAddSellerDrawerHandler = () => {
     dispatch(openAddSellerDrawer());
@@ -82,19 +83,7 @@ const Sellers: React.FC = () => {
   const fetchSellersHandler = async () => {
     try {
       setIsSellersLoading(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "agent/suppliers",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchSellers({}).unwrap();
       setSellers(data.agents);
       setFilteredSellers(data.agents);
     } catch (err: any) {
@@ -104,29 +93,6 @@ const Sellers: React.FC = () => {
     }
   };
 
-  const bulkUploadHandler = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    const file = fileRef?.current?.files?.[0];
-    if (!file) {
-      toast.error("CSV file not selected");
-      return;
-    }
-
-    try {
-      setBulkUploading(true);
-      const formData = new FormData();
-      formData.append("excel", file);
-
-      const response = await bulkUpload(formData).unwrap();
-      toast.success(response.message);
-    } catch (err: any) {
-      toast.error(err?.data?.message || err?.message || "Something went wrong");
-    } finally {
-      setBulkUploading(false);
-    }
-  };
-
   useEffect(() => {
     fetchSellersHandler();
   }, []);
@@ -227,24 +193,26 @@ const Sellers: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddSellerDrawerHandler}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="20px" />
-                Add Supplier
-              </button>
+              {can("agent", "create") && (
+                <button
+                  onClick={openAddSellerDrawerHandler}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="20px" />
+                  Add Supplier
+                </button>
+              )}
 
               <button
                 onClick={fetchSellersHandler}
@@ -328,88 +296,15 @@ const Sellers: React.FC = () => {
           </div>
         </div>
 
-        {/* Bulk Upload Modal */}
+        {/* Import Wizard */}
         {showBulkUploadMenu && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div
-              className="rounded-xl shadow-xl max-w-md w-full p-6"
-              style={{ backgroundColor: colors.background.card }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3
-                  className="text-lg font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Bulk Upload Suppliers
-                </h3>
-                <button
-                  onClick={() => setShowBulkUploadMenu(false)}
-                  className="p-1 rounded-lg transition-colors"
-                  style={{ color: colors.text.secondary }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = colors.gray[100];
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                >
-                  <RxCross2 size="20px" />
-                </button>
-              </div>
-
-              <form onSubmit={bulkUploadHandler}>
-                <div className="mb-4">
-                  <label
-                    className="block text-sm font-medium mb-2"
-                    style={{ color: colors.text.primary }}
-                  >
-                    Choose File (.csv or .xlsx)
-                  </label>
-                  <input
-                    ref={fileRef}
-                    type="file"
-                    accept=".csv, .xlsx"
-                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
-                    style={{
-                      backgroundColor: colors.input.background,
-                      borderColor: colors.input.border,
-                      color: colors.text.primary,
-                    }}
-                  />
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="submit"
-                    disabled={bulkUploading}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                  >
-                    {bulkUploading ? "Uploading..." : "Upload"}
-                    <AiFillFileExcel size="16px" />
-                  </button>
-
-                  <a href={SampleCSV} className="flex-1">
-                    <button
-                      type="button"
-                      className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                      style={{
-                        borderColor: colors.border.medium,
-                        color: colors.text.primary,
-                        backgroundColor: colors.background.card,
-                      }}
-                    >
-                      Sample CSV
-                      <AiFillFileExcel size="16px" />
-                    </button>
-                  </a>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ImportWizard
+            config={agentImportConfig}
+            upload={(formData) => bulkUpload(formData).unwrap()}
+            onImported={fetchSellersHandler}
+            onClose={() => setShowBulkUploadMenu(false)}
+            sampleUrl={SampleCSV}
+          />
         )}
 
         {/* Supplier Table */}
@@ -422,10 +317,14 @@ const Sellers: React.FC = () => {
         >
           <AgentTable
             agents={filteredSellers}
-            openUpdateAgentDrawerHandler={openUpdateSellerDrawerHandler}
+            openUpdateAgentDrawerHandler={
+              can("agent", "update") ? openUpdateSellerDrawerHandler : undefined
+            }
             openAgentDetailsDrawerHandler={openSellerDetailsDrawerHandler}
             isLoadingAgents={isSellersLoading}
-            deleteAgentHandler={deleteSellerHandler}
+            deleteAgentHandler={
+              can("agent", "delete") ? deleteSellerHandler : undefined
+            }
           />
         </div>
       </div>
@@ -1,15 +1,15 @@
 import { useEffect, useRef, useState, useCallback } from "react";
-import { useCookies } from 'react-cookie';
 import { motion } from "framer-motion";
-import io, { Socket } from 'socket.io-client'; // CHANGE 1: Imported socket.io-client for real-time communication
+import { useSocketEvent, useSocketRoom } from '../components/utils/socket';
+import { getLatestDeviceReading } from '../components/utils/maintenance';
+import {
+  useLazyFetchDeviceDataQuery,
+  useSendDeviceControlsMutation,
+} from '../redux/api/api';
 
 const Sensors: React.FC = () => {
-  // Backend base URL from env (CRA), fallback to localhost
-  const BACKEND_BASE_URL = (process.env.REACT_APP_BACKEND_URL || 'http://localhost:8085/api/') as string;
-  const BASE_URL = BACKEND_BASE_URL.endsWith('/') ? BACKEND_BASE_URL : `${BACKEND_BASE_URL}/`;
-  const DEVICE_GET_URL = `${BASE_URL}devicedata/get-device-data`;
-  const DEVICE_POST_URL = `${BASE_URL}devicedata/dashboardtodb`;
-  const [cookies] = useCookies();
+  const [fetchDeviceData] = useLazyFetchDeviceDataQuery();
+  const [sendDeviceControls] = useSendDeviceControlsMutation();
   // Real-time Sensor Data
   const [temperature, setTemperature] = useState<number>(30.2);
   const [humidity, setHumidity] = useState<number>(42);
@@ -52,26 +52,13 @@ const Sensors: React.FC = () => {
   const [rgbOnCount, setRgbOnCount] = useState<number>(0);
   const [rgbOffCount, setRgbOffCount] = useState<number>(0);
 
-  // CHANGE 2: Added socketRef to hold the Socket.IO client instance
-  const socketRef = useRef<Socket | null>(null);
-
   // CHANGE: Moved fetchFromBackend out of the useEffect and wrapped it in useCallback so it can be called from the socket listener and on mount. Dependencies ensure it uses latest values.
   const fetchFromBackend = useCallback(async () => {
     try {
-      const res = await fetch(DEVICE_GET_URL, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token || ''}`
-        },
-        credentials: 'include'
-      });
-      if (!res.ok) return;
-      const json = await res.json();
-      const data = Array.isArray(json?.data) ? json.data : [];
-      if (!data.length) return;
+      const response = await fetchDeviceData({}).unwrap();
+      const latest = getLatestDeviceReading(response);
+      if (!latest) return;
 
-      const latest = data[0];
       setTemperature(typeof latest.temperature === 'number' ? latest.temperature : 0);
       setHumidity(typeof latest.humidity === 'number' ? latest.humidity : 0);
       setGasLevel(typeof latest.gasLevel === 'number' ? latest.gasLevel : 0);
@@ -118,7 +105,7 @@ const Sensors: React.FC = () => {
     } catch (e) {
       // Silently ignore to keep UI responsive
     }
-  }, [DEVICE_GET_URL, cookies?.access_token]);
+  }, [fetchDeviceData]);
 
   // CHANGE: Added useEffect to call fetchFromBackend on mount (initial fetch).
   useEffect(() => {
@@ -135,109 +122,89 @@ const Sensors: React.FC = () => {
     return () => clearInterval(interval);
   }, [fetchFromBackend]); */
 
-  // CHANGE 3: Added useEffect to initialize Socket.IO, join dashboard room, and listen for updates
-  useEffect(() => {
-    // Initialize Socket.IO client
-    const socketUrl =
-      (process.env.REACT_APP_SOCKET_URL || (process.env.REACT_APP_BACKEND_URL || '')
-        .replace(/\/api\/?$/, '')) || 'http://localhost:8085';
-    socketRef.current = io(socketUrl, {
-      withCredentials: true,
-      extraHeaders: {
-        Authorization: `Bearer ${cookies?.access_token || ''}`,
-      },
-    });
-    
-    // Join the 'dashboard' room
-    socketRef.current.emit('joinDashboard');
-
-    // Handle sensor data updates from NodeMCU
-    socketRef.current.on('controlDataUpdate', (data: {
-      lightState?: boolean;
-      fanState?: boolean;
-      motorState?: boolean;
-      rgbState?: boolean;
-      breakCount?: number;
-      rgbRed?: number;
-      rgbGreen?: number;
-      rgbBlue?: number;
-      temperature?: number;
-      humidity?: number;
-      gasLevel?: number;
-      ldrRaw?: number;
-      encoderCount?: number;
-      encoderA?: number;
-      encoderB?: number;
-      motorRPM?: number;
-    }) => {
-      // Check if this is sensor data update (contains temperature, humidity, etc.)
-      if ('temperature' in data || 'humidity' in data || 'gasLevel' in data) {
-        // Update sensor data directly from socket
-        if (typeof data.temperature === 'number') setTemperature(data.temperature);
-        if (typeof data.humidity === 'number') setHumidity(data.humidity);
-        if (typeof data.gasLevel === 'number') setGasLevel(data.gasLevel);
-        if (typeof data.motorRPM === 'number') setMotorRPM(data.motorRPM);
-        if (typeof data.encoderCount === 'number') setEncoderCount(data.encoderCount);
-        if (typeof data.breakCount === 'number') setBreakCount(data.breakCount);
-        
-        // Handle LDR edge counting
-        if (typeof data.ldrRaw === 'number') {
-          if (prevLdrRef.current !== 1 && data.ldrRaw === 1) {
-            setLdrOneCount((c) => c + 1);
-          }
-          prevLdrRef.current = data.ldrRaw;
-        }
-        
-        // Handle encoder edge counting
-        if (typeof data.encoderA === 'number') {
-          if (prevEncoderARef.current !== 1 && data.encoderA === 1) {
-            encoderAOneCountRef.current = encoderAOneCountRef.current + 1;
-          }
-          prevEncoderARef.current = data.encoderA;
-          setEncoderA(data.encoderA);
-        }
-        
-        if (typeof data.encoderB === 'number') {
-          if (prevEncoderBRef.current !== 1 && data.encoderB === 1) {
-            encoderBOneCountRef.current = encoderBOneCountRef.current + 1;
-          }
-          prevEncoderBRef.current = data.encoderB;
-          setEncoderB(data.encoderB);
-        }
+  // Join the 'dashboard' room on the shared socket and listen for updates
+  useSocketRoom('joinDashboard');
 
-        // Update history for bar charts
-        if (typeof data.temperature === 'number') {
-          const tempValue = data.temperature;
-          setTemperatureHistory(prev => {
-            const newHistory = [tempValue, ...prev].slice(0, 4);
-            return newHistory;
-          });
+  useSocketEvent('controlDataUpdate', (data: {
+    lightState?: boolean;
+    fanState?: boolean;
+    motorState?: boolean;
+    rgbState?: boolean;
+    breakCount?: number;
+    rgbRed?: number;
+    rgbGreen?: number;
+    rgbBlue?: number;
+    temperature?: number;
+    humidity?: number;
+    gasLevel?: number;
+    ldrRaw?: number;
+    encoderCount?: number;
+    encoderA?: number;
+    encoderB?: number;
+    motorRPM?: number;
+  }) => {
+    // Check if this is sensor data update (contains temperature, humidity, etc.)
+    if ('temperature' in data || 'humidity' in data || 'gasLevel' in data) {
+      // Update sensor data directly from socket
+      if (typeof data.temperature === 'number') setTemperature(data.temperature);
+      if (typeof data.humidity === 'number') setHumidity(data.humidity);
+      if (typeof data.gasLevel === 'number') setGasLevel(data.gasLevel);
+      if (typeof data.motorRPM === 'number') setMotorRPM(data.motorRPM);
+      if (typeof data.encoderCount === 'number') setEncoderCount(data.encoderCount);
+      if (typeof data.breakCount === 'number') setBreakCount(data.breakCount);
+      
+      // Handle LDR edge counting
+      if (typeof data.ldrRaw === 'number') {
+        if (prevLdrRef.current !== 1 && data.ldrRaw === 1) {
+          setLdrOneCount((c) => c + 1);
+        }
+        prevLdrRef.current = data.ldrRaw;
+      }
+      
+      // Handle encoder edge counting
+      if (typeof data.encoderA === 'number') {
+        if (prevEncoderARef.current !== 1 && data.encoderA === 1) {
+          encoderAOneCountRef.current = encoderAOneCountRef.current + 1;
         }
-        if (typeof data.humidity === 'number') {
-          const humidityValue = data.humidity;
-          setHumidityHistory(prev => {
-            const newHistory = [humidityValue, ...prev].slice(0, 4);
-            return newHistory;
-          });
+        prevEncoderARef.current = data.encoderA;
+        setEncoderA(data.encoderA);
+      }
+      
+      if (typeof data.encoderB === 'number') {
+        if (prevEncoderBRef.current !== 1 && data.encoderB === 1) {
+          encoderBOneCountRef.current = encoderBOneCountRef.current + 1;
         }
-      } else {
-        // Update control states if present (for control updates)
-        if (typeof data.lightState === 'boolean') setLightState(data.lightState);
-        if (typeof data.fanState === 'boolean') setFanState(data.fanState);
-        if (typeof data.motorState === 'boolean') setMotorState(data.motorState);
-        if (typeof data.rgbState === 'boolean') setRgbState(data.rgbState);
-        if (typeof data.breakCount === 'number') setBreakCount(data.breakCount);
-        if (typeof data.rgbRed === 'number') setRgbRed(data.rgbRed);
-        if (typeof data.rgbGreen === 'number') setRgbGreen(data.rgbGreen);
-        if (typeof data.rgbBlue === 'number') setRgbBlue(data.rgbBlue);
+        prevEncoderBRef.current = data.encoderB;
+        setEncoderB(data.encoderB);
       }
-    });
 
-    // Cleanup on unmount
-    return () => {
-      socketRef.current?.disconnect();
-    };
-  }, [cookies?.access_token]); // Removed fetchFromBackend dependency to prevent infinite re-renders
+      // Update history for bar charts
+      if (typeof data.temperature === 'number') {
+        const tempValue = data.temperature;
+        setTemperatureHistory(prev => {
+          const newHistory = [tempValue, ...prev].slice(0, 4);
+          return newHistory;
+        });
+      }
+      if (typeof data.humidity === 'number') {
+        const humidityValue = data.humidity;
+        setHumidityHistory(prev => {
+          const newHistory = [humidityValue, ...prev].slice(0, 4);
+          return newHistory;
+        });
+      }
+    } else {
+      // Update control states if present (for control updates)
+      if (typeof data.lightState === 'boolean') setLightState(data.lightState);
+      if (typeof data.fanState === 'boolean') setFanState(data.fanState);
+      if (typeof data.motorState === 'boolean') setMotorState(data.motorState);
+      if (typeof data.rgbState === 'boolean') setRgbState(data.rgbState);
+      if (typeof data.breakCount === 'number') setBreakCount(data.breakCount);
+      if (typeof data.rgbRed === 'number') setRgbRed(data.rgbRed);
+      if (typeof data.rgbGreen === 'number') setRgbGreen(data.rgbGreen);
+      if (typeof data.rgbBlue === 'number') setRgbBlue(data.rgbBlue);
+    }
+  });
 
   // Persist Usage counts in localStorage
   useEffect(() => {
@@ -279,16 +246,7 @@ const Sensors: React.FC = () => {
     rgbBlue?: number;
   }) => {
     try {
-      const response = await fetch(DEVICE_POST_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${cookies?.access_token || ''}`,
-        },
-        credentials: 'include',
-        body: JSON.stringify(controls), // Only send the changed fields
-      });
-      if (!response.ok) throw new Error('Failed to send control data');
+      await sendDeviceControls(controls).unwrap(); // Only send the changed fields
     } catch (err) {
       console.warn('Failed to send controls', err);
       alert('Failed to update device controls. Please try again.');
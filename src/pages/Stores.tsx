@@ -4,6 +4,9 @@ import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import { useDispatch, useSelector } from "react-redux";
 import SampleCSV from "../assets/csv/store-sample.csv";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import ImportWizard from "../components/Table/ImportWizard";
+import { storeImportConfig } from "../components/utils/importWizard";
 import {
   closeAddStoreDrawer,
   closeStoreDetailsDrawer,
@@ -12,29 +15,27 @@ import {
   openStoreDetailsDrawer,
   openUpdateStoreDrawer,
 } from "../redux/reducers/drawersSlice";
-import { useCookies } from "react-cookie";
 import { toast } from "react-toastify";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useState } from "react";
 import StoreTable from "../components/Table/StoreTable";
 import AddStore from "../components/Drawers/Store/AddStore";
 import StoreDetails from "../components/Drawers/Store/StoreDetails";
 import UpdateStore from "../components/Drawers/Store/UpdateStore";
 import {
   useDeleteStoresMutation,
+  useLazyFetchStoresQuery,
   useStoreBulKUploadMutation,
 } from "../redux/api/api";
 import { AiFillFileExcel } from "react-icons/ai";
-import { RxCross2 } from "react-icons/rx";
 import { FiSearch } from "react-icons/fi";
 import { Store } from "lucide-react";
 
 const Stores: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("store");
+  const can = useCan();
   const [isLoadingStores, setIsLoadingStores] = useState<boolean>(false);
   const [showBulkUploadMenu, setShowBulkUploadMenu] = useState<boolean>(false);
-  const [bulkUploading, setBulkUploading] = useState<boolean>(false);
-  const fileRef = useRef<HTMLInputElement | null>(null);
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [storeId, setStoreId] = useState<string | undefined>(); // Store Id to be updated or deleted
   const [stores, setStores] = useState<any>([]);
@@ -45,10 +46,10 @@ const Stores: React.FC = () => {
     isStoreDetailsDrawerOpened,
   } = useSelector((state: any) => state.drawers);
   const dispatch = useDispatch();
-  const [cookies] = useCookies();
 
   const [deleteStore] = useDeleteStoresMutation();
   const [bulkUpload] = useStoreBulKUploadMutation();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   const openAddStoreDrawerHandler = () => {
     dispatch(openAddStoreDrawer());
@@ -79,19 +80,7 @@ const Stores: React.FC = () => {
   const fetchStoresHandler = async () => {
     try {
       setIsLoadingStores(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       setStores(data.stores);
       setFilteredStores(data.stores);
     } catch (err: any) {
@@ -111,28 +100,6 @@ const Stores: React.FC = () => {
     }
   };
 
-  const bulkUploadHandler = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    const file = fileRef?.current?.files?.[0];
-    if (!file) {
-      toast.error("CSV file not selected");
-      return;
-    }
-
-    try {
-      setBulkUploading(true);
-      const formData = new FormData();
-      formData.append("excel", file);
-
-      const response = await bulkUpload(formData).unwrap();
-      toast.success(response.message);
-    } catch (err: any) {
-      toast.error(err?.data?.message || err?.message || "Something went wrong");
-    } finally {
-      setBulkUploading(false);
-    }
-  };
   useEffect(() => {
     fetchStoresHandler();
   }, []);
@@ -240,24 +207,26 @@ const Stores: React.FC = () => {
 
             {/* Action Buttons */}
             <div className="flex flex-col sm:flex-row gap-3">
-              <button
-                onClick={openAddStoreDrawerHandler}
-                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
-                style={{
-                  backgroundColor: colors.button.primary,
-                  color: colors.text.inverse,
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.backgroundColor =
-                    colors.button.primaryHover;
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.backgroundColor = colors.button.primary;
-                }}
-              >
-                <MdAdd size="20px" />
-                Add Store
-              </button>
+              {can("store", "create") && (
+                <button
+                  onClick={openAddStoreDrawerHandler}
+                  className="inline-flex items-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors"
+                  style={{
+                    backgroundColor: colors.button.primary,
+                    color: colors.text.inverse,
+                  }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor =
+                      colors.button.primaryHover;
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.button.primary;
+                  }}
+                >
+                  <MdAdd size="20px" />
+                  Add Store
+                </button>
+              )}
 
               <button
                 onClick={fetchStoresHandler}
@@ -341,88 +310,15 @@ const Stores: React.FC = () => {
           </div>
         </div>
 
-        {/* Bulk Upload Modal */}
+        {/* Import Wizard */}
         {showBulkUploadMenu && (
-          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-            <div
-              className="rounded-xl shadow-xl max-w-md w-full p-6"
-              style={{ backgroundColor: colors.background.card }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <h3
-                  className="text-lg font-semibold"
-                  style={{ color: colors.text.primary }}
-                >
-                  Bulk Upload Stores
-                </h3>
-                <button
-                  onClick={() => setShowBulkUploadMenu(false)}
-                  className="p-1 rounded-lg transition-colors"
-                  style={{ color: colors.text.secondary }}
-                  onMouseEnter={(e) => {
-                    e.currentTarget.style.backgroundColor = colors.gray[100];
-                  }}
-                  onMouseLeave={(e) => {
-                    e.currentTarget.style.backgroundColor = "transparent";
-                  }}
-                >
-                  <RxCross2 size="20px" />
-                </button>
-              </div>
-
-              <form onSubmit={bulkUploadHandler}>
-                <div className="mb-4">
-                  <label
-                    className="block text-sm font-medium mb-2"
-                    style={{ color: colors.text.primary }}
-                  >
-                    Choose File (.csv or .xlsx)
-                  </label>
-                  <input
-                    ref={fileRef}
-                    type="file"
-                    accept=".csv, .xlsx"
-                    className="w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-3 transition-colors"
-                    style={{
-                      backgroundColor: colors.input.background,
-                      borderColor: colors.input.border,
-                      color: colors.text.primary,
-                    }}
-                  />
-                </div>
-
-                <div className="flex gap-3">
-                  <button
-                    type="submit"
-                    disabled={bulkUploading}
-                    className="flex-1 inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
-                    style={{
-                      backgroundColor: colors.button.primary,
-                      color: colors.text.inverse,
-                    }}
-                  >
-                    {bulkUploading ? "Uploading..." : "Upload"}
-                    <AiFillFileExcel size="16px" />
-                  </button>
-
-                  <a href={SampleCSV} className="flex-1">
-                    <button
-                      type="button"
-                      className="w-full inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg font-medium border transition-colors"
-                      style={{
-                        borderColor: colors.border.medium,
-                        color: colors.text.primary,
-                        backgroundColor: colors.background.card,
-                      }}
-                    >
-                      Sample CSV
-                      <AiFillFileExcel size="16px" />
-                    </button>
-                  </a>
-                </div>
-              </form>
-            </div>
-          </div>
+          <ImportWizard
+            config={storeImportConfig}
+            upload={(formData) => bulkUpload(formData).unwrap()}
+            onImported={fetchStoresHandler}
+            onClose={() => setShowBulkUploadMenu(false)}
+            sampleUrl={SampleCSV}
+          />
         )}
 
         {/* Store Table */}
@@ -436,9 +332,13 @@ const Stores: React.FC = () => {
           <StoreTable
             stores={filteredStores}
             isLoadingStores={isLoadingStores}
-            deleteStoreHandler={deleteStoreHandler}
+            deleteStoreHandler={
+              can("store", "delete") ? deleteStoreHandler : undefined
+            }
             openStoreDetailsDrawerHandler={openStoreDetailsDrawerHandler}
-            openUpdateStoreDrawerHandler={openUpdateStoreDrawerHandler}
+            openUpdateStoreDrawerHandler={
+              can("store", "update") ? openUpdateStoreDrawerHandler : undefined
+            }
           />
         </div>
       </div>
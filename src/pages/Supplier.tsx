@@ -1,9 +1,372 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiSearch } from "react-icons/fi";
+import { Handshake } from "lucide-react";
+import { colors } from "../theme/colors";
+import {
+  useLazyFetchInspectionsQuery,
+  useLazyFetchPurchaseOrdersQuery,
+  useLazyFetchSuppliersQuery,
+} from "../redux/api/api";
+import SupplierDetails from "../components/Drawers/Supplier/SupplierDetails";
+import {
+  SupplierScorecard,
+  calculateSupplierScorecards,
+} from "../components/utils/suppliers";
+
+type SortKey =
+  | "name"
+  | "orders"
+  | "spend"
+  | "onTimeRate"
+  | "rejectionRate"
+  | "priceIndex"
+  | "score";
+
+const getSupplierName = (supplier: any) =>
+  supplier?.supplierName || supplier?.companyName || "N/A";
+
+const getSortValue = (scorecard: SupplierScorecard, key: SortKey) => {
+  switch (key) {
+    case "name":
+      return getSupplierName(scorecard.supplier).toLowerCase();
+    case "orders":
+      return scorecard.orders.length;
+    default:
+      return scorecard[key];
+  }
+};
+
+const getScoreColor = (score: number | null) => {
+  if (score === null) return "bg-gray-100 text-gray-600";
+  if (score >= 80) return "bg-green-100 text-green-800";
+  if (score >= 60) return "bg-yellow-100 text-yellow-800";
+  return "bg-red-100 text-red-800";
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "N/A" : `${value.toFixed(1)}%`;
+
+const Supplier: React.FC = () => {
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [searchKey, setSearchKey] = useState<string>("");
+  const [sortKey, setSortKey] = useState<SortKey>("score");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
+  const [selectedScorecard, setSelectedScorecard] =
+    useState<SupplierScorecard | null>(null);
+
+  const [fetchInspections, { data: inspectionData }] =
+    useLazyFetchInspectionsQuery();
+  const inspections: any[] = useMemo(
+    () => inspectionData?.inspections || [],
+    [inspectionData]
+  );
+  const [fetchSuppliers, { data: supplierData }] = useLazyFetchSuppliersQuery();
+  const suppliers: any[] = useMemo(
+    () => supplierData?.suppliers || [],
+    [supplierData]
+  );
+  const [fetchPurchaseOrders, { data: purchaseOrderData }] =
+    useLazyFetchPurchaseOrdersQuery();
+  const purchaseOrders: any[] = useMemo(
+    () => purchaseOrderData?.purchase_orders || [],
+    [purchaseOrderData]
+  );
+
+  const fetchSupplierDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      await Promise.all([
+        fetchSuppliers({}).unwrap(),
+        fetchPurchaseOrders({}).unwrap(),
+        // Receipt inspections feed the delivery and rejection metrics; the
+        // workspace still works without them
+        fetchInspections({}).unwrap().catch(() => null),
+      ]);
+    } catch (error: any) {
+      toast.error(error?.message || "Something went wrong");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSupplierDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const scorecards = useMemo(
+    () => calculateSupplierScorecards(suppliers, purchaseOrders, inspections),
+    [suppliers, purchaseOrders, inspections]
+  );
+
+  const sortedScorecards = useMemo(() => {
+    const searchLower = searchKey.trim().toLowerCase();
+    return scorecards
+      .filter(
+        (scorecard) =>
+          !searchLower ||
+          getSupplierName(scorecard.supplier)
+            .toLowerCase()
+            .includes(searchLower) ||
+          (scorecard.supplier?.companyName || "")
+            .toLowerCase()
+            .includes(searchLower)
+      )
+      .sort((a, b) => {
+        const aValue = getSortValue(a, sortKey);
+        const bValue = getSortValue(b, sortKey);
+        // Suppliers without data for the metric always go last
+        if (aValue === null) return 1;
+        if (bValue === null) return -1;
+        const order = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+        return sortDirection === "asc" ? order : -order;
+      });
+  }, [scorecards, searchKey, sortKey, sortDirection]);
+
+  const sortHandler = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(key);
+      // Lower is better for rejections and price, higher for the rest
+      setSortDirection(
+        key === "name" || key === "rejectionRate" || key === "priceIndex"
+          ? "asc"
+          : "desc"
+      );
+    }
+  };
+
+  const averageOf = (values: (number | null)[]) => {
+    const present = values.filter((v): v is number => v !== null);
+    return present.length
+      ? present.reduce((sum, v) => sum + v, 0) / present.length
+      : null;
+  };
+
+  const stats = [
+    { label: "Suppliers", value: suppliers.length },
+    {
+      label: "Active Suppliers",
+      value: scorecards.filter((s) => s.orders.length > 0).length,
+    },
+    {
+      label: "Avg On-Time Delivery",
+      value: formatPercent(averageOf(scorecards.map((s) => s.onTimeRate))),
+    },
+    {
+      label: "Avg Rejection Rate",
+      value: formatPercent(averageOf(scorecards.map((s) => s.rejectionRate))),
+    },
+  ];
+
+  const columns: { key: SortKey; label: string; align: string }[] = [
+    { key: "name", label: "Supplier", align: "text-left" },
+    { key: "orders", label: "POs", align: "text-right" },
+    { key: "spend", label: "Spend", align: "text-right" },
+    { key: "onTimeRate", label: "On-Time", align: "text-right" },
+    { key: "rejectionRate", label: "Rejection", align: "text-right" },
+    { key: "priceIndex", label: "Price vs Avg", align: "text-right" },
+    { key: "score", label: "Score", align: "text-right" },
+  ];
 
-const Supplier = () => {
   return (
-    <div>Supplier</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {selectedScorecard && (
+        <SupplierDetails
+          closeDrawerHandler={() => setSelectedScorecard(null)}
+          scorecard={selectedScorecard}
+          inspections={inspections}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-indigo-500 to-indigo-600 p-3 rounded-xl shadow-lg">
+                <Handshake className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Suppliers
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Supplier records, purchase history and performance
+                  scorecards
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Button
+                onClick={fetchSupplierDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-6 relative max-w-md">
+            <FiSearch
+              className="absolute left-3 top-1/2 transform -translate-y-1/2"
+              style={{ color: colors.text.secondary }}
+              size={16}
+            />
+            <input
+              className="w-full pl-10 pr-4 py-3 text-sm border rounded-lg focus:outline-none"
+              style={{
+                backgroundColor: colors.input.background,
+                borderColor: colors.input.border,
+                color: colors.text.primary,
+              }}
+              placeholder="Search suppliers..."
+              value={searchKey}
+              onChange={(e) => setSearchKey(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <table className="min-w-full text-sm">
+            <thead style={{ backgroundColor: colors.table.header }}>
+              <tr>
+                {columns.map((column) => (
+                  <th
+                    key={column.key}
+                    className={`px-4 py-3 cursor-pointer select-none ${column.align}`}
+                    onClick={() => sortHandler(column.key)}
+                  >
+                    {column.label}
+                    {sortKey === column.key &&
+                      (sortDirection === "asc" ? " ▲" : " ▼")}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedScorecards.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={columns.length}
+                    className="px-4 py-6 text-center"
+                    style={{ color: colors.text.secondary }}
+                  >
+                    {isLoading ? "Loading..." : "No suppliers found."}
+                  </td>
+                </tr>
+              )}
+              {sortedScorecards.map((scorecard) => (
+                <tr
+                  key={scorecard.supplier?.id || getSupplierName(scorecard.supplier)}
+                  className="border-t cursor-pointer hover:bg-gray-50"
+                  style={{ borderColor: colors.border.light }}
+                  onClick={() => setSelectedScorecard(scorecard)}
+                >
+                  <td className="px-4 py-3">
+                    <p className="font-medium">
+                      {getSupplierName(scorecard.supplier)}
+                    </p>
+                    {scorecard.supplier?.companyName &&
+                      scorecard.supplier.companyName !==
+                        scorecard.supplier.supplierName && (
+                        <p
+                          className="text-xs"
+                          style={{ color: colors.text.secondary }}
+                        >
+                          {scorecard.supplier.companyName}
+                        </p>
+                      )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {scorecard.orders.length}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    ₹{scorecard.spend.toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatPercent(scorecard.onTimeRate)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatPercent(scorecard.rejectionRate)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {scorecard.priceIndex === null
+                      ? "N/A"
+                      : `${scorecard.priceIndex > 1 ? "+" : ""}${(
+                          (scorecard.priceIndex - 1) *
+                          100
+                        ).toFixed(1)}%`}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <span
+                      className={`text-xs px-2 py-1 rounded-full font-semibold ${getScoreColor(
+                        scorecard.score
+                      )}`}
+                    >
+                      {scorecard.score === null
+                        ? "N/A"
+                        : scorecard.score.toFixed(0)}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Supplier
\ No newline at end of file
+export default Supplier;
@@ -30,10 +30,22 @@ import UploadInvoice from "../components/Drawers/Task/UploadInvoice";
 import Loading from "../ui/Loading";
 import EmptyData from "../ui/emptyData";
 import { colors } from "../theme/colors";
+import {
+  useLazyFetchAssignmentsQuery,
+  useUpdateAssignmentStatusMutation,
+  useUpdateSaleMutation,
+  useUploadSaleDesignMutation,
+} from "../redux/api/api";
 import { CheckSquare, Calendar, User, Package, Building } from "lucide-react";
 import { useFormik } from "formik";
+import { useNotificationLink } from "../components/utils/notifications";
+import { getSaleItems } from "../components/utils/salesOrders";
 const Task = () => {
   const [cookies] = useCookies();
+  const [fetchAssignments] = useLazyFetchAssignmentsQuery();
+  const [updateAssignmentStatus] = useUpdateAssignmentStatusMutation();
+  const [updateSale] = useUpdateSaleMutation();
+  const [uploadSaleDesign] = useUploadSaleDesignMutation();
   const [tasks, setTasks] = useState([]);
   const [filteredTasks, setFilteredTasks] = useState([]);
   const [page, setPage] = useState(1);
@@ -63,18 +75,11 @@ const Task = () => {
   const fetchTasks = async () => {
     try {
       setIsLoading(true);
-      const response = await axios.get(
-        `${process.env.REACT_APP_BACKEND_URL}assined/get-assined?limit=${limit}&page=${page}`,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      const response = await fetchAssignments({ limit, page }).unwrap();
 
-      const tasks = response.data.data.map((task: any) => {
+      const tasks = response.data.map((task: any) => {
         const sale = task?.sale_id?.length ? task.sale_id[0] : null;
-        const product = sale?.product_id?.length ? sale.product_id[0] : null;
+        const lines = getSaleItems(sale);
         const assign = task?.assined_by?.length ? task.assined_by[0] : null;
         const customer = task?.sale_id[0]?.party_id
           ? task?.sale_id[0]?.party_id[0]
@@ -86,9 +91,14 @@ const Task = () => {
         return {
           id: task?._id,
           date: new Date(task.createdAt).toLocaleDateString(),
-          productName: product?.name || "No product name",
-          productQuantity: sale?.product_qty || 0,
-          productPrice: `${sale?.price || 0} /-`,
+          productName:
+            lines.map((line) => line.name || "N/A").join(", ") ||
+            "No product name",
+          productQuantity:
+            lines.map((line) => line.quantity).join(", ") || 0,
+          productPrice: `${
+            lines.map((line) => line.price).join(", ") || 0
+          } /-`,
           assignedBy: assign?.first_name || "Unknown",
           role: assign?.role || "No role",
           design_status: task?.isCompleted || "N/A",
@@ -119,7 +129,7 @@ const Task = () => {
       });
       setTasks(tasks);
       setFilteredTasks(tasks);
-      let totalData = response?.data?.totalData || 0;
+      let totalData = response?.totalData || 0;
       let totalPages = Math.ceil(totalData / limit);
       setTotalPage(totalPages);
 
@@ -136,16 +146,11 @@ const Task = () => {
     if (isSubmitting) return;
     setIsSubmitting(true);
     try {
-      const response = await axios.patch(
-        `${process.env.REACT_APP_BACKEND_URL}assined/update-status/${id}`,
-        { isCompleted: "UnderProcessing" },
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      toast.success(response.data.message);
+      const response = await updateAssignmentStatus({
+        _id: id,
+        isCompleted: "UnderProcessing",
+      }).unwrap();
+      toast.success(response.message);
       fetchTasks();
 
       if (role?.toLowerCase() === "designer") {
@@ -156,7 +161,7 @@ const Task = () => {
 
     } catch (error) {
       console.log(error);
-      toast.error("Something went wrong");
+      toast.error(error?.message || "Something went wrong");
     } finally {
       setIsSubmitting(false);
     }
@@ -183,22 +188,17 @@ const Task = () => {
 
   const handleDone = async (id) => {
     try {
-      const response = await axios.patch(
-        `${process.env.REACT_APP_BACKEND_URL}assined/update-status/${id}`,
-        { isCompleted: "Completed" },
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      const response = await updateAssignmentStatus({
+        _id: id,
+        isCompleted: "Completed",
+      }).unwrap();
 
-      toast.success(response.data.message);
+      toast.success(response.message);
       fetchTasks();
     } catch (error) {
       console.log(error);
 
-      toast.error(error);
+      toast.error(error?.message || "Something went wrong");
     }
   };
 
@@ -249,15 +249,7 @@ const Task = () => {
     };
     onViewHalfPaymentssClose();
     try {
-      const res = await axios.put(
-        `${process.env.REACT_APP_BACKEND_URL}purchase/update/${halfAmountId.sale_id}`,
-        data,
-        {
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
+      await updateSale({ _id: halfAmountId.sale_id, ...data }).unwrap();
       toast.success("Half amount Verify");
     } catch (error) {
       console.log(error);
@@ -347,15 +339,10 @@ const Task = () => {
         };
 
 
-        await axios.patch(
-          `${process.env.REACT_APP_BACKEND_URL}sale/upload-image/${selectedTask?.sale_id}`,
-          payload,
-          {
-            headers: {
-              Authorization: `Bearer ${cookies?.access_token}`,
-            },
-          }
-        );
+        await uploadSaleDesign({
+          _id: selectedTask?.sale_id,
+          ...payload,
+        }).unwrap();
 
 
         toast.success("Design uploaded successfully");
@@ -366,7 +353,7 @@ const Task = () => {
         localStorage.removeItem("activeTaskId");
       } catch (err) {
         console.error(err);
-        toast.error("Something went wrong.");
+        toast.error(err?.message || "Something went wrong.");
       }
     },
   });
@@ -383,6 +370,16 @@ const Task = () => {
     fetchTasks();
   }, [cookies?.access_token, page, limit]);
 
+  useNotificationLink(
+    "id",
+    (id) => {
+      const task = tasks.find((t) => t.id === id);
+      if (!task) return false;
+      handleOpenUploadModal(task);
+    },
+    tasks
+  );
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-gray-50 p-6">
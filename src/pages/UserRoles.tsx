@@ -13,17 +13,23 @@ import {
   openUpdateRoleDrawer,
 } from "../redux/reducers/drawersSlice";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import UserRoleTable from "../components/Table/UserRoleTable";
 import AddUserRole from "../components/Drawers/User Role/AddUserRole";
 import UserRoleDetails from "../components/Drawers/User Role/UserRoleDetails";
 import UpdateUserRole from "../components/Drawers/User Role/UpdateUserRole";
 import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeleteRoleMutation,
+  useLazyFetchRolesQuery,
+} from "../redux/api/api";
 
 const UserRole: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("user role");
-  const [cookies] = useCookies();
+  const can = useCan();
+  const [fetchRoles] = useLazyFetchRolesQuery();
+  const [deleteRole] = useDeleteRoleMutation();
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [roles, setRoles] = useState<any[]>([]);
   const [filteredRoles, setFilteredRoles] = useState<any[]>([]);
@@ -61,11 +67,7 @@ const UserRole: React.FC = () => {
   const fetchRolesHandler = async () => {
     try {
       setIsLoadingRoles(true);
-      const response = await fetch(process.env.REACT_APP_BACKEND_URL + "role/");
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchRoles({}).unwrap();
       setRoles(data.roles);
       setFilteredRoles(data.roles);
     } catch (error: any) {
@@ -77,23 +79,7 @@ const UserRole: React.FC = () => {
 
   const deleteRoleHandler = async (id: string) => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "role/",
-        {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            _id: id,
-          }),
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await deleteRole({ _id: id }).unwrap();
       toast.success(data.message);
       fetchRolesHandler();
     } catch (error: any) {
@@ -103,6 +89,7 @@ const UserRole: React.FC = () => {
 
   useEffect(() => {
     fetchRolesHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   useEffect(() => {
@@ -196,22 +183,24 @@ const UserRole: React.FC = () => {
 
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-3">
-            <button
-              onClick={openAddRoleDrawerHandler}
-              style={{
-                backgroundColor: colors.primary[600],
-              }}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.backgroundColor = colors.primary[700];
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.backgroundColor = colors.primary[600];
-              }}
-              className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
-            >
-              <FiPlus size={16} />
-              Add New Role
-            </button>
+            {can("employee", "create") && (
+              <button
+                onClick={openAddRoleDrawerHandler}
+                style={{
+                  backgroundColor: colors.primary[600],
+                }}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[700];
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = colors.primary[600];
+                }}
+                className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2"
+              >
+                <FiPlus size={16} />
+                Add New Role
+              </button>
+            )}
             <Button
               onClick={fetchRolesHandler}
               leftIcon={<MdOutlineRefresh />}
@@ -248,8 +237,12 @@ const UserRole: React.FC = () => {
         <UserRoleTable
           roles={filteredRoles}
           isLoadingRoles={isLoadingRoles}
-          deleteRoleHandler={deleteRoleHandler}
-          openUpdateRoleDrawerHandler={openUpdateRoleDrawerHandler}
+          deleteRoleHandler={
+            can("employee", "delete") ? deleteRoleHandler : undefined
+          }
+          openUpdateRoleDrawerHandler={
+            can("employee", "update") ? openUpdateRoleDrawerHandler : undefined
+          }
           openRoleDetailsDrawerHandler={openRoleDetailsDrawerHandler}
         />
       </div>
@@ -33,14 +33,17 @@ import {
 import { useSelector } from "react-redux";
 import { MdEmail, MdPhone, MdPerson, MdVerifiedUser, MdLocationOn, MdCellTower, MdApartment, MdBadge } from "react-icons/md";
 import { colors } from "../theme/colors";
-import axios from "axios";
-import { useCookies } from "react-cookie";
+import {
+  useLazyEmployeeDetailsQuery,
+  useUpdateProfileMutation,
+} from "../redux/api/api";
 
 
 
 const UserProfile: React.FC = () => {
   const data = useSelector((state: any) => state?.auth);
-  const [cookies] = useCookies();
+  const [fetchEmployeeDetails] = useLazyEmployeeDetailsQuery();
+  const [updateProfile] = useUpdateProfileMutation();
 
 
   // Local state for editable fields
@@ -61,43 +64,28 @@ const UserProfile: React.FC = () => {
 
   const handleUpdate = async () => {
     try {
-      const baseURL = process.env.REACT_APP_BACKEND_URL || "";
-      const res = await axios.patch(
-        `${baseURL}auth/user/profile`,
-        {
-          first_name: first_name,
-          last_name: last_name,
-          phone,
-          address,
-          cpny_name,
-          GSTIN,
-          Bank_Name: bankName,
-          Account_No: accountNo,
-          IFSC_Code: ifscCode,
-
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      if (res.data.success) {
-        toast({ title: "Profile updated successfully!", status: "success", duration: 3000, isClosable: true });
-        await fetchUserProfile();
-      } else {
-        toast({
-          title: res.data.message || "Failed to update profile",
-          status: "error",
-          duration: 3000,
-          isClosable: true,
-        });
-      }
+      await updateProfile({
+        first_name: first_name,
+        last_name: last_name,
+        phone,
+        address,
+        cpny_name,
+        GSTIN,
+        Bank_Name: bankName,
+        Account_No: accountNo,
+        IFSC_Code: ifscCode,
+      }).unwrap();
+      toast({
+        title: "Profile updated successfully!",
+        status: "success",
+        duration: 3000,
+        isClosable: true,
+      });
+      await fetchUserProfile();
     } catch (error: any) {
       console.error("Update profile error:", error);
       toast({
-        title: error?.response?.data?.message || "Something went wrong while updating.",
+        title: error?.data?.message || "Something went wrong while updating.",
         status: "error",
         duration: 3000,
         isClosable: true,
@@ -106,14 +94,8 @@ const UserProfile: React.FC = () => {
   };
   const fetchUserProfile = async () => {
     try {
-      const baseURL = process.env.REACT_APP_BACKEND_URL || "";
-      const res = await axios.get(`${baseURL}auth/user`, {
-        headers: {
-          Authorization: `Bearer ${cookies?.access_token}`,
-        },
-      });
-
-      const user = res.data.user; // adjust if structure is different
+      const res = await fetchEmployeeDetails({}).unwrap();
+      const user = res.user;
       setPhone(user.phone || "");
       setAddress(user.address || "");
       setFirstName(user.first_name || "");
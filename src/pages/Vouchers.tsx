@@ -1,9 +1,601 @@
-import React from 'react'
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-toastify";
+import { Button, Input, Select } from "@chakra-ui/react";
+import { MdOutlineRefresh } from "react-icons/md";
+import { FiPaperclip, FiPlus } from "react-icons/fi";
+import { BookOpen } from "lucide-react";
+import { colors } from "../theme/colors";
+import { useCan } from "../components/utils/permissions";
+import {
+  useDeleteVoucherMutation,
+  useLazyFetchLedgersQuery,
+  useLazyFetchVouchersQuery,
+} from "../redux/api/api";
+import AddVoucher from "../components/Drawers/Voucher/AddVoucher";
+import AddLedger from "../components/Drawers/Voucher/AddLedger";
+import {
+  getLedgerName,
+  getTrialBalance,
+  getVoucherTotals,
+  toDateKey,
+  voucherTypes,
+} from "../components/utils/vouchers";
+
+type Tab = "daybook" | "trial-balance" | "ledgers";
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString("en-IN", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const Vouchers: React.FC = () => {
+  const can = useCan();
+  const today = toDateKey(new Date());
+  const [activeTab, setActiveTab] = useState<Tab>("daybook");
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [fromDate, setFromDate] = useState<string>(today);
+  const [toDate, setToDate] = useState<string>(today);
+  const [typeFilter, setTypeFilter] = useState<string>("");
+  const [asOnDate, setAsOnDate] = useState<string>(today);
+
+  const [isVoucherDrawerOpened, setIsVoucherDrawerOpened] = useState(false);
+  const [editVoucher, setEditVoucher] = useState<any | null>(null);
+  const [isLedgerDrawerOpened, setIsLedgerDrawerOpened] = useState(false);
+  const [editLedger, setEditLedger] = useState<any | null>(null);
+
+  const [fetchVouchers, { data: voucherData }] = useLazyFetchVouchersQuery();
+  const [fetchLedgers, { data: ledgerData }] = useLazyFetchLedgersQuery();
+  const [deleteVoucher] = useDeleteVoucherMutation();
+  const vouchers: any[] = useMemo(
+    () => voucherData?.vouchers || [],
+    [voucherData]
+  );
+  const ledgers: any[] = useMemo(
+    () => ledgerData?.ledgers || [],
+    [ledgerData]
+  );
+
+  const fetchVoucherDataHandler = async () => {
+    try {
+      setIsLoading(true);
+      await Promise.all([
+        fetchVouchers({}).unwrap(),
+        fetchLedgers({}).unwrap(),
+      ]);
+    } catch (error: any) {
+      toast.error(
+        error?.data?.message || error?.message || "Something went wrong"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchVoucherDataHandler();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const dayBook = useMemo(
+    () =>
+      vouchers
+        .filter((voucher: any) => {
+          const day = toDateKey(voucher.date);
+          return (
+            day >= fromDate &&
+            day <= toDate &&
+            (!typeFilter || voucher.voucher_type === typeFilter)
+          );
+        })
+        .sort(
+          (a: any, b: any) =>
+            new Date(a.date).getTime() - new Date(b.date).getTime()
+        ),
+    [vouchers, fromDate, toDate, typeFilter]
+  );
+  const dayBookTotal = dayBook.reduce(
+    (sum: number, voucher: any) =>
+      sum + getVoucherTotals(voucher.entries || []).debit,
+    0
+  );
+
+  const trialBalance = useMemo(
+    () => getTrialBalance(vouchers, ledgers, asOnDate),
+    [vouchers, ledgers, asOnDate]
+  );
+  const trialDebit = trialBalance.reduce((sum, row) => sum + row.debit, 0);
+  const trialCredit = trialBalance.reduce((sum, row) => sum + row.credit, 0);
+  const trialDifference = Math.round((trialDebit - trialCredit) * 100) / 100;
+
+  const deleteVoucherHandler = async (id: string) => {
+    try {
+      const response = await deleteVoucher(id).unwrap();
+      toast.success(response?.message || "Voucher deleted");
+    } catch (error: any) {
+      toast.error(error?.data?.message || "Something went wrong");
+    }
+  };
+
+  const stats = [
+    {
+      label: "Vouchers Today",
+      value: vouchers.filter((v: any) => toDateKey(v.date) === today).length,
+    },
+    {
+      label: "Posted Today",
+      value: `₹${formatAmount(
+        vouchers
+          .filter((v: any) => toDateKey(v.date) === today)
+          .reduce(
+            (sum: number, v: any) =>
+              sum + getVoucherTotals(v.entries || []).debit,
+            0
+          )
+      )}`,
+    },
+    { label: "Ledgers", value: ledgers.length },
+    {
+      label: "Trial Balance",
+      value: trialDifference === 0 ? "Balanced" : "Out of balance",
+    },
+  ];
+
+  const tabs: { key: Tab; label: string }[] = [
+    { key: "daybook", label: "Day Book" },
+    { key: "trial-balance", label: "Trial Balance" },
+    { key: "ledgers", label: "Ledgers" },
+  ];
 
-const Vouchers = () => {
   return (
-    <div>Vouchers</div>
-  )
-}
+    <div
+      className="min-h-screen"
+      style={{ backgroundColor: colors.background.page }}
+    >
+      {isVoucherDrawerOpened && (
+        <AddVoucher
+          closeDrawerHandler={() => {
+            setIsVoucherDrawerOpened(false);
+            setEditVoucher(null);
+          }}
+          ledgers={ledgers}
+          editVoucher={editVoucher}
+        />
+      )}
+      {isLedgerDrawerOpened && (
+        <AddLedger
+          closeDrawerHandler={() => {
+            setIsLedgerDrawerOpened(false);
+            setEditLedger(null);
+          }}
+          editLedger={editLedger}
+        />
+      )}
+
+      <div className="p-2 lg:p-3">
+        {/* Header Section */}
+        <div
+          className="rounded-xl shadow-sm border border-gray-100 p-6 mb-6"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="bg-gradient-to-r from-emerald-500 to-emerald-600 p-3 rounded-xl shadow-lg">
+                <BookOpen className="text-white" size={24} />
+              </div>
+              <div>
+                <h1
+                  className="text-2xl lg:text-3xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  Vouchers
+                </h1>
+                <p
+                  className="text-sm mt-1"
+                  style={{ color: colors.text.secondary }}
+                >
+                  Journal, receipt, payment and contra entries with day book
+                  and trial balance
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-col sm:flex-row gap-3">
+              {can("accounts", "create") && (
+                <button
+                  onClick={() =>
+                    activeTab === "ledgers"
+                      ? setIsLedgerDrawerOpened(true)
+                      : setIsVoucherDrawerOpened(true)
+                  }
+                  style={{ backgroundColor: colors.primary[600] }}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[700];
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.backgroundColor = colors.primary[600];
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 text-white text-sm font-medium rounded-lg transition-all duration-200 hover:shadow-lg"
+                >
+                  <FiPlus size={16} />
+                  {activeTab === "ledgers" ? "Add Ledger" : "New Voucher"}
+                </button>
+              )}
+              <Button
+                onClick={fetchVoucherDataHandler}
+                leftIcon={<MdOutlineRefresh />}
+                variant="outline"
+                colorScheme="gray"
+                size="md"
+                isLoading={isLoading}
+              >
+                Refresh
+              </Button>
+            </div>
+          </div>
+
+          <div className="mt-6 grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {stats.map((stat) => (
+              <div
+                key={stat.label}
+                className="rounded-lg border p-4"
+                style={{ borderColor: colors.border.light }}
+              >
+                <p className="text-sm" style={{ color: colors.text.secondary }}>
+                  {stat.label}
+                </p>
+                <p
+                  className="text-2xl font-bold"
+                  style={{ color: colors.text.primary }}
+                >
+                  {stat.value}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Toggle Buttons */}
+          <div className="mt-6 flex gap-3 flex-wrap items-center">
+            {tabs.map((tab) => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className="px-4 py-2 text-sm font-medium rounded-lg border transition-all"
+                style={{
+                  backgroundColor:
+                    activeTab === tab.key
+                      ? colors.primary[50]
+                      : colors.background.card,
+                  borderColor:
+                    activeTab === tab.key
+                      ? colors.primary[300]
+                      : colors.border.medium,
+                  color:
+                    activeTab === tab.key
+                      ? colors.primary[700]
+                      : colors.text.primary,
+                }}
+              >
+                {tab.label}
+              </button>
+            ))}
+            {activeTab === "daybook" && (
+              <div className="flex gap-2 items-center flex-wrap">
+                <Input
+                  size="sm"
+                  type="date"
+                  width="auto"
+                  value={fromDate}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <Input
+                  size="sm"
+                  type="date"
+                  width="auto"
+                  value={toDate}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+                <Select
+                  size="sm"
+                  width="auto"
+                  value={typeFilter}
+                  onChange={(e) => setTypeFilter(e.target.value)}
+                  placeholder="All types"
+                >
+                  {voucherTypes.map((type) => (
+                    <option key={type} value={type}>
+                      {type}
+                    </option>
+                  ))}
+                </Select>
+              </div>
+            )}
+            {activeTab === "trial-balance" && (
+              <div className="flex gap-2 items-center">
+                <span className="text-sm text-gray-500">As on</span>
+                <Input
+                  size="sm"
+                  type="date"
+                  width="auto"
+                  value={asOnDate}
+                  onChange={(e) => setAsOnDate(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div
+          className="rounded-xl shadow-sm border overflow-x-auto"
+          style={{
+            backgroundColor: colors.background.card,
+            borderColor: colors.border.light,
+          }}
+        >
+          {activeTab === "daybook" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Date</th>
+                  <th className="px-4 py-3 text-left">Voucher No</th>
+                  <th className="px-4 py-3 text-left">Type</th>
+                  <th className="px-4 py-3 text-left">Particulars</th>
+                  <th className="px-4 py-3 text-right">Debit</th>
+                  <th className="px-4 py-3 text-right">Credit</th>
+                  <th className="px-4 py-3 text-left">Narration</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dayBook.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={8}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      {isLoading
+                        ? "Loading..."
+                        : "No vouchers in the selected period."}
+                    </td>
+                  </tr>
+                )}
+                {dayBook.map((voucher: any) => (
+                  <tr
+                    key={voucher._id}
+                    className="border-t align-top"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3">
+                      {new Date(voucher.date).toLocaleDateString()}
+                    </td>
+                    <td className="px-4 py-3 font-medium">
+                      {voucher.voucher_no || "-"}
+                      {voucher.source?.type && (
+                        <span className="block text-xs text-gray-500">
+                          Auto from {voucher.source.type}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{voucher.voucher_type}</td>
+                    <td className="px-4 py-3">
+                      {(voucher.entries || []).map(
+                        (entry: any, index: number) => (
+                          <p
+                            key={index}
+                            className={+entry.credit > 0 ? "pl-4" : ""}
+                          >
+                            {+entry.credit > 0 ? "To " : ""}
+                            {getLedgerName(entry)}
+                          </p>
+                        )
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {(voucher.entries || []).map(
+                        (entry: any, index: number) => (
+                          <p key={index}>
+                            {+entry.debit > 0
+                              ? formatAmount(+entry.debit)
+                              : "\u00a0"}
+                          </p>
+                        )
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {(voucher.entries || []).map(
+                        (entry: any, index: number) => (
+                          <p key={index}>
+                            {+entry.credit > 0
+                              ? formatAmount(+entry.credit)
+                              : "\u00a0"}
+                          </p>
+                        )
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {voucher.narration || "-"}
+                      {voucher.attachments?.length > 0 && (
+                        <span className="flex items-center gap-1 text-xs mt-1">
+                          <FiPaperclip />
+                          {voucher.attachments.length}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex gap-2">
+                        {can("accounts", "update") && (
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            onClick={() => {
+                              setEditVoucher(voucher);
+                              setIsVoucherDrawerOpened(true);
+                            }}
+                          >
+                            Edit
+                          </Button>
+                        )}
+                        {can("accounts", "delete") && (
+                          <Button
+                            size="xs"
+                            variant="outline"
+                            colorScheme="red"
+                            onClick={() => deleteVoucherHandler(voucher._id)}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+                {dayBook.length > 0 && (
+                  <tr
+                    className="border-t font-semibold"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3" colSpan={4}>
+                      Total of {dayBook.length} vouchers
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatAmount(dayBookTotal)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {formatAmount(dayBookTotal)}
+                    </td>
+                    <td colSpan={2}></td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "trial-balance" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Group</th>
+                  <th className="px-4 py-3 text-left">Ledger</th>
+                  <th className="px-4 py-3 text-right">Debit</th>
+                  <th className="px-4 py-3 text-right">Credit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trialBalance.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No balances as on this date.
+                    </td>
+                  </tr>
+                )}
+                {trialBalance.map((row) => (
+                  <tr
+                    key={row.ledger_name}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 text-gray-600">{row.group}</td>
+                    <td className="px-4 py-3 font-medium">
+                      {row.ledger_name}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {row.debit ? formatAmount(row.debit) : ""}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {row.credit ? formatAmount(row.credit) : ""}
+                    </td>
+                  </tr>
+                ))}
+                <tr
+                  className="border-t font-semibold"
+                  style={{ borderColor: colors.border.light }}
+                >
+                  <td className="px-4 py-3" colSpan={2}>
+                    Total
+                    {trialDifference !== 0 && (
+                      <span className="ml-2 text-xs text-red-600">
+                        Difference in opening balances{" "}
+                        {formatAmount(Math.abs(trialDifference))}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatAmount(trialDebit)}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {formatAmount(trialCredit)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {activeTab === "ledgers" && (
+            <table className="min-w-full text-sm">
+              <thead style={{ backgroundColor: colors.table.header }}>
+                <tr>
+                  <th className="px-4 py-3 text-left">Ledger</th>
+                  <th className="px-4 py-3 text-left">Group</th>
+                  <th className="px-4 py-3 text-right">Opening Balance</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledgers.length === 0 && (
+                  <tr>
+                    <td
+                      colSpan={4}
+                      className="px-4 py-6 text-center"
+                      style={{ color: colors.text.secondary }}
+                    >
+                      No ledgers yet.
+                    </td>
+                  </tr>
+                )}
+                {ledgers.map((ledger: any) => (
+                  <tr
+                    key={ledger._id}
+                    className="border-t"
+                    style={{ borderColor: colors.border.light }}
+                  >
+                    <td className="px-4 py-3 font-medium">{ledger.name}</td>
+                    <td className="px-4 py-3">{ledger.group}</td>
+                    <td className="px-4 py-3 text-right">
+                      {formatAmount(+ledger.opening_balance || 0)}{" "}
+                      {ledger.opening_type || "Dr"}
+                    </td>
+                    <td className="px-4 py-3">
+                      {can("accounts", "update") && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          onClick={() => {
+                            setEditLedger(ledger);
+                            setIsLedgerDrawerOpened(true);
+                          }}
+                        >
+                          Edit
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
 
-export default Vouchers
\ No newline at end of file
+export default Vouchers;
@@ -3,10 +3,11 @@ import { MdOutlineRefresh, MdAdd } from "react-icons/md";
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   useDeleteProductMutation,
+  useLazyFetchStoresQuery,
+  useLazyFetchWipProductsQuery,
   useProductBulKUploadMutation,
 } from "../redux/api/api";
 import { toast } from "react-toastify";
-import { useCookies } from "react-cookie";
 import { useDispatch, useSelector } from "react-redux";
 import {
   closeAddProductDrawer,
@@ -27,8 +28,7 @@ import { PackageSearch } from "lucide-react";
 const WIPProducts: React.FC = () => {
   const { isSuper, allowedroutes } = useSelector((state: any) => state.auth);
   const isAllowed = isSuper || allowedroutes.includes("inventory");
-  const [cookies] = useCookies();
-  const [data, setData] = useState([]);
+  const [data, setData] = useState<any[]>([]);
   const [productId, setProductId] = useState<string | undefined>(); // Product Id to be updated or deleted
   const [searchKey, setSearchKey] = useState<string | undefined>();
   const [filteredData, setFilteredData] = useState<any>([]);
@@ -57,6 +57,8 @@ const WIPProducts: React.FC = () => {
   const dispatch = useDispatch();
 
   const [deleteProduct] = useDeleteProductMutation();
+  const [fetchWipProducts] = useLazyFetchWipProductsQuery();
+  const [fetchStores] = useLazyFetchStoresQuery();
 
   const openAddProductDrawerHandler = () => {
     dispatch(openAddProductDrawer());
@@ -99,19 +101,7 @@ const WIPProducts: React.FC = () => {
   const fetchProductsHandler = async () => {
     try {
       setIsLoadingProducts(true);
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "product/wip",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const results = await response.json();
-      if (!results.success) {
-        throw new Error(results?.message);
-      }
+      const results = await fetchWipProducts({}).unwrap();
       setData(results.products);
       setFilteredData(results.products);
     } catch (error: any) {
@@ -123,19 +113,7 @@ const WIPProducts: React.FC = () => {
 
   const fetchAllStores = async () => {
     try {
-      const response = await fetch(
-        process.env.REACT_APP_BACKEND_URL + "store/all",
-        {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${cookies?.access_token}`,
-          },
-        }
-      );
-      const data = await response.json();
-      if (!data.success) {
-        throw new Error(data.message);
-      }
+      const data = await fetchStores({}).unwrap();
       let modifiedStores = [{ value: "", label: "All" }];
       modifiedStores.push(
         ...data.stores.map((store: any) => ({
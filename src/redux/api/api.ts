@@ -1,25 +1,201 @@
-import { createApi, fetchBaseQuery } from "@reduxjs/toolkit/query/react";
+import {
+  BaseQueryFn,
+  FetchArgs,
+  createApi,
+  fetchBaseQuery,
+} from "@reduxjs/toolkit/query/react";
 import { parseCookies } from "nookies";
+import {
+  Agent,
+  AgentResponse,
+  AgentsResponse,
+  ApiError,
+  ApiKey,
+  ApiKeyResponse,
+  ApiKeysResponse,
+  ApiResponse,
+  Assignment,
+  AssignmentsResponse,
+  AuditEventsResponse,
+  AutoBomArgs,
+  Bom,
+  BomRawMaterial,
+  BomResponse,
+  BomsResponse,
+  ChartArgs,
+  ChartResponse,
+  Connector,
+  ConnectorsResponse,
+  CreateProcessArgs,
+  DashboardResponse,
+  DeviceDataResponse,
+  Dispatch,
+  DispatchDocument,
+  DispatchesResponse,
+  DispatchResponse,
+  Downtime,
+  DowntimesResponse,
+  ExportJobArgs,
+  ExportJobResponse,
+  FileDownload,
+  GlobalSearchArgs,
+  GoodsReceipt,
+  GoodsReceiptsResponse,
+  Inspection,
+  InspectionPlan,
+  InspectionPlansResponse,
+  InspectionsResponse,
+  InventoryShortagesResponse,
+  Invoice,
+  InvoiceResponse,
+  InvoicesResponse,
+  Ledger,
+  LedgersResponse,
+  ListArgs,
+  LoginArgs,
+  LoginResponse,
+  MaintenancePlan,
+  MaintenancePlansResponse,
+  MarkPackagesDispatchedArgs,
+  Ncr,
+  NcrsResponse,
+  NoArgs,
+  NotificationPreferences,
+  NotificationPreferencesResponse,
+  NotificationsResponse,
+  OtpArgs,
+  Package,
+  PackagesResponse,
+  PaginationArgs,
+  PartiesResponse,
+  Party,
+  PartyResponse,
+  Payment,
+  PaymentResponse,
+  PaymentsResponse,
+  PlanResponse,
+  PlansResponse,
+  ProcessesResponse,
+  ProcessMasterResponse,
+  ProcessResponse,
+  Product,
+  ProductionPlan,
+  ProductionProcess,
+  ProductResponse,
+  ProductsResponse,
+  ProformaInvoice,
+  ProformaInvoiceResponse,
+  ProformaInvoicesResponse,
+  PurchaseOrder,
+  PurchaseOrderResponse,
+  PurchaseOrdersResponse,
+  RawMaterialsResponse,
+  RecordHistoryArgs,
+  RegisterArgs,
+  Requisition,
+  RequisitionsResponse,
+  ResetPasswordArgs,
+  Resource,
+  ResourcesResponse,
+  Role,
+  RoleResponse,
+  RolesResponse,
+  Sale,
+  SaleResponse,
+  SalesOrderStatus,
+  SalesResponse,
+  ScheduleProcessArgs,
+  ScrapsResponse,
+  SearchResponse,
+  StockUpdateResponse,
+  Store,
+  StoreResponse,
+  StoresResponse,
+  Supplier,
+  SuppliersResponse,
+  TableView,
+  TableViewResponse,
+  TableViewsResponse,
+  UnapprovedResponse,
+  UpdateArgs,
+  User,
+  UserResponse,
+  UsersResponse,
+  Voucher,
+  VouchersResponse,
+  Webhook,
+  WebhookDeliveriesResponse,
+  WebhooksResponse,
+  WipProductsResponse,
+  WorkOrder,
+  WorkOrdersResponse,
+} from "./types";
 
-const api = createApi({
-  reducerPath: "api",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL,
+// Every slice goes through this: it attaches the session token and turns
+// both HTTP failures and `{ success: false }` bodies into an error carrying
+// a displayable `message` (also kept on `data.message`)
+const createBaseQuery = (
+  path = ""
+): BaseQueryFn<string | FetchArgs, unknown, ApiError> => {
+  const rawBaseQuery = fetchBaseQuery({
+    baseUrl: process.env.REACT_APP_BACKEND_URL + path,
     mode: "cors",
     prepareHeaders: (headers) => {
       const cookies = parseCookies();
       const token = cookies?.access_token;
-
       if (token) {
         headers.set("Authorization", `Bearer ${token}`);
       }
       return headers;
     },
-  }),
+  });
+
+  return async (args, api, extraOptions) => {
+    const result = await rawBaseQuery(args, api, extraOptions);
+
+    if (result.error) {
+      const data: any =
+        typeof result.error.data === "object" && result.error.data
+          ? result.error.data
+          : {};
+      const message =
+        data.message ||
+        ("error" in result.error ? result.error.error : undefined) ||
+        "Something went wrong";
+      return {
+        error: {
+          status: result.error.status,
+          message,
+          data: { ...data, message },
+        },
+        meta: result.meta,
+      };
+    }
+
+    const body: any = result.data;
+    if (body && typeof body === "object" && body.success === false) {
+      const message = body.message || "Something went wrong";
+      return {
+        error: {
+          status: result.meta?.response?.status ?? "CUSTOM_ERROR",
+          message,
+          data: { ...body, message },
+        },
+        meta: result.meta,
+      };
+    }
+
+    return result;
+  };
+};
+
+const api = createApi({
+  reducerPath: "api",
+  baseQuery: createBaseQuery(),
   tagTypes: ["Auth"],
 
   endpoints: (builder) => ({
-    login: builder.mutation({
+    login: builder.mutation<LoginResponse, LoginArgs>({
       query: (data) => ({
         url: "auth/login",
         method: "POST",
@@ -27,10 +203,10 @@ const api = createApi({
       }),
       invalidatesTags: ["Auth"],
     }),
-    loginWithToken: builder.query({
+    loginWithToken: builder.query<LoginResponse, NoArgs>({
       query: () => "auth/login",
     }),
-    register: builder.mutation({
+    register: builder.mutation<ApiResponse, RegisterArgs>({
       query: (data) => ({
         url: "auth/",
         method: "POST",
@@ -38,7 +214,7 @@ const api = createApi({
       }),
       invalidatesTags: ["Auth"],
     }),
-    verifyUser: builder.mutation({
+    verifyUser: builder.mutation<ApiResponse, OtpArgs>({
       query: (data) => ({
         url: "auth/verify",
         method: "POST",
@@ -46,7 +222,7 @@ const api = createApi({
       }),
       invalidatesTags: ["Auth"],
     }),
-    forgetPassword: builder.mutation({
+    forgetPassword: builder.mutation<ApiResponse, { email?: string }>({
       query: (data) => ({
         url: "auth/reset-password-request",
         method: "POST",
@@ -54,7 +230,7 @@ const api = createApi({
       }),
       invalidatesTags: ["Auth"],
     }),
-    resetPassword: builder.mutation({
+    resetPassword: builder.mutation<ApiResponse, ResetPasswordArgs>({
       query: (data) => ({
         url: "auth/reset-password",
         method: "POST",
@@ -62,7 +238,7 @@ const api = createApi({
       }),
       invalidatesTags: ["Auth"],
     }),
-    resendOTP: builder.mutation({
+    resendOTP: builder.mutation<ApiResponse, { email?: string }>({
       query: (data) => ({
         url: "auth/resend-otp",
         method: "POST",
@@ -73,30 +249,34 @@ const api = createApi({
   }),
 });
 
+// Reads an Excel or other file response into an object URL, keeping the
+// name the backend gave it
+const fileResponseHandler = async (response: Response) => {
+  if (!response.ok) return response.json();
+  const match = response.headers
+    .get("content-disposition")
+    ?.match(/filename="(.+)"/);
+  return {
+    url: window.URL.createObjectURL(await response.blob()),
+    filename: match?.[1],
+  };
+};
+
 const productApi = createApi({
   reducerPath: "productApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "product",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("product"),
   tagTypes: ["Product"],
 
   endpoints: (builder) => ({
-    fetchProducts: builder.query({
-      query: () => "/all",
+    fetchProducts: builder.query<ProductsResponse, ListArgs | NoArgs>({
+      query: (params) => ({ url: "/all", params: params || {} }),
+      providesTags: ["Product"],
+    }),
+    fetchWipProducts: builder.query<WipProductsResponse, NoArgs>({
+      query: () => "/wip",
       providesTags: ["Product"],
     }),
-    addProduct: builder.mutation({
+    addProduct: builder.mutation<ApiResponse, Partial<Product>>({
       query: (data) => ({
         url: "/",
         method: "POST",
@@ -104,15 +284,15 @@ const productApi = createApi({
       }),
       invalidatesTags: ["Product"],
     }),
-    updateProduct: builder.mutation({
+    updateProduct: builder.mutation<ApiResponse, UpdateArgs<Product>>({
       query: (data) => ({
         url: "/",
         method: "PUT",
         body: data,
       }),
-      invalidatesTags: (result, error, { _id }) => [{ type: "Product", _id }],
+      invalidatesTags: ["Product"],
     }),
-    deleteProduct: builder.mutation<void, { _id: string }>({
+    deleteProduct: builder.mutation<ApiResponse, { _id: string }>({
       query: (data) => ({
         url: "/",
         method: "DELETE",
@@ -120,22 +300,27 @@ const productApi = createApi({
       }),
       invalidatesTags: ["Product"],
     }),
-    bulkDeleteProducts: builder.mutation({
-      query: (productIds: string[]) => ({
+    bulkDeleteProducts: builder.mutation<ApiResponse, string[]>({
+      query: (productIds) => ({
         url: "/bulk-delete",
         method: "DELETE",
         body: { productIds },
       }),
       invalidatesTags: ["Product"],
     }),
-    productDetails: builder.query({
+    productDetails: builder.query<ProductResponse, string>({
       query: (id) => `/${id}`,
       providesTags: (result, error, id) => [{ type: "Product", id }],
     }),
-    unapprovedProducts: builder.query({
-      query: (id) => `unapproved`,
+    fetchRawMaterials: builder.query<RawMaterialsResponse, NoArgs>({
+      query: () => "/raw-materials",
+      providesTags: ["Product"],
+    }),
+    unapprovedProducts: builder.query<UnapprovedResponse<Product>, NoArgs>({
+      query: () => "/unapproved",
+      providesTags: ["Product"],
     }),
-    productBulKUpload: builder.mutation({
+    productBulKUpload: builder.mutation<ApiResponse, FormData>({
       query: (data) => ({
         url: "/bulk",
         method: "POST",
@@ -143,7 +328,7 @@ const productApi = createApi({
       }),
       invalidatesTags: ["Product"],
     }),
-    productBulkUploadIndirect: builder.mutation({
+    productBulkUploadIndirect: builder.mutation<ApiResponse, FormData>({
       query: (data) => ({
         url: "/bulkindrect",
         method: "POST",
@@ -151,33 +336,90 @@ const productApi = createApi({
       }),
       invalidatesTags: ["Product"],
     }),
+    // Stored as the product's updated_price until a purchase order uses it
+    updateProductPrice: builder.mutation<
+      ApiResponse,
+      { productId: string; newPrice: number }
+    >({
+      query: (data) => ({
+        url: "/update-price",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Product"],
+    }),
+    clearUpdatedPrice: builder.mutation<ApiResponse, string>({
+      query: (productId) => ({
+        url: "/clear-updated-price",
+        method: "PUT",
+        body: { productId },
+      }),
+      invalidatesTags: ["Product"],
+    }),
+    clearUpdatedStock: builder.mutation<ApiResponse, string>({
+      query: (productId) => ({
+        url: "/clear-updated-stock",
+        method: "PUT",
+        body: { productId },
+      }),
+      invalidatesTags: ["Product"],
+    }),
+    // Corrects the stock and recalculates the shortages of the product
+    updateStockAndShortages: builder.mutation<
+      StockUpdateResponse,
+      { productId: string; newStock: number }
+    >({
+      query: (data) => ({
+        url: "/update-stock-and-shortages",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Product"],
+    }),
+    removeFromShortages: builder.mutation<
+      ApiResponse & { deletedShortages?: number },
+      string
+    >({
+      query: (productId) => ({
+        url: "/remove-from-shortages",
+        method: "PUT",
+        body: { productId },
+      }),
+      invalidatesTags: ["Product"],
+    }),
+    exportProducts: builder.mutation<
+      FileDownload,
+      { category: "direct" | "indirect"; productType?: string }
+    >({
+      query: ({ category, productType }) => ({
+        url: category === "direct" ? "/export/excel" : "/exports/inexcel",
+        params: productType ? { category: productType } : {},
+        responseHandler: fileResponseHandler,
+      }),
+    }),
+    downloadProductSample: builder.mutation<
+      FileDownload,
+      "direct" | "indirect"
+    >({
+      query: (category) => ({
+        url: category === "direct" ? "/export/sample" : "/exports/insample",
+        responseHandler: fileResponseHandler,
+      }),
+    }),
   }),
 });
 
 const storeApi = createApi({
   reducerPath: "storeApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "store",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("store"),
   tagTypes: ["Store"],
 
   endpoints: (builder) => ({
-    fetchStores: builder.query({
+    fetchStores: builder.query<StoresResponse, NoArgs>({
       query: () => "/all",
       providesTags: ["Store"],
     }),
-    addStore: builder.mutation({
+    addStore: builder.mutation<ApiResponse, Partial<Store>>({
       query: (data) => ({
         url: "/",
         method: "POST",
@@ -185,29 +427,30 @@ const storeApi = createApi({
       }),
       invalidatesTags: ["Store"],
     }),
-    updateStore: builder.mutation({
+    updateStore: builder.mutation<ApiResponse, UpdateArgs<Store>>({
       query: (data) => ({
         url: `/${data?._id}`,
         method: "PUT",
         body: data,
       }),
-      invalidatesTags: (result, error, { _id }) => [{ type: "Store", _id }],
+      invalidatesTags: ["Store"],
     }),
-    deleteStores: builder.mutation({
+    deleteStores: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `${_id}`,
         method: "DELETE",
       }),
       invalidatesTags: ["Store"],
     }),
-    storeDetails: builder.query({
+    storeDetails: builder.query<StoreResponse, string>({
       query: (id) => `/${id}`,
       providesTags: (result, error, id) => [{ type: "Store", id }],
     }),
-    unapprovedStores: builder.query({
-      query: (id) => `unapproved`,
+    unapprovedStores: builder.query<UnapprovedResponse<Store>, NoArgs>({
+      query: () => "/unapproved",
+      providesTags: ["Store"],
     }),
-    storeBulKUpload: builder.mutation({
+    storeBulKUpload: builder.mutation<ApiResponse, FormData>({
       query: (data) => ({
         url: "/bulk",
         method: "POST",
@@ -220,32 +463,19 @@ const storeApi = createApi({
 
 const agentApi = createApi({
   reducerPath: "agentApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "agent",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("agent"),
   tagTypes: ["Agent"],
 
   endpoints: (builder) => ({
-    fetchBuyers: builder.query({
+    fetchBuyers: builder.query<AgentsResponse, NoArgs>({
       query: () => "/buyers",
       providesTags: ["Agent"],
     }),
-    fetchSellers: builder.query({
+    fetchSellers: builder.query<AgentsResponse, NoArgs>({
       query: () => "/suppliers",
       providesTags: ["Agent"],
     }),
-    addAgent: builder.mutation({
+    addAgent: builder.mutation<ApiResponse, Partial<Agent>>({
       query: (data) => ({
         url: "/",
         method: "POST",
@@ -253,32 +483,34 @@ const agentApi = createApi({
       }),
       invalidatesTags: ["Agent"],
     }),
-    updateAgent: builder.mutation({
+    updateAgent: builder.mutation<ApiResponse, UpdateArgs<Agent>>({
       query: (data) => ({
         url: `/${data?._id}`,
         method: "PUT",
         body: data,
       }),
-      invalidatesTags: (result, error, { _id }) => [{ type: "Agent", _id }],
+      invalidatesTags: ["Agent"],
     }),
-    deleteAgent: builder.mutation({
+    deleteAgent: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `${_id}`,
         method: "DELETE",
       }),
       invalidatesTags: ["Agent"],
     }),
-    agentDetails: builder.query({
+    agentDetails: builder.query<AgentResponse, string>({
       query: (id) => `/${id}`,
       providesTags: (result, error, id) => [{ type: "Agent", id }],
     }),
-    unapprovedBuyers: builder.query({
-      query: (id) => `unapproved/buyers`,
+    unapprovedBuyers: builder.query<AgentsResponse, NoArgs>({
+      query: () => "/unapproved-buyers",
+      providesTags: ["Agent"],
     }),
-    unapprovedSellers: builder.query({
-      query: (id) => `unapproved/suppliers`,
+    unapprovedSellers: builder.query<AgentsResponse, NoArgs>({
+      query: () => "/unapproved-suppliers",
+      providesTags: ["Agent"],
     }),
-    agentBulKUpload: builder.mutation({
+    agentBulKUpload: builder.mutation<ApiResponse, FormData>({
       query: (data) => ({
         url: "/bulk",
         method: "POST",
@@ -291,26 +523,15 @@ const agentApi = createApi({
 
 const bomApi = createApi({
   reducerPath: "bomApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "bom",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ["BOM"],
+  baseQuery: createBaseQuery("bom"),
+  tagTypes: ["BOM", "BOM Raw Material"],
 
   endpoints: (builder) => ({
-    fetchBoms: builder.query({
-      query: () => "/all",
+    fetchBoms: builder.query<BomsResponse, ListArgs | NoArgs>({
+      query: (params) => ({ url: "/all", params: params || {} }),
       providesTags: ["BOM"],
     }),
-    addBom: builder.mutation({
+    addBom: builder.mutation<ApiResponse & { bom?: Bom }, Partial<Bom>>({
       query: (data) => ({
         url: "/",
         method: "POST",
@@ -318,7 +539,14 @@ const bomApi = createApi({
       }),
       invalidatesTags: ["BOM"],
     }),
-    updateBOM: builder.mutation({
+    autoCreateBom: builder.mutation<
+      ApiResponse & { bom?: Bom },
+      AutoBomArgs
+    >({
+      query: (params) => ({ url: "/autobom", params }),
+      invalidatesTags: ["BOM"],
+    }),
+    updateBOM: builder.mutation<ApiResponse, UpdateArgs<Bom>>({
       query: (data) => ({
         url: `/${data?._id}`,
         method: "PUT",
@@ -326,43 +554,90 @@ const bomApi = createApi({
       }),
       invalidatesTags: ["BOM"],
     }),
-    deleteBom: builder.mutation({
+    deleteBom: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `/${_id}`,
         method: "DELETE",
       }),
+      invalidatesTags: ["BOM"],
+    }),
+    bulkDeleteBoms: builder.mutation<ApiResponse, string[]>({
+      query: (ids) => ({
+        url: "/bulk-delete",
+        method: "DELETE",
+        body: { ids },
+      }),
+      invalidatesTags: ["BOM"],
     }),
-    bomDetails: builder.query({
+    bomDetails: builder.query<BomResponse, string>({
       query: (_id) => `/${_id}`,
+      providesTags: ["BOM"],
+    }),
+    // BOMs whose finished good is the product
+    fetchProductBoms: builder.query<BomsResponse, string>({
+      query: (productId) => `/bom/${productId}`,
+      providesTags: ["BOM"],
     }),
-    unapprovedBoms: builder.query({
-      query: (_id) => "/unapproved",
+    unapprovedBoms: builder.query<BomsResponse, NoArgs>({
+      query: () => "/unapproved",
+      providesTags: ["BOM"],
+    }),
+    fetchInventoryShortages: builder.query<InventoryShortagesResponse, NoArgs>(
+      {
+        query: () => "/inventory-shortages",
+        providesTags: ["BOM"],
+      }
+    ),
+    salesOrderStatus: builder.query<SalesOrderStatus, string>({
+      query: (saleId) => `/sales-order-status/${saleId}`,
+      providesTags: ["BOM", "BOM Raw Material"],
+    }),
+    // Raw materials waiting for production approval
+    unapprovedRawMaterials: builder.query<
+      UnapprovedResponse<BomRawMaterial>,
+      NoArgs
+    >({
+      query: () => "/unapproved/raw-materials",
+      providesTags: ["BOM Raw Material"],
+    }),
+    approveRawMaterial: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "/approve/raw-materials",
+        method: "POST",
+        body: { _id },
+      }),
+      invalidatesTags: ["BOM Raw Material"],
+    }),
+    // Raw materials waiting for inventory approval
+    fetchInventoryRawMaterials: builder.query<
+      UnapprovedResponse<BomRawMaterial>,
+      NoArgs
+    >({
+      query: () => "/all/inventory/raw-materials",
+      providesTags: ["BOM Raw Material"],
+    }),
+    approveInventoryRawMaterial: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "/approve/inventory/raw-materials",
+        method: "POST",
+        body: { _id },
+      }),
+      invalidatesTags: ["BOM Raw Material"],
     }),
   }),
 });
 
 const userRoleApi = createApi({
   reducerPath: "userRoleApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "role",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("role"),
   tagTypes: ["Role"],
 
   endpoints: (builder) => ({
-    fetchRoles: builder.query({
+    fetchRoles: builder.query<RolesResponse, NoArgs>({
       query: () => "/",
       providesTags: ["Role"],
     }),
-    addRole: builder.mutation({
+    addRole: builder.mutation<ApiResponse, Partial<Role>>({
       query: (data) => ({
         url: "/",
         method: "POST",
@@ -370,7 +645,7 @@ const userRoleApi = createApi({
       }),
       invalidatesTags: ["Role"],
     }),
-    updateRole: builder.mutation({
+    updateRole: builder.mutation<ApiResponse, UpdateArgs<Role>>({
       query: (data) => ({
         url: "/",
         method: "PUT",
@@ -378,7 +653,7 @@ const userRoleApi = createApi({
       }),
       invalidatesTags: ["Role"],
     }),
-    deleteRole: builder.mutation({
+    deleteRole: builder.mutation<ApiResponse, { _id: string }>({
       query: (data) => ({
         url: "/",
         method: "DELETE",
@@ -386,34 +661,24 @@ const userRoleApi = createApi({
       }),
       invalidatesTags: ["Role"],
     }),
-    roleDetails: builder.query({
+    roleDetails: builder.query<RoleResponse, string>({
       query: (_id) => `/${_id}`,
+      providesTags: ["Role"],
     }),
   }),
 });
 
 const employeeApi = createApi({
   reducerPath: "employeeApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "auth",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("auth"),
   tagTypes: ["Employee"],
 
   endpoints: (builder) => ({
-    fetchEmployees: builder.query({
+    fetchEmployees: builder.query<UsersResponse, NoArgs>({
       query: () => "/all",
       providesTags: ["Employee"],
     }),
-    updateEmployee: builder.mutation({
+    updateEmployee: builder.mutation<ApiResponse, UpdateArgs<User>>({
       query: (data) => ({
         url: "/user",
         method: "PUT",
@@ -421,38 +686,51 @@ const employeeApi = createApi({
       }),
       invalidatesTags: ["Employee"],
     }),
-    employeeDetails: builder.query({
-      query: (data) => "/user",
+    updateProfile: builder.mutation<ApiResponse, Partial<User>>({
+      query: (data) => ({
+        url: "/user/profile",
+        method: "PATCH",
+        body: data,
+      }),
+      invalidatesTags: ["Employee"],
+    }),
+    // The signed in user
+    employeeDetails: builder.query<UserResponse, NoArgs>({
+      query: () => "/user",
+      providesTags: ["Employee"],
+    }),
+    userDetails: builder.query<UserResponse, string>({
+      query: (_id) => `/user/${_id}`,
+      providesTags: ["Employee"],
     }),
   }),
 });
 
 const proformaInvoiceApi = createApi({
   reducerPath: "proformaInvoiceApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "proforma-invoice",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("proforma-invoice"),
   tagTypes: ["Proforma Invoice"],
 
   endpoints: (builder) => ({
-    fetchProformaInvoices: builder.query({
+    fetchProformaInvoices: builder.query<ProformaInvoicesResponse, NoArgs>({
       query: () => "/all",
       providesTags: ["Proforma Invoice"],
     }),
-    proformaInvoiceDetails: builder.query({
+    proformaInvoiceDetails: builder.query<ProformaInvoiceResponse, string>({
       query: (_id) => `/${_id}`,
       providesTags: ["Proforma Invoice"],
     }),
-    createProformaInvoice: builder.mutation({
+    fetchNextProformaInvoiceNumber: builder.query<
+      ApiResponse & { proforma_invoice_no?: string },
+      NoArgs
+    >({
+      query: () => "/next-invoice-number",
+      providesTags: ["Proforma Invoice"],
+    }),
+    createProformaInvoice: builder.mutation<
+      ApiResponse,
+      Partial<ProformaInvoice>
+    >({
       query: (data) => ({
         url: `/`,
         method: "POST",
@@ -460,7 +738,10 @@ const proformaInvoiceApi = createApi({
       }),
       invalidatesTags: ["Proforma Invoice"],
     }),
-    updateProformaInvoice: builder.mutation({
+    updateProformaInvoice: builder.mutation<
+      ApiResponse,
+      UpdateArgs<ProformaInvoice>
+    >({
       query: (data) => ({
         url: `/${data._id}`,
         method: "PUT",
@@ -468,7 +749,7 @@ const proformaInvoiceApi = createApi({
       }),
       invalidatesTags: ["Proforma Invoice"],
     }),
-    deleteProformaInvoice: builder.mutation({
+    deleteProformaInvoice: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `/${_id}`,
         method: "DELETE",
@@ -480,30 +761,22 @@ const proformaInvoiceApi = createApi({
 
 const invoiceApi = createApi({
   reducerPath: "invoiceApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "invoice",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
+  baseQuery: createBaseQuery("invoice"),
   tagTypes: ["Invoice"],
 
   endpoints: (builder) => ({
-    fetchInvoices: builder.query({
-      query: () => "/all",
+    fetchInvoices: builder.query<InvoicesResponse, ListArgs | NoArgs>({
+      query: (params) => ({ url: "/all", params: params || {} }),
       providesTags: ["Invoice"],
     }),
-    invoiceDetails: builder.query({
+    invoiceDetails: builder.query<InvoiceResponse, string>({
       query: (_id) => `/${_id}`,
       providesTags: ["Invoice"],
     }),
-    createInvoice: builder.mutation({
+    createInvoice: builder.mutation<
+      ApiResponse & { invoice?: Invoice },
+      Partial<Invoice>
+    >({
       query: (data) => ({
         url: `/`,
         method: "POST",
@@ -511,7 +784,7 @@ const invoiceApi = createApi({
       }),
       invalidatesTags: ["Invoice"],
     }),
-    updateInvoice: builder.mutation({
+    updateInvoice: builder.mutation<ApiResponse, UpdateArgs<Invoice>>({
       query: (data) => ({
         url: `/${data._id}`,
         method: "PUT",
@@ -519,7 +792,7 @@ const invoiceApi = createApi({
       }),
       invalidatesTags: ["Invoice"],
     }),
-    deleteInvoice: builder.mutation({
+    deleteInvoice: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `/${_id}`,
         method: "DELETE",
@@ -529,155 +802,1265 @@ const invoiceApi = createApi({
   }),
 });
 
-const processApi = createApi({
-  reducerPath: "processApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "production-process",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ["Process"],
+const paymentApi = createApi({
+  reducerPath: "paymentApi",
+  baseQuery: createBaseQuery("payment"),
+  tagTypes: ["Payment"],
 
   endpoints: (builder) => ({
-    fetchProcess: builder.query({
-      query: () => "/all",
-      providesTags: ["Process"],
+    fetchPayment: builder.query<PaymentsResponse, ListArgs | NoArgs>({
+      query: (params) => ({ url: "/all", params: params || {} }),
+      providesTags: ["Payment"],
     }),
-    processDetails: builder.query({
+    paymentDetails: builder.query<PaymentResponse, string>({
       query: (_id) => `/${_id}`,
-      providesTags: ["Process"],
+      providesTags: ["Payment"],
     }),
-    createProcess: builder.mutation({
+    createPayment: builder.mutation<
+      ApiResponse & { payment?: Payment },
+      Partial<Payment>
+    >({
       query: (data) => ({
         url: `/`,
         method: "POST",
         body: data,
       }),
-      invalidatesTags: ["Process"],
+      invalidatesTags: ["Payment"],
     }),
-    updateProcess: builder.mutation({
+    updatePayment: builder.mutation<ApiResponse, UpdateArgs<Payment>>({
       query: (data) => ({
         url: `/${data._id}`,
         method: "PUT",
         body: data,
       }),
-      invalidatesTags: ["Process"],
+      invalidatesTags: ["Payment"],
     }),
-    deleteProcess: builder.mutation({
+    deletePayment: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `/${_id}`,
         method: "DELETE",
       }),
-      invalidatesTags: ["Process"],
+      invalidatesTags: ["Payment"],
     }),
   }),
 });
 
-const paymentApi = createApi({
-  reducerPath: "paymentApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "payment",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ["Payment"],
+const planningApi = createApi({
+  reducerPath: "planningApi",
+  baseQuery: createBaseQuery("production-plan"),
+  tagTypes: ["Planning"],
 
   endpoints: (builder) => ({
-    fetchPayment: builder.query({
+    fetchPlans: builder.query<PlansResponse, NoArgs>({
       query: () => "/all",
-      providesTags: ["Payment"],
+      providesTags: ["Planning"],
     }),
-    paymentDetails: builder.query({
+    planDetails: builder.query<PlanResponse, string>({
       query: (_id) => `/${_id}`,
-      providesTags: ["Payment"],
+      providesTags: ["Planning"],
     }),
-    createPayment: builder.mutation({
+    createPlan: builder.mutation<ApiResponse, Partial<ProductionPlan>>({
       query: (data) => ({
         url: `/`,
         method: "POST",
         body: data,
       }),
-      invalidatesTags: ["Payment"],
+      invalidatesTags: ["Planning"],
     }),
-    updatePayment: builder.mutation({
+    updatePlan: builder.mutation<ApiResponse, UpdateArgs<ProductionPlan>>({
       query: (data) => ({
         url: `/${data._id}`,
         method: "PUT",
         body: data,
       }),
-      invalidatesTags: ["Payment"],
+      invalidatesTags: ["Planning"],
     }),
-    deletePayment: builder.mutation({
+    deletePlan: builder.mutation<ApiResponse, string>({
       query: (_id) => ({
         url: `/${_id}`,
         method: "DELETE",
       }),
-      invalidatesTags: ["Payment"],
+      invalidatesTags: ["Planning"],
     }),
   }),
 });
 
-const dispatchApi = createApi({
-  reducerPath: "dispatchApi",
-  baseQuery: fetchBaseQuery({
-    baseUrl: process.env.REACT_APP_BACKEND_URL + "dispatch",
-    mode: "cors",
-    prepareHeaders: (headers) => {
-      const cookies = parseCookies();
-      const token = cookies?.access_token;
-      if (token) {
-        headers.set("Authorization", `Bearer ${token}`);
-      }
-      return headers;
-    },
-  }),
-  tagTypes: ["Dispatch"],
+const qualityApi = createApi({
+  reducerPath: "qualityApi",
+  baseQuery: createBaseQuery("quality"),
+  tagTypes: ["Inspection Plan", "Inspection", "NCR"],
 
   endpoints: (builder) => ({
-    fetchDispatchStats: builder.query({
-      query: () => "/dispatch-stats",
-      providesTags: ["Dispatch"],
+    fetchInspectionPlans: builder.query<InspectionPlansResponse, NoArgs>({
+      query: () => "/plans",
+      providesTags: ["Inspection Plan"],
+    }),
+    createInspectionPlan: builder.mutation<
+      ApiResponse,
+      Partial<InspectionPlan>
+    >({
+      query: (data) => ({
+        url: "/plans",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Inspection Plan"],
     }),
-  }),
-});
-
-// export default api;
-export {
-  api,
-  productApi,
-  storeApi,
-  agentApi,
-  bomApi,
-  userRoleApi,
-  employeeApi,
-  proformaInvoiceApi,
-  invoiceApi,
-  processApi,
-  paymentApi,
-  dispatchApi,
-};
-
-// Authentication APIs
-export const {
-  useLoginMutation,
-  useLazyLoginWithTokenQuery,
-  useRegisterMutation,
-  useVerifyUserMutation,
-  useResendOTPMutation,
+    updateInspectionPlan: builder.mutation<
+      ApiResponse,
+      UpdateArgs<InspectionPlan>
+    >({
+      query: (data) => ({
+        url: `/plans/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Inspection Plan"],
+    }),
+    deleteInspectionPlan: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/plans/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Inspection Plan"],
+    }),
+    fetchInspections: builder.query<InspectionsResponse, NoArgs>({
+      query: () => "/inspections",
+      providesTags: ["Inspection"],
+    }),
+    createInspection: builder.mutation<
+      ApiResponse & { inspection?: Inspection },
+      Partial<Inspection>
+    >({
+      query: (data) => ({
+        url: "/inspections",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Inspection"],
+    }),
+    fetchNcrs: builder.query<NcrsResponse, NoArgs>({
+      query: () => "/ncr",
+      providesTags: ["NCR"],
+    }),
+    createNcr: builder.mutation<ApiResponse, Partial<Ncr>>({
+      query: (data) => ({
+        url: "/ncr",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["NCR", "Inspection"],
+    }),
+    updateNcr: builder.mutation<ApiResponse, UpdateArgs<Ncr>>({
+      query: (data) => ({
+        url: `/ncr/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["NCR"],
+    }),
+  }),
+});
+
+const maintenanceApi = createApi({
+  reducerPath: "maintenanceApi",
+  baseQuery: createBaseQuery("maintenance"),
+  tagTypes: ["Maintenance Plan", "Work Order", "Downtime"],
+
+  endpoints: (builder) => ({
+    fetchMaintenancePlans: builder.query<MaintenancePlansResponse, NoArgs>({
+      query: () => "/plans",
+      providesTags: ["Maintenance Plan"],
+    }),
+    createMaintenancePlan: builder.mutation<
+      ApiResponse,
+      Partial<MaintenancePlan>
+    >({
+      query: (data) => ({
+        url: "/plans",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Maintenance Plan"],
+    }),
+    updateMaintenancePlan: builder.mutation<
+      ApiResponse,
+      UpdateArgs<MaintenancePlan>
+    >({
+      query: (data) => ({
+        url: `/plans/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Maintenance Plan"],
+    }),
+    deleteMaintenancePlan: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/plans/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Maintenance Plan"],
+    }),
+    fetchWorkOrders: builder.query<WorkOrdersResponse, NoArgs>({
+      query: () => "/work-orders",
+      providesTags: ["Work Order"],
+    }),
+    createWorkOrder: builder.mutation<ApiResponse, Partial<WorkOrder>>({
+      query: (data) => ({
+        url: "/work-orders",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Work Order"],
+    }),
+    // Completing a work order resets the service baseline of its plan
+    updateWorkOrder: builder.mutation<ApiResponse, UpdateArgs<WorkOrder>>({
+      query: (data) => ({
+        url: `/work-orders/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Work Order", "Maintenance Plan"],
+    }),
+    fetchDowntimes: builder.query<DowntimesResponse, NoArgs>({
+      query: () => "/downtime",
+      providesTags: ["Downtime"],
+    }),
+    createDowntime: builder.mutation<ApiResponse, Partial<Downtime>>({
+      query: (data) => ({
+        url: "/downtime",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Downtime"],
+    }),
+    updateDowntime: builder.mutation<ApiResponse, UpdateArgs<Downtime>>({
+      query: (data) => ({
+        url: `/downtime/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Downtime"],
+    }),
+    deleteDowntime: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/downtime/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Downtime"],
+    }),
+  }),
+});
+
+const requisitionApi = createApi({
+  reducerPath: "requisitionApi",
+  baseQuery: createBaseQuery("purchase-requisition"),
+  tagTypes: ["Requisition"],
+
+  endpoints: (builder) => ({
+    fetchRequisitions: builder.query<RequisitionsResponse, NoArgs>({
+      query: () => "/all",
+      providesTags: ["Requisition"],
+    }),
+    createRequisition: builder.mutation<ApiResponse, Partial<Requisition>>({
+      query: (data) => ({
+        url: "/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Requisition"],
+    }),
+    updateRequisition: builder.mutation<ApiResponse, UpdateArgs<Requisition>>({
+      query: (data) => ({
+        url: `/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Requisition"],
+    }),
+    approveRequisition: builder.mutation<ApiResponse, UpdateArgs<Requisition>>({
+      query: (data) => ({
+        url: `/approve/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Requisition"],
+    }),
+    deleteRequisition: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Requisition"],
+    }),
+  }),
+});
+
+const packagingApi = createApi({
+  reducerPath: "packagingApi",
+  baseQuery: createBaseQuery("packaging"),
+  tagTypes: ["Package"],
+
+  endpoints: (builder) => ({
+    fetchPackages: builder.query<PackagesResponse, NoArgs>({
+      query: () => "/all",
+      providesTags: ["Package"],
+    }),
+    createPackages: builder.mutation<
+      ApiResponse,
+      { packages: Partial<Package>[] }
+    >({
+      query: (data) => ({
+        url: "/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Package"],
+    }),
+    updatePackage: builder.mutation<ApiResponse, UpdateArgs<Package>>({
+      query: (data) => ({
+        url: `/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Package"],
+    }),
+    deletePackage: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Package"],
+    }),
+    markPackagesDispatched: builder.mutation<
+      ApiResponse,
+      MarkPackagesDispatchedArgs
+    >({
+      query: (data) => ({
+        url: "/dispatch",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Package"],
+    }),
+  }),
+});
+
+const voucherApi = createApi({
+  reducerPath: "voucherApi",
+  baseQuery: createBaseQuery("voucher"),
+  tagTypes: ["Voucher", "Ledger"],
+
+  endpoints: (builder) => ({
+    fetchVouchers: builder.query<VouchersResponse, NoArgs>({
+      query: () => "/all",
+      providesTags: ["Voucher"],
+    }),
+    createVoucher: builder.mutation<ApiResponse, Partial<Voucher>>({
+      query: (data) => ({
+        url: "/",
+        method: "POST",
+        body: data,
+      }),
+      // Auto vouchers can create a party ledger on the fly
+      invalidatesTags: ["Voucher", "Ledger"],
+    }),
+    updateVoucher: builder.mutation<ApiResponse, UpdateArgs<Voucher>>({
+      query: (data) => ({
+        url: `/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Voucher"],
+    }),
+    deleteVoucher: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Voucher"],
+    }),
+    fetchLedgers: builder.query<LedgersResponse, NoArgs>({
+      query: () => "/ledgers",
+      providesTags: ["Ledger"],
+    }),
+    createLedger: builder.mutation<ApiResponse, Partial<Ledger>>({
+      query: (data) => ({
+        url: "/ledgers",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Ledger"],
+    }),
+    updateLedger: builder.mutation<ApiResponse, UpdateArgs<Ledger>>({
+      query: (data) => ({
+        url: `/ledgers/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Ledger"],
+    }),
+  }),
+});
+
+const integrationApi = createApi({
+  reducerPath: "integrationApi",
+  baseQuery: createBaseQuery("integration"),
+  tagTypes: ["Webhook", "Webhook Delivery", "API Key", "Connector"],
+
+  endpoints: (builder) => ({
+    fetchWebhooks: builder.query<WebhooksResponse, NoArgs>({
+      query: () => "/webhooks",
+      providesTags: ["Webhook"],
+    }),
+    createWebhook: builder.mutation<ApiResponse, Partial<Webhook>>({
+      query: (data) => ({
+        url: "/webhooks",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Webhook"],
+    }),
+    updateWebhook: builder.mutation<ApiResponse, UpdateArgs<Webhook>>({
+      query: (data) => ({
+        url: `/webhooks/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Webhook"],
+    }),
+    deleteWebhook: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/webhooks/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Webhook"],
+    }),
+    testWebhook: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/webhooks/${_id}/test`,
+        method: "POST",
+      }),
+      invalidatesTags: ["Webhook Delivery"],
+    }),
+    fetchWebhookDeliveries: builder.query<WebhookDeliveriesResponse, NoArgs>({
+      query: () => "/webhooks/deliveries",
+      providesTags: ["Webhook Delivery"],
+    }),
+    retryWebhookDelivery: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/webhooks/deliveries/${_id}/retry`,
+        method: "POST",
+      }),
+      invalidatesTags: ["Webhook Delivery"],
+    }),
+    fetchApiKeys: builder.query<ApiKeysResponse, NoArgs>({
+      query: () => "/api-keys",
+      providesTags: ["API Key"],
+    }),
+    createApiKey: builder.mutation<ApiKeyResponse, Partial<ApiKey>>({
+      query: (data) => ({
+        url: "/api-keys",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["API Key"],
+    }),
+    revokeApiKey: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/api-keys/${_id}/revoke`,
+        method: "PUT",
+      }),
+      invalidatesTags: ["API Key"],
+    }),
+    fetchConnectors: builder.query<ConnectorsResponse, NoArgs>({
+      query: () => "/connectors",
+      providesTags: ["Connector"],
+    }),
+    updateConnector: builder.mutation<ApiResponse, Connector>({
+      query: (data) => ({
+        url: `/connectors/${data.type}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Connector"],
+    }),
+    testConnector: builder.mutation<ApiResponse, Connector>({
+      query: (data) => ({
+        url: `/connectors/${data.type}/test`,
+        method: "POST",
+        body: data,
+      }),
+    }),
+    syncConnector: builder.mutation<ApiResponse, string>({
+      query: (type) => ({
+        url: `/connectors/${type}/sync`,
+        method: "POST",
+      }),
+      invalidatesTags: ["Connector"],
+    }),
+  }),
+});
+
+const notificationApi = createApi({
+  reducerPath: "notificationApi",
+  baseQuery: createBaseQuery("notification"),
+  tagTypes: ["Notification", "Notification Preference"],
+
+  endpoints: (builder) => ({
+    fetchNotifications: builder.query<NotificationsResponse, NoArgs>({
+      query: (params) => ({ url: "/all", params: params || {} }),
+      providesTags: ["Notification"],
+    }),
+    markNotificationRead: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/read/${_id}`,
+        method: "PATCH",
+      }),
+      invalidatesTags: ["Notification"],
+    }),
+    markAllNotificationsRead: builder.mutation<ApiResponse, NoArgs>({
+      query: () => ({
+        url: "/read-all",
+        method: "PATCH",
+      }),
+      invalidatesTags: ["Notification"],
+    }),
+    fetchNotificationPreferences: builder.query<
+      NotificationPreferencesResponse,
+      NoArgs
+    >({
+      query: () => "/preferences",
+      providesTags: ["Notification Preference"],
+    }),
+    updateNotificationPreferences: builder.mutation<
+      ApiResponse,
+      NotificationPreferences
+    >({
+      query: (data) => ({
+        url: "/preferences",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Notification Preference", "Notification"],
+    }),
+  }),
+});
+
+const auditApi = createApi({
+  reducerPath: "auditApi",
+  baseQuery: createBaseQuery("audit"),
+  tagTypes: ["Audit Log"],
+
+  endpoints: (builder) => ({
+    fetchAuditLogs: builder.query<AuditEventsResponse, ListArgs>({
+      query: (params) => ({ url: "/all", params }),
+      providesTags: ["Audit Log"],
+    }),
+    fetchRecordHistory: builder.query<AuditEventsResponse, RecordHistoryArgs>({
+      query: ({ module, recordId }) => `/${module}/${recordId}`,
+      providesTags: ["Audit Log"],
+    }),
+  }),
+});
+
+const viewApi = createApi({
+  reducerPath: "viewApi",
+  baseQuery: createBaseQuery("view"),
+  tagTypes: ["Table View"],
+
+  endpoints: (builder) => ({
+    fetchTableViews: builder.query<TableViewsResponse, string>({
+      query: (table) => ({ url: "/all", params: { table } }),
+      providesTags: ["Table View"],
+    }),
+    createTableView: builder.mutation<TableViewResponse, Partial<TableView>>({
+      query: (data) => ({
+        url: "/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Table View"],
+    }),
+    updateTableView: builder.mutation<
+      TableViewResponse,
+      UpdateArgs<TableView>
+    >({
+      query: (data) => ({
+        url: `/${data._id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Table View"],
+    }),
+    deleteTableView: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Table View"],
+    }),
+  }),
+});
+
+const exportApi = createApi({
+  reducerPath: "exportApi",
+  baseQuery: createBaseQuery("export"),
+  tagTypes: ["Export Job"],
+
+  endpoints: (builder) => ({
+    createExportJob: builder.mutation<ExportJobResponse, ExportJobArgs>({
+      query: (data) => ({
+        url: "/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Export Job"],
+    }),
+    fetchExportJob: builder.query<ExportJobResponse, string>({
+      query: (_id) => `/${_id}`,
+      providesTags: ["Export Job"],
+    }),
+  }),
+});
+
+const searchApi = createApi({
+  reducerPath: "searchApi",
+  baseQuery: createBaseQuery("search"),
+
+  endpoints: (builder) => ({
+    globalSearch: builder.query<SearchResponse, GlobalSearchArgs>({
+      query: ({ q, limit = 5 }) => ({ url: "/", params: { q, limit } }),
+    }),
+  }),
+});
+
+// Sales, dispatch, production and the resources around them share one slice
+// so that a mutation in one area refreshes every view that depends on it,
+// e.g. creating a dispatch refetches the sales list and the dashboards
+const erpApi = createApi({
+  reducerPath: "erpApi",
+  baseQuery: createBaseQuery(),
+  tagTypes: [
+    "Sale",
+    "Dispatch",
+    "Process",
+    "Party",
+    "Purchase Order",
+    "Goods Receipt",
+    "Supplier",
+    "Resource",
+    "Assignment",
+    "Scrap",
+    "Dashboard",
+  ],
+
+  endpoints: (builder) => ({
+    // Sales
+    fetchSales: builder.query<SalesResponse, ListArgs>({
+      query: ({ page = 1, limit = 10, ...params }) => ({
+        url: "sale/getAll",
+        params: { page, limit, ...params },
+      }),
+      providesTags: ["Sale"],
+    }),
+    saleDetails: builder.query<SaleResponse, string>({
+      query: (_id) => `sale/get/${_id}`,
+      providesTags: ["Sale"],
+    }),
+    createSale: builder.mutation<
+      ApiResponse & { data?: Sale },
+      Partial<Sale>
+    >({
+      query: (data) => ({
+        url: "sale/create",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Sale", "Dashboard"],
+    }),
+    updateSale: builder.mutation<ApiResponse, UpdateArgs<Sale>>({
+      query: ({ _id, ...data }) => ({
+        url: `sale/update/${_id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Sale", "Assignment", "Dashboard"],
+    }),
+    addSaleToken: builder.mutation<
+      ApiResponse,
+      { _id: string; token_amt: number | string }
+    >({
+      query: ({ _id, ...data }) => ({
+        url: `sale/addToken/${_id}`,
+        method: "PATCH",
+        body: data,
+      }),
+      invalidatesTags: ["Sale", "Assignment"],
+    }),
+    uploadSaleDesign: builder.mutation<ApiResponse, UpdateArgs<Sale>>({
+      query: ({ _id, ...data }) => ({
+        url: `sale/upload-image/${_id}`,
+        method: "PATCH",
+        body: data,
+      }),
+      invalidatesTags: ["Sale", "Assignment"],
+    }),
+
+    // Dispatch
+    fetchDispatches: builder.query<DispatchesResponse, ListArgs>({
+      query: ({ page = 1, limit = 10, ...filters }) => ({
+        url: "dispatch/getAll",
+        params: { page, limit, ...filters },
+      }),
+      providesTags: ["Dispatch"],
+    }),
+    dispatchDetails: builder.query<DispatchResponse, string>({
+      query: (_id) => `dispatch/get/${_id}`,
+      providesTags: ["Dispatch"],
+    }),
+    fetchDispatchStats: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dispatch/dispatch-stats",
+      providesTags: ["Dispatch"],
+    }),
+    createDispatch: builder.mutation<ApiResponse, Partial<Dispatch>>({
+      query: (data) => ({
+        url: "dispatch/create",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Dispatch", "Sale", "Dashboard"],
+    }),
+    updateDispatch: builder.mutation<ApiResponse, UpdateArgs<Dispatch>>({
+      query: ({ _id, ...data }) => ({
+        url: `dispatch/update/${_id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Dispatch", "Sale", "Dashboard"],
+    }),
+    sendToDispatch: builder.mutation<
+      ApiResponse,
+      { production_process_id: string }
+    >({
+      query: (data) => ({
+        url: "dispatch/send-from-production",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Dispatch", "Process", "Sale", "Dashboard"],
+    }),
+    uploadDispatchDocument: builder.mutation<
+      ApiResponse,
+      { _id: string; document: DispatchDocument; formData: FormData }
+    >({
+      query: ({ _id, document, formData }) => ({
+        url: `dispatch/upload-${document}/${_id}`,
+        method: "POST",
+        body: formData,
+      }),
+      invalidatesTags: ["Dispatch", "Dashboard"],
+    }),
+    // Resolves to an object URL; revoke it once the download has started
+    downloadDispatchDocument: builder.mutation<
+      string,
+      { _id: string; document: DispatchDocument }
+    >({
+      query: ({ _id, document }) => ({
+        url: `dispatch/download/${_id}/${document}`,
+        responseHandler: async (response) =>
+          response.ok
+            ? window.URL.createObjectURL(await response.blob())
+            : response.json(),
+      }),
+    }),
+
+    // Production processes
+    fetchProcess: builder.query<ProcessesResponse, NoArgs>({
+      query: () => "production-process/all",
+      providesTags: ["Process"],
+    }),
+    processDetails: builder.query<ProcessResponse, string>({
+      query: (_id) => `production-process/${_id}`,
+      providesTags: ["Process"],
+    }),
+    // Process master record (name and description), not a production run
+    processMasterDetails: builder.query<ProcessMasterResponse, string>({
+      query: (_id) => `process/${_id}`,
+      providesTags: ["Process"],
+    }),
+    fetchProcessesInInventory: builder.query<DashboardResponse, NoArgs>({
+      query: () => "production-process/moved-to-inventory",
+      providesTags: ["Process"],
+    }),
+    createProcess: builder.mutation<ApiResponse, CreateProcessArgs>({
+      query: (data) => ({
+        url: "production-process/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    updateProcess: builder.mutation<ApiResponse, UpdateArgs<ProductionProcess>>(
+      {
+        query: (data) => ({
+          url: `production-process/${data._id}`,
+          method: "PUT",
+          body: data,
+        }),
+        invalidatesTags: ["Process", "Sale", "Scrap", "Dashboard"],
+      }
+    ),
+    deleteProcess: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `production-process/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    bulkDeleteProcesses: builder.mutation<ApiResponse, string[]>({
+      query: (ids) => ({
+        url: "production-process/bulk-delete",
+        method: "DELETE",
+        body: { ids },
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    scheduleProcess: builder.mutation<ApiResponse, ScheduleProcessArgs>({
+      query: (data) => ({
+        url: "production-process/schedule",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Process"],
+    }),
+    updateProcessStatus: builder.mutation<
+      ApiResponse,
+      { _id: string; status: string }
+    >({
+      query: (data) => ({
+        url: "production-process/update-status",
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    requestInventoryAllocation: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "production-process/allocation",
+        params: { _id },
+      }),
+      invalidatesTags: ["Process", "Sale"],
+    }),
+    markInventoryInTransit: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "production-process/inventory-in-transit",
+        method: "PUT",
+        body: { _id },
+      }),
+      invalidatesTags: ["Process", "Sale"],
+    }),
+    markProcessDone: builder.mutation<ApiResponse, string>({
+      query: (_id) => `production-process/done/${_id}`,
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    startProduction: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "production-process/start-production",
+        method: "PUT",
+        body: { _id },
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    pauseProcess: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: "production-process/pause",
+        method: "PUT",
+        body: { _id },
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+    markOutFinishGoods: builder.mutation<ApiResponse, string>({
+      query: (id) => ({
+        url: "production-process/out-finish-goods",
+        method: "POST",
+        body: { id },
+      }),
+      invalidatesTags: ["Process", "Dashboard"],
+    }),
+    moveProcessToInventory: builder.mutation<ApiResponse, string>({
+      query: (processId) => ({
+        url: "production-process/move-to-inventory",
+        method: "POST",
+        body: { processId },
+      }),
+      invalidatesTags: ["Process", "Sale", "Scrap", "Dashboard"],
+    }),
+    receiveByInventory: builder.mutation<ApiResponse, string>({
+      query: (id) => ({
+        url: "production-process/receive-by-inventory",
+        method: "POST",
+        body: { id },
+      }),
+      invalidatesTags: ["Process", "Dashboard"],
+    }),
+    updateProcessInventoryStatus: builder.mutation<
+      ApiResponse,
+      { processId: string; status: string }
+    >({
+      query: (data) => ({
+        url: "production-process/update-inventory-status",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Process", "Sale", "Dashboard"],
+    }),
+
+    // Parties
+    fetchParties: builder.query<PartiesResponse, ListArgs>({
+      query: (params) => ({ url: "parties/get", params }),
+      providesTags: ["Party"],
+    }),
+    partyDetails: builder.query<PartyResponse, string>({
+      query: (_id) => `parties/get/${_id}`,
+      providesTags: ["Party"],
+    }),
+    createParty: builder.mutation<ApiResponse, Partial<Party>>({
+      query: (data) => ({
+        url: "parties/create",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Party", "Dashboard"],
+    }),
+    updateParty: builder.mutation<ApiResponse, UpdateArgs<Party>>({
+      query: ({ _id, ...data }) => ({
+        url: `parties/put/${_id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Party", "Sale"],
+    }),
+    deleteParty: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `parties/delete/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Party", "Dashboard"],
+    }),
+    partiesBulkUpload: builder.mutation<ApiResponse, FormData>({
+      query: (formData) => ({
+        url: "parties/bulk",
+        method: "POST",
+        body: formData,
+      }),
+      invalidatesTags: ["Party", "Dashboard"],
+    }),
+
+    // Purchase orders and suppliers
+    fetchPurchaseOrders: builder.query<
+      PurchaseOrdersResponse,
+      ListArgs | NoArgs
+    >({
+      query: (params) => ({ url: "purchase-order/all", params: params || {} }),
+      providesTags: ["Purchase Order"],
+    }),
+    purchaseOrderDetails: builder.query<PurchaseOrderResponse, string>({
+      query: (_id) => `purchase-order/${_id}`,
+      providesTags: ["Purchase Order"],
+    }),
+    fetchNextPoNumber: builder.query<ApiResponse & { poNumber?: string }, NoArgs>(
+      {
+        query: () => "purchase-order/next-po-number",
+        providesTags: ["Purchase Order"],
+      }
+    ),
+    createPurchaseOrder: builder.mutation<
+      PurchaseOrderResponse,
+      Partial<PurchaseOrder>
+    >({
+      query: (data) => ({
+        url: "purchase-order/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Purchase Order", "Supplier", "Dashboard"],
+    }),
+    updatePurchaseOrder: builder.mutation<ApiResponse, UpdateArgs<PurchaseOrder>>(
+      {
+        query: ({ _id, ...data }) => ({
+          url: `purchase-order/${_id}`,
+          method: "PUT",
+          body: data,
+        }),
+        invalidatesTags: ["Purchase Order", "Supplier", "Dashboard"],
+      }
+    ),
+    deletePurchaseOrder: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `purchase-order/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Purchase Order", "Supplier", "Dashboard"],
+    }),
+    bulkDeletePurchaseOrders: builder.mutation<
+      ApiResponse & { deletedCount?: number },
+      string[]
+    >({
+      query: (ids) => ({
+        url: "purchase-order/bulk-delete",
+        method: "DELETE",
+        body: { ids },
+      }),
+      invalidatesTags: ["Purchase Order", "Supplier", "Dashboard"],
+    }),
+    fetchSuppliers: builder.query<SuppliersResponse, NoArgs>({
+      query: () => "purchase-order/suppliers",
+      providesTags: ["Supplier"],
+    }),
+    supplierDetails: builder.query<ApiResponse & { supplier: Supplier }, string>(
+      {
+        query: (_id) => `purchase-order/supplier/${_id}`,
+        providesTags: ["Supplier"],
+      }
+    ),
+
+    // Goods receipts against purchase orders
+    fetchGoodsReceipts: builder.query<
+      GoodsReceiptsResponse,
+      { purchase_order?: string }
+    >({
+      query: (params) => ({ url: "grn/all", params }),
+      providesTags: ["Goods Receipt"],
+    }),
+    createGoodsReceipt: builder.mutation<
+      ApiResponse & { grn: GoodsReceipt },
+      Omit<GoodsReceipt, "_id">
+    >({
+      query: (data) => ({
+        url: "grn/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: (result, error, { status }) =>
+        status === "Posted"
+          ? ["Goods Receipt", "Purchase Order", "Dashboard"]
+          : ["Goods Receipt"],
+    }),
+    // Adds the accepted quantities to the receiving store's stock and moves
+    // the purchase order to Partially Received or Received
+    postGoodsReceipt: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `grn/post/${_id}`,
+        method: "PUT",
+      }),
+      invalidatesTags: ["Goods Receipt", "Purchase Order", "Dashboard"],
+    }),
+    deleteGoodsReceipt: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `grn/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Goods Receipt"],
+    }),
+
+    // Machines and other resources
+    fetchResources: builder.query<ResourcesResponse, NoArgs>({
+      query: () => "resources",
+      providesTags: ["Resource"],
+    }),
+    createResource: builder.mutation<
+      ApiResponse & { resource: Resource },
+      Omit<Resource, "_id">
+    >({
+      query: (data) => ({
+        url: "resources/",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Resource"],
+    }),
+    updateResource: builder.mutation<
+      ApiResponse & { resource: Resource },
+      UpdateArgs<Resource>
+    >({
+      query: ({ _id, ...data }) => ({
+        url: `resources/${_id}`,
+        method: "PUT",
+        body: data,
+      }),
+      invalidatesTags: ["Resource"],
+    }),
+    deleteResource: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `resources/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Resource"],
+    }),
+
+    // Task assignments
+    fetchAssignments: builder.query<AssignmentsResponse, PaginationArgs>({
+      query: (params) => ({ url: "assined/get-assined", params }),
+      providesTags: ["Assignment"],
+    }),
+    createAssignment: builder.mutation<ApiResponse, Partial<Assignment>>({
+      query: (data) => ({
+        url: "assined/create",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Assignment", "Sale", "Dashboard"],
+    }),
+    updateAssignment: builder.mutation<ApiResponse, UpdateArgs<Assignment>>({
+      query: ({ _id, ...data }) => ({
+        url: `assined/update/${_id}`,
+        method: "PATCH",
+        body: data,
+      }),
+      invalidatesTags: ["Assignment", "Sale", "Dashboard"],
+    }),
+    updateAssignmentStatus: builder.mutation<
+      ApiResponse,
+      { _id: string; isCompleted: string }
+    >({
+      query: ({ _id, ...data }) => ({
+        url: `assined/update-status/${_id}`,
+        method: "PATCH",
+        body: data,
+      }),
+      invalidatesTags: ["Assignment", "Sale", "Dashboard"],
+    }),
+    deleteAssignment: builder.mutation<ApiResponse, string>({
+      query: (_id) => ({
+        url: `assined/delete/${_id}`,
+        method: "DELETE",
+      }),
+      invalidatesTags: ["Assignment", "Sale", "Dashboard"],
+    }),
+
+    // Scrap
+    fetchScraps: builder.query<ScrapsResponse, ListArgs | NoArgs>({
+      query: (params) => ({ url: "scrap/all", params: params || {} }),
+      providesTags: ["Scrap"],
+    }),
+
+    // Dashboards
+    fetchDashboard: builder.query<DashboardResponse, { filter: string }>({
+      query: (params) => ({ url: "dashboard", params }),
+      providesTags: ["Dashboard"],
+    }),
+    fetchDashboardStats: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/stats",
+      providesTags: ["Dashboard"],
+    }),
+    fetchSalesChart: builder.query<ChartResponse, ChartArgs>({
+      query: (params) => ({ url: "dashboard/sales", params }),
+      providesTags: ["Dashboard"],
+    }),
+    fetchDispatchChart: builder.query<ChartResponse, ChartArgs>({
+      query: (params) => ({ url: "dashboard/dispatch", params }),
+      providesTags: ["Dashboard"],
+    }),
+    fetchFinanceChart: builder.query<ChartResponse, ChartArgs>({
+      // The finance report reads the month from `mon`
+      query: ({ month, ...params }) => ({
+        url: "dashboard/finance",
+        params: { ...params, mon: month },
+      }),
+      providesTags: ["Dashboard"],
+    }),
+    fetchSalesDelivered: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/sales-delivered",
+      providesTags: ["Dashboard"],
+    }),
+    fetchInventoryStats: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/inventory-stats",
+      providesTags: ["Dashboard"],
+    }),
+    fetchWelcomeStats: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/welcome",
+      providesTags: ["Dashboard"],
+    }),
+    fetchMachineStatus: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/machine-status",
+      providesTags: ["Dashboard"],
+    }),
+    fetchMachineData: builder.query<DashboardResponse, { device_id: string }>({
+      query: (params) => ({ url: "dashboard/machine-data", params }),
+      providesTags: ["Dashboard"],
+    }),
+    // Latest counters pushed by the shop-floor device
+    fetchDeviceData: builder.query<DeviceDataResponse, NoArgs>({
+      query: () => "devicedata/get-device-data",
+      providesTags: ["Dashboard"],
+    }),
+    // Switches sent from the IoT dashboard to the device
+    sendDeviceControls: builder.mutation<ApiResponse, { [key: string]: any }>({
+      query: (data) => ({
+        url: "devicedata/dashboardtodb",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Dashboard"],
+    }),
+    saveMachineStatus: builder.mutation<ApiResponse, { [key: string]: any }>({
+      query: (data) => ({
+        url: "machine-status/save-machine-status",
+        method: "POST",
+        body: data,
+      }),
+      invalidatesTags: ["Dashboard"],
+    }),
+    fetchAccountantDashboard: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/accountant-dashboard",
+      providesTags: ["Dashboard"],
+    }),
+    fetchProductionDashboard: builder.query<DashboardResponse, NoArgs>({
+      query: () => "dashboard/production-dashboard",
+      providesTags: ["Dashboard"],
+    }),
+    fetchDesignerStats: builder.query<DashboardResponse, NoArgs>({
+      query: () => "assined/dashboard-stats",
+      providesTags: ["Assignment", "Dashboard"],
+    }),
+  }),
+});
+
+// export default api;
+export {
+  api,
+  productApi,
+  storeApi,
+  agentApi,
+  bomApi,
+  userRoleApi,
+  employeeApi,
+  proformaInvoiceApi,
+  invoiceApi,
+  paymentApi,
+  planningApi,
+  qualityApi,
+  maintenanceApi,
+  requisitionApi,
+  packagingApi,
+  voucherApi,
+  integrationApi,
+  notificationApi,
+  auditApi,
+  viewApi,
+  exportApi,
+  searchApi,
+  erpApi,
+};
+
+// Authentication APIs
+export const {
+  useLoginMutation,
+  useLazyLoginWithTokenQuery,
+  useRegisterMutation,
+  useVerifyUserMutation,
+  useResendOTPMutation,
   useResetPasswordMutation,
   useForgetPasswordMutation,
 } = api;
@@ -685,14 +2068,23 @@ export const {
 // Product APIs
 export const {
   useLazyFetchProductsQuery,
+  useLazyFetchWipProductsQuery,
   useAddProductMutation,
   useUpdateProductMutation,
   useDeleteProductMutation,
   useBulkDeleteProductsMutation,
   useLazyProductDetailsQuery,
+  useLazyFetchRawMaterialsQuery,
   useLazyUnapprovedProductsQuery,
   useProductBulKUploadMutation,
   useProductBulkUploadIndirectMutation,
+  useUpdateProductPriceMutation,
+  useClearUpdatedPriceMutation,
+  useClearUpdatedStockMutation,
+  useUpdateStockAndShortagesMutation,
+  useRemoveFromShortagesMutation,
+  useExportProductsMutation,
+  useDownloadProductSampleMutation,
 } = productApi;
 
 // Store APIs
@@ -723,14 +2115,24 @@ export const {
 export const {
   useLazyFetchBomsQuery,
   useAddBomMutation,
+  useAutoCreateBomMutation,
   useUpdateBOMMutation,
   useDeleteBomMutation,
+  useBulkDeleteBomsMutation,
   useLazyBomDetailsQuery,
+  useLazyFetchProductBomsQuery,
   useLazyUnapprovedBomsQuery,
+  useLazyFetchInventoryShortagesQuery,
+  useLazySalesOrderStatusQuery,
+  useLazyUnapprovedRawMaterialsQuery,
+  useApproveRawMaterialMutation,
+  useLazyFetchInventoryRawMaterialsQuery,
+  useApproveInventoryRawMaterialMutation,
 } = bomApi;
 
 // Use Role APIs
 export const {
+  useFetchRolesQuery,
   useLazyFetchRolesQuery,
   useAddRoleMutation,
   useUpdateRoleMutation,
@@ -740,15 +2142,19 @@ export const {
 
 // Employee APIs
 export const {
+  useEmployeeDetailsQuery,
   useLazyEmployeeDetailsQuery,
+  useLazyUserDetailsQuery,
   useLazyFetchEmployeesQuery,
   useUpdateEmployeeMutation,
+  useUpdateProfileMutation,
 } = employeeApi;
 
 // Proforma Invoice APIs
 export const {
   useLazyFetchProformaInvoicesQuery,
   useLazyProformaInvoiceDetailsQuery,
+  useLazyFetchNextProformaInvoiceNumberQuery,
   useCreateProformaInvoiceMutation,
   useUpdateProformaInvoiceMutation,
   useDeleteProformaInvoiceMutation,
@@ -756,6 +2162,7 @@ export const {
 
 // Invoice APIs
 export const {
+  useFetchInvoicesQuery,
   useLazyFetchInvoicesQuery,
   useLazyInvoiceDetailsQuery,
   useCreateInvoiceMutation,
@@ -763,21 +2170,240 @@ export const {
   useDeleteInvoiceMutation,
 } = invoiceApi;
 
+// Payment APIs
+export const {
+  useLazyFetchPaymentQuery,
+  useLazyPaymentDetailsQuery,
+  useCreatePaymentMutation,
+  useUpdatePaymentMutation,
+} = paymentApi;
+
+// Production Planning APIs
+export const {
+  useLazyFetchPlansQuery,
+  useLazyPlanDetailsQuery,
+  useCreatePlanMutation,
+  useUpdatePlanMutation,
+  useDeletePlanMutation,
+} = planningApi;
+
+// Quality APIs
+export const {
+  useLazyFetchInspectionPlansQuery,
+  useCreateInspectionPlanMutation,
+  useUpdateInspectionPlanMutation,
+  useDeleteInspectionPlanMutation,
+  useLazyFetchInspectionsQuery,
+  useCreateInspectionMutation,
+  useLazyFetchNcrsQuery,
+  useCreateNcrMutation,
+  useUpdateNcrMutation,
+} = qualityApi;
+
+// Maintenance APIs
+export const {
+  useLazyFetchMaintenancePlansQuery,
+  useCreateMaintenancePlanMutation,
+  useUpdateMaintenancePlanMutation,
+  useDeleteMaintenancePlanMutation,
+  useLazyFetchWorkOrdersQuery,
+  useCreateWorkOrderMutation,
+  useUpdateWorkOrderMutation,
+  useLazyFetchDowntimesQuery,
+  useCreateDowntimeMutation,
+  useUpdateDowntimeMutation,
+  useDeleteDowntimeMutation,
+} = maintenanceApi;
+
+// Purchase Requisition APIs
+export const {
+  useLazyFetchRequisitionsQuery,
+  useCreateRequisitionMutation,
+  useUpdateRequisitionMutation,
+  useApproveRequisitionMutation,
+  useDeleteRequisitionMutation,
+} = requisitionApi;
+
+// Packaging APIs
+export const {
+  useLazyFetchPackagesQuery,
+  useCreatePackagesMutation,
+  useUpdatePackageMutation,
+  useDeletePackageMutation,
+  useMarkPackagesDispatchedMutation,
+} = packagingApi;
+
+// Voucher APIs
+export const {
+  useLazyFetchVouchersQuery,
+  useCreateVoucherMutation,
+  useUpdateVoucherMutation,
+  useDeleteVoucherMutation,
+  useLazyFetchLedgersQuery,
+  useCreateLedgerMutation,
+  useUpdateLedgerMutation,
+} = voucherApi;
+
+// Integration APIs
+export const {
+  useLazyFetchWebhooksQuery,
+  useCreateWebhookMutation,
+  useUpdateWebhookMutation,
+  useDeleteWebhookMutation,
+  useTestWebhookMutation,
+  useLazyFetchWebhookDeliveriesQuery,
+  useRetryWebhookDeliveryMutation,
+  useLazyFetchApiKeysQuery,
+  useCreateApiKeyMutation,
+  useRevokeApiKeyMutation,
+  useLazyFetchConnectorsQuery,
+  useUpdateConnectorMutation,
+  useTestConnectorMutation,
+  useSyncConnectorMutation,
+} = integrationApi;
+
+// Notification APIs
+export const {
+  useLazyFetchNotificationsQuery,
+  useMarkNotificationReadMutation,
+  useMarkAllNotificationsReadMutation,
+  useLazyFetchNotificationPreferencesQuery,
+  useUpdateNotificationPreferencesMutation,
+} = notificationApi;
+
+// Audit APIs
+export const { useLazyFetchAuditLogsQuery, useLazyFetchRecordHistoryQuery } =
+  auditApi;
+
+// Table View APIs
+export const {
+  useLazyFetchTableViewsQuery,
+  useCreateTableViewMutation,
+  useUpdateTableViewMutation,
+  useDeleteTableViewMutation,
+} = viewApi;
+
+// Export APIs
+export const { useCreateExportJobMutation, useLazyFetchExportJobQuery } =
+  exportApi;
+
+// Search APIs
+export const { useLazyGlobalSearchQuery } = searchApi;
+
+// Sales APIs
+export const {
+  useFetchSalesQuery,
+  useLazyFetchSalesQuery,
+  useLazySaleDetailsQuery,
+  useCreateSaleMutation,
+  useUpdateSaleMutation,
+  useAddSaleTokenMutation,
+  useUploadSaleDesignMutation,
+} = erpApi;
+
+// Dispatch APIs
+export const {
+  useFetchDispatchesQuery,
+  useLazyFetchDispatchesQuery,
+  useLazyDispatchDetailsQuery,
+  useLazyFetchDispatchStatsQuery,
+  useCreateDispatchMutation,
+  useUpdateDispatchMutation,
+  useSendToDispatchMutation,
+  useUploadDispatchDocumentMutation,
+  useDownloadDispatchDocumentMutation,
+} = erpApi;
+
 // Process APIs
 export const {
   useLazyFetchProcessQuery,
   useLazyProcessDetailsQuery,
+  useLazyProcessMasterDetailsQuery,
+  useLazyFetchProcessesInInventoryQuery,
   useCreateProcessMutation,
   useUpdateProcessMutation,
   useDeleteProcessMutation,
-} = processApi;
+  useBulkDeleteProcessesMutation,
+  useScheduleProcessMutation,
+  useUpdateProcessStatusMutation,
+  useRequestInventoryAllocationMutation,
+  useMarkInventoryInTransitMutation,
+  useStartProductionMutation,
+  useMarkProcessDoneMutation,
+  usePauseProcessMutation,
+  useMarkOutFinishGoodsMutation,
+  useMoveProcessToInventoryMutation,
+  useReceiveByInventoryMutation,
+  useUpdateProcessInventoryStatusMutation,
+} = erpApi;
 
-// Payment APIs
+// Party APIs
 export const {
-  useLazyFetchPaymentQuery,
-  useLazyPaymentDetailsQuery,
-  useCreatePaymentMutation,
-  useUpdatePaymentMutation,
-} = paymentApi;
+  useLazyFetchPartiesQuery,
+  useLazyPartyDetailsQuery,
+  useCreatePartyMutation,
+  useUpdatePartyMutation,
+  useDeletePartyMutation,
+  usePartiesBulkUploadMutation,
+} = erpApi;
+
+// Purchase Order APIs
+export const {
+  useLazyFetchPurchaseOrdersQuery,
+  useLazyPurchaseOrderDetailsQuery,
+  useLazyFetchNextPoNumberQuery,
+  useCreatePurchaseOrderMutation,
+  useUpdatePurchaseOrderMutation,
+  useDeletePurchaseOrderMutation,
+  useBulkDeletePurchaseOrdersMutation,
+  useLazyFetchSuppliersQuery,
+  useLazySupplierDetailsQuery,
+} = erpApi;
 
-export const { useLazyFetchDispatchStatsQuery } = dispatchApi;
+// Goods Receipt APIs
+export const {
+  useLazyFetchGoodsReceiptsQuery,
+  useCreateGoodsReceiptMutation,
+  usePostGoodsReceiptMutation,
+  useDeleteGoodsReceiptMutation,
+} = erpApi;
+
+// Resource APIs
+export const {
+  useLazyFetchResourcesQuery,
+  useCreateResourceMutation,
+  useUpdateResourceMutation,
+  useDeleteResourceMutation,
+} = erpApi;
+
+// Task Assignment APIs
+export const {
+  useLazyFetchAssignmentsQuery,
+  useCreateAssignmentMutation,
+  useUpdateAssignmentMutation,
+  useUpdateAssignmentStatusMutation,
+  useDeleteAssignmentMutation,
+} = erpApi;
+
+// Scrap APIs
+export const { useLazyFetchScrapsQuery } = erpApi;
+
+// Dashboard APIs
+export const {
+  useLazyFetchDashboardQuery,
+  useLazyFetchDashboardStatsQuery,
+  useLazyFetchSalesChartQuery,
+  useLazyFetchDispatchChartQuery,
+  useLazyFetchFinanceChartQuery,
+  useLazyFetchSalesDeliveredQuery,
+  useLazyFetchInventoryStatsQuery,
+  useLazyFetchWelcomeStatsQuery,
+  useLazyFetchMachineStatusQuery,
+  useLazyFetchMachineDataQuery,
+  useLazyFetchDeviceDataQuery,
+  useSaveMachineStatusMutation,
+  useSendDeviceControlsMutation,
+  useLazyFetchAccountantDashboardQuery,
+  useLazyFetchProductionDashboardQuery,
+  useLazyFetchDesignerStatsQuery,
+} = erpApi;
@@ -0,0 +1,821 @@
+// Shapes shared by the typed endpoints in api.ts. Documents come straight
+// from the backend, so only the fields the UI relies on are spelled out.
+
+export interface ApiResponse {
+  success?: boolean;
+  message?: string;
+}
+
+export interface ApiError {
+  status: number | string;
+  message: string;
+  data: ApiResponse & { [key: string]: any };
+}
+
+// Lazy queries without arguments are triggered with `{}` across the app
+export type NoArgs = void | Record<string, never>;
+
+export type UpdateArgs<T extends { _id: string }> = Pick<T, "_id"> &
+  Partial<T> & { [key: string]: any };
+
+export interface PaginationArgs {
+  page?: number;
+  limit?: number;
+}
+
+export type SortOrder = "asc" | "desc";
+
+// Query of a server-side list, built by useTableQuery. Filters are sent as
+// plain query params next to the paging and sort keys.
+export interface ListArgs extends PaginationArgs {
+  sort?: string;
+  order?: SortOrder;
+  search?: string;
+  [filter: string]: string | number | undefined;
+}
+
+export interface User {
+  _id: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  phone?: string;
+  isSuper?: boolean;
+  role?: Role;
+  [key: string]: any;
+}
+
+// Auth forms keep their fields in optional state and leave the checks to
+// the backend
+export interface LoginArgs {
+  email?: string;
+  password?: string;
+}
+
+export interface RegisterArgs {
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  password?: string;
+  phone?: string;
+}
+
+export interface OtpArgs {
+  email?: string;
+  otp?: string;
+}
+
+export interface ResetPasswordArgs extends OtpArgs {
+  password?: string;
+}
+
+export interface Role {
+  _id: string;
+  role: string;
+  description?: string;
+  permissions?: string[];
+  [key: string]: any;
+}
+
+export interface Product {
+  _id: string;
+  product_id?: string;
+  name: string;
+  category?: string;
+  inventory_category?: string;
+  uom?: string;
+  approved?: boolean;
+  [key: string]: any;
+}
+
+// Quantity of a product held between production stages of a BOM
+export interface WipProduct {
+  _id: string;
+  estimated_quantity?: number;
+  used_quantity?: number;
+  remaining_quantity?: number;
+  bom?: any;
+  [key: string]: any;
+}
+
+export interface Store {
+  _id: string;
+  name: string;
+  approved?: boolean;
+  [key: string]: any;
+}
+
+// Buyers and suppliers created before parties existed
+export interface Agent {
+  _id: string;
+  name?: string;
+  company_name?: string;
+  agent_type?: string;
+  approved?: boolean;
+  [key: string]: any;
+}
+
+export interface Bom {
+  _id: string;
+  bom_name: string;
+  finished_good?: any;
+  raw_materials?: any[];
+  scrap_materials?: any[];
+  processes?: string[];
+  total_cost?: number;
+  sale_id?: any;
+  approved?: boolean;
+  [key: string]: any;
+}
+
+// The product's BOM scaled to `quantity` and saved by the backend
+export interface AutoBomArgs {
+  product_id: string;
+  quantity: number;
+  sale_id?: string;
+}
+
+// A BOM raw material line waiting for inventory or production approval
+export interface BomRawMaterial {
+  _id: string;
+  bom?: any;
+  item?: any;
+  quantity?: number;
+  [key: string]: any;
+}
+
+export interface InventoryShortage {
+  bom_name: string;
+  item_name: string;
+  item: string;
+  shortage_quantity: number;
+  total_required?: number;
+  available_stock?: number;
+  current_stock: number;
+  original_stock?: number;
+  current_price: number;
+  updated_price?: number | null;
+  price_change?: number;
+  price_change_percentage?: number;
+  updated_at: string;
+  is_grouped?: boolean;
+}
+
+// Progress of a sales order through BOM, inventory and production
+export interface SalesOrderStatus {
+  overallStatus?: string;
+  bomId?: string;
+  bomStatus?: string;
+  inventoryStatus?: string;
+  productionStatus?: string;
+  productionProcessId?: string;
+  inventoryDetails?: any[];
+  productionDetails?: any;
+  bomDetails?: any;
+  [key: string]: any;
+}
+
+export interface ProformaInvoice {
+  _id: string;
+  buyer?: any;
+  supplier?: any;
+  items?: any[];
+  total?: number;
+  [key: string]: any;
+}
+
+export interface Invoice {
+  _id: string;
+  invoice_no?: string;
+  buyer?: any;
+  supplier?: any;
+  store?: any;
+  items?: any[];
+  subtotal?: number;
+  total?: number;
+  balance?: number;
+  [key: string]: any;
+}
+
+export interface Payment {
+  _id: string;
+  invoice?: any;
+  amount?: number;
+  mode?: string;
+  [key: string]: any;
+}
+
+export interface Party {
+  _id: string;
+  cust_id?: string;
+  type?: string;
+  parties_type?: string;
+  consignee_name?: string[];
+  company_name?: string;
+  email_id?: string[];
+  contact_number?: string[];
+  [key: string]: any;
+}
+
+export interface SaleItem {
+  product_id?: any;
+  quantity?: number;
+  price?: number;
+  GST?: number;
+  uom?: string;
+  delivery_date?: string;
+  [key: string]: any;
+}
+
+export interface Sale {
+  _id: string;
+  order_id?: string;
+  party?: Party;
+  // Single product of orders created before line items, read through
+  // getSaleItems
+  product_id?: any[];
+  product_qty?: number;
+  price?: number;
+  GST?: number;
+  total_price?: number;
+  Status?: string;
+  items?: SaleItem[];
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface Dispatch {
+  _id: string;
+  order_id?: string;
+  sales_order_id?: string;
+  sale_id?: string;
+  dispatch_status?: string;
+  dispatch_qty?: number;
+  tracking_id?: string;
+  tracking_web?: string;
+  delivery_proof?: { filename?: string; originalName?: string };
+  invoice?: any;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export type DispatchDocument = "delivery-proof" | "invoice";
+
+export interface ProductionProcess {
+  _id: string;
+  status?: string;
+  bom?: any;
+  item?: any;
+  processes?: any[];
+  createdAt?: string;
+  [key: string]: any;
+}
+
+// References are ids
+export interface CreateProcessArgs {
+  item: string;
+  bom: string;
+  bom_revision?: number;
+  quantity: number;
+  rm_store?: string;
+  fg_store?: string;
+  scrap_store?: string;
+}
+
+export interface ScheduleProcessArgs {
+  _id: string;
+  resource: string | null;
+  planned_start: string | null;
+  planned_end: string | null;
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  poOrder: string;
+  date: string;
+  itemName: string;
+  supplierName: string;
+  supplierEmail: string;
+  supplierShippedGSTIN: string;
+  supplierBillGSTIN: string;
+  supplierShippedTo: string;
+  supplierBillTo: string;
+  modeOfPayment: string;
+  GSTApply: string;
+  billingAddress: string;
+  additionalImportant?: string;
+  items?: any[];
+  requisition?: string;
+  status?: PurchaseOrderStatus;
+  createdAt?: string;
+  updatedAt?: string;
+  [key: string]: any;
+}
+
+// Set by the backend as goods receipts are posted against the order
+export type PurchaseOrderStatus = "Ordered" | "Partially Received" | "Received";
+
+export interface GoodsReceiptItem {
+  // _id of the purchase order line being received
+  po_item?: string;
+  item_name: string;
+  product_id?: string;
+  uom?: string;
+  accepted_qty: number;
+  rejected_qty: number;
+  batch_no?: string;
+}
+
+export interface GoodsReceipt {
+  _id: string;
+  grn_number?: string;
+  purchase_order: string | PurchaseOrder;
+  store: string | { _id: string; name?: string };
+  received_date: string;
+  // Stock only moves when a receipt is posted
+  status: "Draft" | "Posted";
+  items: GoodsReceiptItem[];
+  remarks?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface Supplier {
+  _id: string;
+  name?: string;
+  company_name?: string;
+  email?: string;
+  [key: string]: any;
+}
+
+export interface Resource {
+  _id: string;
+  name: string;
+  type: string;
+  specification?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface Assignment {
+  _id: string;
+  sale_id?: Sale[];
+  assined_to?: any;
+  assined_by?: any[];
+  assined_process?: string;
+  assinedby_comment?: string;
+  isCompleted?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface Scrap {
+  _id: string;
+  bom?: any;
+  item?: any;
+  produced_quantity?: number;
+  estimated_quantity?: number;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface ChartDataset {
+  label?: string;
+  data: number[];
+}
+
+export interface ChartResponse extends ApiResponse {
+  labels: string[];
+  datasets: ChartDataset[];
+  [key: string]: any;
+}
+
+export interface ChartArgs {
+  view: string;
+  year?: number | string;
+  month?: number;
+}
+
+export interface ProductionPlan {
+  _id: string;
+  name?: string;
+  target_date?: string;
+  sales_orders?: any[];
+  status?: string;
+  remarks?: string;
+  [key: string]: any;
+}
+
+export interface InspectionPlan {
+  _id: string;
+  product?: any;
+  stages?: string[];
+  sample_size?: number;
+  parameters?: any[];
+  [key: string]: any;
+}
+
+export interface Inspection {
+  _id: string;
+  stage?: string;
+  product?: any;
+  inspected_qty?: number;
+  accepted_qty?: number;
+  rejected_qty?: number;
+  rework_qty?: number;
+  parameter_results?: any[];
+  createdAt?: string;
+  [key: string]: any;
+}
+
+// Non-conformance report, raised from a failed inspection or by hand
+export interface Ncr {
+  _id: string;
+  ncr_id?: string;
+  title?: string;
+  severity?: string;
+  disposition?: string;
+  status?: string;
+  inspection?: any;
+  [key: string]: any;
+}
+
+export interface MaintenancePlan {
+  _id: string;
+  title?: string;
+  resource?: any;
+  trigger?: string;
+  interval_days?: number;
+  interval_value?: number;
+  last_service_date?: string;
+  last_service_reading?: number;
+  [key: string]: any;
+}
+
+export interface WorkOrder {
+  _id: string;
+  plan?: any;
+  checklist?: any[];
+  status?: string;
+  completed_at?: string;
+  meter_reading?: number;
+  [key: string]: any;
+}
+
+export interface Downtime {
+  _id: string;
+  resource?: any;
+  start?: string;
+  end?: string;
+  reason?: string;
+  remarks?: string;
+  [key: string]: any;
+}
+
+export interface Requisition {
+  _id: string;
+  requisition_id?: string;
+  lines?: any[];
+  status?: string;
+  required_by?: string;
+  remarks?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface Package {
+  _id: string;
+  package_id?: string;
+  type?: string;
+  status?: string;
+  sales_order?: any;
+  product_id?: string;
+  quantity?: number;
+  [key: string]: any;
+}
+
+export interface MarkPackagesDispatchedArgs {
+  packages: string[];
+  order_id?: string;
+  [key: string]: any;
+}
+
+export interface Voucher {
+  _id: string;
+  voucher_no?: string;
+  voucher_type?: string;
+  date?: string;
+  entries?: any[];
+  narration?: string;
+  [key: string]: any;
+}
+
+export interface Ledger {
+  _id: string;
+  name: string;
+  group?: string;
+  opening_balance?: number;
+  opening_type?: string;
+  [key: string]: any;
+}
+
+export interface Webhook {
+  _id: string;
+  url: string;
+  events?: string[];
+  active?: boolean;
+  last_delivery_at?: string;
+  [key: string]: any;
+}
+
+export interface WebhookDelivery {
+  _id: string;
+  webhook?: any;
+  event?: string;
+  status?: string;
+  response_code?: number;
+  attempts?: number;
+  error?: string;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface ApiKey {
+  _id: string;
+  name: string;
+  expires_at?: string;
+  last_used_at?: string;
+  revoked?: boolean;
+  createdAt?: string;
+  [key: string]: any;
+}
+
+export interface Connector {
+  type: string;
+  enabled?: boolean;
+  last_synced_at?: string;
+  last_error?: string;
+  [key: string]: any;
+}
+
+export type NotificationType =
+  | "approval.pending"
+  | "task.assigned"
+  | "sample.pending"
+  | "dispatch.delivered"
+  | "inventory.shortage";
+
+export interface AppNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message?: string;
+  // Record the notification is about, used to open its drawer
+  record_id?: string;
+  // Admin Approval section (products, stores, buyers, ...) for approvals
+  section?: string;
+  read: boolean;
+  createdAt: string;
+}
+
+export interface NotificationPreferences {
+  disabled_types: NotificationType[];
+}
+
+export type AuditAction = "create" | "update" | "approve" | "delete";
+
+export interface AuditChange {
+  // Dotted path for nested fields, e.g. "finished_good.quantity"
+  field: string;
+  from?: any;
+  to?: any;
+}
+
+export interface AuditEvent {
+  _id: string;
+  module: string;
+  record_id: string;
+  // Human readable reference such as a product or invoice number
+  record_label?: string;
+  action: AuditAction;
+  changes?: AuditChange[];
+  user?: {
+    _id: string;
+    first_name?: string;
+    last_name?: string;
+    email?: string;
+  };
+  createdAt: string;
+}
+
+export interface RecordHistoryArgs {
+  module: string;
+  recordId: string;
+}
+
+export interface ColumnLayout {
+  order: string[];
+  hidden: string[];
+  pinned: string[];
+  widths: { [id: string]: number };
+}
+
+export interface TableView {
+  _id: string;
+  // Key of the table the view belongs to, e.g. "products"
+  table: string;
+  name: string;
+  // Shared views are listed for every user, not just their creator
+  shared: boolean;
+  layout: ColumnLayout;
+  // Filters, search and sort as the page's URL query string
+  query: string;
+  creator?: string | { _id: string; first_name?: string; last_name?: string };
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+// "visible" exports the columns shown in the table, "all" every field of the
+// records as returned by the backend
+export type ExportScope = "visible" | "all";
+
+export interface ExportJobArgs {
+  // Key of the list being exported, e.g. "products"
+  resource: string;
+  format: ExportFormat;
+  scope: ExportScope;
+  columns?: { field: string; label: string }[];
+  hidden_fields?: string[];
+  params?: ListArgs;
+}
+
+export interface ExportJob {
+  _id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  file_url?: string;
+  error?: string;
+}
+
+export type SearchEntityType =
+  | "product"
+  | "party"
+  | "sale"
+  | "bom"
+  | "invoice"
+  | "purchase_order"
+  | "dispatch";
+
+// A record matched by the global search endpoint
+export interface SearchResult {
+  _id: string;
+  type: SearchEntityType;
+  // Name or number the record is known by, e.g. a BOM name or an order id
+  title: string;
+  subtitle?: string;
+  // Inventory category of products, "direct" or "indirect"
+  category?: string;
+}
+
+export interface GlobalSearchArgs {
+  q: string;
+  limit?: number;
+}
+
+export type SalesResponse = ApiResponse & { data: Sale[]; totalData?: number };
+export type SaleResponse = ApiResponse & { data: Sale };
+export type DispatchesResponse = ApiResponse & {
+  data: Dispatch[];
+  totalData?: number;
+};
+export type DispatchResponse = ApiResponse & { data: Dispatch };
+export type ProcessesResponse = ApiResponse & {
+  production_processes: ProductionProcess[];
+};
+export type ProcessResponse = ApiResponse & {
+  production_process: ProductionProcess;
+};
+export type ProcessMasterResponse = ApiResponse & {
+  process: { [key: string]: any };
+};
+export type PartiesResponse = ApiResponse & {
+  data: Party[];
+  totalData?: number;
+};
+export type PartyResponse = ApiResponse & { data: Party };
+export type PurchaseOrdersResponse = ApiResponse & {
+  purchase_orders: PurchaseOrder[];
+  totalData?: number;
+};
+export type PurchaseOrderResponse = ApiResponse & {
+  purchase_order: PurchaseOrder;
+};
+export type GoodsReceiptsResponse = ApiResponse & { grns: GoodsReceipt[] };
+export type SuppliersResponse = ApiResponse & { suppliers: Supplier[] };
+export type ResourcesResponse = ApiResponse & { resources: Resource[] };
+export type AssignmentsResponse = ApiResponse & {
+  data: Assignment[];
+  totalData?: number;
+};
+export type ScrapsResponse = ApiResponse & {
+  scraps: Scrap[];
+  totalData?: number;
+};
+export type LoginResponse = ApiResponse & { token: string; user: User };
+export type UserResponse = ApiResponse & { user: User };
+export type UsersResponse = ApiResponse & { users: User[] };
+export type RolesResponse = ApiResponse & { roles: Role[] };
+export type RoleResponse = ApiResponse & { userRole: Role };
+export type ProductsResponse = ApiResponse & {
+  products: Product[];
+  totalData?: number;
+};
+export type ProductResponse = ApiResponse & { product: Product };
+export type StockUpdateResponse = ApiResponse & {
+  stockChange: { oldStock: number; newStock: number };
+  shortageUpdate?: {
+    removedShortages: number;
+    activeShortages: number;
+    createdShortages: number;
+  };
+};
+export type RawMaterialsResponse = ApiResponse & { rawMaterials: Product[] };
+export type WipProductsResponse = ApiResponse & { products: WipProduct[] };
+export type StoresResponse = ApiResponse & { stores: Store[] };
+export type StoreResponse = ApiResponse & { store: Store };
+export type AgentsResponse = ApiResponse & { agents: Agent[] };
+export type AgentResponse = ApiResponse & { agent: Agent };
+export type UnapprovedResponse<T> = ApiResponse & { unapproved: T[] };
+export type BomsResponse = ApiResponse & {
+  boms: Bom[];
+  totalData?: number;
+};
+export type BomResponse = ApiResponse & { bom: Bom };
+export type InventoryShortagesResponse = ApiResponse & {
+  shortages: InventoryShortage[];
+};
+export type ProformaInvoicesResponse = ApiResponse & {
+  proforma_invoices: ProformaInvoice[];
+};
+export type ProformaInvoiceResponse = ApiResponse & {
+  proforma_invoice: ProformaInvoice;
+};
+export type InvoicesResponse = ApiResponse & {
+  invoices: Invoice[];
+  totalData?: number;
+};
+export type InvoiceResponse = ApiResponse & { invoice: Invoice };
+export type PaymentsResponse = ApiResponse & {
+  payments: Payment[];
+  totalData?: number;
+};
+export type PaymentResponse = ApiResponse & { payment: Payment };
+export type PlansResponse = ApiResponse & { plans: ProductionPlan[] };
+export type PlanResponse = ApiResponse & { plan: ProductionPlan };
+export type InspectionPlansResponse = ApiResponse & {
+  plans: InspectionPlan[];
+};
+export type InspectionsResponse = ApiResponse & {
+  inspections: Inspection[];
+};
+export type NcrsResponse = ApiResponse & { ncrs: Ncr[] };
+export type MaintenancePlansResponse = ApiResponse & {
+  plans: MaintenancePlan[];
+};
+export type WorkOrdersResponse = ApiResponse & { work_orders: WorkOrder[] };
+export type DowntimesResponse = ApiResponse & { downtimes: Downtime[] };
+export type RequisitionsResponse = ApiResponse & {
+  requisitions: Requisition[];
+};
+export type PackagesResponse = ApiResponse & { packages: Package[] };
+export type VouchersResponse = ApiResponse & { vouchers: Voucher[] };
+export type LedgersResponse = ApiResponse & { ledgers: Ledger[] };
+export type WebhooksResponse = ApiResponse & { webhooks: Webhook[] };
+export type WebhookDeliveriesResponse = ApiResponse & {
+  deliveries: WebhookDelivery[];
+};
+export type ApiKeysResponse = ApiResponse & { api_keys: ApiKey[] };
+// The secret is only returned once, when the key is created
+export type ApiKeyResponse = ApiResponse & { api_key?: ApiKey; key: string };
+export type ConnectorsResponse = ApiResponse & { connectors: Connector[] };
+export type NotificationsResponse = ApiResponse & {
+  notifications: AppNotification[];
+};
+export type NotificationPreferencesResponse = ApiResponse & {
+  preferences?: NotificationPreferences;
+};
+export type AuditEventsResponse = ApiResponse & {
+  events: AuditEvent[];
+  totalData?: number;
+};
+export type TableViewsResponse = ApiResponse & { views: TableView[] };
+export type TableViewResponse = ApiResponse & { view: TableView };
+export type ExportJobResponse = ApiResponse & { job: ExportJob };
+export type SearchResponse = ApiResponse & { results: SearchResult[] };
+// A file download resolved to an object URL; revoke it once the download
+// has started
+export interface FileDownload {
+  url: string;
+  filename?: string;
+}
+export type DashboardResponse = ApiResponse & { [key: string]: any };
+export type DeviceDataResponse = ApiResponse & { data: any[] };
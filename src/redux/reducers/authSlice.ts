@@ -7,6 +7,8 @@ const initialState = {
     email: undefined,
     phone: undefined,
     allowedroutes: [],
+    // Actions granted per module, e.g. { sales: ["view", "create"] }
+    permissions: {},
     isSuper: false,
     isVerified:false,
 }
@@ -22,6 +24,7 @@ const authSlice = createSlice({
             state.email = action.payload.email;
             state.phone = action.payload.phone;
             state.allowedroutes = action.payload?.role?.permissions || [];
+            state.permissions = action.payload?.role?.actions || {};
             state.isSuper = action.payload.isSuper;
             state.isVerified = action.payload.isVerified
         },
@@ -32,6 +35,7 @@ const authSlice = createSlice({
             state.email = undefined;
             state.phone = undefined;
             state.allowedroutes = [];
+            state.permissions = {};
             state.isSuper = false;
             state.isVerified = false;
         }
@@ -61,6 +61,12 @@ const initialState = {
 
   // Resources Drawer
   isAddResourceDrawerOpened: false,
+
+  // Details drawers opened from the command palette
+  isSaleDetailsDrawerOpened: false,
+  isPartyDetailsDrawerOpened: false,
+  isPurchaseOrderDetailsDrawerOpened: false,
+  isDispatchDetailsDrawerOpened: false,
   
 };
 
@@ -312,7 +318,35 @@ const drawersSlice = createSlice({
     },
     closeAddResourceDrawer: (state) => {
       state.isAddResourceDrawerOpened = false;
-    }
+    },
+    // Sale Details Drawer
+    openSaleDetailsDrawer: (state) => {
+      state.isSaleDetailsDrawerOpened = true;
+    },
+    closeSaleDetailsDrawer: (state) => {
+      state.isSaleDetailsDrawerOpened = false;
+    },
+    // Party Details Drawer
+    openPartyDetailsDrawer: (state) => {
+      state.isPartyDetailsDrawerOpened = true;
+    },
+    closePartyDetailsDrawer: (state) => {
+      state.isPartyDetailsDrawerOpened = false;
+    },
+    // Purchase Order Details Drawer
+    openPurchaseOrderDetailsDrawer: (state) => {
+      state.isPurchaseOrderDetailsDrawerOpened = true;
+    },
+    closePurchaseOrderDetailsDrawer: (state) => {
+      state.isPurchaseOrderDetailsDrawerOpened = false;
+    },
+    // Dispatch Details Drawer
+    openDispatchDetailsDrawer: (state) => {
+      state.isDispatchDetailsDrawerOpened = true;
+    },
+    closeDispatchDetailsDrawer: (state) => {
+      state.isDispatchDetailsDrawerOpened = false;
+    },
   },
 });
 
@@ -388,4 +422,12 @@ export const {
   closeAddPurchaseOrderDrawer,
   openAddResourceDrawer,
   closeAddResourceDrawer,
+  openSaleDetailsDrawer,
+  closeSaleDetailsDrawer,
+  openPartyDetailsDrawer,
+  closePartyDetailsDrawer,
+  openPurchaseOrderDetailsDrawer,
+  closePurchaseOrderDetailsDrawer,
+  openDispatchDetailsDrawer,
+  closeDispatchDetailsDrawer,
 } = drawersSlice.actions;
@@ -3,11 +3,22 @@ import {
   agentApi,
   api,
   bomApi,
-  dispatchApi,
   employeeApi,
   invoiceApi,
   paymentApi,
-  processApi,
+  planningApi,
+  qualityApi,
+  maintenanceApi,
+  requisitionApi,
+  packagingApi,
+  voucherApi,
+  integrationApi,
+  notificationApi,
+  auditApi,
+  viewApi,
+  exportApi,
+  searchApi,
+  erpApi,
   productApi,
   proformaInvoiceApi,
   storeApi,
@@ -20,7 +31,6 @@ const store = configureStore({
   reducer: {
     [authSlice.name]: authSlice.reducer,
     [drawersSlice.name]: drawersSlice.reducer,
-    [processApi.reducerPath]: processApi.reducer, // ✅ ADD THIS
     // (optional) others like:
     [productApi.reducerPath]: productApi.reducer,
     [storeApi.reducerPath]: storeApi.reducer,
@@ -31,7 +41,19 @@ const store = configureStore({
     [proformaInvoiceApi.reducerPath]: proformaInvoiceApi.reducer,
     [invoiceApi.reducerPath]: invoiceApi.reducer,
     [paymentApi.reducerPath]: paymentApi.reducer,
-    [dispatchApi.reducerPath]: dispatchApi.reducer,
+    [planningApi.reducerPath]: planningApi.reducer,
+    [qualityApi.reducerPath]: qualityApi.reducer,
+    [maintenanceApi.reducerPath]: maintenanceApi.reducer,
+    [requisitionApi.reducerPath]: requisitionApi.reducer,
+    [packagingApi.reducerPath]: packagingApi.reducer,
+    [voucherApi.reducerPath]: voucherApi.reducer,
+    [integrationApi.reducerPath]: integrationApi.reducer,
+    [notificationApi.reducerPath]: notificationApi.reducer,
+    [auditApi.reducerPath]: auditApi.reducer,
+    [viewApi.reducerPath]: viewApi.reducer,
+    [exportApi.reducerPath]: exportApi.reducer,
+    [searchApi.reducerPath]: searchApi.reducer,
+    [erpApi.reducerPath]: erpApi.reducer,
   },
   middleware: (getDefaultMiddleware) =>
     getDefaultMiddleware().concat([
@@ -44,9 +66,20 @@ const store = configureStore({
       employeeApi.middleware,
       proformaInvoiceApi.middleware,
       invoiceApi.middleware,
-      processApi.middleware,
       paymentApi.middleware,
-      dispatchApi.middleware,
+      planningApi.middleware,
+      qualityApi.middleware,
+      maintenanceApi.middleware,
+      requisitionApi.middleware,
+      packagingApi.middleware,
+      voucherApi.middleware,
+      integrationApi.middleware,
+      notificationApi.middleware,
+      auditApi.middleware,
+      viewApi.middleware,
+      exportApi.middleware,
+      searchApi.middleware,
+      erpApi.middleware,
     ]),
 });
 
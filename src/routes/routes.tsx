@@ -46,12 +46,18 @@ import Parties from "../pages/Parties";
 import { IoIosPeople } from "react-icons/io";
 import Task from "../pages/Task";
 import { 
+  BookOpen,
   Box,
   Calendar,
+  ClipboardList,
   Component,
   Construction,
   Container,
   HandCoins,
+  Handshake,
+  History,
+  PackageOpen,
+  Plug,
   Presentation,
   ScanBarcode,
   ShieldCheck,
@@ -61,6 +67,7 @@ import {
   Wrench,
   BarChart3,
   Activity,
+  SquareChartGantt,
 } from "lucide-react";
 import Dashboard from "../pages/Dashboard";
 import Planning from "../pages/Planning";
@@ -75,6 +82,7 @@ import ResourcesApproval from "../pages/ResourcesApproval";
 import Packaging from "../pages/Packaging";
 import Vouchers from "../pages/Vouchers";
 import Integration from "../pages/Integration";
+import AuditLog from "../pages/AuditLog";
 import PurchaseOrder from "../pages/PurchaseOrder";
 import Precurement from "../pages/Precurement";
 import Resources from "../pages/Resources";
@@ -129,6 +137,13 @@ const routes = [
     element: <MachineStatus />,
     isSublink: false,
   },
+  {
+    name: "Maintenance",
+    icon: <Construction />,
+    path: "maintenance",
+    element: <Maintenance />,
+    isSublink: false,
+  },
   {
     name: "Merchant",
     icon: <IoIosPeople />,
@@ -206,6 +221,18 @@ const routes = [
         path: "purchase-order",
         element: <PurchaseOrder />,
       },
+      {
+        name: "Suppliers",
+        icon: <Handshake />,
+        path: "suppliers",
+        element: <Supplier />,
+      },
+      {
+        name: "Requisitions",
+        icon: <ClipboardList />,
+        path: "requisitions",
+        element: <Precurement />,
+      },
     ],
     isSublink: true,
   },
@@ -221,6 +248,18 @@ const routes = [
         path: "bom",
         element: <BOM />,
       },
+      {
+        name: "Planning",
+        icon: <Calendar />,
+        path: "planning",
+        element: <Planning />,
+      },
+      {
+        name: "Scheduling",
+        icon: <SquareChartGantt />,
+        path: "scheduling",
+        element: <Scheduling />,
+      },
       {
         name: "Pre Production",
         icon: <VscServerProcess />,
@@ -233,9 +272,22 @@ const routes = [
         path: "production-status",
         element: <ProductionStatus />,
       },
+      {
+        name: "Quality",
+        icon: <ShieldCheck />,
+        path: "quality",
+        element: <Quality />,
+      },
     ],
     isSublink: true,
   },
+  {
+    name: "Packaging",
+    icon: <PackageOpen />,
+    path: "packaging",
+    element: <Packaging />,
+    isSublink: false,
+  },
   {
     name: "Dispatch",
     icon: <TbTruckDelivery />,
@@ -279,6 +331,12 @@ const routes = [
         path: "payment",
         element: <Payment />,
       },
+      {
+        name: "Vouchers",
+        icon: <BookOpen />,
+        path: "vouchers",
+        element: <Vouchers />,
+      },
     ],
     isSublink: true,
   },
@@ -304,6 +362,20 @@ const routes = [
     element: <Approvals />,
     isSublink: false,
   },
+  {
+    name: "Integrations",
+    icon: <Plug />,
+    path: "integration",
+    element: <Integration />,
+    isSublink: false,
+  },
+  {
+    name: "Audit Log",
+    icon: <History />,
+    path: "audit-log",
+    element: <AuditLog />,
+    isSublink: false,
+  },
   {
     name: "User Profile",
     icon: <CgProfile />,